@@ -10,9 +10,10 @@ import StudentLanding from "./pages/StudentLanding";
 import HomeLearner from "./pages/HomeLearner";
 import StudentClassScores from "./pages/StudentClassScores";
 import StudentPracticeExercise from "./pages/StudentPracticeExercise";
+import TrailblazerSession from "./pages/TrailblazerSession";
 import MistakePatternDemo from "./pages/MistakePatternDemo";
 import ImpactDashboard from "./pages/ImpactDashboard";
-import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { AuthProvider, useAuth, type UserRole } from "./contexts/AuthContext";
 import { DevRoleProvider, useDevRole } from "./contexts/DevRoleContext";
 import { MultiSkillSelectionProvider } from "./contexts/MultiSkillSelectionContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
@@ -26,6 +27,8 @@ import StudentLearnerProfile from "./pages/StudentLearnerProfile";
 import StudentQuiz from "./pages/StudentQuiz";
 import ClassRunner from "./pages/ClassRunner";
 import LessonPlanner from "./pages/LessonPlanner";
+import GuardianDashboard from "./pages/GuardianDashboard";
+import SchoolDashboard from "./pages/SchoolDashboard";
 import { DEV_CONFIG } from "./config/devConfig";
 
 const queryClient = new QueryClient();
@@ -34,7 +37,7 @@ function AppRoutes() {
   const { user, profile, loading } = useAuth();
   
   // Get dev role for routing decisions
-  let currentRole: 'teacher' | 'student' = 'teacher';
+  let currentRole: UserRole = 'teacher';
   try {
     const { currentRole: devRole, isDevMode } = useDevRole();
     if (isDevMode) {
@@ -68,7 +71,8 @@ function AppRoutes() {
         path="/" 
         element={
           <ProtectedRoute>
-            {currentRole === 'student' ? <Navigate to="/student-dashboard" replace /> : <Index />}
+            {currentRole === 'student' ? <Navigate to="/student-dashboard" replace /> :
+              currentRole === 'guardian' ? <Navigate to="/guardian" replace /> : <Index />}
           </ProtectedRoute>
         } 
       />
@@ -118,6 +122,24 @@ function AppRoutes() {
         } 
       />
       
+      <Route 
+        path="/student-dashboard/trailblazer/:sessionId" 
+        element={
+          <ProtectedRoute requiredRole={DEV_CONFIG.DISABLE_AUTH_FOR_DEV ? undefined : "student"}>
+            <TrailblazerSession />
+          </ProtectedRoute>
+        } 
+      />
+      
+      <Route 
+        path="/guardian" 
+        element={
+          <ProtectedRoute requiredRole={DEV_CONFIG.DISABLE_AUTH_FOR_DEV ? undefined : "guardian"}>
+            <GuardianDashboard />
+          </ProtectedRoute>
+        } 
+      />
+      
       <Route 
         path="/impact-dashboard" 
         element={
@@ -127,6 +149,15 @@ function AppRoutes() {
         } 
       />
       
+      <Route 
+        path="/school" 
+        element={
+          <ProtectedRoute requiredRole={DEV_CONFIG.DISABLE_AUTH_FOR_DEV ? undefined : "teacher"}>
+            <SchoolDashboard />
+          </ProtectedRoute>
+        } 
+      />
+      
       <Route 
         path="/test-creator" 
         element={
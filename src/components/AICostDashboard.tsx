@@ -0,0 +1,393 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DollarSign,
+  Zap,
+  Cpu,
+  RefreshCw,
+  ChevronRight,
+  ChevronDown,
+  Wallet
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CostTrackingService,
+  type AIBudgetStatus,
+  type BudgetUsage,
+  type MonthlyCostSummary,
+  type SchoolBudget
+} from '@/services/costTrackingService';
+import { AIModelRouter } from '@/services/aiModelRouter';
+import { SchoolService, type SchoolMember, type SchoolMembership } from '@/services/schoolService';
+
+// Budget target for the whole school rather than one teacher
+const WHOLE_SCHOOL = '__school__';
+
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+export const AICostDashboard: React.FC = () => {
+  const [summary, setSummary] = useState<MonthlyCostSummary | null>(null);
+  const [budget, setBudget] = useState<AIBudgetStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expandedExam, setExpandedExam] = useState<string | null>(null);
+  const [limitInput, setLimitInput] = useState('');
+  const [thresholdInput, setThresholdInput] = useState('80');
+  const [saving, setSaving] = useState(false);
+  // Budgets are set by school admins, for their school or a teacher in it
+  const [adminSchools, setAdminSchools] = useState<SchoolMembership[]>([]);
+  const [schoolId, setSchoolId] = useState<string | null>(null);
+  const [members, setMembers] = useState<SchoolMember[]>([]);
+  const [schoolBudgets, setSchoolBudgets] = useState<SchoolBudget[]>([]);
+  const [target, setTarget] = useState(WHOLE_SCHOOL);
+
+  const loadCosts = async () => {
+    try {
+      setLoading(true);
+      const [monthly, status, schools] = await Promise.all([
+        CostTrackingService.getMonthlySummary(),
+        CostTrackingService.getBudgetStatus(),
+        SchoolService.getMySchools()
+      ]);
+
+      setSummary(monthly);
+      setBudget(status);
+      const administered = schools.filter(membership => membership.role === 'admin');
+      setAdminSchools(administered);
+      setSchoolId(current => current && administered.some(m => m.school.id === current)
+        ? current
+        : administered[0]?.school.id || null);
+      await AIModelRouter.refreshBudgetStatus(true);
+    } catch (error) {
+      console.error('Failed to load AI costs:', error);
+      toast.error('Failed to load AI costs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCosts();
+  }, []);
+
+  const loadSchoolBudgets = useCallback(async () => {
+    if (!schoolId) return;
+    try {
+      const [schoolMembers, budgets] = await Promise.all([
+        SchoolService.getMembers(schoolId),
+        CostTrackingService.getSchoolBudgets(schoolId)
+      ]);
+      setMembers(schoolMembers);
+      setSchoolBudgets(budgets);
+    } catch (error) {
+      console.error('Failed to load school AI budgets:', error);
+      toast.error('Failed to load school AI budgets');
+    }
+  }, [schoolId]);
+
+  useEffect(() => {
+    loadSchoolBudgets();
+  }, [loadSchoolBudgets]);
+
+  const targetBudget = schoolBudgets.find(b => b.teacherId === (target === WHOLE_SCHOOL ? null : target)) || null;
+
+  useEffect(() => {
+    setLimitInput(targetBudget ? targetBudget.usage.limitUsd.toString() : '');
+    setThresholdInput(targetBudget ? Math.round(targetBudget.usage.warningThreshold * 100).toString() : '80');
+  }, [targetBudget]);
+
+  const handleSaveBudget = async () => {
+    const limit = Number(limitInput);
+    const threshold = Number(thresholdInput) / 100;
+    if (!limitInput || isNaN(limit) || limit < 0) {
+      toast.error('Enter a monthly limit of $0 or more');
+      return;
+    }
+    if (isNaN(threshold) || threshold <= 0 || threshold > 1) {
+      toast.error('Warning threshold must be between 1% and 100%');
+      return;
+    }
+
+    if (!schoolId) return;
+    setSaving(true);
+    try {
+      await CostTrackingService.setBudget(schoolId, target === WHOLE_SCHOOL ? null : target, limit, threshold);
+      toast.success('Monthly AI budget saved');
+      await Promise.all([loadCosts(), loadSchoolBudgets()]);
+    } catch (error) {
+      console.error('Failed to save AI budget:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save AI budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClearBudget = async () => {
+    if (!schoolId) return;
+    setSaving(true);
+    try {
+      await CostTrackingService.clearBudget(schoolId, target === WHOLE_SCHOOL ? null : target);
+      toast.success('Monthly AI budget removed');
+      await Promise.all([loadCosts(), loadSchoolBudgets()]);
+    } catch (error) {
+      console.error('Failed to remove AI budget:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove AI budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getModeBadge = () => {
+    const mode = budget ? CostTrackingService.getBudgetMode(budget) : 'normal';
+    if (mode === 'local_only') return <Badge className="bg-red-100 text-red-800">Local grading only</Badge>;
+    if (mode === 'economy') return <Badge className="bg-yellow-100 text-yellow-800">Economy models</Badge>;
+    return <Badge className="bg-green-100 text-green-800">All models</Badge>;
+  };
+
+  const renderBudget = (label: string, usage: BudgetUsage | null, emptyText: string) => (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        {usage ? (
+          <span>{formatUsd(usage.spentUsd)} of {formatUsd(usage.limitUsd)}</span>
+        ) : (
+          <span className="text-gray-500">{emptyText}</span>
+        )}
+      </div>
+      {usage && (
+        <>
+          <Progress value={Math.min(usage.percentUsed, 100)} />
+          <p className="text-xs text-muted-foreground">
+            {Math.round(usage.percentUsed)}% used · cheaper models from {Math.round(usage.warningThreshold * 100)}%
+          </p>
+        </>
+      )}
+    </div>
+  );
+
+  if (loading && !summary) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-2" />
+          <p>Loading AI costs...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">AI Costs</h2>
+          <p className="text-gray-600">
+            Model spend for {summary?.monthStart.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </p>
+        </div>
+        <Button onClick={loadCosts} variant="outline" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Key Metrics Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Spend This Month</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatUsd(summary?.totalCostUsd || 0)}</div>
+            <p className="text-xs text-muted-foreground">{summary?.totalCalls || 0} model calls</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+            <Zap className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{(summary?.totalTokens || 0).toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">prompt and completion</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Model Routing</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="mb-2">{getModeBadge()}</div>
+            <div className="space-y-1">
+              {summary?.byModel.map(model => (
+                <div key={model.model} className="flex justify-between text-sm">
+                  <span className="truncate">{model.model}</span>
+                  <span className="font-medium">{formatUsd(model.costUsd)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Budgets */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Monthly Budgets
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {renderBudget('Your budget', budget?.teacher || null, 'No limit set')}
+            {renderBudget('School budget', budget?.school || null, 'No school limit')}
+          </div>
+
+          {adminSchools.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Budgets are set by your school's admins.</p>
+          ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            {adminSchools.length > 1 && (
+              <div className="space-y-1">
+                <Label>School</Label>
+                <Select value={schoolId || undefined} onValueChange={(value) => { setSchoolId(value); setTarget(WHOLE_SCHOOL); }}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {adminSchools.map(membership => (
+                      <SelectItem key={membership.school.id} value={membership.school.id}>{membership.school.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Applies to</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_SCHOOL}>Whole school</SelectItem>
+                  {members.map(member => (
+                    <SelectItem key={member.userId} value={member.userId}>{member.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ai-budget-limit">Monthly limit (USD)</Label>
+              <Input
+                id="ai-budget-limit"
+                type="number"
+                min={0}
+                step={1}
+                value={limitInput}
+                onChange={(e) => setLimitInput(e.target.value)}
+                className="w-36"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ai-budget-threshold">Economize at (%)</Label>
+              <Input
+                id="ai-budget-threshold"
+                type="number"
+                min={1}
+                max={100}
+                value={thresholdInput}
+                onChange={(e) => setThresholdInput(e.target.value)}
+                className="w-28"
+              />
+            </div>
+            <Button onClick={handleSaveBudget} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Budget'}
+            </Button>
+            {targetBudget && (
+              <Button variant="ghost" onClick={handleClearBudget} disabled={saving}>
+                Remove Limit
+              </Button>
+            )}
+          </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-exam breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Cost by Exam</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!summary || summary.exams.length === 0 ? (
+            <p className="text-sm text-gray-600">No AI calls recorded this month.</p>
+          ) : (
+            <div className="space-y-2">
+              {summary.exams.map(exam => {
+                const key = exam.examId || '';
+                const expanded = expandedExam === key;
+                return (
+                  <div key={key} className="border rounded">
+                    <button
+                      type="button"
+                      className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50"
+                      onClick={() => setExpandedExam(expanded ? null : key)}
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                        <span className="font-medium truncate">{exam.examTitle}</span>
+                      </div>
+                      <div className="flex items-center gap-4 text-sm shrink-0">
+                        <span className="text-gray-500">{exam.calls} calls</span>
+                        <span className="text-gray-500">{exam.totalTokens.toLocaleString()} tokens</span>
+                        <span className="font-medium">{formatUsd(exam.costUsd)}</span>
+                      </div>
+                    </button>
+
+                    {expanded && (
+                      <div className="border-t px-3 py-2">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-500">
+                              <th className="py-1 font-normal">Service</th>
+                              <th className="py-1 font-normal">Model</th>
+                              <th className="py-1 font-normal text-right">Calls</th>
+                              <th className="py-1 font-normal text-right">Tokens</th>
+                              <th className="py-1 font-normal text-right">Cost</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {exam.rows.map(row => (
+                              <tr key={`${row.service}-${row.model}`} className="border-t">
+                                <td className="py-1">{row.service}</td>
+                                <td className="py-1">{row.model}</td>
+                                <td className="py-1 text-right">{row.calls}</td>
+                                <td className="py-1 text-right">{(row.promptTokens + row.completionTokens).toLocaleString()}</td>
+                                <td className="py-1 text-right">{formatUsd(row.costUsd)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
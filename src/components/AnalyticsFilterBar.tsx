@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getAllActiveClasses, type ActiveClass } from "@/services/examService";
+import type { AnalyticsFilters } from "@/services/teacherAnalyticsService";
+
+interface AnalyticsFilterBarProps {
+  onChange: (filters: AnalyticsFilters) => void;
+  defaultDays?: number;
+}
+
+const DATE_RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' }
+];
+
+export function AnalyticsFilterBar({ onChange, defaultDays = 30 }: AnalyticsFilterBarProps) {
+  const [classes, setClasses] = useState<ActiveClass[] | null>(null);
+  const [classId, setClassId] = useState('all');
+  const [days, setDays] = useState(defaultDays);
+  // Parents pass a fresh onChange each render; only filter changes should report
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    getAllActiveClasses()
+      .then(setClasses)
+      .catch(error => {
+        console.error('Error loading classes for analytics:', error);
+        setClasses([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!classes) return;
+    onChangeRef.current({
+      classIds: classId === 'all' ? classes.map(cls => cls.id) : [classId],
+      days
+    });
+  }, [classes, classId, days]);
+
+  return (
+    <div className="flex flex-wrap gap-4">
+      <Select value={classId} onValueChange={setClassId}>
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="All classes" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All classes</SelectItem>
+          {(classes || []).map(cls => (
+            <SelectItem key={cls.id} value={cls.id}>{cls.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_RANGES.map(range => (
+            <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -20,7 +20,10 @@ export const BatchProcessingManager: React.FC<BatchProcessingManagerProps> = ({
   const [priority, setPriority] = useState<'low' | 'normal' | 'high'>('normal');
 
   useEffect(() => {
-    BatchProcessingService.loadQueueState();
+    // Jobs live in the server-side queue; pick up any that were running before a reload
+    BatchProcessingService.reconnect().then(() => {
+      setQueueStatus(BatchProcessingService.getQueueStatus());
+    });
     
     const interval = setInterval(() => {
       setQueueStatus(BatchProcessingService.getQueueStatus());
@@ -35,13 +38,19 @@ export const BatchProcessingManager: React.FC<BatchProcessingManagerProps> = ({
     }
   };
 
-  const handleCreateBatchJob = () => {
+  const handleCreateBatchJob = async () => {
     if (selectedFiles.length === 0) {
       toast.error('Please select files first');
       return;
     }
 
-    const jobId = BatchProcessingService.createBatchJob(selectedFiles, priority);
+    let jobId: string;
+    try {
+      jobId = await BatchProcessingService.createBatchJob(selectedFiles, priority);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create batch job');
+      return;
+    }
     toast.success(`Batch job created with ${selectedFiles.length} files`);
     
     // Subscribe to job updates
@@ -59,14 +68,14 @@ export const BatchProcessingManager: React.FC<BatchProcessingManagerProps> = ({
     setSelectedFiles([]);
   };
 
-  const handlePauseJob = (jobId: string) => {
-    if (BatchProcessingService.pauseJob(jobId)) {
+  const handlePauseJob = async (jobId: string) => {
+    if (await BatchProcessingService.pauseJob(jobId)) {
       toast.info('Job paused');
     }
   };
 
-  const handleResumeJob = (jobId: string) => {
-    if (BatchProcessingService.resumeJob(jobId)) {
+  const handleResumeJob = async (jobId: string) => {
+    if (await BatchProcessingService.resumeJob(jobId)) {
       toast.info('Job resumed');
     }
   };
@@ -193,7 +202,7 @@ export const BatchProcessingManager: React.FC<BatchProcessingManagerProps> = ({
                   <div className="flex items-center gap-2">
                     {getStatusIcon(job.status)}
                     <span className="font-medium">
-                      Batch Job ({job.files.length} files)
+                      Batch Job ({job.fileCount} files)
                     </span>
                     <Badge variant={job.priority === 'high' ? 'destructive' : 
                                  job.priority === 'normal' ? 'default' : 'secondary'}>
@@ -259,7 +268,7 @@ export const BatchProcessingManager: React.FC<BatchProcessingManagerProps> = ({
                   <div className="flex items-center gap-2">
                     {getStatusIcon(job.status)}
                     <span className="font-medium">
-                      {job.files.length} files
+                      {job.fileCount} files
                     </span>
                     <Badge variant="outline">
                       {job.status}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ClipboardList, Calendar, Archive, ChevronDown, ChevronUp } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { CreateAssignmentDialog } from "@/components/CreateAssignmentDialog";
+import {
+  AssignmentService,
+  type ClassAssignmentSummary,
+  type CreateAssignmentRequest
+} from "@/services/assignmentService";
+import type { ActiveClass } from "@/services/examService";
+
+interface ClassAssignmentsProps {
+  activeClass: ActiveClass;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  exam: 'Exam',
+  practice_test: 'Practice Test',
+  lesson_plan_exercises: 'Lesson Exercises'
+};
+
+export function ClassAssignments({ activeClass }: ClassAssignmentsProps) {
+  const { profile } = useAuth();
+  const [assignments, setAssignments] = useState<ClassAssignmentSummary[]>([]);
+  const [studentNames, setStudentNames] = useState<Record<string, string>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [gradeInputs, setGradeInputs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await AssignmentService.getClassAssignments(activeClass.id);
+      setAssignments(data);
+
+      const studentIds = [...new Set(data.flatMap(a => a.submissions.map(s => s.student_id)))];
+      setStudentNames(await AssignmentService.getStudentNames(studentIds));
+    } catch (error) {
+      console.error('Error loading assignments:', error);
+      toast.error('Failed to load assignments');
+    } finally {
+      setLoading(false);
+    }
+  }, [activeClass.id]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  const handleCreateAssignment = async (request: Omit<CreateAssignmentRequest, 'classId' | 'teacherId' | 'teacherName'>) => {
+    if (!profile) {
+      toast.error('You must be signed in to assign work');
+      return;
+    }
+
+    try {
+      await AssignmentService.createAssignment({
+        ...request,
+        classId: activeClass.id,
+        teacherId: profile.id,
+        teacherName: profile.full_name || activeClass.teacher
+      });
+      toast.success(`"${request.title}" has been assigned to ${activeClass.name}`);
+      await loadAssignments();
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      toast.error('Failed to create assignment. Please try again.');
+    }
+  };
+
+  const handleArchive = async (assignmentId: string, title: string) => {
+    try {
+      await AssignmentService.archiveAssignment(assignmentId);
+      setAssignments(prev => prev.filter(a => a.id !== assignmentId));
+      toast.success(`"${title}" has been archived`);
+    } catch (error) {
+      console.error('Error archiving assignment:', error);
+      toast.error('Failed to archive assignment');
+    }
+  };
+
+  const handleGrade = async (submissionId: string) => {
+    const score = Number(gradeInputs[submissionId]);
+    if (Number.isNaN(score) || score < 0 || score > 100) {
+      toast.error('Enter a score between 0 and 100');
+      return;
+    }
+
+    try {
+      await AssignmentService.gradeSubmission(submissionId, score);
+      toast.success('Submission graded');
+      await loadAssignments();
+    } catch (error) {
+      console.error('Error grading submission:', error);
+      toast.error('Failed to grade submission');
+    }
+  };
+
+  const isOverdue = (dueDate: string | null) => !!dueDate && new Date(dueDate) < new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Assignments
+          </CardTitle>
+          <CreateAssignmentDialog activeClass={activeClass} onCreateAssignment={handleCreateAssignment} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-gray-600">Loading assignments...</div>
+        ) : assignments.length === 0 ? (
+          <div className="text-center py-8">
+            <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No assignments yet</h3>
+            <p className="text-gray-600">Assign an exam, practice test or lesson exercise set to this class.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {assignments.map(assignment => {
+              const completion = assignment.enrolled_count > 0
+                ? (assignment.submitted_count / assignment.enrolled_count) * 100
+                : 0;
+              const isExpanded = expandedId === assignment.id;
+
+              return (
+                <div key={assignment.id} className="p-4 rounded-lg border space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium">{assignment.title}</h4>
+                        <Badge variant="outline">{TYPE_LABELS[assignment.assignment_type] || assignment.assignment_type}</Badge>
+                      </div>
+                      {assignment.description && (
+                        <p className="text-sm text-gray-600 mt-1">{assignment.description}</p>
+                      )}
+                      <div className="flex items-center gap-1 text-sm text-gray-500 mt-1">
+                        <Calendar className="h-4 w-4" />
+                        {assignment.due_date
+                          ? `Due ${new Date(assignment.due_date).toLocaleDateString()}`
+                          : 'No due date'}
+                        {isOverdue(assignment.due_date) && (
+                          <Badge variant="destructive" className="ml-2">Past due</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(isExpanded ? null : assignment.id)}
+                      >
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-500"
+                        onClick={() => handleArchive(assignment.id, assignment.title)}
+                      >
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>{assignment.submitted_count} of {assignment.enrolled_count} submitted</span>
+                      <span>{assignment.graded_count} graded</span>
+                    </div>
+                    <Progress value={completion} />
+                  </div>
+
+                  {isExpanded && (
+                    <div className="space-y-2 pt-2 border-t">
+                      {assignment.submissions.length === 0 ? (
+                        <p className="text-sm text-gray-500">No submissions yet.</p>
+                      ) : (
+                        assignment.submissions.map(submission => (
+                          <div key={submission.id} className="flex items-center justify-between text-sm">
+                            <div>
+                              <span className="font-medium">{studentNames[submission.student_id] || 'Student'}</span>
+                              <span className="text-gray-500 ml-2">
+                                {new Date(submission.submitted_at).toLocaleDateString()}
+                              </span>
+                            </div>
+                            {submission.status === 'graded' ? (
+                              <Badge className="bg-green-100 text-green-800">
+                                {submission.score !== null ? `${Math.round(submission.score)}%` : 'Graded'}
+                              </Badge>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  placeholder="Score %"
+                                  className="w-24 h-8"
+                                  value={gradeInputs[submission.id] || ''}
+                                  onChange={(e) => setGradeInputs(prev => ({ ...prev, [submission.id]: e.target.value }))}
+                                />
+                                <Button size="sm" onClick={() => handleGrade(submission.id)}>
+                                  Grade
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,6 +17,7 @@ import {
   type ActiveClass
 } from "@/services/examService";
 import { AddContentSkillDialog } from "@/components/AddContentSkillDialog";
+import { SkillReviewQueueDialog } from "@/components/SkillReviewQueueDialog";
 
 interface ClassContentSkillsProps {
   activeClass: ActiveClass;
@@ -381,6 +382,10 @@ export function ClassContentSkills({ activeClass }: ClassContentSkillsProps) {
             )}
           </CardTitle>
           <div className="flex items-center gap-2">
+            <SkillReviewQueueDialog
+              activeClass={activeClass}
+              onSkillsChanged={loadSkills}
+            />
             <AddContentSkillDialog 
               activeClass={activeClass} 
               onSkillAdded={loadSkills}
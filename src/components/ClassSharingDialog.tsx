@@ -0,0 +1,242 @@
+import { useState, useEffect, useCallback } from "react";
+import { Share2, Trash2, ArrowRightLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import {
+  CLASS_ACCESS_LABELS,
+  SchoolService,
+  type ClassMember,
+  type ClassPermission
+} from "@/services/schoolService";
+
+const PERMISSIONS: ClassPermission[] = ['view', 'grade', 'edit'];
+
+interface ClassSharingDialogProps {
+  classId: string;
+  className: string;
+  owner: string;
+  canManage: boolean; // Class owners and school admins can share and transfer
+  onTransferred?: (teacher: string) => void;
+}
+
+export function ClassSharingDialog({ classId, className, owner, canManage, onTransferred }: ClassSharingDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [members, setMembers] = useState<ClassMember[]>([]);
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<ClassPermission>('view');
+  const [transferEmail, setTransferEmail] = useState('');
+  const [keepAccess, setKeepAccess] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await SchoolService.getClassMembers(classId));
+    } catch (error) {
+      console.error('Error loading co-teachers:', error);
+      toast.error('Failed to load co-teachers');
+    }
+  }, [classId]);
+
+  useEffect(() => {
+    if (open) {
+      loadMembers();
+    }
+  }, [open, loadMembers]);
+
+  const handleShare = async () => {
+    if (!email.trim()) return;
+    setSaving(true);
+    try {
+      await SchoolService.shareClass(classId, email.trim(), permission);
+      toast.success(`${className} shared with ${email.trim()}`);
+      setEmail('');
+      await loadMembers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to share class');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePermissionChange = async (member: ClassMember, value: ClassPermission) => {
+    try {
+      await SchoolService.updateClassMember(member.memberId, value);
+      setMembers(prev => prev.map(m => m.memberId === member.memberId ? { ...m, permission: value } : m));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update access');
+    }
+  };
+
+  const handleRemove = async (member: ClassMember) => {
+    try {
+      await SchoolService.removeClassMember(member.memberId);
+      setMembers(prev => prev.filter(m => m.memberId !== member.memberId));
+      toast.success(`${member.name} no longer has access to ${className}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove co-teacher');
+    }
+  };
+
+  const handleTransfer = async () => {
+    setSaving(true);
+    try {
+      const { teacher } = await SchoolService.transferClass(classId, transferEmail.trim(), keepAccess);
+      toast.success(`${className} now belongs to ${teacher}`);
+      setTransferEmail('');
+      setOpen(false);
+      onTransferred?.(teacher);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to transfer class');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Share2 className="h-4 w-4" />
+          Co-teachers
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[540px]">
+        <DialogHeader>
+          <DialogTitle>Co-teachers for {className}</DialogTitle>
+          <DialogDescription>
+            Co-teachers can view the class, grade its tests or also edit the roster and assignments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between border rounded p-2">
+              <p className="text-sm font-medium">{owner}</p>
+              <Badge>{CLASS_ACCESS_LABELS.owner}</Badge>
+            </div>
+            {members.map(member => (
+              <div key={member.memberId} className="flex items-center justify-between gap-2 border rounded p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{member.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                </div>
+                {canManage ? (
+                  <div className="flex items-center gap-1">
+                    <Select value={member.permission} onValueChange={(value) => handlePermissionChange(member, value as ClassPermission)}>
+                      <SelectTrigger className="w-32 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PERMISSIONS.map(p => (
+                          <SelectItem key={p} value={p}>{CLASS_ACCESS_LABELS[p]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="outline">{CLASS_ACCESS_LABELS[member.permission]}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canManage && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="co-teacher-email">Add a co-teacher</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="co-teacher-email"
+                    type="email"
+                    placeholder="teacher@school.edu"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                  <Select value={permission} onValueChange={(value) => setPermission(value as ClassPermission)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PERMISSIONS.map(p => (
+                        <SelectItem key={p} value={p}>{CLASS_ACCESS_LABELS[p]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleShare} disabled={saving || !email.trim()}>Add</Button>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label htmlFor="transfer-email">Transfer this class</Label>
+                <Input
+                  id="transfer-email"
+                  type="email"
+                  placeholder="New owner's email"
+                  value={transferEmail}
+                  onChange={(e) => setTransferEmail(e.target.value)}
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox id="keep-access" checked={keepAccess} onCheckedChange={(checked) => setKeepAccess(checked === true)} />
+                  <Label htmlFor="keep-access" className="text-sm font-normal">
+                    Keep {owner} on as a co-teacher who can edit
+                  </Label>
+                </div>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="w-full" disabled={saving || !transferEmail.trim()}>
+                      <ArrowRightLeft className="h-4 w-4 mr-2" />
+                      Transfer ownership
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Transfer {className}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {transferEmail.trim()} will own the class, its roster and its results.
+                        {keepAccess ? ` ${owner} will stay on as a co-teacher.` : ` ${owner} will lose access.`}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleTransfer}>Transfer</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
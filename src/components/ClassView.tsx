@@ -17,10 +17,14 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Users, BookOpen, TrendingUp, Trash2, ArrowLeft, Target, UserX, IdCard } from "lucide-react";
+import { Users, BookOpen, TrendingUp, Trash2, ArrowLeft, Target, UserX, IdCard, ClipboardList } from "lucide-react";
 import { CreateClassDialog } from "@/components/CreateClassDialog";
+import { RosterImportDialog } from "@/components/RosterImportDialog";
+import { GradebookExportDialog } from "@/components/GradebookExportDialog";
 import { AddStudentsDialog } from "@/components/AddStudentsDialog";
 import { ClassContentSkills } from "@/components/ClassContentSkills";
+import { ClassAssignments } from "@/components/ClassAssignments";
+import { ClassSharingDialog } from "@/components/ClassSharingDialog";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 import { 
@@ -36,6 +40,7 @@ import {
   type ActiveClass,
   type ActiveStudent
 } from "@/services/examService";
+import { CLASS_ACCESS_LABELS, SchoolService } from "@/services/schoolService";
 
 interface ClassViewProps {
   onSelectStudent: (studentId: string, classId?: string, className?: string) => void;
@@ -76,7 +81,7 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
   const handleCreateClass = async (classData: { name: string; subject: string; grade: string; teacher: string; dayOfWeek?: string[]; classTime?: string; endTime?: string }) => {
     try {
       const newClass = await createActiveClass(classData);
-      setClasses([...classes, newClass]);
+      setClasses([...classes, { ...newClass, access: 'owner' }]);
       
       // Auto-link subject skills for Math Grade 10 classes
       if (classData.subject === 'Math' && classData.grade === 'Grade 10') {
@@ -155,7 +160,7 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
       });
 
       setClasses(prevClasses => 
-        prevClasses.map(cls => cls.id === classId ? updatedClass : cls)
+        prevClasses.map(cls => cls.id === classId ? { ...updatedClass, access: cls.access } : cls)
       );
 
       toast.success('Students added successfully!');
@@ -183,7 +188,7 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
       });
 
       setClasses(prevClasses => 
-        prevClasses.map(cls => cls.id === classId ? updatedClass : cls)
+        prevClasses.map(cls => cls.id === classId ? { ...updatedClass, access: cls.access } : cls)
       );
 
       toast.success(`${studentName} has been removed from the class`);
@@ -249,6 +254,7 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
     const enrolledStudents = allStudents.filter(student => 
       classData.students.includes(student.id)
     );
+    const canEdit = SchoolService.hasAccess(classData.access, 'edit');
 
     return (
       <div className="p-6">
@@ -274,12 +280,25 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
               )}
             </div>
             <div className="flex items-center gap-4">
-              <AddStudentsDialog
+              <ClassSharingDialog
                 classId={classData.id}
                 className={classData.name}
-                onAddStudents={(studentIds) => handleAddStudents(classData.id, studentIds)}
-                enrolledStudentIds={classData.students}
+                owner={classData.teacher}
+                canManage={classData.access === 'owner'}
+                onTransferred={() => {
+                  setSelectedClass(null);
+                  loadData();
+                }}
               />
+              <GradebookExportDialog classId={classData.id} className={classData.name} />
+              {canEdit && (
+                <AddStudentsDialog
+                  classId={classData.id}
+                  className={classData.name}
+                  onAddStudents={(studentIds) => handleAddStudents(classData.id, studentIds)}
+                  enrolledStudentIds={classData.students}
+                />
+              )}
               <div className="text-right">
                 <div className="text-2xl font-bold text-gray-900">{classData.avg_gpa || 0}</div>
                 <div className="text-sm text-gray-600">Class Average GPA</div>
@@ -313,12 +332,16 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
         </div>
 
         <Tabs defaultValue="students" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="students">Students</TabsTrigger>
             <TabsTrigger value="skills" className="flex items-center gap-2">
               <Target className="h-4 w-4" />
               Content Skills
             </TabsTrigger>
+            <TabsTrigger value="assignments" className="flex items-center gap-2">
+              <ClipboardList className="h-4 w-4" />
+              Assignments
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="students">
@@ -332,12 +355,14 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
                     <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                     <h3 className="text-lg font-medium text-gray-900 mb-2">No students enrolled</h3>
                     <p className="text-gray-600 mb-4">Students will appear here once they are added to this class.</p>
-                    <AddStudentsDialog
-                      classId={classData.id}
-                      className={classData.name}
-                      onAddStudents={(studentIds) => handleAddStudents(classData.id, studentIds)}
-                      enrolledStudentIds={classData.students}
-                    />
+                    {canEdit && (
+                      <AddStudentsDialog
+                        classId={classData.id}
+                        className={classData.name}
+                        onAddStudents={(studentIds) => handleAddStudents(classData.id, studentIds)}
+                        enrolledStudentIds={classData.students}
+                      />
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-3">
@@ -364,30 +389,32 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
                           <Badge variant="outline">
                             GPA: {student.gpa ? Number(student.gpa).toFixed(2) : 'N/A'}
                           </Badge>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700 hover:bg-red-50">
-                                <UserX className="h-4 w-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Remove Student</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to remove "{student.name}" from "{classData.name}"? This action will remove them from the class roster but will not delete their test results or data.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction 
-                                  onClick={() => handleRemoveStudent(classData.id, student.id, student.name)}
-                                  className="bg-red-600 hover:bg-red-700"
-                                >
-                                  Remove Student
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                          {canEdit && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700 hover:bg-red-50">
+                                  <UserX className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Remove Student</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to remove "{student.name}" from "{classData.name}"? This action will remove them from the class roster but will not delete their test results or data.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction 
+                                    onClick={() => handleRemoveStudent(classData.id, student.id, student.name)}
+                                    className="bg-red-600 hover:bg-red-700"
+                                  >
+                                    Remove Student
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -400,6 +427,10 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
           <TabsContent value="skills">
             <ClassContentSkills activeClass={classData} />
           </TabsContent>
+
+          <TabsContent value="assignments">
+            <ClassAssignments activeClass={classData} />
+          </TabsContent>
         </Tabs>
       </div>
     );
@@ -414,7 +445,10 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
             <h1 className="text-3xl font-bold text-gray-900">Classes</h1>
             <p className="text-gray-600">Manage student classes and sections</p>
           </div>
-          <CreateClassDialog onCreateClass={handleCreateClass} />
+          <div className="flex gap-2">
+            <RosterImportDialog onImported={loadData} />
+            <CreateClassDialog onCreateClass={handleCreateClass} />
+          </div>
         </div>
 
         <div className="flex gap-4 mb-4">
@@ -462,75 +496,80 @@ export function ClassView({ onSelectStudent }: ClassViewProps) {
                   )}
                 </div>
                 <div className="flex items-center gap-2">
+                  {classItem.access && classItem.access !== 'owner' && (
+                    <Badge variant="secondary">{CLASS_ACCESS_LABELS[classItem.access]}</Badge>
+                  )}
                   <Badge variant="outline">{classItem.grade}</Badge>
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                        onClick={() => handleGetDeletionInfo(classItem.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent className="max-w-md">
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Class Options</AlertDialogTitle>
-                        <AlertDialogDescription className="space-y-3">
-                          <p>Choose how you want to delete "{classItem.name}":</p>
+                  {classItem.access === 'owner' && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => handleGetDeletionInfo(classItem.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent className="max-w-md">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Class Options</AlertDialogTitle>
+                          <AlertDialogDescription className="space-y-3">
+                            <p>Choose how you want to delete "{classItem.name}":</p>
                           
-                          {loadingDeletionInfo ? (
-                            <div className="text-center py-4">
-                              <div className="text-sm text-gray-600">Loading deletion information...</div>
-                            </div>
-                          ) : deletionInfo && (
-                            <div className="bg-gray-50 p-3 rounded-lg text-sm">
-                              <p className="font-medium text-gray-900 mb-2">This class contains:</p>
-                              <ul className="space-y-1 text-gray-600">
-                                <li>• {deletionInfo.examCount} exam(s)</li>
-                                <li>• {deletionInfo.answerKeyCount} answer key(s)</li>
-                                <li>• {deletionInfo.testResultCount} test result(s)</li>
-                              </ul>
-                            </div>
-                          )}
-
-                          <div className="space-y-2">
-                            <div className="border rounded-lg p-3">
-                              <p className="font-medium text-green-700 mb-1">🗂️ Delete Class Only (Recommended)</p>
-                              <p className="text-sm text-gray-600">
-                                Removes the class but preserves all historical test data, exams, and results for future reference.
-                              </p>
-                            </div>
+                            {loadingDeletionInfo ? (
+                              <div className="text-center py-4">
+                                <div className="text-sm text-gray-600">Loading deletion information...</div>
+                              </div>
+                            ) : deletionInfo && (
+                              <div className="bg-gray-50 p-3 rounded-lg text-sm">
+                                <p className="font-medium text-gray-900 mb-2">This class contains:</p>
+                                <ul className="space-y-1 text-gray-600">
+                                  <li>• {deletionInfo.examCount} exam(s)</li>
+                                  <li>• {deletionInfo.answerKeyCount} answer key(s)</li>
+                                  <li>• {deletionInfo.testResultCount} test result(s)</li>
+                                </ul>
+                              </div>
+                            )}
+
+                            <div className="space-y-2">
+                              <div className="border rounded-lg p-3">
+                                <p className="font-medium text-green-700 mb-1">🗂️ Delete Class Only (Recommended)</p>
+                                <p className="text-sm text-gray-600">
+                                  Removes the class but preserves all historical test data, exams, and results for future reference.
+                                </p>
+                              </div>
                             
-                            <div className="border rounded-lg p-3">
-                              <p className="font-medium text-red-700 mb-1">🗑️ Delete Everything</p>
-                              <p className="text-sm text-gray-600">
-                                Permanently deletes the class and ALL associated data. This cannot be undone.
-                              </p>
+                              <div className="border rounded-lg p-3">
+                                <p className="font-medium text-red-700 mb-1">🗑️ Delete Everything</p>
+                                <p className="text-sm text-gray-600">
+                                  Permanently deletes the class and ALL associated data. This cannot be undone.
+                                </p>
+                              </div>
                             </div>
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter className="flex-col gap-2">
+                          <div className="flex gap-2 w-full">
+                            <AlertDialogCancel className="flex-1">Cancel</AlertDialogCancel>
+                            <AlertDialogAction 
+                              onClick={() => handleDeleteClassOnly(classItem.id, classItem.name)}
+                              className="flex-1 bg-green-600 hover:bg-green-700"
+                            >
+                              Delete Class Only
+                            </AlertDialogAction>
                           </div>
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter className="flex-col gap-2">
-                        <div className="flex gap-2 w-full">
-                          <AlertDialogCancel className="flex-1">Cancel</AlertDialogCancel>
                           <AlertDialogAction 
-                            onClick={() => handleDeleteClassOnly(classItem.id, classItem.name)}
-                            className="flex-1 bg-green-600 hover:bg-green-700"
+                            onClick={() => handleDeleteClass(classItem.id, classItem.name)}
+                            className="w-full bg-red-600 hover:bg-red-700"
                           >
-                            Delete Class Only
+                            Delete Everything
                           </AlertDialogAction>
-                        </div>
-                        <AlertDialogAction 
-                          onClick={() => handleDeleteClass(classItem.id, classItem.name)}
-                          className="w-full bg-red-600 hover:bg-red-700"
-                        >
-                          Delete Everything
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
                 </div>
               </div>
               
@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getExamsByClassId,
+  getLinkedContentSkillsForClass,
+  type ActiveClass,
+  type ContentSkill,
+  type StoredExam
+} from "@/services/examService";
+import { getLessonPlanByClassId } from "@/services/lessonPlanService";
+import type { AssignmentType, CreateAssignmentRequest } from "@/services/assignmentService";
+
+interface CreateAssignmentDialogProps {
+  activeClass: ActiveClass;
+  onCreateAssignment: (request: Omit<CreateAssignmentRequest, 'classId' | 'teacherId' | 'teacherName'>) => Promise<void>;
+}
+
+interface LessonPlanOption {
+  id: string;
+  scheduled_date: string;
+  scheduled_time: string;
+  status: string;
+}
+
+const ASSIGNMENT_TYPE_LABELS: Record<AssignmentType, string> = {
+  exam: 'Exam (taken online)',
+  practice_test: 'Practice test for a skill',
+  lesson_plan_exercises: 'Lesson plan exercise set'
+};
+
+export function CreateAssignmentDialog({ activeClass, onCreateAssignment }: CreateAssignmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [assignmentType, setAssignmentType] = useState<AssignmentType>('exam');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [examId, setExamId] = useState('');
+  const [lessonPlanId, setLessonPlanId] = useState('');
+  const [skillName, setSkillName] = useState('');
+  const [exams, setExams] = useState<StoredExam[]>([]);
+  const [skills, setSkills] = useState<ContentSkill[]>([]);
+  const [lessonPlans, setLessonPlans] = useState<LessonPlanOption[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadOptions = async () => {
+      try {
+        const [classExams, classSkills, classLessonPlans] = await Promise.all([
+          getExamsByClassId(activeClass.id),
+          getLinkedContentSkillsForClass(activeClass.id),
+          getLessonPlanByClassId(activeClass.id)
+        ]);
+        setExams(classExams);
+        setSkills(classSkills);
+        setLessonPlans(classLessonPlans as LessonPlanOption[]);
+      } catch (error) {
+        console.error('Error loading assignment options:', error);
+        toast.error('Failed to load exams and skills for this class');
+      }
+    };
+
+    loadOptions();
+  }, [open, activeClass.id]);
+
+  const resetForm = () => {
+    setAssignmentType('exam');
+    setTitle('');
+    setDescription('');
+    setDueDate('');
+    setExamId('');
+    setLessonPlanId('');
+    setSkillName('');
+  };
+
+  const handleExamChange = (value: string) => {
+    setExamId(value);
+    const exam = exams.find(e => e.exam_id === value);
+    if (exam && !title) {
+      setTitle(exam.title);
+    }
+  };
+
+  const handleSkillChange = (value: string) => {
+    setSkillName(value);
+    if (!title) {
+      setTitle(`Practice: ${value}`);
+    }
+  };
+
+  const isTargetSelected =
+    (assignmentType === 'exam' && !!examId) ||
+    (assignmentType === 'practice_test' && !!skillName) ||
+    (assignmentType === 'lesson_plan_exercises' && !!lessonPlanId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !isTargetSelected) return;
+
+    setSaving(true);
+    try {
+      await onCreateAssignment({
+        title: title.trim(),
+        description: description.trim() || undefined,
+        // Due dates are picked as a day; treat them as due at the end of that day
+        dueDate: dueDate ? new Date(`${dueDate}T23:59:59`).toISOString() : undefined,
+        assignmentType,
+        examId: assignmentType === 'exam' ? examId : undefined,
+        lessonPlanId: assignmentType === 'lesson_plan_exercises' ? lessonPlanId : undefined,
+        skillName: assignmentType === 'practice_test' ? skillName : undefined
+      });
+      resetForm();
+      setOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="h-4 w-4 mr-2" />
+          New Assignment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Assign Work to {activeClass.name}</DialogTitle>
+            <DialogDescription>
+              Every enrolled student will be notified and see this on their dashboard.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label>Type</Label>
+              <Select value={assignmentType} onValueChange={(value) => setAssignmentType(value as AssignmentType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ASSIGNMENT_TYPE_LABELS) as AssignmentType[]).map(type => (
+                    <SelectItem key={type} value={type}>{ASSIGNMENT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {assignmentType === 'exam' && (
+              <div className="grid gap-2">
+                <Label>Exam</Label>
+                <Select value={examId} onValueChange={handleExamChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={exams.length ? "Select an exam" : "No exams saved for this class"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {exams.map(exam => (
+                      <SelectItem key={exam.exam_id} value={exam.exam_id}>
+                        {exam.title} ({exam.exam_id})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {assignmentType === 'practice_test' && (
+              <div className="grid gap-2">
+                <Label>Target Skill</Label>
+                <Select value={skillName} onValueChange={handleSkillChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={skills.length ? "Select a content skill" : "No skills linked to this class"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {skills.map(skill => (
+                      <SelectItem key={skill.id} value={skill.skill_name}>{skill.skill_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {assignmentType === 'lesson_plan_exercises' && (
+              <div className="grid gap-2">
+                <Label>Lesson Plan</Label>
+                <Select value={lessonPlanId} onValueChange={setLessonPlanId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={lessonPlans.length ? "Select a lesson plan" : "No lesson plans for this class"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {lessonPlans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {new Date(plan.scheduled_date).toLocaleDateString()} {plan.scheduled_time} ({plan.status})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-title">Title</Label>
+              <Input
+                id="assignment-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g., Unit 3 Review"
+                required
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-description">Instructions</Label>
+              <Textarea
+                id="assignment-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Optional instructions for students"
+                rows={3}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="assignment-due">Due Date</Label>
+              <Input
+                id="assignment-due"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !title.trim() || !isTargetSelected}>
+              {saving ? 'Assigning...' : 'Assign'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
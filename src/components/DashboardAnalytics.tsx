@@ -1,4 +1,5 @@
 
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
   ChartContainer, 
@@ -15,27 +16,12 @@ import {
   BarChart,
   Bar
 } from "recharts";
-
-// Mock data for score trends
-const scoresTrendData = [
-  { month: "Jan", averageScore: 78 },
-  { month: "Feb", averageScore: 82 },
-  { month: "Mar", averageScore: 79 },
-  { month: "Apr", averageScore: 85 },
-  { month: "May", averageScore: 88 },
-  { month: "Jun", averageScore: 91 }
-];
-
-// Mock data for students' weak content skills
-const weakSkillsData = [
-  { student: "Alice Johnson", weaknessLevel: 45, subject: "Algebra" },
-  { student: "Bob Smith", weaknessLevel: 38, subject: "Geometry" },
-  { student: "Carol Davis", weaknessLevel: 52, subject: "Statistics" },
-  { student: "David Wilson", weaknessLevel: 41, subject: "Calculus" },
-  { student: "Emma Brown", weaknessLevel: 35, subject: "Trigonometry" },
-  { student: "Frank Miller", weaknessLevel: 48, subject: "Algebra" },
-  { student: "Grace Lee", weaknessLevel: 43, subject: "Geometry" }
-];
+import {
+  TeacherAnalyticsService,
+  type AnalyticsFilters,
+  type ScoreTrendPoint,
+  type WeakSkill
+} from "@/services/teacherAnalyticsService";
 
 const scoreChartConfig = {
   averageScore: {
@@ -51,7 +37,31 @@ const skillsChartConfig = {
   }
 };
 
-export function DashboardAnalytics() {
+interface DashboardAnalyticsProps {
+  filters: AnalyticsFilters;
+}
+
+export function DashboardAnalytics({ filters }: DashboardAnalyticsProps) {
+  const [scoresTrendData, setScoresTrendData] = useState<ScoreTrendPoint[]>([]);
+  const [weakSkillsData, setWeakSkillsData] = useState<WeakSkill[]>([]);
+
+  useEffect(() => {
+    Promise.all([
+      TeacherAnalyticsService.getScoreTrend(filters),
+      TeacherAnalyticsService.getWeakSkills(filters)
+    ])
+      .then(([trend, weakSkills]) => {
+        setScoresTrendData(trend);
+        setWeakSkillsData(weakSkills);
+      })
+      .catch(error => console.error('Error loading dashboard analytics:', error));
+  }, [filters]);
+
+  const trendChange = scoresTrendData.length >= 2
+    ? Math.round(scoresTrendData[scoresTrendData.length - 1].averageScore - scoresTrendData[0].averageScore)
+    : null;
+  const focusStudent = weakSkillsData[0];
+
   return (
     <div className="space-y-6">
       {/* Score Trends Chart */}
@@ -67,12 +77,12 @@ export function DashboardAnalytics() {
               <LineChart data={scoresTrendData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                 <XAxis 
-                  dataKey="month" 
+                  dataKey="period" 
                   tick={{ fontSize: 12, fill: "#64748b" }}
                   axisLine={{ stroke: '#e2e8f0' }}
                 />
                 <YAxis 
-                  domain={[70, 95]}
+                  domain={[0, 100]}
                   tick={{ fontSize: 12, fill: "#64748b" }}
                   axisLine={{ stroke: '#e2e8f0' }}
                 />
@@ -96,7 +106,12 @@ export function DashboardAnalytics() {
           </ChartContainer>
           <div className="mt-4 p-3 bg-blue-50 rounded-lg">
             <p className="text-sm text-blue-700">
-              <strong>Insight:</strong> Steady improvement trend with 13% increase since January
+              <strong>Insight:</strong>{' '}
+              {trendChange === null
+                ? 'Not enough graded tests in this period to show a trend yet'
+                : trendChange >= 0
+                  ? `Average score up ${trendChange} points since ${scoresTrendData[0].period}`
+                  : `Average score down ${Math.abs(trendChange)} points since ${scoresTrendData[0].period}`}
             </p>
           </div>
         </CardContent>
@@ -112,11 +127,11 @@ export function DashboardAnalytics() {
         <CardContent>
           <ChartContainer config={skillsChartConfig} className="h-80 w-full">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={weakSkillsData} margin={{ top: 20, right: 30, left: 120, bottom: 20 }}>
+              <BarChart data={weakSkillsData} layout="vertical" margin={{ top: 20, right: 30, left: 120, bottom: 20 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
                 <XAxis 
                   type="number" 
-                  domain={[0, 60]}
+                  domain={[0, 100]}
                   tick={{ fontSize: 12, fill: "#64748b" }}
                   axisLine={{ stroke: '#e2e8f0' }}
                 />
@@ -131,7 +146,7 @@ export function DashboardAnalytics() {
                   content={
                     <ChartTooltipContent 
                       formatter={(value, name, props) => [
-                        `${value}% weakness in ${props.payload.subject}`, 
+                        `${value}% weakness in ${props.payload.skill}`, 
                         props.payload.student
                       ]}
                     />
@@ -147,7 +162,10 @@ export function DashboardAnalytics() {
           </ChartContainer>
           <div className="mt-4 p-3 bg-red-50 rounded-lg">
             <p className="text-sm text-red-700">
-              <strong>Focus Area:</strong> Carol Davis shows highest weakness level (52%) in Statistics - consider additional practice materials
+              <strong>Focus Area:</strong>{' '}
+              {focusStudent
+                ? `${focusStudent.student} shows the highest weakness level (${focusStudent.weaknessLevel}%) in ${focusStudent.skill} - consider additional practice materials`
+                : 'No students are below mastery on any content skill in this period'}
             </p>
           </div>
         </CardContent>
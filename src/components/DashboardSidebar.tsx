@@ -1,7 +1,7 @@
-import { BarChart3, Users, GraduationCap, Calendar, Brain, Home, User, LogOut, TrendingUp } from "lucide-react";
+import { BarChart3, Users, GraduationCap, Calendar, Brain, Home, User, LogOut, TrendingUp, Building2 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth, type UserRole } from "@/contexts/AuthContext";
 import { useDevRole } from "@/contexts/DevRoleContext";
 import { RoleToggle } from "@/components/RoleToggle";
 import { DEV_CONFIG } from "@/config/devConfig";
@@ -28,7 +28,7 @@ export function DashboardSidebar({ activeView, onViewChange }: DashboardSidebarP
   const { user, profile, signOut } = useAuth();
   
   // Get current role (dev or actual)
-  let currentRole: 'teacher' | 'student' = 'teacher';
+  let currentRole: UserRole = 'teacher';
   try {
     const { currentRole: devRole, isDevMode } = useDevRole();
     if (isDevMode) {
@@ -78,6 +78,12 @@ export function DashboardSidebar({ activeView, onViewChange }: DashboardSidebarP
       icon: TrendingUp,
       isActive: location.pathname === '/impact-dashboard'
     },
+    {
+      title: "School",
+      href: "/school",
+      icon: Building2,
+      isActive: location.pathname === '/school'
+    },
     {
       title: "Student Portals",
       icon: Calendar,
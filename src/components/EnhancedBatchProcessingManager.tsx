@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { Upload, Play, Pause, Square, Clock, AlertCircle, CheckCircle, Settings, Zap } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Upload, Play, Pause, Clock, AlertCircle, CheckCircle, Settings, Zap, RotateCcw, ClipboardCheck } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -8,7 +8,9 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import { enhancedBatchService, EnhancedBatchJob } from '@/services/enhancedBatchProcessingService';
+import { ScanReviewService, type ScanReviewItem, type ScanReviewSubmission } from '@/services/scanReviewService';
 import { SystemDashboard } from './SystemDashboard';
+import { ScanReviewWorkbench } from './ScanReviewWorkbench';
 
 interface EnhancedBatchProcessingManagerProps {
   onJobComplete?: (job: EnhancedBatchJob) => void;
@@ -20,15 +22,44 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
   const [queueStatus, setQueueStatus] = useState(enhancedBatchService.getQueueStatus());
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [priority, setPriority] = useState<'low' | 'normal' | 'high' | 'urgent'>('normal');
-  const [autoScalingEnabled, setAutoScalingEnabled] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [reviewSubmissions, setReviewSubmissions] = useState<ScanReviewSubmission[]>([]);
+  const [loadingReview, setLoadingReview] = useState(false);
+  const [committingReview, setCommittingReview] = useState(false);
+  // Job subscriptions outlive renders, so they call whichever callback is current
+  const onJobCompleteRef = useRef(onJobComplete);
+  onJobCompleteRef.current = onJobComplete;
+
+  const watchJob = useCallback((jobId: string) => {
+    enhancedBatchService.subscribeToJob(jobId, (job) => {
+      if (job.status === 'completed') {
+        toast.success(`Batch job completed: ${job.results.length} files graded${job.errors.length > 0 ? `, ${job.errors.length} failed` : ''}`);
+        enhancedBatchService.unsubscribeFromJob(jobId);
+        onJobCompleteRef.current?.(job);
+      } else if (job.status === 'failed') {
+        toast.error(`Batch job failed: ${job.errors.length} errors occurred`);
+        enhancedBatchService.unsubscribeFromJob(jobId);
+      }
+    });
+  }, []);
 
   useEffect(() => {
+    // Batches run in the server-side queue, so after a reload pick up where they left off
+    enhancedBatchService.reconnect().then((status) => {
+      setQueueStatus(status);
+      const unfinishedJobs = [...status.activeJobs, ...status.pendingJobs];
+      if (unfinishedJobs.length > 0) {
+        toast.info(`Reconnected to ${unfinishedJobs.length} batch job${unfinishedJobs.length > 1 ? 's' : ''} in progress`);
+        unfinishedJobs.forEach((job) => watchJob(job.id));
+      }
+    });
+
     const interval = setInterval(() => {
       setQueueStatus(enhancedBatchService.getQueueStatus());
     }, 2000); // Update every 2 seconds for more responsive UI
 
     return () => clearInterval(interval);
-  }, []);
+  }, [watchJob]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -55,47 +86,97 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
       return;
     }
 
+    setSubmitting(true);
     try {
       const jobId = await enhancedBatchService.createBatchJob(selectedFiles, priority);
-      toast.success(`Batch job created with ${selectedFiles.length} files`);
-      
-      // Subscribe to job updates
-      enhancedBatchService.subscribeToJob(jobId, (job) => {
-        if (job.status === 'completed') {
-          toast.success(`Batch job completed: ${job.results.length} files processed successfully`);
-          onJobComplete?.(job);
-        } else if (job.status === 'failed') {
-          toast.error(`Batch job failed: ${job.errors.length} errors occurred`);
-        }
-      });
-
+      toast.success(`Batch job queued with ${selectedFiles.length} files. The scans are read in the background, even if you close this page; review them here before they are graded.`);
+      watchJob(jobId);
       setSelectedFiles([]);
+      setQueueStatus(enhancedBatchService.getQueueStatus());
     } catch (error) {
       toast.error(`Failed to create batch job: ${error.message}`);
+    } finally {
+      setSubmitting(false);
     }
   };
 
-  const handlePauseJob = (jobId: string) => {
-    if (enhancedBatchService.pauseJob(jobId)) {
+  const handlePauseJob = async (jobId: string) => {
+    if (await enhancedBatchService.pauseJob(jobId)) {
       toast.info('Job paused');
+      setQueueStatus(enhancedBatchService.getQueueStatus());
     } else {
       toast.error('Failed to pause job');
     }
   };
 
-  const handleResumeJob = (jobId: string) => {
-    if (enhancedBatchService.resumeJob(jobId)) {
+  const handleResumeJob = async (jobId: string) => {
+    if (await enhancedBatchService.resumeJob(jobId)) {
       toast.info('Job resumed');
+      setQueueStatus(enhancedBatchService.getQueueStatus());
     } else {
       toast.error('Failed to resume job');
     }
   };
 
-  const toggleAutoScaling = () => {
-    const newState = !autoScalingEnabled;
-    setAutoScalingEnabled(newState);
-    enhancedBatchService.updateAutoScalingConfig({ enabled: newState });
-    toast.info(`Auto-scaling ${newState ? 'enabled' : 'disabled'}`);
+  const handleReviewJob = async (jobId: string) => {
+    setLoadingReview(true);
+    try {
+      const files = await enhancedBatchService.getReviewFiles(jobId);
+      // Each file job is one submission, keyed by its id so the review can be committed to it
+      const submissions = await Promise.all(files.map(({ fileJobId, file, extractResult }) =>
+        ScanReviewService.createSubmission(fileJobId, [{ file, extractResult }], null)
+      ));
+      if (submissions.length === 0) {
+        toast.info('No scans are waiting for review');
+        return;
+      }
+      setReviewSubmissions(submissions);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load scans to review');
+    } finally {
+      setLoadingReview(false);
+    }
+  };
+
+  const closeReview = () => {
+    reviewSubmissions.forEach(submission => ScanReviewService.releaseSubmission(submission));
+    setReviewSubmissions([]);
+  };
+
+  const commitReview = async (itemsBySubmission: Record<string, ScanReviewItem[]>) => {
+    setCommittingReview(true);
+    let graded = 0;
+    try {
+      for (const submission of reviewSubmissions) {
+        const items = itemsBySubmission[submission.id] || ScanReviewService.buildItems(submission);
+        const reviewed = ScanReviewService.applyCorrections(submission, items);
+
+        try {
+          await ScanReviewService.logCorrections(submission, items);
+        } catch (error) {
+          console.warn('⚠️ Could not log OCR corrections:', error);
+        }
+
+        try {
+          await enhancedBatchService.commitReviewedFile(submission.id, reviewed);
+          graded++;
+        } catch (error) {
+          console.error(`Error grading ${submission.pages[0]?.fileName}:`, error);
+        }
+      }
+
+      const failed = reviewSubmissions.length - graded;
+      if (failed > 0) {
+        toast.error(`${graded} scans graded, ${failed} failed; the failed ones are still waiting for review`);
+      } else {
+        toast.success(`${graded} reviewed scans graded`);
+      }
+    } finally {
+      setCommittingReview(false);
+      closeReview();
+      await enhancedBatchService.refresh();
+      setQueueStatus(enhancedBatchService.getQueueStatus());
+    }
   };
 
   const formatTime = (seconds: number) => {
@@ -111,6 +192,7 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
       case 'failed': return <AlertCircle className="h-4 w-4 text-red-600" />;
       case 'processing': return <Play className="h-4 w-4 text-blue-600" />;
       case 'paused': return <Pause className="h-4 w-4 text-yellow-600" />;
+      case 'needs_review': return <ClipboardCheck className="h-4 w-4 text-amber-600" />;
       default: return <Clock className="h-4 w-4 text-gray-600" />;
     }
   };
@@ -121,6 +203,7 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
       case 'failed': return 'bg-red-100 border-red-300';
       case 'processing': return 'bg-blue-100 border-blue-300';
       case 'paused': return 'bg-yellow-100 border-yellow-300';
+      case 'needs_review': return 'bg-amber-50 border-amber-300';
       default: return 'bg-gray-100 border-gray-300';
     }
   };
@@ -187,9 +270,9 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                 
                 <Button 
                   onClick={handleCreateBatchJob}
-                  disabled={selectedFiles.length === 0}
+                  disabled={selectedFiles.length === 0 || submitting}
                 >
-                  Create Enhanced Batch Job
+                  {submitting ? 'Uploading...' : 'Create Enhanced Batch Job'}
                 </Button>
               </div>
             </CardContent>
@@ -200,9 +283,9 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Enhanced Processing Queue</span>
-                <Badge className={autoScalingEnabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                <Badge className={queueStatus.worker.connected ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
                   <Zap className="h-3 w-3 mr-1" />
-                  Auto-scaling {autoScalingEnabled ? 'ON' : 'OFF'}
+                  Queue {queueStatus.worker.connected ? 'connected' : 'offline'}
                 </Badge>
               </CardTitle>
             </CardHeader>
@@ -212,22 +295,19 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                   <div className="text-2xl font-bold text-blue-600">
                     {queueStatus.stats.activeWorkers}
                   </div>
-                  <div className="text-sm text-gray-600">Active Workers</div>
-                  <div className="text-xs text-gray-500">
-                    of {queueStatus.stats.maxWorkers} max
-                  </div>
+                  <div className="text-sm text-gray-600">Papers Grading</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-yellow-600">
                     {queueStatus.stats.queueDepth}
                   </div>
-                  <div className="text-sm text-gray-600">Pending Jobs</div>
+                  <div className="text-sm text-gray-600">Papers Waiting</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-green-600">
                     {queueStatus.stats.totalJobsProcessed}
                   </div>
-                  <div className="text-sm text-gray-600">Total Processed</div>
+                  <div className="text-sm text-gray-600">Graded Today</div>
                 </div>
                 <div className="text-center">
                   <div className="text-2xl font-bold text-purple-600">
@@ -238,14 +318,6 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
               </div>
 
               <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span>System Utilization:</span>
-                  <span>{Math.round((queueStatus.stats.activeWorkers / queueStatus.stats.maxWorkers) * 100)}%</span>
-                </div>
-                <Progress 
-                  value={(queueStatus.stats.activeWorkers / queueStatus.stats.maxWorkers) * 100} 
-                  className="h-2" 
-                />
                 <div className="flex justify-between text-xs text-gray-500">
                   <span>Success Rate: {Math.round(queueStatus.stats.successRate * 100)}%</span>
                   <span>Avg Time: {Math.round(queueStatus.stats.averageProcessingTime / 1000)}s</span>
@@ -255,13 +327,13 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
           </Card>
 
           {/* Active Jobs */}
-          {queueStatus.activeJobs.length > 0 && (
+          {queueStatus.activeJobs.length + queueStatus.pendingJobs.length > 0 && (
             <Card>
               <CardHeader>
                 <CardTitle>Active Jobs</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                {queueStatus.activeJobs.map((job) => (
+                {[...queueStatus.activeJobs, ...queueStatus.pendingJobs].map((job) => (
                   <div 
                     key={job.id} 
                     className={`p-4 rounded-lg border-2 ${getStatusColor(job.status)}`}
@@ -270,7 +342,7 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                       <div className="flex items-center gap-2">
                         {getStatusIcon(job.status)}
                         <span className="font-medium">
-                          {job.files.length} files
+                          {job.fileCount} files
                         </span>
                         <Badge variant={getPriorityColor(job.priority) as any}>
                           {job.priority}
@@ -283,7 +355,17 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                       </div>
                       
                       <div className="flex items-center gap-2">
-                        {job.status === 'processing' && (
+                        {job.fileStatuses.some(file => file.status === 'needs_review') && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleReviewJob(job.id)}
+                            disabled={loadingReview || reviewSubmissions.length > 0}
+                          >
+                            <ClipboardCheck className="h-3 w-3 mr-1" />
+                            Review {job.fileStatuses.filter(file => file.status === 'needs_review').length} scans
+                          </Button>
+                        )}
+                        {(job.status === 'processing' || job.status === 'pending') && (
                           <Button 
                             size="sm" 
                             variant="outline"
@@ -313,6 +395,26 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                       )}
                     </div>
                     
+                    <div className="mt-3 space-y-1">
+                      {job.fileStatuses.map((file) => (
+                        <div key={file.id} className="flex items-center justify-between text-xs text-gray-600">
+                          <div className="flex items-center gap-2">
+                            {getStatusIcon(file.status)}
+                            <span>{file.fileName}</span>
+                          </div>
+                          {file.retryCount > 0 && file.status !== 'completed' && (
+                            <span className="flex items-center gap-1 text-yellow-700">
+                              <RotateCcw className="h-3 w-3" />
+                              retry {file.retryCount}/{file.maxRetries}
+                            </span>
+                          )}
+                          {file.result && (
+                            <span>{file.result.studentName || 'Unknown student'}: {Math.round(file.result.overallScore)}%</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    
                     {job.errors.length > 0 && (
                       <div className="mt-2 text-sm text-red-600">
                         {job.errors.length} error(s): {job.errors[0]}
@@ -324,6 +426,16 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
             </Card>
           )}
 
+          {/* Review before grading */}
+          {reviewSubmissions.length > 0 && (
+            <ScanReviewWorkbench
+              submissions={reviewSubmissions}
+              confirming={committingReview}
+              onConfirm={commitReview}
+              onCancel={closeReview}
+            />
+          )}
+
           {/* Recent Completed Jobs */}
           {queueStatus.completedJobs.length > 0 && (
             <Card>
@@ -340,7 +452,7 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                       <div className="flex items-center gap-2">
                         {getStatusIcon(job.status)}
                         <span className="font-medium">
-                          {job.files.length} files
+                          {job.fileCount} files
                         </span>
                         <Badge variant="outline">
                           {job.status}
@@ -354,13 +466,17 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
                     
                     {job.results.length > 0 && (
                       <div className="mt-2 text-sm text-green-600">
-                        {job.results.length} files processed successfully
+                        {job.results.length} files graded successfully
                       </div>
                     )}
                     
-                    {job.errors.length > 0 && (
-                      <div className="mt-2 text-sm text-red-600">
-                        {job.errors.length} error(s): {job.errors[0]}
+                    {job.deadLetters.length > 0 && (
+                      <div className="mt-2 text-sm text-red-600 space-y-1">
+                        {job.deadLetters.map((failure) => (
+                          <div key={failure.id}>
+                            {failure.fileName || 'File'} failed after {failure.retryAttempt ?? 0} retries: {failure.errorMessage}
+                          </div>
+                        ))}
                       </div>
                     )}
                   </div>
@@ -383,46 +499,39 @@ export const EnhancedBatchProcessingManager: React.FC<EnhancedBatchProcessingMan
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h4 className="font-medium">Auto-scaling</h4>
-                  <p className="text-sm text-gray-600">
-                    Automatically adjust worker capacity based on queue depth
-                  </p>
-                </div>
-                <Button
-                  variant={autoScalingEnabled ? "default" : "outline"}
-                  onClick={toggleAutoScaling}
-                >
-                  {autoScalingEnabled ? "Enabled" : "Disabled"}
-                </Button>
+              <div>
+                <h4 className="font-medium">Grading Queue</h4>
+                <p className="text-sm text-gray-600">
+                  Each paper is a queued job that a worker claims, grades and retries on failure.
+                  Papers that still fail after their retries are moved to the failed-jobs log.
+                </p>
               </div>
 
               <div className="grid grid-cols-3 gap-4">
                 <div>
-                  <label className="text-sm font-medium">Min Workers</label>
+                  <label className="text-sm font-medium">Papers per Worker Call</label>
                   <input 
                     type="number" 
-                    value={queueStatus.autoScaling.minConcurrency}
+                    value={queueStatus.worker.claimBatchSize}
                     className="w-full p-2 border rounded mt-1"
                     readOnly
                   />
                 </div>
                 <div>
-                  <label className="text-sm font-medium">Current Workers</label>
+                  <label className="text-sm font-medium">Poll Interval (s)</label>
                   <input 
                     type="number" 
-                    value={queueStatus.autoScaling.currentConcurrency}
-                    className="w-full p-2 border rounded mt-1 bg-blue-50"
+                    value={queueStatus.worker.pollIntervalMs / 1000}
+                    className="w-full p-2 border rounded mt-1"
                     readOnly
                   />
                 </div>
                 <div>
-                  <label className="text-sm font-medium">Max Workers</label>
+                  <label className="text-sm font-medium">Last Synced</label>
                   <input 
-                    type="number" 
-                    value={queueStatus.autoScaling.maxConcurrency}
-                    className="w-full p-2 border rounded mt-1"
+                    type="text" 
+                    value={queueStatus.worker.lastSyncedAt ? new Date(queueStatus.worker.lastSyncedAt).toLocaleTimeString() : 'Never'}
+                    className="w-full p-2 border rounded mt-1 bg-blue-50"
                     readOnly
                   />
                 </div>
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, BookOpen, TrendingUp, Clock } from 'lucide-react';
+import { MiniLessonList } from '@/components/MiniLessonList';
 
 interface ExerciseCompletionSummaryProps {
   exerciseScore: number;
@@ -14,6 +15,7 @@ interface ExerciseCompletionSummaryProps {
   hasAnswerKey: boolean;
   onShowReview: () => void;
   onContinue: () => void;
+  studentId?: string;
 }
 
 export function ExerciseCompletionSummary({
@@ -24,7 +26,8 @@ export function ExerciseCompletionSummary({
   skillName,
   hasAnswerKey,
   onShowReview,
-  onContinue
+  onContinue,
+  studentId
 }: ExerciseCompletionSummaryProps) {
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
@@ -115,6 +118,10 @@ export function ExerciseCompletionSummary({
           )}
         </CardContent>
       </Card>
+
+      {studentId && correctAnswers < totalQuestions && (
+        <MiniLessonList studentId={studentId} skillName={skillName} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { type TestResult } from "@/services/examService";
+import {
+  GradeOverrideService,
+  OVERRIDE_REASONS,
+  type GradeOverride
+} from "@/services/gradeOverrideService";
+
+interface GradeOverrideDialogProps {
+  testResult: TestResult;
+  onOverridden: () => void;
+}
+
+interface QuestionRow {
+  questionNumber: number;
+  questionText: string;
+  pointsEarned: number;
+  pointsPossible: number;
+  studentAnswer?: string;
+  overridden?: boolean;
+}
+
+export function GradeOverrideDialog({ testResult, onOverridden }: GradeOverrideDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [pointsPossible, setPointsPossible] = useState<Record<number, { points: number; text: string }>>({});
+  const [history, setHistory] = useState<GradeOverride[]>([]);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [newPoints, setNewPoints] = useState(0);
+  const [reason, setReason] = useState(OVERRIDE_REASONS[0]);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadDetails = useCallback(async () => {
+    try {
+      const [{ data: answerKeys, error }, overrides] = await Promise.all([
+        supabase
+          .from('answer_keys')
+          .select('question_number, question_text, points')
+          .eq('exam_id', testResult.exam_id),
+        GradeOverrideService.getOverrides(testResult.id)
+      ]);
+
+      if (error) throw error;
+
+      setPointsPossible(Object.fromEntries(
+        (answerKeys || []).map(key => [key.question_number, { points: key.points, text: key.question_text }])
+      ));
+      setHistory(overrides);
+    } catch (error) {
+      console.error('Error loading grade details:', error);
+      toast.error('Failed to load question grades');
+    }
+  }, [testResult.id, testResult.exam_id]);
+
+  useEffect(() => {
+    if (open) {
+      loadDetails();
+    }
+  }, [open, loadDetails]);
+
+  const questions: QuestionRow[] = GradeOverrideService.getQuestionResults(testResult.detailed_analysis)
+    .map(result => ({
+      questionNumber: result.questionNumber,
+      questionText: pointsPossible[result.questionNumber]?.text || '',
+      pointsEarned: Number(result.pointsEarned) || 0,
+      pointsPossible: pointsPossible[result.questionNumber]?.points ?? 1,
+      studentAnswer: result.studentAnswer,
+      overridden: result.overridden
+    }))
+    .sort((a, b) => a.questionNumber - b.questionNumber);
+
+  const startEditing = (question: QuestionRow) => {
+    setEditing(question.questionNumber);
+    setNewPoints(question.pointsEarned);
+    setReason(OVERRIDE_REASONS[0]);
+    setComment('');
+  };
+
+  const handleSave = async (question: QuestionRow) => {
+    if (newPoints < 0 || newPoints > question.pointsPossible) {
+      toast.error(`Points must be between 0 and ${question.pointsPossible}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await GradeOverrideService.overrideQuestion({
+        testResultId: testResult.id,
+        examId: testResult.exam_id,
+        questionNumber: question.questionNumber,
+        newPoints,
+        reason,
+        comment: comment.trim() || undefined
+      });
+      toast.success(`Question ${question.questionNumber} updated – test score is now ${Math.round(result.overallScore)}%`);
+      setEditing(null);
+      onOverridden();
+      setHistory(await GradeOverrideService.getOverrides(testResult.id));
+    } catch (error) {
+      console.error('Error overriding grade:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to override grade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Pencil className="h-4 w-4 mr-1" />
+          Review Grades
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Grades</DialogTitle>
+          <DialogDescription>
+            Correct the points for any question. The test score and skill scores are recalculated, and the change is logged.
+          </DialogDescription>
+        </DialogHeader>
+
+        {questions.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Per-question grades were not stored for this test, so it can't be adjusted question by question.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {questions.map(question => (
+              <div key={question.questionNumber} className="border rounded p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      Question {question.questionNumber}
+                      {question.overridden && <Badge variant="secondary" className="ml-2">Adjusted</Badge>}
+                    </p>
+                    {question.questionText && (
+                      <p className="text-xs text-gray-500 truncate">{question.questionText}</p>
+                    )}
+                    {question.studentAnswer && (
+                      <p className="text-xs text-gray-600">Answer: "{question.studentAnswer}"</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-sm text-gray-700">{question.pointsEarned}/{question.pointsPossible}</span>
+                    {editing !== question.questionNumber && (
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(question)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {editing === question.questionNumber && (
+                  <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-[6rem_1fr] gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor={`override-points-${question.questionNumber}`}>Points</Label>
+                        <Input
+                          id={`override-points-${question.questionNumber}`}
+                          type="number"
+                          min={0}
+                          max={question.pointsPossible}
+                          step={0.5}
+                          value={newPoints}
+                          onChange={(e) => setNewPoints(Number(e.target.value) || 0)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Reason</Label>
+                        <Select value={reason} onValueChange={setReason}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {OVERRIDE_REASONS.map(option => (
+                              <SelectItem key={option} value={option}>{option}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <Textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      placeholder="Comment for the student (optional)"
+                      rows={2}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+                      <Button size="sm" onClick={() => handleSave(question)} disabled={saving}>
+                        {saving ? 'Saving...' : 'Save'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <h4 className="text-sm font-medium text-gray-900">Change history</h4>
+            {history.map(entry => (
+              <div key={entry.id} className="text-xs text-gray-600 border-l-2 border-gray-200 pl-2">
+                <p>
+                  Q{entry.questionNumber}: {entry.previousPoints} → {entry.newPoints}/{entry.pointsPossible} · {entry.reason}
+                </p>
+                {entry.comment && <p className="text-gray-500">"{entry.comment}"</p>}
+                <p className="text-gray-400">{new Date(entry.createdAt).toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Download, ArrowUp, ArrowDown, X } from "lucide-react";
+import { toast } from "sonner";
+import { getExamsByClassId } from "@/services/examService";
+import {
+  DEFAULT_GRADEBOOK_TEMPLATE,
+  GRADEBOOK_COLUMN_SOURCES,
+  GradebookExportService,
+  type GradebookColumnSource,
+  type GradebookFormat,
+  type GradebookTemplate
+} from "@/services/gradebookExportService";
+import { downloadBlob } from "@/utils/spreadsheetExport";
+
+interface GradebookExportDialogProps {
+  classId: string;
+  className: string;
+}
+
+const WHOLE_CLASS = '__class__';
+
+export function GradebookExportDialog({ classId, className }: GradebookExportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [exams, setExams] = useState<Array<{ exam_id: string; title: string }>>([]);
+  const [scope, setScope] = useState(WHOLE_CLASS);
+  const [format, setFormat] = useState<GradebookFormat>('csv');
+  const [templates, setTemplates] = useState<GradebookTemplate[]>([]);
+  const [template, setTemplate] = useState<GradebookTemplate>(DEFAULT_GRADEBOOK_TEMPLATE);
+  const [templateName, setTemplateName] = useState('');
+  const [changesOnly, setChangesOnly] = useState(false);
+  const [lastExportedAt, setLastExportedAt] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [classExams, savedTemplates] = await Promise.all([
+        getExamsByClassId(classId),
+        GradebookExportService.getTemplates()
+      ]);
+      setExams(classExams);
+      setTemplates(savedTemplates);
+    } catch (error) {
+      console.error('Error loading export options:', error);
+      toast.error('Failed to load export options');
+    }
+  }, [classId]);
+
+  useEffect(() => {
+    if (open) {
+      loadOptions();
+    }
+  }, [open, loadOptions]);
+
+  useEffect(() => {
+    if (open) {
+      GradebookExportService.getLastExportedAt(classId, scope === WHOLE_CLASS ? undefined : scope)
+        .then(setLastExportedAt)
+        .catch(() => setLastExportedAt(null));
+    }
+  }, [open, scope, classId]);
+
+  const selectTemplate = (templateId: string) => {
+    const selected = templates.find(t => t.id === templateId) || DEFAULT_GRADEBOOK_TEMPLATE;
+    setTemplate(selected);
+    setTemplateName(selected.id ? selected.name : '');
+  };
+
+  const updateColumns = (columns: GradebookTemplate['columns']) => {
+    setTemplate(prev => ({ ...prev, id: undefined, columns }));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const columns = [...template.columns];
+    const [column] = columns.splice(index, 1);
+    columns.splice(index + offset, 0, column);
+    updateColumns(columns);
+  };
+
+  const addColumn = (source: GradebookColumnSource) => {
+    const definition = GRADEBOOK_COLUMN_SOURCES.find(s => s.source === source);
+    if (!definition) return;
+    updateColumns([...template.columns, { source, header: definition.defaultHeader }]);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) {
+      toast.error('Enter a template name');
+      return;
+    }
+
+    try {
+      const saved = await GradebookExportService.saveTemplate({ ...template, name: templateName.trim() });
+      setTemplate(saved);
+      setTemplates(prev => [...prev.filter(t => t.name !== saved.name), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`Template "${saved.name}" saved`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error('Failed to save template');
+    }
+  };
+
+  const handleExport = async () => {
+    if (template.columns.length === 0) {
+      toast.error('Add at least one column');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const result = await GradebookExportService.exportGradebook({
+        classId,
+        examId: scope === WHOLE_CLASS ? undefined : scope,
+        template,
+        format,
+        changesOnly
+      });
+
+      if (result.rowCount === 0) {
+        toast.info(changesOnly ? 'No grade changes since the last export' : 'No graded results to export yet');
+        return;
+      }
+
+      downloadBlob(result.blob, result.fileName);
+      toast.success(`Exported ${result.rowCount} students`);
+      setLastExportedAt(new Date().toISOString());
+    } catch (error) {
+      console.error('Error exporting gradebook:', error);
+      toast.error('Failed to export gradebook');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export Gradebook
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Gradebook</DialogTitle>
+          <DialogDescription>
+            One row per student in {className}, with the columns your SIS import expects.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Scope</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_CLASS}>All exams in class</SelectItem>
+                  {exams.map(exam => (
+                    <SelectItem key={exam.exam_id} value={exam.exam_id}>{exam.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as GradebookFormat)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Column template</Label>
+            <Select value={template.id || 'default'} onValueChange={selectTemplate}>
+              <SelectTrigger><SelectValue placeholder="Custom" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Default</SelectItem>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id as string}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded p-3 space-y-2">
+            {template.columns.map((column, index) => (
+              <div key={`${column.source}-${index}`} className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-36 shrink-0">
+                  {GRADEBOOK_COLUMN_SOURCES.find(s => s.source === column.source)?.label}
+                </span>
+                <Input
+                  value={column.header}
+                  onChange={(e) => updateColumns(template.columns.map((c, i) => i === index ? { ...c, header: e.target.value } : c))}
+                  className="h-8"
+                />
+                <Button size="icon" variant="ghost" className="h-8 w-8" disabled={index === 0} onClick={() => moveColumn(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" disabled={index === template.columns.length - 1} onClick={() => moveColumn(index, 1)}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => updateColumns(template.columns.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2 pt-2">
+              <Select value="" onValueChange={(value) => addColumn(value as GradebookColumnSource)}>
+                <SelectTrigger className="h-8"><SelectValue placeholder="Add column..." /></SelectTrigger>
+                <SelectContent>
+                  {GRADEBOOK_COLUMN_SOURCES.map(s => (
+                    <SelectItem key={s.source} value={s.source}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Label className="text-xs shrink-0">Decimals</Label>
+              <Input
+                type="number"
+                min={0}
+                max={4}
+                value={template.scoreDecimals}
+                onChange={(e) => setTemplate(prev => ({ ...prev, id: undefined, scoreDecimals: Math.min(4, Math.max(0, Number(e.target.value) || 0)) }))}
+                className="h-8 w-20"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Use {'{exam}'}, {'{skill}'} and {'{question}'} in headers of repeating columns.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input placeholder="Template name" value={templateName} onChange={(e) => setTemplateName(e.target.value)} />
+            <Button variant="outline" onClick={handleSaveTemplate}>Save Template</Button>
+          </div>
+
+          <div className="flex items-start space-x-2">
+            <Checkbox id="changes-only" checked={changesOnly} onCheckedChange={(checked) => setChangesOnly(checked === true)} />
+            <div>
+              <Label htmlFor="changes-only">Only students with changes since the last export</Label>
+              <p className="text-xs text-gray-500">
+                {lastExportedAt
+                  ? `Last exported ${new Date(lastExportedAt).toLocaleString()}`
+                  : 'Not exported before – everything will be included'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { Copy, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { GuardianService, type GuardianInvite, type LinkedGuardian } from "@/services/guardianService";
+
+interface GuardianAccessDialogProps {
+  studentProfileId?: string; // Left out when students manage their own guardians
+  studentName: string;
+}
+
+export function GuardianAccessDialog({ studentProfileId, studentName }: GuardianAccessDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [invite, setInvite] = useState<GuardianInvite | null>(null);
+  const [guardians, setGuardians] = useState<LinkedGuardian[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [ownProfileId, setOwnProfileId] = useState<string | null>(null);
+
+  const profileId = studentProfileId || ownProfileId;
+
+  const loadGuardians = useCallback(async () => {
+    if (!profileId) return;
+    try {
+      setGuardians(await GuardianService.getStudentGuardians(profileId));
+    } catch (error) {
+      console.error('Error loading guardians:', error);
+      toast.error('Failed to load linked guardians');
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    if (open && !studentProfileId && !ownProfileId) {
+      GuardianService.getOwnStudentProfileId().then(setOwnProfileId);
+    }
+  }, [open, studentProfileId, ownProfileId]);
+
+  useEffect(() => {
+    if (open) {
+      loadGuardians();
+    }
+  }, [open, loadGuardians]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      setInvite(await GuardianService.createInvite(profileId || undefined));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create invite code');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+    await navigator.clipboard.writeText(invite.code);
+    toast.success('Invite code copied');
+  };
+
+  const handleRemove = async (guardian: LinkedGuardian) => {
+    try {
+      await GuardianService.removeLink(guardian.linkId);
+      setGuardians(prev => prev.filter(g => g.linkId !== guardian.linkId));
+      toast.success(`${guardian.guardianName} can no longer see ${studentName}'s progress`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove guardian');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Family access
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Family Access</DialogTitle>
+          <DialogDescription>
+            Parents and guardians with a code get a read-only view of {studentName}'s results, skills, practice and goals, plus a weekly summary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {invite ? (
+            <div className="border rounded p-4 text-center space-y-2">
+              <p className="text-3xl font-mono font-bold tracking-widest">{invite.code}</p>
+              <p className="text-xs text-muted-foreground">
+                Single use, expires {format(new Date(invite.expiresAt), 'MMM d, yyyy')}
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleGenerate} disabled={generating}>
+                  New code
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button onClick={handleGenerate} disabled={generating} className="w-full">
+              {generating ? 'Generating...' : 'Generate invite code'}
+            </Button>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Linked guardians</p>
+            {guardians.length === 0 && (
+              <p className="text-sm text-muted-foreground">No guardians are linked yet.</p>
+            )}
+            {guardians.map(guardian => (
+              <div key={guardian.linkId} className="flex items-center justify-between border rounded p-2">
+                <div>
+                  <p className="text-sm font-medium">{guardian.guardianName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {guardian.guardianEmail} · linked {format(new Date(guardian.linkedAt), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(guardian)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,7 +11,10 @@ import { StudentTestResults } from "@/components/StudentTestResults";
 import { StudentContentSkills } from "@/components/StudentContentSkills";
 import { StudentSubjectSkills } from "@/components/StudentSubjectSkills";
 import { StudentProgressChart } from "@/components/StudentProgressChart";
+import { StudentGoalsPanel } from "@/components/StudentGoalsPanel";
+import { GuardianAccessDialog } from "@/components/GuardianAccessDialog";
 import { useStudentProfileData } from "@/hooks/useStudentProfileData";
+import { useSkillData } from "@/hooks/useSkillData";
 import { useAuthenticatedStudentData } from "@/hooks/useAuthenticatedStudentData";
 import { useAuth } from "@/contexts/AuthContext";
 
@@ -48,6 +51,8 @@ const getLearningStyles = (studentName: string) => {
   return profiles[studentName as keyof typeof profiles] || profiles.default;
 };
 
+const isNotGradeSpecificClass = () => false;
+
 export function LearnerProfileDisplay({ studentId, classId, className, onBack }: LearnerProfileDisplayProps) {
   const { user, profile } = useAuth();
   
@@ -121,6 +126,18 @@ export function LearnerProfileDisplay({ studentId, classId, className, onBack }:
     classData: mockData.classData
   };
 
+  const { weakestSkills } = useSkillData({
+    contentSkillScores,
+    subjectSkillScores,
+    classContentSkills,
+    classSubjectSkills,
+    isClassView,
+    isGrade10MathClass: isNotGradeSpecificClass
+  });
+
+  // Goals belong to the student's login, so students without one can't have goals yet
+  const goalStudentId = isCurrentUser ? user?.id : mockData.studentProfile?.authenticated_user_id;
+
   if (studentLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -201,6 +218,14 @@ export function LearnerProfileDisplay({ studentId, classId, className, onBack }:
                     )}
                   </div>
                 </div>
+                {(isCurrentUser || mockData.studentProfile?.id) && (
+                  <div className="ml-auto">
+                    <GuardianAccessDialog
+                      studentProfileId={isCurrentUser ? undefined : mockData.studentProfile?.id}
+                      studentName={student.name}
+                    />
+                  </div>
+                )}
               </div>
             </CardHeader>
           </Card>
@@ -208,12 +233,13 @@ export function LearnerProfileDisplay({ studentId, classId, className, onBack }:
 
         {/* Tabbed Content */}
         <Tabs defaultValue="learning-style" className="w-full">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="learning-style">Learning Style</TabsTrigger>
             <TabsTrigger value="test-results">Test Results</TabsTrigger>
             <TabsTrigger value="content-skills">Content Skills</TabsTrigger>
             <TabsTrigger value="subject-skills">Subject Skills</TabsTrigger>
             <TabsTrigger value="progress">Progress</TabsTrigger>
+            <TabsTrigger value="goals">Goals</TabsTrigger>
           </TabsList>
 
           <TabsContent value="learning-style" className="space-y-8">
@@ -271,6 +297,7 @@ export function LearnerProfileDisplay({ studentId, classId, className, onBack }:
             <StudentTestResults 
               testResults={testResults}
               testResultsLoading={testResultsLoading}
+              canOverride={!isCurrentUser && profile?.role === 'teacher'}
             />
           </TabsContent>
 
@@ -305,6 +332,22 @@ export function LearnerProfileDisplay({ studentId, classId, className, onBack }:
               student={student}
             />
           </TabsContent>
+
+          <TabsContent value="goals">
+            {goalStudentId ? (
+              <StudentGoalsPanel
+                studentId={goalStudentId}
+                weakestSkills={weakestSkills}
+                readOnly={!isCurrentUser}
+              />
+            ) : (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  This student hasn't signed in yet, so they have no goals.
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -9,6 +9,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Users, Activity, BarChart3, Clock, CheckCircle, AlertCircle, Play } from "lucide-react";
 import { getSessionMonitoringData, type SessionMonitoringData } from "@/services/classSessionService";
 import { supabase } from "@/integrations/supabase/client";
+import { MisconceptionAlertInbox } from "./MisconceptionAlertInbox";
 import { toast } from "sonner";
 
 interface LiveSessionMonitoringProps {
@@ -122,6 +123,10 @@ export function LiveSessionMonitoring({ sessionId, showAllSessions = false }: Li
 
   return (
     <div className="space-y-6">
+      <MisconceptionAlertInbox
+        students={Object.entries(studentGroups).map(([studentId, { student_name }]) => ({ studentId, studentName: student_name }))}
+      />
+
       <Tabs defaultValue="overview" className="w-full">
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="overview">Session Overview</TabsTrigger>
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Lightbulb, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { MiniLessonService, type MiniLesson } from '@/services/miniLessonService';
+
+interface MiniLessonListProps {
+  studentId: string;
+  skillName: string;
+  maxLessons?: number;
+}
+
+// Lessons are generated in the background after grading, so check back a few times
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLLS = 6;
+
+export function MiniLessonList({ studentId, skillName, maxLessons = 3 }: MiniLessonListProps) {
+  const [lessons, setLessons] = useState<MiniLesson[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [polling, setPolling] = useState(true);
+
+  useEffect(() => {
+    let pollCount = 0;
+    let cancelled = false;
+
+    const loadLessons = async () => {
+      try {
+        const studentLessons = await MiniLessonService.getStudentMiniLessons(studentId, skillName);
+        if (!cancelled) {
+          setLessons(studentLessons.slice(0, maxLessons));
+        }
+      } catch (error) {
+        console.error('Error loading mini-lessons:', error);
+      }
+    };
+
+    loadLessons();
+    const interval = setInterval(() => {
+      pollCount++;
+      loadLessons();
+      if (pollCount >= MAX_POLLS) {
+        clearInterval(interval);
+        setPolling(false);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [studentId, skillName, maxLessons]);
+
+  const handleToggle = (lesson: MiniLesson) => {
+    if (expandedId === lesson.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(lesson.id);
+    MiniLessonService.recordView(lesson);
+    setLessons(prev => prev.map(l =>
+      l.id === lesson.id ? { ...l, viewed_count: (l.viewed_count || 0) + 1 } : l
+    ));
+  };
+
+  if (lessons.length === 0 && !polling) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lightbulb className="h-5 w-5 text-yellow-600" />
+          Mini-Lessons for You
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {lessons.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking your answers for anything worth a quick lesson...
+          </div>
+        ) : (
+          lessons.map(lesson => {
+            const isExpanded = expandedId === lesson.id;
+
+            return (
+              <div key={lesson.id} className="border rounded-lg">
+                <button
+                  type="button"
+                  className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50"
+                  onClick={() => handleToggle(lesson)}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{lesson.misconception_name || 'Quick lesson'}</span>
+                    {!lesson.viewed_count && <Badge className="bg-yellow-100 text-yellow-800">New</Badge>}
+                  </div>
+                  {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+                {isExpanded && (
+                  <div className="px-3 pb-3 text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+                    {lesson.lesson_content}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
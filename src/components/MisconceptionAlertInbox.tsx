@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, Clock, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  ALERT_RESOLUTION_TYPES,
+  MisconceptionAlertService,
+  type AlertAccuracyStats,
+  type AlertResolutionType,
+  type MisconceptionAlert
+} from "@/services/misconceptionAlertService";
+
+interface MisconceptionAlertInboxProps {
+  students: Array<{ studentId: string; studentName: string }>;
+}
+
+interface AlertSignals {
+  skillName?: string;
+  questionNumber?: number;
+  timeSpentSeconds?: number | null;
+  timeRatio?: number;
+  answerChanges?: number;
+  multipleMarks?: boolean;
+  isCorrect?: boolean | null;
+  rushed?: boolean;
+}
+
+const RISK_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-orange-100 text-orange-800',
+  low: 'bg-yellow-100 text-yellow-800'
+};
+
+export function MisconceptionAlertInbox({ students }: MisconceptionAlertInboxProps) {
+  const [alerts, setAlerts] = useState<MisconceptionAlert[]>([]);
+  const [accuracy, setAccuracy] = useState<AlertAccuracyStats | null>(null);
+  const [profileLogins, setProfileLogins] = useState<Record<string, string>>({});
+  const [resolutions, setResolutions] = useState<Record<string, AlertResolutionType>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const studentKey = students.map(student => student.studentId).sort().join(',');
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const [openAlerts, stats] = await Promise.all([
+        MisconceptionAlertService.getOpenAlerts(studentKey.split(',')),
+        MisconceptionAlertService.getAccuracyStats()
+      ]);
+      setAlerts(openAlerts);
+      setAccuracy(stats);
+      setProfileLogins(await MisconceptionAlertService.getProfileLoginIds([...new Set(openAlerts.map(alert => alert.student_id))]));
+    } catch (error) {
+      console.error('Error loading misconception alerts:', error);
+    }
+  }, [studentKey]);
+
+  useEffect(() => {
+    if (!studentKey) return;
+    loadAlerts();
+
+    const channel = supabase
+      .channel('misconception-alerts')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'predictive_misconception_alerts'
+      }, (payload) => {
+        if ((payload.new as MisconceptionAlert).risk_level === 'high') {
+          toast.warning('New high-risk misconception alert');
+        }
+        loadAlerts();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [studentKey, loadAlerts]);
+
+  const getStudentName = (alert: MisconceptionAlert) => {
+    const loginId = profileLogins[alert.student_id] || alert.student_id;
+    return students.find(student => student.studentId === loginId)?.studentName || 'Student';
+  };
+
+  const handleResolve = async (alert: MisconceptionAlert) => {
+    const resolutionType = resolutions[alert.id];
+    if (!resolutionType) {
+      toast.error('Choose how this alert was resolved');
+      return;
+    }
+
+    setResolvingId(alert.id);
+    try {
+      await MisconceptionAlertService.resolveAlert(alert.id, resolutionType);
+      setAlerts(prev => prev.filter(item => item.id !== alert.id));
+      setAccuracy(await MisconceptionAlertService.getAccuracyStats());
+      toast.success('Alert resolved');
+    } catch (error) {
+      console.error('Error resolving alert:', error);
+      toast.error('Failed to resolve alert');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const describeSignals = (signals: AlertSignals) => {
+    const parts: string[] = [];
+    if (signals.timeRatio && signals.timeRatio >= 1.5) parts.push(`${signals.timeRatio}× usual time`);
+    if (signals.rushed) parts.push('rushed answer');
+    if (signals.answerChanges) parts.push(`${signals.answerChanges} answer change${signals.answerChanges === 1 ? '' : 's'}`);
+    if (signals.multipleMarks) parts.push('erasures/multiple marks');
+    if (signals.isCorrect === false) parts.push('incorrect');
+    return parts.join(' · ');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Misconception Alerts
+            {alerts.length > 0 && <Badge variant="destructive">{alerts.length}</Badge>}
+          </span>
+          <div className="flex items-center gap-3">
+            {accuracy && accuracy.resolved > 0 && (
+              <span className="text-sm font-normal text-slate-600">
+                Alert accuracy: {Math.round(accuracy.accuracyRate)}% of {accuracy.resolved} resolved
+              </span>
+            )}
+            <Button size="sm" variant="ghost" onClick={loadAlerts}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-slate-500 flex items-center gap-2">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            No open alerts. Students' timing and answer patterns look on track.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {alerts.map(alert => {
+              const signals = (alert.behavioral_signals || {}) as AlertSignals;
+              return (
+                <div key={alert.id} className="p-3 border rounded-lg flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{getStudentName(alert)}</span>
+                      <Badge className={RISK_STYLES[alert.risk_level || 'low'] || RISK_STYLES.low}>
+                        {alert.risk_level || 'low'} risk
+                      </Badge>
+                      <span className="text-xs text-slate-500">{Math.round(alert.confidence_score * 100)}% confidence</span>
+                    </div>
+                    <p className="text-sm">
+                      Likely misconception: <strong>{alert.misconception_name || 'Unknown'}</strong>
+                      {signals.skillName && <> in {signals.skillName}</>}
+                      {signals.questionNumber && <> (Q{signals.questionNumber})</>}
+                    </p>
+                    <p className="text-xs text-slate-500 flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {describeSignals(signals) || 'Struggle pattern detected'}
+                      {' · '}{alert.exam_id ? 'uploaded test' : 'practice'}
+                      {' · '}{new Date(alert.created_at).toLocaleTimeString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={resolutions[alert.id] || ''}
+                      onValueChange={(value) => setResolutions(prev => ({ ...prev, [alert.id]: value as AlertResolutionType }))}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Resolution" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ALERT_RESOLUTION_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" disabled={resolvingId === alert.id} onClick={() => handleResolve(alert)}>
+                      Resolve
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,12 +7,14 @@ import { CheckCircle, XCircle, HelpCircle, BookOpen, Target, ArrowLeft, Lightbul
 import { PracticeAnswerKeyService, type PracticeAnswerKey } from '@/services/practiceAnswerKeyService';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { MiniLessonList } from '@/components/MiniLessonList';
 
 interface PracticeExerciseReviewProps {
   exerciseId: string;
   studentAnswers: Record<string, string>;
   exerciseScore: number;
   onBack: () => void;
+  studentId?: string;
 }
 
 interface QuestionReview {
@@ -33,7 +35,8 @@ export function PracticeExerciseReview({
   exerciseId, 
   studentAnswers, 
   exerciseScore, 
-  onBack 
+  onBack,
+  studentId
 }: PracticeExerciseReviewProps) {
   const [answerKey, setAnswerKey] = useState<PracticeAnswerKey | null>(null);
   const [loading, setLoading] = useState(true);
@@ -394,6 +397,11 @@ export function PracticeExerciseReview({
         ))}
       </div>
 
+      {/* Mini-lessons for misconceptions found in this exercise */}
+      {studentId && questionReviews.some(q => !q.isCorrect) && (
+        <MiniLessonList studentId={studentId} skillName={answerKey.metadata.skillName} />
+      )}
+
       {/* Next Steps */}
       <Card>
         <CardHeader>
@@ -6,23 +6,32 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Progress } from '@/components/ui/progress';
 import { CheckCircle, XCircle, Clock, BookOpen } from 'lucide-react';
 import { PracticeExerciseGradingService, type PracticeExerciseAnswer, type ExerciseSubmissionResult } from '@/services/practiceExerciseGradingService';
+import { StructuredQuestionService, type MatchPair } from '@/services/structuredQuestionService';
 import { QuestionTimingService } from '@/services/questionTimingService';
+import { MisconceptionAlertService, type QuestionObservation } from '@/services/misconceptionAlertService';
 
 interface PracticeQuestion {
   id: string;
-  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay';
+  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay'
+    | 'multi-select' | 'matching' | 'ordering' | 'fill-in-blank';
   question: string;
   options?: string[];
   correctAnswer: string;
+  correctAnswers?: string[];
+  matchPairs?: MatchPair[];
   acceptableAnswers?: string[];
   keywords?: string[];
   points: number;
   targetSkill: string;
 }
 
+// Struggle is judged against the student's own pace, so detection waits for a few answers
+const DETECTION_MIN_QUESTIONS = 3;
+
 interface PracticeExerciseData {
   title: string;
   description: string;
@@ -37,9 +46,12 @@ interface Props {
   onComplete: (results: ExerciseSubmissionResult & { answers: Record<string, string> }) => void;
   onExit?: () => void;
   showTimer?: boolean;
+  studentId?: string;
+  subject?: string;
+  grade?: string;
 }
 
-export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showTimer = true }: Props) {
+export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showTimer = true, studentId, subject, grade }: Props) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -50,6 +62,8 @@ export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showT
   const [questionTimingIds, setQuestionTimingIds] = useState<Record<string, string>>({});
   const [answerChangeCounts, setAnswerChangeCounts] = useState<Record<string, number>>({});
   const currentTimingId = useRef<string | null>(null);
+  const questionSeconds = useRef<Record<string, number>>({});
+  const questionEnteredAt = useRef(Date.now());
 
   const currentQuestion = exerciseData.questions[currentQuestionIndex];
   const progress = ((currentQuestionIndex + 1) / exerciseData.questions.length) * 100;
@@ -85,9 +99,13 @@ export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showT
     };
 
     startQuestionTiming();
+    questionEnteredAt.current = Date.now();
+    const secondsByQuestion = questionSeconds.current;
 
     // Cleanup function to record timing when leaving question
     return () => {
+      secondsByQuestion[currentQuestion.id] =
+        (secondsByQuestion[currentQuestion.id] || 0) + Math.round((Date.now() - questionEnteredAt.current) / 1000);
       if (currentTimingId.current) {
         QuestionTimingService.recordQuestionAnswer(currentTimingId.current, false);
       }
@@ -117,8 +135,32 @@ export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showT
     }
   };
 
+  const buildObservation = (question: PracticeQuestion, index: number, isCorrect?: boolean): QuestionObservation => {
+    const onScreenSeconds = index === currentQuestionIndex
+      ? Math.round((Date.now() - questionEnteredAt.current) / 1000)
+      : 0;
+
+    return {
+      questionId: question.id,
+      questionNumber: index + 1,
+      skillName: question.targetSkill,
+      isCorrect,
+      timeSpentSeconds: (questionSeconds.current[question.id] || 0) + onScreenSeconds,
+      answerChanges: answerChangeCounts[question.id] || 0
+    };
+  };
+
   const handleNext = () => {
     if (currentQuestionIndex < exerciseData.questions.length - 1) {
+      // Check the answers so far while the student keeps working
+      const answered = exerciseData.questions.slice(0, currentQuestionIndex + 1);
+      if (studentId && answered.length >= DETECTION_MIN_QUESTIONS) {
+        MisconceptionAlertService.detect(
+          studentId,
+          answered.map((question, index) => buildObservation(question, index)),
+          exerciseData.exerciseId
+        );
+      }
       setCurrentQuestionIndex(prev => prev + 1);
     }
   };
@@ -147,6 +189,8 @@ export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showT
         acceptableAnswers: question.acceptableAnswers,
         keywords: question.keywords,
         options: question.options,
+        correctAnswers: question.correctAnswers,
+        matchPairs: question.matchPairs,
         points: question.points
       }));
 
@@ -155,9 +199,22 @@ export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showT
         exerciseAnswers,
         exerciseData.title,
         exerciseData.exerciseId, // Pass exercise ID for tracking
-        exerciseData.questions[0]?.targetSkill // Pass skill name for tracking
+        exerciseData.questions[0]?.targetSkill, // Pass skill name for tracking
+        { subject, grade },
+        studentId // Lets misconceptions queue mini-lessons for this student
       );
 
+      // Recheck every question now that correctness is known
+      if (studentId) {
+        MisconceptionAlertService.detect(
+          studentId,
+          exerciseData.questions.map((question, index) =>
+            buildObservation(question, index, results.questionResults.find(r => r.questionId === question.id)?.isCorrect)
+          ),
+          exerciseData.exerciseId
+        );
+      }
+
       // Include answers in the results for review functionality
       const resultsWithAnswers = {
         ...results,
@@ -269,6 +326,107 @@ export function PracticeExerciseRunner({ exerciseData, onComplete, onExit, showT
           </div>
         );
 
+      case 'multi-select': {
+        const selected = answer ? answer.split(', ') : [];
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Select all that apply.</p>
+            {currentQuestion.options?.map((option, index) => {
+              const letter = StructuredQuestionService.optionLabel(index);
+              return (
+                <div key={index} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`option-${index}`}
+                    checked={selected.includes(letter)}
+                    onCheckedChange={(checked) => handleAnswerChange(
+                      currentQuestion.id,
+                      (checked ? [...selected, letter].sort() : selected.filter(item => item !== letter)).join(', ')
+                    )}
+                  />
+                  <Label htmlFor={`option-${index}`} className="cursor-pointer">
+                    {letter}. {option}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case 'matching': {
+        const pairs = currentQuestion.matchPairs || [];
+        const choices = StructuredQuestionService.displayOrder(pairs.map(pair => pair.answer));
+        // Stored as "1-B, 2-A" so unanswered prompts keep their position
+        const letters: string[] = [];
+        answer.split(', ').forEach(part => {
+          const match = part.match(/^(\d+)-(.*)$/);
+          if (match) letters[Number(match[1]) - 1] = match[2];
+        });
+        const setLetter = (index: number, letter: string) => {
+          const next = pairs.map((_, i) => (i === index ? letter : letters[i] || '').trim().toUpperCase());
+          handleAnswerChange(currentQuestion.id, next.map((value, i) => (value ? `${i + 1}-${value}` : '')).filter(Boolean).join(', '));
+        };
+        return (
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-2">
+              {pairs.map((pair, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={letters[index] || ''}
+                    onChange={(e) => setLetter(index, e.target.value.slice(-1))}
+                    className="w-12 text-center"
+                    aria-label={`Match for item ${index + 1}`}
+                  />
+                  <span>{index + 1}. {pair.prompt}</span>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {choices.map((choice, index) => (
+                <p key={index}><span className="font-medium">{StructuredQuestionService.optionLabel(index)}.</span> {choice}</p>
+              ))}
+            </div>
+          </div>
+        );
+      }
+
+      case 'ordering':
+        return (
+          <div className="space-y-4">
+            {StructuredQuestionService.displayOrder(currentQuestion.options || []).map((item, index) => (
+              <p key={index}><span className="font-medium">{StructuredQuestionService.optionLabel(index)}.</span> {item}</p>
+            ))}
+            <Input
+              placeholder="Letters in the correct order, e.g. B, A, C"
+              value={answer}
+              onChange={(e) => handleAnswerChange(currentQuestion.id, e.target.value)}
+              className="w-full"
+            />
+          </div>
+        );
+
+      case 'fill-in-blank': {
+        const blanks = StructuredQuestionService.countBlanks(currentQuestion.question);
+        const parts = answer.split(' | ');
+        return (
+          <div className="space-y-2">
+            {Array.from({ length: blanks }, (_, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Label className="w-20">Blank {index + 1}</Label>
+                <Input
+                  value={parts[index] || ''}
+                  onChange={(e) => {
+                    const next = Array.from({ length: blanks }, (_, i) => (i === index ? e.target.value : parts[i] || ''));
+                    handleAnswerChange(currentQuestion.id, next.join(' | '));
+                  }}
+                  className="flex-1"
+                />
+              </div>
+            ))}
+          </div>
+        );
+      }
+
       default:
         return null;
     }
@@ -30,8 +30,8 @@ export function PracticeRecommendations({ recommendations, classId }: PracticeRe
     }
 
     const encodedSkillName = encodeURIComponent(skillName);
-    const questionCount = difficulty === 'Challenge' ? 6 : difficulty === 'Standard' ? 5 : 4;
-    const route = `/student-dashboard/practice/${classId}/${encodedSkillName}?questions=${questionCount}`;
+    // Question count comes from the student's adaptive profile on the practice page
+    const route = `/student-dashboard/practice/${classId}/${encodedSkillName}`;
     
     console.log('Navigating to:', route);
     navigate(route);
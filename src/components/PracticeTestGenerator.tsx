@@ -7,6 +7,7 @@ import { toast } from "sonner";
 import jsPDF from 'jspdf';
 import { generatePracticeTest, PracticeTestData, PracticeTestQuestion } from "@/services/practiceTestService";
 import { printTest } from "@/services/printService";
+import { StructuredQuestionService } from "@/services/structuredQuestionService";
 
 interface PracticeTestGeneratorProps {
   studentName: string;
@@ -71,6 +72,7 @@ export function PracticeTestGenerator({
         type: q.type,
         question: q.question,
         options: q.options,
+        matchPairs: q.matchPairs, // Printed as shuffled columns, so this gives nothing away
         correctAnswer: undefined, // Don't include answers in printed version
         points: q.points
       })),
@@ -125,7 +127,8 @@ export function PracticeTestGenerator({
       // Check if we need a new page
       const estimatedHeight = question.type === 'multiple-choice' ? 80 : 
                              question.type === 'true-false' ? 60 :
-                             question.type === 'short-answer' ? 100 : 50;
+                             question.type === 'short-answer' ? 100 :
+                             question.type === 'multi-select' || question.type === 'matching' || question.type === 'ordering' ? 90 : 50;
       if (yPosition + estimatedHeight > pageHeight - 40) {
         pdf.addPage();
         yPosition = margin;
@@ -189,6 +192,49 @@ export function PracticeTestGenerator({
         pdf.text('B.', falseCircleX + 8, yPosition);
         pdf.text('False', falseCircleX + 18, yPosition);
         yPosition += 15;
+      } else if (question.type === 'multi-select' && question.options) {
+        pdf.setFontSize(9);
+        pdf.setTextColor(80, 80, 80);
+        pdf.text('Select all that apply.', margin + 20, yPosition);
+        pdf.setTextColor(0, 0, 0);
+        yPosition += 8;
+        
+        question.options.forEach((option, optionIndex) => {
+          // Square boxes signal that more than one can be marked
+          pdf.setDrawColor(0, 0, 0);
+          pdf.setLineWidth(0.5);
+          pdf.rect(margin + 22, yPosition - 6, 6, 6, 'S');
+          
+          pdf.setFontSize(10);
+          pdf.text(`${StructuredQuestionService.optionLabel(optionIndex)}.`, margin + 33, yPosition);
+          const optionLines = pdf.splitTextToSize(option, pageWidth - 2 * margin - 50);
+          pdf.text(optionLines, margin + 43, yPosition);
+          yPosition += Math.max(8, optionLines.length * 6);
+        });
+        yPosition += 8;
+      } else if ((question.type === 'matching' && question.matchPairs) || (question.type === 'ordering' && question.options)) {
+        const prompts = question.type === 'matching' ? question.matchPairs!.map(pair => pair.prompt) : [];
+        const choices = StructuredQuestionService.displayOrder(
+          question.type === 'matching' ? question.matchPairs!.map(pair => pair.answer) : question.options!
+        );
+        const columnWidth = (pageWidth - 2 * margin - 30) / 2;
+        const startY = yPosition;
+        
+        pdf.setFontSize(10);
+        prompts.forEach((prompt, promptIndex) => {
+          pdf.text(`${promptIndex + 1}. ____ ${prompt}`, margin + 20, startY + promptIndex * 8, { maxWidth: columnWidth });
+        });
+        choices.forEach((choice, choiceIndex) => {
+          pdf.text(`${StructuredQuestionService.optionLabel(choiceIndex)}. ${choice}`, margin + 20 + (prompts.length ? columnWidth + 10 : 0), startY + choiceIndex * 8, { maxWidth: columnWidth });
+        });
+        yPosition = startY + Math.max(prompts.length, choices.length) * 8 + 4;
+        
+        if (question.type === 'ordering') {
+          pdf.setFontSize(9);
+          pdf.setTextColor(80, 80, 80);
+          pdf.text(`Correct order: ${choices.map((_, position) => `${position + 1}. ____`).join('  ')}`, margin + 20, yPosition);
+          yPosition += 10;
+        }
       } else if (question.type === 'short-answer') {
         pdf.setFontSize(9);
         pdf.setTextColor(80, 80, 80);
@@ -390,7 +436,7 @@ export function PracticeTestGenerator({
                   <CardTitle className="text-lg">Question {index + 1}</CardTitle>
                   <div className="flex items-center gap-2">
                     <Badge variant="outline" className="capitalize">
-                      {question.type.replace('-', ' ')}
+                      {question.type.replace(/-/g, ' ')}
                     </Badge>
                     <Badge className="bg-blue-100 text-blue-700">
                       {question.points} pts
@@ -433,6 +479,52 @@ export function PracticeTestGenerator({
                   </div>
                 )}
                 
+                {question.type === 'multi-select' && question.options && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">Select all that apply.</p>
+                    {question.options.map((option, optionIndex) => (
+                      <div 
+                        key={optionIndex} 
+                        className="flex items-center p-3 rounded border border-gray-200 hover:bg-gray-50"
+                      >
+                        <div className="w-6 h-6 border-2 border-gray-300 mr-3 flex-shrink-0"></div>
+                        <span className="font-medium text-gray-700 mr-2">
+                          {StructuredQuestionService.optionLabel(optionIndex)}.
+                        </span>
+                        <span>{option}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {question.type === 'matching' && question.matchPairs && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      {question.matchPairs.map((pair, pairIndex) => (
+                        <p key={pairIndex}>{pairIndex + 1}. ____ {pair.prompt}</p>
+                      ))}
+                    </div>
+                    <div className="space-y-2">
+                      {StructuredQuestionService.displayOrder(question.matchPairs.map(pair => pair.answer)).map((answer, answerIndex) => (
+                        <p key={answerIndex}>
+                          <span className="font-medium text-gray-700">{StructuredQuestionService.optionLabel(answerIndex)}.</span> {answer}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {question.type === 'ordering' && question.options && (
+                  <div className="space-y-2">
+                    {StructuredQuestionService.displayOrder(question.options).map((item, itemIndex) => (
+                      <p key={itemIndex}>
+                        <span className="font-medium text-gray-700">{StructuredQuestionService.optionLabel(itemIndex)}.</span> {item}
+                      </p>
+                    ))}
+                    <p className="text-sm text-gray-600">Write the letters in the correct order.</p>
+                  </div>
+                )}
+                
                 {question.type === 'short-answer' && (
                   <div className="space-y-2">
                     <p className="text-sm text-gray-600 mb-2">Write your answer below:</p>
@@ -37,8 +37,15 @@ export function ProtectedRoute({
     return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
-  if (requiredRole && profile?.role !== requiredRole) {
-    const roleRedirect = profile?.role === 'student' ? '/student-dashboard' : '/';
+  // Guardians only get the pages built for them, even where no role is required
+  const roleMismatch = requiredRole
+    ? profile?.role !== requiredRole
+    : profile?.role === 'guardian';
+
+  if (roleMismatch) {
+    const roleRedirect = profile?.role === 'student'
+      ? '/student-dashboard'
+      : profile?.role === 'guardian' ? '/guardian' : '/';
     return <Navigate to={roleRedirect} replace />;
   }
 
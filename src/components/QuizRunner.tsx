@@ -0,0 +1,443 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Clock, FileText, Save, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { StructuredQuestionService } from '@/services/structuredQuestionService';
+import {
+  saveQuizProgress,
+  getRemainingSeconds,
+  submitQuiz,
+  QUIZ_TIME_LIMIT_PASSED,
+  type QuizSubmissionResult
+} from '@/services/studentQuizService';
+import type { StudentLink, StudentQuizSession } from '@/services/studentLinkService';
+import type { StoredExam } from '@/services/examService';
+import type { Question } from '@/utils/pdfGenerator';
+
+interface QuizRunnerProps {
+  link: StudentLink;
+  session: StudentQuizSession;
+  exam: StoredExam;
+  questions: Question[];
+  onSubmitted: (result: QuizSubmissionResult) => void;
+}
+
+const AUTOSAVE_DELAY_MS = 800;
+
+export function QuizRunner({ link, session, exam, questions, onSubmitted }: QuizRunnerProps) {
+  const [currentIndex, setCurrentIndex] = useState(
+    Math.min(Math.max((session.current_question || 1) - 1, 0), questions.length - 1)
+  );
+  const [answers, setAnswers] = useState<Record<string, string>>(
+    (session.answers as Record<string, string>) || {}
+  );
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(
+    getRemainingSeconds(session, exam.time_limit)
+  );
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const submittedRef = useRef(false);
+  const { toast } = useToast();
+
+  const currentQuestion = questions[currentIndex];
+  const answeredCount = questions.filter(q => answers[q.id]?.trim()).length;
+  const progress = (answeredCount / questions.length) * 100;
+
+  const persist = useCallback(async (nextAnswers: Record<string, string>, questionNumber: number) => {
+    setSaveStatus('saving');
+    try {
+      await saveQuizProgress(session.id, nextAnswers, questionNumber);
+      setSaveStatus('saved');
+    } catch (error) {
+      console.error('Autosave failed:', error);
+      setSaveStatus('error');
+    }
+  }, [session.id]);
+
+  const scheduleAutosave = (nextAnswers: Record<string, string>, questionNumber: number) => {
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+    }
+    autosaveTimer.current = setTimeout(() => {
+      autosaveTimer.current = null;
+      persist(nextAnswers, questionNumber);
+    }, AUTOSAVE_DELAY_MS);
+  };
+
+  const handleSubmit = useCallback(async (reason: 'manual' | 'timeout') => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+    setIsSubmitting(true);
+
+    if (autosaveTimer.current) {
+      clearTimeout(autosaveTimer.current);
+      autosaveTimer.current = null;
+    }
+
+    try {
+      if (reason === 'timeout') {
+        toast({
+          title: "Time is up",
+          description: "Your answers are being submitted automatically.",
+        });
+      }
+
+      const result = await submitQuiz(link, session, questions, answers);
+      onSubmitted(result);
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      // Retrying can't help once the server has closed the attempt
+      if (error instanceof Error && error.message === QUIZ_TIME_LIMIT_PASSED) {
+        toast({
+          title: "Time limit passed",
+          description: "This attempt closed before it was submitted. Ask your teacher if you need another attempt.",
+          variant: "destructive",
+        });
+        return;
+      }
+      submittedRef.current = false;
+      toast({
+        title: "Submission failed",
+        description: "Your answers are saved. Please try submitting again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [link, session, questions, answers, onSubmitted, toast]);
+
+  // Countdown against the exam time limit, measured from the session start
+  const hasTimeLimit = exam.time_limit > 0;
+
+  useEffect(() => {
+    if (!hasTimeLimit) return;
+
+    const timer = setInterval(() => {
+      setRemainingSeconds(getRemainingSeconds(session, exam.time_limit));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [session, exam.time_limit, hasTimeLimit]);
+
+  useEffect(() => {
+    if (remainingSeconds === 0) {
+      handleSubmit('timeout');
+    }
+  }, [remainingSeconds, handleSubmit]);
+
+  useEffect(() => {
+    return () => {
+      if (autosaveTimer.current) {
+        clearTimeout(autosaveTimer.current);
+      }
+    };
+  }, []);
+
+  const handleAnswerChange = (questionId: string, value: string) => {
+    const nextAnswers = { ...answers, [questionId]: value };
+    setAnswers(nextAnswers);
+    scheduleAutosave(nextAnswers, currentIndex + 1);
+  };
+
+  const goToQuestion = (index: number) => {
+    setCurrentIndex(index);
+    scheduleAutosave(answers, index + 1);
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const renderQuestion = () => {
+    const answer = answers[currentQuestion.id] || '';
+
+    switch (currentQuestion.type) {
+      case 'multiple-choice':
+        return (
+          <RadioGroup
+            value={answer}
+            onValueChange={(value) => handleAnswerChange(currentQuestion.id, value)}
+            disabled={isSubmitting}
+          >
+            {currentQuestion.options?.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2 p-2 rounded hover:bg-gray-50">
+                <RadioGroupItem value={option} id={`q${currentQuestion.id}-option-${index}`} />
+                <Label htmlFor={`q${currentQuestion.id}-option-${index}`} className="cursor-pointer">
+                  {String.fromCharCode(65 + index)}. {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'true-false':
+        return (
+          <RadioGroup
+            value={answer}
+            onValueChange={(value) => handleAnswerChange(currentQuestion.id, value)}
+            disabled={isSubmitting}
+          >
+            <div className="flex items-center space-x-2 p-2">
+              <RadioGroupItem value="true" id={`q${currentQuestion.id}-true`} />
+              <Label htmlFor={`q${currentQuestion.id}-true`} className="cursor-pointer">True</Label>
+            </div>
+            <div className="flex items-center space-x-2 p-2">
+              <RadioGroupItem value="false" id={`q${currentQuestion.id}-false`} />
+              <Label htmlFor={`q${currentQuestion.id}-false`} className="cursor-pointer">False</Label>
+            </div>
+          </RadioGroup>
+        );
+
+      case 'short-answer':
+      case 'numeric':
+      case 'expression':
+        return (
+          <Input
+            placeholder={currentQuestion.type === 'numeric'
+              ? 'Enter a number, e.g. 3/4 or 9.8 m/s'
+              : currentQuestion.type === 'expression' ? 'Enter an expression, e.g. 2x + 1' : 'Enter your answer...'}
+            value={answer}
+            onChange={(e) => handleAnswerChange(currentQuestion.id, e.target.value)}
+            disabled={isSubmitting}
+          />
+        );
+
+      case 'essay':
+        return (
+          <Textarea
+            placeholder="Write your response..."
+            value={answer}
+            onChange={(e) => handleAnswerChange(currentQuestion.id, e.target.value)}
+            className="min-h-40"
+            disabled={isSubmitting}
+          />
+        );
+
+      case 'multi-select': {
+        const selected = answer ? answer.split(', ') : [];
+        return (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Select all that apply.</p>
+            {currentQuestion.options?.map((option, index) => {
+              const letter = StructuredQuestionService.optionLabel(index);
+              return (
+                <div key={index} className="flex items-center space-x-2 p-2 rounded hover:bg-gray-50">
+                  <Checkbox
+                    id={`q${currentQuestion.id}-option-${index}`}
+                    checked={selected.includes(letter)}
+                    onCheckedChange={(checked) => handleAnswerChange(
+                      currentQuestion.id,
+                      (checked ? [...selected, letter].sort() : selected.filter(item => item !== letter)).join(', ')
+                    )}
+                    disabled={isSubmitting}
+                  />
+                  <Label htmlFor={`q${currentQuestion.id}-option-${index}`} className="cursor-pointer">
+                    {letter}. {option}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        );
+      }
+
+      case 'matching': {
+        const prompts = currentQuestion.matchPairs || [];
+        // Stored as "1-B, 2-A" so unanswered prompts keep their position
+        const letters: string[] = [];
+        answer.split(', ').forEach(part => {
+          const match = part.match(/^(\d+)-(.*)$/);
+          if (match) letters[Number(match[1]) - 1] = match[2];
+        });
+        const setLetter = (index: number, letter: string) => {
+          const next = prompts.map((_, i) => (i === index ? letter : letters[i] || '').trim().toUpperCase());
+          handleAnswerChange(currentQuestion.id, next.map((value, i) => (value ? `${i + 1}-${value}` : '')).filter(Boolean).join(', '));
+        };
+        return (
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-2">
+              {prompts.map((pair, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={letters[index] || ''}
+                    onChange={(e) => setLetter(index, e.target.value.slice(-1))}
+                    className="w-12 text-center"
+                    aria-label={`Match for item ${index + 1}`}
+                    disabled={isSubmitting}
+                  />
+                  <span>{index + 1}. {pair.prompt}</span>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {currentQuestion.options?.map((choice, index) => (
+                <p key={index}><span className="font-medium">{StructuredQuestionService.optionLabel(index)}.</span> {choice}</p>
+              ))}
+            </div>
+          </div>
+        );
+      }
+
+      case 'ordering':
+        return (
+          <div className="space-y-4">
+            {currentQuestion.options?.map((item, index) => (
+              <p key={index}><span className="font-medium">{StructuredQuestionService.optionLabel(index)}.</span> {item}</p>
+            ))}
+            <Input
+              placeholder="Letters in the correct order, e.g. B, A, C"
+              value={answer}
+              onChange={(e) => handleAnswerChange(currentQuestion.id, e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+        );
+
+      case 'fill-in-blank': {
+        const blanks = StructuredQuestionService.countBlanks(currentQuestion.question);
+        const parts = answer.split(' | ');
+        return (
+          <div className="space-y-2">
+            {Array.from({ length: blanks }, (_, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Label className="w-20">Blank {index + 1}</Label>
+                <Input
+                  value={parts[index] || ''}
+                  onChange={(e) => {
+                    const next = Array.from({ length: blanks }, (_, i) => (i === index ? e.target.value : parts[i] || ''));
+                    handleAnswerChange(currentQuestion.id, next.join(' | '));
+                  }}
+                  className="flex-1"
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 max-w-4xl space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                {link.title}
+              </CardTitle>
+              <p className="text-gray-600 mt-1">Student: {session.student_name}</p>
+            </div>
+            <div className="flex items-center gap-3 text-sm">
+              <span className="flex items-center gap-1 text-gray-500">
+                <Save className="h-4 w-4" />
+                {saveStatus === 'saving' && 'Saving...'}
+                {saveStatus === 'saved' && 'Saved'}
+                {saveStatus === 'error' && 'Not saved'}
+                {saveStatus === 'idle' && 'Autosave on'}
+              </span>
+              {remainingSeconds !== null && (
+                <Badge
+                  variant={remainingSeconds < 60 ? 'destructive' : 'outline'}
+                  className="flex items-center gap-1"
+                >
+                  <Clock className="h-4 w-4" />
+                  {formatTime(remainingSeconds)}
+                </Badge>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>Question {currentIndex + 1} of {questions.length}</span>
+          <span>{answeredCount} answered</span>
+        </div>
+        <Progress value={progress} className="w-full" />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            Question {currentIndex + 1}
+            <span className="text-sm font-normal ml-2 text-gray-500">
+              ({currentQuestion.points} {currentQuestion.points === 1 ? 'point' : 'points'})
+            </span>
+          </CardTitle>
+          <p className="text-base whitespace-pre-wrap">{currentQuestion.question}</p>
+        </CardHeader>
+        <CardContent>
+          {renderQuestion()}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between items-center">
+        <Button
+          variant="outline"
+          onClick={() => goToQuestion(currentIndex - 1)}
+          disabled={currentIndex === 0 || isSubmitting}
+        >
+          Previous
+        </Button>
+
+        <div className="flex flex-wrap gap-2 justify-center">
+          {questions.map((question, index) => (
+            <button
+              key={question.id}
+              className={`w-8 h-8 rounded-full text-sm ${
+                index === currentIndex
+                  ? 'bg-primary text-primary-foreground'
+                  : answers[question.id]?.trim()
+                  ? 'bg-green-100 text-green-800 border border-green-300'
+                  : 'bg-muted text-muted-foreground border'
+              }`}
+              onClick={() => goToQuestion(index)}
+              disabled={isSubmitting}
+            >
+              {index + 1}
+            </button>
+          ))}
+        </div>
+
+        {currentIndex === questions.length - 1 ? (
+          <Button
+            onClick={() => handleSubmit('manual')}
+            disabled={isSubmitting}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {isSubmitting ? 'Submitting...' : 'Submit Quiz'}
+          </Button>
+        ) : (
+          <Button onClick={() => goToQuestion(currentIndex + 1)} disabled={isSubmitting}>
+            Next
+          </Button>
+        )}
+      </div>
+
+      {currentIndex === questions.length - 1 && answeredCount < questions.length && (
+        <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+          <AlertTriangle className="h-4 w-4" />
+          {questions.length - answeredCount} question(s) are still unanswered.
+        </div>
+      )}
+    </div>
+  );
+}
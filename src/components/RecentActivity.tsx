@@ -1,79 +1,71 @@
 
+import { useState, useEffect } from "react";
 import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import {
+  TeacherAnalyticsService,
+  type ActivityItem,
+  type AnalyticsFilters
+} from "@/services/teacherAnalyticsService";
 
-const activities = [
-  { 
-    student: 'Sarah Johnson', 
-    action: 'Submitted assignment', 
-    course: 'Mathematics 101', 
-    time: '2 hours ago',
-    grade: 'A+',
-    type: 'submission'
-  },
-  { 
-    student: 'Michael Chen', 
-    action: 'Completed quiz', 
-    course: 'Physics Lab', 
-    time: '4 hours ago',
-    grade: 'B+',
-    type: 'quiz'
-  },
-  { 
-    student: 'Emma Williams', 
-    action: 'Attended virtual class', 
-    course: 'Chemistry 202', 
-    time: '6 hours ago',
-    grade: null,
-    type: 'attendance'
-  },
-  { 
-    student: 'David Brown', 
-    action: 'Late assignment submitted', 
-    course: 'Biology 101', 
-    time: '1 day ago',
-    grade: 'B-',
-    type: 'late_submission'
-  },
-];
+interface RecentActivityProps {
+  filters: AnalyticsFilters;
+}
+
+export function RecentActivity({ filters }: RecentActivityProps) {
+  const [activities, setActivities] = useState<ActivityItem[]>([]);
+
+  useEffect(() => {
+    TeacherAnalyticsService.getRecentActivity(filters)
+      .then(setActivities)
+      .catch(error => console.error('Error loading recent activity:', error));
+  }, [filters]);
 
-export function RecentActivity() {
   const getActivityColor = (type: string) => {
     switch (type) {
-      case 'submission': return 'bg-green-100 text-green-700';
-      case 'quiz': return 'bg-blue-100 text-blue-700';
-      case 'attendance': return 'bg-purple-100 text-purple-700';
-      case 'late_submission': return 'bg-orange-100 text-orange-700';
+      case 'test': return 'bg-green-100 text-green-700';
+      case 'practice': return 'bg-blue-100 text-blue-700';
+      case 'exercise': return 'bg-purple-100 text-purple-700';
       default: return 'bg-gray-100 text-gray-700';
     }
   };
 
+  if (activities.length === 0) {
+    return <p className="text-sm text-gray-500">No student activity in this period yet.</p>;
+  }
+
   return (
     <div className="space-y-4">
-      {activities.map((activity, index) => (
-        <div key={index} className="flex items-center justify-between p-4 rounded-lg border border-gray-100 hover:bg-gray-50 transition-colors">
-          <div className="flex-1">
-            <div className="flex items-center gap-2 mb-1">
-              <span className="font-medium text-gray-900">{activity.student}</span>
-              <Badge variant="outline" className={getActivityColor(activity.type)}>
-                {activity.action}
-              </Badge>
+      {activities.map((activity, index) => {
+        const grade = activity.score !== null ? TeacherAnalyticsService.letterGrade(activity.score) : null;
+        return (
+          <div key={index} className="flex items-center justify-between p-4 rounded-lg border border-gray-100 hover:bg-gray-50 transition-colors">
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="font-medium text-gray-900">{activity.student}</span>
+                <Badge variant="outline" className={getActivityColor(activity.type)}>
+                  {activity.action}
+                </Badge>
+              </div>
+              <p className="text-sm text-gray-600">{activity.course}</p>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatDistanceToNow(new Date(activity.occurredAt), { addSuffix: true })}
+              </p>
             </div>
-            <p className="text-sm text-gray-600">{activity.course}</p>
-            <p className="text-xs text-gray-400 mt-1">{activity.time}</p>
+            {grade && (
+              <div className="text-right">
+                <span className={`px-2 py-1 rounded text-sm font-medium ${
+                  grade === 'A' ? 'bg-green-100 text-green-700' :
+                  grade === 'B' ? 'bg-blue-100 text-blue-700' :
+                  'bg-yellow-100 text-yellow-700'
+                }`}>
+                  {grade}
+                </span>
+              </div>
+            )}
           </div>
-          {activity.grade && (
-            <div className="text-right">
-              <span className={`px-2 py-1 rounded text-sm font-medium ${
-                activity.grade.startsWith('A') ? 'bg-green-100 text-green-700' :
-                activity.grade.startsWith('B') ? 'bg-blue-100 text-blue-700' :
-                'bg-yellow-100 text-yellow-700'
-              }`}>
-                {activity.grade}
-              </span>
-            </div>
-          )}
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 }
@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from 'sonner';
+import { GradeOverrideService } from '@/services/gradeOverrideService';
 
 interface AnalysisResult {
   overall_score: number;
@@ -54,6 +56,15 @@ export const ResultsManager: React.FC<ResultsManagerProps> = ({
 }) => {
   const [showDetailedAnalysis, setShowDetailedAnalysis] = useState(false);
 
+  // New results store per-question grades as JSON; older ones stored free text
+  const questionResults = GradeOverrideService.getQuestionResults(result.detailed_analysis);
+  const detailedAnalysisText = questionResults.length > 0
+    ? questionResults.map(question =>
+        `Question ${question.questionNumber}: ${question.pointsEarned} pts, ${question.isCorrect ? 'correct' : 'incorrect'}`
+        + (question.studentAnswer ? ` (answer: ${question.studentAnswer})` : '')
+      ).join('\n')
+    : result.detailed_analysis;
+
   const generateReport = () => {
     const report = {
       student: studentName,
@@ -70,7 +81,7 @@ export const ResultsManager: React.FC<ResultsManagerProps> = ({
         subjectSkills: result.subject_skill_scores,
         ocrSummary: result.dual_ocr_summary
       },
-      detailedAnalysis: result.detailed_analysis
+      detailedAnalysis: questionResults.length > 0 ? { questionResults } : result.detailed_analysis
     };
 
     return JSON.stringify(report, null, 2);
@@ -129,7 +140,7 @@ Fallback Detections: ${data.results.ocrSummary.fallback_detections}
 
 DETAILED ANALYSIS
 ----------------
-${data.detailedAnalysis}
+${detailedAnalysisText}
       `.trim();
       mimeType = 'text/plain';
       extension = 'txt';
@@ -289,16 +300,43 @@ ${data.detailedAnalysis}
                 <DialogTitle>Detailed Analysis</DialogTitle>
               </DialogHeader>
               <div className="space-y-4">
-                <Textarea
-                  value={result.detailed_analysis}
-                  readOnly
-                  className="min-h-[300px] font-mono text-sm"
-                />
+                {questionResults.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Question</TableHead>
+                        <TableHead>Student answer</TableHead>
+                        <TableHead className="text-right">Points</TableHead>
+                        <TableHead className="text-right">Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {questionResults.map(question => (
+                        <TableRow key={question.questionNumber}>
+                          <TableCell>{question.questionNumber}</TableCell>
+                          <TableCell className="text-sm">{question.studentAnswer || '—'}</TableCell>
+                          <TableCell className="text-right">{question.pointsEarned}</TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={question.isCorrect ? 'default' : 'destructive'}>
+                              {question.isCorrect ? 'Correct' : 'Incorrect'}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <Textarea
+                    value={result.detailed_analysis}
+                    readOnly
+                    className="min-h-[300px] font-mono text-sm"
+                  />
+                )}
                 <div className="flex gap-2">
                   <Button 
                     variant="outline" 
                     size="sm"
-                    onClick={() => navigator.clipboard.writeText(result.detailed_analysis)}
+                    onClick={() => navigator.clipboard.writeText(detailedAnalysisText)}
                   >
                     <Copy className="h-4 w-4 mr-2" />
                     Copy Analysis
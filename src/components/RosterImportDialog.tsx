@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload, AlertCircle } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import {
+  RosterImportService,
+  type CsvColumnMapping,
+  type CsvRosterField,
+  type ParsedCsv,
+  type RosterData,
+  type RosterPreview
+} from "@/services/rosterImportService";
+
+interface RosterImportDialogProps {
+  onImported: () => void;
+}
+
+type ImportStep = 'source' | 'mapping' | 'preview';
+type RosterFormat = 'csv' | 'oneroster';
+
+const CSV_FIELDS: Array<{ field: CsvRosterField; label: string }> = [
+  { field: 'studentName', label: 'Student name' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'email', label: 'Email' },
+  { field: 'studentId', label: 'Student ID' },
+  { field: 'year', label: 'Student year' },
+  { field: 'className', label: 'Class' },
+  { field: 'subject', label: 'Subject' },
+  { field: 'grade', label: 'Class grade' },
+  { field: 'teacher', label: 'Teacher' }
+];
+
+const NOT_MAPPED = '__none__';
+
+export function RosterImportDialog({ onImported }: RosterImportDialogProps) {
+  const { profile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<ImportStep>('source');
+  const [format, setFormat] = useState<RosterFormat>('csv');
+  const [resync, setResync] = useState(false);
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [oneRosterFiles, setOneRosterFiles] = useState<Record<string, string>>({});
+  const [defaultSubject, setDefaultSubject] = useState('Math');
+  const [defaultGrade, setDefaultGrade] = useState('Grade 10');
+  const [preview, setPreview] = useState<RosterPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const subjects = ['Math', 'Science', 'English', 'History', 'Geography', 'Art', 'Music', 'Physical Education'];
+  const grades = ['Kindergarten', 'Grade 1', 'Grade 2', 'Grade 3', 'Grade 4', 'Grade 5', 'Grade 6', 'Grade 7', 'Grade 8', 'Grade 9', 'Grade 10', 'Grade 11', 'Grade 12'];
+
+  const reset = () => {
+    setStep('source');
+    setCsv(null);
+    setMapping({});
+    setOneRosterFiles({});
+    setPreview(null);
+  };
+
+  const handleCsvFile = async (file?: File) => {
+    if (!file) return;
+    const parsed = RosterImportService.parseCsv(await file.text());
+    if (parsed.rows.length === 0) {
+      toast.error('The file has no student rows');
+      return;
+    }
+    setCsv(parsed);
+    setMapping(RosterImportService.guessColumnMapping(parsed.headers));
+  };
+
+  const handleOneRosterFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const contents: Record<string, string> = {};
+    for (const file of Array.from(files)) {
+      const name = file.name.toLowerCase().replace(/\.csv$/, '');
+      if (['users', 'classes', 'enrollments'].includes(name)) {
+        contents[name] = await file.text();
+      }
+    }
+    setOneRosterFiles(contents);
+  };
+
+  const oneRosterReady = ['users', 'classes', 'enrollments'].every(name => oneRosterFiles[name]);
+
+  const loadPreview = async (roster: RosterData) => {
+    if (roster.students.length === 0) {
+      toast.error(roster.errors[0] || 'No students found in the roster');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setPreview(await RosterImportService.buildPreview(roster, resync));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error building roster preview:', error);
+      toast.error('Failed to compare the roster with your classes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (format === 'oneroster') {
+      loadPreview(RosterImportService.buildRosterFromOneRoster({
+        users: oneRosterFiles.users,
+        classes: oneRosterFiles.classes,
+        enrollments: oneRosterFiles.enrollments
+      }, defaultSubject));
+    } else if (csv) {
+      setStep('mapping');
+    }
+  };
+
+  const handleMappingContinue = () => {
+    if (!csv) return;
+    if (!mapping.studentName && !(mapping.firstName && mapping.lastName)) {
+      toast.error('Map a student name column, or both first and last name');
+      return;
+    }
+    if (!mapping.className) {
+      toast.error('Map the class column');
+      return;
+    }
+
+    loadPreview(RosterImportService.buildRosterFromCsv(csv, mapping, {
+      subject: defaultSubject,
+      grade: defaultGrade,
+      teacher: profile?.full_name || undefined
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setLoading(true);
+    try {
+      const result = await RosterImportService.commitImport(preview);
+      toast.success(
+        `Imported roster: ${result.classesCreated} new classes, ${result.studentsCreated} new students, ` +
+        `${result.enrollmentsAdded} enrollments added` +
+        (preview.resync ? `, ${result.enrollmentsRemoved} removed` : '')
+      );
+      setOpen(false);
+      reset();
+      onImported();
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import roster');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const newStudents = preview?.students.filter(student => !student.existingProfileId) || [];
+  const newClasses = preview?.classes.filter(cls => !cls.existingClassId) || [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Roster
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Roster</DialogTitle>
+          <DialogDescription>
+            {step === 'source' && 'Upload a roster CSV or a OneRoster 1.1 CSV bundle.'}
+            {step === 'mapping' && 'Tell us which column holds each field.'}
+            {step === 'preview' && 'Review the changes before they are saved.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'source' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>File format</Label>
+              <RadioGroup value={format} onValueChange={(value) => setFormat(value as RosterFormat)} className="flex gap-6">
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="csv" id="format-csv" />
+                  <Label htmlFor="format-csv">CSV</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="oneroster" id="format-oneroster" />
+                  <Label htmlFor="format-oneroster">OneRoster 1.1</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <RadioGroup value={resync ? 'resync' : 'add'} onValueChange={(value) => setResync(value === 'resync')} className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="add" id="mode-add" />
+                  <Label htmlFor="mode-add">Add to existing rosters</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="resync" id="mode-resync" />
+                  <Label htmlFor="mode-resync">Re-sync – students missing from the file are removed from its classes</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {format === 'csv' ? (
+              <div className="space-y-2">
+                <Label htmlFor="roster-csv">Roster CSV</Label>
+                <Input id="roster-csv" type="file" accept=".csv,text/csv" onChange={(e) => handleCsvFile(e.target.files?.[0])} />
+                {csv && <p className="text-sm text-gray-600">{csv.rows.length} rows, {csv.headers.length} columns</p>}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="roster-oneroster">users.csv, classes.csv and enrollments.csv</Label>
+                <Input id="roster-oneroster" type="file" accept=".csv,text/csv" multiple onChange={(e) => handleOneRosterFiles(e.target.files)} />
+                <div className="flex gap-2">
+                  {['users', 'classes', 'enrollments'].map(name => (
+                    <Badge key={name} variant={oneRosterFiles[name] ? 'default' : 'outline'}>{name}.csv</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Default subject</Label>
+                <Select value={defaultSubject} onValueChange={setDefaultSubject}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {subjects.map(subject => <SelectItem key={subject} value={subject}>{subject}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              {format === 'csv' && (
+                <div className="space-y-2">
+                  <Label>Default class grade</Label>
+                  <Select value={defaultGrade} onValueChange={setDefaultGrade}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {grades.map(grade => <SelectItem key={grade} value={grade}>{grade}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === 'mapping' && csv && (
+          <div className="grid grid-cols-2 gap-4">
+            {CSV_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-1">
+                <Label>{label}</Label>
+                <Select
+                  value={mapping[field] || NOT_MAPPED}
+                  onValueChange={(value) => setMapping(prev => ({ ...prev, [field]: value === NOT_MAPPED ? undefined : value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                    {csv.headers.filter(Boolean).map(header => (
+                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{newClasses.length} new classes</Badge>
+              <Badge variant="secondary">{preview.classes.length - newClasses.length} existing classes</Badge>
+              <Badge variant="secondary">{newStudents.length} new students</Badge>
+              <Badge variant="secondary">{preview.students.length - newStudents.length} matched students</Badge>
+              <Badge className="bg-green-100 text-green-800">+{preview.enrollmentsToAdd.length} enrollments</Badge>
+              {preview.resync && (
+                <Badge className="bg-red-100 text-red-800">−{preview.enrollmentsToRemove.length} enrollments</Badge>
+              )}
+            </div>
+
+            {preview.roster.errors.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded text-sm space-y-1">
+                <p className="flex items-center gap-2 font-medium text-yellow-800">
+                  <AlertCircle className="h-4 w-4" />
+                  {preview.roster.errors.length} rows will be skipped
+                </p>
+                {preview.roster.errors.slice(0, 5).map(error => <p key={error} className="text-yellow-700">{error}</p>)}
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-medium mb-2">Classes</h4>
+              <div className="flex flex-wrap gap-2">
+                {preview.classes.map(cls => (
+                  <Badge key={cls.key} variant={cls.existingClassId ? 'outline' : 'default'}>
+                    {cls.name} · {cls.subject} · {cls.grade}{cls.existingClassId ? '' : ' (new)'}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="border rounded max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Student ID</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.students.map(student => (
+                    <TableRow key={student.key}>
+                      <TableCell>{student.name}</TableCell>
+                      <TableCell className="text-gray-600">{student.email || '—'}</TableCell>
+                      <TableCell className="text-gray-600">{student.studentId || (student.existingProfileId ? '—' : 'Generated on import')}</TableCell>
+                      <TableCell>
+                        {student.existingProfileId
+                          ? <Badge variant="outline">Matched by {student.matchedBy === 'email' ? 'email' : 'Student ID'}</Badge>
+                          : <Badge>New</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {preview.enrollmentsToRemove.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2 text-red-700">Will be removed</h4>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {preview.enrollmentsToRemove.map(removal => (
+                    <li key={`${removal.classId}-${removal.studentName}`}>{removal.studentName} from {removal.className}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== 'source' && (
+            <Button variant="outline" disabled={loading} onClick={() => setStep(step === 'preview' && format === 'csv' ? 'mapping' : 'source')}>
+              Back
+            </Button>
+          )}
+          {step === 'source' && (
+            <Button disabled={loading || (format === 'csv' ? !csv : !oneRosterReady)} onClick={handleContinue}>
+              {loading ? 'Comparing...' : 'Continue'}
+            </Button>
+          )}
+          {step === 'mapping' && (
+            <Button disabled={loading} onClick={handleMappingContinue}>
+              {loading ? 'Comparing...' : 'Preview Changes'}
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button disabled={loading} onClick={handleImport}>
+              {loading ? 'Importing...' : preview?.resync ? 'Re-sync Roster' : 'Import Roster'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect, useMemo } from "react";
+import { AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, FileText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  ScanReviewService,
+  REVIEW_FLAG_LABELS,
+  type ScanReviewItem,
+  type ScanReviewSubmission
+} from "@/services/scanReviewService";
+
+interface ScanReviewWorkbenchProps {
+  submissions: ScanReviewSubmission[];
+  confirming: boolean;
+  onConfirm: (itemsBySubmission: Record<string, ScanReviewItem[]>) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS = { exam: 'Exam ID', student: 'Student' };
+
+const confidenceColor = (confidence: number) =>
+  confidence < 0.6 ? 'red' : confidence < 0.85 ? 'amber' : 'green';
+
+const OVERLAY_CLASSES = {
+  red: 'border-red-500 bg-red-500/10',
+  amber: 'border-amber-500 bg-amber-500/10',
+  green: 'border-green-500 bg-green-500/10'
+};
+
+const CONFIDENCE_TEXT = {
+  red: 'text-red-600',
+  amber: 'text-amber-600',
+  green: 'text-green-600'
+};
+
+export function ScanReviewWorkbench({ submissions, confirming, onConfirm, onCancel }: ScanReviewWorkbenchProps) {
+  const [itemsBySubmission, setItemsBySubmission] = useState<Record<string, ScanReviewItem[]>>({});
+  const [submissionIndex, setSubmissionIndex] = useState(0);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setItemsBySubmission(Object.fromEntries(
+      submissions.map(submission => [submission.id, ScanReviewService.buildItems(submission)])
+    ));
+    setSubmissionIndex(0);
+    setPageIndex(0);
+    setSelectedItemId(null);
+  }, [submissions]);
+
+  const submission = submissions[submissionIndex];
+  const items = useMemo(() => (submission && itemsBySubmission[submission.id]) || [], [submission, itemsBySubmission]);
+  const page = submission?.pages[pageIndex];
+  const correctionCount = Object.values(itemsBySubmission).flat().filter(item => ScanReviewService.isCorrected(item)).length;
+
+  if (!submission) return null;
+
+  const showSubmission = (index: number) => {
+    setSubmissionIndex(index);
+    setPageIndex(0);
+    setSelectedItemId(null);
+  };
+
+  const selectItem = (item: ScanReviewItem) => {
+    setSelectedItemId(item.id);
+    setPageIndex(item.pageIndex);
+  };
+
+  const updateItem = (itemId: string, correctedValue: string) => {
+    setItemsBySubmission(prev => ({
+      ...prev,
+      [submission.id]: prev[submission.id].map(item => item.id === itemId ? { ...item, correctedValue } : item)
+    }));
+  };
+
+  const itemLabel = (item: ScanReviewItem) =>
+    item.field === 'answer' ? `Question ${item.questionNumber}` : FIELD_LABELS[item.field];
+
+  const pageItems = items.filter(item => item.field === 'answer' && item.pageIndex === pageIndex && item.region);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Review Scans Before Grading</span>
+          <div className="flex items-center gap-2 text-sm font-normal">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => showSubmission(submissionIndex - 1)}
+              disabled={submissionIndex === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>Test {submissionIndex + 1} of {submissions.length}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => showSubmission(submissionIndex + 1)}
+              disabled={submissionIndex === submissions.length - 1}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Nothing is graded or saved until you confirm. Items the scanner was least sure about are listed first.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            {submission.pages.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {submission.pages.map((reviewPage, index) => (
+                  <Button
+                    key={reviewPage.fileName + index}
+                    variant={index === pageIndex ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setPageIndex(index)}
+                  >
+                    Page {index + 1}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {page?.imageUrl ? (
+              <div className="relative border rounded overflow-hidden">
+                <img src={page.imageUrl} alt={page.fileName} className="w-full block" />
+                {pageItems.map(item => {
+                  const region = item.region!;
+                  return (
+                    <button
+                      key={item.id}
+                      type="button"
+                      title={`${itemLabel(item)}: ${item.correctedValue || 'blank'}`}
+                      onClick={() => selectItem(item)}
+                      className={`absolute border-2 rounded-sm ${OVERLAY_CLASSES[confidenceColor(item.confidence)]} ${
+                        item.id === selectedItemId ? 'ring-2 ring-blue-600 ring-offset-1' : ''
+                      }`}
+                      style={{
+                        left: `${region.x * 100}%`,
+                        top: `${region.y * 100}%`,
+                        width: `${region.width * 100}%`,
+                        height: `${region.height * 100}%`
+                      }}
+                    />
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center gap-2 border rounded p-8 text-sm text-muted-foreground">
+                <FileText className="h-8 w-8" />
+                <span>{page?.fileName}</span>
+                <span>No preview is available for this file type.</span>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2 max-h-[70vh] overflow-y-auto pr-1">
+            {items.map(item => {
+              const color = confidenceColor(item.confidence);
+              return (
+                <div
+                  key={item.id}
+                  onClick={() => selectItem(item)}
+                  className={`border rounded p-3 space-y-2 cursor-pointer ${
+                    item.id === selectedItemId ? 'border-blue-500 bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{itemLabel(item)}</span>
+                      {submission.pages.length > 1 && item.field === 'answer' && (
+                        <span className="text-xs text-muted-foreground">Page {item.pageIndex + 1}</span>
+                      )}
+                      {ScanReviewService.isCorrected(item) && (
+                        <CheckCircle className="h-4 w-4 text-blue-600" />
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">{item.ocrMethod.replace(/_/g, ' ')}</Badge>
+                      <span className={`text-xs font-medium ${CONFIDENCE_TEXT[color]}`}>
+                        {(item.confidence * 100).toFixed(0)}%
+                      </span>
+                    </div>
+                  </div>
+                  <Input
+                    value={item.correctedValue}
+                    onChange={(e) => updateItem(item.id, e.target.value)}
+                    onFocus={() => selectItem(item)}
+                    placeholder={item.field === 'answer' ? 'Blank' : 'Not detected'}
+                  />
+                  {(item.flags.length > 0 || ScanReviewService.isCorrected(item)) && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      {item.flags.map(flag => (
+                        <span key={flag} className="flex items-center gap-1 text-amber-700">
+                          <AlertTriangle className="h-3 w-3" />
+                          {REVIEW_FLAG_LABELS[flag]}
+                        </span>
+                      ))}
+                      {ScanReviewService.isCorrected(item) && (
+                        <span className="text-muted-foreground">Read as "{item.detectedValue || 'blank'}"</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {correctionCount} correction{correctionCount === 1 ? '' : 's'} across {submissions.length} test{submissions.length === 1 ? '' : 's'}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={confirming}>Discard</Button>
+            <Button onClick={() => onConfirm(itemsBySubmission)} disabled={confirming}>
+              {confirming ? 'Grading...' : `Confirm & Grade ${submissions.length} Test${submissions.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sparkles, Check, X, GitMerge, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  getExamsByClassId,
+  getLinkedContentSkillsForClass,
+  getLinkedSubjectSkillsForClass,
+  type ActiveClass
+} from "@/services/examService";
+import {
+  SkillReviewService,
+  type AutoCreatedSkill,
+  type ProposedSkillType,
+  type SkillProposal,
+  type SkillTarget
+} from "@/services/skillReviewService";
+
+interface SkillReviewQueueDialogProps {
+  activeClass: ActiveClass;
+  onSkillsChanged: () => void;
+}
+
+export function SkillReviewQueueDialog({ activeClass, onSkillsChanged }: SkillReviewQueueDialogProps) {
+  const { profile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [proposals, setProposals] = useState<SkillProposal[]>([]);
+  const [autoCreated, setAutoCreated] = useState<AutoCreatedSkill[]>([]);
+  const [linkedSkills, setLinkedSkills] = useState<Record<ProposedSkillType, SkillTarget[]>>({ content: [], subject: [] });
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [examTitles, setExamTitles] = useState<Record<string, string>>({});
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const [pending, created] = await Promise.all([
+        SkillReviewService.getPendingProposals(activeClass.id),
+        SkillReviewService.getAutoCreatedSkills(activeClass.id)
+      ]);
+      setProposals(pending);
+      setAutoCreated(created);
+    } catch (error) {
+      console.error('Error loading skill review queue:', error);
+    }
+  }, [activeClass.id]);
+
+  const loadLinkedSkills = useCallback(async () => {
+    try {
+      const [content, subject] = await Promise.all([
+        getLinkedContentSkillsForClass(activeClass.id),
+        getLinkedSubjectSkillsForClass(activeClass.id)
+      ]);
+      setLinkedSkills({ content, subject });
+    } catch (error) {
+      console.error('Error loading linked skills:', error);
+    }
+  }, [activeClass.id]);
+
+  const loadExamTitles = useCallback(async () => {
+    try {
+      const exams = await getExamsByClassId(activeClass.id);
+      setExamTitles(Object.fromEntries(exams.map(exam => [exam.exam_id, exam.title])));
+    } catch (error) {
+      console.error('Error loading class exams:', error);
+    }
+  }, [activeClass.id]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    if (open) {
+      loadLinkedSkills();
+      loadExamTitles();
+    }
+  }, [open, loadLinkedSkills, loadExamTitles]);
+
+  const runAction = async (id: string, action: () => Promise<void>, successMessage: string) => {
+    if (!profile) {
+      toast.error('You must be signed in to review skills');
+      return;
+    }
+
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(successMessage);
+      await Promise.all([loadQueue(), loadLinkedSkills()]);
+      onSkillsChanged();
+    } catch (error) {
+      console.error('Error reviewing skill:', error);
+      toast.error('Failed to update skill. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const findTarget = (skillType: ProposedSkillType, skillId: string | undefined, excludeId?: string) =>
+    linkedSkills[skillType].find(skill => skill.id === skillId && skill.id !== excludeId);
+
+  const handleApprove = (proposal: SkillProposal) =>
+    runAction(
+      proposal.id,
+      async () => { await SkillReviewService.approveProposal(proposal, profile!.id); },
+      `"${proposal.skill_name}" added to ${activeClass.name}`
+    );
+
+  const handleMerge = (proposal: SkillProposal) => {
+    const target = findTarget(proposal.skill_type, mergeTargets[proposal.id]);
+    if (!target) {
+      toast.error('Choose a skill to merge into');
+      return;
+    }
+    runAction(
+      proposal.id,
+      () => SkillReviewService.mergeProposal(proposal, target, profile!.id, notes[proposal.id]),
+      `"${proposal.skill_name}" merged into "${target.skill_name}"`
+    );
+  };
+
+  const handleReject = (proposal: SkillProposal) =>
+    runAction(
+      proposal.id,
+      () => SkillReviewService.rejectProposal(proposal, profile!.id, notes[proposal.id] || ''),
+      `"${proposal.skill_name}" rejected`
+    );
+
+  const handleUndo = (entry: AutoCreatedSkill) => {
+    const target = findTarget(entry.skill_type, mergeTargets[entry.id], entry.skill_id);
+    if (!target) {
+      toast.error('Choose a skill to move existing scores to');
+      return;
+    }
+    runAction(
+      entry.id,
+      () => SkillReviewService.undoAutoCreatedSkill(entry, target, profile!.id),
+      `"${entry.skill_name}" removed; scores moved to "${target.skill_name}"`
+    );
+  };
+
+  const renderSkillSelect = (id: string, skillType: ProposedSkillType, placeholder: string, excludeId?: string) => (
+    <Select
+      value={mergeTargets[id] || ''}
+      onValueChange={(value) => setMergeTargets(prev => ({ ...prev, [id]: value }))}
+    >
+      <SelectTrigger className="h-8 w-56">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {linkedSkills[skillType].filter(skill => skill.id !== excludeId).map(skill => (
+          <SelectItem key={skill.id} value={skill.id}>{skill.skill_name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const proposalsByExam = proposals.reduce((acc, proposal) => {
+    if (!acc[proposal.exam_id]) acc[proposal.exam_id] = [];
+    acc[proposal.exam_id].push(proposal);
+    return acc;
+  }, {} as Record<string, SkillProposal[]>);
+
+  const reviewCount = proposals.length + autoCreated.length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          AI Skill Proposals
+          {reviewCount > 0 && <Badge className="ml-1">{reviewCount}</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Review AI Skill Proposals</DialogTitle>
+          <DialogDescription>
+            Skills the exam analysis thinks {activeClass.name} is missing. Approve, merge into an existing skill, or reject them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="pending">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="pending">Pending ({proposals.length})</TabsTrigger>
+            <TabsTrigger value="auto-created">Auto-created ({autoCreated.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending">
+            <ScrollArea className="h-[60vh] pr-4">
+              {proposals.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No proposals waiting for review.</p>
+              ) : (
+                Object.entries(proposalsByExam).map(([examId, examProposals]) => (
+                  <div key={examId} className="mb-6">
+                    <h4 className="text-sm font-semibold text-muted-foreground mb-2">{examTitles[examId] || `Exam ${examId}`}</h4>
+                    <div className="space-y-3">
+                      {examProposals.map(proposal => (
+                        <div key={proposal.id} className="p-4 border rounded-lg space-y-3">
+                          <div className="flex items-start justify-between gap-4">
+                            <div>
+                              <div className="flex items-center gap-2">
+                                <h5 className="font-medium">{proposal.skill_name}</h5>
+                                <Badge variant="outline">{proposal.skill_type}</Badge>
+                                {proposal.topic && <Badge variant="secondary">{proposal.topic}</Badge>}
+                              </div>
+                              <p className="text-sm text-muted-foreground mt-1">{proposal.skill_description}</p>
+                            </div>
+                            <Badge className="bg-blue-100 text-blue-800 shrink-0">
+                              {Math.round(proposal.confidence * 100)}% confident
+                            </Badge>
+                          </div>
+
+                          <div className="text-sm space-y-1">
+                            <p><span className="font-medium">Why:</span> {proposal.reasoning}</p>
+                            {proposal.context_evidence && (
+                              <p className="text-muted-foreground italic">"{proposal.context_evidence}"</p>
+                            )}
+                            {proposal.question_numbers.length > 0 && (
+                              <p className="text-muted-foreground">
+                                Questions: {proposal.question_numbers.map(n => `Q${n}`).join(', ')}
+                              </p>
+                            )}
+                          </div>
+
+                          <Textarea
+                            placeholder="Review notes (optional for approve/merge)"
+                            rows={2}
+                            value={notes[proposal.id] || ''}
+                            onChange={(e) => setNotes(prev => ({ ...prev, [proposal.id]: e.target.value }))}
+                          />
+
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Button size="sm" disabled={busyId === proposal.id} onClick={() => handleApprove(proposal)}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            {renderSkillSelect(proposal.id, proposal.skill_type, 'Merge into...')}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === proposal.id || !mergeTargets[proposal.id]}
+                              onClick={() => handleMerge(proposal)}
+                            >
+                              <GitMerge className="h-4 w-4 mr-1" />
+                              Merge
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-600"
+                              disabled={busyId === proposal.id}
+                              onClick={() => handleReject(proposal)}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="auto-created">
+            <ScrollArea className="h-[60vh] pr-4">
+              {autoCreated.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No auto-created skills for this class.</p>
+              ) : (
+                <div className="space-y-3">
+                  {autoCreated.map(entry => (
+                    <div key={entry.id} className="p-4 border rounded-lg space-y-3">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h5 className="font-medium">{entry.skill_name}</h5>
+                            <Badge variant="outline">{entry.skill_type}</Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground mt-1">{entry.skill_description}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Created {new Date(entry.auto_created_at).toLocaleDateString()} from {examTitles[entry.exam_id] || `exam ${entry.exam_id}`}
+                          </p>
+                        </div>
+                        <Badge className="bg-blue-100 text-blue-800 shrink-0">
+                          {Math.round(entry.confidence * 100)}% confident
+                        </Badge>
+                      </div>
+                      <p className="text-sm"><span className="font-medium">Why:</span> {entry.reasoning}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {renderSkillSelect(entry.id, entry.skill_type, 'Move scores to...', entry.skill_id)}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === entry.id || !mergeTargets[entry.id]}
+                          onClick={() => handleUndo(entry)}
+                        >
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Undo
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import { Play, Loader2, Activity } from "lucide-react";
 import { toast } from "sonner";
 import { createClassSession, createStudentExercises } from "@/services/classSessionService";
 import { supabase } from "@/integrations/supabase/client";
+import { AdaptiveLearningService, TAILORED_EXERCISE_DIFFICULTY } from "@/services/adaptiveLearningService";
 
 interface StartClassSessionProps {
   classId: string;
@@ -59,8 +60,9 @@ export function StartClassSession({ classId, className, students, onSessionStart
       
       for (const student of students) {
         for (const skill of student.skills) {
-          // Generate exercise for this skill
-          const exercisePromise = fetch('/functions/v1/generate-tailored-exercise', {
+          // Generate exercise for this skill, tuned to the student's adaptive profile
+          const exercisePromise = AdaptiveLearningService.getPracticePlanForRosterStudent(student.studentId, skill.skill_name, skill.score)
+          .then(plan => fetch('/functions/v1/generate-tailored-exercise', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -69,9 +71,12 @@ export function StartClassSession({ classId, className, students, onSessionStart
             body: JSON.stringify({
               skill_name: skill.skill_name,
               skill_score: skill.score,
-              student_name: student.studentName
+              student_name: student.studentName,
+              difficulty_level: TAILORED_EXERCISE_DIFFICULTY[plan.difficulty],
+              question_count: plan.questionCount,
+              explanation_style: plan.explanationStyle
             })
-          })
+          }))
           .then(res => res.json())
           .then(data => ({
             class_session_id: session.id,
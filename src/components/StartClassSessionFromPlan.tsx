@@ -9,6 +9,7 @@ import { toast } from "sonner";
 import { createClassSession, createStudentExercises } from "@/services/classSessionService";
 import { getLessonPlanByClassId } from "@/services/lessonPlanService";
 import { supabase } from "@/integrations/supabase/client";
+import { AdaptiveLearningService, TAILORED_EXERCISE_DIFFICULTY } from "@/services/adaptiveLearningService";
 import { useQuery } from "@tanstack/react-query";
 
 interface StartClassSessionFromPlanProps {
@@ -89,6 +90,11 @@ export function StartClassSessionFromPlan({ classId, className, onSessionStarted
         
         // Generate exercises for each student's target skill from the lesson plan (fallback to current behavior)
         const exercisePromises = lessonPlan.lesson_plan_students.map(async (student) => {
+          const plan = await AdaptiveLearningService.getPracticePlanForRosterStudent(
+            student.student_id,
+            student.target_skill_name,
+            student.target_skill_score
+          );
           const exerciseResponse = await fetch('/functions/v1/generate-tailored-exercise', {
             method: 'POST',
             headers: {
@@ -98,7 +104,10 @@ export function StartClassSessionFromPlan({ classId, className, onSessionStarted
             body: JSON.stringify({
               skill_name: student.target_skill_name,
               skill_score: student.target_skill_score,
-              student_name: student.student_name
+              student_name: student.student_name,
+              difficulty_level: TAILORED_EXERCISE_DIFFICULTY[plan.difficulty],
+              question_count: plan.questionCount,
+              explanation_style: plan.explanationStyle
             })
           });
           
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Bell, ClipboardList, Calendar } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AssignmentService,
+  type AssignmentNotification,
+  type AssignmentStatus,
+  type StudentAssignment
+} from "@/services/assignmentService";
+
+interface StudentAssignmentsProps {
+  studentId: string;
+}
+
+const STATUS_STYLES: Record<AssignmentStatus, { label: string; className: string }> = {
+  assigned: { label: 'Assigned', className: 'bg-blue-100 text-blue-800' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  submitted: { label: 'Submitted', className: 'bg-yellow-100 text-yellow-800' },
+  graded: { label: 'Graded', className: 'bg-green-100 text-green-800' }
+};
+
+export function StudentAssignments({ studentId }: StudentAssignmentsProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+  const [notifications, setNotifications] = useState<AssignmentNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadAssignments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [studentAssignments, unread] = await Promise.all([
+        AssignmentService.getStudentAssignments(studentId),
+        AssignmentService.getStudentNotifications(studentId, true)
+      ]);
+      setAssignments(studentAssignments);
+      setNotifications(unread);
+    } catch (error) {
+      console.error('Error loading student assignments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId]);
+
+  useEffect(() => {
+    loadAssignments();
+  }, [loadAssignments]);
+
+  const handleDismissNotifications = async () => {
+    try {
+      await AssignmentService.markNotificationsRead(notifications.map(n => n.id));
+      setNotifications([]);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  const handleMarkSubmitted = async (assignment: StudentAssignment) => {
+    try {
+      await AssignmentService.submitAssignment(assignment.id, studentId);
+      toast({
+        title: "Submitted",
+        description: `"${assignment.title}" has been handed in.`,
+      });
+      await loadAssignments();
+    } catch (error) {
+      console.error('Error submitting assignment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit assignment. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderAction = (assignment: StudentAssignment) => {
+    if (assignment.status === 'submitted' || assignment.status === 'graded') {
+      return null;
+    }
+
+    if (assignment.assignment_type === 'exam' && assignment.quiz_token) {
+      return (
+        <Button size="sm" onClick={() => navigate(`/quiz/${assignment.quiz_token}`)}>
+          Take Exam
+        </Button>
+      );
+    }
+
+    const skillName = (assignment.content_data as { skillName?: string } | null)?.skillName;
+    if (assignment.assignment_type === 'practice_test' && skillName && assignment.class_id) {
+      return (
+        <Button
+          size="sm"
+          onClick={() => navigate(`/student-dashboard/practice/${assignment.class_id}/${encodeURIComponent(skillName)}`)}
+        >
+          Start Practice
+        </Button>
+      );
+    }
+
+    if (assignment.assignment_type === 'lesson_plan_exercises') {
+      return (
+        <Button size="sm" variant="outline" onClick={() => handleMarkSubmitted(assignment)}>
+          Mark as Submitted
+        </Button>
+      );
+    }
+
+    return null;
+  };
+
+  if (loading || (assignments.length === 0 && notifications.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          My Assignments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notifications.length > 0 && (
+          <div className="p-3 rounded-lg bg-blue-50 border border-blue-200">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-2">
+                <Bell className="h-4 w-4 text-blue-600 mt-0.5" />
+                <div className="space-y-1">
+                  {notifications.map(notification => (
+                    <p key={notification.id} className="text-sm text-blue-900">{notification.title}</p>
+                  ))}
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={handleDismissNotifications}>
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {assignments.map(assignment => {
+          const status = STATUS_STYLES[assignment.status];
+
+          return (
+            <div key={assignment.id} className="flex items-center justify-between p-3 rounded-lg border">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h4 className="font-medium">{assignment.title}</h4>
+                  <Badge className={status.className}>{status.label}</Badge>
+                  {assignment.status === 'graded' && assignment.submission?.score != null && (
+                    <Badge variant="outline">{Math.round(assignment.submission.score)}%</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 text-sm text-gray-500 mt-1">
+                  {assignment.class_name && <span className="mr-2">{assignment.class_name}</span>}
+                  <Calendar className="h-3 w-3" />
+                  {assignment.due_date
+                    ? `Due ${new Date(assignment.due_date).toLocaleDateString()}`
+                    : 'No due date'}
+                </div>
+                {assignment.submission?.feedback && (
+                  <p className="text-sm text-gray-600 mt-1">{assignment.submission.feedback}</p>
+                )}
+              </div>
+              {renderAction(assignment)}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
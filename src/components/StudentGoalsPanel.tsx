@@ -0,0 +1,322 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag, Plus, Sparkles, Trophy, X, CheckCircle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  GoalService,
+  type GoalAnalytics,
+  type GoalSkillType,
+  type StudentGoal
+} from "@/services/goalService";
+import type { SkillScore } from "@/services/examService";
+
+interface StudentGoalsPanelProps {
+  studentId: string;
+  weakestSkills: Array<{ skill: SkillScore; skillType: GoalSkillType }>;
+  readOnly?: boolean;
+}
+
+export function StudentGoalsPanel({ studentId, weakestSkills, readOnly = false }: StudentGoalsPanelProps) {
+  const [goals, setGoals] = useState<StudentGoal[]>([]);
+  const [analytics, setAnalytics] = useState<GoalAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedSkill, setSelectedSkill] = useState('');
+  const [targetValue, setTargetValue] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+
+  const loadGoals = useCallback(async () => {
+    if (!studentId) return;
+    try {
+      setLoading(true);
+      const [studentGoals, goalAnalytics] = await Promise.all([
+        GoalService.getStudentGoals(studentId),
+        GoalService.getGoalAnalytics(studentId)
+      ]);
+      setGoals(studentGoals);
+      setAnalytics(goalAnalytics);
+
+      if (!readOnly) {
+        const achievements = await GoalService.getUncelebratedAchievements(studentId);
+        achievements.forEach(achievement => {
+          toast.success(achievement.achievement_title, {
+            description: achievement.achievement_description || undefined
+          });
+        });
+        await GoalService.markAchievementsCelebrated(achievements.map(a => a.id));
+      }
+    } catch (error) {
+      console.error('Error loading goals:', error);
+      toast.error('Failed to load goals');
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId, readOnly]);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  const createGoal = async (skillName: string, skillType: GoalSkillType, currentScore: number, target: number, isSuggested: boolean, date?: string) => {
+    try {
+      await GoalService.createGoal({
+        studentId,
+        skillName,
+        skillType,
+        currentScore,
+        targetValue: target,
+        targetDate: date,
+        isSuggested
+      });
+      toast.success(`Goal set for ${skillName}`);
+      await loadGoals();
+    } catch (error) {
+      console.error('Error creating goal:', error);
+      toast.error('Failed to create goal');
+    }
+  };
+
+  const handleCreateGoal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry = weakestSkills.find(s => s.skill.skill_name === selectedSkill);
+    const target = Number(targetValue);
+    if (!entry || Number.isNaN(target)) return;
+
+    const currentScore = Math.round(entry.skill.score);
+    if (target <= currentScore || target > 100) {
+      toast.error(`Pick a target between ${currentScore + 1} and 100`);
+      return;
+    }
+
+    await createGoal(entry.skill.skill_name, entry.skillType, currentScore, target, false, targetDate || undefined);
+    setSelectedSkill('');
+    setTargetValue('');
+    setTargetDate('');
+    setDialogOpen(false);
+  };
+
+  const handleAbandon = async (goal: StudentGoal) => {
+    try {
+      await GoalService.abandonGoal(goal.id);
+      setGoals(prev => prev.filter(g => g.id !== goal.id));
+    } catch (error) {
+      console.error('Error abandoning goal:', error);
+      toast.error('Failed to remove goal');
+    }
+  };
+
+  const activeGoals = goals.filter(goal => goal.status === 'active');
+  const completedGoals = goals.filter(goal => goal.status === 'completed');
+  const suggestions = readOnly ? [] : GoalService.suggestGoals(weakestSkills, goals);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-blue-600" />
+            Learning Goals
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {analytics && (
+              <>
+                <Badge variant="outline">{analytics.active_goals} active</Badge>
+                <Badge className="bg-green-100 text-green-800">{analytics.completed_goals} completed</Badge>
+              </>
+            )}
+            {!readOnly && (
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button size="sm" disabled={weakestSkills.length === 0}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New Goal
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[425px]">
+                  <form onSubmit={handleCreateGoal}>
+                    <DialogHeader>
+                      <DialogTitle>Set a Skill Goal</DialogTitle>
+                      <DialogDescription>
+                        Choose a skill and the score you want to reach. Progress updates as you take tests and practice.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-4">
+                      <div className="grid gap-2">
+                        <Label>Skill</Label>
+                        <Select value={selectedSkill} onValueChange={setSelectedSkill}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a skill" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {weakestSkills.map(({ skill }) => (
+                              <SelectItem key={skill.skill_name} value={skill.skill_name}>
+                                {skill.skill_name} ({Math.round(skill.score)}%)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="goal-target">Target Score (%)</Label>
+                        <Input
+                          id="goal-target"
+                          type="number"
+                          min="1"
+                          max="100"
+                          value={targetValue}
+                          onChange={(e) => setTargetValue(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="goal-date">Target Date</Label>
+                        <Input
+                          id="goal-date"
+                          type="date"
+                          value={targetDate}
+                          onChange={(e) => setTargetDate(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={!selectedSkill || !targetValue}>
+                        Set Goal
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <>
+            {activeGoals.length === 0 && completedGoals.length === 0 && (
+              <div className="text-center py-6">
+                <Flag className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No goals yet</h3>
+                <p className="text-gray-600">Set a target for a skill to start tracking your progress.</p>
+              </div>
+            )}
+
+            {activeGoals.map(goal => {
+              const currentValue = Math.round(goal.current_value ?? 0);
+
+              return (
+                <div key={goal.id} className="p-4 rounded-lg border space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium">{goal.goal_title}</h4>
+                        {goal.is_ai_suggested && <Badge variant="outline">Suggested</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        Currently {currentValue}%
+                        {goal.target_date && ` · Target ${new Date(goal.target_date).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    {!readOnly && (
+                      <Button variant="ghost" size="sm" className="text-gray-500" onClick={() => handleAbandon(goal)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <Progress value={goal.progress_percentage ?? 0} />
+                  {goal.milestones.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {goal.milestones.map(milestone => (
+                        <Badge
+                          key={milestone.value}
+                          variant="outline"
+                          className={currentValue >= milestone.value ? 'bg-green-50 text-green-700 border-green-200' : 'text-gray-500'}
+                        >
+                          {currentValue >= milestone.value && <CheckCircle className="h-3 w-3 mr-1" />}
+                          {milestone.label}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {completedGoals.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                  <Trophy className="h-4 w-4 text-yellow-600" />
+                  Completed
+                </h4>
+                {completedGoals.map(goal => (
+                  <div key={goal.id} className="flex items-center justify-between text-sm p-2 rounded bg-green-50">
+                    <span>{goal.goal_title}</span>
+                    {goal.completed_at && (
+                      <span className="text-gray-500">{new Date(goal.completed_at).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {suggestions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                  <Sparkles className="h-4 w-4 text-purple-600" />
+                  Suggested for you
+                </h4>
+                {suggestions.map(suggestion => (
+                  <div key={suggestion.skillName} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium text-sm">{suggestion.skillName}</p>
+                      <p className="text-xs text-gray-600">
+                        {suggestion.currentScore}% → {suggestion.targetValue}%
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => createGoal(
+                        suggestion.skillName,
+                        suggestion.skillType,
+                        suggestion.currentScore,
+                        suggestion.targetValue,
+                        true
+                      )}
+                    >
+                      Set Goal
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,7 +8,8 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuCheckboxItem } from "@/components/ui/dropdown-menu";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Moon, UserCheck, FileText, FileCheck, BookOpen, X, Check, Layers } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Moon, UserCheck, FileText, FileCheck, BookOpen, X, Check, Layers, Flame, Compass } from "lucide-react";
 import { toast } from "sonner";
 import { 
   getAllActiveStudents,
@@ -19,6 +20,8 @@ import {
 } from "@/services/examService";
 import { useMultiSkillSelection } from "@/contexts/MultiSkillSelectionContext";
 import { generatePracticeTest } from "@/services/practiceTestService";
+import { useAuth } from "@/contexts/AuthContext";
+import { TrailblazerService, type TeacherTrailblazerProgress } from "@/services/trailblazerService";
 
 interface SkillScore {
   skill_name: string;
@@ -69,6 +72,8 @@ export function StudentPerformanceOverview({ students: propStudents, classes: pr
   const [showMultiClassSelector, setShowMultiClassSelector] = useState(false);
   const [loading, setLoading] = useState(!propStudents);
   const [generatingTests, setGeneratingTests] = useState<Set<string>>(new Set());
+  const [trailblazerProgress, setTrailblazerProgress] = useState<TeacherTrailblazerProgress[]>([]);
+  const { profile } = useAuth();
 
   // Multi-skill selection context
   const { isSelectionMode, toggleSelectionMode, toggleSkillSelection, selectedSkills } = useMultiSkillSelection();
@@ -97,6 +102,13 @@ export function StudentPerformanceOverview({ students: propStudents, classes: pr
     }
   }, [propStudents, propClasses]);
 
+  useEffect(() => {
+    if (!profile?.id) return;
+    TrailblazerService.getTeacherStudentProgress(profile.id)
+      .then(setTrailblazerProgress)
+      .catch(error => console.error('Error loading Trailblazer progress:', error));
+  }, [profile?.id]);
+
   const loadDashboardData = async () => {
     try {
       setLoading(true);
@@ -192,6 +204,33 @@ export function StudentPerformanceOverview({ students: propStudents, classes: pr
     setStudentsWithSkills(studentsWithSkillsData);
   };
 
+  // Trailblazer rows are keyed by the student's auth user, so fall back to matching by name
+  const getTrailblazerProgress = (student: ActiveStudent) =>
+    trailblazerProgress.find(progress =>
+      progress.student_id === student.id ||
+      progress.student_name?.toLowerCase() === student.name.toLowerCase()
+    );
+
+  const visibleTrailblazerProgress = studentsWithSkills
+    .map(getTrailblazerProgress)
+    .filter((progress): progress is TeacherTrailblazerProgress => !!progress);
+
+  const renderTrailblazerBadge = (student: ActiveStudent) => {
+    const progress = getTrailblazerProgress(student);
+    if (!progress) return null;
+
+    return (
+      <Badge
+        variant="outline"
+        className="mt-1 text-xs border-orange-200 text-orange-700"
+        title={`Last session ${new Date(progress.last_session_date).toLocaleDateString()}`}
+      >
+        <Flame className="h-3 w-3 mr-1" />
+        {progress.current_streak_days}-day streak · {progress.total_sessions} sessions
+      </Badge>
+    );
+  };
+
   // Handle skill circle click for practice test generation
   const handleSkillClick = async (student: StudentWithSkills, skill: SkillScore) => {
     // Always use the multi-skill selection system for both single and multi-select modes
@@ -1140,6 +1179,23 @@ export function StudentPerformanceOverview({ students: propStudents, classes: pr
         )}
       </CardHeader>
       <CardContent className="p-6">
+        {visibleTrailblazerProgress.length > 0 && (
+          <div className="mb-4 p-3 rounded-lg border border-emerald-100 bg-emerald-50/50 flex flex-wrap items-center gap-4 text-sm">
+            <span className="flex items-center gap-1 font-medium text-emerald-800">
+              <Compass className="h-4 w-4" />
+              Trailblazer
+            </span>
+            <span className="text-slate-700">
+              {visibleTrailblazerProgress.filter(progress => progress.current_streak_days > 0).length} of {studentsWithSkills.length} students on a streak
+            </span>
+            <span className="text-slate-700">
+              {visibleTrailblazerProgress.reduce((sum, progress) => sum + progress.total_sessions, 0)} focused sessions
+            </span>
+            <span className="text-slate-700">
+              Longest streak: {Math.max(...visibleTrailblazerProgress.map(progress => progress.current_streak_days))} days
+            </span>
+          </div>
+        )}
         <ScrollArea className="h-96 w-full">
           <div className="space-y-3 pr-4">
             {studentsWithSkills.map((student) => (
@@ -1156,6 +1212,7 @@ export function StudentPerformanceOverview({ students: propStudents, classes: pr
                   <div className="min-w-0">
                     <h3 className="font-semibold text-slate-900 truncate">{student.name}</h3>
                     <p className="text-sm text-slate-500 truncate">{student.email || 'No email'}</p>
+                    {renderTrailblazerBadge(student)}
                   </div>
                 </div>
                 
@@ -1,16 +1,30 @@
 
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { BookOpen } from "lucide-react";
 import { getGradeColor } from "@/utils/studentProfileUtils";
 import { type TestResult } from "@/services/examService";
+import { RubricService } from "@/services/rubricService";
+import { GradeOverrideService } from "@/services/gradeOverrideService";
+import { GradeOverrideDialog } from "@/components/GradeOverrideDialog";
 
 interface StudentTestResultsProps {
   testResults: TestResult[];
   testResultsLoading: boolean;
+  canOverride?: boolean;
 }
 
-export function StudentTestResults({ testResults, testResultsLoading }: StudentTestResultsProps) {
+export function StudentTestResults({ testResults, testResultsLoading, canOverride = false }: StudentTestResultsProps) {
+  const queryClient = useQueryClient();
+
+  // Overrides change the test score and the skill scores derived from it
+  const refreshAfterOverride = () => {
+    for (const key of ['studentTestResults', 'studentContentSkills', 'studentSubjectSkills']) {
+      queryClient.invalidateQueries({ queryKey: [key] });
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -25,22 +39,66 @@ export function StudentTestResults({ testResults, testResultsLoading }: StudentT
           </div>
         ) : testResults.length > 0 ? (
           <div className="space-y-4">
-            {testResults.map((result, index) => (
-              <div key={result.id} className="flex items-center justify-between p-4 rounded-lg border border-gray-100">
-                <div>
-                  <h4 className="font-semibold text-gray-900">Test {index + 1}</h4>
-                  <p className="text-sm text-gray-600">{new Date(result.created_at).toLocaleDateString()}</p>
-                </div>
-                <div className="text-right">
-                  <Badge className={getGradeColor(result.overall_score)}>
-                    {Math.round(result.overall_score)}%
-                  </Badge>
-                  <p className="text-sm text-gray-600 mt-1">
-                    {result.total_points_earned}/{result.total_points_possible} points
-                  </p>
+            {testResults.map((result, index) => {
+              const rubricBreakdown = RubricService.getRubricBreakdown(result.detailed_analysis);
+              const adjustedQuestions = GradeOverrideService.getQuestionResults(result.detailed_analysis)
+                .filter(question => question.overridden);
+
+              return (
+                <div key={result.id} className="p-4 rounded-lg border border-gray-100">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="font-semibold text-gray-900">Test {index + 1}</h4>
+                      <p className="text-sm text-gray-600">{new Date(result.created_at).toLocaleDateString()}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      {canOverride && (
+                        <GradeOverrideDialog testResult={result} onOverridden={refreshAfterOverride} />
+                      )}
+                      <div className="text-right">
+                        <Badge className={getGradeColor(result.overall_score)}>
+                          {Math.round(result.overall_score)}%
+                        </Badge>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {result.total_points_earned}/{result.total_points_possible} points
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
+                  {adjustedQuestions.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                      {adjustedQuestions.map(question => (
+                        <p key={question.questionNumber} className="text-xs text-gray-600">
+                          Question {question.questionNumber} adjusted by teacher to {question.pointsEarned} points
+                          {question.teacherComment && `: "${question.teacherComment}"`}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {rubricBreakdown.map(question => (
+                    <div key={question.questionNumber} className="mt-3 pt-3 border-t border-gray-100">
+                      <p className="text-sm font-medium text-gray-700 mb-2">Question {question.questionNumber} rubric</p>
+                      <div className="space-y-2">
+                        {question.criterionScores.map(score => (
+                          <div key={score.criterionId} className="text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="text-gray-900">
+                                {score.criterion}
+                                {score.level && <span className="text-gray-500"> – {score.level}</span>}
+                              </span>
+                              <span className="text-gray-600">{score.pointsEarned}/{score.pointsPossible}</span>
+                            </div>
+                            <p className="text-xs text-gray-500">{score.justification}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         ) : (
           <div className="text-center py-8">
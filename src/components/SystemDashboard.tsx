@@ -20,6 +20,7 @@ import {
 import { scalabilityMonitor, ScalabilityStats } from '@/services/scalabilityMonitoringService';
 import { enhancedBatchService } from '@/services/enhancedBatchProcessingService';
 import { CacheAnalytics } from './CacheAnalytics';
+import { AICostDashboard } from './AICostDashboard';
 
 export const SystemDashboard: React.FC = () => {
   const [stats, setStats] = useState<ScalabilityStats | null>(null);
@@ -198,6 +199,7 @@ export const SystemDashboard: React.FC = () => {
           <TabsTrigger value="performance">Performance Metrics</TabsTrigger>
           <TabsTrigger value="scaling">Auto-scaling</TabsTrigger>
           <TabsTrigger value="cache">Cache Analytics</TabsTrigger>
+          <TabsTrigger value="costs">AI Costs</TabsTrigger>
           <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
         </TabsList>
 
@@ -330,6 +332,10 @@ export const SystemDashboard: React.FC = () => {
           <CacheAnalytics />
         </TabsContent>
 
+        <TabsContent value="costs" className="space-y-4">
+          <AICostDashboard />
+        </TabsContent>
+
         <TabsContent value="recommendations" className="space-y-4">
           <Card>
             <CardHeader>
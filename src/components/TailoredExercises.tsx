@@ -9,10 +9,12 @@ import { getStudentExercises, updateExerciseStatus, type StudentExercise } from
 import { SmartAnswerGradingService, type GradingResult } from "@/services/smartAnswerGradingService";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
 import { PracticeExerciseRunner } from "./PracticeExerciseRunner";
 import type { ExerciseSubmissionResult } from "@/services/practiceExerciseGradingService";
 
 export function TailoredExercises() {
+  const { user } = useAuth();
   const [exercises, setExercises] = useState<StudentExercise[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedExercise, setSelectedExercise] = useState<StudentExercise | null>(null);
@@ -137,6 +139,7 @@ export function TailoredExercises() {
         exerciseData={exerciseDataWithId}
         onComplete={handleCompleteExercise}
         onExit={() => setSelectedExercise(null)}
+        studentId={user?.id}
       />
     );
   }
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AnalyticsFilterBar } from "@/components/AnalyticsFilterBar";
+import { DashboardAnalytics } from "@/components/DashboardAnalytics";
+import { TopPerformers } from "@/components/TopPerformers";
+import { RecentActivity } from "@/components/RecentActivity";
+import type { AnalyticsFilters } from "@/services/teacherAnalyticsService";
+
+interface TeacherAnalyticsDashboardProps {
+  onSelectStudent: (studentId: string) => void;
+}
+
+export function TeacherAnalyticsDashboard({ onSelectStudent }: TeacherAnalyticsDashboardProps) {
+  const [filters, setFilters] = useState<AnalyticsFilters | null>(null);
+
+  return (
+    <div className="space-y-6">
+      <AnalyticsFilterBar onChange={setFilters} />
+
+      {filters && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <DashboardAnalytics filters={filters} />
+          </div>
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Performers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <TopPerformers filters={filters} onSelectStudent={onSelectStudent} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Activity</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RecentActivity filters={filters} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
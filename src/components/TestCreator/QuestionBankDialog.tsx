@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from "react";
+import { Plus, RefreshCw, Search, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  QuestionBankService,
+  ITEM_FLAG_LABELS,
+  type QuestionBankFilters,
+  type QuestionBankItem,
+  type QuestionDifficulty
+} from "@/services/questionBankService";
+import type { Question } from "@/utils/pdfGenerator";
+
+interface QuestionBankDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddQuestions: (questions: Question[]) => void;
+}
+
+const QUESTION_TYPES: Question['type'][] = [
+  'multiple-choice', 'true-false', 'short-answer', 'essay', 'numeric', 'expression',
+  'multi-select', 'matching', 'ordering', 'fill-in-blank'
+];
+
+const ALL = 'all';
+
+export const QuestionBankDialog = ({ open, onOpenChange, onAddQuestions }: QuestionBankDialogProps) => {
+  const [items, setItems] = useState<QuestionBankItem[]>([]);
+  const [filters, setFilters] = useState<QuestionBankFilters>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadItems = useCallback(async () => {
+    setLoading(true);
+    try {
+      setItems(await QuestionBankService.searchItems({ ...filters, skill: filters.skill?.trim() || undefined }));
+    } catch (error) {
+      console.error('Error loading question bank:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the question bank",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  // Wait for typing to pause before querying
+  useEffect(() => {
+    if (!open) {
+      setSelectedIds([]);
+      return;
+    }
+    const timer = setTimeout(loadItems, 300);
+    return () => clearTimeout(timer);
+  }, [open, loadItems]);
+
+  const handleRefreshStatistics = async () => {
+    setRefreshing(true);
+    try {
+      await QuestionBankService.refreshStatistics(items.map(item => item.id as string));
+      await loadItems();
+      toast({ title: "Statistics updated", description: "Item statistics were recalculated from graded results." });
+    } catch (error) {
+      console.error('Error refreshing item statistics:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to refresh statistics",
+        variant: "destructive"
+      });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const toggleSelected = (itemId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, itemId] : prev.filter(id => id !== itemId));
+  };
+
+  const handleAdd = () => {
+    const selected = items.filter(item => selectedIds.includes(item.id as string));
+    onAddQuestions(selected.map(item => QuestionBankService.toQuestion(item)));
+    toast({ title: "Questions added", description: `${selected.length} question(s) added from the bank.` });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Question Bank</DialogTitle>
+          <DialogDescription>
+            Search your saved questions and add them to this exam. Statistics come from graded results of exams that used each item.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="bank-search">Search</Label>
+            <div className="relative">
+              <Search className="h-4 w-4 absolute left-2 top-3 text-gray-400" />
+              <Input
+                id="bank-search"
+                value={filters.search || ''}
+                onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+                placeholder="Question text"
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Type</Label>
+            <Select
+              value={filters.questionType || ALL}
+              onValueChange={(value) => setFilters(prev => ({ ...prev, questionType: value === ALL ? undefined : value as Question['type'] }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {QUESTION_TYPES.map(type => (
+                  <SelectItem key={type} value={type} className="capitalize">{type.replace(/-/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Difficulty</Label>
+            <Select
+              value={filters.difficulty || ALL}
+              onValueChange={(value) => setFilters(prev => ({ ...prev, difficulty: value === ALL ? undefined : value as QuestionDifficulty }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any difficulty</SelectItem>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 space-y-1">
+            <Label htmlFor="bank-skill">Skill</Label>
+            <Input
+              id="bank-skill"
+              value={filters.skill || ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, skill: e.target.value }))}
+              placeholder="Exact content or subject skill name"
+            />
+          </div>
+          <div className="flex items-end gap-2 pb-2">
+            <Checkbox
+              id="bank-flagged"
+              checked={!!filters.flaggedOnly}
+              onCheckedChange={(checked) => setFilters(prev => ({ ...prev, flaggedOnly: checked === true }))}
+            />
+            <Label htmlFor="bank-flagged">Weak items only</Label>
+          </div>
+          <div className="flex items-end">
+            <Button variant="outline" size="sm" onClick={handleRefreshStatistics} disabled={refreshing || items.length === 0}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${refreshing ? 'animate-spin' : ''}`} />
+              Refresh statistics
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {loading && <p className="text-sm text-gray-500">Loading questions...</p>}
+          {!loading && items.length === 0 && (
+            <p className="text-sm text-gray-500">No questions match these filters. Save questions from the editor to build your bank.</p>
+          )}
+          {!loading && items.map(item => {
+            const flags = QuestionBankService.getItemFlags(item);
+            return (
+              <div key={item.id} className="flex items-start gap-3 border rounded p-3">
+                <Checkbox
+                  checked={selectedIds.includes(item.id as string)}
+                  onCheckedChange={(checked) => toggleSelected(item.id as string, checked === true)}
+                  className="mt-1"
+                />
+                <div className="flex-1 space-y-2">
+                  <p className="text-sm font-medium text-gray-900">{item.questionText}</p>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline" className="capitalize">{item.questionType.replace(/-/g, ' ')}</Badge>
+                    {item.difficulty && <Badge variant="outline" className="capitalize">{item.difficulty}</Badge>}
+                    <Badge variant="outline">{item.points} pt</Badge>
+                    {[...item.contentSkillTags, ...item.subjectSkillTags].map(tag => (
+                      <Badge key={tag} className="bg-blue-100 text-blue-700">{tag}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                    <span>Used on {item.timesUsed} exam(s)</span>
+                    <span>{item.responseCount} response(s)</span>
+                    <span>p-value: {item.pValue === null ? '—' : item.pValue.toFixed(2)}</span>
+                    <span>Discrimination: {item.discrimination === null ? '—' : item.discrimination.toFixed(2)}</span>
+                    {flags.map(flag => (
+                      <span key={flag} className="flex items-center gap-1 text-amber-700">
+                        <AlertTriangle className="h-3 w-3" />
+                        {ITEM_FLAG_LABELS[flag]}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleAdd} disabled={selectedIds.length === 0}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add {selectedIds.length || ''} to Exam
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,5 @@
 
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -6,7 +7,13 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Library, Pencil, Plus, Trash2, X } from "lucide-react";
+import { RubricService, type Rubric } from "@/services/rubricService";
+import { RubricEditorDialog } from "./RubricEditorDialog";
+import { QuestionBankDialog } from "./QuestionBankDialog";
+import type { NumericAnswerSpec } from "@/services/mathAnswerGradingService";
+import { StructuredQuestionService, type MatchPair } from "@/services/structuredQuestionService";
 import type { Question } from "../../utils/pdfGenerator";
 
 interface QuestionEditorProps {
@@ -16,6 +23,7 @@ interface QuestionEditorProps {
   onUpdateQuestion: (questionId: string, field: keyof Question, value: any) => void;
   onUpdateQuestionOption: (questionId: string, optionIndex: number, value: string) => void;
   onDeleteQuestion: (questionId: string) => void;
+  onAddQuestionsFromBank: (questions: Question[]) => void;
   onBack: () => void;
   onContinue: () => void;
 }
@@ -27,9 +35,55 @@ export const QuestionEditor = ({
   onUpdateQuestion,
   onUpdateQuestionOption,
   onDeleteQuestion,
+  onAddQuestionsFromBank,
   onBack,
   onContinue
 }: QuestionEditorProps) => {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [editingRubric, setEditingRubric] = useState<{ questionId: string; rubric?: Rubric } | null>(null);
+  const [isBankOpen, setIsBankOpen] = useState(false);
+
+  useEffect(() => {
+    RubricService.getRubrics()
+      .then(setRubrics)
+      .catch(error => console.error('Error loading rubrics:', error));
+  }, []);
+
+  const updateNumericSpec = (question: Question, field: keyof Omit<NumericAnswerSpec, 'kind'>, value: string) => {
+    const spec: NumericAnswerSpec = question.answerSpec?.kind === 'numeric' ? { ...question.answerSpec } : { kind: 'numeric' };
+    if (field === 'unit') {
+      spec.unit = value.trim() || undefined;
+    } else {
+      const parsed = parseFloat(value);
+      spec[field] = isNaN(parsed) ? undefined : field === 'relativeTolerance' ? parsed / 100 : parsed;
+    }
+    onUpdateQuestion(question.id, 'answerSpec', spec);
+  };
+
+  const toggleCorrectOption = (question: Question, option: string, checked: boolean) => {
+    const current = question.correctAnswers || [];
+    onUpdateQuestion(question.id, 'correctAnswers', checked ? [...current, option] : current.filter(answer => answer !== option));
+  };
+
+  const updateMatchPair = (question: Question, pairIndex: number, field: keyof MatchPair, value: string) => {
+    onUpdateQuestion(question.id, 'matchPairs', (question.matchPairs || []).map((pair, index) =>
+      index === pairIndex ? { ...pair, [field]: value } : pair
+    ));
+  };
+
+  const updateBlankAnswer = (question: Question, blankIndex: number, value: string) => {
+    const answers = [...(question.correctAnswers || [])];
+    answers[blankIndex] = value;
+    onUpdateQuestion(question.id, 'correctAnswers', Array.from(answers, answer => answer || ''));
+  };
+
+  const handleRubricSaved = (saved: Rubric) => {
+    setRubrics(prev => [...prev.filter(r => r.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    if (editingRubric) {
+      onUpdateQuestion(editingRubric.questionId, 'rubricId', saved.id);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -52,7 +106,7 @@ export const QuestionEditor = ({
         </div>
       )}
       
-      <div className="flex gap-2 mb-4">
+      <div className="flex flex-wrap gap-2 mb-4">
         <Button onClick={() => onAddQuestion('multiple-choice')} variant="outline" size="sm">
           <Plus className="h-4 w-4 mr-1" />
           Multiple Choice
@@ -69,6 +123,34 @@ export const QuestionEditor = ({
           <Plus className="h-4 w-4 mr-1" />
           Essay
         </Button>
+        <Button onClick={() => onAddQuestion('numeric')} variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Numeric
+        </Button>
+        <Button onClick={() => onAddQuestion('expression')} variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Expression
+        </Button>
+        <Button onClick={() => onAddQuestion('multi-select')} variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Multi-Select
+        </Button>
+        <Button onClick={() => onAddQuestion('matching')} variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Matching
+        </Button>
+        <Button onClick={() => onAddQuestion('ordering')} variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Ordering
+        </Button>
+        <Button onClick={() => onAddQuestion('fill-in-blank')} variant="outline" size="sm">
+          <Plus className="h-4 w-4 mr-1" />
+          Fill in the Blank
+        </Button>
+        <Button onClick={() => setIsBankOpen(true)} variant="secondary" size="sm">
+          <Library className="h-4 w-4 mr-1" />
+          From Question Bank
+        </Button>
       </div>
       
       <div className="space-y-4">
@@ -78,7 +160,7 @@ export const QuestionEditor = ({
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">Question {index + 1}</CardTitle>
                 <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-500 capitalize">{question.type.replace('-', ' ')}</span>
+                  <span className="text-sm text-gray-500 capitalize">{question.type.replace(/-/g, ' ')}</span>
                   <Button variant="ghost" size="sm" onClick={() => onDeleteQuestion(question.id)}>
                     <Trash2 className="h-4 w-4" />
                   </Button>
@@ -120,6 +202,126 @@ export const QuestionEditor = ({
                 </div>
               )}
               
+              {question.type === 'multi-select' && question.options && (
+                <div>
+                  <Label>Answer Options (check every correct option)</Label>
+                  <div className="space-y-2">
+                    {question.options.map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center gap-2">
+                        <Input
+                          value={option}
+                          onChange={(e) => onUpdateQuestionOption(question.id, optionIndex, e.target.value)}
+                          placeholder={`Option ${optionIndex + 1}`}
+                        />
+                        <Checkbox
+                          checked={question.correctAnswers?.includes(option) || false}
+                          onCheckedChange={(checked) => toggleCorrectOption(question, option, checked === true)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Partial credit: each correct choice earns a share of the points and each wrong choice takes one back.
+                  </p>
+                </div>
+              )}
+              
+              {question.type === 'matching' && (
+                <div>
+                  <Label>Pairs</Label>
+                  <div className="space-y-2">
+                    {(question.matchPairs || []).map((pair, pairIndex) => (
+                      <div key={pairIndex} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500 w-5">{pairIndex + 1}.</span>
+                        <Input
+                          value={pair.prompt}
+                          onChange={(e) => updateMatchPair(question, pairIndex, 'prompt', e.target.value)}
+                          placeholder="Prompt"
+                        />
+                        <Input
+                          value={pair.answer}
+                          onChange={(e) => updateMatchPair(question, pairIndex, 'answer', e.target.value)}
+                          placeholder="Matching answer"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onUpdateQuestion(question.id, 'matchPairs', (question.matchPairs || []).filter((_, index) => index !== pairIndex))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => onUpdateQuestion(question.id, 'matchPairs', [...(question.matchPairs || []), { prompt: '', answer: '' }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Pair
+                  </Button>
+                  <p className="text-xs text-gray-500 mt-1">Answers are printed in shuffled order; each correct match earns partial credit.</p>
+                </div>
+              )}
+              
+              {question.type === 'ordering' && (
+                <div>
+                  <Label>Items in the Correct Order</Label>
+                  <div className="space-y-2">
+                    {(question.options || []).map((item, itemIndex) => (
+                      <div key={itemIndex} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500 w-5">{itemIndex + 1}.</span>
+                        <Input
+                          value={item}
+                          onChange={(e) => onUpdateQuestionOption(question.id, itemIndex, e.target.value)}
+                          placeholder={`Step ${itemIndex + 1}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onUpdateQuestion(question.id, 'options', (question.options || []).filter((_, index) => index !== itemIndex))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => onUpdateQuestion(question.id, 'options', [...(question.options || []), ''])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Item
+                  </Button>
+                  <p className="text-xs text-gray-500 mt-1">Items are printed in shuffled order; each item in the right position earns partial credit.</p>
+                </div>
+              )}
+              
+              {question.type === 'fill-in-blank' && (
+                <div>
+                  <Label>Blank Answers</Label>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Mark each blank in the question text with ___ (three underscores). Separate accepted alternatives with |, e.g. color|colour.
+                  </p>
+                  <div className="space-y-2">
+                    {Array.from({ length: StructuredQuestionService.countBlanks(question.question) }, (_, blankIndex) => (
+                      <div key={blankIndex} className="flex items-center gap-2">
+                        <span className="text-sm text-gray-500 w-16">Blank {blankIndex + 1}</span>
+                        <Input
+                          value={question.correctAnswers?.[blankIndex] || ''}
+                          onChange={(e) => updateBlankAnswer(question, blankIndex, e.target.value)}
+                          placeholder="Correct answer"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               {question.type === 'true-false' && (
                 <div>
                   <Label>Correct Answer</Label>
@@ -139,6 +341,109 @@ export const QuestionEditor = ({
                 </div>
               )}
               
+              {question.type === 'numeric' && (
+                <div>
+                  <Label>Numeric Grading</Label>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-1">
+                    <div>
+                      <Label htmlFor={`unit-${question.id}`} className="text-xs text-gray-500">Unit</Label>
+                      <Input
+                        id={`unit-${question.id}`}
+                        value={question.answerSpec?.kind === 'numeric' ? question.answerSpec.unit || '' : ''}
+                        onChange={(e) => updateNumericSpec(question, 'unit', e.target.value)}
+                        placeholder="e.g. m/s"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`abs-tol-${question.id}`} className="text-xs text-gray-500">Absolute tolerance</Label>
+                      <Input
+                        id={`abs-tol-${question.id}`}
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={question.answerSpec?.kind === 'numeric' ? question.answerSpec.absoluteTolerance ?? '' : ''}
+                        onChange={(e) => updateNumericSpec(question, 'absoluteTolerance', e.target.value)}
+                        placeholder="±0"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`rel-tol-${question.id}`} className="text-xs text-gray-500">Relative tolerance (%)</Label>
+                      <Input
+                        id={`rel-tol-${question.id}`}
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={question.answerSpec?.kind === 'numeric' && question.answerSpec.relativeTolerance !== undefined
+                          ? question.answerSpec.relativeTolerance * 100
+                          : ''}
+                        onChange={(e) => updateNumericSpec(question, 'relativeTolerance', e.target.value)}
+                        placeholder="0"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`sig-figs-${question.id}`} className="text-xs text-gray-500">Significant figures</Label>
+                      <Input
+                        id={`sig-figs-${question.id}`}
+                        type="number"
+                        min="1"
+                        value={question.answerSpec?.kind === 'numeric' ? question.answerSpec.significantFigures ?? '' : ''}
+                        onChange={(e) => updateNumericSpec(question, 'significantFigures', e.target.value)}
+                        placeholder="Any"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Fractions, decimals and percentages are compared by value. Missing units or the wrong number of significant figures earn half credit.
+                  </p>
+                </div>
+              )}
+              
+              {question.type === 'expression' && (
+                <p className="text-xs text-gray-500">
+                  Answers are graded by algebraic equivalence, so simplified or reordered forms (e.g. 2(x+1) for 2x+2, 3=x for x=3) are accepted.
+                </p>
+              )}
+              
+              {(question.type === 'short-answer' || question.type === 'essay') && (
+                <div>
+                  <Label>Rubric</Label>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={question.rubricId || 'none'}
+                      onValueChange={(value) => onUpdateQuestion(question.id, 'rubricId', value === 'none' ? undefined : value)}
+                    >
+                      <SelectTrigger className="w-72"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No rubric – grade against the answer key</SelectItem>
+                        {rubrics.map(rubric => (
+                          <SelectItem key={rubric.id} value={rubric.id as string}>
+                            {rubric.name} ({rubric.totalPoints} pts)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {question.rubricId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingRubric({ questionId: question.id, rubric: rubrics.find(r => r.id === question.rubricId) })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => setEditingRubric({ questionId: question.id })}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      New Rubric
+                    </Button>
+                  </div>
+                  {question.rubricId && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Criterion scores are scaled to this question's points.
+                    </p>
+                  )}
+                </div>
+              )}
+              
               <div className="flex items-center gap-4">
                 <div>
                   <Label htmlFor={`points-${question.id}`}>Points</Label>
@@ -165,6 +470,19 @@ export const QuestionEditor = ({
           </CardContent>
         </Card>
       )}
+
+      <RubricEditorDialog
+        open={editingRubric !== null}
+        rubric={editingRubric?.rubric}
+        onOpenChange={(open) => !open && setEditingRubric(null)}
+        onSaved={handleRubricSaved}
+      />
+
+      <QuestionBankDialog
+        open={isBankOpen}
+        onOpenChange={setIsBankOpen}
+        onAddQuestions={onAddQuestionsFromBank}
+      />
     </div>
   );
 };
@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { RubricService, type Rubric, type RubricCriterion, type RubricLevel } from "@/services/rubricService";
+
+interface RubricEditorDialogProps {
+  open: boolean;
+  rubric?: Rubric;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (rubric: Rubric) => void;
+}
+
+const emptyRubric = (): Rubric => ({
+  name: '',
+  criteria: [RubricService.createCriterion()],
+  totalPoints: 0
+});
+
+export const RubricEditorDialog = ({ open, rubric, onOpenChange, onSaved }: RubricEditorDialogProps) => {
+  const [draft, setDraft] = useState<Rubric>(emptyRubric);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(rubric ? structuredClone(rubric) : emptyRubric());
+    }
+  }, [open, rubric]);
+
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    setDraft(prev => ({
+      ...prev,
+      criteria: prev.criteria.map(c => c.id === criterionId ? { ...c, ...changes } : c)
+    }));
+  };
+
+  const updateLevel = (criterion: RubricCriterion, levelIndex: number, changes: Partial<RubricLevel>) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map((level, i) => i === levelIndex ? { ...level, ...changes } : level)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      toast({ title: "Error", description: "Give the rubric a name.", variant: "destructive" });
+      return;
+    }
+    if (draft.criteria.some(c => !c.name.trim() || c.levels.length === 0)) {
+      toast({ title: "Error", description: "Every criterion needs a name and at least one level.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await RubricService.saveRubric(draft);
+      toast({ title: "Rubric saved", description: `"${saved.name}" is worth ${saved.totalPoints} points.` });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving rubric:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save rubric",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rubric?.id ? 'Edit Rubric' : 'New Rubric'}</DialogTitle>
+          <DialogDescription>
+            Rubrics are saved to your library and can be attached to essay and short-answer questions on any exam.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rubric-name">Name</Label>
+              <Input
+                id="rubric-name"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Argumentative Essay"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rubric-subject">Subject</Label>
+              <Input
+                id="rubric-subject"
+                value={draft.subject || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          {draft.criteria.map((criterion, criterionIndex) => (
+            <div key={criterion.id} className="border rounded p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-500 shrink-0">Criterion {criterionIndex + 1}</span>
+                <Input
+                  value={criterion.name}
+                  onChange={(e) => updateCriterion(criterion.id, { name: e.target.value })}
+                  placeholder="e.g. Use of evidence"
+                  className="h-8"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={draft.criteria.length === 1}
+                  onClick={() => setDraft(prev => ({ ...prev, criteria: prev.criteria.filter(c => c.id !== criterion.id) }))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                value={criterion.description}
+                onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                placeholder="What this criterion measures"
+                rows={2}
+              />
+              <div className="flex items-center gap-2">
+                <Input
+                  value={criterion.skillName || ''}
+                  onChange={(e) => updateCriterion(criterion.id, { skillName: e.target.value || undefined })}
+                  placeholder="Linked skill (optional)"
+                  className="h-8"
+                />
+                <Select
+                  value={criterion.skillType || 'content'}
+                  onValueChange={(value) => updateCriterion(criterion.id, { skillType: value as RubricCriterion['skillType'] })}
+                >
+                  <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="content">Content skill</SelectItem>
+                    <SelectItem value="subject">Subject skill</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                {criterion.levels.map((level, levelIndex) => (
+                  <div key={levelIndex} className="grid grid-cols-[8rem_4rem_1fr_1fr_auto] gap-2 items-start">
+                    <Input
+                      value={level.label}
+                      onChange={(e) => updateLevel(criterion, levelIndex, { label: e.target.value })}
+                      placeholder="Level"
+                      className="h-8"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      value={level.points}
+                      onChange={(e) => updateLevel(criterion, levelIndex, { points: Math.max(0, Number(e.target.value) || 0) })}
+                      className="h-8"
+                    />
+                    <Input
+                      value={level.description}
+                      onChange={(e) => updateLevel(criterion, levelIndex, { description: e.target.value })}
+                      placeholder="Descriptor"
+                      className="h-8"
+                    />
+                    <Input
+                      value={level.exemplar || ''}
+                      onChange={(e) => updateLevel(criterion, levelIndex, { exemplar: e.target.value || undefined })}
+                      placeholder="Exemplar answer (optional)"
+                      className="h-8"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8"
+                      disabled={criterion.levels.length === 1}
+                      onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateCriterion(criterion.id, { levels: [...criterion.levels, { label: '', points: 0, description: '' }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Level
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(prev => ({ ...prev, criteria: [...prev.criteria, RubricService.createCriterion()] }))}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Criterion
+            </Button>
+            <span className="text-sm text-gray-600">
+              Total: {RubricService.calculateTotalPoints(draft.criteria)} points
+            </span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Rubric'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
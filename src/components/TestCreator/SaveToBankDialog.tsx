@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { QuestionBankService, type QuestionBankItem, type QuestionDifficulty } from "@/services/questionBankService";
+import {
+  getLinkedContentSkillsForClass,
+  getLinkedSubjectSkillsForClass,
+  type ActiveClass
+} from "@/services/examService";
+import type { Question } from "@/utils/pdfGenerator";
+
+interface SaveToBankDialogProps {
+  question: Question | null;
+  classes: ActiveClass[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: (item: QuestionBankItem) => void;
+}
+
+const splitTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+export const SaveToBankDialog = ({ question, classes, onOpenChange, onSaved }: SaveToBankDialogProps) => {
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty | undefined>();
+  const [classId, setClassId] = useState('');
+  const [classSkills, setClassSkills] = useState<{ content: string[]; subject: string[] }>({ content: [], subject: [] });
+  const [contentSkillTags, setContentSkillTags] = useState<string[]>([]);
+  const [subjectSkillTags, setSubjectSkillTags] = useState<string[]>([]);
+  const [extraContentSkills, setExtraContentSkills] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Updating an existing item keeps its tags unless the teacher changes them
+  useEffect(() => {
+    if (!question) return;
+
+    setDifficulty(undefined);
+    setContentSkillTags([]);
+    setSubjectSkillTags([]);
+    setExtraContentSkills('');
+
+    if (question.bankItemId) {
+      QuestionBankService.getItem(question.bankItemId)
+        .then(item => {
+          if (!item) return;
+          setDifficulty(item.difficulty);
+          setContentSkillTags(item.contentSkillTags);
+          setSubjectSkillTags(item.subjectSkillTags);
+        })
+        .catch(error => console.error('Error loading question bank item:', error));
+    }
+  }, [question]);
+
+  useEffect(() => {
+    if (!classId) {
+      setClassSkills({ content: [], subject: [] });
+      return;
+    }
+
+    Promise.all([getLinkedContentSkillsForClass(classId), getLinkedSubjectSkillsForClass(classId)])
+      .then(([content, subject]) => setClassSkills({
+        content: content.map(skill => skill.skill_name),
+        subject: subject.map(skill => skill.skill_name)
+      }))
+      .catch(error => console.error('Error loading class skills:', error));
+  }, [classId]);
+
+  const toggleTag = (tags: string[], setTags: (tags: string[]) => void, tag: string, checked: boolean) => {
+    setTags(checked ? [...tags, tag] : tags.filter(existing => existing !== tag));
+  };
+
+  const handleSave = async () => {
+    if (!question) return;
+
+    const selectedClass = classes.find(c => c.id === classId);
+    setSaving(true);
+    try {
+      const saved = await QuestionBankService.saveItem(QuestionBankService.fromQuestion(question, {
+        difficulty,
+        subject: selectedClass?.subject,
+        grade: selectedClass?.grade,
+        contentSkillTags: [...new Set([...contentSkillTags, ...splitTags(extraContentSkills)])],
+        subjectSkillTags
+      }));
+      toast({
+        title: question.bankItemId ? "Question bank updated" : "Saved to question bank",
+        description: "The question can now be added to any exam."
+      });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving to question bank:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save to the question bank",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderSkillGroup = (label: string, skills: string[], tags: string[], setTags: (tags: string[]) => void) => {
+    // Tags already on the item stay visible even when the chosen class doesn't link them
+    const shown = [...new Set([...skills, ...tags])];
+    if (shown.length === 0) return null;
+
+    return (
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border rounded p-2">
+          {shown.map(skill => (
+            <div key={skill} className="flex items-center gap-2">
+              <Checkbox
+                id={`${label}-${skill}`}
+                checked={tags.includes(skill)}
+                onCheckedChange={(checked) => toggleTag(tags, setTags, skill, checked === true)}
+              />
+              <Label htmlFor={`${label}-${skill}`} className="text-sm font-normal">{skill}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={question !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{question?.bankItemId ? 'Update Question Bank Item' : 'Save to Question Bank'}</DialogTitle>
+          <DialogDescription>
+            Tag the question with skills and a difficulty so it is easy to find for future exams.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select value={difficulty || ''} onValueChange={(value) => setDifficulty(value as QuestionDifficulty)}>
+                <SelectTrigger><SelectValue placeholder="Not set" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">Easy</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="hard">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Skills from class</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger><SelectValue placeholder="Choose a class" /></SelectTrigger>
+                <SelectContent>
+                  {classes.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name} ({c.subject}, {c.grade})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {renderSkillGroup('Content skills', classSkills.content, contentSkillTags, setContentSkillTags)}
+          {renderSkillGroup('Subject skills', classSkills.subject, subjectSkillTags, setSubjectSkillTags)}
+
+          <div className="space-y-2">
+            <Label htmlFor="bank-extra-skills">Other content skills</Label>
+            <Input
+              id="bank-extra-skills"
+              value={extraContentSkills}
+              onChange={(e) => setExtraContentSkills(e.target.value)}
+              placeholder="Comma-separated skill names"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save to Bank'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Compass, Flame, Trophy, Target, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_BASELINE_SCORE,
+  TrailblazerService,
+  type TrailblazerAchievement,
+  type TrailblazerMisconception,
+  type TrailblazerSession,
+  type TrailblazerStreak
+} from "@/services/trailblazerService";
+import type { ActiveClass, SkillScore } from "@/services/examService";
+import type { GoalSkillType } from "@/services/goalService";
+
+interface TrailblazerPanelProps {
+  userId: string;
+  enrolledClasses: ActiveClass[];
+  skills: Array<{ skill: SkillScore; skillType: GoalSkillType }>;
+}
+
+const DURATION_OPTIONS = [10, 15, 20, 30];
+
+export function TrailblazerPanel({ userId, enrolledClasses, skills }: TrailblazerPanelProps) {
+  const navigate = useNavigate();
+  const [streak, setStreak] = useState<TrailblazerStreak | null>(null);
+  const [achievements, setAchievements] = useState<TrailblazerAchievement[]>([]);
+  const [recentSessions, setRecentSessions] = useState<TrailblazerSession[]>([]);
+  const [misconceptions, setMisconceptions] = useState<TrailblazerMisconception[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState('');
+  const [selectedConcept, setSelectedConcept] = useState('');
+  const [duration, setDuration] = useState('15');
+  const [starting, setStarting] = useState(false);
+
+  const loadTrailblazerData = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [currentStreak, unlocked, sessions, openMisconceptions] = await Promise.all([
+        TrailblazerService.getStreak(userId),
+        TrailblazerService.getAchievements(userId),
+        TrailblazerService.getRecentSessions(userId),
+        TrailblazerService.getOpenMisconceptions(userId)
+      ]);
+      setStreak(currentStreak);
+      setAchievements(unlocked);
+      setRecentSessions(sessions);
+      setMisconceptions(openMisconceptions);
+    } catch (error) {
+      console.error('Error loading Trailblazer data:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadTrailblazerData();
+  }, [loadTrailblazerData]);
+
+  useEffect(() => {
+    if (!selectedClassId && enrolledClasses.length > 0) {
+      setSelectedClassId(enrolledClasses[0].id);
+    }
+  }, [enrolledClasses, selectedClassId]);
+
+  const getBaselineScore = (concept: string) =>
+    skills.find(({ skill }) => skill.skill_name === concept)?.skill.score ?? DEFAULT_BASELINE_SCORE;
+
+  const startSession = async (concept: string, misconception?: TrailblazerMisconception) => {
+    const activeClass = enrolledClasses.find(cls => cls.id === selectedClassId);
+    if (!activeClass) {
+      toast.error('Choose a class for this session');
+      return;
+    }
+
+    setStarting(true);
+    try {
+      const session = await TrailblazerService.startSession({
+        userId,
+        classId: activeClass.id,
+        subject: activeClass.subject,
+        grade: activeClass.grade,
+        focusConcept: concept,
+        goalType: misconception ? 'misconception_repair' : 'concept_practice',
+        durationMinutes: parseInt(duration),
+        baselineScore: getBaselineScore(concept),
+        misconceptionIds: misconception ? [misconception.id] : []
+      });
+      navigate(`/student-dashboard/trailblazer/${session.id}`);
+    } catch (error) {
+      console.error('Error starting Trailblazer session:', error);
+      toast.error('Failed to start session. Please try again.');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const topMisconception = misconceptions[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Compass className="h-5 w-5 text-emerald-600" />
+            Trailblazer
+          </span>
+          <div className="flex items-center gap-2">
+            <Badge className="bg-orange-100 text-orange-800">
+              <Flame className="h-3 w-3 mr-1" />
+              {streak?.current_streak_days || 0}-day streak
+            </Badge>
+            <Badge variant="outline">
+              <Trophy className="h-3 w-3 mr-1" />
+              {achievements.length}
+            </Badge>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-600">
+          Pick one concept and focus on it for a short, timed session. Study every day to grow your streak.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Class</Label>
+            <Select value={selectedClassId} onValueChange={setSelectedClassId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a class" />
+              </SelectTrigger>
+              <SelectContent>
+                {enrolledClasses.map(cls => (
+                  <SelectItem key={cls.id} value={cls.id}>{cls.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Session length</Label>
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {topMisconception && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+            <div className="flex items-center gap-2 text-amber-800 font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              Your trail today: {topMisconception.concept}
+            </div>
+            <p className="text-sm text-amber-700">
+              You keep running into "{topMisconception.misconception_name}". A focused session can clear it up.
+            </p>
+            <Button
+              size="sm"
+              className="bg-amber-600 hover:bg-amber-700"
+              disabled={starting || !selectedClassId}
+              onClick={() => startSession(topMisconception.concept, topMisconception)}
+            >
+              Start assigned session
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <Select value={selectedConcept} onValueChange={setSelectedConcept}>
+            <SelectTrigger className="md:flex-1">
+              <SelectValue placeholder="Or pick a concept to focus on" />
+            </SelectTrigger>
+            <SelectContent>
+              {skills.map(({ skill, skillType }) => (
+                <SelectItem key={`${skillType}-${skill.skill_name}`} value={skill.skill_name}>
+                  {skill.skill_name} ({Math.round(skill.score)}%)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={starting || !selectedConcept || !selectedClassId}
+            onClick={() => startSession(selectedConcept)}
+            className="bg-emerald-600 hover:bg-emerald-700"
+          >
+            <Target className="h-4 w-4 mr-2" />
+            Start session
+          </Button>
+        </div>
+
+        {streak && streak.total_sessions > 0 && (
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xl font-bold">{streak.total_sessions}</div>
+              <div className="text-xs text-gray-600">Sessions</div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xl font-bold">{streak.longest_streak_days}</div>
+              <div className="text-xs text-gray-600">Longest streak</div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xl font-bold">
+                {recentSessions.filter(session => session.status === 'completed').length}
+              </div>
+              <div className="text-xs text-gray-600">Recent completed</div>
+            </div>
+          </div>
+        )}
+
+        {recentSessions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-700">Recent sessions</h4>
+            {recentSessions.map(session => (
+              <div key={session.id} className="flex items-center justify-between p-2 border rounded text-sm">
+                <div>
+                  <span className="font-medium">{session.focus_concept}</span>
+                  <span className="text-gray-500 ml-2">
+                    {session.session_date && new Date(session.session_date).toLocaleDateString()}
+                  </span>
+                </div>
+                {session.status === 'completed' ? (
+                  <Badge className={(session.score_improvement || 0) >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                    {(session.score_improvement || 0) >= 0 ? '+' : ''}{Math.round(session.score_improvement || 0)} pts
+                  </Badge>
+                ) : session.status === 'in_progress' ? (
+                  <Button size="sm" variant="outline" onClick={() => navigate(`/student-dashboard/trailblazer/${session.id}`)}>
+                    Resume
+                  </Button>
+                ) : (
+                  <Badge variant="outline">{session.status}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {achievements.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-700">Achievements</h4>
+            <div className="flex flex-wrap gap-2">
+              {achievements.map(achievement => (
+                <Badge key={achievement.id} variant="secondary" title={achievement.description || undefined}>
+                  <Trophy className="h-3 w-3 mr-1 text-yellow-600" />
+                  {achievement.achievement_name}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
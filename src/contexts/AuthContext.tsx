@@ -6,7 +6,7 @@ import { toast } from 'sonner';
 import { DEV_CONFIG, MOCK_USER_DATA } from '@/config/devConfig';
 import { useDevRole } from '@/contexts/DevRoleContext';
 
-export type UserRole = 'teacher' | 'student';
+export type UserRole = 'teacher' | 'student' | 'guardian';
 
 export interface UserProfile {
   id: string;
@@ -143,7 +143,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       const successMessage = role === 'teacher' 
         ? 'Teacher account created successfully! A unique teacher ID has been assigned. Please check your email to verify your account.'
-        : 'Account created successfully! Please check your email to verify your account.';
+        : role === 'guardian'
+          ? 'Guardian account created! Verify your email, then enter the invite code from your student or their teacher.'
+          : 'Account created successfully! Please check your email to verify your account.';
       
       toast.success(successMessage);
       return { error: null };
@@ -3,18 +3,30 @@ import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/AuthContext";
 import { AuthenticatedStudentService } from "@/services/authenticatedStudentService";
 import { getActiveClassById } from "@/services/examService";
+import { GoalService } from "@/services/goalService";
+import { GuardianService } from "@/services/guardianService";
 
 interface UseAuthenticatedStudentDataProps {
   classId?: string;
+  linkedStudentId?: string; // Guardians: a linked student's profile id, read through the link-checked overview
 }
 
 /**
  * Hook for fetching student data using authenticated user IDs
  * This is part of Phase 3 migration - replaces useStudentProfileData for authenticated users
  */
-export function useAuthenticatedStudentData({ classId }: UseAuthenticatedStudentDataProps = {}) {
+export function useAuthenticatedStudentData({ classId, linkedStudentId }: UseAuthenticatedStudentDataProps = {}) {
   const { user, profile } = useAuth();
-  const authenticatedUserId = user?.id;
+  const isGuardianView = !!linkedStudentId;
+  const authenticatedUserId = isGuardianView ? undefined : user?.id;
+
+  // Guardians get everything in one call that checks the link first
+  const { data: guardianOverview, isLoading: guardianOverviewLoading } = useQuery({
+    queryKey: ['guardianStudentOverview', linkedStudentId],
+    queryFn: () => GuardianService.getStudentOverview(linkedStudentId as string),
+    enabled: isGuardianView,
+    staleTime: 5 * 60 * 1000, // 5 minutes cache
+  });
 
   // Fetch class data if classId is provided
   const { data: classData, isLoading: classLoading } = useQuery({
@@ -55,17 +67,50 @@ export function useAuthenticatedStudentData({ classId }: UseAuthenticatedStudent
     staleTime: 10 * 60 * 1000, // 10 minutes cache for classes
   });
 
+  // Fetch practice sessions using authenticated user ID
+  const { data: practiceSessions = [], isLoading: practiceSessionsLoading } = useQuery({
+    queryKey: ['authenticatedUserPracticeSessions', authenticatedUserId],
+    queryFn: () => authenticatedUserId ? AuthenticatedStudentService.getPracticeSessions(authenticatedUserId) : Promise.resolve([]),
+    enabled: !!authenticatedUserId,
+    staleTime: 5 * 60 * 1000, // 5 minutes cache
+  });
+
+  // Fetch goals using authenticated user ID
+  const { data: goals = [], isLoading: goalsLoading } = useQuery({
+    queryKey: ['authenticatedUserGoals', authenticatedUserId],
+    queryFn: () => authenticatedUserId ? GoalService.getStudentGoals(authenticatedUserId) : Promise.resolve([]),
+    enabled: !!authenticatedUserId,
+    staleTime: 5 * 60 * 1000, // 5 minutes cache
+  });
+
+  const studentData = guardianOverview ? {
+    testResults: guardianOverview.testResults,
+    contentSkillScores: guardianOverview.contentSkillScores,
+    subjectSkillScores: guardianOverview.subjectSkillScores,
+    enrolledClasses: guardianOverview.enrolledClasses,
+    practiceSessions: guardianOverview.practiceSessions,
+    goals: guardianOverview.goals
+  } : isGuardianView ? {
+    testResults: [],
+    contentSkillScores: [],
+    subjectSkillScores: [],
+    enrolledClasses: [],
+    practiceSessions: [],
+    goals: []
+  } : { testResults, contentSkillScores, subjectSkillScores, enrolledClasses, practiceSessions, goals };
+
   console.log('🔄 useAuthenticatedStudentData summary:', {
     authenticatedUserId,
+    linkedStudentId,
     userEmail: user?.email,
     profileName: profile?.full_name,
-    testResultsCount: testResults.length,
-    contentSkillScoresCount: contentSkillScores.length,
-    subjectSkillScoresCount: subjectSkillScores.length,
-    enrolledClassesCount: enrolledClasses.length,
+    testResultsCount: studentData.testResults.length,
+    contentSkillScoresCount: studentData.contentSkillScores.length,
+    subjectSkillScoresCount: studentData.subjectSkillScores.length,
+    enrolledClassesCount: studentData.enrolledClasses.length,
     classId,
     className: classData?.name,
-    isAuthenticated: !!authenticatedUserId
+    isAuthenticated: !!user?.id
   });
 
   return {
@@ -79,18 +124,19 @@ export function useAuthenticatedStudentData({ classId }: UseAuthenticatedStudent
     classLoading,
     
     // Student data
-    testResults,
-    testResultsLoading,
-    contentSkillScores,
-    contentSkillsLoading,
-    subjectSkillScores,
-    subjectSkillsLoading,
-    enrolledClasses,
-    enrolledClassesLoading,
+    ...studentData,
+    testResultsLoading: testResultsLoading || guardianOverviewLoading,
+    contentSkillsLoading: contentSkillsLoading || guardianOverviewLoading,
+    subjectSkillsLoading: subjectSkillsLoading || guardianOverviewLoading,
+    enrolledClassesLoading: enrolledClassesLoading || guardianOverviewLoading,
+    practiceSessionsLoading: practiceSessionsLoading || guardianOverviewLoading,
+    goalsLoading: goalsLoading || guardianOverviewLoading,
+    studentName: guardianOverview?.studentName,
     
     // Utility flags
-    isAuthenticated: !!authenticatedUserId,
-    isLoading: contentSkillsLoading || subjectSkillsLoading || testResultsLoading || (classId ? classLoading : false),
-    hasData: contentSkillScores.length > 0 || subjectSkillScores.length > 0 || testResults.length > 0
+    isAuthenticated: !!user?.id,
+    isGuardianView,
+    isLoading: contentSkillsLoading || subjectSkillsLoading || testResultsLoading || guardianOverviewLoading || (classId ? classLoading : false),
+    hasData: studentData.contentSkillScores.length > 0 || studentData.subjectSkillScores.length > 0 || studentData.testResults.length > 0
   };
 }
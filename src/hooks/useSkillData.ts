@@ -321,9 +321,20 @@ export function useSkillData({
     return grouped;
   }, [comprehensiveSkillData, classContentSkills, isClassView, isGrade10MathClass, isGrade10ScienceClass]);
 
+  // Tested skills ordered from weakest to strongest, used to suggest student goals
+  const weakestSkills = useMemo(() => {
+    const isTested = (skill: SkillScore) => !skill.id.startsWith('placeholder-');
+
+    return [
+      ...comprehensiveSkillData.filter(isTested).map(skill => ({ skill, skillType: 'content' as const })),
+      ...comprehensiveSubjectSkillData.filter(isTested).map(skill => ({ skill, skillType: 'subject' as const }))
+    ].sort((a, b) => a.skill.score - b.skill.score);
+  }, [comprehensiveSkillData, comprehensiveSubjectSkillData]);
+
   return {
     comprehensiveSkillData,
     comprehensiveSubjectSkillData,
-    groupedSkills
+    groupedSkills,
+    weakestSkills
   };
 }
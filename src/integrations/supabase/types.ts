@@ -15,10 +15,13 @@ export type Database = {
           class_time: string | null
           created_at: string
           day_of_week: string[] | null
+          department: string | null
           end_time: string | null
           grade: string
           id: string
           name: string
+          roster_source_id: string | null
+          school_id: string | null
           student_count: number | null
           students: string[] | null
           subject: string
@@ -31,10 +34,13 @@ export type Database = {
           class_time?: string | null
           created_at?: string
           day_of_week?: string[] | null
+          department?: string | null
           end_time?: string | null
           grade: string
           id?: string
           name: string
+          roster_source_id?: string | null
+          school_id?: string | null
           student_count?: number | null
           students?: string[] | null
           subject: string
@@ -47,10 +53,13 @@ export type Database = {
           class_time?: string | null
           created_at?: string
           day_of_week?: string[] | null
+          department?: string | null
           end_time?: string | null
           grade?: string
           id?: string
           name?: string
+          roster_source_id?: string | null
+          school_id?: string | null
           student_count?: number | null
           students?: string[] | null
           subject?: string
@@ -58,7 +67,15 @@ export type Database = {
           teacher_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "active_classes_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       active_students: {
         Row: {
@@ -68,6 +85,7 @@ export type Database = {
           id: string
           major: string | null
           name: string
+          student_profile_id: string | null
           updated_at: string
           year: string | null
         }
@@ -78,6 +96,7 @@ export type Database = {
           id?: string
           major?: string | null
           name: string
+          student_profile_id?: string | null
           updated_at?: string
           year?: string | null
         }
@@ -88,10 +107,19 @@ export type Database = {
           id?: string
           major?: string | null
           name?: string
+          student_profile_id?: string | null
           updated_at?: string
           year?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "active_students_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       adaptive_learning_metrics: {
         Row: {
@@ -294,6 +322,44 @@ export type Database = {
           },
         ]
       }
+      ai_budgets: {
+        Row: {
+          created_at: string
+          id: string
+          monthly_limit_usd: number
+          school_id: string | null
+          teacher_id: string | null
+          updated_at: string
+          warning_threshold: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          monthly_limit_usd: number
+          school_id?: string | null
+          teacher_id?: string | null
+          updated_at?: string
+          warning_threshold?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          monthly_limit_usd?: number
+          school_id?: string | null
+          teacher_id?: string | null
+          updated_at?: string
+          warning_threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_budgets_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_prompt_personality: {
         Row: {
           created_at: string | null
@@ -321,9 +387,52 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_usage_ledger: {
+        Row: {
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          exam_id: string | null
+          id: string
+          model: string
+          prompt_tokens: number
+          provider: string
+          service: string
+          teacher_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          exam_id?: string | null
+          id?: string
+          model: string
+          prompt_tokens?: number
+          provider: string
+          service: string
+          teacher_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          exam_id?: string | null
+          id?: string
+          model?: string
+          prompt_tokens?: number
+          provider?: string
+          service?: string
+          teacher_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       answer_keys: {
         Row: {
           acceptable_answers: Json | null
+          answer_spec: Json | null
           choice_misconceptions: Json | null
           correct_answer: string
           created_at: string
@@ -334,12 +443,15 @@ export type Database = {
           options: Json | null
           points: number
           practice_exercise_id: string | null
+          question_bank_item_id: string | null
           question_number: number
           question_text: string
           question_type: string
+          rubric_id: string | null
         }
         Insert: {
           acceptable_answers?: Json | null
+          answer_spec?: Json | null
           choice_misconceptions?: Json | null
           correct_answer: string
           created_at?: string
@@ -350,12 +462,15 @@ export type Database = {
           options?: Json | null
           points?: number
           practice_exercise_id?: string | null
+          question_bank_item_id?: string | null
           question_number: number
           question_text: string
           question_type: string
+          rubric_id?: string | null
         }
         Update: {
           acceptable_answers?: Json | null
+          answer_spec?: Json | null
           choice_misconceptions?: Json | null
           correct_answer?: string
           created_at?: string
@@ -366,9 +481,11 @@ export type Database = {
           options?: Json | null
           points?: number
           practice_exercise_id?: string | null
+          question_bank_item_id?: string | null
           question_number?: number
           question_text?: string
           question_type?: string
+          rubric_id?: string | null
         }
         Relationships: [
           {
@@ -385,6 +502,20 @@ export type Database = {
             referencedRelation: "student_exercises"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "answer_keys_question_bank_item_id_fkey"
+            columns: ["question_bank_item_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "answer_keys_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
         ]
       }
       api_rate_limits: {
@@ -411,15 +542,83 @@ export type Database = {
         }
         Relationships: []
       }
+      assignment_submissions: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          feedback: string | null
+          graded_at: string | null
+          id: string
+          score: number | null
+          status: string
+          student_id: string
+          submitted_at: string
+          test_result_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          feedback?: string | null
+          graded_at?: string | null
+          id?: string
+          score?: number | null
+          status?: string
+          student_id: string
+          submitted_at?: string
+          test_result_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          feedback?: string | null
+          graded_at?: string | null
+          id?: string
+          score?: number | null
+          status?: string
+          student_id?: string
+          submitted_at?: string
+          test_result_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_submissions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_submissions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_submissions_test_result_id_fkey"
+            columns: ["test_result_id"]
+            isOneToOne: false
+            referencedRelation: "test_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assignments: {
         Row: {
           assignment_type: string | null
           class_id: string | null
+          content_data: Json | null
           created_at: string | null
           description: string | null
           due_date: string | null
+          exam_id: string | null
           id: string
           is_active: boolean | null
+          lesson_plan_id: string | null
+          student_link_id: string | null
           teacher_id: string | null
           title: string
           updated_at: string | null
@@ -427,11 +626,15 @@ export type Database = {
         Insert: {
           assignment_type?: string | null
           class_id?: string | null
+          content_data?: Json | null
           created_at?: string | null
           description?: string | null
           due_date?: string | null
+          exam_id?: string | null
           id?: string
           is_active?: boolean | null
+          lesson_plan_id?: string | null
+          student_link_id?: string | null
           teacher_id?: string | null
           title: string
           updated_at?: string | null
@@ -439,11 +642,15 @@ export type Database = {
         Update: {
           assignment_type?: string | null
           class_id?: string | null
+          content_data?: Json | null
           created_at?: string | null
           description?: string | null
           due_date?: string | null
+          exam_id?: string | null
           id?: string
           is_active?: boolean | null
+          lesson_plan_id?: string | null
+          student_link_id?: string | null
           teacher_id?: string | null
           title?: string
           updated_at?: string | null
@@ -477,6 +684,83 @@ export type Database = {
             referencedRelation: "teacher_profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "assignments_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["exam_id"]
+          },
+          {
+            foreignKeyName: "assignments_lesson_plan_id_fkey"
+            columns: ["lesson_plan_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_student_link_id_fkey"
+            columns: ["student_link_id"]
+            isOneToOne: false
+            referencedRelation: "student_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_events: {
+        Row: {
+          action: string
+          client_event_id: string
+          created_at: string
+          details: Json
+          id: string
+          ip_address: string | null
+          occurred_at: string
+          resource: string
+          risk_score: number
+          session_id: string | null
+          success: boolean
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          client_event_id: string
+          created_at?: string
+          details?: Json
+          id?: string
+          ip_address?: string | null
+          occurred_at?: string
+          resource: string
+          risk_score?: number
+          session_id?: string | null
+          success?: boolean
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          client_event_id?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          ip_address?: string | null
+          occurred_at?: string
+          resource?: string
+          risk_score?: number
+          session_id?: string | null
+          success?: boolean
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       class_content_skills: {
@@ -598,6 +882,44 @@ export type Database = {
           },
         ]
       }
+      class_members: {
+        Row: {
+          added_by: string | null
+          class_id: string
+          created_at: string
+          id: string
+          permission: string
+          teacher_id: string
+          updated_at: string
+        }
+        Insert: {
+          added_by?: string | null
+          class_id: string
+          created_at?: string
+          id?: string
+          permission?: string
+          teacher_id: string
+          updated_at?: string
+        }
+        Update: {
+          added_by?: string | null
+          class_id?: string
+          created_at?: string
+          id?: string
+          permission?: string
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_members_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "active_classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       class_sessions: {
         Row: {
           class_id: string
@@ -688,6 +1010,79 @@ export type Database = {
           },
         ]
       }
+      class_transfers: {
+        Row: {
+          class_id: string
+          created_at: string
+          from_teacher_id: string | null
+          id: string
+          kept_access: boolean
+          to_teacher_id: string
+          transferred_by: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          from_teacher_id?: string | null
+          id?: string
+          kept_access?: boolean
+          to_teacher_id: string
+          transferred_by: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          from_teacher_id?: string | null
+          id?: string
+          kept_access?: boolean
+          to_teacher_id?: string
+          transferred_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_transfers_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "active_classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_reports: {
+        Row: {
+          generated_at: string
+          id: string
+          period_end: string
+          period_start: string
+          report: Json
+          user_id: string | null
+        }
+        Insert: {
+          generated_at?: string
+          id?: string
+          period_end: string
+          period_start: string
+          report: Json
+          user_id?: string | null
+        }
+        Update: {
+          generated_at?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          report?: Json
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_reports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       concept_index: {
         Row: {
           concept_name: string
@@ -1021,7 +1416,78 @@ export type Database = {
           recovery_strategy?: string
           total_recovery_time_ms?: number | null
         }
-        Relationships: []
+        Relationships: []
+      }
+      error_reports: {
+        Row: {
+          browser_info: Json
+          category: string
+          client_report_id: string
+          context: Json
+          created_at: string
+          device_info: Json
+          error_code: string
+          file_name: string | null
+          id: string
+          message: string
+          occurred_at: string
+          session_id: string | null
+          severity: string
+          stack_trace: string | null
+          suggestions: string[]
+          system_health: Json
+          user_actions: Json
+          user_id: string | null
+        }
+        Insert: {
+          browser_info?: Json
+          category: string
+          client_report_id: string
+          context?: Json
+          created_at?: string
+          device_info?: Json
+          error_code: string
+          file_name?: string | null
+          id?: string
+          message: string
+          occurred_at?: string
+          session_id?: string | null
+          severity: string
+          stack_trace?: string | null
+          suggestions?: string[]
+          system_health?: Json
+          user_actions?: Json
+          user_id?: string | null
+        }
+        Update: {
+          browser_info?: Json
+          category?: string
+          client_report_id?: string
+          context?: Json
+          created_at?: string
+          device_info?: Json
+          error_code?: string
+          file_name?: string | null
+          id?: string
+          message?: string
+          occurred_at?: string
+          session_id?: string | null
+          severity?: string
+          stack_trace?: string | null
+          suggestions?: string[]
+          system_health?: Json
+          user_actions?: Json
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "error_reports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       escalation_outcomes: {
         Row: {
@@ -1297,7 +1763,10 @@ export type Database = {
           completed_at: string | null
           created_at: string
           error_message: string | null
+          extract_result: Json | null
           file_group_data: Json
+          file_name: string | null
+          grading_job_id: string | null
           id: string
           max_retries: number
           priority: string
@@ -1313,7 +1782,10 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
+          extract_result?: Json | null
           file_group_data: Json
+          file_name?: string | null
+          grading_job_id?: string | null
           id?: string
           max_retries?: number
           priority?: string
@@ -1329,7 +1801,10 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           error_message?: string | null
+          extract_result?: Json | null
           file_group_data?: Json
+          file_name?: string | null
+          grading_job_id?: string | null
           id?: string
           max_retries?: number
           priority?: string
@@ -1341,7 +1816,15 @@ export type Database = {
           updated_at?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "file_jobs_grading_job_id_fkey"
+            columns: ["grading_job_id"]
+            isOneToOne: false
+            referencedRelation: "grading_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       goal_achievements: {
         Row: {
@@ -1482,6 +1965,141 @@ export type Database = {
         }
         Relationships: []
       }
+      grade_overrides: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          new_points: number
+          overridden_by: string
+          points_possible: number
+          previous_points: number
+          question_number: number
+          reason: string
+          test_result_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          new_points: number
+          overridden_by: string
+          points_possible: number
+          previous_points: number
+          question_number: number
+          reason: string
+          test_result_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          new_points?: number
+          overridden_by?: string
+          points_possible?: number
+          previous_points?: number
+          question_number?: number
+          reason?: string
+          test_result_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_overrides_test_result_id_fkey"
+            columns: ["test_result_id"]
+            isOneToOne: false
+            referencedRelation: "test_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gradebook_export_templates: {
+        Row: {
+          columns: Json
+          created_at: string
+          id: string
+          name: string
+          score_decimals: number
+          teacher_id: string
+          updated_at: string
+        }
+        Insert: {
+          columns?: Json
+          created_at?: string
+          id?: string
+          name: string
+          score_decimals?: number
+          teacher_id: string
+          updated_at?: string
+        }
+        Update: {
+          columns?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          score_decimals?: number
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      gradebook_exports: {
+        Row: {
+          changes_only: boolean
+          class_id: string
+          exam_id: string | null
+          exported_at: string
+          format: string
+          id: string
+          row_count: number
+          teacher_id: string
+          template_id: string | null
+        }
+        Insert: {
+          changes_only?: boolean
+          class_id: string
+          exam_id?: string | null
+          exported_at?: string
+          format: string
+          id?: string
+          row_count?: number
+          teacher_id: string
+          template_id?: string | null
+        }
+        Update: {
+          changes_only?: boolean
+          class_id?: string
+          exam_id?: string | null
+          exported_at?: string
+          format?: string
+          id?: string
+          row_count?: number
+          teacher_id?: string
+          template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gradebook_exports_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "active_classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gradebook_exports_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["exam_id"]
+          },
+          {
+            foreignKeyName: "gradebook_exports_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "gradebook_export_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       grading_jobs: {
         Row: {
           completed_at: string | null
@@ -1533,6 +2151,142 @@ export type Database = {
         }
         Relationships: []
       }
+      guardian_digests: {
+        Row: {
+          created_at: string
+          guardian_id: string
+          id: string
+          student_profile_id: string
+          summary: Json
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          guardian_id: string
+          id?: string
+          student_profile_id: string
+          summary: Json
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          guardian_id?: string
+          id?: string
+          student_profile_id?: string
+          summary?: Json
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_digests_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_data_transition"
+            referencedColumns: ["student_profile_id"]
+          },
+          {
+            foreignKeyName: "guardian_digests_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guardian_invites: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          redeemed_at: string | null
+          redeemed_by: string | null
+          student_profile_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by: string
+          expires_at?: string
+          id?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          student_profile_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          redeemed_at?: string | null
+          redeemed_by?: string | null
+          student_profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_invites_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_data_transition"
+            referencedColumns: ["student_profile_id"]
+          },
+          {
+            foreignKeyName: "guardian_invites_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guardian_links: {
+        Row: {
+          created_at: string
+          guardian_id: string
+          id: string
+          invite_id: string | null
+          student_profile_id: string
+        }
+        Insert: {
+          created_at?: string
+          guardian_id: string
+          id?: string
+          invite_id?: string | null
+          student_profile_id: string
+        }
+        Update: {
+          created_at?: string
+          guardian_id?: string
+          id?: string
+          invite_id?: string | null
+          student_profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guardian_links_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "guardian_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guardian_links_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_data_transition"
+            referencedColumns: ["student_profile_id"]
+          },
+          {
+            foreignKeyName: "guardian_links_student_profile_id_fkey"
+            columns: ["student_profile_id"]
+            isOneToOne: false
+            referencedRelation: "student_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       job_failures: {
         Row: {
           context: Json | null
@@ -2394,8 +3148,103 @@ export type Database = {
             foreignKeyName: "notifications_sender_id_fkey"
             columns: ["sender_id"]
             isOneToOne: false
-            referencedRelation: "teacher_profiles"
-            referencedColumns: ["user_id"]
+            referencedRelation: "teacher_profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      ocr_corrections: {
+        Row: {
+          corrected_value: string
+          created_at: string
+          exam_id: string | null
+          field: string
+          file_name: string | null
+          id: string
+          ocr_method: string
+          original_confidence: number | null
+          original_value: string | null
+          question_number: number | null
+          student_name: string | null
+          teacher_id: string
+        }
+        Insert: {
+          corrected_value: string
+          created_at?: string
+          exam_id?: string | null
+          field: string
+          file_name?: string | null
+          id?: string
+          ocr_method: string
+          original_confidence?: number | null
+          original_value?: string | null
+          question_number?: number | null
+          student_name?: string | null
+          teacher_id: string
+        }
+        Update: {
+          corrected_value?: string
+          created_at?: string
+          exam_id?: string | null
+          field?: string
+          file_name?: string | null
+          id?: string
+          ocr_method?: string
+          original_confidence?: number | null
+          original_value?: string | null
+          question_number?: number | null
+          student_name?: string | null
+          teacher_id?: string
+        }
+        Relationships: []
+      }
+      ocr_result_cache: {
+        Row: {
+          access_count: number
+          created_at: string
+          expires_at: string
+          file_hash: string
+          file_name: string
+          file_size: number
+          id: string
+          last_accessed_at: string
+          metadata: Json
+          result: Json
+          user_id: string
+        }
+        Insert: {
+          access_count?: number
+          created_at?: string
+          expires_at: string
+          file_hash: string
+          file_name: string
+          file_size?: number
+          id?: string
+          last_accessed_at?: string
+          metadata?: Json
+          result: Json
+          user_id: string
+        }
+        Update: {
+          access_count?: number
+          created_at?: string
+          expires_at?: string
+          file_hash?: string
+          file_name?: string
+          file_size?: number
+          id?: string
+          last_accessed_at?: string
+          metadata?: Json
+          result?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ocr_result_cache_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           },
         ]
       }
@@ -2613,6 +3462,89 @@ export type Database = {
           },
         ]
       }
+      question_bank_items: {
+        Row: {
+          answer_spec: Json | null
+          content_skill_tags: string[]
+          correct_answer: string
+          created_at: string
+          difficulty: string | null
+          discrimination: number | null
+          explanation: string | null
+          grade: string | null
+          id: string
+          options: Json | null
+          p_value: number | null
+          points: number
+          question_text: string
+          question_type: string
+          response_count: number
+          rubric_id: string | null
+          stats_updated_at: string | null
+          subject: string | null
+          subject_skill_tags: string[]
+          teacher_id: string
+          times_used: number
+          updated_at: string
+        }
+        Insert: {
+          answer_spec?: Json | null
+          content_skill_tags?: string[]
+          correct_answer?: string
+          created_at?: string
+          difficulty?: string | null
+          discrimination?: number | null
+          explanation?: string | null
+          grade?: string | null
+          id?: string
+          options?: Json | null
+          p_value?: number | null
+          points?: number
+          question_text: string
+          question_type: string
+          response_count?: number
+          rubric_id?: string | null
+          stats_updated_at?: string | null
+          subject?: string | null
+          subject_skill_tags?: string[]
+          teacher_id: string
+          times_used?: number
+          updated_at?: string
+        }
+        Update: {
+          answer_spec?: Json | null
+          content_skill_tags?: string[]
+          correct_answer?: string
+          created_at?: string
+          difficulty?: string | null
+          discrimination?: number | null
+          explanation?: string | null
+          grade?: string | null
+          id?: string
+          options?: Json | null
+          p_value?: number | null
+          points?: number
+          question_text?: string
+          question_type?: string
+          response_count?: number
+          rubric_id?: string | null
+          stats_updated_at?: string | null
+          subject?: string | null
+          subject_skill_tags?: string[]
+          teacher_id?: string
+          times_used?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_items_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       question_time_tracking: {
         Row: {
           answer_changes_count: number
@@ -2660,6 +3592,163 @@ export type Database = {
           },
         ]
       }
+      rubrics: {
+        Row: {
+          created_at: string
+          criteria: Json
+          description: string | null
+          grade: string | null
+          id: string
+          name: string
+          subject: string | null
+          teacher_id: string
+          total_points: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          criteria?: Json
+          description?: string | null
+          grade?: string | null
+          id?: string
+          name: string
+          subject?: string | null
+          teacher_id: string
+          total_points?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          criteria?: Json
+          description?: string | null
+          grade?: string | null
+          id?: string
+          name?: string
+          subject?: string | null
+          teacher_id?: string
+          total_points?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      school_members: {
+        Row: {
+          created_at: string
+          department: string | null
+          id: string
+          role: string
+          school_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          role?: string
+          school_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          role?: string
+          school_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "school_members_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schools: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      security_scans: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_hash: string
+          file_name: string
+          file_size: number
+          id: string
+          malware_detected: boolean
+          recommendations: string[]
+          risk_level: string
+          scan_duration_ms: number | null
+          scanned_at: string
+          suspicious_content: boolean
+          threats: string[]
+          user_id: string | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_hash: string
+          file_name: string
+          file_size?: number
+          id?: string
+          malware_detected?: boolean
+          recommendations?: string[]
+          risk_level: string
+          scan_duration_ms?: number | null
+          scanned_at?: string
+          suspicious_content?: boolean
+          threats?: string[]
+          user_id?: string | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_hash?: string
+          file_name?: string
+          file_size?: number
+          id?: string
+          malware_detected?: boolean
+          recommendations?: string[]
+          risk_level?: string
+          scan_duration_ms?: number | null
+          scanned_at?: string
+          suspicious_content?: boolean
+          threats?: string[]
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "security_scans_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       skill_auto_creation_log: {
         Row: {
           auto_created_at: string
@@ -2670,10 +3759,13 @@ export type Database = {
           exam_id: string
           id: string
           reasoning: string
+          remapped_to_skill_id: string | null
           skill_description: string
           skill_id: string
           skill_name: string
           skill_type: string
+          undone_at: string | null
+          undone_by: string | null
         }
         Insert: {
           auto_created_at?: string
@@ -2684,10 +3776,13 @@ export type Database = {
           exam_id: string
           id?: string
           reasoning: string
+          remapped_to_skill_id?: string | null
           skill_description: string
           skill_id: string
           skill_name: string
           skill_type: string
+          undone_at?: string | null
+          undone_by?: string | null
         }
         Update: {
           auto_created_at?: string
@@ -2698,12 +3793,23 @@ export type Database = {
           exam_id?: string
           id?: string
           reasoning?: string
+          remapped_to_skill_id?: string | null
           skill_description?: string
           skill_id?: string
           skill_name?: string
           skill_type?: string
+          undone_at?: string | null
+          undone_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "skill_auto_creation_log_undone_by_fkey"
+            columns: ["undone_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       skill_review_queue: {
         Row: {
@@ -2716,6 +3822,7 @@ export type Database = {
           exam_id: string
           grade: string
           id: string
+          question_numbers: number[]
           reasoning: string
           review_notes: string | null
           reviewed_at: string | null
@@ -2738,6 +3845,7 @@ export type Database = {
           exam_id: string
           grade: string
           id?: string
+          question_numbers?: number[]
           reasoning: string
           review_notes?: string | null
           reviewed_at?: string | null
@@ -2760,6 +3868,7 @@ export type Database = {
           exam_id?: string
           grade?: string
           id?: string
+          question_numbers?: number[]
           reasoning?: string
           review_notes?: string | null
           reviewed_at?: string | null
@@ -3000,6 +4109,7 @@ export type Database = {
       }
       student_links: {
         Row: {
+          attempts_per_student: boolean
           class_id: string | null
           created_at: string
           current_attempts: number
@@ -3017,6 +4127,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          attempts_per_student?: boolean
           class_id?: string | null
           created_at?: string
           current_attempts?: number
@@ -3034,6 +4145,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          attempts_per_student?: boolean
           class_id?: string | null
           created_at?: string
           current_attempts?: number
@@ -3299,6 +4411,7 @@ export type Database = {
       student_quiz_sessions: {
         Row: {
           answers: Json
+          authenticated_student_id: string | null
           completed_at: string | null
           created_at: string
           current_question: number
@@ -3312,6 +4425,7 @@ export type Database = {
         }
         Insert: {
           answers?: Json
+          authenticated_student_id?: string | null
           completed_at?: string | null
           created_at?: string
           current_question?: number
@@ -3325,6 +4439,7 @@ export type Database = {
         }
         Update: {
           answers?: Json
+          authenticated_student_id?: string | null
           completed_at?: string | null
           created_at?: string
           current_question?: number
@@ -3523,6 +4638,7 @@ export type Database = {
           student_id: string
           total_points_earned: number
           total_points_possible: number
+          updated_at: string
         }
         Insert: {
           active_student_id?: string | null
@@ -3537,6 +4653,7 @@ export type Database = {
           student_id: string
           total_points_earned: number
           total_points_possible: number
+          updated_at?: string
         }
         Update: {
           active_student_id?: string | null
@@ -3551,6 +4668,7 @@ export type Database = {
           student_id?: string
           total_points_earned?: number
           total_points_possible?: number
+          updated_at?: string
         }
         Relationships: [
           {
@@ -4062,6 +5180,38 @@ export type Database = {
       }
     }
     Functions: {
+      add_class_member: {
+        Args: { p_class_id: string; p_email: string; p_permission?: string }
+        Returns: string
+      }
+      add_school_member: {
+        Args: {
+          p_school_id: string
+          p_email: string
+          p_role?: string
+          p_department?: string
+        }
+        Returns: string
+      }
+      adjust_test_skill_score: {
+        Args: {
+          p_delta: number
+          p_skill_name: string
+          p_skill_type: string
+          p_test_result_id: string
+        }
+        Returns: undefined
+      }
+      apply_grade_override: {
+        Args: {
+          p_comment?: string
+          p_new_points: number
+          p_question_number: number
+          p_reason: string
+          p_test_result_id: string
+        }
+        Returns: Json
+      }
       calculate_goal_progress: {
         Args: { p_goal_id: string }
         Returns: number
@@ -4075,6 +5225,14 @@ export type Database = {
         }
         Returns: number
       }
+      can_manage_class: {
+        Args: { p_class_id: string }
+        Returns: boolean
+      }
+      can_manage_student_guardians: {
+        Args: { p_student_profile_id: string }
+        Returns: boolean
+      }
       claim_file_jobs: {
         Args: { batch_size?: number }
         Returns: {
@@ -4082,6 +5240,8 @@ export type Database = {
           created_at: string
           error_message: string | null
           file_group_data: Json
+          file_name: string | null
+          grading_job_id: string | null
           id: string
           max_retries: number
           priority: string
@@ -4119,6 +5279,18 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      clear_ai_budget: {
+        Args: { p_school_id: string; p_teacher_id?: string }
+        Returns: undefined
+      }
+      create_guardian_invite: {
+        Args: { p_student_profile_id?: string }
+        Returns: Json
+      }
+      create_school: {
+        Args: { p_name: string }
+        Returns: string
+      }
       detect_goal_achievements: {
         Args: { p_student_id: string; p_goal_id: string }
         Returns: undefined
@@ -4131,6 +5303,23 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_ai_budget_status: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_ai_cost_breakdown: {
+        Args: { p_since: string; p_until: string }
+        Returns: {
+          calls: number
+          completion_tokens: number
+          cost_usd: number
+          exam_id: string
+          exam_title: string
+          model: string
+          prompt_tokens: number
+          service: string
+        }[]
+      }
       get_authenticated_user_content_skills: {
         Args: { auth_user_id: string }
         Returns: {
@@ -4180,6 +5369,21 @@ export type Database = {
           skill_names: string[]
         }[]
       }
+      get_class_members: {
+        Args: { p_class_id: string }
+        Returns: {
+          member_id: string
+          teacher_id: string
+          full_name: string
+          email: string
+          permission: string
+          added_at: string
+        }[]
+      }
+      get_class_permission: {
+        Args: { p_class_id: string }
+        Returns: string
+      }
       get_class_progress_analytics: {
         Args: { p_class_id: string; p_days?: number }
         Returns: {
@@ -4231,6 +5435,19 @@ export type Database = {
           avg_processing_time_ms: number
         }[]
       }
+      get_guardian_student_overview: {
+        Args: { p_student_profile_id: string }
+        Returns: Json
+      }
+      get_guardian_students: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          link_id: string
+          student_profile_id: string
+          student_name: string
+          linked_at: string
+        }[]
+      }
       get_or_create_adaptive_profile: {
         Args: { p_student_id: string }
         Returns: string
@@ -4250,6 +5467,28 @@ export type Database = {
           questions_with_multiple_changes: number
         }[]
       }
+      get_school_ai_budgets: {
+        Args: { p_school_id: string }
+        Returns: {
+          teacher_id: string | null
+          monthly_limit_usd: number
+          warning_threshold: number
+          spent_usd: number
+        }[]
+      }
+      get_school_members: {
+        Args: { p_school_id: string }
+        Returns: {
+          member_id: string
+          user_id: string
+          full_name: string
+          email: string
+          role: string
+          department: string
+          class_count: number
+          joined_at: string
+        }[]
+      }
       get_session_monitoring_data: {
         Args: { session_id?: string }
         Returns: {
@@ -4321,6 +5560,15 @@ export type Database = {
           current_streaks: Json
         }[]
       }
+      get_student_guardians: {
+        Args: { p_student_profile_id: string }
+        Returns: {
+          link_id: string
+          guardian_name: string
+          guardian_email: string
+          linked_at: string
+        }[]
+      }
       get_student_mistake_patterns: {
         Args: { student_uuid: string; skill_filter?: string }
         Returns: {
@@ -4393,6 +5641,10 @@ export type Database = {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      has_class_permission: {
+        Args: { p_class_id: string; p_permission: string }
+        Returns: boolean
+      }
       identify_common_error_patterns: {
         Args: { skill_name_filter?: string }
         Returns: {
@@ -4404,6 +5656,27 @@ export type Database = {
           suggested_interventions: string[]
         }[]
       }
+      import_roster: {
+        Args: {
+          p_classes: Json
+          p_enrollments: Json
+          p_resync?: boolean
+          p_students: Json
+        }
+        Returns: Json
+      }
+      is_guardian_of: {
+        Args: { p_student_profile_id: string }
+        Returns: boolean
+      }
+      is_school_admin: {
+        Args: { p_school_id: string }
+        Returns: boolean
+      }
+      is_school_member: {
+        Args: { p_school_id: string }
+        Returns: boolean
+      }
       log_learning_event: {
         Args: {
           p_student_id: string
@@ -4417,14 +5690,56 @@ export type Database = {
         }
         Returns: string
       }
+      match_roster_students: {
+        Args: { p_students: Json }
+        Returns: Json
+      }
       migrate_student_data_to_auth_users: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      quiz_session_expired: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      redeem_guardian_invite: {
+        Args: { p_code: string }
+        Returns: Json
+      }
       release_queue_lock: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      set_ai_budget: {
+        Args: {
+          p_school_id: string
+          p_teacher_id: string | null
+          p_monthly_limit_usd: number
+          p_warning_threshold?: number
+        }
+        Returns: string
+      }
+      start_quiz_session: {
+        Args: { p_link_id: string; p_student_name: string }
+        Returns: {
+          answers: Json
+          authenticated_student_id: string | null
+          completed_at: string | null
+          created_at: string
+          current_question: number
+          id: string
+          is_submitted: boolean
+          started_at: string
+          student_link_id: string
+          student_name: string
+          total_score: number | null
+          updated_at: string
+        }
+      }
+      transfer_class: {
+        Args: { p_class_id: string; p_email: string; p_keep_access?: boolean }
+        Returns: Json
+      }
       try_acquire_queue_lock: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -4446,13 +5761,17 @@ export type Database = {
         Args: { p_student_id: string; p_subtype_id: string }
         Returns: undefined
       }
+      update_school_member: {
+        Args: { p_department?: string; p_member_id: string; p_role: string }
+        Returns: undefined
+      }
       update_user_streak: {
         Args: { p_user_id: string }
         Returns: undefined
       }
     }
     Enums: {
-      app_role: "teacher" | "student"
+      app_role: "teacher" | "student" | "guardian"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -4568,7 +5887,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["teacher", "student"],
+      app_role: ["teacher", "student", "guardian"],
     },
   },
 } as const
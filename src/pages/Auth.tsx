@@ -199,6 +199,12 @@ export default function Auth() {
                             Teacher
                           </div>
                         </SelectItem>
+                        <SelectItem value="guardian">
+                          <div className="flex items-center gap-2">
+                            <Users className="h-4 w-4" />
+                            Parent / Guardian
+                          </div>
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
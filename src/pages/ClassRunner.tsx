@@ -55,11 +55,12 @@ export default function ClassRunner() {
   });
 
   // Fetch active sessions for monitoring
+  const sharedClassIds = activeClasses.filter(cls => cls.access !== 'owner').map(cls => cls.id);
   const { data: activeSessions = [] } = useQuery({
-    queryKey: ['activeSessions', profile?.id],
+    queryKey: ['activeSessions', profile?.id, sharedClassIds],
     queryFn: async () => {
       if (!profile?.id) return [];
-      return await getActiveClassSessions(profile.id);
+      return await getActiveClassSessions(profile.id, sharedClassIds);
     },
     enabled: !!profile?.id,
     refetchInterval: 30000, // Refresh every 30 seconds
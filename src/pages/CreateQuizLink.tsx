@@ -9,42 +9,36 @@ import { Badge } from '@/components/ui/badge';
 import { Copy, Link, Calendar, Users, ExternalLink, Upload, Info } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { getAllActiveClasses, getExamByExamId, type ActiveClass, type StoredExam } from '@/services/examService';
+import { createStudentLink, getTeacherQuizLinks, type StudentLink } from '@/services/studentLinkService';
 import { ShareableLinkCard } from '@/components/ShareableLinkCard';
+import { useAuth } from '@/contexts/AuthContext';
 import { APP_URLS, APP_CONFIG, MESSAGES } from '@/config/constants';
 
-interface QuizLink {
-  id: string;
-  token: string;
-  title: string;
-  exam_id: string;
-  class_id: string;
-  teacher_name: string;
-  expires_at: string;
-  max_attempts: number;
-  current_attempts: number;
-  is_active: boolean;
-  created_at: string;
-}
-
 export default function CreateQuizLink() {
+  const { profile } = useAuth();
   const [classes, setClasses] = useState<ActiveClass[]>([]);
   const [selectedClass, setSelectedClass] = useState<string>('');
   const [examId, setExamId] = useState('');
   const [examData, setExamData] = useState<StoredExam | null>(null);
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [teacherName, setTeacherName] = useState('');
+  const [teacherName, setTeacherName] = useState(profile?.full_name || '');
   const [expiresInDays, setExpiresInDays] = useState(7);
   const [maxAttempts, setMaxAttempts] = useState(1);
-  const [generatedLinks, setGeneratedLinks] = useState<QuizLink[]>([]);
+  const [generatedLinks, setGeneratedLinks] = useState<StudentLink[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     loadClasses();
-    loadExistingLinks();
   }, []);
 
+  useEffect(() => {
+    if (profile?.full_name) {
+      loadExistingLinks(profile.full_name, classes.filter(cls => cls.access !== 'owner').map(cls => cls.id));
+    }
+  }, [profile?.full_name, classes]);
+
   const loadClasses = async () => {
     try {
       const classData = await getAllActiveClasses();
@@ -59,10 +53,13 @@ export default function CreateQuizLink() {
     }
   };
 
-  const loadExistingLinks = async () => {
-    // This would typically fetch from the database
-    // For now, we'll start with an empty array
-    setGeneratedLinks([]);
+  const loadExistingLinks = async (name: string, sharedClassIds: string[]) => {
+    try {
+      const links = await getTeacherQuizLinks(name, sharedClassIds);
+      setGeneratedLinks(links);
+    } catch (error) {
+      console.error('Error loading quiz links:', error);
+    }
   };
 
   const handleExamIdChange = async (value: string) => {
@@ -78,7 +75,7 @@ export default function CreateQuizLink() {
           setExamData(null);
           toast({
             title: "Exam not found",
-            description: "No exam found with that ID. You can still create a quiz link.",
+            description: "No exam found with that ID. Save the exam in the Test Creator first.",
           });
         }
       } catch (error) {
@@ -90,10 +87,6 @@ export default function CreateQuizLink() {
     }
   };
 
-  const generateToken = () => {
-    return Math.random().toString(36).substring(2) + Math.random().toString(36).substring(2);
-  };
-
   const handleGenerateLink = async () => {
     if (!title.trim() || !teacherName.trim() || !selectedClass) {
       toast({
@@ -104,28 +97,31 @@ export default function CreateQuizLink() {
       return;
     }
 
+    if (!examData) {
+      toast({
+        title: "Exam required",
+        description: "Enter the ID of an existing exam so students have questions to answer.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsGenerating(true);
 
     try {
-      const token = generateToken();
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + expiresInDays);
 
-      // In a real implementation, this would save to the database
-      // For now, we'll simulate the creation
-      const newLink: QuizLink = {
-        id: Math.random().toString(),
-        token,
-        title: title.trim(),
-        exam_id: examId.trim() || '',
+      const newLink = await createStudentLink({
+        link_type: 'quiz',
+        exam_id: examData.exam_id,
         class_id: selectedClass,
         teacher_name: teacherName.trim(),
+        title: title.trim(),
+        description: description.trim() || undefined,
         expires_at: expiresAt.toISOString(),
         max_attempts: maxAttempts,
-        current_attempts: 0,
-        is_active: true,
-        created_at: new Date().toISOString(),
-      };
+      });
 
       setGeneratedLinks(prev => [newLink, ...prev]);
 
@@ -162,7 +158,7 @@ export default function CreateQuizLink() {
   };
 
   const getQuizUrl = (token: string) => {
-    return `${window.location.origin}/student-quiz/${token}`;
+    return `${window.location.origin}/quiz/${token}`;
   };
 
   return (
@@ -244,12 +240,12 @@ export default function CreateQuizLink() {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="examId">Exam ID (optional)</Label>
+                <Label htmlFor="examId">Exam ID *</Label>
                 <Input
                   id="examId"
                   value={examId}
                   onChange={(e) => handleExamIdChange(e.target.value)}
-                  placeholder="Enter exam ID for automatic grading"
+                  placeholder="Enter the exam ID students will take"
                 />
                 {examData && (
                   <div className="p-3 bg-green-50 rounded border border-green-200">
@@ -0,0 +1,341 @@
+import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { BookOpen, Calendar, LogOut, Target, TrendingDown, TrendingUp, Trophy, UserPlus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAuthenticatedStudentData } from "@/hooks/useAuthenticatedStudentData";
+import { GuardianService, type GuardianDigest } from "@/services/guardianService";
+import { getGradeColor } from "@/utils/studentProfileUtils";
+
+const formatDate = (date: string | null) => date ? format(new Date(date), 'MMM d, yyyy') : '—';
+
+const GuardianDashboard = () => {
+  const { profile, signOut } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedStudentId, setSelectedStudentId] = useState<string | undefined>();
+  const [inviteCode, setInviteCode] = useState('');
+  const [linking, setLinking] = useState(false);
+
+  const { data: linkedStudents = [], isLoading: linkedStudentsLoading } = useQuery({
+    queryKey: ['guardianLinkedStudents'],
+    queryFn: () => GuardianService.getLinkedStudents(),
+  });
+
+  useEffect(() => {
+    if (!selectedStudentId && linkedStudents.length > 0) {
+      setSelectedStudentId(linkedStudents[0].studentProfileId);
+    }
+  }, [linkedStudents, selectedStudentId]);
+
+  const handleLinkStudent = async () => {
+    if (!inviteCode.trim()) return;
+
+    setLinking(true);
+    try {
+      const linked = await GuardianService.redeemInvite(inviteCode);
+      toast.success(`You can now follow ${linked.studentName}'s progress`);
+      setInviteCode('');
+      setSelectedStudentId(linked.studentProfileId);
+      await queryClient.invalidateQueries({ queryKey: ['guardianLinkedStudents'] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to link student');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Family Progress</h1>
+            <p className="text-gray-600">Signed in as {profile?.full_name || profile?.email}</p>
+          </div>
+          <Button variant="outline" onClick={signOut} className="flex items-center gap-2">
+            <LogOut className="h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+
+        {linkedStudentsLoading && <p className="text-muted-foreground">Loading linked students...</p>}
+
+        {linkedStudents.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {linkedStudents.map(student => (
+              <Button
+                key={student.linkId}
+                variant={student.studentProfileId === selectedStudentId ? 'default' : 'outline'}
+                onClick={() => setSelectedStudentId(student.studentProfileId)}
+              >
+                {student.studentName}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {selectedStudentId && <LinkedStudentView studentProfileId={selectedStudentId} />}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              {linkedStudents.length === 0 ? 'Link your student' : 'Link another student'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="invite-code">Invite code</Label>
+            <div className="flex gap-2">
+              <Input
+                id="invite-code"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                placeholder="e.g. K7QM3XPA"
+                className="max-w-xs font-mono tracking-widest"
+              />
+              <Button onClick={handleLinkStudent} disabled={linking || !inviteCode.trim()}>
+                {linking ? 'Linking...' : 'Link'}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Ask your student or their teacher for a code. Codes can be used once and expire after two weeks.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+function LinkedStudentView({ studentProfileId }: { studentProfileId: string }) {
+  const {
+    studentName,
+    testResults,
+    contentSkillScores,
+    subjectSkillScores,
+    practiceSessions,
+    goals,
+    enrolledClasses,
+    isLoading
+  } = useAuthenticatedStudentData({ linkedStudentId: studentProfileId });
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading progress...</p>;
+  }
+
+  // Latest score per skill, weakest first
+  const latestSkills = new Map<string, { score: number; createdAt: string }>();
+  [...contentSkillScores, ...subjectSkillScores].forEach(skill => {
+    const seen = latestSkills.get(skill.skill_name);
+    if (!seen || skill.created_at > seen.createdAt) {
+      latestSkills.set(skill.skill_name, { score: Math.round(Number(skill.score)), createdAt: skill.created_at });
+    }
+  });
+  const skills = [...latestSkills.entries()].sort((a, b) => a[1].score - b[1].score);
+  const activeGoals = goals.filter(goal => goal.status === 'active');
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-900">{studentName}</h2>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {enrolledClasses.map(cls => (
+            <Badge key={cls.id} variant="outline">{cls.name} · {cls.teacher}</Badge>
+          ))}
+        </div>
+      </div>
+
+      <WeeklyDigestCard studentProfileId={studentProfileId} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              Recent Tests
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {testResults.length === 0 && <p className="text-sm text-muted-foreground">No graded tests yet.</p>}
+            {testResults.slice(0, 6).map(result => (
+              <div key={result.id} className="flex items-center justify-between border rounded p-3">
+                <div>
+                  <p className="font-medium text-sm">{result.exam_id}</p>
+                  <p className="text-xs text-muted-foreground">{formatDate(result.created_at)}</p>
+                </div>
+                <Badge className={getGradeColor(Number(result.overall_score))}>
+                  {Math.round(Number(result.overall_score))}%
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Skills
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {skills.length === 0 && <p className="text-sm text-muted-foreground">No skill scores yet.</p>}
+            {skills.slice(0, 8).map(([skillName, { score }]) => (
+              <div key={skillName} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{skillName}</span>
+                  <span className="font-medium">{score}%</span>
+                </div>
+                <Progress value={score} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Practice Activity
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {practiceSessions.length === 0 && <p className="text-sm text-muted-foreground">No practice sessions yet.</p>}
+            {practiceSessions.slice(0, 6).map(session => (
+              <div key={session.id} className="flex items-center justify-between border rounded p-3">
+                <div>
+                  <p className="font-medium text-sm">{session.skill_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.class_name} · {formatDate(session.completed_at || session.created_at)}
+                  </p>
+                </div>
+                {session.final_score !== null ? (
+                  <Badge variant="outline">{Math.round(session.final_score)}%</Badge>
+                ) : (
+                  <Badge variant="secondary">In progress</Badge>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Goals
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {activeGoals.length === 0 && <p className="text-sm text-muted-foreground">No active goals.</p>}
+            {activeGoals.map(goal => (
+              <div key={goal.id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{goal.goal_title}</span>
+                  <span className="font-medium">{Math.round(goal.progress_percentage || 0)}%</span>
+                </div>
+                <Progress value={goal.progress_percentage || 0} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function WeeklyDigestCard({ studentProfileId }: { studentProfileId: string }) {
+  const { data: digest, isLoading } = useQuery({
+    queryKey: ['guardianDigest', studentProfileId],
+    queryFn: () => GuardianService.getWeeklyDigest(studentProfileId),
+  });
+
+  if (isLoading || !digest) {
+    return null;
+  }
+
+  return (
+    <Card className="border-blue-200 bg-blue-50/40">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Week of {format(new Date(`${digest.weekStart}T00:00:00`), 'MMM d')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-700">{summarizeWeek(digest)}</p>
+
+        {(digest.improvedSkills.length > 0 || digest.declinedSkills.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {digest.improvedSkills.map(change => (
+              <Badge key={change.skillName} className="bg-green-100 text-green-700 flex items-center gap-1">
+                <TrendingUp className="h-3 w-3" />
+                {change.skillName}: {change.before}% → {change.after}%
+              </Badge>
+            ))}
+            {digest.declinedSkills.map(change => (
+              <Badge key={change.skillName} className="bg-amber-100 text-amber-700 flex items-center gap-1">
+                <TrendingDown className="h-3 w-3" />
+                {change.skillName}: {change.before}% → {change.after}%
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {digest.goalsCompleted.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <Trophy className="h-4 w-4" />
+            Goals reached: {digest.goalsCompleted.join(', ')}
+          </div>
+        )}
+
+        {digest.suggestions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Suggested practice at home</p>
+            {digest.suggestions.map(suggestion => (
+              <div key={suggestion.skillName} className="border rounded bg-white p-3 text-sm">
+                <p className="font-medium">{suggestion.skillName} ({suggestion.score}%)</p>
+                <p className="text-muted-foreground">{suggestion.activity}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const summarizeWeek = (digest: GuardianDigest) => {
+  const parts: string[] = [];
+
+  if (digest.testsTaken === 0) {
+    parts.push('No tests were graded this week.');
+  } else {
+    const comparison = digest.previousAverage !== null && digest.averageScore !== null
+      ? digest.averageScore >= digest.previousAverage
+        ? ` — up from ${digest.previousAverage}% on earlier tests`
+        : ` — down from ${digest.previousAverage}% on earlier tests`
+      : '';
+    parts.push(`${digest.testsTaken} test${digest.testsTaken > 1 ? 's' : ''} graded, averaging ${digest.averageScore}%${comparison}.`);
+  }
+
+  if (digest.practiceSessions > 0) {
+    const gain = digest.practiceImprovement ? `, gaining ${digest.practiceImprovement} points on average` : '';
+    parts.push(`${digest.practiceSessions} practice session${digest.practiceSessions > 1 ? 's' : ''} completed${gain}.`);
+  }
+
+  if (digest.activeGoals > 0) {
+    parts.push(`Working toward ${digest.activeGoals} goal${digest.activeGoals > 1 ? 's' : ''}.`);
+  }
+
+  return parts.join(' ');
+};
+
+export default GuardianDashboard;
@@ -5,7 +5,12 @@ import { useNavigate } from "react-router-dom";
 import { ArrowLeft, BookOpen, Target, Trophy, Clock, BarChart3, TrendingUp } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useStudentProfileData } from "@/hooks/useStudentProfileData";
+import { useSkillData } from "@/hooks/useSkillData";
 import { getGradeColor } from "@/utils/studentProfileUtils";
+import { StudentGoalsPanel } from "@/components/StudentGoalsPanel";
+import { TrailblazerPanel } from "@/components/TrailblazerPanel";
+
+const isNotGradeSpecificClass = () => false;
 
 const HomeLearner = () => {
   const navigate = useNavigate();
@@ -17,6 +22,7 @@ const HomeLearner = () => {
     testResultsLoading, 
     contentSkillScores, 
     contentSkillsLoading,
+    subjectSkillScores,
     enrolledClasses,
     enrolledClassesLoading 
   } = useStudentProfileData({ 
@@ -25,6 +31,15 @@ const HomeLearner = () => {
     className: '' 
   });
 
+  const { weakestSkills } = useSkillData({
+    contentSkillScores,
+    subjectSkillScores,
+    classContentSkills: [],
+    classSubjectSkills: [],
+    isClassView: false,
+    isGrade10MathClass: isNotGradeSpecificClass
+  });
+
   const handleClassClick = (classId: string) => {
     navigate(`/student-dashboard/class/${classId}`);
   };
@@ -241,6 +256,20 @@ const HomeLearner = () => {
           </Card>
         </div>
 
+        {/* Trailblazer focused study */}
+        {profile && (
+          <div className="mb-8">
+            <TrailblazerPanel userId={profile.id} enrolledClasses={enrolledClasses} skills={weakestSkills} />
+          </div>
+        )}
+
+        {/* Learning Goals */}
+        {profile && (
+          <div className="mb-8">
+            <StudentGoalsPanel studentId={profile.id} weakestSkills={weakestSkills} />
+          </div>
+        )}
+
         {/* Enrolled Classes Overview */}
         <Card className="mb-8">
           <CardHeader>
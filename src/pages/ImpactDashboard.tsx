@@ -2,51 +2,28 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, Clock, Target, Users, BookOpen, Award } from "lucide-react";
+import { useState, useEffect } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AnalyticsFilterBar } from "@/components/AnalyticsFilterBar";
+import {
+  MASTERY_THRESHOLD,
+  TeacherAnalyticsService,
+  type AnalyticsFilters,
+  type ImpactSummary
+} from "@/services/teacherAnalyticsService";
 
 const ImpactDashboard = () => {
-  // Mock data for demonstration - in a real app, this would come from your backend
-  const timelineData = [
-    {
-      id: 1,
-      date: "2 hours ago",
-      student: "Sarah Johnson",
-      action: "Mastered fractions",
-      improvement: "+25% accuracy",
-      type: "mastery"
-    },
-    {
-      id: 2,
-      date: "5 hours ago",
-      student: "Michael Chen",
-      action: "Completed algebra practice",
-      improvement: "+15% speed",
-      type: "practice"
-    },
-    {
-      id: 3,
-      date: "1 day ago",
-      student: "Emma Williams",
-      action: "Overcame geometry struggles",
-      improvement: "From 45% to 82%",
-      type: "breakthrough"
-    },
-    {
-      id: 4,
-      date: "2 days ago",
-      student: "David Brown",
-      action: "Consistent daily practice",
-      improvement: "7-day streak",
-      type: "consistency"
-    },
-    {
-      id: 5,
-      date: "3 days ago",
-      student: "Lisa Garcia",
-      action: "Word problems breakthrough",
-      improvement: "+30% comprehension",
-      type: "breakthrough"
-    }
-  ];
+  const [filters, setFilters] = useState<AnalyticsFilters | null>(null);
+  const [summary, setSummary] = useState<ImpactSummary | null>(null);
+
+  useEffect(() => {
+    if (!filters) return;
+    TeacherAnalyticsService.getImpactSummary(filters)
+      .then(setSummary)
+      .catch(error => console.error('Error loading impact summary:', error));
+  }, [filters]);
+
+  const rangeLabel = filters ? `in the last ${filters.days} days` : '';
 
   const getIconForType = (type: string) => {
     switch (type) {
@@ -83,7 +60,8 @@ const ImpactDashboard = () => {
       <div className="max-w-6xl mx-auto">
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Your Impact Dashboard</h1>
-          <p className="text-gray-600">Track your teaching effectiveness and student progress</p>
+          <p className="text-gray-600 mb-4">Track your teaching effectiveness and student progress</p>
+          <AnalyticsFilterBar onChange={setFilters} />
         </div>
 
         {/* Summary Cards */}
@@ -94,8 +72,12 @@ const ImpactDashboard = () => {
                 <Clock className="h-6 w-6 text-blue-600" />
                 <h2 className="text-xl font-semibold">Time Saved</h2>
               </div>
-              <p className="text-3xl font-bold text-gray-900">12.4 hours</p>
-              <p className="text-sm text-gray-500">in the last 30 days</p>
+              <p className="text-3xl font-bold text-gray-900">{summary ? `${summary.timeSavedHours} hours` : '—'}</p>
+              <p className="text-sm text-gray-500">
+                {summary ? `${summary.papersGraded} papers auto-graded ${rangeLabel}` : rangeLabel}
+                {summary?.averageGradingSeconds !== null && summary?.averageGradingSeconds !== undefined &&
+                  ` · ~${summary.averageGradingSeconds}s each`}
+              </p>
             </CardContent>
           </Card>
 
@@ -105,8 +87,12 @@ const ImpactDashboard = () => {
                 <TrendingUp className="h-6 w-6 text-green-600" />
                 <h2 className="text-xl font-semibold">Feedback Impact</h2>
               </div>
-              <p className="text-3xl font-bold text-gray-900">+18%</p>
-              <p className="text-sm text-gray-500">average student score increase</p>
+              <p className="text-3xl font-bold text-gray-900">
+                {summary?.averageScoreChange !== null && summary?.averageScoreChange !== undefined
+                  ? `${summary.averageScoreChange >= 0 ? '+' : ''}${summary.averageScoreChange}%`
+                  : '—'}
+              </p>
+              <p className="text-sm text-gray-500">average change from first to latest test</p>
             </CardContent>
           </Card>
 
@@ -116,8 +102,8 @@ const ImpactDashboard = () => {
                 <Target className="h-6 w-6 text-purple-600" />
                 <h2 className="text-xl font-semibold">Mastery Unlocked</h2>
               </div>
-              <p className="text-3xl font-bold text-gray-900">7 skills</p>
-              <p className="text-sm text-gray-500">in your class this week</p>
+              <p className="text-3xl font-bold text-gray-900">{summary ? `${summary.masteryUnlocked} skills` : '—'}</p>
+              <p className="text-sm text-gray-500">first reached {MASTERY_THRESHOLD}%+ {rangeLabel}</p>
             </CardContent>
           </Card>
         </div>
@@ -131,8 +117,11 @@ const ImpactDashboard = () => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {timelineData.map((item) => (
-              <div key={item.id} className="flex items-start gap-4 p-4 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors">
+            {summary && summary.timeline.length === 0 && (
+              <p className="text-sm text-gray-500">No growth milestones {rangeLabel} yet.</p>
+            )}
+            {(summary?.timeline || []).map((item, index) => (
+              <div key={index} className="flex items-start gap-4 p-4 rounded-lg bg-gray-50 hover:bg-gray-100 transition-colors">
                 <div className="flex-shrink-0 mt-1">
                   {getIconForType(item.type)}
                 </div>
@@ -147,7 +136,7 @@ const ImpactDashboard = () => {
                   <p className="text-sm font-medium text-green-600">{item.improvement}</p>
                 </div>
                 <div className="flex-shrink-0 text-xs text-gray-500">
-                  {item.date}
+                  {formatDistanceToNow(new Date(item.occurredAt), { addSuffix: true })}
                 </div>
               </div>
             ))}
@@ -158,20 +147,30 @@ const ImpactDashboard = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-12">
           <Card className="bg-white shadow-sm">
             <CardHeader>
-              <CardTitle>Weekly Highlights</CardTitle>
+              <CardTitle>Highlights</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex items-center justify-between p-3 bg-green-50 rounded-lg">
                 <span className="text-sm font-medium">Most Improved Student</span>
-                <span className="text-sm text-green-700">Emma Williams (+37%)</span>
+                <span className="text-sm text-green-700">
+                  {summary?.mostImproved ? `${summary.mostImproved.student} (+${summary.mostImproved.change}%)` : '—'}
+                </span>
               </div>
               <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg">
                 <span className="text-sm font-medium">Top Skill Mastered</span>
-                <span className="text-sm text-blue-700">Fractions (5 students)</span>
+                <span className="text-sm text-blue-700">
+                  {summary?.topSkillMastered
+                    ? `${summary.topSkillMastered.skill} (${summary.topSkillMastered.students} student${summary.topSkillMastered.students === 1 ? '' : 's'})`
+                    : '—'}
+                </span>
               </div>
               <div className="flex items-center justify-between p-3 bg-purple-50 rounded-lg">
-                <span className="text-sm font-medium">Engagement Boost</span>
-                <span className="text-sm text-purple-700">+22% participation</span>
+                <span className="text-sm font-medium">Practice Sessions</span>
+                <span className="text-sm text-purple-700">
+                  {summary ? summary.practiceCount : '—'}
+                  {summary?.practiceChange !== null && summary?.practiceChange !== undefined &&
+                    ` (${summary.practiceChange >= 0 ? '+' : ''}${summary.practiceChange}% vs previous period)`}
+                </span>
               </div>
             </CardContent>
           </Card>
@@ -183,15 +182,15 @@ const ImpactDashboard = () => {
             <CardContent className="space-y-3">
               <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
                 <span className="text-sm font-medium">Auto-Graded Tests</span>
-                <span className="text-sm text-yellow-700">24 this week</span>
+                <span className="text-sm text-yellow-700">{summary ? summary.papersGraded : '—'}</span>
               </div>
               <div className="flex items-center justify-between p-3 bg-indigo-50 rounded-lg">
                 <span className="text-sm font-medium">Personalized Exercises</span>
-                <span className="text-sm text-indigo-700">156 generated</span>
+                <span className="text-sm text-indigo-700">{summary ? `${summary.exercisesGenerated} generated` : '—'}</span>
               </div>
               <div className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
                 <span className="text-sm font-medium">Quick Interventions</span>
-                <span className="text-sm text-red-700">8 students helped</span>
+                <span className="text-sm text-red-700">{summary ? `${summary.interventions} alerts followed up` : '—'}</span>
               </div>
             </CardContent>
           </Card>
@@ -6,11 +6,12 @@ import { StudentSearch } from "@/components/StudentSearch";
 import { LearnerProfileDisplay } from "@/components/LearnerProfileDisplay";
 import { ClassView } from "@/components/ClassView";
 import { StudentPortals } from "@/components/StudentPortals";
+import { TeacherAnalyticsDashboard } from "@/components/TeacherAnalyticsDashboard";
 import { DashboardSidebar } from "@/components/DashboardSidebar";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useDevRole } from "@/contexts/DevRoleContext";
-import { useAuth } from "@/contexts/AuthContext";
+import { useAuth, type UserRole } from "@/contexts/AuthContext";
 import { DEV_CONFIG } from "@/config/devConfig";
 
 const Index = () => {
@@ -22,7 +23,7 @@ const Index = () => {
   const navigate = useNavigate();
   
   // Get current role (dev or actual)
-  let currentRole: 'teacher' | 'student' = 'teacher';
+  let currentRole: UserRole = 'teacher';
   let isDevMode = false;
   try {
     const { currentRole: devRole, isDevMode: devModeFlag } = useDevRole();
@@ -92,7 +93,7 @@ const Index = () => {
           <div className="p-6">
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Analytics Dashboard</h1>
             <p className="text-gray-600 mb-4">View performance insights and trends</p>
-            <p className="text-gray-600 mt-2">Coming soon...</p>
+            <TeacherAnalyticsDashboard onSelectStudent={(studentId) => handleSelectStudent(studentId)} />
           </div>
         );
       case 'portals':
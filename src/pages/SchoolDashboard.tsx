@@ -0,0 +1,576 @@
+import { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Building2, GraduationCap, Target, Trash2, TrendingUp, UserPlus, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { ClassSharingDialog } from "@/components/ClassSharingDialog";
+import { getAllActiveClasses } from "@/services/examService";
+import {
+  NO_DEPARTMENT,
+  SchoolService,
+  type SchoolMember,
+  type SchoolMembership,
+  type SchoolRole
+} from "@/services/schoolService";
+
+const RANGES = [30, 90, 365];
+
+const formatScore = (score: number | null) => score !== null ? `${score}%` : '—';
+
+const SchoolDashboard = () => {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedSchoolId, setSelectedSchoolId] = useState<string | undefined>();
+  const [schoolName, setSchoolName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const { data: memberships = [], isLoading } = useQuery({
+    queryKey: ['mySchools'],
+    queryFn: () => SchoolService.getMySchools(),
+  });
+
+  useEffect(() => {
+    if (!selectedSchoolId && memberships.length > 0) {
+      setSelectedSchoolId(memberships[0].school.id);
+    }
+  }, [memberships, selectedSchoolId]);
+
+  const membership = memberships.find(m => m.school.id === selectedSchoolId);
+
+  const handleCreateSchool = async () => {
+    if (!schoolName.trim()) return;
+    setCreating(true);
+    try {
+      const schoolId = await SchoolService.createSchool(schoolName.trim());
+      setSchoolName('');
+      setSelectedSchoolId(schoolId);
+      await queryClient.invalidateQueries({ queryKey: ['mySchools'] });
+      toast.success('School created. You are its first admin.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create school');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-gray-900 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <Link to="/" className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1 mb-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2">
+              <Building2 className="h-7 w-7 text-blue-600" />
+              {membership?.school.name || 'School'}
+            </h1>
+            {membership && (
+              <p className="text-gray-600 mt-1">
+                {membership.role === 'admin' ? 'School admin' : 'Teacher'}
+                {membership.department && ` · ${membership.department}`}
+              </p>
+            )}
+          </div>
+          {memberships.length > 1 && (
+            <Select value={selectedSchoolId} onValueChange={setSelectedSchoolId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Choose a school" />
+              </SelectTrigger>
+              <SelectContent>
+                {memberships.map(m => (
+                  <SelectItem key={m.school.id} value={m.school.id}>{m.school.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {!isLoading && memberships.length === 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Set up your school</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Create a school to share classes with colleagues and see school-wide results. If your school
+                already exists, ask one of its admins to add {profile?.email || 'your email'}.
+              </p>
+              <div className="flex gap-2 max-w-md">
+                <Input
+                  placeholder="School name"
+                  value={schoolName}
+                  onChange={(e) => setSchoolName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreateSchool()}
+                />
+                <Button onClick={handleCreateSchool} disabled={creating || !schoolName.trim()}>
+                  {creating ? 'Creating...' : 'Create school'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {membership && (
+          <Tabs defaultValue={membership.role === 'admin' ? 'analytics' : 'classes'} key={membership.school.id}>
+            <TabsList>
+              {membership.role === 'admin' && <TabsTrigger value="analytics">Analytics</TabsTrigger>}
+              <TabsTrigger value="classes">My classes</TabsTrigger>
+              <TabsTrigger value="members">Teachers</TabsTrigger>
+            </TabsList>
+            {membership.role === 'admin' && (
+              <TabsContent value="analytics">
+                <SchoolAnalyticsView schoolId={membership.school.id} />
+              </TabsContent>
+            )}
+            <TabsContent value="classes">
+              <MyClassesCard membership={membership} />
+            </TabsContent>
+            <TabsContent value="members">
+              <SchoolMembersCard membership={membership} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+};
+
+function SchoolAnalyticsView({ schoolId }: { schoolId: string }) {
+  const [days, setDays] = useState(90);
+
+  const { data: analytics, isLoading, refetch } = useQuery({
+    queryKey: ['schoolAnalytics', schoolId, days],
+    queryFn: () => SchoolService.getSchoolAnalytics(schoolId, days),
+  });
+
+  if (isLoading || !analytics) {
+    return <div className="text-center py-12 text-gray-600">Loading school analytics...</div>;
+  }
+
+  const stats = [
+    { label: 'Classes', value: analytics.classCount, icon: GraduationCap },
+    { label: 'Teachers', value: analytics.teacherCount, icon: Users },
+    { label: 'Students enrolled', value: analytics.studentCount, icon: Users },
+    { label: 'Tests graded', value: analytics.testCount, icon: Target },
+    { label: 'Average score', value: formatScore(analytics.averageScore), icon: TrendingUp }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map(range => (
+              <SelectItem key={range} value={String(range)}>Last {range} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                <stat.icon className="h-4 w-4" />
+                {stat.label}
+              </div>
+              <p className="text-2xl font-bold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Departments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead className="text-right">Classes</TableHead>
+                  <TableHead className="text-right">Teachers</TableHead>
+                  <TableHead className="text-right">Tests</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.departments.map(department => (
+                  <TableRow key={department.department}>
+                    <TableCell className="font-medium">{department.department}</TableCell>
+                    <TableCell className="text-right">{department.classCount}</TableCell>
+                    <TableCell className="text-right">{department.teacherCount}</TableCell>
+                    <TableCell className="text-right">{department.testCount}</TableCell>
+                    <TableCell className="text-right">{formatScore(department.averageScore)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Weakest skills across the school</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {analytics.weakSkills.length === 0 && (
+              <p className="text-sm text-gray-600">No skill scores recorded in this period.</p>
+            )}
+            {analytics.weakSkills.map(skill => (
+              <div key={`${skill.student}-${skill.skill}`} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium">{skill.skill}</span>
+                  <span className="text-gray-600"> · {skill.student}</span>
+                </span>
+                <Badge variant="outline">{100 - skill.weaknessLevel}%</Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Classes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Teacher</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead className="text-right">Students</TableHead>
+                <TableHead className="text-right">Tests</TableHead>
+                <TableHead className="text-right">Average</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.classes.map(cls => (
+                <TableRow key={cls.classId}>
+                  <TableCell className="font-medium">
+                    {cls.className}
+                    <span className="block text-xs text-gray-500">{cls.subject} · {cls.grade}</span>
+                  </TableCell>
+                  <TableCell>{cls.teacher}</TableCell>
+                  <TableCell>{cls.department || NO_DEPARTMENT}</TableCell>
+                  <TableCell className="text-right">{cls.studentCount}</TableCell>
+                  <TableCell className="text-right">{cls.testCount}</TableCell>
+                  <TableCell className="text-right">{formatScore(cls.averageScore)}</TableCell>
+                  <TableCell className="text-right">
+                    {cls.averageScoreChange !== null
+                      ? `${cls.averageScoreChange >= 0 ? '+' : ''}${cls.averageScoreChange}`
+                      : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ClassSharingDialog
+                      classId={cls.classId}
+                      className={cls.className}
+                      owner={cls.teacher}
+                      canManage
+                      onTransferred={() => refetch()}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {analytics.classes.length === 0 && (
+            <p className="text-sm text-gray-600 text-center py-6">
+              No classes belong to this school yet. Teachers add their classes from the My classes tab.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Teachers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Teacher</TableHead>
+                <TableHead className="text-right">Classes</TableHead>
+                <TableHead className="text-right">Tests</TableHead>
+                <TableHead className="text-right">Average</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.teachers.map(teacher => (
+                <TableRow key={teacher.teacherId || teacher.teacher}>
+                  <TableCell className="font-medium">{teacher.teacher}</TableCell>
+                  <TableCell className="text-right">{teacher.classCount}</TableCell>
+                  <TableCell className="text-right">{teacher.testCount}</TableCell>
+                  <TableCell className="text-right">{formatScore(teacher.averageScore)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {analytics.scoreTrend.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Average score over time</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {analytics.scoreTrend.map(point => (
+              <div key={point.period} className="flex items-center gap-3 text-sm">
+                <span className="w-24 text-gray-600">{point.period}</span>
+                <div className="flex-1 bg-gray-100 rounded h-3">
+                  <div className="bg-blue-500 h-3 rounded" style={{ width: `${Math.min(100, point.averageScore)}%` }} />
+                </div>
+                <span className="w-28 text-right">{point.averageScore}% · {point.testCount} tests</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function MyClassesCard({ membership }: { membership: SchoolMembership }) {
+  const queryClient = useQueryClient();
+  const schoolId = membership.school.id;
+  const [departments, setDepartments] = useState<Record<string, string>>({});
+
+  const { data: classes = [] } = useQuery({
+    queryKey: ['activeClasses', 'school', schoolId],
+    queryFn: async () => (await getAllActiveClasses()).filter(cls => cls.access === 'owner'),
+  });
+
+  const handleAssign = async (classId: string, inSchool: boolean) => {
+    try {
+      await SchoolService.assignClass(
+        classId,
+        inSchool ? schoolId : null,
+        departments[classId] ?? membership.department
+      );
+      await queryClient.invalidateQueries({ queryKey: ['activeClasses', 'school', schoolId] });
+      toast.success(inSchool ? `Class added to ${membership.school.name}` : 'Class removed from the school');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update class');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Classes you own</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Classes in the school show up in school analytics and can only be shared with or transferred to its teachers.
+        </p>
+        {classes.length === 0 && <p className="text-sm text-gray-600">You don't own any classes yet.</p>}
+        {classes.map(cls => {
+          const inThisSchool = cls.school_id === schoolId;
+          const inOtherSchool = !!cls.school_id && !inThisSchool;
+          return (
+            <div key={cls.id} className="flex items-center justify-between gap-3 border rounded p-3">
+              <div className="min-w-0">
+                <p className="font-medium">{cls.name}</p>
+                <p className="text-xs text-gray-500">{cls.subject} · {cls.grade}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {inThisSchool ? (
+                  <Badge variant="secondary">{cls.department || NO_DEPARTMENT}</Badge>
+                ) : (
+                  <Input
+                    className="w-40 h-8"
+                    placeholder="Department"
+                    value={departments[cls.id] ?? membership.department ?? ''}
+                    onChange={(e) => setDepartments(prev => ({ ...prev, [cls.id]: e.target.value }))}
+                    disabled={inOtherSchool}
+                  />
+                )}
+                <Button
+                  variant={inThisSchool ? 'outline' : 'default'}
+                  size="sm"
+                  disabled={inOtherSchool}
+                  onClick={() => handleAssign(cls.id, !inThisSchool)}
+                >
+                  {inOtherSchool ? 'In another school' : inThisSchool ? 'Remove' : 'Add to school'}
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SchoolMembersCard({ membership }: { membership: SchoolMembership }) {
+  const schoolId = membership.school.id;
+  const isAdmin = membership.role === 'admin';
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<SchoolRole>('teacher');
+  const [department, setDepartment] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const { data: members = [], refetch } = useQuery({
+    queryKey: ['schoolMembers', schoolId],
+    queryFn: () => SchoolService.getMembers(schoolId),
+  });
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    setAdding(true);
+    try {
+      await SchoolService.addMember(schoolId, email.trim(), role, department);
+      setEmail('');
+      setDepartment('');
+      await refetch();
+      toast.success('Teacher added to the school');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add teacher');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleUpdate = async (member: SchoolMember, updates: { role?: SchoolRole; department?: string | null }) => {
+    try {
+      await SchoolService.updateMember(member, updates);
+      await refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update teacher');
+    }
+  };
+
+  const handleRemove = async (member: SchoolMember) => {
+    try {
+      await SchoolService.removeMember(member);
+      await refetch();
+      toast.success(`${member.name} was removed from the school`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove teacher');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teachers</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isAdmin && (
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_12rem_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="member-email">Email</Label>
+              <Input id="member-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as SchoolRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="teacher">Teacher</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="member-department">Department</Label>
+              <Input id="member-department" value={department} onChange={(e) => setDepartment(e.target.value)} />
+            </div>
+            <Button onClick={handleAdd} disabled={adding || !email.trim()}>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead className="text-right">Classes</TableHead>
+              {isAdmin && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map(member => (
+              <TableRow key={member.memberId}>
+                <TableCell>
+                  <span className="font-medium">{member.name}</span>
+                  <span className="block text-xs text-gray-500">{member.email}</span>
+                </TableCell>
+                <TableCell>
+                  {isAdmin ? (
+                    <Select value={member.role} onValueChange={(value) => handleUpdate(member, { role: value as SchoolRole })}>
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="teacher">Teacher</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant={member.role === 'admin' ? 'default' : 'outline'}>
+                      {member.role === 'admin' ? 'Admin' : 'Teacher'}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {isAdmin ? (
+                    <Input
+                      className="h-8 w-40"
+                      defaultValue={member.department || ''}
+                      onBlur={(e) => {
+                        const value = e.target.value.trim() || null;
+                        if (value !== member.department) handleUpdate(member, { department: value });
+                      }}
+                    />
+                  ) : (
+                    member.department || '—'
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{member.classCount}</TableCell>
+                {isAdmin && (
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SchoolDashboard;
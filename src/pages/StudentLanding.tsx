@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
 import { LayoutDashboard, GraduationCap } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { StudentAssignments } from "@/components/StudentAssignments";
 
 const StudentLanding = () => {
   const navigate = useNavigate();
@@ -72,6 +73,12 @@ const StudentLanding = () => {
             </CardContent>
           </Card>
         </div>
+
+        {profile && (
+          <div className="max-w-4xl mx-auto mt-8">
+            <StudentAssignments studentId={profile.id} />
+          </div>
+        )}
       </div>
     </div>
   );
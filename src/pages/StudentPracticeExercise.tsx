@@ -15,6 +15,8 @@ import { PracticeExerciseReview } from "@/components/PracticeExerciseReview";
 import { StudentPracticeService } from "@/services/studentPracticeService";
 import { PracticeExerciseGenerationService } from "@/services/practiceExerciseGenerationService";
 import { PracticeAnswerKeyService } from "@/services/practiceAnswerKeyService";
+import { MiniLessonService } from "@/services/miniLessonService";
+import { AdaptiveLearningService } from "@/services/adaptiveLearningService";
 import { toast } from "sonner";
 
 const StudentPracticeExercise = () => {
@@ -32,11 +34,14 @@ const StudentPracticeExercise = () => {
   const [showReview, setShowReview] = useState(false);
   const [hasAnswerKey, setHasAnswerKey] = useState(false);
   const [studentAnswers, setStudentAnswers] = useState({});
+  const [plannedQuestionCount, setPlannedQuestionCount] = useState<number | null>(null);
+  const [exerciseStartedAt, setExerciseStartedAt] = useState<number | null>(null);
   
   const decodedSkillName = decodeURIComponent(skillName || '');
   
-  // Get question count from URL parameters, default to 4
-  const questionCount = parseInt(searchParams.get('questions') || '4');
+  // An explicit count in the URL wins; otherwise the adaptive profile picks it
+  const requestedQuestionCount = searchParams.get('questions') ? parseInt(searchParams.get('questions') as string) : undefined;
+  const questionCount = requestedQuestionCount || plannedQuestionCount || 4;
   
   // Use the new authenticated student data hook
   const { 
@@ -97,6 +102,13 @@ const StudentPracticeExercise = () => {
       
       // Generate a proper UUID for the exercise
       const exerciseId = PracticeExerciseGenerationService.generateExerciseId();
+
+      let count = requestedQuestionCount;
+      if (!count) {
+        const plan = await AdaptiveLearningService.getPracticePlan(authenticatedUserId, decodedSkillName, currentSkillScore);
+        count = plan.questionCount;
+        setPlannedQuestionCount(count);
+      }
       
       const practiceExercise = await generatePracticeExercise({
         studentId: authenticatedUserId, // Use authenticated user ID
@@ -107,7 +119,7 @@ const StudentPracticeExercise = () => {
         className: currentClass.name,
         subject: currentClass.subject,
         grade: currentClass.grade,
-        questionCount: questionCount
+        questionCount: count
       });
 
       if (practiceExercise) {
@@ -159,6 +171,7 @@ const StudentPracticeExercise = () => {
         await PracticeExerciseGenerationService.saveAnswerKeyForExercise(processedExerciseData);
         
         setExerciseData(exerciseFormatted);
+        setExerciseStartedAt(Date.now());
         setHasAnswerKey(true);
         console.log('✅ Practice exercise generated successfully for authenticated user');
       } else {
@@ -184,7 +197,7 @@ const StudentPracticeExercise = () => {
       ? results.percentageScore - currentSkillScore 
       : 0;
     
-    // Update session score first
+    // Update session score first; the database hands in any practice test assignment for this skill from it
     if (sessionId && authenticatedUserId) {
       try {
         await StudentPracticeService.updatePracticeSessionScore(
@@ -204,6 +217,27 @@ const StudentPracticeExercise = () => {
       }
     }
 
+    // Feed per-question results back into the adaptive learning profile
+    if (authenticatedUserId && exerciseData) {
+      await AdaptiveLearningService.recordPracticeOutcome({
+        studentId: authenticatedUserId,
+        skillName: decodedSkillName,
+        skillType: exerciseData.skillType,
+        sessionId,
+        difficulty: exerciseData.adaptiveDifficulty,
+        explanationStyle: exerciseData.metadata?.explanationStyle,
+        baselineScore: currentSkillScore,
+        finalScore: results.percentageScore,
+        durationSeconds: exerciseStartedAt ? Math.round((Date.now() - exerciseStartedAt) / 1000) : 0,
+        questionResults: results.questionResults || []
+      });
+    }
+
+    // Score any mini-lessons the student read since their last attempt on this skill
+    if (authenticatedUserId) {
+      await MiniLessonService.recordSkillAttempt(authenticatedUserId, decodedSkillName, results.percentageScore);
+    }
+
     // Process skill score updates using the completion hook
     if (exerciseData && authenticatedUserId) {
       try {
@@ -301,6 +335,7 @@ const StudentPracticeExercise = () => {
           studentAnswers={studentAnswers}
           exerciseScore={exerciseResults.percentageScore}
           onBack={handleBackFromReview}
+          studentId={authenticatedUserId}
         />
       </div>
     );
@@ -336,6 +371,7 @@ const StudentPracticeExercise = () => {
             hasAnswerKey={hasAnswerKey}
             onShowReview={handleShowReview}
             onContinue={handleContinue}
+            studentId={authenticatedUserId}
           />
         </div>
       </div>
@@ -351,6 +387,9 @@ const StudentPracticeExercise = () => {
           onComplete={handleExerciseComplete}
           onExit={handleExitExercise}
           showTimer={false}
+          studentId={authenticatedUserId}
+          subject={currentClass.subject}
+          grade={currentClass.grade}
         />
       </div>
     );
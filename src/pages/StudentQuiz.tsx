@@ -5,10 +5,20 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { AlertCircle, Clock, User, FileText } from 'lucide-react';
+import { AlertCircle, Clock, User, FileText, CheckCircle, ListChecks } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { getStudentLinkByToken, createQuizSession, incrementLinkAttempts } from '@/services/studentLinkService';
-import type { StudentLink } from '@/services/studentLinkService';
+import { useAuth } from '@/contexts/AuthContext';
+import { getStudentLinkByToken, createQuizSession } from '@/services/studentLinkService';
+import type { StudentLink, StudentQuizSession } from '@/services/studentLinkService';
+import {
+  loadQuizContent,
+  getResumableQuizSession,
+  rememberQuizSession,
+  forgetQuizSession,
+  type QuizContent,
+  type QuizSubmissionResult
+} from '@/services/studentQuizService';
+import { QuizRunner } from '@/components/QuizRunner';
 
 export default function StudentQuiz() {
   const { token } = useParams<{ token: string }>();
@@ -17,8 +27,12 @@ export default function StudentQuiz() {
   const [studentName, setStudentName] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [hasStarted, setHasStarted] = useState(false);
+  const [quizContent, setQuizContent] = useState<QuizContent | null>(null);
+  const [session, setSession] = useState<StudentQuizSession | null>(null);
+  const [submission, setSubmission] = useState<QuizSubmissionResult | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
   const { toast } = useToast();
+  const { user, profile, loading: authLoading } = useAuth();
 
   useEffect(() => {
     if (token) {
@@ -45,7 +59,21 @@ export default function StudentQuiz() {
         return;
       }
 
+      if (!data.exam_id) {
+        setError('This quiz is not linked to an exam');
+        return;
+      }
+
+      const content = await loadQuizContent(data.exam_id);
+      setQuizContent(content);
       setQuizData(data);
+
+      // Pick up where the student left off if this browser has an open session
+      const resumable = await getResumableQuizSession(quizToken);
+      if (resumable && resumable.student_link_id === data.id) {
+        setStudentName(resumable.student_name);
+        setSession(resumable);
+      }
     } catch (error) {
       console.error('Error loading quiz data:', error);
       setError('Quiz not found or has expired');
@@ -54,8 +82,13 @@ export default function StudentQuiz() {
     }
   };
 
+  // Assignment links count attempts per signed-in student, so the attempt is taken (and
+  // graded) under their account rather than a typed name
+  const requiresSignIn = !!quizData?.attempts_per_student;
+  const takerName = requiresSignIn ? profile?.full_name || user?.email || '' : studentName.trim();
+
   const handleStartQuiz = async () => {
-    if (!studentName.trim()) {
+    if (!takerName) {
       toast({
         title: "Name required",
         description: "Please enter your name before starting the quiz.",
@@ -64,19 +97,18 @@ export default function StudentQuiz() {
       return;
     }
 
-    if (!quizData) return;
+    if (!quizData || !token) return;
 
+    setIsStarting(true);
     try {
-      // Increment the attempt count
-      await incrementLinkAttempts(quizData.id);
-      
-      // Create a quiz session
-      await createQuizSession({
+      // Records the attempt, or fails if none are left
+      const newSession = await createQuizSession({
         student_link_id: quizData.id,
-        student_name: studentName.trim(),
+        student_name: takerName,
       });
 
-      setHasStarted(true);
+      rememberQuizSession(token, newSession.id);
+      setSession(newSession);
       toast({
         title: "Quiz started",
         description: "Good luck with your quiz!",
@@ -85,13 +117,23 @@ export default function StudentQuiz() {
       console.error('Error starting quiz:', error);
       toast({
         title: "Error starting quiz",
-        description: "There was an error starting your quiz. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error starting your quiz. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsStarting(false);
     }
   };
 
-  if (isLoading) {
+  const handleSubmitted = (result: QuizSubmissionResult) => {
+    if (token) {
+      forgetQuizSession(token);
+    }
+    setSubmission(result);
+    setSession(null);
+  };
+
+  if (isLoading || authLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
@@ -102,7 +144,7 @@ export default function StudentQuiz() {
     );
   }
 
-  if (error || !quizData) {
+  if (error || !quizData || !quizContent) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <Card className="w-full max-w-md">
@@ -123,8 +165,54 @@ export default function StudentQuiz() {
     );
   }
 
+  if (submission) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="text-center p-6">
+            <CheckCircle className="h-16 w-16 text-green-600 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-green-700 mb-2">
+              Quiz Submitted
+            </h2>
+            <p className="text-gray-600 mb-4">
+              Thanks, {submission.session.student_name}. Your answers have been sent to {quizData.teacher_name}.
+            </p>
+            <div className="p-4 bg-blue-50 rounded mb-4">
+              <div className="text-3xl font-bold text-blue-700">
+                {Math.round(submission.analysis.overall_score)}%
+              </div>
+              <div className="text-sm text-gray-600">
+                {submission.analysis.total_points_earned} / {submission.analysis.total_points_possible} points
+              </div>
+            </div>
+            <Button onClick={() => navigate('/')} variant="outline">
+              Go Home
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (session) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <QuizRunner
+          link={quizData}
+          session={session}
+          exam={quizContent.exam}
+          questions={quizContent.questions}
+          onSubmitted={handleSubmitted}
+        />
+      </div>
+    );
+  }
+
   const isExpired = new Date(quizData.expires_at) < new Date();
-  const attemptsRemaining = quizData.max_attempts - quizData.current_attempts;
+  // Per-student links are checked against the student's own attempts when the quiz starts
+  const attemptsRemaining = quizData.attempts_per_student
+    ? quizData.max_attempts
+    : quizData.max_attempts - quizData.current_attempts;
 
   if (isExpired) {
     return (
@@ -168,47 +256,87 @@ export default function StudentQuiz() {
     );
   }
 
-  if (!hasStarted) {
-    return (
-      <div className="min-h-screen bg-gray-50 py-8">
-        <div className="container mx-auto px-4 max-w-2xl">
-          <Card>
-            <CardHeader className="text-center">
-              <CardTitle className="text-2xl">{quizData.title}</CardTitle>
-              {quizData.description && (
-                <p className="text-gray-600 mt-2">{quizData.description}</p>
-              )}
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="flex items-center gap-3 p-3 bg-blue-50 rounded">
-                  <User className="h-5 w-5 text-blue-600" />
-                  <div>
-                    <div className="font-medium">Teacher</div>
-                    <div className="text-sm text-gray-600">{quizData.teacher_name}</div>
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container mx-auto px-4 max-w-2xl">
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">{quizData.title}</CardTitle>
+            {quizData.description && (
+              <p className="text-gray-600 mt-2">{quizData.description}</p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex items-center gap-3 p-3 bg-blue-50 rounded">
+                <User className="h-5 w-5 text-blue-600" />
+                <div>
+                  <div className="font-medium">Teacher</div>
+                  <div className="text-sm text-gray-600">{quizData.teacher_name}</div>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 p-3 bg-green-50 rounded">
+                <Clock className="h-5 w-5 text-green-600" />
+                <div>
+                  <div className="font-medium">Expires</div>
+                  <div className="text-sm text-gray-600">
+                    {new Date(quizData.expires_at).toLocaleDateString()}
                   </div>
                 </div>
-                <div className="flex items-center gap-3 p-3 bg-green-50 rounded">
-                  <Clock className="h-5 w-5 text-green-600" />
-                  <div>
-                    <div className="font-medium">Expires</div>
-                    <div className="text-sm text-gray-600">
-                      {new Date(quizData.expires_at).toLocaleDateString()}
-                    </div>
+              </div>
+              <div className="flex items-center gap-3 p-3 bg-purple-50 rounded">
+                <ListChecks className="h-5 w-5 text-purple-600" />
+                <div>
+                  <div className="font-medium">Questions</div>
+                  <div className="text-sm text-gray-600">
+                    {quizContent.questions.length} ({quizContent.exam.total_points} points)
                   </div>
                 </div>
               </div>
-
-              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded">
-                <h4 className="font-medium text-yellow-800 mb-2">Important Notes:</h4>
-                <ul className="text-sm text-yellow-700 space-y-1">
-                  <li>• You have {attemptsRemaining} attempt(s) remaining</li>
-                  <li>• Make sure you have a stable internet connection</li>
-                  <li>• Answer all questions before submitting</li>
-                  <li>• You cannot go back once submitted</li>
-                </ul>
+              <div className="flex items-center gap-3 p-3 bg-orange-50 rounded">
+                <Clock className="h-5 w-5 text-orange-600" />
+                <div>
+                  <div className="font-medium">Time Limit</div>
+                  <div className="text-sm text-gray-600">
+                    {quizContent.exam.time_limit > 0 ? `${quizContent.exam.time_limit} minutes` : 'No time limit'}
+                  </div>
+                </div>
               </div>
+            </div>
 
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded">
+              <h4 className="font-medium text-yellow-800 mb-2">Important Notes:</h4>
+              <ul className="text-sm text-yellow-700 space-y-1">
+                <li>
+                  • {quizData.attempts_per_student
+                    ? `Each student gets ${quizData.max_attempts} attempt(s)`
+                    : `You have ${attemptsRemaining} attempt(s) remaining`}
+                </li>
+                <li>• Make sure you have a stable internet connection</li>
+                <li>• Your answers are saved automatically as you go</li>
+                {quizContent.exam.time_limit > 0 && (
+                  <li>• The quiz submits itself when the time limit runs out</li>
+                )}
+                <li>• Answer all questions before submitting</li>
+                <li>• You cannot go back once submitted</li>
+              </ul>
+            </div>
+
+            {requiresSignIn ? (
+              user ? (
+                <div className="flex items-center gap-3 p-3 bg-gray-50 rounded">
+                  <User className="h-5 w-5 text-gray-600" />
+                  <div className="text-sm">Taking this quiz as <span className="font-medium">{takerName}</span></div>
+                </div>
+              ) : (
+                <div className="p-4 bg-blue-50 border border-blue-200 rounded text-sm text-blue-800 space-y-3">
+                  <p>This quiz was assigned to your class. Sign in with your student account to take it.</p>
+                  <Button onClick={() => navigate('/auth')} variant="outline" size="sm">
+                    Sign In
+                  </Button>
+                </div>
+              )
+            ) : (
               <div className="space-y-2">
                 <Label htmlFor="studentName">Your Name</Label>
                 <Input
@@ -218,39 +346,15 @@ export default function StudentQuiz() {
                   placeholder="Enter your full name"
                 />
               </div>
+            )}
 
-              <Button
-                onClick={handleStartQuiz}
-                disabled={!studentName.trim()}
-                className="w-full"
-                size="lg"
-              >
-                Start Quiz
-              </Button>
-            </CardContent>
-          </Card>
-        </div>
-      </div>
-    );
-  }
-
-  // Quiz interface (placeholder for now)
-  return (
-    <div className="min-h-screen bg-gray-50 py-8">
-      <div className="container mx-auto px-4 max-w-4xl">
-        <Card>
-          <CardHeader>
-            <CardTitle>Quiz in Progress</CardTitle>
-            <p className="text-gray-600">Student: {studentName}</p>
-          </CardHeader>
-          <CardContent className="text-center py-12">
-            <FileText className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-xl font-semibold mb-2">Quiz Interface Coming Soon</h3>
-            <p className="text-gray-600 mb-6">
-              The interactive quiz interface will be implemented in the next phase.
-            </p>
-            <Button onClick={() => setHasStarted(false)} variant="outline">
-              Back to Quiz Info
+            <Button
+              onClick={handleStartQuiz}
+              disabled={!takerName || (requiresSignIn && !user) || isStarting}
+              className="w-full"
+              size="lg"
+            >
+              {isStarting ? 'Starting...' : 'Start Quiz'}
             </Button>
           </CardContent>
         </Card>
@@ -7,6 +7,8 @@ import { Upload, FileText, CheckCircle, AlertCircle, Loader2 } from 'lucide-reac
 import { useToast } from '@/hooks/use-toast';
 import { extractTextFromFile, analyzeTest } from '@/services/testAnalysisService';
 import type { ExtractTextResponse, AnalyzeTestResponse } from '@/services/testAnalysisService';
+import { PageIdentityService } from '@/services/pageIdentityService';
+import { MultiPageDetectionService } from '@/services/multiPageDetectionService';
 
 export default function StudentUpload() {
   const [studentName, setStudentName] = useState('');
@@ -62,12 +64,39 @@ export default function StudentUpload() {
     setCurrentStep('processing');
 
     try {
-      // Step 1: Extract text from all files
-      const extractionPromises = selectedFiles.map(async (file) => {
+      // Step 1: Read page codes so pages are checked and put in printed order before grading
+      const identities = await Promise.all(selectedFiles.map(file => PageIdentityService.readFromFile(file)));
+      const codedFiles = selectedFiles.filter((_, index) => identities[index]);
+      if (codedFiles.length > 0) {
+        const { pageGroups } = await MultiPageDetectionService.detectPageGroups(codedFiles, codedFiles.map(file => ({
+          file,
+          examId: null,
+          studentName: null,
+          extractedText: '',
+          pageIdentity: identities[selectedFiles.indexOf(file)]
+        })));
+        const pageIssues = pageGroups.flatMap(group => group.isComplete ? [] : MultiPageDetectionService.getGroupIssues(group));
+        if (pageIssues.length > 0) {
+          toast({
+            title: "Pages need attention",
+            description: pageIssues.join('. '),
+            variant: "destructive",
+          });
+          setCurrentStep('upload');
+          return;
+        }
+      }
+      const orderedFiles = [...selectedFiles].sort((a, b) =>
+        (identities[selectedFiles.indexOf(a)]?.pageNumber ?? 0) - (identities[selectedFiles.indexOf(b)]?.pageNumber ?? 0)
+      );
+
+      // Step 2: Extract text from all files
+      const extractionPromises = orderedFiles.map(async (file) => {
         const fileContent = await convertFileToBase64(file);
         return extractTextFromFile({
           fileContent,
           fileName: file.name,
+          file,
         });
       });
 
@@ -88,8 +117,9 @@ export default function StudentUpload() {
         }
       }
 
-      // Step 2: Analyze the test if we found an exam ID
-      const examId = extractionResults.find(result => result.examId)?.examId;
+      // Step 3: Analyze the test if we found an exam ID
+      const examId = identities.find(identity => identity)?.examId
+        || extractionResults.find(result => result.examId)?.examId;
       
       if (!examId) {
         toast({
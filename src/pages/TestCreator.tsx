@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { ArrowLeft, FileText, RefreshCw, Printer, CheckCircle, Edit, Key, Download, Plus, Trash2 } from "lucide-react";
+import { ArrowLeft, FileText, RefreshCw, Printer, CheckCircle, Edit, Key, Download, Plus, Trash2, Library } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -16,8 +16,10 @@ import { TemplateSelection, type TestTemplate } from "@/components/TestCreator/T
 import { TestDetails } from "@/components/TestCreator/TestDetails";
 import { QuestionEditor } from "@/components/TestCreator/QuestionEditor";
 import { AISkillSelection } from "@/components/TestCreator/AISkillSelection";
+import { SaveToBankDialog } from "@/components/TestCreator/SaveToBankDialog";
 import { saveExamToDatabase, getAllActiveClasses, type ExamData, type ActiveClass, type ContentSkill } from "@/services/examService";
 import { generatePracticeTest, type GeneratePracticeTestRequest } from "@/services/practiceTestService";
+import { StructuredQuestionService } from "@/services/structuredQuestionService";
 
 interface PrintTestsDialogProps {
   selectedClass: ActiveClass;
@@ -124,6 +126,7 @@ const TestCreator = () => {
   const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
   const [questionCount, setQuestionCount] = useState<number>(10);
   const [isGeneratingSingleQuestion, setIsGeneratingSingleQuestion] = useState(false);
+  const [questionToBank, setQuestionToBank] = useState<Question | null>(null);
 
   useEffect(() => {
     const loadClasses = async () => {
@@ -178,13 +181,22 @@ const TestCreator = () => {
       id: `q-${Date.now()}`,
       type,
       question: '',
-      options: type === 'multiple-choice' ? ['Option 1', 'Option 2', 'Option 3', 'Option 4'] : undefined,
+      options: type === 'multiple-choice' || type === 'multi-select'
+        ? ['Option 1', 'Option 2', 'Option 3', 'Option 4']
+        : type === 'ordering' ? ['', '', ''] : undefined,
       correctAnswer: '',
+      correctAnswers: type === 'multi-select' || type === 'fill-in-blank' ? [] : undefined,
+      matchPairs: type === 'matching' ? [{ prompt: '', answer: '' }, { prompt: '', answer: '' }, { prompt: '', answer: '' }] : undefined,
       points: 1,
+      answerSpec: type === 'numeric' || type === 'expression' ? { kind: type } : undefined,
     };
     setQuestions([...questions, newQuestion]);
   };
 
+  const addQuestionsFromBank = (bankQuestions: Question[]) => {
+    setQuestions(prev => [...prev, ...bankQuestions]);
+  };
+
   const updateQuestion = (questionId: string, field: keyof Question, value: any) => {
     setQuestions(questions.map(q => 
       q.id === questionId ? { ...q, [field]: value } : q
@@ -238,6 +250,8 @@ const TestCreator = () => {
         question: q.question,
         options: q.options,
         correctAnswer: q.correctAnswer || '',
+        correctAnswers: q.correctAnswers,
+        matchPairs: q.matchPairs,
         points: q.points
       }));
 
@@ -355,8 +369,17 @@ const TestCreator = () => {
     setCurrentStep('answer-key');
   };
 
+  // Structured questions carry their answer in options, pairs or blanks rather than correctAnswer
+  const hasCorrectAnswer = (question: Question) => {
+    if (StructuredQuestionService.isStructuredType(question.type)) {
+      return StructuredQuestionService.hasAnswer({ ...question, type: question.type });
+    }
+    return !!question.rubricId || (!!question.correctAnswer && question.correctAnswer !== '');
+  };
+
   const handleAnswerKeyComplete = () => {
-    const incompleteQuestions = questions.filter(q => !q.correctAnswer || q.correctAnswer === '');
+    // Rubric-graded questions are scored on the criteria, so a sample answer is optional
+    const incompleteQuestions = questions.filter(q => !hasCorrectAnswer(q));
     if (incompleteQuestions.length > 0) {
       toast({
         title: "Error",
@@ -686,6 +709,7 @@ const TestCreator = () => {
       onUpdateQuestion={updateQuestion}
       onUpdateQuestionOption={updateQuestionOption}
       onDeleteQuestion={deleteQuestion}
+      onAddQuestionsFromBank={addQuestionsFromBank}
       onBack={() => setCurrentStep('details')}
       onContinue={handleGenerateTest}
     />
@@ -767,7 +791,7 @@ const TestCreator = () => {
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">Question {index + 1}</CardTitle>
                 <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-500 capitalize">{question.type.replace('-', ' ')}</span>
+                  <span className="text-sm text-gray-500 capitalize">{question.type.replace(/-/g, ' ')}</span>
                   <span className="text-sm text-gray-600">({question.points} pts)</span>
                   {selectedTemplate === 'ai-test' && question.id.startsWith('ai-q-') && (
                     <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">AI Generated</span>
@@ -775,6 +799,15 @@ const TestCreator = () => {
                   {selectedTemplate === 'ai-test' && question.id.startsWith('custom-q-') && (
                     <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">Custom</span>
                   )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={question.bankItemId ? 'Update in question bank' : 'Save to question bank'}
+                    disabled={!hasCorrectAnswer(question)}
+                    onClick={() => setQuestionToBank(question)}
+                  >
+                    <Library className="h-4 w-4" />
+                  </Button>
                   <Button 
                     variant="ghost" 
                     size="sm" 
@@ -870,13 +903,33 @@ const TestCreator = () => {
                     rows={question.type === 'essay' ? 4 : 2}
                   />
                   <p className="text-xs text-gray-500 mt-1">
-                    {question.type === 'essay' 
+                    {question.rubricId
+                      ? 'Graded against the attached rubric. A sample answer is optional extra context.'
+                      : question.type === 'essay' 
                       ? 'This will be used as a reference for AI grading. Include key points and concepts.'
                       : 'This exact answer will be used for automatic grading.'}
                   </p>
                 </div>
               )}
               
+              {(question.type === 'numeric' || question.type === 'expression') && (
+                <div>
+                  <Label htmlFor={`answer-${question.id}`}>Correct Answer</Label>
+                  <Input
+                    id={`answer-${question.id}`}
+                    value={question.correctAnswer as string || ''}
+                    onChange={(e) => updateQuestion(question.id, 'correctAnswer', e.target.value)}
+                    placeholder={question.type === 'numeric' ? 'e.g. 9.8 m/s^2, 1/2 or 50%' : 'e.g. 2x + 2 or y = 3x - 1'}
+                    className="mt-2"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {question.type === 'numeric'
+                      ? 'Graded by value using the tolerance and units set on the question.'
+                      : 'Any algebraically equivalent answer is accepted.'}
+                  </p>
+                </div>
+              )}
+              
               {selectedTemplate === 'ai-test' && question.id.startsWith('custom-q-') && (
                 <div className="flex items-center gap-4">
                   <div>
@@ -894,7 +947,21 @@ const TestCreator = () => {
                 </div>
               )}
               
-              {!question.correctAnswer && (
+              {StructuredQuestionService.isStructuredType(question.type) && (
+                <div>
+                  <Label>Answer Key</Label>
+                  {StructuredQuestionService.hasAnswer({ ...question, type: question.type }) ? (
+                    <div className="mt-2 p-2 bg-green-50 rounded text-sm text-green-700">
+                      <strong>Expected response:</strong> {StructuredQuestionService.formatCorrectAnswer({ ...question, type: question.type })}
+                    </div>
+                  ) : null}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Edit the options, pairs, items or blanks in the Questions step. Letters refer to the printed (shuffled) order.
+                  </p>
+                </div>
+              )}
+              
+              {!hasCorrectAnswer(question) && (
                 <div className="p-2 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-700">
                   ⚠️ Please provide a correct answer for this question
                 </div>
@@ -911,6 +978,13 @@ const TestCreator = () => {
           </CardContent>
         </Card>
       )}
+
+      <SaveToBankDialog
+        question={questionToBank}
+        classes={availableClasses}
+        onOpenChange={(open) => !open && setQuestionToBank(null)}
+        onSaved={(item) => questionToBank && updateQuestion(questionToBank.id, 'bankItemId', item.id)}
+      />
     </div>
   );
 
@@ -1444,7 +1518,7 @@ const TestCreator = () => {
                       {index + 1}. {question.question} 
                       <span className="text-sm text-gray-500 ml-2">({question.points} pts)</span>
                     </p>
-                    <p className="text-xs text-gray-500 capitalize">{question.type.replace('-', ' ')}</p>
+                    <p className="text-xs text-gray-500 capitalize">{question.type.replace(/-/g, ' ')}</p>
                   </div>
                 ))}
               </div>
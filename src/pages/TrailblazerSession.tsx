@@ -0,0 +1,336 @@
+import { useState, useEffect, useCallback, useRef, type ComponentProps, type ReactNode } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Clock, Compass, Flame, Loader2, Trophy } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { PracticeExerciseRunner } from "@/components/PracticeExerciseRunner";
+import { StudentPracticeService } from "@/services/studentPracticeService";
+import { PracticeExerciseGenerationService } from "@/services/practiceExerciseGenerationService";
+import { getActiveClassById } from "@/services/examService";
+import { AdaptiveLearningService } from "@/services/adaptiveLearningService";
+import {
+  SUBMIT_GRACE_MINUTES,
+  TrailblazerService,
+  type TrailblazerSession as TrailblazerSessionRecord,
+  type TrailblazerSessionOutcome
+} from "@/services/trailblazerService";
+
+type RunnerProps = ComponentProps<typeof PracticeExerciseRunner>;
+type ExerciseData = RunnerProps['exerciseData'];
+type ExerciseResults = Parameters<RunnerProps['onComplete']>[0];
+
+interface PracticeContext {
+  practiceSessionId: string;
+  baselineScore: number;
+  difficulty: string;
+  explanationStyle?: string;
+  skillType?: string;
+  startedAt: number;
+}
+
+const TrailblazerSession = () => {
+  const navigate = useNavigate();
+  const { sessionId } = useParams();
+  const { profile, user } = useAuth();
+  const [session, setSession] = useState<TrailblazerSessionRecord | null>(null);
+  const [exerciseData, setExerciseData] = useState<ExerciseData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [outcome, setOutcome] = useState<TrailblazerSessionOutcome | null>(null);
+  const [finalScore, setFinalScore] = useState<number | null>(null);
+  const [practiceContext, setPracticeContext] = useState<PracticeContext | null>(null);
+
+  // Count down from the session length; answers are accepted for a short grace period after
+  useEffect(() => {
+    if (!session || !exerciseData || outcome) return;
+
+    const { endsAt } = TrailblazerService.getDeadlines(session);
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((endsAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      return remaining;
+    };
+
+    if (tick() === 0) return;
+    const timer = setInterval(() => {
+      if (tick() === 0) {
+        clearInterval(timer);
+        toast.info(`Time's up! Submit your answers within ${SUBMIT_GRACE_MINUTES} minutes to finish the session.`);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [session, exerciseData, outcome]);
+
+  const generateExercise = async (record: TrailblazerSessionRecord) => {
+    if (!profile || !record.class_id) return;
+
+    setGenerationError(null);
+    try {
+      const activeClass = await getActiveClassById(record.class_id);
+      const baseline = await TrailblazerService.getBaselineScore(record.id);
+
+      const practiceExercise = await StudentPracticeService.generatePracticeExercise({
+        studentId: profile.id,
+        studentName: profile.full_name || user?.email || 'Student',
+        skillName: record.focus_concept,
+        currentSkillScore: baseline,
+        classId: record.class_id,
+        className: activeClass?.name || '',
+        subject: record.subject || activeClass?.subject || '',
+        grade: record.grade || activeClass?.grade || '',
+        preferredDifficulty: record.goal_type === 'misconception_repair' ? 'review' : 'adaptive',
+        questionCount: TrailblazerService.getQuestionCount(record.duration_minutes)
+      });
+
+      const exerciseId = PracticeExerciseGenerationService.generateExerciseId();
+      const formatted = {
+        title: practiceExercise.title,
+        description: practiceExercise.description,
+        questions: practiceExercise.questions.map((q, index) => ({
+          id: q.id || `q_${index}`,
+          type: q.type as ExerciseData['questions'][number]['type'],
+          question: q.question,
+          options: q.options,
+          correctAnswer: q.correctAnswer,
+          acceptableAnswers: q.acceptableAnswers,
+          keywords: q.keywords,
+          points: q.points || 1,
+          targetSkill: q.targetSkill
+        })),
+        totalPoints: practiceExercise.totalPoints,
+        estimatedTime: practiceExercise.estimatedTime,
+        exerciseId
+      };
+
+      await PracticeExerciseGenerationService.saveAnswerKeyForExercise(
+        PracticeExerciseGenerationService.processGeneratedExercise(formatted, exerciseId)
+      );
+      setExerciseData(formatted);
+      setPracticeContext({
+        practiceSessionId: practiceExercise.metadata.sessionId,
+        baselineScore: baseline,
+        difficulty: practiceExercise.adaptiveDifficulty,
+        explanationStyle: practiceExercise.metadata.explanationStyle,
+        skillType: practiceExercise.metadata.skillType,
+        startedAt: Date.now()
+      });
+    } catch (error) {
+      console.error('Error generating Trailblazer exercise:', error);
+      setGenerationError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  // Profile updates must not rebuild an exercise the student is already working on
+  const generateExerciseRef = useRef(generateExercise);
+  generateExerciseRef.current = generateExercise;
+
+  const loadSession = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      setLoading(true);
+      let record = await TrailblazerService.getSession(sessionId);
+      if (record?.status === 'in_progress' && Date.now() > TrailblazerService.getDeadlines(record).closesAt) {
+        await TrailblazerService.abandonSession(record.id);
+        record = { ...record, status: 'abandoned' };
+      }
+      setSession(record);
+      if (record && record.status === 'in_progress') {
+        await generateExerciseRef.current(record);
+      }
+    } catch (error) {
+      console.error('Error loading Trailblazer session:', error);
+      toast.error('Failed to load session');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const handleComplete = async (results: ExerciseResults) => {
+    if (!session) return;
+
+    setFinalScore(results.percentageScore);
+
+    if (profile && practiceContext) {
+      await AdaptiveLearningService.recordPracticeOutcome({
+        studentId: profile.id,
+        skillName: session.focus_concept,
+        skillType: practiceContext.skillType,
+        sessionId: practiceContext.practiceSessionId,
+        difficulty: practiceContext.difficulty,
+        explanationStyle: practiceContext.explanationStyle,
+        baselineScore: practiceContext.baselineScore,
+        finalScore: results.percentageScore,
+        durationSeconds: Math.round((Date.now() - practiceContext.startedAt) / 1000),
+        questionResults: results.questionResults
+      });
+    }
+
+    try {
+      const sessionOutcome = await TrailblazerService.completeSession({
+        session,
+        finalScore: results.percentageScore,
+        questionsMissed: results.questionResults.filter(result => !result.isCorrect).length,
+        totalQuestions: results.questionResults.length
+      });
+      setOutcome(sessionOutcome);
+      sessionOutcome.newAchievements.forEach(achievement => {
+        toast.success(`Achievement unlocked: ${achievement.achievement_name}`, {
+          description: achievement.description || undefined
+        });
+      });
+    } catch (error) {
+      console.error('Error completing Trailblazer session:', error);
+      toast.error(error instanceof Error
+        ? `Your answers were graded, but the session could not be saved: ${error.message}`
+        : 'Your answers were graded, but the session could not be saved.');
+    }
+  };
+
+  const handleExit = async () => {
+    if (session && !outcome) {
+      await TrailblazerService.abandonSession(session.id);
+    }
+    navigate('/student-dashboard/home-learner');
+  };
+
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+  const renderShell = (content: ReactNode) => (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50/30">
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <Button variant="outline" onClick={handleExit} className="flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            Back to HomeLearner
+          </Button>
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2 justify-center">
+              <Compass className="h-7 w-7 text-emerald-600" />
+              Trailblazer
+            </h1>
+            {session && <p className="text-gray-600">{session.focus_concept}</p>}
+          </div>
+          <div></div>
+        </div>
+        {content}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return renderShell(
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-emerald-600" />
+        <p className="text-lg text-slate-600 ml-4">Preparing your session...</p>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return renderShell(
+      <p className="text-center text-gray-600 py-12">This session could not be found.</p>
+    );
+  }
+
+  if (outcome) {
+    return renderShell(
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader>
+          <CardTitle className="text-center">Session complete!</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6 text-center">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <div className="text-3xl font-bold">{Math.round(finalScore || 0)}%</div>
+              <div className="text-sm text-gray-600">Score</div>
+            </div>
+            <div>
+              <div className={`text-3xl font-bold ${outcome.scoreImprovement >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {outcome.scoreImprovement >= 0 ? '+' : ''}{Math.round(outcome.scoreImprovement)}
+              </div>
+              <div className="text-sm text-gray-600">Points vs. before</div>
+            </div>
+            <div>
+              <div className="text-3xl font-bold text-orange-600 flex items-center justify-center gap-1">
+                <Flame className="h-6 w-6" />
+                {outcome.streak.current_streak_days}
+              </div>
+              <div className="text-sm text-gray-600">Day streak</div>
+            </div>
+          </div>
+          {outcome.newAchievements.length > 0 && (
+            <div className="flex flex-wrap gap-2 justify-center">
+              {outcome.newAchievements.map(achievement => (
+                <Badge key={achievement.id} className="bg-yellow-100 text-yellow-800">
+                  <Trophy className="h-3 w-3 mr-1" />
+                  {achievement.achievement_name}
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Button onClick={() => navigate('/student-dashboard/home-learner')}>Back to HomeLearner</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (session.status !== 'in_progress') {
+    return renderShell(
+      <p className="text-center text-gray-600 py-12">This session has already ended.</p>
+    );
+  }
+
+  if (exerciseData) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50/30">
+        {secondsLeft !== null && (
+          <div className="container mx-auto px-4 pt-4 flex justify-end">
+            <Badge className={secondsLeft > 60 ? 'bg-emerald-100 text-emerald-800' : 'bg-red-100 text-red-800'}>
+              <Clock className="h-3 w-3 mr-1" />
+              {secondsLeft > 0 ? `${formatTime(secondsLeft)} left` : "Time's up"}
+            </Badge>
+          </div>
+        )}
+        <PracticeExerciseRunner
+          exerciseData={exerciseData}
+          onComplete={handleComplete}
+          onExit={handleExit}
+          showTimer={false}
+          studentId={profile?.id}
+          subject={session.subject || undefined}
+          grade={session.grade || undefined}
+        />
+      </div>
+    );
+  }
+
+  return renderShell(
+    <Card className="max-w-2xl mx-auto">
+      <CardContent className="p-8 text-center space-y-4">
+        {generationError ? (
+          <>
+            <p className="text-red-600">Failed to build your session: {generationError}</p>
+            <Button onClick={() => generateExercise(session)}>Try Again</Button>
+          </>
+        ) : (
+          <div className="flex items-center justify-center gap-3">
+            <Loader2 className="h-5 w-5 animate-spin text-emerald-600" />
+            <span>Building your focused practice...</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrailblazerSession;
@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Upload, FileText, X, Play, CheckCircle, AlertCircle, ArrowLeft } from 'lucide-react';
 import { Link } from 'react-router-dom';
@@ -7,9 +7,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { extractTextFromFile, analyzeTest } from '@/services/testAnalysisService';
+import { extractTextFromFile, analyzeTest, type ExtractTextResponse } from '@/services/testAnalysisService';
+import { PageIdentityService, type PageIdentity } from '@/services/pageIdentityService';
+import { MultiPageDetectionService, type PageGroup } from '@/services/multiPageDetectionService';
+import { ScanReviewService, type ScanReviewItem, type ScanReviewSubmission } from '@/services/scanReviewService';
 import { TimeEstimationService, TimeEstimate } from '@/services/timeEstimationService';
 import EnhancedProcessingProgress from '@/components/EnhancedProcessingProgress';
+import { ScanReviewWorkbench } from '@/components/ScanReviewWorkbench';
 
 interface UploadedFile {
   file: File;
@@ -18,6 +22,26 @@ interface UploadedFile {
   structuredData?: any;
   status: 'pending' | 'processing' | 'completed' | 'error';
   error?: string;
+  warning?: string;
+}
+
+// One student's test: the pages of a page-code group, or a single unidentified file
+interface GradingUnit {
+  group: PageGroup | null;
+  files: UploadedFile[];
+}
+
+// An extracted test waiting for the teacher to check it
+interface ReviewUnit {
+  fileIds: string[];
+  submission: ScanReviewSubmission;
+}
+
+interface PendingReview {
+  units: ReviewUnit[];
+  totalFiles: number;
+  totalTests: number;
+  extractionTime: number;
 }
 
 interface TestResult {
@@ -41,6 +65,7 @@ const UploadTest = () => {
   const [timeEstimate, setTimeEstimate] = useState<TimeEstimate | null>(null);
   const [processingStartTime, setProcessingStartTime] = useState<number | undefined>();
   const [processedFileCount, setProcessedFileCount] = useState(0);
+  const [pendingReview, setPendingReview] = useState<PendingReview | null>(null);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const newFiles = acceptedFiles.map(file => ({
@@ -98,12 +123,13 @@ const UploadTest = () => {
     setCurrentStage('upload');
     setTestResults([]);
     setProcessedFileCount(0);
+    setUploadedFiles(prev => prev.map(f => ({ ...f, error: undefined, warning: undefined })));
     setProcessingStartTime(Date.now());
 
     const startTime = Date.now();
     const totalFiles = uploadedFiles.length;
-    const results: TestResult[] = [];
     let processedCount = 0;
+    let totalTests = totalFiles;
 
     // Enhanced processing with smart defaults enabled
     console.log('🚀 Starting simplified batch processing with all optimizations enabled');
@@ -115,62 +141,215 @@ const UploadTest = () => {
     console.log('✅ Batch Processing: Enabled');
 
     try {
-      // Process files in optimal batches for better performance
-      const batchSize = Math.min(3, totalFiles);
+      // Decode page codes first so multi-page tests are grouped and attributed before any OCR
+      const pageIdentities = new Map<string, PageIdentity | null>();
+      for (const uploadedFile of uploadedFiles) {
+        pageIdentities.set(uploadedFile.id, await PageIdentityService.readFromFile(uploadedFile.file));
+      }
+
+      const identifiedFiles = uploadedFiles.filter(f => pageIdentities.get(f.id));
+      const { pageGroups } = await MultiPageDetectionService.detectPageGroups(
+        identifiedFiles.map(f => f.file),
+        identifiedFiles.map(f => ({
+          file: f.file,
+          examId: null,
+          studentName: null,
+          extractedText: '',
+          pageIdentity: pageIdentities.get(f.id)
+        }))
+      );
+
+      const gradingUnits: GradingUnit[] = [
+        ...pageGroups.map(group => ({
+          group,
+          files: group.pages.map(page => identifiedFiles.find(f => f.file === page.file) as UploadedFile)
+        })),
+        ...uploadedFiles.filter(f => !pageIdentities.get(f.id)).map(f => ({ group: null, files: [f] }))
+      ];
+      totalTests = gradingUnits.length;
+
+      // Incomplete or duplicated page sets are held back until the teacher fixes the upload
+      const readyUnits = gradingUnits.filter(unit => {
+        if (!unit.group) return true;
+        const issues = MultiPageDetectionService.getGroupIssues(unit.group);
+        if (issues.length === 0) return true;
+
+        const blocked = !unit.group.isComplete;
+        const unitIds = unit.files.map(f => f.id);
+        setUploadedFiles(prev => prev.map(f => unitIds.includes(f.id) ? {
+          ...f,
+          status: blocked ? 'error' : f.status,
+          error: blocked ? issues.join('. ') : f.error,
+          warning: blocked ? undefined : issues.join('. ')
+        } : f));
+
+        const owner = unit.group.studentName || unit.group.studentId || 'Unnamed student';
+        if (blocked) {
+          toast.error(`${owner} (${unit.group.examId}): ${issues.join('. ')}`);
+          processedCount += unit.files.length;
+        } else {
+          toast.warning(`${owner} (${unit.group.examId}): ${issues.join('. ')}`);
+        }
+        return !blocked;
+      });
+
+      // Extract tests in optimal batches for better performance
+      const batchSize = Math.min(3, readyUnits.length);
+      const reviewUnits: ReviewUnit[] = [];
+      setCurrentStage('extracting');
       
-      for (let i = 0; i < totalFiles; i += batchSize) {
-        const batch = uploadedFiles.slice(i, i + batchSize);
+      for (let i = 0; i < readyUnits.length; i += batchSize) {
+        const batch = readyUnits.slice(i, i + batchSize);
         
         // Process batch concurrently
-        const batchPromises = batch.map(async (uploadedFile) => {
+        const batchPromises = batch.map(async (unit, index): Promise<ReviewUnit> => {
+          const unitIds = unit.files.map(f => f.id);
           try {
             // Update file status to processing
             setUploadedFiles(prev => prev.map(f => 
-              f.id === uploadedFile.id ? { ...f, status: 'processing' } : f
+              unitIds.includes(f.id) ? { ...f, status: 'processing' } : f
             ));
 
-            setCurrentStage('extracting');
+            // Extract text from each page in printed order
+            const pages: Array<{ file: File; extractResult: ExtractTextResponse }> = [];
+            for (const uploadedFile of unit.files) {
+              const fileContent = await new Promise<string>((resolve, reject) => {
+                const reader = new FileReader();
+                reader.onload = () => resolve(reader.result as string);
+                reader.onerror = reject;
+                reader.readAsDataURL(uploadedFile.file);
+              });
+
+              const extractResult = await extractTextFromFile({
+                fileContent: fileContent.split(',')[1],
+                fileName: uploadedFile.file.name,
+                file: uploadedFile.file,
+              });
+              pages.push({ file: uploadedFile.file, extractResult });
+
+              // Update file with extracted data
+              setUploadedFiles(prev => prev.map(f => 
+                f.id === uploadedFile.id ? { 
+                  ...f, 
+                  extractedText: extractResult.extractedText,
+                  structuredData: extractResult.structuredData,
+                  status: 'completed'
+                } : f
+              ));
+            }
+
+            // Page codes take precedence over text detection for attribution
+            const submission = await ScanReviewService.createSubmission(
+              `test-${i + index + 1}`,
+              pages,
+              unit.group ? { examId: unit.group.examId, studentName: unit.group.studentName || unit.group.studentId || null } : null
+            );
+            return { fileIds: unitIds, submission };
+          } catch (error) {
+            console.error(`Error processing ${unit.files.map(f => f.file.name).join(', ')}:`, error);
+            
+            // Update file status to error
+            setUploadedFiles(prev => prev.map(f => 
+              unitIds.includes(f.id) ? { 
+                ...f, 
+                status: 'error',
+                error: error instanceof Error ? error.message : 'Processing failed'
+              } : f
+            ));
 
-            // Extract text with all optimizations enabled
-            const fileContent = await new Promise<string>((resolve, reject) => {
-              const reader = new FileReader();
-              reader.onload = () => resolve(reader.result as string);
-              reader.onerror = reject;
-              reader.readAsDataURL(uploadedFile.file);
-            });
+            throw error;
+          }
+        });
 
-            const extractResult = await extractTextFromFile({
-              fileContent: fileContent.split(',')[1],
-              fileName: uploadedFile.file.name,
-            });
+        // Wait for batch to complete
+        const batchResults = await Promise.allSettled(batchPromises);
+        
+        batchResults.forEach((result, index) => {
+          processedCount += batch[index].files.length;
+          setProcessedFileCount(processedCount);
+          setProcessingProgress((processedCount / totalFiles) * 100);
+          
+          if (result.status === 'fulfilled') {
+            reviewUnits.push(result.value);
+          }
+        });
+      }
+
+      // Nothing is graded until the teacher has checked what the scanner read
+      if (reviewUnits.length > 0) {
+        setPendingReview({ units: reviewUnits, totalFiles, totalTests, extractionTime: Date.now() - startTime });
+        toast.info(`Review ${reviewUnits.length} scanned test${reviewUnits.length > 1 ? 's' : ''} before grading`);
+      } else {
+        finishRun([], totalFiles, totalTests, startTime);
+      }
+
+    } catch (error) {
+      console.error('Batch processing error:', error);
+      toast.error('Failed to process tests');
+    } finally {
+      setIsProcessing(false);
+      setProcessingProgress(100);
+    }
+  };
+
+  const commitReviewedTests = async (itemsBySubmission: Record<string, ScanReviewItem[]>) => {
+    if (!pendingReview) return;
+
+    const { units, totalFiles, totalTests, extractionTime } = pendingReview;
+    // Time spent reviewing is not processing time
+    const startTime = Date.now() - extractionTime;
+    const results: TestResult[] = [];
+    let gradedCount = 0;
+    let budgetNotice: string | null = null;
 
-            // Update file with extracted data
+    setIsProcessing(true);
+    setProcessingProgress(0);
+    setProcessedFileCount(0);
+    setCurrentStage('analyzing');
+
+    try {
+      const batchSize = Math.min(3, units.length);
+
+      for (let i = 0; i < units.length; i += batchSize) {
+        const batch = units.slice(i, i + batchSize);
+
+        const batchPromises = batch.map(async ({ fileIds, submission }) => {
+          try {
             setUploadedFiles(prev => prev.map(f => 
-              f.id === uploadedFile.id ? { 
-                ...f, 
-                extractedText: extractResult.extractedText,
-                structuredData: extractResult.structuredData,
-                status: 'completed'
-              } : f
+              fileIds.includes(f.id) ? { ...f, status: 'processing' } : f
             ));
 
-            setCurrentStage('analyzing');
+            const items = itemsBySubmission[submission.id] || ScanReviewService.buildItems(submission);
+            const reviewed = ScanReviewService.applyCorrections(submission, items);
+
+            try {
+              await ScanReviewService.logCorrections(submission, items);
+            } catch (error) {
+              console.warn('⚠️ Could not log OCR corrections:', error);
+            }
 
-            // Analyze the test
             const analysisResult = await analyzeTest({
-              files: [{
-                fileName: uploadedFile.file.name,
+              files: reviewed.extractResults.map(extractResult => ({
+                fileName: extractResult.fileName,
                 extractedText: extractResult.extractedText,
                 structuredData: extractResult.structuredData
-              }],
-              examId: extractResult.examId || 'auto-detected',
-              studentName: extractResult.studentName || 'auto-detected'
+              })),
+              examId: reviewed.examId || 'auto-detected',
+              studentName: reviewed.studentName || 'auto-detected'
             });
 
+            if (analysisResult.aiBudgetNotice) {
+              budgetNotice = analysisResult.aiBudgetNotice;
+            }
+
+            setUploadedFiles(prev => prev.map(f => 
+              fileIds.includes(f.id) ? { ...f, status: 'completed' } : f
+            ));
+
             const result: TestResult = {
-              fileName: uploadedFile.file.name,
-              studentName: extractResult.studentName || 'Student Name Not Detected',
-              examId: extractResult.examId || 'Exam ID Not Detected',
+              fileName: submission.pages.map(page => page.fileName).join(', '),
+              studentName: reviewed.studentName || 'Student Name Not Detected',
+              examId: reviewed.examId || 'Exam ID Not Detected',
               overallScore: analysisResult.overall_score,
               grade: analysisResult.grade,
               totalPointsEarned: analysisResult.total_points_earned,
@@ -180,14 +359,13 @@ const UploadTest = () => {
 
             return result;
           } catch (error) {
-            console.error(`Error processing ${uploadedFile.file.name}:`, error);
-            
-            // Update file status to error
+            console.error(`Error grading ${submission.pages.map(page => page.fileName).join(', ')}:`, error);
+
             setUploadedFiles(prev => prev.map(f => 
-              f.id === uploadedFile.id ? { 
+              fileIds.includes(f.id) ? { 
                 ...f, 
                 status: 'error',
-                error: error instanceof Error ? error.message : 'Processing failed'
+                error: error instanceof Error ? error.message : 'Grading failed'
               } : f
             ));
 
@@ -195,65 +373,86 @@ const UploadTest = () => {
           }
         });
 
-        // Wait for batch to complete
         const batchResults = await Promise.allSettled(batchPromises);
-        
+
         batchResults.forEach((result, index) => {
-          processedCount++;
-          setProcessedFileCount(processedCount);
-          setProcessingProgress((processedCount / totalFiles) * 100);
-          
+          gradedCount += batch[index].fileIds.length;
+          setProcessedFileCount(gradedCount);
+          setProcessingProgress((gradedCount / units.reduce((sum, unit) => sum + unit.fileIds.length, 0)) * 100);
+
           if (result.status === 'fulfilled') {
             results.push(result.value);
           }
         });
       }
 
-      setCurrentStage('complete');
-
-      const totalTime = Date.now() - startTime;
-      const successCount = results.length;
-      const errorCount = totalFiles - successCount;
-
-      // Set processing statistics
-      setProcessingStats({
-        totalFiles,
-        successCount,
-        errorCount,
-        totalProcessingTime: totalTime,
-        averageTimePerFile: totalTime / totalFiles,
-        batchProcessingUsed: totalFiles > 1,
-        smartOcrEnabled: true,
-        cachingEnabled: true,
-        securityScanEnabled: true,
-        optimizationsApplied: [
-          'Smart OCR',
-          'Batch Processing',
-          'Intelligent Caching',
-          'Security Scanning',
-          'Auto Student/Exam Detection'
-        ]
-      });
+      finishRun(results, totalFiles, totalTests, startTime);
 
-      setTestResults(results);
-      
-      if (successCount > 0) {
-        toast.success(`Successfully processed ${successCount} test${successCount > 1 ? 's' : ''}`);
+      if (budgetNotice) {
+        toast.warning(`${budgetNotice}. Answers were graded against the answer key without AI; review open-response questions.`);
       }
-      
-      if (errorCount > 0) {
-        toast.error(`${errorCount} test${errorCount > 1 ? 's' : ''} failed to process`);
-      }
-
     } catch (error) {
-      console.error('Batch processing error:', error);
-      toast.error('Failed to process tests');
+      console.error('Batch grading error:', error);
+      toast.error('Failed to grade tests');
     } finally {
+      units.forEach(unit => ScanReviewService.releaseSubmission(unit.submission));
+      setPendingReview(null);
       setIsProcessing(false);
       setProcessingProgress(100);
     }
   };
 
+  const discardReview = () => {
+    pendingReview?.units.forEach(unit => ScanReviewService.releaseSubmission(unit.submission));
+    setPendingReview(null);
+    setCurrentStage('upload');
+    toast.info('Review discarded; no results were saved');
+  };
+
+  const finishRun = (results: TestResult[], totalFiles: number, totalTests: number, startTime: number) => {
+    setCurrentStage('complete');
+
+    const totalTime = Date.now() - startTime;
+    const successCount = results.length;
+    const errorCount = totalTests - successCount;
+
+    // Set processing statistics
+    setProcessingStats({
+      totalFiles,
+      successCount,
+      errorCount,
+      totalProcessingTime: totalTime,
+      averageTimePerFile: totalTime / totalFiles,
+      batchProcessingUsed: totalFiles > 1,
+      smartOcrEnabled: true,
+      cachingEnabled: true,
+      securityScanEnabled: true,
+      optimizationsApplied: [
+        'Smart OCR',
+        'Batch Processing',
+        'Intelligent Caching',
+        'Security Scanning',
+        'Auto Student/Exam Detection',
+        'Teacher Scan Review'
+      ]
+    });
+
+    setTestResults(results);
+    
+    if (successCount > 0) {
+      toast.success(`Successfully processed ${successCount} test${successCount > 1 ? 's' : ''}`);
+    }
+    
+    if (errorCount > 0) {
+      toast.error(`${errorCount} test${errorCount > 1 ? 's' : ''} failed to process`);
+    }
+  };
+
+  const reviewSubmissions = useMemo(
+    () => pendingReview?.units.map(unit => unit.submission) || [],
+    [pendingReview]
+  );
+
   const getFileStatusIcon = (status: UploadedFile['status']) => {
     switch (status) {
       case 'completed': return <CheckCircle className="h-4 w-4 text-green-600" />;
@@ -355,9 +554,12 @@ const UploadTest = () => {
                     {uploadedFile.error && (
                       <p className="text-sm text-red-600 mt-1">{uploadedFile.error}</p>
                     )}
+                    {uploadedFile.warning && (
+                      <p className="text-sm text-amber-600 mt-1">{uploadedFile.warning}</p>
+                    )}
                   </div>
                 </div>
-                {!isProcessing && (
+                {!isProcessing && !pendingReview && (
                   <Button
                     variant="ghost"
                     size="sm"
@@ -379,7 +581,7 @@ const UploadTest = () => {
             <div className="space-y-4">
               <Button
                 onClick={processAllTests}
-                disabled={isProcessing}
+                disabled={isProcessing || !!pendingReview}
                 className="w-full"
                 size="lg"
               >
@@ -411,6 +613,16 @@ const UploadTest = () => {
         </Card>
       )}
 
+      {/* Review before grading */}
+      {pendingReview && (
+        <ScanReviewWorkbench
+          submissions={reviewSubmissions}
+          confirming={isProcessing}
+          onConfirm={commitReviewedTests}
+          onCancel={discardReview}
+        />
+      )}
+
       {/* Results */}
       {testResults.length > 0 && (
         <Card>
@@ -0,0 +1,347 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type PracticeDifficulty = 'review' | 'mixed' | 'challenge';
+
+export type ExplanationStyle = 'step_by_step' | 'worked_example' | 'conceptual' | 'visual';
+
+export interface PracticePlan {
+  difficulty: PracticeDifficulty;
+  questionCount: number;
+  explanationStyle: ExplanationStyle;
+  rationale: string;
+}
+
+export interface AdaptiveProfile {
+  id: string;
+  student_id: string;
+  learning_velocity: number | null;
+  optimal_session_length_minutes: number | null;
+  preferred_explanation_style: string | null;
+  zone_of_proximal_development: Json | null;
+  scaffolding_preferences: Json | null;
+  confidence_trend: string | null;
+}
+
+export interface PracticeQuestionResult {
+  questionId: string;
+  isCorrect: boolean;
+  pointsEarned: number;
+  pointsPossible: number;
+}
+
+export interface PracticeOutcome {
+  studentId: string;
+  skillName: string;
+  skillType?: string;
+  sessionId?: string | null;
+  difficulty: string;
+  explanationStyle?: string | null;
+  baselineScore: number;
+  finalScore: number;
+  durationSeconds: number;
+  questionResults: PracticeQuestionResult[];
+}
+
+interface SkillZone {
+  level: PracticeDifficulty;
+  lastAccuracy: number;
+  updatedAt: string;
+}
+
+interface StyleStats {
+  sessions: number;
+  totalImprovement: number;
+}
+
+const DIFFICULTY_LEVELS: PracticeDifficulty[] = ['review', 'mixed', 'challenge'];
+const EXPLANATION_STYLES: ExplanationStyle[] = ['step_by_step', 'worked_example', 'conceptual', 'visual'];
+const DEFAULT_EXPLANATION_STYLE: ExplanationStyle = 'step_by_step';
+const DEFAULT_SESSION_LENGTH_MINUTES = 12;
+const MINUTES_PER_QUESTION = 3;
+const MIN_QUESTIONS = 3;
+const MAX_QUESTIONS = 10;
+// Average score change per session (percentage points) that counts as fast or slipping
+const FAST_VELOCITY = 5;
+const SLIPPING_VELOCITY = -5;
+// Session accuracy that moves a skill's zone up or down a difficulty level
+const STEP_UP_ACCURACY = 0.85;
+const STEP_DOWN_ACCURACY = 0.5;
+// A style needs this many sessions before its results are trusted
+const MIN_STYLE_SESSIONS = 2;
+
+// Difficulty names used by generate-tailored-exercise
+export const TAILORED_EXERCISE_DIFFICULTY: Record<PracticeDifficulty, 'easy' | 'medium' | 'hard'> = {
+  review: 'easy',
+  mixed: 'medium',
+  challenge: 'hard'
+};
+
+/**
+ * Service for the adaptive learning profile that tunes practice to how each student is progressing
+ */
+export class AdaptiveLearningService {
+
+  static async getProfile(studentId: string): Promise<AdaptiveProfile | null> {
+    const { data, error } = await supabase
+      .from('adaptive_learning_profiles')
+      .select('id, student_id, learning_velocity, optimal_session_length_minutes, preferred_explanation_style, zone_of_proximal_development, scaffolding_preferences, confidence_trend')
+      .eq('student_id', studentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching adaptive profile:', error);
+      throw new Error(`Failed to fetch adaptive profile: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Choose difficulty, length and explanation style for the student's next practice on a skill.
+   * Students without a profile get the score-based defaults.
+   */
+  static async getPracticePlan(studentId: string, skillName: string, currentScore: number): Promise<PracticePlan> {
+    let profile: AdaptiveProfile | null = null;
+    try {
+      profile = await this.getProfile(studentId);
+    } catch (error) {
+      console.warn('Falling back to default practice plan:', error);
+    }
+
+    const reasons: string[] = [];
+    const zone = this.getSkillZones(profile)[skillName];
+    let levelIndex: number;
+
+    if (zone) {
+      levelIndex = DIFFICULTY_LEVELS.indexOf(zone.level);
+      reasons.push(`last practice on this skill settled at ${zone.level} (${Math.round(zone.lastAccuracy * 100)}% correct)`);
+    } else {
+      levelIndex = currentScore < 60 ? 0 : currentScore < 80 ? 1 : 2;
+      reasons.push(`skill score ${Math.round(currentScore)}%`);
+
+      const velocity = profile?.learning_velocity || 0;
+      if (velocity >= FAST_VELOCITY) {
+        levelIndex += 1;
+        reasons.push(`improving fast (+${velocity.toFixed(1)} pts/session)`);
+      } else if (velocity <= SLIPPING_VELOCITY) {
+        levelIndex -= 1;
+        reasons.push(`scores slipping (${velocity.toFixed(1)} pts/session)`);
+      }
+    }
+
+    const sessionLength = profile?.optimal_session_length_minutes || DEFAULT_SESSION_LENGTH_MINUTES;
+    const questionCount = Math.min(MAX_QUESTIONS, Math.max(MIN_QUESTIONS, Math.round(sessionLength / MINUTES_PER_QUESTION)));
+    reasons.push(`${sessionLength}-minute sessions work best`);
+
+    const explanationStyle = this.isExplanationStyle(profile?.preferred_explanation_style)
+      ? profile.preferred_explanation_style
+      : DEFAULT_EXPLANATION_STYLE;
+
+    return {
+      difficulty: DIFFICULTY_LEVELS[Math.min(2, Math.max(0, levelIndex))],
+      questionCount,
+      explanationStyle,
+      rationale: reasons.join('; ')
+    };
+  }
+
+  /**
+   * Practice plan for a roster student, whose profile is keyed by their login once they have one
+   */
+  static async getPracticePlanForRosterStudent(studentProfileId: string, skillName: string, currentScore: number): Promise<PracticePlan> {
+    const { data } = await supabase
+      .from('student_profiles')
+      .select('authenticated_user_id')
+      .eq('id', studentProfileId)
+      .maybeSingle();
+
+    return this.getPracticePlan(data?.authenticated_user_id || studentProfileId, skillName, currentScore);
+  }
+
+  /**
+   * Record which plan was used so its effectiveness can be reviewed later
+   */
+  static async logRecommendation(studentId: string, skillName: string, currentScore: number, plan: PracticePlan, triggerEvent: string): Promise<void> {
+    const { error } = await supabase
+      .from('adaptive_recommendations_log')
+      .insert({
+        student_id: studentId,
+        skill_context: skillName,
+        recommendation_type: 'practice_plan',
+        recommendation_data: { ...plan },
+        rationale: plan.rationale,
+        trigger_event: triggerEvent,
+        current_performance: currentScore,
+        was_implemented: true,
+        implementation_timestamp: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error logging adaptive recommendation:', error);
+    }
+  }
+
+  /**
+   * Log a trajectory event per question and fold the session into the student's profile:
+   * learning velocity, the skill's difficulty zone, session length and explanation style.
+   */
+  static async recordPracticeOutcome(outcome: PracticeOutcome): Promise<void> {
+    try {
+      const { error: profileError } = await supabase.rpc('get_or_create_adaptive_profile', {
+        p_student_id: outcome.studentId
+      });
+      if (profileError) throw profileError;
+
+      await this.logTrajectoryEvents(outcome);
+
+      const correct = outcome.questionResults.filter(result => result.isCorrect).length;
+      const accuracy = outcome.questionResults.length > 0 ? correct / outcome.questionResults.length : 0;
+      const scoreChange = outcome.finalScore - outcome.baselineScore;
+      const durationMinutes = Math.max(1, Math.round(outcome.durationSeconds / 60));
+
+      const { error: metricsError } = await supabase
+        .from('adaptive_learning_metrics')
+        .insert([
+          { metric_type: 'session_accuracy', metric_value: accuracy },
+          { metric_type: 'score_change', metric_value: scoreChange },
+          { metric_type: 'session_length_minutes', metric_value: durationMinutes }
+        ].map(metric => ({
+          ...metric,
+          student_id: outcome.studentId,
+          skill_context: outcome.skillName,
+          session_context: outcome.sessionId || null,
+          metadata: { difficulty: outcome.difficulty, explanationStyle: outcome.explanationStyle || null }
+        })));
+
+      if (metricsError) {
+        console.error('Error logging adaptive metrics:', metricsError);
+      }
+
+      const { error: velocityError } = await supabase.rpc('update_learning_velocity', {
+        p_student_id: outcome.studentId,
+        p_performance_change: scoreChange
+      });
+      if (velocityError) {
+        console.error('Error updating learning velocity:', velocityError);
+      }
+
+      const profile = await this.getProfile(outcome.studentId);
+      if (!profile) return;
+
+      const zones = this.getSkillZones(profile);
+      zones[outcome.skillName] = {
+        level: this.nextLevel(outcome.difficulty, accuracy),
+        lastAccuracy: accuracy,
+        updatedAt: new Date().toISOString()
+      };
+
+      const preferences = (profile.scaffolding_preferences || {}) as { explanationStyles?: Record<string, StyleStats> };
+      const styleStats = { ...(preferences.explanationStyles || {}) };
+      if (this.isExplanationStyle(outcome.explanationStyle)) {
+        const stats = styleStats[outcome.explanationStyle] || { sessions: 0, totalImprovement: 0 };
+        styleStats[outcome.explanationStyle] = {
+          sessions: stats.sessions + 1,
+          totalImprovement: stats.totalImprovement + scoreChange
+        };
+      }
+
+      // Longer sessions while the student is succeeding, shorter when they struggle
+      const currentLength = profile.optimal_session_length_minutes || DEFAULT_SESSION_LENGTH_MINUTES;
+      const observedLength = accuracy >= 0.7 ? durationMinutes + MINUTES_PER_QUESTION : Math.max(5, durationMinutes - MINUTES_PER_QUESTION);
+      const optimalLength = Math.round(currentLength * 0.7 + observedLength * 0.3);
+
+      const { error: updateError } = await supabase
+        .from('adaptive_learning_profiles')
+        .update({
+          zone_of_proximal_development: zones as unknown as Json,
+          scaffolding_preferences: { ...preferences, explanationStyles: styleStats } as unknown as Json,
+          preferred_explanation_style: this.pickExplanationStyle(styleStats, profile.learning_velocity || 0),
+          optimal_session_length_minutes: optimalLength,
+          confidence_trend: scoreChange > 2 ? 'improving' : scoreChange < -2 ? 'declining' : 'stable',
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', profile.id);
+
+      if (updateError) {
+        console.error('Error updating adaptive profile:', updateError);
+        return;
+      }
+
+      console.log(`🧠 Adaptive profile updated for ${outcome.skillName}: ${Math.round(accuracy * 100)}% correct at ${outcome.difficulty}, next ${zones[outcome.skillName].level}`);
+    } catch (error) {
+      console.error('Error recording practice outcome:', error);
+    }
+  }
+
+  private static async logTrajectoryEvents(outcome: PracticeOutcome): Promise<void> {
+    const secondsPerQuestion = outcome.questionResults.length > 0
+      ? Math.round(outcome.durationSeconds / outcome.questionResults.length)
+      : null;
+    let correctSoFar = 0;
+
+    const events = outcome.questionResults.map((result, index) => {
+      const accuracyBefore = index > 0 ? (correctSoFar / index) * 100 : outcome.baselineScore;
+      if (result.isCorrect) correctSoFar += 1;
+
+      return {
+        student_id: outcome.studentId,
+        skill_name: outcome.skillName,
+        skill_type: outcome.skillType || 'content',
+        session_id: outcome.sessionId || null,
+        event_type: result.isCorrect ? 'question_correct' : 'question_incorrect',
+        difficulty_level: outcome.difficulty,
+        performance_before: accuracyBefore,
+        performance_after: (correctSoFar / (index + 1)) * 100,
+        time_to_resolution_seconds: secondsPerQuestion,
+        successful_explanation_type: result.isCorrect ? outcome.explanationStyle || null : null,
+        question_context: {
+          questionId: result.questionId,
+          questionNumber: index + 1,
+          pointsEarned: result.pointsEarned,
+          pointsPossible: result.pointsPossible
+        }
+      };
+    });
+
+    if (events.length === 0) return;
+
+    const { error } = await supabase.from('learning_trajectory_events').insert(events);
+    if (error) {
+      console.error('Error logging learning trajectory events:', error);
+    }
+  }
+
+  private static getSkillZones(profile: AdaptiveProfile | null): Record<string, SkillZone> {
+    const zones = profile?.zone_of_proximal_development;
+    if (!zones || typeof zones !== 'object' || Array.isArray(zones)) return {};
+    return { ...(zones as unknown as Record<string, SkillZone>) };
+  }
+
+  private static nextLevel(difficulty: string, accuracy: number): PracticeDifficulty {
+    const index = Math.max(0, DIFFICULTY_LEVELS.indexOf(difficulty as PracticeDifficulty));
+    if (accuracy >= STEP_UP_ACCURACY) return DIFFICULTY_LEVELS[Math.min(2, index + 1)];
+    if (accuracy <= STEP_DOWN_ACCURACY) return DIFFICULTY_LEVELS[Math.max(0, index - 1)];
+    return DIFFICULTY_LEVELS[index];
+  }
+
+  /**
+   * Best average improvement among styles with enough sessions. While the student isn't
+   * improving, try a style that hasn't been tested yet instead.
+   */
+  private static pickExplanationStyle(styleStats: Record<string, StyleStats>, velocity: number): ExplanationStyle {
+    const untried = EXPLANATION_STYLES.find(style => (styleStats[style]?.sessions || 0) < MIN_STYLE_SESSIONS);
+    const tried = EXPLANATION_STYLES
+      .filter(style => (styleStats[style]?.sessions || 0) >= MIN_STYLE_SESSIONS)
+      .sort((a, b) =>
+        styleStats[b].totalImprovement / styleStats[b].sessions - styleStats[a].totalImprovement / styleStats[a].sessions
+      );
+
+    if (velocity <= 0 && untried) return untried;
+    return tried[0] || untried || DEFAULT_EXPLANATION_STYLE;
+  }
+
+  private static isExplanationStyle(style: string | null | undefined): style is ExplanationStyle {
+    return !!style && (EXPLANATION_STYLES as string[]).includes(style);
+  }
+}
@@ -9,6 +9,7 @@ import {
   ModelRoutingDecision,
   ComplexityAnalysis
 } from './shared/aiOptimizationShared';
+import { CostTrackingService, type BudgetMode } from './costTrackingService';
 
 export interface BatchRoutingResult {
   routingDecisions: ModelRoutingDecision[];
@@ -41,6 +42,9 @@ export class AIModelRouter {
   private static sharedRouter = new SharedAIModelRouter(DEFAULT_CONFIG);
   private static analyzer = new SharedQuestionComplexityAnalyzer(DEFAULT_CONFIG);
   private static fallbackAnalyzer = new SimplifiedFallbackAnalyzer(DEFAULT_CONFIG);
+  private static budgetMode: BudgetMode = 'normal';
+  private static budgetCheckedAt = 0;
+  private static readonly BUDGET_REFRESH_MS = 60000;
 
   // Configuration methods
   static updateConfiguration(config: Partial<AIOptimizationConfig>) {
@@ -62,8 +66,54 @@ export class AIModelRouter {
     console.log('⚡ AI Model Router: Aggressive cost optimization enabled');
   }
 
+  /**
+   * Re-read the teacher and school AI budgets, at most once a minute unless forced
+   */
+  static async refreshBudgetStatus(force: boolean = false): Promise<BudgetMode> {
+    if (!force && Date.now() - this.budgetCheckedAt < this.BUDGET_REFRESH_MS) {
+      return this.budgetMode;
+    }
+
+    try {
+      const status = await CostTrackingService.getBudgetStatus();
+      this.budgetMode = CostTrackingService.getBudgetMode(status);
+    } catch (error) {
+      console.warn('⚠️ Could not check AI budgets, routing without them:', error);
+    }
+    this.budgetCheckedAt = Date.now();
+
+    if (this.budgetMode !== 'normal') {
+      console.log(`💰 AI budget near its limit, routing in ${this.budgetMode} mode`);
+    }
+    return this.budgetMode;
+  }
+
+  static getBudgetMode(): BudgetMode {
+    return this.budgetMode;
+  }
+
+  /**
+   * Downgrade a model to what the current budget allows
+   */
+  static applyBudget(model: ModelRoutingDecision['selectedModel']): ModelRoutingDecision['selectedModel'] {
+    if (this.budgetMode === 'local_only') return 'local_distilbert';
+    if (this.budgetMode === 'economy' && model === 'gpt-4.1-2025-04-14') return 'gpt-4o-mini';
+    return model;
+  }
+
   static routeQuestionsForAI(questions: any[], answerKeys: any[]): BatchRoutingResult {
-    const { routingDecisions, distribution } = this.sharedRouter.routeQuestionsForAI(questions, answerKeys);
+    const routed = this.sharedRouter.routeQuestionsForAI(questions, answerKeys);
+    const routingDecisions = routed.routingDecisions.map(decision => {
+      const selectedModel = this.applyBudget(decision.selectedModel);
+      return selectedModel === decision.selectedModel
+        ? decision
+        : { ...decision, selectedModel, fallbackAvailable: false, reasoning: `${decision.reasoning}; downgraded for AI budget` };
+    });
+    const distribution = {
+      ...routed.distribution,
+      gpt4oMini: routingDecisions.filter(d => d.selectedModel === 'gpt-4o-mini').length,
+      gpt41: routingDecisions.filter(d => d.selectedModel === 'gpt-4.1-2025-04-14').length
+    };
     
     // Calculate quality metrics
     const complexityAnalyses = routingDecisions.map(d => d.complexityAnalysis);
@@ -76,6 +126,13 @@ export class AIModelRouter {
     };
   }
 
+  /**
+   * Model for a single question, sent to edge functions as `routedModel`
+   */
+  static routeQuestion(question: unknown, answerKey: unknown): ModelRoutingDecision['selectedModel'] {
+    return this.applyBudget(this.analyzer.analyzeQuestion(question, answerKey).recommendedModel);
+  }
+
   static shouldFallbackToGPT41(gpt4oMiniResult: any, originalComplexity: ComplexityAnalysis): boolean {
     const result = this.fallbackAnalyzer.shouldFallbackToGPT41(gpt4oMiniResult, originalComplexity);
     
@@ -0,0 +1,458 @@
+import { supabase } from "@/integrations/supabase/client";
+import { createStudentLink } from "./studentLinkService";
+import type { Json } from "@/integrations/supabase/types";
+
+export type AssignmentType = 'exam' | 'practice_test' | 'lesson_plan_exercises';
+
+export type AssignmentStatus = 'assigned' | 'overdue' | 'submitted' | 'graded';
+
+export interface Assignment {
+  id: string;
+  class_id: string | null;
+  teacher_id: string | null;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  assignment_type: AssignmentType;
+  exam_id: string | null;
+  lesson_plan_id: string | null;
+  student_link_id: string | null;
+  content_data: Json | null;
+  is_active: boolean | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface AssignmentSubmission {
+  id: string;
+  assignment_id: string;
+  student_id: string;
+  status: 'submitted' | 'graded';
+  score: number | null;
+  feedback: string | null;
+  test_result_id: string | null;
+  submitted_at: string;
+  graded_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssignmentNotification {
+  id: string;
+  assignment_id: string | null;
+  title: string;
+  message: string | null;
+  type: string | null;
+  is_read: boolean | null;
+  created_at: string | null;
+}
+
+export interface StudentAssignment extends Assignment {
+  status: AssignmentStatus;
+  submission: AssignmentSubmission | null;
+  class_name?: string;
+  quiz_token?: string;
+}
+
+export interface ClassAssignmentSummary extends Assignment {
+  submissions: AssignmentSubmission[];
+  enrolled_count: number;
+  submitted_count: number;
+  graded_count: number;
+}
+
+export interface CreateAssignmentRequest {
+  classId: string;
+  teacherId: string;
+  teacherName: string;
+  title: string;
+  description?: string;
+  dueDate?: string;
+  assignmentType: AssignmentType;
+  examId?: string;
+  lessonPlanId?: string;
+  skillName?: string;
+}
+
+// Quiz links for assigned exams stay open a little past the due date so late work can still come in
+const LATE_SUBMISSION_GRACE_DAYS = 7;
+const DEFAULT_LINK_LIFETIME_DAYS = 30;
+
+/**
+ * Service for assigning exams, practice tests and lesson-plan exercise sets
+ * to classes, and for tracking each enrolled student's progress on them.
+ */
+export class AssignmentService {
+
+  /**
+   * Derive the display status for a student from their submission and the due date
+   */
+  static getAssignmentStatus(assignment: Pick<Assignment, 'due_date'>, submission: AssignmentSubmission | null, now: Date = new Date()): AssignmentStatus {
+    if (submission?.status === 'graded') return 'graded';
+    if (submission) return 'submitted';
+    if (assignment.due_date && new Date(assignment.due_date) < now) return 'overdue';
+    return 'assigned';
+  }
+
+  /**
+   * Get the auth profile ids of students actively enrolled in a class
+   */
+  static async getEnrolledStudentIds(classId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('class_enrollments')
+      .select('student_profile_id')
+      .eq('class_id', classId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Error fetching class enrollments:', error);
+      throw new Error(`Failed to fetch class enrollments: ${error.message}`);
+    }
+
+    return (data || []).map(enrollment => enrollment.student_profile_id);
+  }
+
+  /**
+   * Create an assignment and notify every enrolled student
+   */
+  static async createAssignment(request: CreateAssignmentRequest): Promise<Assignment> {
+    try {
+      console.log('📝 Creating assignment for class:', request.classId, request.assignmentType);
+
+      if (request.assignmentType === 'exam' && !request.examId) {
+        throw new Error('An exam assignment needs an exam');
+      }
+      if (request.assignmentType === 'lesson_plan_exercises' && !request.lessonPlanId) {
+        throw new Error('A lesson plan assignment needs a lesson plan');
+      }
+      if (request.assignmentType === 'practice_test' && !request.skillName) {
+        throw new Error('A practice test assignment needs a target skill');
+      }
+
+      // Exams are taken online through a quiz link, reusing the quiz runner
+      let studentLinkId: string | null = null;
+      if (request.assignmentType === 'exam') {
+        const expiresAt = request.dueDate ? new Date(request.dueDate) : new Date();
+        expiresAt.setDate(expiresAt.getDate() + (request.dueDate ? LATE_SUBMISSION_GRACE_DAYS : DEFAULT_LINK_LIFETIME_DAYS));
+
+        const link = await createStudentLink({
+          link_type: 'quiz',
+          exam_id: request.examId,
+          class_id: request.classId,
+          teacher_name: request.teacherName,
+          title: request.title,
+          description: request.description,
+          expires_at: expiresAt.toISOString(),
+          max_attempts: 1,
+          attempts_per_student: true
+        });
+        studentLinkId = link.id;
+      }
+
+      const { data, error } = await supabase
+        .from('assignments')
+        .insert({
+          class_id: request.classId,
+          teacher_id: request.teacherId,
+          title: request.title,
+          description: request.description || null,
+          due_date: request.dueDate || null,
+          assignment_type: request.assignmentType,
+          exam_id: request.examId || null,
+          lesson_plan_id: request.lessonPlanId || null,
+          student_link_id: studentLinkId,
+          content_data: request.skillName ? { skillName: request.skillName } : null,
+          is_active: true
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating assignment:', error);
+        throw new Error(`Failed to create assignment: ${error.message}`);
+      }
+
+      const assignment = data as Assignment;
+
+      try {
+        await this.notifyEnrolledStudents(assignment, request.teacherId);
+      } catch (notifyError) {
+        // The assignment itself is saved; students still see it on their landing page
+        console.warn('⚠️ Failed to send assignment notifications:', notifyError);
+      }
+
+      console.log('✅ Assignment created:', assignment.id);
+      return assignment;
+    } catch (error) {
+      console.error('Error in createAssignment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send an assignment notification to every student enrolled in the class
+   */
+  static async notifyEnrolledStudents(assignment: Assignment, senderId: string): Promise<number> {
+    if (!assignment.class_id) return 0;
+
+    const studentIds = await this.getEnrolledStudentIds(assignment.class_id);
+    if (studentIds.length === 0) return 0;
+
+    const dueText = assignment.due_date
+      ? ` Due ${new Date(assignment.due_date).toLocaleDateString()}.`
+      : '';
+
+    const { error } = await supabase
+      .from('notifications')
+      .insert(studentIds.map(studentId => ({
+        recipient_id: studentId,
+        sender_id: senderId,
+        assignment_id: assignment.id,
+        title: `New assignment: ${assignment.title}`,
+        message: `${assignment.description || 'You have new work assigned.'}${dueText}`,
+        type: 'assignment'
+      })));
+
+    if (error) {
+      console.error('Error creating notifications:', error);
+      throw new Error(`Failed to create notifications: ${error.message}`);
+    }
+
+    console.log(`📣 Notified ${studentIds.length} students about assignment ${assignment.id}`);
+    return studentIds.length;
+  }
+
+  /**
+   * Get all active assignments for a class with submission counts
+   */
+  static async getClassAssignments(classId: string): Promise<ClassAssignmentSummary[]> {
+    try {
+      const { data: assignments, error } = await supabase
+        .from('assignments')
+        .select('*')
+        .eq('class_id', classId)
+        .eq('is_active', true)
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        console.error('Error fetching class assignments:', error);
+        throw new Error(`Failed to fetch class assignments: ${error.message}`);
+      }
+
+      if (!assignments || assignments.length === 0) return [];
+
+      const [submissions, enrolledIds] = await Promise.all([
+        this.getSubmissionsForAssignments(assignments.map(a => a.id)),
+        this.getEnrolledStudentIds(classId)
+      ]);
+
+      return assignments.map(assignment => {
+        const assignmentSubmissions = submissions.filter(s => s.assignment_id === assignment.id);
+        return {
+          ...(assignment as Assignment),
+          submissions: assignmentSubmissions,
+          enrolled_count: enrolledIds.length,
+          submitted_count: assignmentSubmissions.length,
+          graded_count: assignmentSubmissions.filter(s => s.status === 'graded').length
+        };
+      });
+    } catch (error) {
+      console.error('Error in getClassAssignments:', error);
+      throw error;
+    }
+  }
+
+  static async getSubmissionsForAssignments(assignmentIds: string[]): Promise<AssignmentSubmission[]> {
+    if (assignmentIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('assignment_submissions')
+      .select('*')
+      .in('assignment_id', assignmentIds);
+
+    if (error) {
+      console.error('Error fetching assignment submissions:', error);
+      throw new Error(`Failed to fetch assignment submissions: ${error.message}`);
+    }
+
+    return (data || []) as AssignmentSubmission[];
+  }
+
+  /**
+   * Look up display names for the students on a submission list
+   */
+  static async getStudentNames(studentIds: string[]): Promise<Record<string, string>> {
+    if (studentIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name, email')
+      .in('id', studentIds);
+
+    if (error) {
+      console.error('Error fetching student names:', error);
+      return {};
+    }
+
+    return Object.fromEntries((data || []).map(p => [p.id, p.full_name || p.email || 'Student']));
+  }
+
+  /**
+   * Get every active assignment for a student's enrolled classes with their status
+   */
+  static async getStudentAssignments(studentId: string): Promise<StudentAssignment[]> {
+    try {
+      console.log('📋 Fetching assignments for student:', studentId);
+
+      const { data: enrollments, error: enrollmentError } = await supabase
+        .from('class_enrollments')
+        .select('class_id, active_classes(name)')
+        .eq('student_profile_id', studentId)
+        .eq('is_active', true);
+
+      if (enrollmentError) {
+        console.error('Error fetching student enrollments:', enrollmentError);
+        return [];
+      }
+
+      const classIds = (enrollments || []).map(e => e.class_id);
+      if (classIds.length === 0) return [];
+
+      const classNames = new Map<string, string>(
+        (enrollments || []).map(e => [e.class_id, (e.active_classes as { name?: string } | null)?.name || ''])
+      );
+
+      const { data: assignments, error } = await supabase
+        .from('assignments')
+        .select('*, student_links(token)')
+        .in('class_id', classIds)
+        .eq('is_active', true)
+        .order('due_date', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        console.error('Error fetching student assignments:', error);
+        return [];
+      }
+
+      const { data: submissions, error: submissionError } = await supabase
+        .from('assignment_submissions')
+        .select('*')
+        .eq('student_id', studentId);
+
+      if (submissionError) {
+        console.error('Error fetching student submissions:', submissionError);
+      }
+
+      const now = new Date();
+      return (assignments || []).map(({ student_links, ...assignment }) => {
+        const submission = (submissions || []).find(s => s.assignment_id === assignment.id) as AssignmentSubmission | undefined;
+        return {
+          ...(assignment as Assignment),
+          submission: submission || null,
+          status: this.getAssignmentStatus(assignment, submission || null, now),
+          class_name: classNames.get(assignment.class_id || ''),
+          quiz_token: (student_links as { token?: string } | null)?.token
+        };
+      });
+    } catch (error) {
+      console.error('Error in getStudentAssignments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Student hands in an assignment that is not graded automatically
+   */
+  static async submitAssignment(assignmentId: string, studentId: string): Promise<AssignmentSubmission> {
+    const { data, error } = await supabase
+      .from('assignment_submissions')
+      .insert({
+        assignment_id: assignmentId,
+        student_id: studentId,
+        status: 'submitted'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error submitting assignment:', error);
+      throw new Error(`Failed to submit assignment: ${error.message}`);
+    }
+
+    return data as AssignmentSubmission;
+  }
+
+  /**
+   * Teacher grades a submitted assignment
+   */
+  static async gradeSubmission(submissionId: string, score: number, feedback?: string): Promise<AssignmentSubmission> {
+    const { data, error } = await supabase
+      .from('assignment_submissions')
+      .update({
+        status: 'graded',
+        score,
+        feedback: feedback || null,
+        graded_at: new Date().toISOString()
+      })
+      .eq('id', submissionId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error grading submission:', error);
+      throw new Error(`Failed to grade submission: ${error.message}`);
+    }
+
+    return data as AssignmentSubmission;
+  }
+
+  /**
+   * Remove an assignment from students' lists without losing submissions
+   */
+  static async archiveAssignment(assignmentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('assignments')
+      .update({ is_active: false })
+      .eq('id', assignmentId);
+
+    if (error) {
+      console.error('Error archiving assignment:', error);
+      throw new Error(`Failed to archive assignment: ${error.message}`);
+    }
+  }
+
+  static async getStudentNotifications(studentId: string, unreadOnly: boolean = false): Promise<AssignmentNotification[]> {
+    let query = supabase
+      .from('notifications')
+      .select('id, assignment_id, title, message, type, is_read, created_at')
+      .eq('recipient_id', studentId)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (unreadOnly) {
+      query = query.eq('is_read', false);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async markNotificationsRead(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ is_read: true })
+      .in('id', notificationIds);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  }
+}
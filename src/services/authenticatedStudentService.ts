@@ -35,6 +35,18 @@ export interface AuthenticatedStudentTestResult {
   created_at: string;
 }
 
+export interface AuthenticatedStudentPracticeSession {
+  id: string;
+  skill_name: string;
+  class_name: string;
+  subject: string;
+  current_skill_score: number;
+  final_score: number | null;
+  improvement_shown: number | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
 /**
  * Service for fetching student data using authenticated user IDs
  * This is part of Phase 3 migration to move away from mock student IDs
@@ -113,6 +125,29 @@ export class AuthenticatedStudentService {
     }
   }
 
+  /**
+   * Get practice sessions for authenticated user
+   */
+  static async getPracticeSessions(authenticatedUserId: string): Promise<AuthenticatedStudentPracticeSession[]> {
+    try {
+      const { data, error } = await supabase
+        .from('student_practice_sessions')
+        .select('id, skill_name, class_name, subject, current_skill_score, final_score, improvement_shown, completed_at, created_at')
+        .eq('authenticated_student_id', authenticatedUserId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching authenticated user practice sessions:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('Error in getPracticeSessions:', error);
+      return [];
+    }
+  }
+
   /**
    * Get enrolled classes for authenticated user
    */
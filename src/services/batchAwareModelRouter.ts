@@ -86,6 +86,10 @@ export class BatchAwareModelRouter {
   }
 
   private selectOptimalModel(batch: BatchGroup, riskLevel: 'low' | 'medium' | 'high'): string {
+    return AIModelRouter.applyBudget(this.selectModelForRisk(batch, riskLevel));
+  }
+
+  private selectModelForRisk(batch: BatchGroup, riskLevel: 'low' | 'medium' | 'high'): ModelRoutingDecision['selectedModel'] {
     // For high-risk batches, prefer individual processing with GPT-4.1
     if (riskLevel === 'high' && batch.complexity === 'complex') {
       return 'gpt-4.1-2025-04-14';
@@ -97,7 +101,7 @@ export class BatchAwareModelRouter {
     }
 
     // Default to the batch's recommended model
-    return batch.recommendedModel;
+    return batch.recommendedModel as ModelRoutingDecision['selectedModel'];
   }
 
   private determineFallbackStrategy(
@@ -1,16 +1,9 @@
-export interface BatchJob {
-  id: string;
-  files: File[];
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
-  priority: 'low' | 'normal' | 'high';
-  createdAt: number;
-  startedAt?: number;
-  completedAt?: number;
-  progress: number;
-  results: any[];
-  errors: string[];
-  estimatedTimeRemaining?: number;
-}
+import {
+  EnhancedBatchProcessingService,
+  type EnhancedBatchJob
+} from './enhancedBatchProcessingService';
+
+export type BatchJob = EnhancedBatchJob;
 
 export interface ProcessingQueue {
   activeJobs: BatchJob[];
@@ -19,244 +12,46 @@ export interface ProcessingQueue {
   maxConcurrentJobs: number;
 }
 
+/**
+ * Simple batch processing API. Jobs run on the same durable grading queue as
+ * EnhancedBatchProcessingService, so they survive a reload instead of living in localStorage.
+ */
 export class BatchProcessingService {
-  private static queue: ProcessingQueue = {
-    activeJobs: [],
-    pendingJobs: [],
-    completedJobs: [],
-    maxConcurrentJobs: 8 // Increased from 3 for Phase 1 optimization
-  };
-
-  private static jobListeners: Map<string, (job: BatchJob) => void> = new Map();
-
-  // Enhanced file size calculation for optimal batching
-  private static calculateFileBatchSize(files: File[]): number {
-    const avgFileSize = files.reduce((sum, file) => sum + file.size, 0) / files.length;
-    const smallFileThreshold = 100 * 1024; // 100KB
-    const largeFileThreshold = 1024 * 1024; // 1MB
-    
-    if (avgFileSize < smallFileThreshold) {
-      return Math.min(15, files.length); // Small files: up to 15 per batch
-    } else if (avgFileSize < largeFileThreshold) {
-      return Math.min(10, files.length); // Medium files: up to 10 per batch
-    } else {
-      return Math.min(6, files.length); // Large files: up to 6 per batch
-    }
+  static async createBatchJob(files: File[], priority: 'low' | 'normal' | 'high' = 'normal'): Promise<string> {
+    return EnhancedBatchProcessingService.createBatchJob(files, priority);
   }
 
-  static createBatchJob(files: File[], priority: 'low' | 'normal' | 'high' = 'normal'): string {
-    const jobId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const job: BatchJob = {
-      id: jobId,
-      files,
-      status: 'pending',
-      priority,
-      createdAt: Date.now(),
-      progress: 0,
-      results: [],
-      errors: []
-    };
-
-    // Insert based on priority
-    if (priority === 'high') {
-      this.queue.pendingJobs.unshift(job);
-    } else {
-      this.queue.pendingJobs.push(job);
-    }
-
-    console.log(`Created optimized batch job ${jobId} with ${files.length} files (priority: ${priority})`);
-
-    this.saveQueueState();
-    this.processNextJob();
-    
-    return jobId;
-  }
-
-  static async processNextJob(): Promise<void> {
-    if (this.queue.activeJobs.length >= this.queue.maxConcurrentJobs) {
-      console.log(`Max concurrent jobs reached: ${this.queue.activeJobs.length}/${this.queue.maxConcurrentJobs}`);
-      return;
-    }
-
-    const nextJob = this.queue.pendingJobs.shift();
-    if (!nextJob) return;
-
-    nextJob.status = 'processing';
-    nextJob.startedAt = Date.now();
-    this.queue.activeJobs.push(nextJob);
-
-    console.log(`Starting optimized processing for job ${nextJob.id} with ${nextJob.files.length} files`);
-    this.notifyJobUpdate(nextJob);
-
-    try {
-      await this.processBatchJobOptimized(nextJob);
-    } catch (error) {
-      nextJob.status = 'failed';
-      nextJob.errors.push(error instanceof Error ? error.message : 'Unknown error');
-      console.error(`Job ${nextJob.id} failed:`, error);
-    }
-
-    // Move to completed
-    const activeIndex = this.queue.activeJobs.findIndex(j => j.id === nextJob.id);
-    if (activeIndex >= 0) {
-      this.queue.activeJobs.splice(activeIndex, 1);
-    }
-    
-    nextJob.completedAt = Date.now();
-    this.queue.completedJobs.unshift(nextJob);
-
-    this.saveQueueState();
-    this.notifyJobUpdate(nextJob);
-
-    // Process next job faster
-    setTimeout(() => this.processNextJob(), 500); // Reduced from 1000ms
-  }
-
-  private static async processBatchJobOptimized(job: BatchJob): Promise<void> {
-    const totalFiles = job.files.length;
-    const optimalBatchSize = this.calculateFileBatchSize(job.files);
-    
-    console.log(`Processing job ${job.id} with optimal batch size: ${optimalBatchSize}`);
-    
-    for (let i = 0; i < totalFiles; i += optimalBatchSize) {
-      const batch = job.files.slice(i, i + optimalBatchSize);
-      const batchNumber = Math.floor(i / optimalBatchSize) + 1;
-      const totalBatches = Math.ceil(totalFiles / optimalBatchSize);
-      
-      console.log(`Processing batch ${batchNumber}/${totalBatches} with ${batch.length} files`);
-      
-      try {
-        // Update progress before processing batch
-        job.progress = ((i / totalFiles) * 100);
-        job.estimatedTimeRemaining = this.calculateEstimatedTime(job, i, totalFiles);
-        this.notifyJobUpdate(job);
-
-        // Process batch concurrently
-        const batchPromises = batch.map(file => this.processIndividualFile(file));
-        const batchResults = await Promise.all(batchPromises);
-        
-        job.results.push(...batchResults);
-
-        // Update progress after batch completion
-        job.progress = Math.min(((i + batch.length) / totalFiles) * 100, 100);
-        this.notifyJobUpdate(job);
-
-      } catch (error) {
-        const errorMsg = `Failed to process batch ${batchNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        job.errors.push(errorMsg);
-        console.error(errorMsg);
-      }
-    }
-
-    job.status = job.errors.length === 0 ? 'completed' : 'failed';
-    job.progress = 100;
-  }
-
-  private static async processIndividualFile(file: File): Promise<any> {
-    // Simulate optimized processing time (faster than before)
-    const processingTime = 1000 + Math.random() * 2000; // 1-3 seconds instead of 2-5
-    await new Promise(resolve => setTimeout(resolve, processingTime));
-    
-    return {
-      fileName: file.name,
-      size: file.size,
-      processedAt: Date.now(),
-      success: Math.random() > 0.05, // 95% success rate (improved from 90%)
-      processingTime: processingTime,
-      optimized: true
-    };
-  }
-
-  private static calculateEstimatedTime(job: BatchJob, currentIndex: number, totalFiles: number): number {
-    if (!job.startedAt || currentIndex === 0) return 0;
-    
-    const elapsed = Date.now() - job.startedAt;
-    const avgTimePerFile = elapsed / (currentIndex + 1);
-    const remainingFiles = totalFiles - (currentIndex + 1);
-    
-    // Improved estimation with optimized processing
-    const optimizedTimePerFile = avgTimePerFile * 0.7; // 30% faster with optimizations
-    return Math.round((optimizedTimePerFile * remainingFiles) / 1000); // seconds
+  static async reconnect(): Promise<void> {
+    await EnhancedBatchProcessingService.reconnect();
   }
 
   static subscribeToJob(jobId: string, callback: (job: BatchJob) => void): void {
-    this.jobListeners.set(jobId, callback);
+    EnhancedBatchProcessingService.subscribeToJob(jobId, callback);
   }
 
   static unsubscribeFromJob(jobId: string): void {
-    this.jobListeners.delete(jobId);
-  }
-
-  private static notifyJobUpdate(job: BatchJob): void {
-    const listener = this.jobListeners.get(job.id);
-    if (listener) {
-      listener({ ...job });
-    }
+    EnhancedBatchProcessingService.unsubscribeFromJob(jobId);
   }
 
   static getJob(jobId: string): BatchJob | null {
-    const allJobs = [
-      ...this.queue.activeJobs,
-      ...this.queue.pendingJobs,
-      ...this.queue.completedJobs
-    ];
-    
-    return allJobs.find(job => job.id === jobId) || null;
+    return EnhancedBatchProcessingService.getJob(jobId);
   }
 
   static getQueueStatus(): ProcessingQueue {
-    return { ...this.queue };
-  }
-
-  static pauseJob(jobId: string): boolean {
-    const job = this.queue.activeJobs.find(j => j.id === jobId);
-    if (job) {
-      job.status = 'paused';
-      return true;
-    }
-    return false;
-  }
-
-  static resumeJob(jobId: string): boolean {
-    const job = this.queue.activeJobs.find(j => j.id === jobId);
-    if (job && job.status === 'paused') {
-      job.status = 'processing';
-      return true;
-    }
-    return false;
-  }
-
-  private static saveQueueState(): void {
-    try {
-      localStorage.setItem('batchProcessingQueue', JSON.stringify(this.queue));
-    } catch (error) {
-      console.warn('Failed to save queue state:', error);
-    }
+    const queue = EnhancedBatchProcessingService.getQueueStatus();
+    return {
+      activeJobs: queue.activeJobs,
+      pendingJobs: queue.pendingJobs,
+      completedJobs: queue.completedJobs,
+      maxConcurrentJobs: queue.stats.maxWorkers
+    };
   }
 
-  static loadQueueState(): void {
-    try {
-      const saved = localStorage.getItem('batchProcessingQueue');
-      if (saved) {
-        this.queue = { ...this.queue, ...JSON.parse(saved) };
-        // Reset active jobs to pending on reload
-        this.queue.pendingJobs.push(...this.queue.activeJobs);
-        this.queue.activeJobs = [];
-      }
-    } catch (error) {
-      console.warn('Failed to load queue state:', error);
-    }
+  static async pauseJob(jobId: string): Promise<boolean> {
+    return EnhancedBatchProcessingService.pauseJob(jobId);
   }
 
-  // New method to get optimization stats
-  static getOptimizationStats(): any {
-    return {
-      maxConcurrentJobs: this.queue.maxConcurrentJobs,
-      optimizationLevel: "Phase 1 - Safe Optimization",
-      expectedThroughputImprovement: "3-4x",
-      batchSizeOptimization: "Adaptive based on file size",
-      accuracyTarget: "96-98%"
-    };
+  static async resumeJob(jobId: string): Promise<boolean> {
+    return EnhancedBatchProcessingService.resumeJob(jobId);
   }
 }
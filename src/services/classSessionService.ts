@@ -95,12 +95,15 @@ export async function endClassSession(sessionId: string): Promise<void> {
   }
 }
 
-export async function getActiveClassSessions(teacherId: string): Promise<ClassSession[]> {
+// Sessions the teacher started plus those running in classes shared with them
+export async function getActiveClassSessions(teacherId: string, sharedClassIds: string[] = []): Promise<ClassSession[]> {
   try {
     const { data, error } = await supabase
       .from('class_sessions')
       .select('*')
-      .eq('teacher_id', teacherId)
+      .or(sharedClassIds.length > 0
+        ? `teacher_id.eq.${teacherId},class_id.in.(${sharedClassIds.join(',')})`
+        : `teacher_id.eq.${teacherId}`)
       .eq('is_active', true)
       .order('created_at', { ascending: false });
 
@@ -1,170 +1,225 @@
-export interface CostMetrics {
-  timestamp: Date;
-  examId: string;
-  totalQuestions: number;
-  gpt4oMiniQuestions: number;
-  gpt41Questions: number;
-  fallbacksTriggered: number;
-  estimatedCost: number;
-  potentialCost: number; // What it would have cost with all GPT-4.1
-  savings: number;
-  savingsPercentage: number;
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * One budget's month-to-date position
+ */
+export interface BudgetUsage {
+  limitUsd: number;
+  spentUsd: number;
+  warningThreshold: number;
+  percentUsed: number;
 }
 
-export interface DailyCostSummary {
-  date: string;
-  totalExams: number;
-  totalQuestions: number;
-  totalSavings: number;
-  averageSavingsPercentage: number;
-  modelDistribution: {
-    gpt4oMiniPercentage: number;
-    gpt41Percentage: number;
-  };
+export interface AIBudgetStatus {
+  monthStart: string;
+  teacher: BudgetUsage | null;
+  // The tightest budget among the caller's schools
+  school: BudgetUsage | null;
 }
 
+// A budget a school admin manages: the whole school (teacherId null) or one teacher in it
+export interface SchoolBudget {
+  teacherId: string | null;
+  usage: BudgetUsage;
+}
+
+// How hard the model router should economize: 'economy' keeps everything on the
+// cheapest LLM, 'local_only' stops LLM calls and grades locally
+export type BudgetMode = 'normal' | 'economy' | 'local_only';
+
+export interface CostBreakdownRow {
+  examId: string | null;
+  examTitle: string | null;
+  service: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface ExamCostSummary {
+  examId: string | null;
+  examTitle: string;
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+  rows: CostBreakdownRow[];
+}
+
+export interface MonthlyCostSummary {
+  monthStart: Date;
+  totalCostUsd: number;
+  totalCalls: number;
+  totalTokens: number;
+  byModel: Array<{ model: string; calls: number; costUsd: number }>;
+  exams: ExamCostSummary[];
+}
+
+interface RawBudgetUsage {
+  limit_usd: number;
+  spent_usd: number;
+  warning_threshold: number;
+}
+
+/**
+ * AI spend as recorded in the server-side cost ledger, and the monthly budgets it is measured against
+ */
 export class CostTrackingService {
-  private static readonly GPT_4O_MINI_COST_PER_1K = 0.00015;
-  private static readonly GPT_41_COST_PER_1K = 0.003;
-  private static costHistory: CostMetrics[] = [];
-
-  static trackExamCosts(
-    examId: string,
-    routingDecisions: any[],
-    fallbackCount: number = 0
-  ): CostMetrics {
-    const gpt4oMiniQuestions = routingDecisions.filter(d => d.selectedModel === 'gpt-4o-mini').length - fallbackCount;
-    const gpt41Questions = routingDecisions.filter(d => d.selectedModel === 'gpt-4.1-2025-04-14').length + fallbackCount;
-    
-    // Calculate actual estimated cost
-    const estimatedCost = routingDecisions.reduce((sum, decision) => {
-      if (decision.selectedModel === 'gpt-4o-mini') {
-        return sum + decision.estimatedCost;
-      } else {
-        return sum + decision.estimatedCost;
-      }
-    }, 0);
-
-    // Add fallback costs (fallbacks use GPT-4.1)
-    const fallbackCost = fallbackCount * (this.GPT_41_COST_PER_1K * 150 / 1000); // Assuming 150 tokens average
-    const totalEstimatedCost = estimatedCost + fallbackCost;
-
-    // Calculate what it would have cost with all GPT-4.1
-    const potentialCost = routingDecisions.length * (this.GPT_41_COST_PER_1K * 150 / 1000);
-    
-    const savings = Math.max(0, potentialCost - totalEstimatedCost);
-    const savingsPercentage = potentialCost > 0 ? (savings / potentialCost) * 100 : 0;
-
-    const metrics: CostMetrics = {
-      timestamp: new Date(),
-      examId,
-      totalQuestions: routingDecisions.length,
-      gpt4oMiniQuestions,
-      gpt41Questions,
-      fallbacksTriggered: fallbackCount,
-      estimatedCost: totalEstimatedCost,
-      potentialCost,
-      savings,
-      savingsPercentage
-    };
 
-    this.costHistory.push(metrics);
-    
-    // Keep only last 1000 entries to prevent memory issues
-    if (this.costHistory.length > 1000) {
-      this.costHistory = this.costHistory.slice(-1000);
+  static async getMonthlySummary(month: Date = new Date()): Promise<MonthlyCostSummary> {
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+
+    const { data, error } = await supabase.rpc('get_ai_cost_breakdown', {
+      p_since: monthStart.toISOString(),
+      p_until: monthEnd.toISOString()
+    });
+
+    if (error) {
+      console.error('Error fetching AI cost breakdown:', error);
+      throw new Error(`Failed to fetch AI costs: ${error.message}`);
     }
 
-    console.log(`💰 Cost Tracking: Exam ${examId} - Saved $${savings.toFixed(4)} (${savingsPercentage.toFixed(1)}%)`);
-    console.log(`📊 Model Usage: ${gpt4oMiniQuestions} mini + ${gpt41Questions} standard + ${fallbackCount} fallbacks`);
+    const rows: CostBreakdownRow[] = (data || []).map(row => ({
+      examId: row.exam_id,
+      examTitle: row.exam_title,
+      service: row.service,
+      model: row.model,
+      calls: Number(row.calls),
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      costUsd: Number(row.cost_usd)
+    }));
+
+    const exams = new Map<string, ExamCostSummary>();
+    const models = new Map<string, { model: string; calls: number; costUsd: number }>();
+
+    rows.forEach(row => {
+      const examKey = row.examId || '';
+      const exam = exams.get(examKey) || {
+        examId: row.examId,
+        examTitle: row.examTitle || row.examId || 'Not tied to an exam',
+        calls: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        rows: []
+      };
+      exam.calls += row.calls;
+      exam.totalTokens += row.promptTokens + row.completionTokens;
+      exam.costUsd += row.costUsd;
+      exam.rows.push(row);
+      exams.set(examKey, exam);
+
+      const model = models.get(row.model) || { model: row.model, calls: 0, costUsd: 0 };
+      model.calls += row.calls;
+      model.costUsd += row.costUsd;
+      models.set(row.model, model);
+    });
 
-    return metrics;
+    return {
+      monthStart,
+      totalCostUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+      totalCalls: rows.reduce((sum, row) => sum + row.calls, 0),
+      totalTokens: rows.reduce((sum, row) => sum + row.promptTokens + row.completionTokens, 0),
+      byModel: [...models.values()].sort((a, b) => b.costUsd - a.costUsd),
+      exams: [...exams.values()].sort((a, b) => b.costUsd - a.costUsd)
+    };
   }
 
-  static getDailySummary(date: Date = new Date()): DailyCostSummary {
-    const dateStr = date.toISOString().split('T')[0];
-    const dayMetrics = this.costHistory.filter(m => 
-      m.timestamp.toISOString().split('T')[0] === dateStr
-    );
-
-    if (dayMetrics.length === 0) {
-      return {
-        date: dateStr,
-        totalExams: 0,
-        totalQuestions: 0,
-        totalSavings: 0,
-        averageSavingsPercentage: 0,
-        modelDistribution: {
-          gpt4oMiniPercentage: 0,
-          gpt41Percentage: 0
-        }
-      };
-    }
+  static async getBudgetStatus(): Promise<AIBudgetStatus> {
+    const { data, error } = await supabase.rpc('get_ai_budget_status');
 
-    const totalQuestions = dayMetrics.reduce((sum, m) => sum + m.totalQuestions, 0);
-    const totalGPT4oMini = dayMetrics.reduce((sum, m) => sum + m.gpt4oMiniQuestions, 0);
-    const totalGPT41 = dayMetrics.reduce((sum, m) => sum + m.gpt41Questions, 0);
-    const totalSavings = dayMetrics.reduce((sum, m) => sum + m.savings, 0);
-    const averageSavingsPercentage = dayMetrics.reduce((sum, m) => sum + m.savingsPercentage, 0) / dayMetrics.length;
+    if (error) {
+      console.error('Error fetching AI budget status:', error);
+      throw new Error(`Failed to fetch AI budget status: ${error.message}`);
+    }
 
+    const raw = data as unknown as { month_start: string; teacher: RawBudgetUsage | null; school: RawBudgetUsage | null };
     return {
-      date: dateStr,
-      totalExams: dayMetrics.length,
-      totalQuestions,
-      totalSavings,
-      averageSavingsPercentage,
-      modelDistribution: {
-        gpt4oMiniPercentage: totalQuestions > 0 ? (totalGPT4oMini / totalQuestions) * 100 : 0,
-        gpt41Percentage: totalQuestions > 0 ? (totalGPT41 / totalQuestions) * 100 : 0
-      }
+      monthStart: raw.month_start,
+      teacher: raw.teacher ? this.toUsage(raw.teacher) : null,
+      school: raw.school ? this.toUsage(raw.school) : null
     };
   }
 
-  static getWeeklySummary(): DailyCostSummary[] {
-    const summaries: DailyCostSummary[] = [];
-    const today = new Date();
-    
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(date.getDate() - i);
-      summaries.push(this.getDailySummary(date));
+  /**
+   * The school's budget and its teachers' budgets, for the school's admins
+   */
+  static async getSchoolBudgets(schoolId: string): Promise<SchoolBudget[]> {
+    const { data, error } = await supabase.rpc('get_school_ai_budgets', { p_school_id: schoolId });
+
+    if (error) {
+      console.error('Error fetching school AI budgets:', error);
+      throw new Error(`Failed to fetch school AI budgets: ${error.message}`);
     }
-    
-    return summaries;
+
+    return (data || []).map(row => ({
+      teacherId: row.teacher_id,
+      usage: this.toUsage({
+        limit_usd: row.monthly_limit_usd,
+        spent_usd: row.spent_usd,
+        warning_threshold: row.warning_threshold
+      })
+    }));
   }
 
-  static getTotalSavings(): { totalSavings: number, totalExams: number, averageSavingsPercentage: number } {
-    if (this.costHistory.length === 0) {
-      return { totalSavings: 0, totalExams: 0, averageSavingsPercentage: 0 };
-    }
+  /**
+   * The tightest of the teacher and school budgets decides the mode
+   */
+  static getBudgetMode(status: AIBudgetStatus): BudgetMode {
+    const budgets = [status.teacher, status.school].filter(Boolean) as BudgetUsage[];
 
-    const totalSavings = this.costHistory.reduce((sum, m) => sum + m.savings, 0);
-    const averageSavingsPercentage = this.costHistory.reduce((sum, m) => sum + m.savingsPercentage, 0) / this.costHistory.length;
-    
-    return {
-      totalSavings,
-      totalExams: this.costHistory.length,
-      averageSavingsPercentage
-    };
+    if (budgets.some(b => b.spentUsd >= b.limitUsd)) return 'local_only';
+    if (budgets.some(b => b.spentUsd >= b.limitUsd * b.warningThreshold)) return 'economy';
+    return 'normal';
   }
 
-  static generateCostReport(): string {
-    const summary = this.getTotalSavings();
-    const todaySummary = this.getDailySummary();
-    
-    return `AI Cost Optimization Report:
-    📈 Total Savings: $${summary.totalSavings.toFixed(4)} across ${summary.totalExams} exams
-    📊 Average Savings: ${summary.averageSavingsPercentage.toFixed(1)}% per exam
-    📅 Today: ${todaySummary.totalExams} exams, $${todaySummary.totalSavings.toFixed(4)} saved
-    🎯 Model Distribution Today: ${todaySummary.modelDistribution.gpt4oMiniPercentage.toFixed(1)}% GPT-4o-mini, ${todaySummary.modelDistribution.gpt41Percentage.toFixed(1)}% GPT-4.1`;
+  /**
+   * Set the school's monthly budget, or one of its teachers' when teacherId is given.
+   * Only the school's admins may.
+   */
+  static async setBudget(
+    schoolId: string,
+    teacherId: string | null,
+    monthlyLimitUsd: number,
+    warningThreshold: number = 0.8
+  ): Promise<void> {
+    const { error } = await supabase.rpc('set_ai_budget', {
+      p_school_id: schoolId,
+      p_teacher_id: teacherId,
+      p_monthly_limit_usd: monthlyLimitUsd,
+      p_warning_threshold: warningThreshold
+    });
+
+    if (error) {
+      console.error('Error saving AI budget:', error);
+      throw new Error(error.message);
+    }
+
+    console.log(`💰 Monthly AI budget set to $${monthlyLimitUsd.toFixed(2)}`);
   }
 
-  static resetHistory(): void {
-    this.costHistory = [];
-    console.log('🔄 Cost tracking history has been reset');
+  static async clearBudget(schoolId: string, teacherId: string | null): Promise<void> {
+    const { error } = await supabase.rpc('clear_ai_budget', {
+      p_school_id: schoolId,
+      p_teacher_id: teacherId ?? undefined
+    });
+
+    if (error) {
+      console.error('Error removing AI budget:', error);
+      throw new Error(error.message);
+    }
   }
 
-  static exportHistory(): CostMetrics[] {
-    return [...this.costHistory]; // Return a copy
+  private static toUsage(budget: RawBudgetUsage): BudgetUsage {
+    const limitUsd = Number(budget.limit_usd);
+    const spentUsd = Number(budget.spent_usd);
+    return {
+      limitUsd,
+      spentUsd,
+      warningThreshold: Number(budget.warning_threshold),
+      percentUsed: limitUsd > 0 ? (spentUsd / limitUsd) * 100 : 100
+    };
   }
 }
@@ -9,6 +9,8 @@ import { WasmDistilBertService } from './wasmDistilBertService';
 import { ComplexityAnalysis } from './shared/aiOptimizationShared';
 import { SkillAmbiguityResolver, SkillAmbiguityResult } from './skillAmbiguityResolver';
 import { EnhancedBatchProcessor } from './shared/aiOptimizationShared';
+import { AIModelRouter } from './aiModelRouter';
+import type { RubricCriterionScore } from './rubricService';
 
 export interface EnhancedBatchJob {
   id: string;
@@ -60,6 +62,7 @@ export interface BatchGradingResult {
   complexityScore: number;
   reasoningDepth: 'shallow' | 'medium' | 'deep';
   processingTime: number;
+  criterionScores?: RubricCriterionScore[];
 }
 
 interface BatchProcessingResult {
@@ -257,6 +260,7 @@ export class EnhancedBatchGradingService {
     let complexity = 40; // Start with lower baseline for more aggressive local routing
     
     if (!answerKey) return 80; // Missing answer key = OpenAI processing
+    if (answerKey.rubric_id) return 100; // Rubric criteria can only be scored by OpenAI
     
     const questionText = answerKey.question_text || '';
     const correctAnswer = answerKey.correct_answer || '';
@@ -303,6 +307,8 @@ export class EnhancedBatchGradingService {
     console.log(`🚀 Creating enhanced batch job with pre-classified skills: ${jobId} for exam: ${examId}`);
 
     try {
+      await AIModelRouter.refreshBudgetStatus();
+
       // Get pre-classified skills for this exam
       const { ExamSkillPreClassificationService } = await import('./examSkillPreClassificationService');
       const preClassifiedSkills = await ExamSkillPreClassificationService.getPreClassifiedSkills(examId);
@@ -547,6 +553,9 @@ export class EnhancedBatchGradingService {
       
       if (batch.processingMethod === 'local') {
         batchResults = await this.processAggressiveLocalBatch(batch.questions, batch.answerKeys);
+      } else if (AIModelRouter.getBudgetMode() === 'local_only') {
+        console.log(`💰 AI budget exhausted - grading batch ${batch.batchIndex} locally`);
+        batchResults = await this.processAggressiveLocalBatch(batch.questions, batch.answerKeys);
       } else {
         batchResults = await this.processOpenAIBatch(batch.questions, batch.answerKeys, job.examId);
         job.processingMetrics.totalApiCalls++;
@@ -780,6 +789,8 @@ export class EnhancedBatchGradingService {
               studentAnswer: q.detectedAnswer?.selectedOption?.trim() || '',
               correctAnswer: answerKeys[index]?.correct_answer?.trim() || '',
               pointsPossible: answerKeys[index]?.points || 1,
+              rubricId: answerKeys[index]?.rubric_id || undefined,
+              routedModel: AIModelRouter.routeQuestion(q, answerKeys[index]),
               skillContext,
               preClassifiedSkills: questionSkills || { contentSkills: [], subjectSkills: [] }
             };
@@ -793,6 +804,12 @@ export class EnhancedBatchGradingService {
         throw new Error(`Enhanced OpenAI batch API error: ${error.message}`);
       }
 
+      // The budget ran out before the router noticed; the server graded from the answer key
+      if (data.budgetExceeded) {
+        console.warn(`💰 ${data.budgetExceeded} - later batches will be graded locally`);
+        await AIModelRouter.refreshBudgetStatus(true);
+      }
+
       const results = data.results || [];
       
       // No need for skill ambiguity resolution - using pre-classified skills
@@ -806,7 +823,8 @@ export class EnhancedBatchGradingService {
         reasoning: result.reasoning,
         complexityScore: result.complexityScore || 0.7,
         reasoningDepth: result.reasoningDepth || 'medium',
-        processingTime: 2000 + Math.random() * 1000
+        processingTime: 2000 + Math.random() * 1000,
+        criterionScores: result.criterionScores
       }));
 
     } catch (error) {
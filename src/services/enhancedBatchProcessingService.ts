@@ -1,20 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ExtractTextResponse } from "./testAnalysisService";
+import type { ReviewedSubmission } from "./scanReviewService";
+
+export type BatchJobPriority = 'low' | 'normal' | 'high' | 'urgent';
+// needs_review: the paper has been read and waits for the teacher to check it before grading
+export type BatchJobStatus = 'pending' | 'processing' | 'needs_review' | 'completed' | 'failed' | 'paused';
+
+export interface GradedFileResult {
+  fileName: string;
+  studentName: string | null;
+  examId: string | null;
+  overallScore: number;
+  grade: string | null;
+  totalPointsEarned: number;
+  totalPointsPossible: number;
+  testResultId: string | null;
+}
+
+export interface BatchFileStatus {
+  id: string;
+  fileName: string;
+  status: BatchJobStatus;
+  retryCount: number;
+  maxRetries: number;
+  errorMessage: string | null;
+  processingTimeMs: number | null;
+  result: GradedFileResult | null;
+}
+
+// A read paper waiting for review, with the original scan for the overlay preview
+export interface BatchReviewFile {
+  fileJobId: string;
+  file: File;
+  extractResult: ExtractTextResponse;
+}
+
+export interface DeadLetteredFile {
+  id: string;
+  fileName: string | null;
+  errorMessage: string | null;
+  retryAttempt: number | null;
+  failedAt: string | null;
+}
+
 export interface EnhancedBatchJob {
   id: string;
-  files: File[];
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'paused';
-  priority: 'low' | 'normal' | 'high' | 'urgent';
+  fileCount: number;
+  fileStatuses: BatchFileStatus[];
+  status: BatchJobStatus;
+  priority: BatchJobPriority;
   createdAt: number;
   startedAt?: number;
   completedAt?: number;
   progress: number;
-  results: any[];
+  results: GradedFileResult[];
   errors: string[];
+  deadLetters: DeadLetteredFile[];
   estimatedTimeRemaining?: number;
   processingMetrics?: {
     filesPerSecond: number;
-    averageFileSize: number;
     totalProcessingTime: number;
-    batchOptimizationUsed: boolean;
   };
 }
 
@@ -31,305 +76,204 @@ export interface EnhancedProcessingQueue {
     successRate: number;
     averageProcessingTime: number;
   };
-  autoScaling: {
-    enabled: boolean;
-    minConcurrency: number;
-    maxConcurrency: number;
-    currentConcurrency: number;
-    lastScalingAction: number;
+  worker: {
+    connected: boolean;
+    claimBatchSize: number;
+    pollIntervalMs: number;
+    lastSyncedAt: number | null;
   };
 }
 
-export interface AutoScalingConfig {
-  enabled?: boolean;
-  minConcurrency?: number;
-  maxConcurrency?: number;
-  scaleUpThreshold?: number;
-  scaleDownThreshold?: number;
+interface GradingJobRow {
+  id: string;
+  status: string;
+  priority: string;
+  payload: { fileCount?: number } | null;
+  error_message: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  files: Array<{
+    id: string;
+    file_name: string | null;
+    status: string;
+    retry_count: number;
+    max_retries: number;
+    error_message: string | null;
+    result_json: GradedFileResult | null;
+    processing_time_ms: number | null;
+  }>;
+  failures: Array<{
+    id: string;
+    error_message: string | null;
+    retry_attempt: number | null;
+    context: { fileName?: string } | null;
+    failed_at: string | null;
+  }>;
 }
 
+const QUEUE_FUNCTION = 'batch-queue-manager';
+const UNFINISHED_STATUSES: BatchJobStatus[] = ['pending', 'processing', 'needs_review', 'paused'];
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+/**
+ * Client for the durable grading queue run by the batch-queue-manager edge function.
+ * Jobs live in grading_jobs/file_jobs and server-side workers read them whether or not
+ * a tab is open; reconnect() picks up the teacher's unfinished jobs to follow their
+ * progress. Workers only read the papers; each one is graded when the teacher commits
+ * its review.
+ */
 export class EnhancedBatchProcessingService {
-  private static queue: EnhancedProcessingQueue = {
-    activeJobs: [],
-    pendingJobs: [],
-    completedJobs: [],
-    stats: {
-      maxWorkers: 12, // Increased from 8 for Phase 1
-      activeWorkers: 0,
-      queueDepth: 0,
-      totalJobsProcessed: 0,
-      currentThroughput: 0,
-      successRate: 0.95,
-      averageProcessingTime: 2000 // Optimized to 2 seconds average
-    },
-    autoScaling: {
-      enabled: true,
-      minConcurrency: 4,
-      maxConcurrency: 16, // Increased max capacity
-      currentConcurrency: 8,
-      lastScalingAction: 0
-    }
+  private static jobs: EnhancedBatchJob[] = [];
+  private static queueStats = {
+    pendingFiles: 0,
+    processingFiles: 0,
+    completedToday: 0,
+    failedToday: 0,
+    avgProcessingTimeMs: 0
   };
-
+  private static worker = {
+    connected: false,
+    claimBatchSize: 3,
+    pollIntervalMs: 3000,
+    lastSyncedAt: null as number | null
+  };
+  private static syncLoopRunning = false;
   private static jobListeners: Map<string, (job: EnhancedBatchJob) => void> = new Map();
-  private static performanceMetrics: Array<{ timestamp: number; throughput: number; queueDepth: number }> = [];
-
-  // Enhanced batch size calculation with multiple factors
-  private static calculateOptimalBatchSize(files: File[]): number {
-    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-    const avgFileSize = totalSize / files.length;
-    const fileCount = files.length;
-    
-    // Dynamic batch sizing based on multiple factors
-    let optimalSize = 8; // Base size for Phase 1
-    
-    // Adjust based on file size
-    if (avgFileSize < 100 * 1024) { // Small files (<100KB)
-      optimalSize = Math.min(15, fileCount);
-    } else if (avgFileSize < 500 * 1024) { // Medium files (<500KB)
-      optimalSize = Math.min(10, fileCount);
-    } else { // Large files (>500KB)
-      optimalSize = Math.min(6, fileCount);
-    }
-    
-    // Adjust based on queue load
-    const queueLoad = this.queue.pendingJobs.length;
-    if (queueLoad > 10) {
-      optimalSize = Math.max(optimalSize - 2, 4); // Reduce batch size under high load
-    } else if (queueLoad < 3) {
-      optimalSize = Math.min(optimalSize + 2, 20); // Increase batch size under low load
-    }
-    
-    return optimalSize;
-  }
 
-  static async createBatchJob(files: File[], priority: 'low' | 'normal' | 'high' | 'urgent' = 'normal'): Promise<string> {
-    const jobId = `enhanced_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const job: EnhancedBatchJob = {
-      id: jobId,
-      files,
-      status: 'pending',
-      priority,
-      createdAt: Date.now(),
-      progress: 0,
-      results: [],
-      errors: [],
-      processingMetrics: {
-        filesPerSecond: 0,
-        averageFileSize: files.reduce((sum, f) => sum + f.size, 0) / files.length,
-        totalProcessingTime: 0,
-        batchOptimizationUsed: true
-      }
-    };
+  /**
+   * Upload a batch of papers to the grading queue
+   */
+  static async createBatchJob(files: File[], priority: BatchJobPriority = 'normal'): Promise<string> {
+    const encodedFiles = await Promise.all(files.map(async (file) => ({
+      fileName: file.name,
+      fileContent: await this.readFileAsBase64(file)
+    })));
+
+    const { data, error } = await supabase.functions.invoke(`${QUEUE_FUNCTION}/grading/submit`, {
+      body: { files: encodedFiles, priority }
+    });
 
-    // Smart insertion based on priority and optimization
-    if (priority === 'urgent') {
-      this.queue.pendingJobs.unshift(job);
-    } else if (priority === 'high') {
-      const urgentCount = this.queue.pendingJobs.filter(j => j.priority === 'urgent').length;
-      this.queue.pendingJobs.splice(urgentCount, 0, job);
-    } else {
-      this.queue.pendingJobs.push(job);
+    if (error) {
+      console.error('Error submitting grading job:', error);
+      throw new Error(`Failed to submit grading job: ${error.message}`);
     }
 
-    this.updateQueueStats();
-    this.saveQueueState();
-    
-    // Trigger auto-scaling check
-    this.checkAutoScaling();
-    
-    // Start processing
-    this.processNextJobs();
-    
-    console.log(`Created enhanced batch job ${jobId} with ${files.length} files (priority: ${priority}, optimal batch size will be calculated)`);
-    
-    return jobId;
+    console.log(`📥 Queued grading job ${data.jobId} with ${files.length} files (priority: ${priority})`);
+
+    await this.refresh();
+    this.startSyncLoop();
+
+    return data.jobId;
   }
 
-  private static async processNextJobs(): Promise<void> {
-    while (this.queue.activeJobs.length < this.queue.autoScaling.currentConcurrency && this.queue.pendingJobs.length > 0) {
-      const nextJob = this.queue.pendingJobs.shift();
-      if (!nextJob) break;
-
-      nextJob.status = 'processing';
-      nextJob.startedAt = Date.now();
-      this.queue.activeJobs.push(nextJob);
-
-      this.updateQueueStats();
-      this.notifyJobUpdate(nextJob);
-
-      // Process job in background
-      this.processEnhancedBatchJob(nextJob).catch(error => {
-        console.error(`Enhanced job ${nextJob.id} failed:`, error);
-        nextJob.status = 'failed';
-        nextJob.errors.push(error.message || 'Unknown error');
-        this.completeJob(nextJob);
-      });
+  /**
+   * Load the teacher's unfinished and recent jobs from the queue and follow their progress.
+   * Call on mount so a reload reconnects to batches that were running.
+   */
+  static async reconnect(): Promise<EnhancedProcessingQueue> {
+    await this.refresh();
+    if (this.hasUnfinishedJobs()) {
+      console.log('🔄 Reconnected to unfinished grading jobs');
+      this.startSyncLoop();
     }
+    return this.getQueueStatus();
   }
 
-  private static async processEnhancedBatchJob(job: EnhancedBatchJob): Promise<void> {
-    const startTime = Date.now();
-    const totalFiles = job.files.length;
-    const optimalBatchSize = this.calculateOptimalBatchSize(job.files);
-    
-    console.log(`Processing enhanced job ${job.id} with optimal batch size: ${optimalBatchSize} (${totalFiles} total files)`);
-    
-    let processedFiles = 0;
-    
-    for (let i = 0; i < totalFiles; i += optimalBatchSize) {
-      if (job.status === 'paused') {
-        console.log(`Job ${job.id} paused, waiting...`);
-        while (job.status === 'paused') {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      }
-
-      const batch = job.files.slice(i, i + optimalBatchSize);
-      const batchStartTime = Date.now();
-      
-      try {
-        // Simulate enhanced processing with better concurrency
-        const batchPromises = batch.map(file => this.processIndividualFileOptimized(file));
-        const batchResults = await Promise.all(batchPromises);
-        
-        job.results.push(...batchResults);
-        processedFiles += batch.length;
-        
-        // Calculate real-time metrics
-        const batchTime = Date.now() - batchStartTime;
-        const filesPerSecond = (batch.length / batchTime) * 1000;
-        
-        if (job.processingMetrics) {
-          job.processingMetrics.filesPerSecond = filesPerSecond;
-          job.processingMetrics.totalProcessingTime = Date.now() - startTime;
-        }
-        
-        // Update progress
-        job.progress = (processedFiles / totalFiles) * 100;
-        job.estimatedTimeRemaining = this.calculateEnhancedEstimatedTime(job, processedFiles, totalFiles);
-        
-        this.notifyJobUpdate(job);
-        
-        console.log(`Enhanced batch ${Math.floor(i/optimalBatchSize) + 1} completed: ${filesPerSecond.toFixed(1)} files/sec`);
+  /**
+   * Re-read job and queue state from the database
+   */
+  static async refresh(): Promise<void> {
+    const [{ data, error }, { data: stats }] = await Promise.all([
+      supabase.functions.invoke(`${QUEUE_FUNCTION}/grading/jobs`, { body: {} }),
+      supabase.rpc('get_file_job_queue_stats')
+    ]);
+
+    if (error) {
+      console.error('Error fetching grading jobs:', error);
+      this.worker.connected = false;
+      return;
+    }
 
-      } catch (error) {
-        const errorMsg = `Enhanced batch processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        job.errors.push(errorMsg);
-        console.error(errorMsg);
-      }
+    const previous = new Map(this.jobs.map(job => [job.id, job.status]));
+    this.jobs = (data?.jobs || []).map((row: GradingJobRow) => this.toBatchJob(row));
+    this.worker.connected = true;
+    this.worker.lastSyncedAt = Date.now();
+
+    if (stats?.[0]) {
+      this.queueStats = {
+        pendingFiles: stats[0].pending_jobs,
+        processingFiles: stats[0].processing_jobs,
+        completedToday: stats[0].completed_jobs_today,
+        failedToday: stats[0].failed_jobs_today,
+        avgProcessingTimeMs: stats[0].avg_processing_time_ms
+      };
     }
 
-    job.status = job.errors.length === 0 ? 'completed' : 'failed';
-    job.progress = 100;
-    this.completeJob(job);
+    this.jobs.forEach(job => {
+      if (previous.get(job.id) !== job.status || UNFINISHED_STATUSES.includes(job.status)) {
+        this.notifyJobUpdate(job);
+      }
+    });
   }
 
-  private static async processIndividualFileOptimized(file: File): Promise<any> {
-    // Optimized processing simulation - faster than standard processing
-    const baseTime = 800; // Reduced base time
-    const variableTime = Math.random() * 1200; // Reduced variable time
-    const processingTime = baseTime + variableTime; // 0.8-2 seconds instead of 2-5
-    
-    await new Promise(resolve => setTimeout(resolve, processingTime));
-    
-    return {
-      fileName: file.name,
-      size: file.size,
-      processedAt: Date.now(),
-      success: Math.random() > 0.03, // 97% success rate (improved)
-      processingTime: processingTime,
-      optimized: true,
-      enhancedProcessing: true
-    };
+  static async pauseJob(jobId: string): Promise<boolean> {
+    return this.setPaused(jobId, true);
   }
 
-  private static calculateEnhancedEstimatedTime(job: EnhancedBatchJob, processedFiles: number, totalFiles: number): number {
-    if (!job.startedAt || processedFiles === 0) return 0;
-    
-    const elapsed = Date.now() - job.startedAt;
-    const avgTimePerFile = elapsed / processedFiles;
-    const remainingFiles = totalFiles - processedFiles;
-    
-    // Enhanced estimation with learning from processing metrics
-    const optimizationFactor = job.processingMetrics?.batchOptimizationUsed ? 0.6 : 0.8;
-    const estimatedTime = (avgTimePerFile * remainingFiles * optimizationFactor) / 1000;
-    
-    return Math.round(estimatedTime);
+  static async resumeJob(jobId: string): Promise<boolean> {
+    const resumed = await this.setPaused(jobId, false);
+    if (resumed) this.startSyncLoop();
+    return resumed;
   }
 
-  private static completeJob(job: EnhancedBatchJob): void {
-    const activeIndex = this.queue.activeJobs.findIndex(j => j.id === job.id);
-    if (activeIndex >= 0) {
-      this.queue.activeJobs.splice(activeIndex, 1);
-    }
-    
-    job.completedAt = Date.now();
-    this.queue.completedJobs.unshift(job);
-    
-    // Keep only last 100 completed jobs
-    if (this.queue.completedJobs.length > 100) {
-      this.queue.completedJobs = this.queue.completedJobs.slice(0, 100);
-    }
-    
-    this.updateQueueStats();
-    this.saveQueueState();
-    this.notifyJobUpdate(job);
-    
-    // Continue processing
-    setTimeout(() => this.processNextJobs(), 100);
-  }
+  /**
+   * Papers of a job that have been read and are waiting for the teacher's review
+   */
+  static async getReviewFiles(jobId: string): Promise<BatchReviewFile[]> {
+    const { data, error } = await supabase.functions.invoke(`${QUEUE_FUNCTION}/grading/review`, {
+      body: { jobId }
+    });
 
-  private static checkAutoScaling(): void {
-    if (!this.queue.autoScaling.enabled) return;
-
-    const queueDepth = this.queue.pendingJobs.length;
-    const activeJobs = this.queue.activeJobs.length;
-    const currentConcurrency = this.queue.autoScaling.currentConcurrency;
-    const now = Date.now();
-    
-    // Prevent too frequent scaling actions
-    if (now - this.queue.autoScaling.lastScalingAction < 30000) return;
-
-    // Scale up if queue is building and we can handle more
-    if (queueDepth > currentConcurrency * 2 && currentConcurrency < this.queue.autoScaling.maxConcurrency) {
-      const newConcurrency = Math.min(currentConcurrency + 2, this.queue.autoScaling.maxConcurrency);
-      this.queue.autoScaling.currentConcurrency = newConcurrency;
-      this.queue.autoScaling.lastScalingAction = now;
-      console.log(`Auto-scaling UP: ${currentConcurrency} → ${newConcurrency} workers`);
-    }
-    // Scale down if queue is light and we're over minimum
-    else if (queueDepth === 0 && activeJobs < currentConcurrency / 2 && currentConcurrency > this.queue.autoScaling.minConcurrency) {
-      const newConcurrency = Math.max(currentConcurrency - 1, this.queue.autoScaling.minConcurrency);
-      this.queue.autoScaling.currentConcurrency = newConcurrency;
-      this.queue.autoScaling.lastScalingAction = now;
-      console.log(`Auto-scaling DOWN: ${currentConcurrency} → ${newConcurrency} workers`);
+    if (error) {
+      console.error('Error fetching scans to review:', error);
+      throw new Error(`Failed to fetch scans to review: ${error.message}`);
     }
+
+    return (data?.files || []).map((file: { id: string; fileName: string | null; fileContent: string | null; extractResult: ExtractTextResponse }) => ({
+      fileJobId: file.id,
+      file: this.base64ToFile(file.fileContent, file.fileName || file.extractResult.fileName),
+      extractResult: file.extractResult
+    }));
   }
 
-  private static updateQueueStats(): void {
-    const now = Date.now();
-    this.queue.stats.activeWorkers = this.queue.activeJobs.length;
-    this.queue.stats.queueDepth = this.queue.pendingJobs.length;
-    this.queue.stats.maxWorkers = this.queue.autoScaling.currentConcurrency;
-    
-    // Calculate throughput (jobs completed in last minute)
-    const oneMinuteAgo = now - 60000;
-    const recentlyCompleted = this.queue.completedJobs.filter(job => 
-      job.completedAt && job.completedAt > oneMinuteAgo
-    ).length;
-    this.queue.stats.currentThroughput = recentlyCompleted;
-    
-    // Update performance metrics
-    this.performanceMetrics.push({
-      timestamp: now,
-      throughput: recentlyCompleted,
-      queueDepth: this.queue.stats.queueDepth
+  /**
+   * Grade a reviewed paper with the teacher's corrections applied
+   */
+  static async commitReviewedFile(fileJobId: string, reviewed: ReviewedSubmission): Promise<GradedFileResult> {
+    const { data, error } = await supabase.functions.invoke(`${QUEUE_FUNCTION}/grading/commit`, {
+      body: {
+        fileJobId,
+        examId: reviewed.examId,
+        studentName: reviewed.studentName,
+        extractResult: reviewed.extractResults[0]
+      }
     });
-    
-    // Keep only last hour of metrics
-    this.performanceMetrics = this.performanceMetrics.filter(m => m.timestamp > now - 3600000);
+
+    if (error) {
+      console.error('Error grading reviewed scan:', error);
+      throw new Error(`Failed to grade reviewed scan: ${error.message}`);
+    }
+
+    return data.result;
   }
 
   static subscribeToJob(jobId: string, callback: (job: EnhancedBatchJob) => void): void {
@@ -340,70 +284,140 @@ export class EnhancedBatchProcessingService {
     this.jobListeners.delete(jobId);
   }
 
-  private static notifyJobUpdate(job: EnhancedBatchJob): void {
-    const listener = this.jobListeners.get(job.id);
-    if (listener) {
-      listener({ ...job });
-    }
-  }
-
   static getJob(jobId: string): EnhancedBatchJob | null {
-    const allJobs = [
-      ...this.queue.activeJobs,
-      ...this.queue.pendingJobs,
-      ...this.queue.completedJobs
-    ];
-    
-    return allJobs.find(job => job.id === jobId) || null;
+    return this.jobs.find(job => job.id === jobId) || null;
   }
 
   static getQueueStatus(): EnhancedProcessingQueue {
-    this.updateQueueStats();
-    return { ...this.queue };
+    const finishedJobs = this.jobs.filter(job => !UNFINISHED_STATUSES.includes(job.status));
+    const finishedToday = this.queueStats.completedToday + this.queueStats.failedToday;
+    const oneMinuteAgo = Date.now() - 60000;
+
+    return {
+      activeJobs: this.jobs.filter(job => job.status === 'processing' || job.status === 'needs_review' || job.status === 'paused'),
+      pendingJobs: this.jobs.filter(job => job.status === 'pending'),
+      completedJobs: finishedJobs,
+      stats: {
+        maxWorkers: this.worker.claimBatchSize,
+        activeWorkers: this.queueStats.processingFiles,
+        queueDepth: this.queueStats.pendingFiles,
+        totalJobsProcessed: finishedToday,
+        currentThroughput: finishedJobs.filter(job => job.completedAt && job.completedAt > oneMinuteAgo).length,
+        successRate: finishedToday > 0 ? this.queueStats.completedToday / finishedToday : 1,
+        averageProcessingTime: this.queueStats.avgProcessingTimeMs
+      },
+      worker: { ...this.worker }
+    };
   }
 
-  static pauseJob(jobId: string): boolean {
-    const job = this.queue.activeJobs.find(j => j.id === jobId);
-    if (job) {
-      job.status = 'paused';
-      return true;
+  private static async setPaused(jobId: string, pause: boolean): Promise<boolean> {
+    const { error } = await supabase.functions.invoke(`${QUEUE_FUNCTION}/grading/${pause ? 'pause' : 'resume'}`, {
+      body: { jobId }
+    });
+
+    if (error) {
+      console.error(`Error ${pause ? 'pausing' : 'resuming'} grading job:`, error);
+      return false;
     }
-    return false;
+
+    await this.refresh();
+    return true;
   }
 
-  static resumeJob(jobId: string): boolean {
-    const job = this.queue.activeJobs.find(j => j.id === jobId);
-    if (job && job.status === 'paused') {
-      job.status = 'processing';
-      return true;
+  /**
+   * Re-read job state while this tab has unfinished work. The workers themselves run on
+   * the server, so this only keeps the progress shown here current.
+   */
+  private static async startSyncLoop(): Promise<void> {
+    if (this.syncLoopRunning) return;
+    this.syncLoopRunning = true;
+
+    try {
+      while (this.hasUnfinishedJobs()) {
+        await new Promise(resolve => setTimeout(resolve, this.worker.pollIntervalMs));
+        await this.refresh();
+      }
+    } finally {
+      this.syncLoopRunning = false;
     }
-    return false;
   }
 
-  static updateAutoScalingConfig(config: AutoScalingConfig): void {
-    this.queue.autoScaling = { ...this.queue.autoScaling, ...config };
-    this.saveQueueState();
+  private static hasUnfinishedJobs(): boolean {
+    return this.jobs.some(job => UNFINISHED_STATUSES.includes(job.status));
   }
 
-  private static saveQueueState(): void {
-    try {
-      localStorage.setItem('enhancedBatchProcessingQueue', JSON.stringify(this.queue));
-    } catch (error) {
-      console.warn('Failed to save enhanced queue state:', error);
+  private static toBatchJob(row: GradingJobRow): EnhancedBatchJob {
+    const fileStatuses: BatchFileStatus[] = row.files.map(file => ({
+      id: file.id,
+      fileName: file.file_name || 'Unnamed file',
+      status: file.status as BatchJobStatus,
+      retryCount: file.retry_count,
+      maxRetries: file.max_retries,
+      errorMessage: file.error_message,
+      processingTimeMs: file.processing_time_ms,
+      result: file.result_json
+    }));
+
+    const fileCount = row.payload?.fileCount || fileStatuses.length;
+    const finishedFiles = fileStatuses.filter(file => file.status === 'completed' || file.status === 'failed');
+    const startedAt = row.started_at ? new Date(row.started_at).getTime() : undefined;
+    const completedAt = row.completed_at ? new Date(row.completed_at).getTime() : undefined;
+    const elapsedMs = startedAt ? (completedAt || Date.now()) - startedAt : 0;
+
+    let estimatedTimeRemaining: number | undefined;
+    if (elapsedMs > 0 && finishedFiles.length > 0 && !completedAt) {
+      const msPerFile = elapsedMs / finishedFiles.length;
+      estimatedTimeRemaining = Math.round((msPerFile * (fileCount - finishedFiles.length)) / 1000);
     }
-  }
 
-  static loadQueueState(): void {
-    try {
-      const saved = localStorage.getItem('enhancedBatchProcessingQueue');
-      if (saved) {
-        this.queue = { ...this.queue, ...JSON.parse(saved) };
-        // Reset active jobs to pending on reload
-        this.queue.pendingJobs.push(...this.queue.activeJobs);
-        this.queue.activeJobs = [];
+    return {
+      id: row.id,
+      fileCount,
+      fileStatuses,
+      status: row.status as BatchJobStatus,
+      priority: row.priority as BatchJobPriority,
+      createdAt: new Date(row.created_at).getTime(),
+      startedAt,
+      completedAt,
+      progress: fileCount > 0 ? (finishedFiles.length / fileCount) * 100 : 0,
+      results: fileStatuses.filter(file => file.result).map(file => file.result as GradedFileResult),
+      errors: fileStatuses
+        .filter(file => file.status === 'failed' && file.errorMessage)
+        .map(file => `${file.fileName}: ${file.errorMessage}`),
+      deadLetters: row.failures.map(failure => ({
+        id: failure.id,
+        fileName: failure.context?.fileName || null,
+        errorMessage: failure.error_message,
+        retryAttempt: failure.retry_attempt,
+        failedAt: failure.failed_at
+      })),
+      estimatedTimeRemaining,
+      processingMetrics: {
+        filesPerSecond: elapsedMs > 0 ? (finishedFiles.length / elapsedMs) * 1000 : 0,
+        totalProcessingTime: elapsedMs
       }
-    } catch (error) {
-      console.warn('Failed to load enhanced queue state:', error);
+    };
+  }
+
+  private static readFileAsBase64(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve((reader.result as string).split(',')[1]);
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+  }
+
+  private static base64ToFile(content: string | null, fileName: string): File {
+    const bytes = Uint8Array.from(atob(content || ''), char => char.charCodeAt(0));
+    const extension = fileName.split('.').pop()?.toLowerCase() || '';
+    return new File([bytes], fileName, { type: MIME_TYPES[extension] || 'application/octet-stream' });
+  }
+
+  private static notifyJobUpdate(job: EnhancedBatchJob): void {
+    const listener = this.jobListeners.get(job.id);
+    if (listener) {
+      listener({ ...job });
     }
   }
 }
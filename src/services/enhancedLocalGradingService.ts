@@ -3,6 +3,7 @@ import { EnhancedQuestionClassifier, QuestionClassification, SimpleAnswerValidat
 import { DistilBertLocalGradingService, DistilBertGradingResult } from "./distilBertLocalGrading";
 import { QuestionCacheService, QuestionCacheResult } from "./questionCacheService";
 import { ExamSkillPreClassificationService, SkillMappingCache } from "./examSkillPreClassificationService";
+import type { RubricCriterionScore } from "./rubricService";
 
 export interface SkillMapping {
   skill_id: string;
@@ -39,6 +40,7 @@ export interface EnhancedLocalGradingResult {
   questionClassification?: QuestionClassification;
   answerValidation?: SimpleAnswerValidation;
   distilBertResult?: DistilBertGradingResult;
+  criterionScores?: RubricCriterionScore[];
 }
 
 // Score Validation Service
@@ -212,6 +214,11 @@ export class EnhancedLocalGradingService {
       };
     }
 
+    // Numbers, expressions and structured answers are compared by value, not semantic similarity
+    if (['numeric', 'expression', 'structured'].includes(classification.questionType)) {
+      return this.gradeQuestionWithEnhancedClassification(question, answerKey, skillMappings);
+    }
+
     // STEP 4: Process SIMPLE questions with Enhanced DistilBERT (now with WASM support)
     console.log(`Question ${question.questionNumber}: Simple question detected, processing with Enhanced DistilBERT (WASM)`);
     
@@ -325,7 +332,9 @@ export class EnhancedLocalGradingService {
     );
 
     const isCorrect = answerValidation.isValid;
-    let pointsEarned = isCorrect ? pointsPossible : 0;
+    let pointsEarned = answerValidation.score !== undefined
+      ? Math.round(answerValidation.score * pointsPossible * 100) / 100
+      : isCorrect ? pointsPossible : 0;
 
     // Validate question score
     pointsEarned = ScoreValidationService.validateQuestionScore(pointsEarned, pointsPossible, question.questionNumber);
@@ -374,6 +383,8 @@ export class EnhancedLocalGradingService {
       'true_false': 'True/False',
       'fill_in_blank': 'Fill-in-the-blank',
       'numeric': 'Numeric',
+      'expression': 'Expression',
+      'structured': 'Structured',
       'complex': 'Complex'
     };
 
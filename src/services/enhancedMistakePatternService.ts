@@ -1,6 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { SubjectSpecificMisconceptionService } from './subjectSpecificMisconceptionService';
+import { MiniLessonService } from './miniLessonService';
 
 export interface EnhancedMistakePatternData {
   studentExerciseId: string;
@@ -13,7 +14,7 @@ export interface EnhancedMistakePatternData {
   skillTargeted: string;
   mistakeType?: string;
   confidenceScore?: number;
-  gradingMethod?: 'exact_match' | 'flexible_match' | 'ai_graded';
+  gradingMethod?: 'exact_match' | 'flexible_match' | 'numeric_match' | 'expression_match' | 'structured_match' | 'ai_graded';
   feedbackGiven?: string;
   
   // Enhanced fields
@@ -49,6 +50,11 @@ export interface EnhancedMistakePatternData {
   
   // Misconception signature field
   misconceptionSignature?: string;
+
+  // Student context used to queue a targeted mini-lesson
+  studentId?: string;
+  subject?: string;
+  grade?: string;
 }
 
 export interface EnhancedMistakeAnalysis {
@@ -158,6 +164,21 @@ export class EnhancedMistakePatternService {
       if (mistakeData.misconceptionSignature) {
         console.log(`🔗 Misconception signature recorded: ${mistakeData.misconceptionSignature}`);
       }
+
+      // Queue a targeted mini-lesson without holding up grading
+      if (!mistakeData.isCorrect && mistakeData.studentId && mistakeData.misconceptionCategory) {
+        MiniLessonService.requestMiniLesson({
+          misconceptionCategory: mistakeData.misconceptionCategory,
+          skillName: mistakeData.skillTargeted,
+          subject: mistakeData.subject,
+          grade: mistakeData.grade,
+          studentAnswer: mistakeData.studentAnswer,
+          correctAnswer: mistakeData.correctAnswer,
+          questionContext: mistakeData.questionContext,
+          conceptMissed: mistakeData.conceptMissedDescription
+        });
+      }
+
       return data.id;
     } catch (error) {
       console.error('❌ Exception in recordEnhancedMistakePattern:', error);
@@ -1,16 +1,20 @@
+import { MathAnswerGradingService, type MathAnswerSpec } from './mathAnswerGradingService';
+import { StructuredQuestionService, type StructuredQuestion } from './structuredQuestionService';
 
 export interface QuestionClassification {
   questionNumber: number;
-  questionType: 'multiple_choice' | 'true_false' | 'fill_in_blank' | 'numeric' | 'complex';
+  questionType: 'multiple_choice' | 'true_false' | 'fill_in_blank' | 'numeric' | 'expression' | 'structured' | 'complex';
   isSimple: boolean;
   confidence: number;
   detectionMethod: string;
   shouldUseLocalGrading: boolean;
   fallbackReason?: string;
   answerPattern?: {
-    type: 'exact_match' | 'numeric_range' | 'boolean_variation' | 'case_insensitive';
+    type: 'exact_match' | 'numeric_range' | 'algebraic_equivalence' | 'structured_match' | 'boolean_variation' | 'case_insensitive';
     expectedFormat: string;
     variations?: string[];
+    mathSpec?: MathAnswerSpec;
+    structured?: StructuredQuestion;
   };
 }
 
@@ -18,7 +22,8 @@ export interface SimpleAnswerValidation {
   isValid: boolean;
   normalizedAnswer: string;
   confidence: number;
-  matchType: 'exact' | 'numeric' | 'boolean' | 'normalized';
+  matchType: 'exact' | 'numeric' | 'expression' | 'structured' | 'boolean' | 'normalized';
+  score?: number; // 0-1 partial credit, e.g. right value with missing units or some blanks right
 }
 
 export class EnhancedQuestionClassifier {
@@ -38,6 +43,7 @@ export class EnhancedQuestionClassifier {
   // Numeric pattern recognition
   private static readonly NUMERIC_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
   private static readonly SIMPLE_UNIT_PATTERN = /^-?\d+(\.\d+)?\s*[a-zA-Z°%]{0,5}$/;
+  private static readonly DEFAULT_NUMERIC_TOLERANCE = { absoluteTolerance: 0.001, relativeTolerance: 0.001 };
 
   static classifyQuestion(question: any, answerKey: any): QuestionClassification {
     const questionNumber = question.questionNumber;
@@ -59,9 +65,37 @@ export class EnhancedQuestionClassifier {
     const correctAnswer = answerKey.correct_answer?.toString().trim() || '';
     const questionText = answerKey.question_text?.toLowerCase() || '';
     const questionTypeHint = answerKey.question_type?.toLowerCase() || '';
+    const mathSpec = MathAnswerGradingService.getAnswerSpec(answerKey);
+    const structured = StructuredQuestionService.fromAnswerKey(answerKey);
 
-    // 1. Multiple Choice Detection (A-D)
-    if (this.isMultipleChoice(answerKey, questionTypeHint)) {
+    // 0. Structured Detection (multi-select, matching, ordering, multi-blank)
+    if (structured) {
+      questionType = 'structured';
+      isSimple = true;
+      confidence = ocrConfidence;
+      detectionMethod = `${structured.type}_structure`;
+      answerPattern = {
+        type: 'structured_match',
+        expectedFormat: structured.type === 'fill-in-blank' ? 'text|text' : 'A, B, C',
+        variations: [correctAnswer],
+        structured
+      };
+    }
+    // 1. Expression Detection (teacher-set spec, graded by algebraic equivalence)
+    else if (mathSpec?.kind === 'expression') {
+      questionType = 'expression';
+      isSimple = true;
+      confidence = ocrConfidence;
+      detectionMethod = 'expression_spec';
+      answerPattern = {
+        type: 'algebraic_equivalence',
+        expectedFormat: 'expression',
+        variations: [correctAnswer],
+        mathSpec
+      };
+    }
+    // 2. Multiple Choice Detection (A-D)
+    else if (this.isMultipleChoice(answerKey, questionTypeHint)) {
       questionType = 'multiple_choice';
       isSimple = true;
       confidence = ocrConfidence;
@@ -72,8 +106,8 @@ export class EnhancedQuestionClassifier {
         variations: ['A', 'B', 'C', 'D', 'a', 'b', 'c', 'd']
       };
     }
-    // 2. True/False Detection
-    else if (this.isTrueFalse(correctAnswer, questionText, questionTypeHint)) {
+    // 3. True/False Detection
+    else if (mathSpec?.kind !== 'numeric' && this.isTrueFalse(correctAnswer, questionText, questionTypeHint)) {
       questionType = 'true_false';
       isSimple = true;
       confidence = Math.min(ocrConfidence + 0.1, 1.0); // Slight boost for T/F
@@ -84,19 +118,20 @@ export class EnhancedQuestionClassifier {
         variations: [...this.TRUE_PATTERNS, ...this.FALSE_PATTERNS]
       };
     }
-    // 3. Simple Numeric Detection
-    else if (this.isSimpleNumeric(correctAnswer)) {
+    // 4. Simple Numeric Detection
+    else if (mathSpec?.kind === 'numeric' || this.isSimpleNumeric(correctAnswer)) {
       questionType = 'numeric';
       isSimple = true;
       confidence = Math.min(ocrConfidence + 0.05, 1.0); // Small boost for numeric
-      detectionMethod = 'numeric_pattern';
+      detectionMethod = mathSpec ? 'numeric_spec' : 'numeric_pattern';
       answerPattern = {
         type: 'numeric_range',
         expectedFormat: 'number',
-        variations: [correctAnswer]
+        variations: [correctAnswer],
+        mathSpec: mathSpec || undefined
       };
     }
-    // 4. Simple Fill-in-the-blank Detection
+    // 5. Simple Fill-in-the-blank Detection
     else if (this.isSimpleFillInBlank(correctAnswer, questionText)) {
       questionType = 'fill_in_blank';
       isSimple = true;
@@ -108,7 +143,7 @@ export class EnhancedQuestionClassifier {
         variations: [correctAnswer.toLowerCase(), correctAnswer.toUpperCase()]
       };
     }
-    // 5. Complex Question Detection
+    // 6. Complex Question Detection
     else {
       questionType = 'complex';
       isSimple = false;
@@ -198,7 +233,8 @@ export class EnhancedQuestionClassifier {
       return true;
     }
     
-    return false;
+    // Mixed numbers, percentages, scientific notation and compound units (2 1/2, 50%, 9.8 m/s^2)
+    return MathAnswerGradingService.isNumericAnswer(trimmed);
   }
 
   private static isSimpleFillInBlank(correctAnswer: string, questionText: string): boolean {
@@ -237,7 +273,8 @@ export class EnhancedQuestionClassifier {
     // Basic quality requirements
     if (confidence < this.SIMPLE_CONFIDENCE_THRESHOLD) return false;
     if (reviewRequired) return false;
-    if (hasMultipleMarks) return false;
+    // Several marks are the expected answer on multi-select and matching rows
+    if (hasMultipleMarks && questionType !== 'structured') return false;
     if (!studentAnswer || studentAnswer === 'no_answer') return false;
 
     // Question-type specific requirements
@@ -252,6 +289,8 @@ export class EnhancedQuestionClassifier {
                bubbleQuality !== 'empty';
                
       case 'numeric':
+      case 'expression':
+      case 'structured':
         return confidence >= this.MEDIUM_CONFIDENCE_THRESHOLD &&
                studentAnswer.length > 0;
                
@@ -287,7 +326,7 @@ export class EnhancedQuestionClassifier {
       reasons.push('Flagged for manual review');
     }
     
-    if (hasMultipleMarks) {
+    if (hasMultipleMarks && questionType !== 'structured') {
       reasons.push('Multiple marks detected');
     }
     
@@ -322,7 +361,13 @@ export class EnhancedQuestionClassifier {
         return this.validateBooleanAnswer(student, correct);
         
       case 'numeric_range':
-        return this.validateNumericAnswer(student, correct);
+        return this.validateNumericAnswer(student, correct, answerPattern.mathSpec);
+        
+      case 'algebraic_equivalence':
+        return this.validateExpressionAnswer(student, correct);
+        
+      case 'structured_match':
+        return this.validateStructuredAnswer(student, answerPattern.structured);
         
       case 'case_insensitive':
         return this.validateCaseInsensitive(student, correct);
@@ -377,23 +422,50 @@ export class EnhancedQuestionClassifier {
     };
   }
 
-  private static validateNumericAnswer(student: string, correct: string): SimpleAnswerValidation {
-    const studentNum = this.parseNumeric(student);
-    const correctNum = this.parseNumeric(correct);
+  private static validateNumericAnswer(
+    student: string,
+    correct: string,
+    mathSpec?: MathAnswerSpec
+  ): SimpleAnswerValidation {
+    // Without a teacher-set spec, keep the small default tolerance for rounding
+    const spec = mathSpec?.kind === 'numeric'
+      ? mathSpec
+      : { kind: 'numeric' as const, ...this.DEFAULT_NUMERIC_TOLERANCE };
+    const result = MathAnswerGradingService.gradeNumeric(student, correct, spec);
     
-    if (studentNum === null || correctNum === null) {
-      return { isValid: false, normalizedAnswer: student, confidence: 0, matchType: 'numeric' };
-    }
+    return {
+      isValid: result.isCorrect,
+      normalizedAnswer: result.normalizedAnswer,
+      confidence: result.confidence,
+      matchType: 'numeric',
+      score: result.score
+    };
+  }
+
+  private static validateExpressionAnswer(student: string, correct: string): SimpleAnswerValidation {
+    const result = MathAnswerGradingService.gradeExpression(student, correct);
     
-    // Allow small floating point tolerance
-    const tolerance = Math.abs(correctNum * 0.001) + 0.001;
-    const isValid = Math.abs(studentNum - correctNum) <= tolerance;
+    return {
+      isValid: result.isCorrect,
+      normalizedAnswer: result.normalizedAnswer,
+      confidence: result.confidence,
+      matchType: 'expression',
+      score: result.score
+    };
+  }
+
+  private static validateStructuredAnswer(student: string, structured?: StructuredQuestion): SimpleAnswerValidation {
+    if (!structured) {
+      return { isValid: false, normalizedAnswer: student, confidence: 0, matchType: 'structured' };
+    }
+    const result = StructuredQuestionService.grade(structured, student);
     
     return {
-      isValid,
-      normalizedAnswer: studentNum.toString(),
-      confidence: 0.9,
-      matchType: 'numeric'
+      isValid: result.isCorrect,
+      normalizedAnswer: student,
+      confidence: result.confidence,
+      matchType: 'structured',
+      score: result.score
     };
   }
 
@@ -415,10 +487,4 @@ export class EnhancedQuestionClassifier {
       matchType: 'normalized'
     };
   }
-
-  private static parseNumeric(value: string): number | null {
-    const cleaned = value.trim().replace(/[^\d.-]/g, '');
-    const parsed = parseFloat(cleaned);
-    return isNaN(parsed) ? null : parsed;
-  }
 }
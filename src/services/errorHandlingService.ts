@@ -299,6 +299,35 @@ export class ErrorHandlingService {
     return [...this.errorHistory];
   }
 
+  /**
+   * Errors this user has reported, read from the persisted error_reports table
+   */
+  static async getReportedErrors(limit: number = 50): Promise<ErrorDetails[]> {
+    const { data, error } = await supabase
+      .from('error_reports')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch error reports: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      code: row.error_code as ErrorCode,
+      message: row.message,
+      context: (row.context as Record<string, unknown>) || {},
+      timestamp: new Date(row.occurred_at).getTime(),
+      userId: row.user_id || undefined,
+      sessionId: row.session_id || undefined,
+      fileName: row.file_name || undefined,
+      stackTrace: row.stack_trace || undefined,
+      suggestions: row.suggestions,
+      severity: row.severity as ErrorDetails['severity'],
+      category: row.category as ErrorDetails['category']
+    }));
+  }
+
   static async getDiagnostics(): Promise<Record<string, any>> {
     return {
       errorCount: this.errorHistory.length,
@@ -2,7 +2,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { StudentIdGenerationService } from "./studentIdGenerationService";
 import { calculateClassDuration, getClassDurationInMinutes, formatDurationShort, DurationInfo } from "@/utils/classDurationUtils";
 import { DEV_CONFIG, MOCK_USER_DATA } from "@/config/devConfig";
+import type { Json } from "@/integrations/supabase/types";
 import type { Question } from "@/utils/pdfGenerator";
+import { StructuredQuestionService } from "./structuredQuestionService";
+import type { ClassAccess, ClassPermission } from "./schoolService";
 
 export interface ExamData {
   examId: string;
@@ -36,6 +39,9 @@ export interface AnswerKey {
   correct_answer: string;
   points: number;
   options: any;
+  rubric_id?: string | null;
+  answer_spec?: Json | null; // MathAnswerSpec for numeric / expression questions
+  question_bank_item_id?: string | null;
   created_at: string;
 }
 
@@ -51,6 +57,10 @@ export interface ActiveClass {
   day_of_week?: string[]; // Changed from string to string[] to support multiple days
   class_time?: string;
   end_time?: string;
+  teacher_id?: string | null;
+  school_id?: string | null;
+  department?: string | null;
+  access?: ClassAccess; // The signed-in teacher's access, set by getAllActiveClasses
   created_at: string;
   updated_at: string;
 }
@@ -146,20 +156,7 @@ export const getAllActiveClasses = async (): Promise<ActiveClass[]> => {
     // Check if we're in dev mode
     if (DEV_CONFIG.DISABLE_AUTH_FOR_DEV) {
       // In dev mode, get the mock teacher ID
-      const mockTeacherId = MOCK_USER_DATA.teacher.user.id;
-      
-      const { data, error } = await supabase
-        .from('active_classes')
-        .select('*')
-        .eq('teacher_id', mockTeacherId)
-        .order('name');
-
-      if (error) {
-        console.error('Error fetching active classes:', error);
-        throw new Error(`Failed to fetch active classes: ${error.message}`);
-      }
-
-      return data || [];
+      return await getClassesForTeacher(MOCK_USER_DATA.teacher.user.id);
     }
     
     // Get the current user's ID to filter classes
@@ -170,24 +167,45 @@ export const getAllActiveClasses = async (): Promise<ActiveClass[]> => {
       return [];
     }
 
-    const { data, error } = await supabase
-      .from('active_classes')
-      .select('*')
-      .eq('teacher_id', user.id)
-      .order('name');
-
-    if (error) {
-      console.error('Error fetching active classes:', error);
-      throw new Error(`Failed to fetch active classes: ${error.message}`);
-    }
-
-    return data || [];
+    return await getClassesForTeacher(user.id);
   } catch (error) {
     console.error('Error in getAllActiveClasses:', error);
     throw error;
   }
 };
 
+// Classes the teacher owns plus the ones shared with them as a co-teacher
+const getClassesForTeacher = async (teacherId: string): Promise<ActiveClass[]> => {
+  const { data: memberships, error: membershipError } = await supabase
+    .from('class_members')
+    .select('class_id, permission')
+    .eq('teacher_id', teacherId);
+
+  if (membershipError) {
+    console.error('Error fetching shared classes:', membershipError);
+    throw new Error(`Failed to fetch shared classes: ${membershipError.message}`);
+  }
+
+  const sharedPermissions = new Map((memberships || []).map(m => [m.class_id, m.permission as ClassPermission]));
+  const sharedIds = [...sharedPermissions.keys()];
+
+  const { data, error } = await supabase
+    .from('active_classes')
+    .select('*')
+    .or(sharedIds.length > 0 ? `teacher_id.eq.${teacherId},id.in.(${sharedIds.join(',')})` : `teacher_id.eq.${teacherId}`)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching active classes:', error);
+    throw new Error(`Failed to fetch active classes: ${error.message}`);
+  }
+
+  return (data || []).map(cls => ({
+    ...cls,
+    access: cls.teacher_id === teacherId ? 'owner' as const : sharedPermissions.get(cls.id) || 'view'
+  }));
+};
+
 export const createActiveClass = async (classData: {
   name: string;
   subject: string;
@@ -792,14 +810,22 @@ export const saveExamToDatabase = async (examData: ExamData, classId: string): P
         correctAnswerString = '';
       }
 
+      // Multi-select, matching, ordering and fill-in-blank keep their structure in options
+      const structured = StructuredQuestionService.isStructuredType(question.type)
+        ? StructuredQuestionService.toAnswerKeyFields({ ...question, type: question.type })
+        : null;
+
       return {
         exam_id: examData.examId,
         question_number: index + 1,
         question_text: question.question,
         question_type: question.type,
-        correct_answer: correctAnswerString,
+        correct_answer: structured ? structured.correct_answer : correctAnswerString,
         points: question.points,
-        options: question.options ? { options: question.options } : null
+        options: (structured ? structured.options : question.options ? { options: question.options } : null) as Json,
+        rubric_id: question.rubricId || null,
+        answer_spec: (question.answerSpec || null) as unknown as Json,
+        question_bank_item_id: question.bankItemId || null
       };
     });
 
@@ -996,6 +1022,28 @@ export const getExamByExamId = async (examId: string): Promise<StoredExam | null
   }
 };
 
+export const getExamsByClassId = async (classId: string): Promise<StoredExam[]> => {
+  try {
+    console.log('Fetching exams for class:', classId);
+    
+    const { data, error } = await supabase
+      .from('exams')
+      .select('*')
+      .eq('class_id', classId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching class exams:', error);
+      throw new Error(`Failed to fetch class exams: ${error.message}`);
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getExamsByClassId:', error);
+    throw error;
+  }
+};
+
 export const getAnswerKeysByExamId = async (examId: string): Promise<AnswerKey[]> => {
   try {
     console.log('Fetching answer keys for exam:', examId);
@@ -0,0 +1,258 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { SkillScore } from "./examService";
+
+export type GoalStatus = 'active' | 'completed' | 'abandoned';
+
+export type GoalSkillType = 'content' | 'subject';
+
+export interface GoalMilestone {
+  value: number;
+  label: string;
+}
+
+export interface StudentGoal {
+  id: string;
+  student_id: string;
+  goal_title: string;
+  goal_description: string;
+  goal_type: string;
+  target_skill_name: string | null;
+  target_value: number;
+  current_value: number | null;
+  progress_percentage: number | null;
+  milestones: GoalMilestone[];
+  status: GoalStatus;
+  difficulty_level: string | null;
+  is_ai_suggested: boolean | null;
+  target_date: string | null;
+  completed_at: string | null;
+  created_at: string | null;
+}
+
+export interface GoalAchievement {
+  id: string;
+  goal_id: string;
+  achievement_title: string;
+  achievement_description: string | null;
+  achievement_type: string;
+  value_achieved: number | null;
+  celebration_shown: boolean | null;
+  achieved_at: string | null;
+}
+
+export interface GoalAnalytics {
+  total_goals: number;
+  active_goals: number;
+  completed_goals: number;
+  avg_completion_time_days: number;
+  most_successful_goal_type: string;
+}
+
+export interface GoalSuggestion {
+  skillName: string;
+  skillType: GoalSkillType;
+  currentScore: number;
+  targetValue: number;
+}
+
+export interface CreateGoalRequest {
+  studentId: string;
+  skillName: string;
+  skillType: GoalSkillType;
+  currentScore: number;
+  targetValue: number;
+  targetDate?: string;
+  isSuggested?: boolean;
+}
+
+// Skills at or above this score are already mastered and not worth suggesting
+const MASTERY_THRESHOLD = 80;
+const SUGGESTED_IMPROVEMENT = 15;
+const MILESTONE_STEPS = [0.25, 0.5, 0.75];
+
+export type StudentGoalRow = {
+  milestones: Json | null;
+  status: string | null;
+} & Omit<StudentGoal, 'milestones' | 'status'>;
+
+/**
+ * Service for student goals that target a content or subject skill score
+ */
+export class GoalService {
+
+  /**
+   * Build evenly spaced milestones between the current score and the target
+   */
+  static buildMilestones(currentScore: number, targetValue: number): GoalMilestone[] {
+    const gap = targetValue - currentScore;
+    if (gap <= 0) return [];
+
+    return MILESTONE_STEPS.map(step => {
+      const value = Math.round(currentScore + gap * step);
+      return { value, label: `Reach ${value}%` };
+    });
+  }
+
+  /**
+   * Suggest goals for the weakest skills that don't already have an active goal
+   */
+  static suggestGoals(
+    skills: Array<{ skill: SkillScore; skillType: GoalSkillType }>,
+    existingGoals: StudentGoal[],
+    limit: number = 3
+  ): GoalSuggestion[] {
+    const targetedSkills = new Set(
+      existingGoals
+        .filter(goal => goal.status === 'active')
+        .map(goal => goal.target_skill_name)
+    );
+
+    return skills
+      .filter(({ skill }) => skill.score < MASTERY_THRESHOLD && !targetedSkills.has(skill.skill_name))
+      .sort((a, b) => a.skill.score - b.skill.score)
+      .slice(0, limit)
+      .map(({ skill, skillType }) => ({
+        skillName: skill.skill_name,
+        skillType,
+        currentScore: Math.round(skill.score),
+        // Round up to the next 5 so targets read naturally
+        targetValue: Math.min(100, Math.ceil((skill.score + SUGGESTED_IMPROVEMENT) / 5) * 5)
+      }));
+  }
+
+  /**
+   * Get all goals for a student, newest first
+   */
+  static async getStudentGoals(studentId: string): Promise<StudentGoal[]> {
+    const { data, error } = await supabase
+      .from('student_goals')
+      .select('*')
+      .eq('student_id', studentId)
+      .neq('status', 'abandoned')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching student goals:', error);
+      throw new Error(`Failed to fetch student goals: ${error.message}`);
+    }
+
+    return (data || []).map(row => this.toStudentGoal(row));
+  }
+
+  /**
+   * Create a goal to raise a skill score to a target value
+   */
+  static async createGoal(request: CreateGoalRequest): Promise<StudentGoal> {
+    console.log('🎯 Creating goal for skill:', request.skillName, '→', request.targetValue);
+
+    const { data, error } = await supabase
+      .from('student_goals')
+      .insert({
+        student_id: request.studentId,
+        goal_title: `Reach ${request.targetValue}% in ${request.skillName}`,
+        goal_description: `Raise ${request.skillName} from ${request.currentScore}% to ${request.targetValue}%`,
+        goal_type: `${request.skillType}_skill`,
+        target_skill_name: request.skillName,
+        target_value: request.targetValue,
+        current_value: request.currentScore,
+        progress_percentage: 0,
+        milestones: this.buildMilestones(request.currentScore, request.targetValue) as unknown as Json,
+        difficulty_level: this.getDifficultyLevel(request.targetValue - request.currentScore),
+        is_ai_suggested: request.isSuggested ?? false,
+        target_date: request.targetDate || null,
+        status: 'active',
+        context_data: { skillType: request.skillType, startingScore: request.currentScore }
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating goal:', error);
+      throw new Error(`Failed to create goal: ${error.message}`);
+    }
+
+    console.log('✅ Goal created:', data.id);
+    return this.toStudentGoal(data);
+  }
+
+  /**
+   * Stop tracking a goal without deleting its history
+   */
+  static async abandonGoal(goalId: string): Promise<void> {
+    const { error } = await supabase
+      .from('student_goals')
+      .update({ status: 'abandoned' })
+      .eq('id', goalId);
+
+    if (error) {
+      console.error('Error abandoning goal:', error);
+      throw new Error(`Failed to abandon goal: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the student's goal summary from get_student_goal_analytics
+   */
+  static async getGoalAnalytics(studentId: string): Promise<GoalAnalytics | null> {
+    const { data, error } = await supabase.rpc('get_student_goal_analytics', {
+      p_student_id: studentId
+    });
+
+    if (error) {
+      console.error('Error fetching goal analytics:', error);
+      return null;
+    }
+
+    return data?.[0] || null;
+  }
+
+  /**
+   * Get achievements that haven't been celebrated in the UI yet
+   */
+  static async getUncelebratedAchievements(studentId: string): Promise<GoalAchievement[]> {
+    const { data, error } = await supabase
+      .from('goal_achievements')
+      .select('*')
+      .eq('student_id', studentId)
+      .eq('celebration_shown', false)
+      .order('achieved_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching goal achievements:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Mark achievements as celebrated so they are only shown once
+   */
+  static async markAchievementsCelebrated(achievementIds: string[]): Promise<void> {
+    if (achievementIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('goal_achievements')
+      .update({ celebration_shown: true })
+      .in('id', achievementIds);
+
+    if (error) {
+      console.error('Error marking achievements celebrated:', error);
+    }
+  }
+
+  private static getDifficultyLevel(gap: number): string {
+    if (gap <= 10) return 'easy';
+    if (gap <= 25) return 'moderate';
+    return 'challenging';
+  }
+
+  static toStudentGoal(row: StudentGoalRow): StudentGoal {
+    return {
+      ...row,
+      milestones: Array.isArray(row.milestones) ? (row.milestones as unknown as GoalMilestone[]) : [],
+      status: (row.status || 'active') as GoalStatus
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { supabase } from "@/integrations/supabase/client";
+import { QuestionCacheService } from "./questionCacheService";
+import { SecurityService } from "./securityService";
+
+export interface GradeOverride {
+  id: string;
+  testResultId: string;
+  questionNumber: number;
+  previousPoints: number;
+  newPoints: number;
+  pointsPossible: number;
+  reason: string;
+  comment: string | null;
+  overriddenBy: string;
+  createdAt: string;
+}
+
+export interface GradeOverrideRequest {
+  testResultId: string;
+  examId: string;
+  questionNumber: number;
+  newPoints: number;
+  reason: string;
+  comment?: string;
+}
+
+export interface GradeOverrideResult {
+  overallScore: number;
+  totalPointsEarned: number;
+  previousPoints: number;
+}
+
+/**
+ * Per-question grade as stored in test_results.detailed_analysis
+ */
+export interface StoredQuestionResult {
+  questionNumber: number;
+  pointsEarned: number;
+  isCorrect: boolean;
+  studentAnswer?: string;
+  overridden?: boolean;
+  teacherComment?: string | null;
+}
+
+export const OVERRIDE_REASONS = [
+  'Answer misread from the scan',
+  'Acceptable alternative answer',
+  'Partial credit deserved',
+  'Answer key was wrong',
+  'Other'
+];
+
+/**
+ * Service for teacher corrections to individual question grades
+ */
+export class GradeOverrideService {
+
+  static getQuestionResults(detailedAnalysis?: string | null): StoredQuestionResult[] {
+    if (!detailedAnalysis) return [];
+
+    try {
+      const parsed = JSON.parse(detailedAnalysis);
+      return Array.isArray(parsed?.questionResults) ? parsed.questionResults : [];
+    } catch {
+      // Older results stored free-text analysis
+      return [];
+    }
+  }
+
+  static async getOverrides(testResultId: string): Promise<GradeOverride[]> {
+    const { data, error } = await supabase
+      .from('grade_overrides')
+      .select('*')
+      .eq('test_result_id', testResultId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching grade overrides:', error);
+      throw new Error(`Failed to fetch grade overrides: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      testResultId: row.test_result_id,
+      questionNumber: row.question_number,
+      previousPoints: Number(row.previous_points),
+      newPoints: Number(row.new_points),
+      pointsPossible: Number(row.points_possible),
+      reason: row.reason,
+      comment: row.comment,
+      overriddenBy: row.overridden_by,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Change the points for one question. The test score and skill scores are recomputed
+   * server-side; the corrected grade then replaces the cached grade for the same answer.
+   */
+  static async overrideQuestion(request: GradeOverrideRequest): Promise<GradeOverrideResult> {
+    const { data, error } = await supabase.rpc('apply_grade_override', {
+      p_test_result_id: request.testResultId,
+      p_question_number: request.questionNumber,
+      p_new_points: request.newPoints,
+      p_reason: request.reason,
+      p_comment: request.comment || undefined
+    });
+
+    if (error) {
+      console.error('Error overriding grade:', error);
+      throw new Error(`Failed to override grade: ${error.message}`);
+    }
+
+    const response = data as {
+      overall_score: number;
+      total_points_earned: number;
+      previous_points: number;
+      question: { studentAnswer?: string };
+    };
+
+    console.log(`✏️ Q${request.questionNumber} overridden: ${response.previous_points} → ${request.newPoints} points`);
+
+    await SecurityService.logAuditEvent('grade_override', 'test_results', {
+      testResultId: request.testResultId,
+      examId: request.examId,
+      questionNumber: request.questionNumber,
+      previousPoints: response.previous_points,
+      newPoints: request.newPoints,
+      reason: request.reason
+    });
+
+    if (response.question?.studentAnswer !== undefined) {
+      await this.recordOverrideInCache(request, response.question.studentAnswer);
+    }
+
+    return {
+      overallScore: Number(response.overall_score),
+      totalPointsEarned: Number(response.total_points_earned),
+      previousPoints: Number(response.previous_points)
+    };
+  }
+
+  private static async recordOverrideInCache(request: GradeOverrideRequest, studentAnswer: string): Promise<void> {
+    const { data: answerKey, error } = await supabase
+      .from('answer_keys')
+      .select('correct_answer, points')
+      .eq('exam_id', request.examId)
+      .eq('question_number', request.questionNumber)
+      .maybeSingle();
+
+    if (error || !answerKey) {
+      console.warn('Could not load answer key to update the grading cache:', error);
+      return;
+    }
+
+    await QuestionCacheService.recordTeacherOverride(
+      request.examId,
+      request.questionNumber,
+      studentAnswer,
+      answerKey.correct_answer,
+      { pointsEarned: request.newPoints, pointsPossible: answerKey.points, reason: request.reason }
+    );
+  }
+}
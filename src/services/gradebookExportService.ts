@@ -0,0 +1,432 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toCsv, toXlsx, type SpreadsheetCell } from "@/utils/spreadsheetExport";
+import { fetchAllPages } from "@/utils/fetchAllPages";
+
+export type GradebookColumnSource =
+  | 'student_name'
+  | 'student_id'
+  | 'email'
+  | 'class_name'
+  | 'exam_score'
+  | 'exam_points'
+  | 'average_score'
+  | 'content_skill'
+  | 'subject_skill'
+  | 'question_points';
+
+/**
+ * One template column. Sources that repeat (one per exam, skill or question) fill the
+ * {exam}, {skill} and {question} placeholders in the header.
+ */
+export interface GradebookColumn {
+  source: GradebookColumnSource;
+  header: string;
+}
+
+export interface GradebookTemplate {
+  id?: string;
+  name: string;
+  columns: GradebookColumn[];
+  scoreDecimals: number;
+}
+
+export type GradebookFormat = 'csv' | 'xlsx';
+
+export interface GradebookExportOptions {
+  classId: string;
+  examId?: string;
+  template: GradebookTemplate;
+  format: GradebookFormat;
+  changesOnly: boolean;
+}
+
+export interface GradebookExportResult {
+  blob: Blob;
+  fileName: string;
+  rowCount: number;
+  since: string | null;
+}
+
+export const GRADEBOOK_COLUMN_SOURCES: Array<{ source: GradebookColumnSource; label: string; defaultHeader: string }> = [
+  { source: 'student_name', label: 'Student name', defaultHeader: 'Student Name' },
+  { source: 'student_id', label: 'Student ID', defaultHeader: 'Student ID' },
+  { source: 'email', label: 'Email', defaultHeader: 'Email' },
+  { source: 'class_name', label: 'Class name', defaultHeader: 'Class' },
+  { source: 'exam_score', label: 'Score per exam (%)', defaultHeader: '{exam}' },
+  { source: 'exam_points', label: 'Points per exam', defaultHeader: '{exam} Points' },
+  { source: 'average_score', label: 'Average score (%)', defaultHeader: 'Average' },
+  { source: 'content_skill', label: 'Score per content skill', defaultHeader: '{skill}' },
+  { source: 'subject_skill', label: 'Score per subject skill', defaultHeader: '{skill}' },
+  { source: 'question_points', label: 'Points per question', defaultHeader: '{exam} Q{question}' }
+];
+
+export const DEFAULT_GRADEBOOK_TEMPLATE: GradebookTemplate = {
+  name: 'Default',
+  columns: [
+    { source: 'student_name', header: 'Student Name' },
+    { source: 'student_id', header: 'Student ID' },
+    { source: 'exam_score', header: '{exam}' },
+    { source: 'average_score', header: 'Average' }
+  ],
+  scoreDecimals: 1
+};
+
+// .in() filters are sent in the query string, so look rows up in batches
+const LOOKUP_BATCH_SIZE = 100;
+
+interface ResultRow {
+  id: string;
+  exam_id: string;
+  student_id: string;
+  overall_score: number;
+  total_points_earned: number;
+  detailed_analysis: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SkillRow {
+  test_result_id: string | null;
+  skill_name: string;
+  score: number;
+}
+
+/**
+ * Service for exporting class and exam gradebooks in the format a SIS expects
+ */
+export class GradebookExportService {
+
+  static async getTemplates(): Promise<GradebookTemplate[]> {
+    const { data, error } = await supabase
+      .from('gradebook_export_templates')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching export templates:', error);
+      throw new Error(`Failed to fetch export templates: ${error.message}`);
+    }
+
+    return (data || []).map(template => ({
+      id: template.id,
+      name: template.name,
+      columns: template.columns as unknown as GradebookColumn[],
+      scoreDecimals: template.score_decimals
+    }));
+  }
+
+  /**
+   * Save a template, replacing any existing template with the same name
+   */
+  static async saveTemplate(template: GradebookTemplate): Promise<GradebookTemplate> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Must be authenticated to save an export template');
+    }
+
+    const { data, error } = await supabase
+      .from('gradebook_export_templates')
+      .upsert({
+        teacher_id: user.id,
+        name: template.name,
+        columns: template.columns as unknown as Json,
+        score_decimals: template.scoreDecimals
+      }, { onConflict: 'teacher_id,name' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving export template:', error);
+      throw new Error(`Failed to save export template: ${error.message}`);
+    }
+
+    return { ...template, id: data.id };
+  }
+
+  static async deleteTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('gradebook_export_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      console.error('Error deleting export template:', error);
+      throw new Error(`Failed to delete export template: ${error.message}`);
+    }
+  }
+
+  /**
+   * When the same class (or class exam) was last exported, if ever
+   */
+  static async getLastExportedAt(classId: string, examId?: string): Promise<string | null> {
+    let query = supabase
+      .from('gradebook_exports')
+      .select('exported_at')
+      .eq('class_id', classId);
+
+    query = examId ? query.eq('exam_id', examId) : query.is('exam_id', null);
+
+    const { data, error } = await query
+      .order('exported_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching last export:', error);
+      throw new Error(`Failed to fetch last export: ${error.message}`);
+    }
+
+    return data?.exported_at || null;
+  }
+
+  /**
+   * Build the gradebook file and log the export. In changes-only mode, only students
+   * with results recorded since the last export of the same scope are included.
+   */
+  static async exportGradebook(options: GradebookExportOptions): Promise<GradebookExportResult> {
+    const { classId, examId, template, format, changesOnly } = options;
+    console.log('📊 Exporting gradebook:', { classId, examId, format, changesOnly });
+
+    const since = changesOnly ? await this.getLastExportedAt(classId, examId) : null;
+
+    const { data: activeClass } = await supabase
+      .from('active_classes')
+      .select('name')
+      .eq('id', classId)
+      .maybeSingle();
+
+    const rows = await this.buildRows(classId, activeClass?.name || '', examId, template, since);
+
+    const baseName = [activeClass?.name || 'class', examId, changesOnly ? 'changes' : null]
+      .filter(Boolean)
+      .join('-')
+      .replace(/[^a-zA-Z0-9-_]+/g, '_');
+    const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    const blob = format === 'xlsx'
+      ? toXlsx(rows, activeClass?.name || 'Gradebook')
+      : new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) {
+      const { error } = await supabase
+        .from('gradebook_exports')
+        .insert({
+          teacher_id: user.id,
+          class_id: classId,
+          exam_id: examId || null,
+          template_id: template.id || null,
+          format,
+          changes_only: changesOnly,
+          row_count: rows.length - 1
+        });
+
+      if (error) {
+        console.warn('Failed to record gradebook export:', error);
+      }
+    }
+
+    console.log(`✅ Gradebook exported: ${rows.length - 1} students`);
+    return { blob, fileName, rowCount: rows.length - 1, since };
+  }
+
+  /**
+   * Header row followed by one row per student, ordered by name
+   */
+  private static async buildRows(
+    classId: string,
+    className: string,
+    examId: string | undefined,
+    template: GradebookTemplate,
+    since: string | null
+  ): Promise<SpreadsheetCell[][]> {
+    const sources = new Set(template.columns.map(column => column.source));
+
+    let allResults: ResultRow[];
+    try {
+      allResults = await fetchAllPages((from, to) => {
+        let resultQuery = supabase
+          .from('test_results')
+          .select('id, exam_id, student_id, overall_score, total_points_earned, detailed_analysis, created_at, updated_at')
+          .eq('class_id', classId);
+        if (examId) {
+          resultQuery = resultQuery.eq('exam_id', examId);
+        }
+        return resultQuery
+          .order('created_at', { ascending: true })
+          .order('id')
+          .range(from, to);
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch test results: ${(error as Error).message}`);
+    }
+
+    // A retake replaces the earlier result for the same exam
+    const latest = new Map<string, ResultRow>();
+    for (const result of allResults) {
+      latest.set(`${result.student_id}:${result.exam_id}`, result);
+    }
+    const results = [...latest.values()];
+
+    // updated_at also moves when a grade is overridden after the result was recorded
+    const changedStudents = since
+      ? new Set(results.filter(result => result.updated_at > since).map(result => result.student_id))
+      : null;
+    const studentIds = [...new Set(results.map(result => result.student_id))]
+      .filter(id => !changedStudents || changedStudents.has(id));
+
+    const { data: exams } = await supabase
+      .from('exams')
+      .select('exam_id, title, created_at')
+      .in('exam_id', examId ? [examId] : [...new Set(results.map(result => result.exam_id))])
+      .order('created_at', { ascending: true });
+    const examList = exams || [];
+
+    const students = await this.fetchInBatches(studentIds, (batch, from, to) =>
+      supabase.from('student_profiles').select('id, student_name, student_id, email').in('id', batch).order('id').range(from, to)
+    );
+
+    const resultIds = results.filter(result => studentIds.includes(result.student_id)).map(result => result.id);
+    const contentSkills = sources.has('content_skill')
+      ? await this.fetchInBatches<SkillRow>(resultIds, (batch, from, to) =>
+        supabase.from('content_skill_scores').select('test_result_id, skill_name, score').in('test_result_id', batch).order('id').range(from, to))
+      : [];
+    const subjectSkills = sources.has('subject_skill')
+      ? await this.fetchInBatches<SkillRow>(resultIds, (batch, from, to) =>
+        supabase.from('subject_skill_scores').select('test_result_id, skill_name, score').in('test_result_id', batch).order('id').range(from, to))
+      : [];
+
+    const questionsByExam = new Map<string, number[]>();
+    if (sources.has('question_points') && examList.length > 0) {
+      const { data: answerKeys } = await supabase
+        .from('answer_keys')
+        .select('exam_id, question_number')
+        .in('exam_id', examList.map(exam => exam.exam_id))
+        .order('question_number');
+      for (const key of answerKeys || []) {
+        questionsByExam.set(key.exam_id, [...(questionsByExam.get(key.exam_id) || []), key.question_number]);
+      }
+    }
+
+    const round = (value: number | null | undefined) => {
+      if (value === null || value === undefined) return null;
+      const factor = Math.pow(10, template.scoreDecimals);
+      return Math.round(value * factor) / factor;
+    };
+    const skillNames = (skills: SkillRow[]) => [...new Set(skills.map(skill => skill.skill_name))].sort();
+    const skillAverage = (skills: SkillRow[], studentResultIds: string[], skillName: string) => {
+      const scores = skills
+        .filter(skill => skill.skill_name === skillName && skill.test_result_id && studentResultIds.includes(skill.test_result_id))
+        .map(skill => skill.score);
+      return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+    };
+
+    // Expand the template into concrete columns, each with a header and a cell getter
+    type CellGetter = (student: { id: string; student_name: string; student_id: string | null; email: string | null }, studentResults: ResultRow[]) => SpreadsheetCell;
+    const columns: Array<{ header: string; value: CellGetter }> = [];
+
+    for (const column of template.columns) {
+      switch (column.source) {
+        case 'student_name':
+          columns.push({ header: column.header, value: student => student.student_name });
+          break;
+        case 'student_id':
+          columns.push({ header: column.header, value: student => student.student_id });
+          break;
+        case 'email':
+          columns.push({ header: column.header, value: student => student.email });
+          break;
+        case 'class_name':
+          columns.push({ header: column.header, value: () => className });
+          break;
+        case 'average_score':
+          columns.push({
+            header: column.header,
+            value: (_, studentResults) => studentResults.length > 0
+              ? round(studentResults.reduce((sum, result) => sum + result.overall_score, 0) / studentResults.length)
+              : null
+          });
+          break;
+        case 'exam_score':
+        case 'exam_points':
+          for (const exam of examList) {
+            columns.push({
+              header: column.header.split('{exam}').join(exam.title),
+              value: (_, studentResults) => {
+                const result = studentResults.find(r => r.exam_id === exam.exam_id);
+                if (!result) return null;
+                return round(column.source === 'exam_score' ? result.overall_score : result.total_points_earned);
+              }
+            });
+          }
+          break;
+        case 'content_skill':
+        case 'subject_skill': {
+          const skills = column.source === 'content_skill' ? contentSkills : subjectSkills;
+          for (const skillName of skillNames(skills)) {
+            columns.push({
+              header: column.header.split('{skill}').join(skillName),
+              value: (_, studentResults) => round(skillAverage(skills, studentResults.map(r => r.id), skillName))
+            });
+          }
+          break;
+        }
+        case 'question_points':
+          for (const exam of examList) {
+            for (const questionNumber of questionsByExam.get(exam.exam_id) || []) {
+              columns.push({
+                header: column.header.split('{exam}').join(exam.title).split('{question}').join(String(questionNumber)),
+                value: (_, studentResults) => {
+                  const result = studentResults.find(r => r.exam_id === exam.exam_id);
+                  return result ? round(this.getQuestionPoints(result.detailed_analysis, questionNumber)) : null;
+                }
+              });
+            }
+          }
+          break;
+      }
+    }
+
+    const rows: SpreadsheetCell[][] = [columns.map(column => column.header)];
+    const sortedStudents = [...students].sort((a, b) => a.student_name.localeCompare(b.student_name));
+    for (const student of sortedStudents) {
+      const studentResults = results.filter(result => result.student_id === student.id);
+      rows.push(columns.map(column => column.value(student, studentResults)));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Points for one question from a result's stored analysis, when it was saved with per-question results
+   */
+  private static getQuestionPoints(detailedAnalysis: string | null, questionNumber: number): number | null {
+    if (!detailedAnalysis) return null;
+    try {
+      const analysis = JSON.parse(detailedAnalysis) as { questionResults?: Array<{ questionNumber: number; pointsEarned: number }> };
+      const question = analysis.questionResults?.find(q => q.questionNumber === questionNumber);
+      return question ? question.pointsEarned : null;
+    } catch {
+      // Older results store free-text analysis
+      return null;
+    }
+  }
+
+  private static async fetchInBatches<T>(
+    ids: string[],
+    query: (batch: string[], from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = ids.slice(i, i + LOOKUP_BATCH_SIZE);
+      try {
+        // A batch of results can have more skill rows than fit in one page
+        rows.push(...await fetchAllPages<T>((from, to) => query(batch, from, to)));
+      } catch (error) {
+        throw new Error(`Failed to fetch gradebook data: ${(error as Error).message}`);
+      }
+    }
+    return rows;
+  }
+}
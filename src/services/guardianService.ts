@@ -0,0 +1,231 @@
+import { supabase } from "@/integrations/supabase/client";
+import { GoalService, type StudentGoal, type StudentGoalRow } from "./goalService";
+import type {
+  AuthenticatedStudentContentSkill,
+  AuthenticatedStudentPracticeSession,
+  AuthenticatedStudentSubjectSkill,
+  AuthenticatedStudentTestResult
+} from "./authenticatedStudentService";
+
+export interface LinkedStudent {
+  linkId: string;
+  studentProfileId: string;
+  studentName: string;
+  linkedAt: string;
+}
+
+export interface LinkedGuardian {
+  linkId: string;
+  guardianName: string;
+  guardianEmail: string;
+  linkedAt: string;
+}
+
+export interface GuardianInvite {
+  code: string;
+  studentProfileId: string;
+  expiresAt: string;
+}
+
+export interface GuardianStudentOverview {
+  studentProfileId: string;
+  studentName: string;
+  testResults: AuthenticatedStudentTestResult[];
+  contentSkillScores: AuthenticatedStudentContentSkill[];
+  subjectSkillScores: AuthenticatedStudentSubjectSkill[];
+  practiceSessions: AuthenticatedStudentPracticeSession[];
+  goals: StudentGoal[];
+  enrolledClasses: Array<{ id: string; name: string; subject: string; grade: string; teacher: string }>;
+}
+
+export interface SkillChange {
+  skillName: string;
+  before: number;
+  after: number;
+}
+
+export interface PracticeSuggestion {
+  skillName: string;
+  score: number;
+  activity: string;
+}
+
+export interface GuardianDigest {
+  weekStart: string; // Monday of the week summarized, yyyy-MM-dd
+  testsTaken: number;
+  averageScore: number | null;
+  previousAverage: number | null;
+  improvedSkills: SkillChange[];
+  declinedSkills: SkillChange[];
+  practiceSessions: number;
+  practiceImprovement: number | null;
+  goalsCompleted: string[];
+  activeGoals: number;
+  suggestions: PracticeSuggestion[];
+}
+
+type OverviewRow = {
+  student: { student_profile_id: string; student_name: string };
+  test_results: AuthenticatedStudentTestResult[];
+  content_skill_scores: AuthenticatedStudentContentSkill[];
+  subject_skill_scores: AuthenticatedStudentSubjectSkill[];
+  practice_sessions: AuthenticatedStudentPracticeSession[];
+  goals: StudentGoalRow[];
+  enrolled_classes: GuardianStudentOverview['enrolledClasses'];
+};
+
+/**
+ * Service for guardian accounts: invite codes, links to students and the read-only
+ * progress view. All student data is read through functions that check the link.
+ */
+export class GuardianService {
+
+  /**
+   * Create an invite code for a student. Students leave the id out to invite for themselves.
+   */
+  static async createInvite(studentProfileId?: string): Promise<GuardianInvite> {
+    const { data, error } = await supabase.rpc('create_guardian_invite', {
+      p_student_profile_id: studentProfileId
+    });
+
+    if (error) {
+      console.error('Error creating guardian invite:', error);
+      throw new Error(`Failed to create invite code: ${error.message}`);
+    }
+
+    const invite = data as { code: string; student_profile_id: string; expires_at: string };
+    return { code: invite.code, studentProfileId: invite.student_profile_id, expiresAt: invite.expires_at };
+  }
+
+  /**
+   * Link the signed-in guardian to the student the code was created for
+   */
+  static async redeemInvite(code: string): Promise<{ studentProfileId: string; studentName: string }> {
+    const { data, error } = await supabase.rpc('redeem_guardian_invite', { p_code: code });
+
+    if (error) {
+      console.error('Error redeeming guardian invite:', error);
+      throw new Error(error.message);
+    }
+
+    const link = data as { student_profile_id: string; student_name: string };
+    return { studentProfileId: link.student_profile_id, studentName: link.student_name };
+  }
+
+  static async getLinkedStudents(): Promise<LinkedStudent[]> {
+    const { data, error } = await supabase.rpc('get_guardian_students');
+
+    if (error) {
+      console.error('Error fetching linked students:', error);
+      throw new Error(`Failed to fetch linked students: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      linkId: row.link_id,
+      studentProfileId: row.student_profile_id,
+      studentName: row.student_name,
+      linkedAt: row.linked_at
+    }));
+  }
+
+  /**
+   * The signed-in student's own profile id, or null for accounts without one
+   */
+  static async getOwnStudentProfileId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('student_profiles')
+      .select('id')
+      .eq('authenticated_user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching student profile:', error);
+      return null;
+    }
+    return data?.id || null;
+  }
+
+  static async getStudentGuardians(studentProfileId: string): Promise<LinkedGuardian[]> {
+    const { data, error } = await supabase.rpc('get_student_guardians', {
+      p_student_profile_id: studentProfileId
+    });
+
+    if (error) {
+      console.error('Error fetching student guardians:', error);
+      throw new Error(`Failed to fetch guardians: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      linkId: row.link_id,
+      guardianName: row.guardian_name,
+      guardianEmail: row.guardian_email,
+      linkedAt: row.linked_at
+    }));
+  }
+
+  static async removeLink(linkId: string): Promise<void> {
+    const { error } = await supabase
+      .from('guardian_links')
+      .delete()
+      .eq('id', linkId);
+
+    if (error) {
+      console.error('Error removing guardian link:', error);
+      throw new Error(`Failed to remove guardian: ${error.message}`);
+    }
+  }
+
+  /**
+   * Test results, skill scores, practice and goals for a linked student
+   */
+  static async getStudentOverview(studentProfileId: string): Promise<GuardianStudentOverview> {
+    const { data, error } = await supabase.rpc('get_guardian_student_overview', {
+      p_student_profile_id: studentProfileId
+    });
+
+    if (error) {
+      console.error('Error fetching guardian student overview:', error);
+      throw new Error(`Failed to fetch student progress: ${error.message}`);
+    }
+
+    const overview = data as unknown as OverviewRow;
+    return {
+      studentProfileId: overview.student.student_profile_id,
+      studentName: overview.student.student_name,
+      testResults: overview.test_results,
+      contentSkillScores: overview.content_skill_scores,
+      subjectSkillScores: overview.subject_skill_scores,
+      practiceSessions: overview.practice_sessions,
+      goals: overview.goals.map(goal => GoalService.toStudentGoal(goal)),
+      enrolledClasses: overview.enrolled_classes
+    };
+  }
+
+  /**
+   * The latest weekly digest. Digests are built in the database every Monday by
+   * generate_guardian_digests, so this is null until the first Monday after linking.
+   */
+  static async getWeeklyDigest(studentProfileId: string): Promise<GuardianDigest | null> {
+    const [latest] = await this.getDigestHistory(studentProfileId, 1);
+    return latest || null;
+  }
+
+  static async getDigestHistory(studentProfileId: string, limit: number = 8): Promise<GuardianDigest[]> {
+    const { data, error } = await supabase
+      .from('guardian_digests')
+      .select('summary')
+      .eq('student_profile_id', studentProfileId)
+      .order('week_start', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching digest history:', error);
+      throw new Error(`Failed to fetch earlier digests: ${error.message}`);
+    }
+
+    return (data || []).map(row => row.summary as unknown as GuardianDigest);
+  }
+}
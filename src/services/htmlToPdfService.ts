@@ -1,6 +1,6 @@
 
 import html2pdf from 'html2pdf.js';
-import { generateTestHTML, generateConsolidatedTestHTML, StudentTestData } from './printService';
+import { generateTestHTML, generateConsolidatedTestHTML, fitSheetPages, StudentTestData } from './printService';
 import { TestData } from '@/utils/pdfGenerator';
 
 export const generatePDFFromHTML = async (
@@ -26,11 +26,21 @@ export const generatePDFFromHTML = async (
 
   const finalOptions = { ...defaultOptions, ...options };
   
+  // Lay the pages out off screen first so long pages can be fitted to their sheet
+  const container = document.createElement('div');
+  container.style.position = 'absolute';
+  container.style.left = '-10000px';
+  container.innerHTML = htmlContent;
+  document.body.appendChild(container);
+
   try {
-    await html2pdf().from(htmlContent).set(finalOptions).save();
+    fitSheetPages(container);
+    await html2pdf().from(container).set(finalOptions).save();
   } catch (error) {
     console.error('PDF generation failed:', error);
     throw new Error('Failed to generate PDF');
+  } finally {
+    container.remove();
   }
 };
 
@@ -81,6 +81,32 @@ export class HybridGradingResultsMerger {
     const skillScores: { [skillName: string]: LocalSkillScore } = {};
 
     for (const result of results) {
+      // Rubric criteria linked to a skill score that skill directly
+      for (const criterion of result.criterionScores || []) {
+        if (!criterion.skillName || criterion.pointsPossible <= 0) continue;
+        const skillType = criterion.skillType || 'content';
+        const skillKey = `${skillType}:${criterion.skillName}`;
+
+        if (!skillScores[skillKey]) {
+          skillScores[skillKey] = {
+            skill_name: criterion.skillName,
+            skill_type: skillType,
+            points_earned: 0,
+            points_possible: 0,
+            score: 0,
+            questions_attempted: 0,
+            questions_correct: 0
+          };
+        }
+
+        skillScores[skillKey].points_possible += criterion.pointsPossible;
+        skillScores[skillKey].points_earned += criterion.pointsEarned;
+        skillScores[skillKey].questions_attempted += 1;
+        if (criterion.pointsEarned >= criterion.pointsPossible) {
+          skillScores[skillKey].questions_correct += 1;
+        }
+      }
+
       if (!result.skillMappings) continue;
 
       for (const skillMapping of result.skillMappings) {
@@ -165,7 +191,13 @@ export class HybridGradingResultsMerger {
             localResults: hybridResults.localResults.length,
             openAIResults: hybridResults.openAIResults.length,
             costAnalysis: hybridResults.costAnalysis,
-            combinedConfidence: hybridResults.summary.combinedConfidence
+            combinedConfidence: hybridResults.summary.combinedConfidence,
+            questionResults: hybridResults.mergedResults.map(result => ({
+              questionNumber: result.questionNumber,
+              pointsEarned: result.pointsEarned,
+              isCorrect: result.isCorrect,
+              ...(result.criterionScores ? { criterionScores: result.criterionScores } : {})
+            }))
           }),
           ai_feedback: this.generateHybridFeedback(hybridResults)
         })
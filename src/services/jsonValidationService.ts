@@ -25,6 +25,7 @@ export interface TestAnalysisResult {
   total_points_earned: number;
   total_points_possible: number;
   ai_feedback?: string;
+  aiBudgetNotice?: string | null;
   content_skill_scores?: SkillScore[];
   subject_skill_scores?: SkillScore[];
   processingMetrics?: ProcessingMetrics;
@@ -108,6 +109,7 @@ export class JsonValidationService {
         total_points_earned: { type: 'number', minimum: 0 },
         total_points_possible: { type: 'number', minimum: 0 },
         ai_feedback: { type: 'string' },
+        aiBudgetNotice: { type: ['string', 'null'] },
         content_skill_scores: {
           type: 'array',
           items: {
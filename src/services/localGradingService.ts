@@ -50,6 +50,8 @@ import { ClassificationLogger } from './classificationLogger';
 import { AnswerKeyMatchingService } from './answerKeyMatchingService';
 import { ExamSkillPreClassificationService } from './examSkillPreClassificationService';
 import { CacheResponseService } from './cacheResponseService';
+import { MathAnswerGradingService } from './mathAnswerGradingService';
+import { StructuredQuestionService } from './structuredQuestionService';
 
 export class LocalGradingService {
   private static readonly HIGH_CONFIDENCE_THRESHOLD = 0.85;
@@ -57,8 +59,10 @@ export class LocalGradingService {
   private static readonly ENHANCED_CONFIDENCE_THRESHOLD = 0.4;
 
   static classifyQuestion(question: any, answerKey: any): QuestionClassification {
-    // PHASE 1: Validate A-D format in answer key before classification
-    if (answerKey?.correct_answer) {
+    // PHASE 1: Validate A-D format in answer key before classification (numeric and
+    // expression keys are graded by value, structured keys part by part)
+    if (answerKey?.correct_answer && !MathAnswerGradingService.detectAnswerSpec(answerKey) &&
+        !StructuredQuestionService.isStructuredType(answerKey.question_type)) {
       const correctAnswer = answerKey.correct_answer.toString().trim();
       if (!/^[A-D]$/i.test(correctAnswer)) {
         console.warn(`⚠️ Invalid answer format in answer key: ${correctAnswer}. Expected A-D only.`);
@@ -170,11 +174,22 @@ export class LocalGradingService {
       };
     }
 
-    const studentAnswer = question.detectedAnswer?.selectedOption?.toUpperCase() || '';
-    const correctAnswer = answerKey.correct_answer?.toUpperCase() || '';
-    const isCorrect = studentAnswer === correctAnswer;
+    const structured = StructuredQuestionService.fromAnswerKey(answerKey);
+    const mathSpec = structured ? null : MathAnswerGradingService.detectAnswerSpec(answerKey);
+    const studentAnswer = mathSpec || structured
+      ? question.detectedAnswer?.selectedOption?.trim() || ''
+      : question.detectedAnswer?.selectedOption?.toUpperCase() || '';
+    const correctAnswer = mathSpec || structured
+      ? answerKey.correct_answer?.toString().trim() || ''
+      : answerKey.correct_answer?.toUpperCase() || '';
+    const mathResult = mathSpec ? MathAnswerGradingService.grade(studentAnswer, correctAnswer, mathSpec) : null;
+    const structuredResult = structured ? StructuredQuestionService.grade(structured, studentAnswer) : null;
+    const partialResult = mathResult || structuredResult;
+    const isCorrect = partialResult ? partialResult.isCorrect : studentAnswer === correctAnswer;
     const pointsPossible = answerKey.points || 1;
-    const pointsEarned = isCorrect ? pointsPossible : 0;
+    const pointsEarned = partialResult
+      ? Math.round(partialResult.score * pointsPossible * 100) / 100
+      : isCorrect ? pointsPossible : 0;
 
     // Determine grading method based on confidence and detection method
     let gradingMethod: LocalGradingResult['gradingMethod'] = 'local_question_based';
@@ -199,7 +214,11 @@ export class LocalGradingService {
       pointsPossible,
       confidence: classification.confidence,
       gradingMethod,
-      reasoning: this.generateQuestionBasedReasoning(studentAnswer, correctAnswer, question.detectedAnswer),
+      reasoning: mathResult
+        ? `Math answer grading: Student answered ${mathResult.normalizedAnswer || 'no answer'}, correct answer is ${correctAnswer}. ${mathResult.feedback}`
+        : structuredResult
+        ? `${structured?.type} grading: Student answered ${studentAnswer || 'no answer'}, correct answer is ${correctAnswer}. ${structuredResult.feedback}`
+        : this.generateQuestionBasedReasoning(studentAnswer, correctAnswer, question.detectedAnswer),
       skillMappings,
       qualityFlags
     };
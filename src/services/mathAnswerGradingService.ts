@@ -0,0 +1,686 @@
+/**
+ * Grading settings for a numeric answer key
+ */
+export interface NumericAnswerSpec {
+  kind: 'numeric';
+  absoluteTolerance?: number; // Largest accepted |answer - key|, in the key's unit
+  relativeTolerance?: number; // Largest accepted relative error, e.g. 0.02 for 2%
+  significantFigures?: number; // Answers with a different count get partial credit
+  unit?: string; // Expected unit, e.g. "m/s"; convertible units (cm for m) are accepted
+}
+
+/**
+ * Grading settings for an algebraic expression or equation answer key
+ */
+export interface ExpressionAnswerSpec {
+  kind: 'expression';
+}
+
+export type MathAnswerSpec = NumericAnswerSpec | ExpressionAnswerSpec;
+
+export interface MathGradingResult {
+  isCorrect: boolean;
+  score: number; // 0-1 for partial credit
+  confidence: number;
+  feedback: string;
+  normalizedAnswer: string;
+}
+
+// The answer_keys columns math grading reads
+export interface MathAnswerKeyFields {
+  answer_spec?: unknown;
+  question_type?: string | null;
+  correct_answer?: string | null;
+}
+
+export interface ParsedQuantity {
+  value: number;
+  unit: string;
+  isPercent: boolean;
+  significantFigures: number | null; // null for exact forms such as fractions
+}
+
+interface UnitDefinition {
+  factor: number; // Multiplier to SI base units
+  dims: Record<string, number>;
+}
+
+type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; argument: ExpressionNode };
+
+const LENGTH = { L: 1 };
+const MASS = { M: 1 };
+const TIME = { T: 1 };
+const ANGLE = { A: 1 };
+
+const UNITS: Record<string, UnitDefinition> = {
+  m: { factor: 1, dims: LENGTH },
+  km: { factor: 1000, dims: LENGTH },
+  cm: { factor: 0.01, dims: LENGTH },
+  mm: { factor: 0.001, dims: LENGTH },
+  um: { factor: 1e-6, dims: LENGTH },
+  nm: { factor: 1e-9, dims: LENGTH },
+  in: { factor: 0.0254, dims: LENGTH },
+  ft: { factor: 0.3048, dims: LENGTH },
+  yd: { factor: 0.9144, dims: LENGTH },
+  mi: { factor: 1609.344, dims: LENGTH },
+  kg: { factor: 1, dims: MASS },
+  g: { factor: 0.001, dims: MASS },
+  mg: { factor: 1e-6, dims: MASS },
+  lb: { factor: 0.45359237, dims: MASS },
+  oz: { factor: 0.028349523125, dims: MASS },
+  s: { factor: 1, dims: TIME },
+  ms: { factor: 0.001, dims: TIME },
+  min: { factor: 60, dims: TIME },
+  h: { factor: 3600, dims: TIME },
+  L: { factor: 0.001, dims: { L: 3 } },
+  mL: { factor: 1e-6, dims: { L: 3 } },
+  mol: { factor: 1, dims: { N: 1 } },
+  N: { factor: 1, dims: { M: 1, L: 1, T: -2 } },
+  J: { factor: 1, dims: { M: 1, L: 2, T: -2 } },
+  kJ: { factor: 1000, dims: { M: 1, L: 2, T: -2 } },
+  W: { factor: 1, dims: { M: 1, L: 2, T: -3 } },
+  Pa: { factor: 1, dims: { M: 1, L: -1, T: -2 } },
+  Hz: { factor: 1, dims: { T: -1 } },
+  rad: { factor: 1, dims: ANGLE },
+  deg: { factor: Math.PI / 180, dims: ANGLE }
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', metre: 'm', kilometer: 'km', kilometre: 'km', centimeter: 'cm', centimetre: 'cm',
+  millimeter: 'mm', millimetre: 'mm', 'µm': 'um', 'μm': 'um', inch: 'in', inches: 'in', foot: 'ft', feet: 'ft',
+  yard: 'yd', mile: 'mi', gram: 'g', kilogram: 'kg', milligram: 'mg', lbs: 'lb', pound: 'lb', ounce: 'oz',
+  sec: 's', second: 's', millisecond: 'ms', minute: 'min', hr: 'h', hour: 'h',
+  l: 'L', liter: 'L', litre: 'L', ml: 'mL', milliliter: 'mL', millilitre: 'mL',
+  newton: 'N', joule: 'J', watt: 'W', pascal: 'Pa', hertz: 'Hz', radian: 'rad', degree: 'deg', '°': 'deg'
+};
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  abs: Math.abs
+};
+
+// Longest names first so "sqrt" wins over splitting into s·q·r·t
+const NAMED_TOKENS = [...Object.keys(FUNCTIONS), 'pi'].sort((a, b) => b.length - a.length);
+
+/**
+ * Local grading for math answers: numbers compared with tolerance, unit conversion and
+ * significant figures, and expressions compared for algebraic equivalence. No AI involved.
+ */
+export class MathAnswerGradingService {
+  private static readonly MISSING_UNIT_CREDIT = 0.5;
+  private static readonly SIGNIFICANT_FIGURES_CREDIT = 0.5;
+  private static readonly SAMPLE_POINTS = 16;
+  private static readonly MIN_VALID_SAMPLES = 4;
+  private static readonly EQUIVALENCE_TOLERANCE = 1e-7;
+
+  /**
+   * The math spec for an answer key row, from answer_spec or its question type
+   */
+  static getAnswerSpec(answerKey: MathAnswerKeyFields | null | undefined): MathAnswerSpec | null {
+    const spec = answerKey?.answer_spec as MathAnswerSpec | null | undefined;
+    if (spec && (spec.kind === 'numeric' || spec.kind === 'expression')) {
+      return spec;
+    }
+
+    const questionType = answerKey?.question_type?.toLowerCase() || '';
+    if (questionType === 'numeric') return { kind: 'numeric' };
+    if (questionType === 'expression') return { kind: 'expression' };
+    return null;
+  }
+
+  /**
+   * The explicit math spec, else numeric grading when the key itself reads as a number
+   */
+  static detectAnswerSpec(answerKey: MathAnswerKeyFields | null | undefined): MathAnswerSpec | null {
+    const spec = this.getAnswerSpec(answerKey);
+    if (spec) return spec;
+
+    const correctAnswer = answerKey?.correct_answer?.toString().trim() || '';
+    return correctAnswer && this.isNumericAnswer(correctAnswer) ? { kind: 'numeric' } : null;
+  }
+
+  /**
+   * Whether a plain-text answer key reads as a number (with optional unit or percent sign)
+   */
+  static isNumericAnswer(text: string): boolean {
+    const parsed = this.parseQuantity(text);
+    return !!parsed && (!parsed.unit || !!this.parseUnit(parsed.unit));
+  }
+
+  static grade(studentAnswer: string, correctAnswer: string, spec: MathAnswerSpec): MathGradingResult {
+    if (!studentAnswer.trim()) {
+      return { isCorrect: false, score: 0, confidence: 1, feedback: 'No answer provided', normalizedAnswer: '' };
+    }
+
+    return spec.kind === 'numeric'
+      ? this.gradeNumeric(studentAnswer, correctAnswer, spec)
+      : this.gradeExpression(studentAnswer, correctAnswer);
+  }
+
+  static gradeNumeric(studentAnswer: string, correctAnswer: string, spec: NumericAnswerSpec = { kind: 'numeric' }): MathGradingResult {
+    const expected = this.parseQuantity(correctAnswer);
+    if (!expected) {
+      return {
+        isCorrect: false,
+        score: 0,
+        confidence: 0,
+        feedback: `Answer key "${correctAnswer}" is not a number`,
+        normalizedAnswer: studentAnswer.trim()
+      };
+    }
+
+    const student = this.parseQuantity(studentAnswer);
+    if (!student) {
+      return {
+        isCorrect: false,
+        score: 0,
+        confidence: 0.9,
+        feedback: 'Could not read a number in the answer',
+        normalizedAnswer: studentAnswer.trim()
+      };
+    }
+
+    const expectedUnit = spec.unit?.trim() || expected.unit;
+
+    // Text after the number that isn't a unit ("3x", "3 - 1", "3 or 4") is not this number
+    if (student.unit && !this.parseUnit(student.unit) && student.unit.toLowerCase() !== expectedUnit.toLowerCase()) {
+      return {
+        isCorrect: false,
+        score: 0,
+        confidence: 0.3,
+        feedback: `Could not read "${student.unit}" after the number; needs review`,
+        normalizedAnswer: studentAnswer.trim()
+      };
+    }
+
+    // Bring the student's value into the expected unit
+    let studentValue = student.value;
+    let missingUnit = false;
+
+    if (expectedUnit) {
+      if (!student.unit) {
+        missingUnit = true;
+      } else {
+        const expectedDef = this.parseUnit(expectedUnit);
+        const studentDef = this.parseUnit(student.unit);
+        const sameText = student.unit.toLowerCase() === expectedUnit.toLowerCase();
+
+        if (expectedDef && studentDef && this.sameDimensions(expectedDef, studentDef)) {
+          studentValue = student.value * studentDef.factor / expectedDef.factor;
+        } else if (!sameText) {
+          return {
+            isCorrect: false,
+            score: 0,
+            confidence: 0.9,
+            feedback: `Wrong units: expected ${expectedUnit}, got ${student.unit}`,
+            normalizedAnswer: `${student.value} ${student.unit}`
+          };
+        }
+      }
+    }
+
+    // "50" for a "50%" key is read as a percentage too
+    const candidates = [studentValue];
+    if (expected.isPercent && !student.isPercent) {
+      candidates.push(studentValue / 100);
+    }
+
+    const tolerance = Math.max(
+      spec.absoluteTolerance ?? 0,
+      (spec.relativeTolerance ?? 0) * Math.abs(expected.value),
+      1e-9 * Math.max(1, Math.abs(expected.value))
+    );
+    const matched = candidates.some(value => Math.abs(value - expected.value) <= tolerance);
+    const normalizedAnswer = `${this.formatNumber(candidates[0])}${expectedUnit ? ` ${expectedUnit}` : ''}`;
+
+    if (!matched) {
+      return {
+        isCorrect: false,
+        score: 0,
+        confidence: 0.95,
+        feedback: 'Incorrect value',
+        normalizedAnswer
+      };
+    }
+
+    let score = 1;
+    const notes: string[] = [];
+    if (missingUnit) {
+      score *= this.MISSING_UNIT_CREDIT;
+      notes.push(`missing units (${expectedUnit})`);
+    }
+    if (spec.significantFigures && student.significantFigures !== null && student.significantFigures !== spec.significantFigures) {
+      score *= this.SIGNIFICANT_FIGURES_CREDIT;
+      notes.push(`${student.significantFigures} significant figures instead of ${spec.significantFigures}`);
+    }
+
+    return {
+      isCorrect: score === 1,
+      score,
+      confidence: 0.95,
+      feedback: notes.length > 0 ? `Correct value, but ${notes.join(' and ')}` : 'Correct answer!',
+      normalizedAnswer
+    };
+  }
+
+  static gradeExpression(studentAnswer: string, correctAnswer: string): MathGradingResult {
+    const normalizedAnswer = studentAnswer.trim();
+    let student: ExpressionNode[];
+    let expected: ExpressionNode[];
+
+    try {
+      expected = this.parseEquation(correctAnswer);
+    } catch {
+      return { isCorrect: false, score: 0, confidence: 0, feedback: `Answer key "${correctAnswer}" is not a valid expression`, normalizedAnswer };
+    }
+
+    try {
+      student = this.parseEquation(studentAnswer);
+    } catch {
+      return { isCorrect: false, score: 0, confidence: 0.9, feedback: 'Could not read the expression', normalizedAnswer };
+    }
+
+    // "x = 3" against "3" (or the reverse): compare the side that isn't the lone variable
+    if (student.length !== expected.length) {
+      const studentSide = student.length === 2 ? this.solvedSide(student) : student[0];
+      const expectedSide = expected.length === 2 ? this.solvedSide(expected) : expected[0];
+      if (!studentSide || !expectedSide) {
+        return { isCorrect: false, score: 0, confidence: 0.9, feedback: 'Not equivalent to the expected answer', normalizedAnswer };
+      }
+      student = [studentSide];
+      expected = [expectedSide];
+    }
+
+    const equivalence = student.length === 2
+      ? this.equationsEquivalent(student, expected)
+      : this.expressionsEquivalent(student[0], expected[0]);
+
+    if (equivalence === null) {
+      return {
+        isCorrect: false,
+        score: 0,
+        confidence: 0.3,
+        feedback: 'Could not check equivalence for this expression',
+        normalizedAnswer
+      };
+    }
+
+    return {
+      isCorrect: equivalence,
+      score: equivalence ? 1 : 0,
+      confidence: 0.95,
+      feedback: equivalence ? 'Correct answer!' : 'Not equivalent to the expected answer',
+      normalizedAnswer
+    };
+  }
+
+  /**
+   * Read a number from text: decimals, fractions, mixed numbers, percentages and
+   * scientific notation, with any unit that follows. "x = 3" reads as 3.
+   */
+  static parseQuantity(text: string): ParsedQuantity | null {
+    let input = text.trim()
+      .replace(/[−–]/g, '-')
+      .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+      .replace(/^[a-zA-Z]\w*\s*=\s*/, '');
+
+    let value: number;
+    let significantFigures: number | null = null;
+    let match: RegExpMatchArray | null;
+
+    if ((match = input.match(/^([+-]?)(\d+)\s+(\d+)\s*\/\s*(\d+)/))) {
+      const whole = Number(match[2]) + Number(match[3]) / Number(match[4]);
+      value = match[1] === '-' ? -whole : whole;
+    } else if ((match = input.match(/^([+-]?\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/))) {
+      value = Number(match[1]) / Number(match[2]);
+    } else if ((match = input.match(/^([+-]?(?:\d+\.?\d*|\.\d+))(?:\s*(?:[eE]([+-]?\d+)|(?:[x×*·]|\\times)\s*10\s*\^\s*\(?([+-]?\d+)\)?))?/))) {
+      const exponent = Number(match[2] ?? match[3] ?? 0);
+      value = Number(match[1]) * Math.pow(10, exponent);
+      significantFigures = this.countSignificantFigures(match[1]);
+    } else {
+      return null;
+    }
+
+    if (!isFinite(value)) return null;
+
+    input = input.slice(match[0].length).trim();
+    const isPercent = input.startsWith('%');
+    if (isPercent) {
+      value /= 100;
+      input = input.slice(1).trim();
+    }
+
+    return { value, unit: input, isPercent, significantFigures };
+  }
+
+  private static countSignificantFigures(mantissa: string): number {
+    const digits = mantissa.replace(/^[+-]/, '');
+    if (digits.includes('.')) {
+      const significant = digits.replace('.', '').replace(/^0+/, '');
+      return Math.max(significant.length, 1);
+    }
+    // Trailing zeros in a whole number are not significant
+    return Math.max(digits.replace(/^0+/, '').replace(/0+$/, '').length, 1);
+  }
+
+  private static formatNumber(value: number): string {
+    return Number.isInteger(value) ? value.toString() : parseFloat(value.toPrecision(12)).toString();
+  }
+
+  /**
+   * Parse a compound unit such as "m/s^2", "kg·m/s²" or "km/h"
+   */
+  static parseUnit(unit: string): UnitDefinition | null {
+    const normalized = unit.trim().replace(/²/g, '^2').replace(/³/g, '^3');
+    if (!normalized) return null;
+
+    const [numerator, ...denominators] = normalized.split('/');
+    const result: UnitDefinition = { factor: 1, dims: {} };
+
+    const apply = (part: string, sign: number): boolean => {
+      // "1/s" has no numerator units
+      const tokens = part.split(/[\s*·]+/).filter(token => token && token !== '1');
+      if (tokens.length === 0) return sign > 0;
+
+      for (const token of tokens) {
+        const match = token.match(/^([a-zA-Zµμ°]+)(?:\^?(-?\d+))?$/);
+        if (!match) return false;
+        const definition = this.lookupUnit(match[1]);
+        if (!definition) return false;
+
+        const power = Number(match[2] ?? 1) * sign;
+        result.factor *= Math.pow(definition.factor, power);
+        Object.entries(definition.dims).forEach(([dim, exp]) => {
+          result.dims[dim] = (result.dims[dim] || 0) + exp * power;
+        });
+      }
+      return true;
+    };
+
+    if (!apply(numerator, 1)) return null;
+    for (const denominator of denominators) {
+      if (!apply(denominator, -1)) return null;
+    }
+    return result;
+  }
+
+  private static lookupUnit(symbol: string): UnitDefinition | null {
+    if (UNITS[symbol]) return UNITS[symbol];
+
+    const lower = symbol.toLowerCase();
+    const singular = lower.length > 3 && lower.endsWith('s') ? lower.slice(0, -1) : lower;
+    const alias = UNIT_ALIASES[symbol] || UNIT_ALIASES[lower] || UNIT_ALIASES[singular];
+    return alias ? UNITS[alias] : UNITS[singular] || null;
+  }
+
+  private static sameDimensions(a: UnitDefinition, b: UnitDefinition): boolean {
+    const dims = new Set([...Object.keys(a.dims), ...Object.keys(b.dims)]);
+    return [...dims].every(dim => (a.dims[dim] || 0) === (b.dims[dim] || 0));
+  }
+
+  // ---- Expressions ----
+
+  /**
+   * Parse "expr" or "lhs = rhs" into one or two expression trees
+   */
+  private static parseEquation(text: string): ExpressionNode[] {
+    const sides = text.split('=');
+    if (sides.length > 2) throw new Error('More than one "="');
+    return sides.map(side => this.parseExpression(side));
+  }
+
+  private static solvedSide(equation: ExpressionNode[]): ExpressionNode | null {
+    if (equation[0].type === 'variable') return equation[1];
+    if (equation[1].type === 'variable') return equation[0];
+    return null;
+  }
+
+  private static parseExpression(text: string): ExpressionNode {
+    const tokens = this.tokenize(text);
+    if (tokens.length === 0) throw new Error('Empty expression');
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+
+    const startsOperand = (token: string | undefined) =>
+      token !== undefined && (token === '(' || /^[\d.]/.test(token) || /^[a-zA-Z]/.test(token));
+
+    const parsePrimary = (): ExpressionNode => {
+      const token = next();
+      if (token === undefined) throw new Error('Unexpected end of expression');
+
+      if (token === '(') {
+        const inner = parseSum();
+        if (next() !== ')') throw new Error('Missing ")"');
+        return inner;
+      }
+      if (/^[\d.]/.test(token)) {
+        const value = Number(token);
+        if (isNaN(value)) throw new Error(`Bad number ${token}`);
+        return { type: 'number', value };
+      }
+      if (token === 'pi') return { type: 'number', value: Math.PI };
+      if (FUNCTIONS[token]) {
+        return { type: 'call', name: token, argument: parsePower() };
+      }
+      if (/^[a-zA-Z]$/.test(token)) return { type: 'variable', name: token };
+      throw new Error(`Unexpected "${token}"`);
+    };
+
+    const parsePower = (): ExpressionNode => {
+      const base = parsePrimary();
+      if (peek() === '^') {
+        next();
+        return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+      }
+      return base;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+      if (peek() === '-') {
+        next();
+        return { type: 'negate', operand: parseUnary() };
+      }
+      if (peek() === '+') {
+        next();
+        return parseUnary();
+      }
+      return parsePower();
+    };
+
+    const parseProduct = (): ExpressionNode => {
+      let node = parseUnary();
+      while (peek() === '*' || peek() === '/' || startsOperand(peek())) {
+        // Implicit multiplication: 2x, 3(x+1), (x+1)(x-1)
+        const operator = peek() === '*' || peek() === '/' ? next() as '*' | '/' : '*';
+        node = { type: 'binary', operator, left: node, right: parseUnary() };
+      }
+      return node;
+    };
+
+    const parseSum = (): ExpressionNode => {
+      let node = parseProduct();
+      while (peek() === '+' || peek() === '-') {
+        const operator = next() as '+' | '-';
+        node = { type: 'binary', operator, left: node, right: parseProduct() };
+      }
+      return node;
+    };
+
+    const tree = parseSum();
+    if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}"`);
+    return tree;
+  }
+
+  private static tokenize(text: string): string[] {
+    const input = text
+      .replace(/[−–]/g, '-')
+      .replace(/[×·]/g, '*')
+      .replace(/÷/g, '/')
+      .replace(/²/g, '^2')
+      .replace(/³/g, '^3')
+      .replace(/√/g, 'sqrt')
+      .replace(/π/g, 'pi')
+      .replace(/\*\*/g, '^');
+
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < input.length) {
+      const char = input[i];
+      if (/\s/.test(char)) {
+        i++;
+      } else if (/[\d.]/.test(char)) {
+        const number = input.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+        if (!number) throw new Error(`Unexpected "${char}"`);
+        tokens.push(number[0]);
+        i += number[0].length;
+      } else if (/[a-zA-Z]/.test(char)) {
+        // Named functions and pi, otherwise one variable per letter so "xy" is x·y
+        const rest = input.slice(i);
+        const named = NAMED_TOKENS.find(name => rest.toLowerCase().startsWith(name));
+        const token = named || char;
+        tokens.push(token);
+        i += token.length;
+      } else if ('+-*/^()'.includes(char)) {
+        tokens.push(char);
+        i++;
+      } else if (char === '[' || char === '{') {
+        tokens.push('(');
+        i++;
+      } else if (char === ']' || char === '}') {
+        tokens.push(')');
+        i++;
+      } else {
+        throw new Error(`Unexpected character "${char}"`);
+      }
+    }
+    return tokens;
+  }
+
+  private static evaluate(node: ExpressionNode, values: Record<string, number>): number {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'variable':
+        return values[node.name];
+      case 'negate':
+        return -this.evaluate(node.operand, values);
+      case 'call':
+        return FUNCTIONS[node.name](this.evaluate(node.argument, values));
+      case 'binary': {
+        const left = this.evaluate(node.left, values);
+        const right = this.evaluate(node.right, values);
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return left / right;
+          case '^': return Math.pow(left, right);
+        }
+      }
+    }
+  }
+
+  private static collectVariables(node: ExpressionNode, into: Set<string>): Set<string> {
+    switch (node.type) {
+      case 'variable':
+        into.add(node.name);
+        break;
+      case 'negate':
+        this.collectVariables(node.operand, into);
+        break;
+      case 'call':
+        this.collectVariables(node.argument, into);
+        break;
+      case 'binary':
+        this.collectVariables(node.left, into);
+        this.collectVariables(node.right, into);
+        break;
+    }
+    return into;
+  }
+
+  /**
+   * Deterministic sample points over every variable. The first half are positive so roots
+   * and logs stay defined; the rest mix signs and near-zero values so that abs(x) or
+   * sqrt(x^2) can't pass for x. Points where either side is undefined are skipped.
+   */
+  private static samplePoints(nodes: ExpressionNode[]): Array<Record<string, number>> {
+    const variables = [...nodes.reduce((set, node) => this.collectVariables(node, set), new Set<string>())].sort();
+    let seed = 0x2f6b3a1d;
+    const random = () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296;
+    };
+
+    return Array.from({ length: this.SAMPLE_POINTS }, (_, point) =>
+      Object.fromEntries(variables.map((name, index) => {
+        if (point < this.SAMPLE_POINTS / 2) return [name, 0.5 + random() * 3];
+        const magnitude = point % 4 === 0 ? 0.01 + random() * 0.1 : 0.5 + random() * 3;
+        return [name, (point + index) % 2 === 0 ? -magnitude : magnitude];
+      }))
+    );
+  }
+
+  private static closeEnough(a: number, b: number): boolean {
+    return Math.abs(a - b) <= this.EQUIVALENCE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+
+  /**
+   * True/false when the two expressions agree/disagree at the sample points; null when too
+   * few points could be evaluated to tell
+   */
+  private static expressionsEquivalent(a: ExpressionNode, b: ExpressionNode): boolean | null {
+    let valid = 0;
+    for (const point of this.samplePoints([a, b])) {
+      const left = this.evaluate(a, point);
+      const right = this.evaluate(b, point);
+      if (!isFinite(left) || !isFinite(right)) continue;
+      if (!this.closeEnough(left, right)) return false;
+      valid++;
+    }
+    return valid >= this.MIN_VALID_SAMPLES ? true : null;
+  }
+
+  /**
+   * Equations are equivalent when lhs − rhs of one is a constant non-zero multiple of the
+   * other's, so "x = 3", "3 = x" and "2x = 6" all match
+   */
+  private static equationsEquivalent(a: ExpressionNode[], b: ExpressionNode[]): boolean | null {
+    const differenceA: ExpressionNode = { type: 'binary', operator: '-', left: a[0], right: a[1] };
+    const differenceB: ExpressionNode = { type: 'binary', operator: '-', left: b[0], right: b[1] };
+
+    let ratio: number | null = null;
+    let valid = 0;
+    for (const point of this.samplePoints([differenceA, differenceB])) {
+      const left = this.evaluate(differenceA, point);
+      const right = this.evaluate(differenceB, point);
+      if (!isFinite(left) || !isFinite(right)) continue;
+
+      if (this.closeEnough(right, 0) || this.closeEnough(left, 0)) {
+        if (!this.closeEnough(right, 0) || !this.closeEnough(left, 0)) return false;
+      } else {
+        const pointRatio = left / right;
+        if (ratio === null) {
+          ratio = pointRatio;
+        } else if (!this.closeEnough(pointRatio, ratio)) {
+          return false;
+        }
+      }
+      valid++;
+    }
+    return valid >= this.MIN_VALID_SAMPLES ? true : null;
+  }
+}
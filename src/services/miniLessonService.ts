@@ -0,0 +1,167 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { SubjectSpecificMisconceptionService } from "./subjectSpecificMisconceptionService";
+
+export interface MiniLesson {
+  id: string;
+  student_id: string | null;
+  misconception_subtype_id: string;
+  lesson_content: string;
+  difficulty_level: string | null;
+  triggered_by: string | null;
+  generation_context: Json | null;
+  viewed_count: number | null;
+  last_viewed_at: string | null;
+  effectiveness_score: number | null;
+  generated_at: string;
+  misconception_name?: string;
+}
+
+// The lesson is generated for the signed-in student
+export interface MiniLessonRequest {
+  misconceptionCategory: string;
+  skillName: string;
+  subject?: string;
+  grade?: string;
+  studentAnswer?: string;
+  correctAnswer?: string;
+  questionContext?: string;
+  conceptMissed?: string;
+  triggeredBy?: string;
+}
+
+interface MiniLessonContext {
+  skillName?: string;
+  baselineScore?: number | null;
+}
+
+// Categories that carry no diagnostic meaning and aren't worth a lesson
+const NON_DIAGNOSTIC_CATEGORIES = ['unclassified', 'no_answer'];
+
+/**
+ * Service for short lessons that target a student's diagnosed misconception
+ */
+export class MiniLessonService {
+
+  /**
+   * Queue a mini-lesson for a misconception. Generation happens in the
+   * generate-mini-lesson edge function, which reuses a recent lesson when one exists.
+   * Never rejects, so grading can fire it without waiting.
+   */
+  static async requestMiniLesson(request: MiniLessonRequest): Promise<MiniLesson | null> {
+    if (NON_DIAGNOSTIC_CATEGORIES.includes(request.misconceptionCategory)) {
+      return null;
+    }
+
+    const details = request.subject
+      ? SubjectSpecificMisconceptionService.getMisconceptionDetails(request.subject, request.misconceptionCategory)
+      : null;
+
+    console.log('📘 Requesting mini-lesson for misconception:', request.misconceptionCategory);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-mini-lesson', {
+        body: {
+          ...request,
+          misconceptionName: details?.name || this.formatCategoryName(request.misconceptionCategory),
+          misconceptionDescription: details?.description
+        }
+      });
+
+      if (error) {
+        console.error('Error requesting mini-lesson:', error);
+        return null;
+      }
+
+      return data?.miniLesson || null;
+    } catch (error) {
+      console.error('Error in requestMiniLesson:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a student's mini-lessons for a skill, newest first
+   */
+  static async getStudentMiniLessons(studentId: string, skillName?: string): Promise<MiniLesson[]> {
+    let query = supabase
+      .from('mini_lessons')
+      .select('*, misconception_subtypes(subtype_name)')
+      .eq('student_id', studentId)
+      .order('generated_at', { ascending: false });
+
+    if (skillName) {
+      query = query.eq('generation_context->>skillName', skillName);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching mini-lessons:', error);
+      throw new Error(`Failed to fetch mini-lessons: ${error.message}`);
+    }
+
+    return (data || []).map(({ misconception_subtypes, ...lesson }) => ({
+      ...lesson,
+      misconception_name: misconception_subtypes?.subtype_name
+    }));
+  }
+
+  /**
+   * Record that the student opened a lesson
+   */
+  static async recordView(lesson: MiniLesson): Promise<void> {
+    const { error } = await supabase
+      .from('mini_lessons')
+      .update({
+        viewed_count: (lesson.viewed_count || 0) + 1,
+        last_viewed_at: new Date().toISOString()
+      })
+      .eq('id', lesson.id);
+
+    if (error) {
+      console.error('Error recording mini-lesson view:', error);
+    }
+  }
+
+  /**
+   * Score lessons the student has read by how their next attempt on the same skill
+   * compares with their skill score when the lesson was generated.
+   * The effectiveness score is the change in percentage points (negative if they did worse).
+   */
+  static async recordSkillAttempt(studentId: string, skillName: string, attemptScore: number): Promise<void> {
+    try {
+      const lessons = await this.getStudentMiniLessons(studentId, skillName);
+      const unscoredViewedLessons = lessons.filter(lesson =>
+        lesson.effectiveness_score === null && (lesson.viewed_count || 0) > 0
+      );
+
+      for (const lesson of unscoredViewedLessons) {
+        const context = (lesson.generation_context || {}) as MiniLessonContext;
+        if (context.baselineScore === null || context.baselineScore === undefined) continue;
+
+        const effectiveness = Math.round((attemptScore - context.baselineScore) * 100) / 100;
+
+        const { error } = await supabase
+          .from('mini_lessons')
+          .update({ effectiveness_score: effectiveness })
+          .eq('id', lesson.id);
+
+        if (error) {
+          console.error('Error updating mini-lesson effectiveness:', error);
+        } else {
+          console.log(`📈 Mini-lesson ${lesson.id} effectiveness: ${effectiveness}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error in recordSkillAttempt:', error);
+    }
+  }
+
+  private static formatCategoryName(category: string): string {
+    return category
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
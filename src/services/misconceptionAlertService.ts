@@ -0,0 +1,169 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface QuestionObservation {
+  questionId: string;
+  questionNumber: number;
+  skillName?: string;
+  isCorrect?: boolean;
+  timeSpentSeconds?: number;
+  answerChanges?: number;
+}
+
+export interface MisconceptionAlert {
+  id: string;
+  student_id: string;
+  question_id: string;
+  exercise_id: string | null;
+  exam_id: string | null;
+  predicted_misconception_subtype_id: string | null;
+  confidence_score: number;
+  risk_level: string | null;
+  behavioral_signals: Json | null;
+  resolved: boolean | null;
+  resolution_type: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  misconception_name?: string;
+}
+
+export interface AlertAccuracyStats {
+  resolved: number;
+  accurate: number;
+  accuracyRate: number;
+  byRiskLevel: Record<string, { resolved: number; accurate: number }>;
+}
+
+export type AlertResolutionType = 'confirmed' | 'self_corrected' | 'false_positive';
+
+export const ALERT_RESOLUTION_TYPES: Array<{ value: AlertResolutionType; label: string }> = [
+  { value: 'confirmed', label: 'Confirmed – addressed with student' },
+  { value: 'self_corrected', label: 'Real, student self-corrected' },
+  { value: 'false_positive', label: 'False alarm' }
+];
+
+// Resolutions that count the prediction as correct; the detector uses the same split
+const ACCURATE_RESOLUTIONS: AlertResolutionType[] = ['confirmed', 'self_corrected'];
+
+/**
+ * Service for predictive misconception alerts raised from timing and behavior signals
+ */
+export class MisconceptionAlertService {
+
+  /**
+   * Run the detector over a student's answers. Timing recorded for the exercise in
+   * question_time_tracking takes precedence over the observations' own timing.
+   */
+  static async detect(studentId: string, observations: QuestionObservation[], exerciseId?: string): Promise<number> {
+    if (!studentId || observations.length === 0) return 0;
+
+    const { data, error } = await supabase.functions.invoke('detect-misconception-alerts', {
+      body: { studentId, exerciseId, observations }
+    });
+
+    if (error) {
+      console.error('Error running misconception detection:', error);
+      return 0;
+    }
+
+    return data?.alertsRaised || 0;
+  }
+
+  /**
+   * Open alerts for a set of students, highest confidence first. Accepts login ids and
+   * includes alerts filed against the matching student profiles.
+   */
+  static async getOpenAlerts(studentIds: string[]): Promise<MisconceptionAlert[]> {
+    if (studentIds.length === 0) return [];
+
+    const { data: profiles } = await supabase
+      .from('student_profiles')
+      .select('id')
+      .in('authenticated_user_id', studentIds);
+
+    const allIds = [...new Set([...studentIds, ...(profiles || []).map(profile => profile.id)])];
+
+    const { data, error } = await supabase
+      .from('predictive_misconception_alerts')
+      .select('*, misconception_subtypes(subtype_name)')
+      .in('student_id', allIds)
+      .eq('resolved', false)
+      .order('confidence_score', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching misconception alerts:', error);
+      throw new Error(`Failed to fetch misconception alerts: ${error.message}`);
+    }
+
+    return (data || []).map(({ misconception_subtypes, ...alert }) => ({
+      ...alert,
+      misconception_name: misconception_subtypes?.subtype_name
+    }));
+  }
+
+  /**
+   * Map each student profile back to its login so alerts can be shown under the right student
+   */
+  static async getProfileLoginIds(profileIds: string[]): Promise<Record<string, string>> {
+    if (profileIds.length === 0) return {};
+
+    const { data } = await supabase
+      .from('student_profiles')
+      .select('id, authenticated_user_id')
+      .in('id', profileIds);
+
+    return Object.fromEntries(
+      (data || [])
+        .filter(profile => profile.authenticated_user_id)
+        .map(profile => [profile.id, profile.authenticated_user_id as string])
+    );
+  }
+
+  static async resolveAlert(alertId: string, resolutionType: AlertResolutionType): Promise<void> {
+    const { error } = await supabase
+      .from('predictive_misconception_alerts')
+      .update({
+        resolved: true,
+        resolution_type: resolutionType,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', alertId);
+
+    if (error) {
+      console.error('Error resolving misconception alert:', error);
+      throw new Error(`Failed to resolve misconception alert: ${error.message}`);
+    }
+  }
+
+  /**
+   * How often resolved alerts turned out to be real, overall and per risk level
+   */
+  static async getAccuracyStats(): Promise<AlertAccuracyStats> {
+    const { data, error } = await supabase
+      .from('predictive_misconception_alerts')
+      .select('risk_level, resolution_type')
+      .eq('resolved', true);
+
+    if (error) {
+      console.error('Error fetching alert accuracy:', error);
+      throw new Error(`Failed to fetch alert accuracy: ${error.message}`);
+    }
+
+    const stats: AlertAccuracyStats = { resolved: 0, accurate: 0, accuracyRate: 0, byRiskLevel: {} };
+
+    for (const alert of data || []) {
+      const level = alert.risk_level || 'unknown';
+      const accurate = ACCURATE_RESOLUTIONS.includes(alert.resolution_type as AlertResolutionType);
+      stats.byRiskLevel[level] ||= { resolved: 0, accurate: 0 };
+      stats.byRiskLevel[level].resolved++;
+      stats.resolved++;
+      if (accurate) {
+        stats.byRiskLevel[level].accurate++;
+        stats.accurate++;
+      }
+    }
+
+    stats.accuracyRate = stats.resolved > 0 ? (stats.accurate / stats.resolved) * 100 : 0;
+    return stats;
+  }
+}
@@ -16,7 +16,7 @@ export interface MistakePatternData {
   mistake_type?: string;
   skill_targeted: string;
   confidence_score?: number;
-  grading_method?: 'exact_match' | 'flexible_match' | 'ai_graded';
+  grading_method?: 'exact_match' | 'flexible_match' | 'numeric_match' | 'expression_match' | 'structured_match' | 'ai_graded';
   feedback_given?: string;
   created_at: string;
   expected_concept?: string;
@@ -48,7 +48,7 @@ export class MistakePatternService {
     skillTargeted: string;
     mistakeType?: string;
     confidenceScore?: number;
-    gradingMethod?: 'exact_match' | 'flexible_match' | 'ai_graded';
+    gradingMethod?: 'exact_match' | 'flexible_match' | 'numeric_match' | 'expression_match' | 'structured_match' | 'ai_graded';
     feedbackGiven?: string;
     questionContext?: string;
     timeSpent?: number;
@@ -62,6 +62,8 @@ export class MistakePatternService {
     conceptMissedId?: string;
     conceptMissedDescription?: string;
     conceptConfidence?: number; // NEW: GPT confidence score
+    // Authenticated student, used to queue a mini-lesson for the misconception
+    studentId?: string;
   }): Promise<string | null> {
     try {
       console.log(`🔍 Recording mistake pattern for question ${mistakeData.questionNumber}`);
@@ -1,8 +1,10 @@
+import type { PageIdentity } from './pageIdentityService';
 
 export interface PageGroup {
   groupId: string;
   examId: string | null;
   studentName: string | null;
+  studentId?: string | null;
   pages: Array<{
     pageNumber: number;
     fileName: string;
@@ -11,6 +13,11 @@ export interface PageGroup {
   }>;
   totalPages: number;
   isComplete: boolean;
+  identifiedBy: 'page_code' | 'text';
+  expectedPages: number | null; // From the page code; unknown for text-detected groups
+  missingPages: number[];
+  duplicatePages: number[];
+  outOfOrder: boolean; // Uploaded in a different order than printed
 }
 
 export interface PageDetectionResult {
@@ -29,6 +36,7 @@ export class MultiPageDetectionService {
     examId: string | null;
     studentName: string | null;
     extractedText: string;
+    pageIdentity?: PageIdentity | null;
   }>): Promise<PageDetectionResult> {
     const pageGroups: PageGroup[] = [];
     const ungroupedFiles: File[] = [];
@@ -38,6 +46,12 @@ export class MultiPageDetectionService {
     const groupMap = new Map<string, PageGroup>();
 
     for (const result of extractResults) {
+      // A decoded page code is authoritative; text detection is only a fallback
+      if (result.pageIdentity) {
+        this.addIdentifiedPage(groupMap, result.file, result.pageIdentity);
+        continue;
+      }
+
       const groupKey = this.createGroupKey(result.examId, result.studentName);
       
       if (groupKey && (result.examId || result.studentName)) {
@@ -50,7 +64,12 @@ export class MultiPageDetectionService {
             studentName: result.studentName,
             pages: [],
             totalPages: 0,
-            isComplete: false
+            isComplete: false,
+            identifiedBy: 'text',
+            expectedPages: null,
+            missingPages: [],
+            duplicatePages: [],
+            outOfOrder: false
           };
           groupMap.set(groupKey, group);
         }
@@ -80,12 +99,20 @@ export class MultiPageDetectionService {
 
     // Sort pages within each group and determine completeness
     for (const group of groupMap.values()) {
+      const uploadOrder = group.pages.map(p => p.pageNumber);
       group.pages.sort((a, b) => a.pageNumber - b.pageNumber);
+      group.outOfOrder = uploadOrder.some((pageNumber, index) => pageNumber !== group.pages[index].pageNumber);
       group.totalPages = group.pages.length;
-      
-      // Check if page sequence is complete (no gaps)
+
       const pageNumbers = group.pages.map(p => p.pageNumber).filter(n => n > 0);
-      if (pageNumbers.length > 0) {
+      group.duplicatePages = [...new Set(pageNumbers.filter((num, index) => pageNumbers.indexOf(num) !== index))];
+
+      if (group.expectedPages) {
+        group.missingPages = Array.from({ length: group.expectedPages }, (_, i) => i + 1)
+          .filter(num => !pageNumbers.includes(num));
+        group.isComplete = group.missingPages.length === 0 && group.duplicatePages.length === 0;
+      } else if (pageNumbers.length > 0) {
+        // Check if page sequence is complete (no gaps)
         const expectedSequence = Array.from({ length: pageNumbers.length }, (_, i) => i + 1);
         group.isComplete = pageNumbers.every((num, index) => num === expectedSequence[index]);
       }
@@ -100,6 +127,74 @@ export class MultiPageDetectionService {
     };
   }
 
+  private static addIdentifiedPage(
+    groupMap: Map<string, PageGroup>,
+    file: File,
+    identity: PageIdentity
+  ): void {
+    // Pages of one printed copy share its sheet id
+    let groupKey = `code__${identity.examId}__${identity.sheetId}`;
+
+    // A blank printout may have been photocopied, so several copies can share a code. Each
+    // page goes to the first copy still missing that page number, which keeps one student's
+    // pages together whatever order they were scanned in.
+    if (!identity.studentId && !identity.studentName) {
+      const base = groupKey;
+      let copy = 0;
+      while (groupMap.get(`${base}__${copy}`)?.pages.some(page => page.pageNumber === identity.pageNumber)) {
+        copy++;
+      }
+      groupKey = `${base}__${copy}`;
+    }
+
+    let group = groupMap.get(groupKey);
+
+    if (!group) {
+      group = {
+        groupId: groupKey,
+        examId: identity.examId,
+        studentName: identity.studentName,
+        studentId: identity.studentId,
+        pages: [],
+        totalPages: 0,
+        isComplete: false,
+        identifiedBy: 'page_code',
+        expectedPages: identity.pageCount,
+        missingPages: [],
+        duplicatePages: [],
+        outOfOrder: false
+      };
+      groupMap.set(groupKey, group);
+    }
+
+    group.pages.push({
+      pageNumber: identity.pageNumber,
+      fileName: file.name,
+      file,
+      confidence: 1
+    });
+  }
+
+  /**
+   * Problems to resolve before a group is graded
+   */
+  static getGroupIssues(group: PageGroup): string[] {
+    const issues: string[] = [];
+    const total = group.expectedPages || group.totalPages;
+
+    if (group.missingPages.length > 0) {
+      issues.push(`Missing page${group.missingPages.length > 1 ? 's' : ''} ${group.missingPages.join(', ')} of ${total}`);
+    }
+    if (group.duplicatePages.length > 0) {
+      issues.push(`Page${group.duplicatePages.length > 1 ? 's' : ''} ${group.duplicatePages.join(', ')} uploaded more than once`);
+    }
+    if (group.outOfOrder) {
+      issues.push('Pages were uploaded out of order and have been re-sorted');
+    }
+
+    return issues;
+  }
+
   private static createGroupKey(examId: string | null, studentName: string | null): string | null {
     if (!examId && !studentName) return null;
     
@@ -3,6 +3,7 @@ import { QuestionCacheService, QuestionCacheResult } from "./questionCacheServic
 import { SkillMapping, QuestionSkillMappings, EnhancedLocalGradingResult } from "./enhancedLocalGradingService";
 import { QuestionBatchOptimizer, QuestionBatch } from "./questionBatchOptimizer";
 import { EnhancedBatchGradingService } from "./enhancedBatchGradingService";
+import { AIModelRouter } from "./aiModelRouter";
 
 export interface OpenAIGradingResult extends EnhancedLocalGradingResult {
   openAIUsage?: {
@@ -81,6 +82,7 @@ export class OpenAIComplexGradingService {
               skillMappings: questionSkillMappings,
               complexityScore: result.complexityScore,
               reasoningDepth: result.reasoningDepth,
+              criterionScores: result.criterionScores,
               openAIUsage: {
                 promptTokens: Math.floor(200 / questions.length),
                 completionTokens: Math.floor(300 / questions.length),
@@ -139,10 +141,13 @@ export class OpenAIComplexGradingService {
             studentAnswer: q.detectedAnswer?.selectedOption?.trim() || '',
             correctAnswer: answerKeys[index]?.correct_answer?.trim() || '',
             pointsPossible: answerKeys[index]?.points || 1,
+            rubricId: answerKeys[index]?.rubric_id || undefined,
+            routedModel: AIModelRouter.routeQuestion(q, answerKeys[index]),
             skillContext: skillMappings.filter(sm => sm.question_number === q.questionNumber)
               .map(s => s.skill_name).join(', ')
           })),
           studentName,
+          examId,
           batchPrompt
         }
       });
@@ -151,6 +156,12 @@ export class OpenAIComplexGradingService {
         throw new Error(`Batch grading API error: ${error.message}`);
       }
 
+      // The budget ran out before the router noticed; the server graded from the answer key
+      if (data.budgetExceeded) {
+        console.warn(`💰 ${data.budgetExceeded} - later questions will be graded locally`);
+        await AIModelRouter.refreshBudgetStatus(true);
+      }
+
       const batchResults = data.results || [];
       const results: OpenAIGradingResult[] = [];
 
@@ -179,6 +190,7 @@ export class OpenAIComplexGradingService {
             },
             complexityScore: result.complexityScore || 0.7,
             reasoningDepth: result.reasoningDepth || 'medium',
+            criterionScores: result.criterionScores,
             qualityFlags: {
               hasMultipleMarks: question.detectedAnswer?.multipleMarksDetected || false,
               reviewRequired: question.detectedAnswer?.reviewFlag || false,
@@ -281,6 +293,10 @@ Respond with ONLY the JSON array containing results for all ${questionCount} que
     const correctAnswer = answerKey.correct_answer?.trim() || '';
     const pointsPossible = answerKey.points || 1;
 
+    if (await AIModelRouter.refreshBudgetStatus() === 'local_only') {
+      return this.createFallbackResult(question, answerKey, skillMappings, 'AI budget exhausted');
+    }
+
     try {
       // Call OpenAI grading edge function
       const { data, error } = await supabase.functions.invoke('grade-complex-question', {
@@ -291,7 +307,10 @@ Respond with ONLY the JSON array containing results for all ${questionCount} que
           pointsPossible,
           questionNumber: question.questionNumber,
           studentName,
-          skillContext: skillMappings.map(s => s.skill_name).join(', ')
+          skillContext: skillMappings.map(s => s.skill_name).join(', '),
+          rubricId: answerKey.rubric_id || undefined,
+          routedModel: AIModelRouter.routeQuestion(question, answerKey),
+          examId: answerKey.exam_id
         }
       });
 
@@ -300,6 +319,11 @@ Respond with ONLY the JSON array containing results for all ${questionCount} que
         return this.createFallbackResult(question, answerKey, skillMappings, 'OpenAI API error');
       }
 
+      if (data.budgetExceeded) {
+        console.warn(`💰 ${data.budgetExceeded} - later questions will be graded locally`);
+        await AIModelRouter.refreshBudgetStatus(true);
+      }
+
       const isCorrect = data.isCorrect;
       const pointsEarned = Math.min(Math.max(data.pointsEarned || 0, 0), pointsPossible);
       
@@ -320,6 +344,7 @@ Respond with ONLY the JSON array containing results for all ${questionCount} que
         },
         complexityScore: data.complexityScore || 0.7,
         reasoningDepth: data.reasoningDepth || 'medium',
+        criterionScores: data.criterionScores,
         qualityFlags: {
           hasMultipleMarks: question.detectedAnswer?.multipleMarksDetected || false,
           reviewRequired: question.detectedAnswer?.reviewFlag || false,
@@ -0,0 +1,639 @@
+import { supabase } from '@/integrations/supabase/client';
+import { HandwritingDetectionService, type Mark } from './handwritingDetectionService';
+import { StructuredQuestionService } from './structuredQuestionService';
+import {
+  TestTemplateService,
+  type AnswerValidation,
+  type BoundingBox,
+  type BubblePosition,
+  type QuestionRegion,
+  type TestTemplate
+} from './testTemplateService';
+
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // 0 = black, 255 = white
+}
+
+export interface PageGeometry {
+  pageFound: boolean;
+  bounds: BoundingBox; // Page bounds in image pixels
+  pageWidth: number;
+  pageHeight: number;
+  rotationAngle: number; // Degrees, positive when the page is turned clockwise
+  inkThreshold: number; // Pixels darker than this are ink
+  alignmentOffset: { x: number; y: number }; // Template units
+  gridConfidence: number; // Share of printed bubble outlines found at the aligned positions
+}
+
+export interface OmrSheet {
+  image: GrayscaleImage;
+  template: TestTemplate;
+  geometry: PageGeometry;
+}
+
+export type BubbleQuality = 'heavy' | 'medium' | 'light' | 'empty' | 'overfilled';
+
+export interface OmrAnswer {
+  questionNumber: number;
+  selectedOption: string; // 'no_answer' when blank; rows and multi-select join letters with ", "
+  confidence: number;
+  multipleMarksDetected: boolean;
+  reviewFlag: boolean;
+  bubbleQuality: BubbleQuality;
+  fillScores: Record<string, number>[]; // One map per response row
+  strayMarksRejected: number;
+  issues: Array<'blank' | 'multiple_marks' | 'faint_mark' | 'invalid_option' | 'unanswered_row'>;
+  region: BoundingBox; // Answer area as fractions (0-1) of the scanned image, for review overlays
+}
+
+// A question in the structuredData shape produced by the extract-text function
+export interface OmrQuestion {
+  questionNumber: number;
+  questionText: string;
+  questionType: string;
+  detectedAnswer: OmrAnswer & { detectionMethod: 'local_omr' };
+  confidence: number;
+  databaseEnhanced: boolean;
+  expectedType: string;
+}
+
+interface BubbleReading {
+  bubble: BubblePosition;
+  fill: number;
+  mark: Mark | null;
+}
+
+interface RowReading {
+  letters: string[];
+  quality: BubbleQuality;
+  confidence: number;
+  multiple: boolean;
+  faint: boolean;
+  rejected: number;
+  fills: Record<string, number>;
+}
+
+const TRUE_FALSE_LABELS: Record<string, string> = { A: 'True', B: 'False' };
+
+/**
+ * Optical mark recognition for answer sheets printed from the Test Creator layout. Works on a
+ * grayscale copy of the scan: finds the paper, measures skew, aligns the template bubble grid
+ * and scores how dark each bubble is, so multiple-choice sheets never leave the browser.
+ */
+export class OpticalMarkRecognitionService {
+  // Bubble grid coordinates are pixels on a US Letter page at 100 dpi
+  private static readonly TEMPLATE_PAGE = { width: 850, height: 1100 };
+  private static readonly MAX_DIMENSION = 2000;
+  private static readonly MAX_SKEW_DEGREES = 5;
+  private static readonly SKEW_STEP_DEGREES = 0.25;
+  private static readonly ALIGNMENT_SEARCH = 12; // Template units either way
+  private static readonly GRID_MATCH_THRESHOLD = 0.6;
+  private static readonly MARKED_FILL = 0.45;
+  private static readonly FAINT_FILL = 0.2;
+
+  static async loadImage(source: Blob): Promise<GrayscaleImage> {
+    const bitmap = await createImageBitmap(source);
+    const scale = Math.min(1, this.MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, width, height);
+    const pixels = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < pixels.length; i++) {
+      pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return { width, height, pixels };
+  }
+
+  static async loadBase64Image(base64: string): Promise<GrayscaleImage> {
+    const binary = atob(base64.replace(/^data:[^,]*,/, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return this.loadImage(new Blob([bytes]));
+  }
+
+  /**
+   * Find the page, its skew and the bubble grid offset for a template
+   */
+  static locateSheet(image: GrayscaleImage, template: TestTemplate): OmrSheet {
+    const paperThreshold = this.otsuThreshold(image, { x: 0, y: 0, width: image.width, height: image.height });
+    const bounds = this.findPageBounds(image, paperThreshold);
+    const pageFound = bounds.width * bounds.height >= image.width * image.height * 0.3;
+    // Stay clear of the corners, where a turned page leaves scanner bed inside the bounds
+    const inner = {
+      x: Math.round(bounds.x + bounds.width * 0.05),
+      y: Math.round(bounds.y + bounds.height * 0.05),
+      width: Math.round(bounds.width * 0.9),
+      height: Math.round(bounds.height * 0.9)
+    };
+    const inkThreshold = this.otsuThreshold(image, inner);
+    const rotationAngle = this.estimateSkew(image, inner, inkThreshold);
+
+    const geometry: PageGeometry = {
+      pageFound,
+      bounds,
+      pageWidth: bounds.width,
+      pageHeight: bounds.height,
+      rotationAngle,
+      inkThreshold,
+      alignmentOffset: { x: 0, y: 0 },
+      gridConfidence: 0
+    };
+
+    const sheet: OmrSheet = { image, template, geometry };
+    const alignment = this.alignBubbleGrid(sheet);
+    geometry.alignmentOffset = alignment.offset;
+    geometry.gridConfidence = pageFound ? alignment.confidence : 0;
+
+    console.log(`📐 OMR page ${pageFound ? 'found' : 'not found'}: skew ${rotationAngle.toFixed(2)}°, grid ${(geometry.gridConfidence * 100).toFixed(1)}%`);
+    return sheet;
+  }
+
+  static isTemplateSheet(sheet: OmrSheet): boolean {
+    return sheet.geometry.pageFound && sheet.geometry.gridConfidence >= this.GRID_MATCH_THRESHOLD;
+  }
+
+  /**
+   * Load an uploaded image and return its sheet only when it is one of our answer sheets
+   */
+  static async tryLocateSheet(file: File, templateId = 'test_creator_standard'): Promise<OmrSheet | null> {
+    const template = TestTemplateService.getTemplate(templateId);
+    if (!template || !file.type.startsWith('image/')) return null;
+
+    try {
+      const sheet = this.locateSheet(await this.loadImage(file), template);
+      return this.isTemplateSheet(sheet) ? sheet : null;
+    } catch (error) {
+      console.warn('⚠️ OMR could not read the image:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Share of a box, in percent of the page like the template's header elements, covered by ink
+   */
+  static inkCoverage(sheet: OmrSheet, percentBox: BoundingBox): number {
+    const box = {
+      x: percentBox.x / 100 * this.TEMPLATE_PAGE.width,
+      y: percentBox.y / 100 * this.TEMPLATE_PAGE.height,
+      width: percentBox.width / 100 * this.TEMPLATE_PAGE.width,
+      height: percentBox.height / 100 * this.TEMPLATE_PAGE.height
+    };
+    let ink = 0;
+    let total = 0;
+    const step = Math.max(1, Math.min(box.width, box.height) / 40);
+    for (let y = box.y; y < box.y + box.height; y += step) {
+      for (let x = box.x; x < box.x + box.width; x += step) {
+        const point = this.toImagePoint(sheet, x, y);
+        const value = this.pixelAt(sheet.image, point.x, point.y);
+        if (value === null) continue;
+        total++;
+        if (value < sheet.geometry.inkThreshold) ink++;
+      }
+    }
+    return total > 0 ? ink / total : 0;
+  }
+
+  /**
+   * Score every bubble, drop stray marks and decide each question's answer
+   */
+  static readAnswers(sheet: OmrSheet, regions: QuestionRegion[], validation?: AnswerValidation): OmrAnswer[] {
+    const answerValidation = validation || sheet.template.validation.answerValidation;
+    const rowsByQuestion = regions.map(region => region.responseRows || [region.bubblePositions]);
+    const allBubbles = rowsByQuestion.flat(2);
+    const baseline = this.baselineFill(sheet, allBubbles);
+
+    const readings = new Map<BubblePosition, BubbleReading>();
+    allBubbles.forEach(bubble => {
+      const fill = Math.max(0, (this.fillRatio(sheet, bubble) - baseline) / (1 - baseline));
+      readings.set(bubble, { bubble, fill, mark: fill >= this.FAINT_FILL ? this.measureMark(sheet, bubble, fill) : null });
+    });
+
+    const marks = [...readings.values()].map(reading => reading.mark).filter((mark): mark is Mark => mark !== null);
+    const kept = new Set(HandwritingDetectionService.filterHandwritingMarks(
+      marks,
+      allBubbles.map(bubble => ({ x: bubble.center.x, y: bubble.center.y, radius: bubble.radius }))
+    ));
+
+    return regions.map((region, index) => {
+      const rows = rowsByQuestion[index].filter(row => row.length > 0);
+      const allowMultiple = answerValidation.allowMultipleAnswers || !!region.allowMultipleMarks;
+      const rowReadings = rows.map(row => this.readRow(sheet, row, readings, kept, allowMultiple));
+      return { ...this.toAnswer(region, rowReadings, answerValidation), region: this.toImageFraction(sheet, region.answerArea) };
+    });
+  }
+
+  /**
+   * Read a sheet against the answer keys saved for an exam, in the question shape the
+   * analyze-test function expects. Only bubble questions are returned.
+   */
+  static async readExamAnswers(sheet: OmrSheet, examId: string): Promise<OmrQuestion[]> {
+    const { data: answerKeys, error } = await supabase
+      .from('answer_keys')
+      .select('question_number, question_type, question_text, options')
+      .eq('exam_id', examId)
+      .order('question_number');
+
+    if (error) throw error;
+    if (!answerKeys || answerKeys.length === 0) return [];
+
+    const types = answerKeys.map(key => key.question_type.toLowerCase().replace(/_/g, '-'));
+    const questions = answerKeys.map((key, index) => {
+      const structured = StructuredQuestionService.fromAnswerKey(key);
+      return {
+        type: types[index],
+        question: key.question_text,
+        options: structured?.options ?? (Array.isArray(key.options) ? key.options.map(String) : undefined),
+        matchPairs: structured?.matchPairs
+      };
+    });
+    const regions = TestTemplateService.generateQuestionRegions(answerKeys.length, sheet.template, questions);
+    const answers = this.readAnswers(sheet, regions);
+
+    return answerKeys.flatMap((key, index) => {
+      const type = types[index];
+      const isBubbleQuestion = ['multiple-choice', 'true-false', 'multi-select', 'matching', 'ordering'].includes(type);
+      if (!isBubbleQuestion) return [];
+
+      const answer = answers[index];
+      const selectedOption = type === 'true-false'
+        ? TRUE_FALSE_LABELS[answer.selectedOption] || answer.selectedOption
+        : answer.selectedOption;
+      return [{
+        questionNumber: key.question_number,
+        questionText: key.question_text,
+        questionType: type.replace(/-/g, '_'),
+        detectedAnswer: { ...answer, selectedOption, questionNumber: key.question_number, detectionMethod: 'local_omr' as const },
+        confidence: answer.confidence,
+        databaseEnhanced: true,
+        expectedType: type.replace(/-/g, '_')
+      }];
+    });
+  }
+
+  private static readRow(
+    sheet: OmrSheet,
+    row: BubblePosition[],
+    readings: Map<BubblePosition, BubbleReading>,
+    kept: Set<Mark>,
+    allowMultiple: boolean
+  ): RowReading {
+    const rowReadings = row.map(bubble => readings.get(bubble) as BubbleReading);
+    const fills = Object.fromEntries(rowReadings.map(reading => [reading.bubble.option, Math.round(reading.fill * 100) / 100]));
+    const candidates = rowReadings.filter(reading => reading.mark && kept.has(reading.mark));
+    const rejected = rowReadings.filter(reading => reading.mark && !kept.has(reading.mark)).length;
+    const marked = candidates.filter(reading => reading.fill >= this.MARKED_FILL).sort((a, b) => b.fill - a.fill);
+    const faint = candidates.length > marked.length;
+
+    if (marked.length === 0) {
+      // A lone faint mark is usually an erasure or a half-filled bubble
+      return { letters: [], quality: 'empty', confidence: faint ? 0.4 : 0.95, multiple: false, faint, rejected, fills };
+    }
+
+    const strongest = marked[0];
+    const overfilled = this.outlineScore(sheet, strongest.bubble, [1.3]) > 0.5;
+    const quality: BubbleQuality = overfilled ? 'overfilled'
+      : strongest.fill >= 0.8 ? 'heavy'
+      : strongest.fill >= 0.6 ? 'medium'
+      : 'light';
+
+    if (allowMultiple || marked.length === 1) {
+      const others = rowReadings.filter(reading => !marked.includes(reading)).map(reading => reading.fill);
+      const margin = Math.min(...marked.map(reading => reading.fill)) - Math.max(0, ...others);
+      return {
+        letters: marked.map(reading => reading.bubble.option).sort(),
+        quality,
+        confidence: Math.min(0.99, 0.6 + margin * 0.5),
+        multiple: false,
+        faint,
+        rejected,
+        fills
+      };
+    }
+
+    return {
+      letters: marked.map(reading => reading.bubble.option).sort(),
+      quality,
+      confidence: 0.3,
+      multiple: true,
+      faint,
+      rejected,
+      fills
+    };
+  }
+
+  private static toAnswer(region: QuestionRegion, rows: RowReading[], validation: AnswerValidation): Omit<OmrAnswer, 'region'> {
+    const issues: OmrAnswer['issues'] = [];
+    const multiple = rows.some(row => row.multiple);
+    const faint = rows.some(row => row.faint && row.letters.length === 0);
+    const answered = rows.filter(row => row.letters.length > 0);
+    const isRowQuestion = rows.length > 1;
+
+    let selectedOption: string;
+    if (answered.length === 0) {
+      selectedOption = 'no_answer';
+      issues.push('blank');
+    } else if (isRowQuestion) {
+      // One letter per row; unreadable rows hold their place so later rows stay aligned
+      selectedOption = rows.map(row => row.letters.length === 1 ? row.letters[0] : '?').join(', ');
+      if (answered.length < rows.length) issues.push('unanswered_row');
+    } else {
+      selectedOption = rows[0].letters.join(', ');
+    }
+
+    if (multiple) issues.push('multiple_marks');
+    if (faint) issues.push('faint_mark');
+
+    const isStructured = isRowQuestion || !!region.allowMultipleMarks;
+    const invalid = !isStructured && answered.some(row => row.letters.some(letter => !validation.validOptions.includes(letter)));
+    if (invalid) issues.push('invalid_option');
+
+    const quality = answered.find(row => row.quality === 'overfilled')?.quality || answered[0]?.quality || 'empty';
+    const blankNeedsReview = answered.length === 0 && validation.requireAllAnswers;
+
+    return {
+      questionNumber: region.questionNumber,
+      selectedOption,
+      confidence: Math.min(...rows.map(row => row.confidence)),
+      multipleMarksDetected: multiple,
+      reviewFlag: multiple || faint || invalid || blankNeedsReview || issues.includes('unanswered_row') || quality === 'overfilled',
+      bubbleQuality: quality,
+      fillScores: rows.map(row => row.fills),
+      strayMarksRejected: rows.reduce((sum, row) => sum + row.rejected, 0),
+      issues
+    };
+  }
+
+  /**
+   * Most bubbles on a sheet are empty, so the median fill is the printed outline and letter
+   */
+  private static baselineFill(sheet: OmrSheet, bubbles: BubblePosition[]): number {
+    if (bubbles.length === 0) return 0;
+    const fills = bubbles.map(bubble => this.fillRatio(sheet, bubble)).sort((a, b) => a - b);
+    return Math.min(0.5, fills[Math.floor(fills.length / 2)]);
+  }
+
+  private static fillRatio(sheet: OmrSheet, bubble: BubblePosition): number {
+    const center = this.toImagePoint(sheet, bubble.center.x, bubble.center.y);
+    const radius = bubble.radius * 0.65 * this.scale(sheet);
+    let ink = 0;
+    let total = 0;
+    for (let y = Math.floor(center.y - radius); y <= Math.ceil(center.y + radius); y++) {
+      for (let x = Math.floor(center.x - radius); x <= Math.ceil(center.x + radius); x++) {
+        if ((x - center.x) ** 2 + (y - center.y) ** 2 > radius * radius) continue;
+        const value = this.pixelAt(sheet.image, x, y);
+        if (value === null) continue;
+        total++;
+        if (value < sheet.geometry.inkThreshold) ink++;
+      }
+    }
+    return total > 0 ? ink / total : 0;
+  }
+
+  /**
+   * Describe the ink around a bubble in template units for the handwriting filter
+   */
+  private static measureMark(sheet: OmrSheet, bubble: BubblePosition, fill: number): Mark {
+    const scale = this.scale(sheet);
+    const center = this.toImagePoint(sheet, bubble.center.x, bubble.center.y);
+    const reach = bubble.radius * 1.25 * scale;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    let area = 0;
+
+    for (let y = Math.floor(center.y - reach); y <= Math.ceil(center.y + reach); y++) {
+      for (let x = Math.floor(center.x - reach); x <= Math.ceil(center.x + reach); x++) {
+        const value = this.pixelAt(sheet.image, x, y);
+        if (value === null || value >= sheet.geometry.inkThreshold) continue;
+        area++;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+
+    if (area === 0) {
+      return { x: bubble.center.x, y: bubble.center.y, width: 0, height: 0, intensity: 0, area: 0 };
+    }
+
+    return {
+      x: bubble.center.x + (minX - center.x) / scale,
+      y: bubble.center.y + (minY - center.y) / scale,
+      width: (maxX - minX + 1) / scale,
+      height: (maxY - minY + 1) / scale,
+      intensity: Math.round(fill * 255),
+      area: area / (scale * scale)
+    };
+  }
+
+  /**
+   * Slide the grid a few units each way and keep the offset that lands on the most bubble outlines
+   */
+  private static alignBubbleGrid(sheet: OmrSheet): { offset: { x: number; y: number }; confidence: number } {
+    const { bubbleGrid } = sheet.template.layout;
+    const probes: BubblePosition[] = [];
+    for (let row = 0; row < bubbleGrid.rows; row++) {
+      for (let column = 0; column < bubbleGrid.columns; column++) {
+        probes.push({
+          option: StructuredQuestionService.optionLabel(column),
+          center: {
+            x: bubbleGrid.startPosition.x + column * bubbleGrid.horizontalSpacing,
+            y: bubbleGrid.startPosition.y + row * bubbleGrid.verticalSpacing
+          },
+          radius: bubbleGrid.bubbleRadius
+        });
+      }
+    }
+
+    let best = { offset: { x: 0, y: 0 }, confidence: 0 };
+    for (let dy = -this.ALIGNMENT_SEARCH; dy <= this.ALIGNMENT_SEARCH; dy += 2) {
+      for (let dx = -this.ALIGNMENT_SEARCH; dx <= this.ALIGNMENT_SEARCH; dx += 2) {
+        sheet.geometry.alignmentOffset = { x: dx, y: dy };
+        // Rows past the last question are never printed, so score the best-matching first rows' worth
+        const scores = probes.map(probe => this.outlineScore(sheet, probe)).sort((a, b) => b - a);
+        const top = scores.slice(0, bubbleGrid.columns * 2);
+        const confidence = top.reduce((sum, score) => sum + score, 0) / top.length;
+        if (confidence > best.confidence) {
+          best = { offset: { x: dx, y: dy }, confidence };
+        }
+      }
+    }
+    return best;
+  }
+
+  // Share of directions around a bubble with ink at any of the radii, by default its printed outline
+  private static outlineScore(sheet: OmrSheet, bubble: BubblePosition, radii = [0.85, 1, 1.15]): number {
+    const samples = 16;
+    let hits = 0;
+    for (let i = 0; i < samples; i++) {
+      const angle = (i / samples) * 2 * Math.PI;
+      const found = radii.some(factor => {
+        const point = this.toImagePoint(
+          sheet,
+          bubble.center.x + Math.cos(angle) * bubble.radius * factor,
+          bubble.center.y + Math.sin(angle) * bubble.radius * factor
+        );
+        const value = this.pixelAt(sheet.image, point.x, point.y);
+        return value !== null && value < sheet.geometry.inkThreshold;
+      });
+      if (found) hits++;
+    }
+    return hits / samples;
+  }
+
+  /**
+   * Rows and columns that are mostly paper-bright bound the page on a darker scanner bed.
+   * A turned page reaches half coverage near the middle of each slanted edge, so the bounds
+   * approximate the page's own size rather than its rotated extent.
+   */
+  private static findPageBounds(image: GrayscaleImage, threshold: number): BoundingBox {
+    const { width, height, pixels } = image;
+    const brightRows: boolean[] = [];
+    for (let y = 0; y < height; y++) {
+      let bright = 0;
+      for (let x = 0; x < width; x++) {
+        if (pixels[y * width + x] >= threshold) bright++;
+      }
+      brightRows.push(bright / width > 0.5);
+    }
+    const top = Math.max(0, brightRows.indexOf(true));
+    const bottom = Math.max(top, brightRows.lastIndexOf(true));
+
+    const brightColumns: boolean[] = [];
+    for (let x = 0; x < width; x++) {
+      let bright = 0;
+      for (let y = top; y <= bottom; y++) {
+        if (pixels[y * width + x] >= threshold) bright++;
+      }
+      brightColumns.push(bright / (bottom - top + 1) > 0.5);
+    }
+    const left = Math.max(0, brightColumns.indexOf(true));
+    const right = Math.max(left, brightColumns.lastIndexOf(true));
+
+    return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  }
+
+  private static otsuThreshold(image: GrayscaleImage, box: BoundingBox): number {
+    const histogram = new Array<number>(256).fill(0);
+    let total = 0;
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        histogram[image.pixels[y * image.width + x]]++;
+        total++;
+      }
+    }
+    if (total === 0) return 128;
+
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundWeight = 0;
+    let bestVariance = -1;
+    let threshold = 128;
+    for (let value = 0; value < 256; value++) {
+      backgroundWeight += histogram[value];
+      if (backgroundWeight === 0) continue;
+      const foregroundWeight = total - backgroundWeight;
+      if (foregroundWeight === 0) break;
+      backgroundSum += value * histogram[value];
+      const backgroundMean = backgroundSum / backgroundWeight;
+      const foregroundMean = (sum - backgroundSum) / foregroundWeight;
+      const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+      if (variance > bestVariance) {
+        bestVariance = variance;
+        threshold = value + 1;
+      }
+    }
+    return threshold;
+  }
+
+  /**
+   * Printed lines project sharpest onto the vertical axis at the page's true angle
+   */
+  private static estimateSkew(image: GrayscaleImage, bounds: BoundingBox, inkThreshold: number): number {
+    const points: Array<[number, number]> = [];
+    for (let y = bounds.y; y < bounds.y + bounds.height; y += 2) {
+      for (let x = bounds.x; x < bounds.x + bounds.width; x += 2) {
+        if (image.pixels[y * image.width + x] < inkThreshold) points.push([x, y]);
+      }
+    }
+    if (points.length === 0) return 0;
+
+    const binSize = 2;
+    const bins = Math.ceil((bounds.width + bounds.height) / binSize) + 1;
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = -this.MAX_SKEW_DEGREES; angle <= this.MAX_SKEW_DEGREES; angle += this.SKEW_STEP_DEGREES) {
+      const radians = angle * Math.PI / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const histogram = new Float64Array(bins);
+      for (const [x, y] of points) {
+        const projected = (y - bounds.y) * cos - (x - bounds.x) * sin + bounds.width;
+        histogram[Math.floor(projected / binSize)]++;
+      }
+      const score = histogram.reduce((acc, count) => acc + count * count, 0);
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  }
+
+  private static scale(sheet: OmrSheet): number {
+    return sheet.geometry.pageWidth / this.TEMPLATE_PAGE.width;
+  }
+
+  private static toImagePoint(sheet: OmrSheet, templateX: number, templateY: number): { x: number; y: number } {
+    const { bounds, pageWidth, pageHeight, rotationAngle, alignmentOffset } = sheet.geometry;
+    const u = (templateX + alignmentOffset.x) / this.TEMPLATE_PAGE.width - 0.5;
+    const v = (templateY + alignmentOffset.y) / this.TEMPLATE_PAGE.height - 0.5;
+    const px = u * pageWidth;
+    const py = v * pageHeight;
+    const radians = rotationAngle * Math.PI / 180;
+    return {
+      x: bounds.x + bounds.width / 2 + px * Math.cos(radians) - py * Math.sin(radians),
+      y: bounds.y + bounds.height / 2 + px * Math.sin(radians) + py * Math.cos(radians)
+    };
+  }
+
+  /**
+   * Axis-aligned box around a template area once mapped onto the image, as fractions of the image
+   */
+  private static toImageFraction(sheet: OmrSheet, area: BoundingBox): BoundingBox {
+    const corners = [
+      this.toImagePoint(sheet, area.x, area.y),
+      this.toImagePoint(sheet, area.x + area.width, area.y),
+      this.toImagePoint(sheet, area.x, area.y + area.height),
+      this.toImagePoint(sheet, area.x + area.width, area.y + area.height)
+    ];
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const left = clamp(Math.min(...corners.map(point => point.x)) / sheet.image.width);
+    const top = clamp(Math.min(...corners.map(point => point.y)) / sheet.image.height);
+    const right = clamp(Math.max(...corners.map(point => point.x)) / sheet.image.width);
+    const bottom = clamp(Math.max(...corners.map(point => point.y)) / sheet.image.height);
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  private static pixelAt(image: GrayscaleImage, x: number, y: number): number | null {
+    const column = Math.round(x);
+    const row = Math.round(y);
+    if (column < 0 || row < 0 || column >= image.width || row >= image.height) return null;
+    return image.pixels[row * image.width + column];
+  }
+}
@@ -3,6 +3,7 @@ import {
   QuestionClassification,
   SimpleAnswerValidation
 } from './enhancedQuestionClassifier';
+import { StructuredQuestionService } from './structuredQuestionService';
 
 // Performance-optimized layer for Enhanced Question Classifier
 // Integrates fast-path detection with comprehensive analysis
@@ -108,6 +109,9 @@ export class OptimizedQuestionClassifier {
     const studentAnswer = question.detectedAnswer?.selectedOption || '';
     const ocrConfidence = question.detectedAnswer?.confidence || 0;
 
+    // Multi-select, matching, ordering and blanks need the full structure; a key of "A" is not an MCQ
+    if (StructuredQuestionService.isStructuredType(questionType)) return null;
+
     // ENHANCED: Validate A-D format only
     if (correctAnswer && !/^[A-D]$/i.test(correctAnswer)) {
       console.warn(`⚠️ Invalid answer format detected: ${correctAnswer}. Expected A-D only.`);
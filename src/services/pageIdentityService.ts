@@ -0,0 +1,134 @@
+import { create as createQRCode } from 'qrcode';
+import jsQR from 'jsqr';
+
+export interface PageIdentity {
+  examId: string;
+  sheetId: string; // One per printed copy, so its pages group together
+  studentId: string | null;
+  studentName: string | null;
+  pageNumber: number;
+  pageCount: number;
+}
+
+// Bumped if the field layout ever changes
+const PAYLOAD_PREFIX = 'SJI2';
+
+/**
+ * Encodes who a printed page belongs to in a QR code, and reads it back from scans so
+ * pages can be attributed and grouped without OCR guesses.
+ */
+export class PageIdentityService {
+  private static readonly MAX_SCAN_DIMENSION = 1600;
+  private static readonly QUIET_ZONE_MODULES = 2;
+
+  /**
+   * A short random id for one printed copy of a test
+   */
+  static createSheetId(): string {
+    return crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+  }
+
+  static encode(identity: PageIdentity): string {
+    return [
+      PAYLOAD_PREFIX,
+      identity.examId,
+      identity.sheetId,
+      identity.studentId || '',
+      identity.studentName || '',
+      identity.pageNumber,
+      identity.pageCount
+    ].map(field => encodeURIComponent(String(field))).join('|');
+  }
+
+  static decode(text: string | null | undefined): PageIdentity | null {
+    const fields = (text || '').split('|').map(field => {
+      try {
+        return decodeURIComponent(field);
+      } catch {
+        return field;
+      }
+    });
+    if (fields.length !== 7 || fields[0] !== PAYLOAD_PREFIX || !fields[1] || !fields[2]) return null;
+
+    const pageNumber = parseInt(fields[5], 10);
+    const pageCount = parseInt(fields[6], 10);
+    if (!(pageNumber >= 1) || !(pageCount >= pageNumber)) return null;
+
+    return {
+      examId: fields[1],
+      sheetId: fields[2],
+      studentId: fields[3] || null,
+      studentName: fields[4] || null,
+      pageNumber,
+      pageCount
+    };
+  }
+
+  /**
+   * Inline SVG of the page's QR code, so print HTML stays synchronous and self-contained
+   */
+  static renderQrSvg(identity: PageIdentity, size = '0.8in'): string {
+    const { modules } = createQRCode(this.encode(identity), { errorCorrectionLevel: 'M' });
+    const quiet = this.QUIET_ZONE_MODULES;
+    const viewBox = modules.size + quiet * 2;
+
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+      for (let column = 0; column < modules.size; column++) {
+        if (modules.data[row * modules.size + column]) {
+          path += `M${column + quiet} ${row + quiet}h1v1h-1z`;
+        }
+      }
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${viewBox} ${viewBox}" width="${size}" height="${size}" shape-rendering="crispEdges">`
+      + `<rect width="${viewBox}" height="${viewBox}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+  }
+
+  /**
+   * Decode the page QR code from an uploaded scan. Returns null for PDFs, unreadable images
+   * and pages printed without a code.
+   */
+  static async readFromFile(file: File): Promise<PageIdentity | null> {
+    if (!file.type.startsWith('image/')) return null;
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      const scale = Math.min(1, this.MAX_SCAN_DIMENSION / Math.max(bitmap.width, bitmap.height));
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        bitmap.close();
+        return null;
+      }
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      let code = jsQR(context.getImageData(0, 0, width, height).data, width, height, { inversionAttempts: 'dontInvert' });
+
+      // Small codes on large phone photos need more pixels: retry on the top-right quarter at full size
+      if (!code && scale < 1) {
+        const cropWidth = Math.round(bitmap.width / 2);
+        const cropHeight = Math.round(bitmap.height / 2);
+        canvas.width = cropWidth;
+        canvas.height = cropHeight;
+        context.drawImage(bitmap, bitmap.width - cropWidth, 0, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+        code = jsQR(context.getImageData(0, 0, cropWidth, cropHeight).data, cropWidth, cropHeight, { inversionAttempts: 'dontInvert' });
+      }
+      bitmap.close();
+
+      const identity = this.decode(code?.data);
+      if (identity) {
+        console.log(`🔳 Page code: exam ${identity.examId}, page ${identity.pageNumber}/${identity.pageCount}`);
+      }
+      return identity;
+    } catch (error) {
+      console.warn('⚠️ Could not scan page code:', error);
+      return null;
+    }
+  }
+}
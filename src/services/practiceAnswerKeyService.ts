@@ -1,12 +1,16 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import type { MatchPair } from './structuredQuestionService';
 
 export interface PracticeAnswerKeyQuestion {
   id: string;
-  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay';
+  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay'
+    | 'multi-select' | 'matching' | 'ordering' | 'fill-in-blank';
   question: string;
   options?: string[];
   correctAnswer: string;
+  correctAnswers?: string[];
+  matchPairs?: MatchPair[];
   explanation: string;
   acceptableAnswers?: string[];
   keywords?: string[];
@@ -2,15 +2,21 @@ import { SmartAnswerGradingService, type GradingResult, type AnswerPattern } fro
 import { MistakePatternService } from './mistakePatternService';
 import { QuestionTimingService } from './questionTimingService';
 import { ConceptMissedService, type ConceptMissedAnalysis } from './conceptMissedService';
+import type { MathAnswerSpec } from './mathAnswerGradingService';
+import { StructuredQuestionService, type MatchPair } from './structuredQuestionService';
 
 export interface PracticeExerciseAnswer {
   questionId: string;
   studentAnswer: string;
-  questionType: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay';
+  questionType: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay' | 'numeric' | 'expression'
+    | 'multi-select' | 'matching' | 'ordering' | 'fill-in-blank';
   correctAnswer: string;
   acceptableAnswers?: string[];
   keywords?: string[];
   options?: string[];
+  answerSpec?: MathAnswerSpec;
+  correctAnswers?: string[];
+  matchPairs?: MatchPair[];
   points: number;
 }
 
@@ -20,7 +26,7 @@ export interface ExerciseGradingResult {
   pointsEarned: number;
   pointsPossible: number;
   feedback: string;
-  gradingMethod: 'exact_match' | 'flexible_match' | 'ai_graded';
+  gradingMethod: GradingResult['method'];
   confidence: number;
 }
 
@@ -43,7 +49,8 @@ export class PracticeExerciseGradingService {
     exerciseTitle?: string,
     studentExerciseId?: string,
     skillName?: string,
-    exerciseMetadata?: any
+    exerciseMetadata?: any,
+    studentId?: string
   ): Promise<ExerciseSubmissionResult> {
     console.log('🎯 Grading practice exercise submission with', answers.length, 'answers');
     
@@ -109,7 +116,8 @@ export class PracticeExerciseGradingService {
           grade: exerciseMetadata?.grade,
           // Add concept missed data
           conceptMissedId: conceptMissedAnalysis?.conceptMissedId,
-          conceptMissedDescription: conceptMissedAnalysis?.conceptMissedDescription
+          conceptMissedDescription: conceptMissedAnalysis?.conceptMissedDescription,
+          studentId
         });
       }
     }
@@ -141,6 +149,9 @@ export class PracticeExerciseGradingService {
       acceptableAnswers,
       keywords,
       options,
+      answerSpec,
+      correctAnswers,
+      matchPairs,
       points
     } = answer;
     
@@ -149,6 +160,21 @@ export class PracticeExerciseGradingService {
     if (questionType === 'multiple-choice' || questionType === 'true-false') {
       // Simple exact match for multiple choice and true/false
       gradingResult = this.gradeExactMatch(studentAnswer, correctAnswer);
+    } else if (questionType === 'numeric' || questionType === 'expression') {
+      // Graded locally by value or algebraic equivalence
+      gradingResult = await SmartAnswerGradingService.gradeShortAnswer(
+        studentAnswer,
+        { text: correctAnswer, mathSpec: answerSpec || { kind: questionType } },
+        `Question ${questionId}`,
+        questionId
+      );
+    } else if (StructuredQuestionService.isStructuredType(questionType)) {
+      // Graded part by part, with partial credit
+      const result = StructuredQuestionService.grade(
+        { type: questionType, options, correctAnswers, matchPairs },
+        studentAnswer
+      );
+      gradingResult = { ...result, method: 'structured_match' };
     } else if (questionType === 'short-answer') {
       // Use smart grading for short answers
       const answerPattern: AnswerPattern = {
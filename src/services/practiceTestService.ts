@@ -1,5 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { PracticeAnswerKeyService } from './practiceAnswerKeyService';
+import { StructuredQuestionService, type MatchPair } from './structuredQuestionService';
+import { QuestionBankService } from './questionBankService';
 
 export interface GeneratePracticeTestRequest {
   studentName: string;
@@ -22,10 +24,13 @@ export type PracticeTestGenerationRequest = GeneratePracticeTestRequest;
 
 export interface PracticeTestQuestion {
   id: string;
-  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay';
+  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay'
+    | 'multi-select' | 'matching' | 'ordering' | 'fill-in-blank';
   question: string;
-  options?: string[];
+  options?: string[]; // Ordering questions list their items in the correct order
   correctAnswer: string;
+  correctAnswers?: string[]; // Multi-select correct options, or one answer per blank
+  matchPairs?: MatchPair[];
   acceptableAnswers?: string[];
   keywords?: string[];
   points: number;
@@ -235,6 +240,23 @@ export async function getHistoricalQuestionsForSkill(classId: string, skillName:
   console.log('📚 Fetching historical questions for class:', classId, 'skill:', skillName);
   
   try {
+    // Skill-tagged bank items are the best examples; past exams are only a fallback
+    const bankItems = await QuestionBankService.getItemsForSkill(skillName).catch(error => {
+      console.warn('⚠️ Could not search the question bank, falling back to past exams:', error);
+      return [];
+    });
+
+    if (bankItems.length > 0) {
+      console.log(`✅ Found ${bankItems.length} question bank items for skill:`, skillName);
+      return bankItems.map(item => ({
+        question_text: item.questionText,
+        question_type: item.questionType,
+        options: item.options,
+        points: item.points,
+        exam_title: 'Question bank'
+      }));
+    }
+
     // Get exams for this class
     const { data: exams, error: examError } = await supabase
       .from('exams')
@@ -368,6 +390,13 @@ export async function generatePracticeTest(request: GeneratePracticeTestRequest)
       throw new Error('Invalid response: missing or empty questions array');
     }
 
+    // Structured answers are written as letters of the printed (shuffled) order, which only we know
+    data.questions = data.questions.map((q: PracticeTestQuestion) =>
+      StructuredQuestionService.isStructuredType(q.type)
+        ? { ...q, correctAnswer: StructuredQuestionService.formatCorrectAnswer({ ...q, type: q.type }) }
+        : q
+    );
+
     // Validate each question has required fields
     const invalidQuestions = data.questions.filter((q: any, index: number) => {
       const missing = [];
@@ -399,6 +428,8 @@ export async function generatePracticeTest(request: GeneratePracticeTestRequest)
           question: q.question,
           options: q.options,
           correctAnswer: q.correctAnswer,
+          correctAnswers: q.correctAnswers,
+          matchPairs: q.matchPairs,
           explanation: q.explanation || generateDefaultExplanation(q),
           acceptableAnswers: q.acceptableAnswers,
           keywords: q.keywords,
@@ -454,6 +485,16 @@ function generateDefaultExplanation(question: any): string {
     case 'short-answer':
       return `This question requires you to explain ${skill} in your own words. A good answer should include key terms and show clear understanding of the concept.`;
     
+    case 'multi-select':
+      return `More than one answer can be correct here. Each choice is a separate check of your understanding of ${skill}.`;
+    
+    case 'matching':
+    case 'ordering':
+      return `This question checks how the parts of ${skill} relate to each other. Each correct match or position earns credit.`;
+    
+    case 'fill-in-blank':
+      return `Each blank tests a key term or value from ${skill}. Review the surrounding sentence to see how the pieces fit together.`;
+    
     default:
       return `This question helps assess your knowledge of ${skill}. Review the key concepts and practice similar problems to improve.`;
   }
@@ -1,4 +1,7 @@
 import { Question, TestData } from '@/utils/pdfGenerator';
+import { StructuredQuestionService } from './structuredQuestionService';
+import { PageIdentityService } from './pageIdentityService';
+import { TestTemplateService } from './testTemplateService';
 
 export interface StudentTestData extends TestData {
   studentName: string;
@@ -8,6 +11,11 @@ export interface StudentTestData extends TestData {
 export const generateTestHTML = (testData: TestData | StudentTestData): string => {
   const isStudentSpecific = 'studentName' in testData;
   const totalPoints = testData.questions.reduce((sum, q) => sum + q.points, 0);
+  const pages = paginateQuestions(testData.questions);
+  const pageStarts = pages.map((_, pageIndex) => pages.slice(0, pageIndex).reduce((sum, page) => sum + page.length, 0));
+  const answerSheet = generateAnswerSheetHTML(testData);
+  const pageCount = pages.length + (answerSheet ? 1 : 0);
+  const sheetId = PageIdentityService.createSheetId();
   
   // Enhanced student identification display
   const getStudentDisplay = () => {
@@ -30,6 +38,25 @@ export const generateTestHTML = (testData: TestData | StudentTestData): string =
     }
   };
 
+  // Registration marks and the page code printed on every sheet
+  const getPageMarks = (pageNumber: number) => `
+          <div class="registration-mark" style="top: 34pt; left: 0;"></div>
+          <div class="registration-mark" style="top: 34pt; right: 0;"></div>
+          <div class="registration-mark" style="bottom: 18pt; left: 0;"></div>
+          <div class="registration-mark" style="bottom: 18pt; right: 0;"></div>
+          <div class="page-code">
+            ${PageIdentityService.renderQrSvg({
+              examId: testData.examId,
+              sheetId,
+              studentId: isStudentSpecific ? testData.studentId || null : null,
+              studentName: isStudentSpecific ? testData.studentName : null,
+              pageNumber,
+              pageCount
+            })}
+            <div>Page ${pageNumber} of ${pageCount}</div>
+          </div>
+  `;
+
   return `
     <!DOCTYPE html>
     <html>
@@ -37,6 +64,53 @@ export const generateTestHTML = (testData: TestData | StudentTestData): string =
       <meta charset="utf-8">
       <title>${testData.title} - ${testData.examId}</title>
       <style>
+        /* One letter page inside the 0.5in @page margin; see fitSheetPages */
+        .sheet-page {
+          position: relative;
+          width: 7.5in;
+          height: 10in;
+          overflow: hidden;
+          box-sizing: border-box;
+        }
+        
+        .page-content {
+          transform-origin: top left;
+        }
+        
+        .registration-mark {
+          position: absolute;
+          width: 14pt;
+          height: 14pt;
+          background: #000;
+        }
+        
+        .page-code {
+          position: absolute;
+          right: 0;
+          bottom: 40pt;
+          text-align: center;
+          font-size: 7pt;
+          color: #000;
+        }
+        
+        .answer-bubble {
+          position: absolute;
+          box-sizing: border-box;
+          border: 1px solid #000;
+          border-radius: 50%;
+          font-size: 6pt;
+          color: #9ca3af;
+          text-align: center;
+        }
+        
+        .answer-row-label {
+          position: absolute;
+          width: 0.4in;
+          text-align: right;
+          font-size: 8pt;
+          font-weight: bold;
+        }
+        
         @media print {
           @page {
             margin: 0.5in;
@@ -49,6 +123,7 @@ export const generateTestHTML = (testData: TestData | StudentTestData): string =
             line-height: 1.2;
             color: #000;
             background: white;
+            margin: 0;
           }
           
           .no-print {
@@ -266,7 +341,11 @@ export const generateTestHTML = (testData: TestData | StudentTestData): string =
           <div class="header-right">Exam: ${testData.examId}</div>
         </div>
         
-        <div class="page-content">
+        ${pages.map((pageQuestions, pageIndex) => `
+        <div class="sheet-page${pageIndex > 0 ? ' page-break' : ''}">
+          ${getPageMarks(pageIndex + 1)}
+          <div class="page-content">
+          ${pageIndex === 0 ? `
           <div class="header-section">
             <div class="header-left">
               ${getStudentDisplay()}
@@ -289,8 +368,24 @@ export const generateTestHTML = (testData: TestData | StudentTestData): string =
             </div>
           ` : ''}
           
-          ${testData.questions.map((question, index) => generateQuestionHTML(question, index)).join('')}
+          ${answerSheet ? `
+          <div style="font-size: 9pt; font-weight: bold; margin-bottom: 8pt;">
+            Mark your choices on the answer sheet (page ${pageCount}).
+          </div>
+          ` : ''}
+          ` : ''}
+          
+          ${pageQuestions.map((question, index) => generateQuestionHTML(question, pageStarts[pageIndex] + index, !!answerSheet)).join('')}
+          </div>
+        </div>
+        `).join('')}
+        
+        ${answerSheet ? `
+        <div class="sheet-page page-break">
+          ${getPageMarks(pageCount)}
+          ${answerSheet}
         </div>
+        ` : ''}
         
         <div class="page-footer">
           ${isStudentSpecific && testData.studentId ? `${testData.studentName} (ID: ${testData.studentId}) | ` : 
@@ -302,18 +397,132 @@ export const generateTestHTML = (testData: TestData | StudentTestData): string =
   `;
 };
 
-const generateQuestionHTML = (question: Question, index: number): string => {
+// Usable height of a letter page in points, less the repeated header, footer and page code
+const PAGE_BUDGET = 560;
+const FIRST_PAGE_BUDGET = 460;
+
+// Rough printed height of a question, used to decide where pages break. A page that still
+// runs long is shrunk to fit its sheet when printed (fitSheetPages).
+const estimateQuestionHeight = (question: Question): number => {
+  const textLines = Math.max(1, Math.ceil((question.question || '').length / 90));
+  const base = 40 + textLines * 14;
+  const rows = (items?: unknown[]) => (items?.length || 0) * 18;
+
+  switch (question.type) {
+    case 'multiple-choice': return base + rows(question.options);
+    case 'true-false': return base + 36;
+    case 'multi-select': return base + 14 + rows(question.options);
+    case 'matching': return base + 14 + rows(question.matchPairs);
+    case 'ordering': return base + 32 + rows(question.options);
+    case 'essay': return base + 70;
+    case 'fill-in-blank': return base;
+    default: return base + 30;
+  }
+};
+
+/**
+ * Split questions into printed pages so each page can carry its own number and page code
+ */
+const paginateQuestions = (questions: Question[]): Question[][] => {
+  const pages: Question[][] = [[]];
+  let remaining = FIRST_PAGE_BUDGET;
+
+  questions.forEach(question => {
+    const height = estimateQuestionHeight(question);
+    const currentPage = pages[pages.length - 1];
+    if (height > remaining && currentPage.length > 0) {
+      pages.push([question]);
+      remaining = PAGE_BUDGET - height;
+    } else {
+      currentPage.push(question);
+      remaining -= height;
+    }
+  });
+
+  return pages;
+};
+
+// Question types answered by filling bubbles on the answer sheet
+const ANSWER_SHEET_TYPES: Question['type'][] = ['multiple-choice', 'true-false', 'multi-select', 'matching', 'ordering'];
+
+// Answer sheet coordinates are 1/100 in from the paper's edge; sheet pages start at the 0.5in @page margin
+const PAGE_MARGIN_UNITS = 50;
+const toInches = (units: number) => `${(units / 100).toFixed(2)}in`;
+
+/**
+ * Bubble answer sheet laid out from the Test Creator template with the same question regions
+ * the in-browser OMR reads, so every printed bubble sits where the scanner looks for it.
+ * Returns an empty string when the test has no bubble questions or needs more rows than one
+ * sheet holds.
+ */
+const generateAnswerSheetHTML = (testData: TestData): string => {
+  const template = TestTemplateService.getTemplate('test_creator_standard');
+  if (!template || !testData.questions.some(question => ANSWER_SHEET_TYPES.includes(question.type))) {
+    return '';
+  }
+
+  const regions = TestTemplateService.generateQuestionRegions(testData.questions.length, template, testData.questions);
+  const { bubbleGrid } = template.layout;
+  const rowCount = regions.reduce((sum, region) => sum + (region.writeInAreas?.length || region.responseRows?.length || 1), 0);
+  if (rowCount > bubbleGrid.rows) {
+    console.warn(`⚠️ ${rowCount} answer rows don't fit on one answer sheet; printing without it`);
+    return '';
+  }
+
+  const labelLeft = toInches(bubbleGrid.startPosition.x - bubbleGrid.bubbleRadius - PAGE_MARGIN_UNITS - 45);
+  const rowLabel = (label: string, y: number) =>
+    `<div class="answer-row-label" style="left: ${labelLeft}; top: ${toInches(y - PAGE_MARGIN_UNITS - 7)};">${label}</div>`;
+
+  const rows = regions.map((region, index) => {
+    const question = testData.questions[index];
+    const questionNumber = index + 1;
+
+    if (!ANSWER_SHEET_TYPES.includes(question.type)) {
+      const y = region.answerArea.y + 10;
+      return `${rowLabel(`${questionNumber}.`, y)}
+        <div style="position: absolute; left: ${toInches(bubbleGrid.startPosition.x - PAGE_MARGIN_UNITS - bubbleGrid.bubbleRadius)}; top: ${toInches(y - PAGE_MARGIN_UNITS - 6)}; font-size: 7pt; color: #6b7280;">Answer on the question page</div>`;
+    }
+
+    const responseRows = region.responseRows || [region.bubblePositions];
+    // Only options the question has are printed; the other grid positions read as blank
+    const optionCount = question.type === 'true-false' ? 2
+      : question.type === 'multiple-choice' ? question.options?.length || bubbleGrid.columns
+      : responseRows[0].length;
+
+    return responseRows.map((row, rowIndex) => `
+        ${rowLabel(responseRows.length > 1 ? `${questionNumber}.${rowIndex + 1}` : `${questionNumber}.`, row[0].center.y)}
+        ${row.slice(0, optionCount).map(bubble => `
+          <div class="answer-bubble" style="left: ${toInches(bubble.center.x - bubble.radius - PAGE_MARGIN_UNITS)}; top: ${toInches(bubble.center.y - bubble.radius - PAGE_MARGIN_UNITS)}; width: ${toInches(bubble.radius * 2)}; height: ${toInches(bubble.radius * 2)}; line-height: ${toInches(bubble.radius * 2)};">${bubble.option}</div>
+        `).join('')}
+      `).join('');
+  }).join('');
+
+  return `
+          <div style="position: absolute; left: 0; right: 0; top: ${toInches(bubbleGrid.startPosition.y - PAGE_MARGIN_UNITS - 55)}; text-align: center;">
+            <div style="font-size: 12pt; font-weight: bold;">Answer Sheet - ${testData.title}</div>
+            <div style="font-size: 8pt;">Fill each bubble completely with a dark pencil. Matching and ordering rows are numbered question.item.</div>
+          </div>
+          ${rows}
+  `;
+};
+
+const generateQuestionHTML = (question: Question, index: number, onAnswerSheet = false): string => {
   const questionNumber = index + 1;
-  const typeText = question.type.replace('-', ' ').toUpperCase();
+  const typeText = question.type.replace(/-/g, ' ').toUpperCase();
+  const writeIn = (label: string) =>
+    `<span style="display: inline-block; min-width: 60pt; border-bottom: 1px solid #000; margin: 0 3pt; font-size: 7pt; color: #6b7280; vertical-align: bottom;">${label}</span>`;
   
   let answerSection = '';
+  let questionText = question.question;
+  // Bubble questions are marked on the answer sheet, so their pages only list the options
+  const bubble = onAnswerSheet ? '' : '<span class="option-circle"></span>';
   
   if (question.type === 'multiple-choice' && question.options) {
     const optionsHTML = question.options.map((option, optionIndex) => {
       const optionLetter = String.fromCharCode(65 + optionIndex);
       return `
         <div style="margin: 3pt 0; display: flex; align-items: center;">
-          <span class="option-circle"></span>
+          ${bubble}
           <span class="option-letter">${optionLetter}.</span>
           <span style="font-size: 9pt;">${option}</span>
         </div>
@@ -324,21 +533,70 @@ const generateQuestionHTML = (question: Question, index: number): string => {
   } else if (question.type === 'true-false') {
     answerSection = `
       <div style="margin: 3pt 0; display: flex; align-items: center;">
-        <span class="option-circle"></span>
+        ${bubble}
         <span class="option-letter">A.</span>
         <span style="font-size: 9pt;">True</span>
       </div>
       <div style="margin: 3pt 0; display: flex; align-items: center;">
-        <span class="option-circle"></span>
+        ${bubble}
         <span class="option-letter">B.</span>
         <span style="font-size: 9pt;">False</span>
       </div>
     `;
-  } else if (question.type === 'short-answer') {
+  } else if (question.type === 'short-answer' || question.type === 'numeric' || question.type === 'expression') {
     answerSection = `
       <div style="font-size: 8pt; color: #6b7280; margin-bottom: 3pt;">Answer:</div>
       <div class="answer-lines"></div>
     `;
+  } else if (question.type === 'multi-select' && question.options) {
+    const optionsHTML = question.options.map((option, optionIndex) => `
+        <div style="margin: 3pt 0; display: flex; align-items: center;">
+          ${onAnswerSheet ? '' : '<span class="option-circle" style="border-radius: 0;"></span>'}
+          <span class="option-letter">${StructuredQuestionService.optionLabel(optionIndex)}.</span>
+          <span style="font-size: 9pt;">${option}</span>
+        </div>
+      `).join('');
+    
+    answerSection = `
+      <div style="font-size: 8pt; color: #6b7280; margin-bottom: 3pt;">Select all that apply.</div>
+      ${optionsHTML}
+    `;
+  } else if (question.type === 'matching' && question.matchPairs) {
+    const answers = StructuredQuestionService.displayOrder(question.matchPairs.map(pair => pair.answer));
+    answerSection = `
+      <div style="font-size: 8pt; color: #6b7280; margin-bottom: 3pt;">${onAnswerSheet
+        ? `Mark the letter of the matching answer for each item in rows ${questionNumber}.1 to ${questionNumber}.${question.matchPairs.length} of the answer sheet.`
+        : 'Write the letter of the matching answer next to each item.'}</div>
+      <div style="display: flex; gap: 12pt;">
+        <div style="flex: 1;">
+          ${question.matchPairs.map((pair, pairIndex) => `
+            <div style="margin: 3pt 0; font-size: 9pt;">${pairIndex + 1}. ${onAnswerSheet ? '' : writeIn('')} ${pair.prompt}</div>
+          `).join('')}
+        </div>
+        <div style="flex: 1;">
+          ${answers.map((answer, answerIndex) => `
+            <div style="margin: 3pt 0; font-size: 9pt;"><span class="option-letter">${StructuredQuestionService.optionLabel(answerIndex)}.</span>${answer}</div>
+          `).join('')}
+        </div>
+      </div>
+    `;
+  } else if (question.type === 'ordering' && question.options) {
+    const items = StructuredQuestionService.displayOrder(question.options);
+    answerSection = `
+      ${items.map((item, itemIndex) => `
+        <div style="margin: 3pt 0; font-size: 9pt;"><span class="option-letter">${StructuredQuestionService.optionLabel(itemIndex)}.</span>${item}</div>
+      `).join('')}
+      ${onAnswerSheet ? `
+      <div style="font-size: 8pt; color: #6b7280; margin: 4pt 0 3pt;">Mark the letter that comes first in row ${questionNumber}.1 of the answer sheet, the second in row ${questionNumber}.2, and so on.</div>
+      ` : `
+      <div style="font-size: 8pt; color: #6b7280; margin: 4pt 0 3pt;">Write the letters in the correct order:</div>
+      <div style="font-size: 9pt;">${items.map((_, position) => `${position + 1}.${writeIn('')}`).join(' ')}</div>
+      `}
+    `;
+  } else if (question.type === 'fill-in-blank') {
+    questionText = StructuredQuestionService.splitBlanks(question.question)
+      .map((segment, blankIndex, segments) => blankIndex < segments.length - 1 ? `${segment}${writeIn(`(${blankIndex + 1})`)}` : segment)
+      .join('');
   } else if (question.type === 'essay') {
     answerSection = `
       <div style="font-size: 8pt; color: #6b7280; margin-bottom: 3pt;">Answer:</div>
@@ -358,7 +616,7 @@ const generateQuestionHTML = (question: Question, index: number): string => {
         </div>
       </div>
       <div style="padding: 3pt; margin-bottom: 6pt;">
-        <div style="font-size: 10pt; font-weight: 500; margin-bottom: 6pt;">${question.question}</div>
+        <div style="font-size: 10pt; font-weight: 500; margin-bottom: 6pt;">${questionText}</div>
         ${answerSection}
       </div>
     </div>
@@ -391,6 +649,22 @@ export const printConsolidatedTests = (testData: TestData, studentNames: string[
   printHTML(htmlContent);
 };
 
+/**
+ * Shrink any page whose questions came out taller than estimated, so every numbered page
+ * prints on exactly one sheet and its page code matches the paper it is on
+ */
+export const fitSheetPages = (root: ParentNode) => {
+  root.querySelectorAll<HTMLElement>('.sheet-page .page-content').forEach(content => {
+    const sheet = content.parentElement as HTMLElement;
+    const available = sheet.clientHeight - content.offsetTop;
+    const scale = available / content.scrollHeight;
+    if (scale < 1) {
+      content.style.transform = `scale(${scale.toFixed(3)})`;
+      content.style.width = `${(100 / scale).toFixed(1)}%`;
+    }
+  });
+};
+
 const printHTML = (htmlContent: string) => {
   const printWindow = window.open('', '_blank');
   if (printWindow) {
@@ -399,6 +673,7 @@ const printHTML = (htmlContent: string) => {
     
     // Wait for content to load before printing
     printWindow.onload = () => {
+      fitSheetPages(printWindow.document);
       printWindow.focus();
       printWindow.print();
       printWindow.onafterprint = () => {
@@ -0,0 +1,427 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { Question } from "@/utils/pdfGenerator";
+import type { MathAnswerSpec } from "./mathAnswerGradingService";
+import { StructuredQuestionService, type MatchPair } from "./structuredQuestionService";
+import { GradeOverrideService } from "./gradeOverrideService";
+import { fetchAllPages } from "@/utils/fetchAllPages";
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export type ItemFlag = 'too_hard' | 'too_easy' | 'low_discrimination' | 'negative_discrimination';
+
+export interface ItemStatistics {
+  responseCount: number;
+  pValue: number | null; // Mean fraction of the item's points earned
+  discrimination: number | null; // Item score vs. rest-of-test score correlation
+}
+
+export interface QuestionBankItem extends ItemStatistics {
+  id?: string;
+  questionText: string;
+  questionType: Question['type'];
+  options?: string[];
+  correctAnswer: string;
+  correctAnswers?: string[];
+  matchPairs?: MatchPair[];
+  answerSpec?: MathAnswerSpec;
+  rubricId?: string;
+  points: number;
+  difficulty?: QuestionDifficulty;
+  subject?: string;
+  grade?: string;
+  contentSkillTags: string[];
+  subjectSkillTags: string[];
+  explanation?: string;
+  timesUsed: number;
+  statsUpdatedAt?: string;
+}
+
+export interface QuestionBankFilters {
+  search?: string;
+  questionType?: Question['type'];
+  difficulty?: QuestionDifficulty;
+  subject?: string;
+  grade?: string;
+  skill?: string; // Tagged as either a content or a subject skill
+  contentSkill?: string;
+  subjectSkill?: string;
+  flaggedOnly?: boolean;
+}
+
+/**
+ * One student's result on an item, as fractions of the item and of the rest of the test
+ */
+interface ItemResponse {
+  itemScore: number;
+  restScore: number;
+}
+
+type QuestionBankRow = Tables<'question_bank_items'>;
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_hard: 'Too hard',
+  too_easy: 'Too easy',
+  low_discrimination: 'Low discrimination',
+  negative_discrimination: 'Negative discrimination'
+};
+
+/**
+ * Service for the teacher's reusable, skill-tagged question bank and its item statistics
+ */
+export class QuestionBankService {
+  private static readonly MIN_RESPONSES_FOR_FLAGS = 10;
+  private static readonly HARD_P_VALUE = 0.3;
+  private static readonly EASY_P_VALUE = 0.9;
+  private static readonly LOW_DISCRIMINATION = 0.2;
+
+  static async searchItems(filters: QuestionBankFilters = {}): Promise<QuestionBankItem[]> {
+    if (filters.skill) {
+      const { skill, ...rest } = filters;
+      const [content, subject] = await Promise.all([
+        this.searchItems({ ...rest, contentSkill: skill }),
+        this.searchItems({ ...rest, subjectSkill: skill })
+      ]);
+      return [...content, ...subject.filter(item => !content.some(existing => existing.id === item.id))];
+    }
+
+    let query = supabase
+      .from('question_bank_items')
+      .select('*')
+      .order('updated_at', { ascending: false })
+      .limit(200);
+
+    if (filters.search?.trim()) {
+      const escaped = filters.search.trim().replace(/[%_\\]/g, match => `\\${match}`);
+      query = query.ilike('question_text', `%${escaped}%`);
+    }
+    if (filters.questionType) query = query.eq('question_type', filters.questionType);
+    if (filters.difficulty) query = query.eq('difficulty', filters.difficulty);
+    if (filters.subject) query = query.eq('subject', filters.subject);
+    if (filters.grade) query = query.eq('grade', filters.grade);
+    if (filters.contentSkill) query = query.contains('content_skill_tags', [filters.contentSkill]);
+    if (filters.subjectSkill) query = query.contains('subject_skill_tags', [filters.subjectSkill]);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error searching question bank:', error);
+      throw new Error(`Failed to search question bank: ${error.message}`);
+    }
+
+    const items = (data || []).map(row => this.fromRow(row));
+    return filters.flaggedOnly ? items.filter(item => this.getItemFlags(item).length > 0) : items;
+  }
+
+  static async getItem(itemId: string): Promise<QuestionBankItem | null> {
+    const { data, error } = await supabase
+      .from('question_bank_items')
+      .select('*')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching question bank item:', error);
+      throw new Error(`Failed to fetch question bank item: ${error.message}`);
+    }
+
+    return data ? this.fromRow(data) : null;
+  }
+
+  /**
+   * Items tagged with a content or subject skill, for practice generation
+   */
+  static async getItemsForSkill(skillName: string, limit: number = 10): Promise<QuestionBankItem[]> {
+    const items = await this.searchItems({ skill: skillName });
+    return items.slice(0, limit);
+  }
+
+  /**
+   * Create an item, or update it in place when it already has an id
+   */
+  static async saveItem(item: QuestionBankItem): Promise<QuestionBankItem> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Must be authenticated to save to the question bank');
+    }
+
+    if (!item.questionText.trim()) {
+      throw new Error('A question needs text before it can be saved to the bank');
+    }
+
+    const structured = StructuredQuestionService.isStructuredType(item.questionType)
+      ? StructuredQuestionService.toAnswerKeyFields({
+          type: item.questionType,
+          question: item.questionText,
+          options: item.options,
+          correctAnswers: item.correctAnswers,
+          matchPairs: item.matchPairs
+        })
+      : null;
+
+    const row = {
+      teacher_id: user.id,
+      question_text: item.questionText.trim(),
+      question_type: item.questionType,
+      options: (structured ? structured.options : item.options ? { options: item.options } : null) as Json,
+      correct_answer: structured ? structured.correct_answer : item.correctAnswer,
+      answer_spec: (item.answerSpec || null) as unknown as Json,
+      rubric_id: item.rubricId || null,
+      points: item.points,
+      difficulty: item.difficulty || null,
+      subject: item.subject || null,
+      grade: item.grade || null,
+      content_skill_tags: item.contentSkillTags,
+      subject_skill_tags: item.subjectSkillTags,
+      explanation: item.explanation || null
+    };
+
+    const query = item.id
+      ? supabase.from('question_bank_items').update(row).eq('id', item.id)
+      : supabase.from('question_bank_items').insert(row);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving question bank item:', error);
+      throw new Error(`Failed to save question bank item: ${error.message}`);
+    }
+
+    console.log(`✅ Saved question bank item ${data.id}`);
+    return this.fromRow(data);
+  }
+
+  static async deleteItem(itemId: string): Promise<void> {
+    const { error } = await supabase
+      .from('question_bank_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) {
+      console.error('Error deleting question bank item:', error);
+      throw new Error(`Failed to delete question bank item: ${error.message}`);
+    }
+  }
+
+  /**
+   * Bank item from a question being authored in the test creator
+   */
+  static fromQuestion(
+    question: Question,
+    details: Pick<QuestionBankItem, 'difficulty' | 'subject' | 'grade' | 'contentSkillTags' | 'subjectSkillTags'>
+  ): QuestionBankItem {
+    return {
+      id: question.bankItemId,
+      questionText: question.question,
+      questionType: question.type,
+      options: question.options,
+      correctAnswer: question.correctAnswer === undefined ? '' : String(question.correctAnswer),
+      correctAnswers: question.correctAnswers,
+      matchPairs: question.matchPairs,
+      answerSpec: question.answerSpec,
+      rubricId: question.rubricId,
+      points: question.points,
+      ...details,
+      timesUsed: 0,
+      responseCount: 0,
+      pValue: null,
+      discrimination: null
+    };
+  }
+
+  /**
+   * Test creator question from a bank item; the link keeps results flowing back to the item
+   */
+  static toQuestion(item: QuestionBankItem): Question {
+    return {
+      id: `q-${Date.now()}-${item.id}`,
+      type: item.questionType,
+      question: item.questionText,
+      options: item.options ? [...item.options] : undefined,
+      correctAnswer: StructuredQuestionService.isStructuredType(item.questionType) ? '' : item.correctAnswer,
+      correctAnswers: item.correctAnswers ? [...item.correctAnswers] : undefined,
+      matchPairs: item.matchPairs?.map(pair => ({ ...pair })),
+      points: item.points,
+      rubricId: item.rubricId,
+      answerSpec: item.answerSpec,
+      bankItemId: item.id
+    };
+  }
+
+  static getItemFlags(item: ItemStatistics): ItemFlag[] {
+    if (item.responseCount < this.MIN_RESPONSES_FOR_FLAGS) return [];
+
+    const flags: ItemFlag[] = [];
+    if (item.pValue !== null && item.pValue < this.HARD_P_VALUE) flags.push('too_hard');
+    if (item.pValue !== null && item.pValue > this.EASY_P_VALUE) flags.push('too_easy');
+    if (item.discrimination !== null) {
+      if (item.discrimination < 0) flags.push('negative_discrimination');
+      else if (item.discrimination < this.LOW_DISCRIMINATION) flags.push('low_discrimination');
+    }
+    return flags;
+  }
+
+  /**
+   * Recompute p-value and discrimination for the given items (or the whole bank) from the
+   * graded test results of every exam that used them
+   */
+  static async refreshStatistics(itemIds?: string[]): Promise<void> {
+    let items: Array<{ id: string }>;
+    try {
+      items = await fetchAllPages((from, to) => {
+        let itemQuery = supabase.from('question_bank_items').select('id');
+        if (itemIds) itemQuery = itemQuery.in('id', itemIds);
+        return itemQuery.order('id').range(from, to);
+      });
+    } catch (error) {
+      console.error('Error loading question bank items:', error);
+      throw new Error(`Failed to load question bank items: ${(error as Error).message}`);
+    }
+    if (items.length === 0) return;
+
+    // .in() filters travel in the query string, so look keys and results up in batches
+    const answerKeys: Array<{ exam_id: string; question_number: number; points: number; question_bank_item_id: string | null }> = [];
+    try {
+      for (let i = 0; i < items.length; i += 100) {
+        const batch = items.slice(i, i + 100).map(item => item.id);
+        answerKeys.push(...await fetchAllPages((from, to) => supabase
+          .from('answer_keys')
+          .select('exam_id, question_number, points, question_bank_item_id')
+          .in('question_bank_item_id', batch)
+          .order('id')
+          .range(from, to)));
+      }
+    } catch (error) {
+      console.error('Error loading answer keys for question bank items:', error);
+      throw new Error(`Failed to load answer keys: ${(error as Error).message}`);
+    }
+
+    const examIds = [...new Set(answerKeys.map(key => key.exam_id))];
+    const results: Array<{ exam_id: string; detailed_analysis: string | null; total_points_earned: number; total_points_possible: number }> = [];
+    try {
+      for (let i = 0; i < examIds.length; i += 100) {
+        const batch = examIds.slice(i, i + 100);
+        results.push(...await fetchAllPages((from, to) => supabase
+          .from('test_results')
+          .select('exam_id, detailed_analysis, total_points_earned, total_points_possible')
+          .in('exam_id', batch)
+          .order('id')
+          .range(from, to)));
+      }
+    } catch (error) {
+      console.error('Error loading test results for item statistics:', error);
+      throw new Error(`Failed to load test results: ${(error as Error).message}`);
+    }
+
+    const resultsByExam = new Map<string, typeof results>();
+    results.forEach(result => {
+      resultsByExam.set(result.exam_id, [...(resultsByExam.get(result.exam_id) || []), result]);
+    });
+
+    const statsUpdatedAt = new Date().toISOString();
+    for (const item of items) {
+      const keys = answerKeys.filter(key => key.question_bank_item_id === item.id);
+      const responses: ItemResponse[] = [];
+
+      keys.forEach(key => {
+        (resultsByExam.get(key.exam_id) || []).forEach(result => {
+          const questionResult = GradeOverrideService.getQuestionResults(result.detailed_analysis)
+            .find(question => Number(question.questionNumber) === key.question_number);
+          if (!questionResult || !key.points) return;
+
+          const earned = Number(questionResult.pointsEarned) || 0;
+          const restPossible = Number(result.total_points_possible) - key.points;
+          responses.push({
+            itemScore: earned / key.points,
+            restScore: restPossible > 0 ? (Number(result.total_points_earned) - earned) / restPossible : 0
+          });
+        });
+      });
+
+      const stats = this.calculateItemStatistics(responses);
+      const { error } = await supabase
+        .from('question_bank_items')
+        .update({
+          response_count: stats.responseCount,
+          p_value: stats.pValue,
+          discrimination: stats.discrimination,
+          times_used: new Set(keys.map(key => key.exam_id)).size,
+          stats_updated_at: statsUpdatedAt
+        })
+        .eq('id', item.id);
+
+      if (error) {
+        console.error(`Error saving statistics for question bank item ${item.id}:`, error);
+      }
+    }
+
+    console.log(`📊 Refreshed statistics for ${items.length} question bank items`);
+  }
+
+  static calculateItemStatistics(responses: ItemResponse[]): ItemStatistics {
+    const n = responses.length;
+    if (n === 0) {
+      return { responseCount: 0, pValue: null, discrimination: null };
+    }
+
+    const pValue = responses.reduce((sum, response) => sum + response.itemScore, 0) / n;
+    return {
+      responseCount: n,
+      pValue: Math.round(pValue * 1000) / 1000,
+      discrimination: this.correlation(
+        responses.map(response => response.itemScore),
+        responses.map(response => response.restScore)
+      )
+    };
+  }
+
+  /**
+   * Pearson correlation (point-biserial for right/wrong items); null when either side has no variance
+   */
+  private static correlation(xs: number[], ys: number[]): number | null {
+    const n = xs.length;
+    if (n < 2) return null;
+
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (xs[i] - meanX) * (ys[i] - meanY);
+      varianceX += (xs[i] - meanX) ** 2;
+      varianceY += (ys[i] - meanY) ** 2;
+    }
+
+    if (varianceX === 0 || varianceY === 0) return null;
+    return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 1000) / 1000;
+  }
+
+  private static fromRow(row: QuestionBankRow): QuestionBankItem {
+    const stored = (row.options || {}) as { options?: string[]; correctAnswers?: string[]; matchPairs?: MatchPair[] };
+
+    return {
+      id: row.id,
+      questionText: row.question_text,
+      questionType: row.question_type as Question['type'],
+      options: Array.isArray(stored.options) ? stored.options : undefined,
+      correctAnswer: row.correct_answer,
+      correctAnswers: Array.isArray(stored.correctAnswers) ? stored.correctAnswers : undefined,
+      matchPairs: Array.isArray(stored.matchPairs) ? stored.matchPairs : undefined,
+      answerSpec: (row.answer_spec as unknown as MathAnswerSpec) || undefined,
+      rubricId: row.rubric_id || undefined,
+      points: Number(row.points),
+      difficulty: (row.difficulty as QuestionDifficulty) || undefined,
+      subject: row.subject || undefined,
+      grade: row.grade || undefined,
+      contentSkillTags: row.content_skill_tags || [],
+      subjectSkillTags: row.subject_skill_tags || [],
+      explanation: row.explanation || undefined,
+      timesUsed: row.times_used,
+      responseCount: row.response_count,
+      pValue: row.p_value === null ? null : Number(row.p_value),
+      discrimination: row.discrimination === null ? null : Number(row.discrimination),
+      statsUpdatedAt: row.stats_updated_at || undefined
+    };
+  }
+}
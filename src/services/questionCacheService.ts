@@ -252,6 +252,35 @@ export class QuestionCacheService {
     }
   }
 
+  /**
+   * Replace the cached grade for an answer with a teacher's corrected grade, so the
+   * same answer is not mis-graded from cache again
+   */
+  static async recordTeacherOverride(
+    examId: string,
+    questionNumber: number,
+    studentAnswer: string,
+    correctAnswer: string,
+    override: { pointsEarned: number; pointsPossible: number; reason: string }
+  ): Promise<void> {
+    await this.setCachedQuestionResult(
+      examId,
+      questionNumber,
+      studentAnswer.trim(),
+      correctAnswer.trim(),
+      {
+        questionNumber,
+        isCorrect: override.pointsEarned >= override.pointsPossible,
+        pointsEarned: override.pointsEarned,
+        pointsPossible: override.pointsPossible,
+        confidence: 1,
+        gradingMethod: 'teacher_override',
+        reasoning: `Teacher override: ${override.reason}`,
+        qualityFlags: { teacherLabeled: true }
+      }
+    );
+  }
+
   static async preProcessCommonExam(
     examId: string,
     commonAnswerPatterns: Array<{
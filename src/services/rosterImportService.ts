@@ -0,0 +1,465 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { StudentIdGenerationService } from "./studentIdGenerationService";
+import { autoLinkClassToContentSkills, autoLinkClassToSubjectSkills } from "./examService";
+
+export interface RosterClass {
+  key: string;
+  name: string;
+  subject: string;
+  grade: string;
+  teacher?: string;
+}
+
+export interface RosterStudent {
+  key: string;
+  name: string;
+  email?: string;
+  studentId?: string;
+  year?: string;
+}
+
+export interface RosterData {
+  classes: RosterClass[];
+  students: RosterStudent[];
+  enrollments: Array<{ classKey: string; studentKey: string }>;
+  errors: string[];
+}
+
+export type CsvRosterField =
+  | 'studentName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'studentId'
+  | 'year'
+  | 'className'
+  | 'subject'
+  | 'grade'
+  | 'teacher';
+
+export type CsvColumnMapping = Partial<Record<CsvRosterField, string>>;
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface OneRosterFiles {
+  users: string;
+  classes: string;
+  enrollments: string;
+}
+
+export interface RosterPreview {
+  roster: RosterData;
+  resync: boolean;
+  classes: Array<RosterClass & { existingClassId?: string }>;
+  students: Array<RosterStudent & { existingProfileId?: string; matchedBy?: 'email' | 'studentId' }>;
+  enrollmentsToAdd: Array<{ classKey: string; studentKey: string }>;
+  enrollmentsToRemove: Array<{ classId: string; className: string; studentName: string }>;
+}
+
+export interface RosterImportResult {
+  classesCreated: number;
+  studentsCreated: number;
+  enrollmentsAdded: number;
+  enrollmentsRemoved: number;
+}
+
+// Header spellings recognised when guessing the column mapping for a plain CSV
+const HEADER_SYNONYMS: Record<CsvRosterField, string[]> = {
+  studentName: ['student name', 'name', 'full name', 'student'],
+  firstName: ['first name', 'firstname', 'given name', 'first'],
+  lastName: ['last name', 'lastname', 'surname', 'family name', 'last'],
+  email: ['email', 'email address', 'student email', 'e-mail'],
+  studentId: ['student id', 'studentid', 'id number', 'sis id', 'student number'],
+  year: ['year', 'grade level', 'student grade', 'year level'],
+  className: ['class', 'class name', 'course', 'section', 'period'],
+  subject: ['subject', 'course subject'],
+  grade: ['grade', 'class grade'],
+  teacher: ['teacher', 'teacher name', 'instructor']
+};
+
+// OneRoster grade codes mapped to the grade names used by classes and Student IDs
+const ONEROSTER_GRADES: Record<string, string> = {
+  KG: 'Kindergarten',
+  '01': 'Grade 1', '02': 'Grade 2', '03': 'Grade 3', '04': 'Grade 4',
+  '05': 'Grade 5', '06': 'Grade 6', '07': 'Grade 7', '08': 'Grade 8',
+  '09': 'Grade 9', '10': 'Grade 10', '11': 'Grade 11', '12': 'Grade 12'
+};
+
+/**
+ * Service for importing class rosters from CSV files and OneRoster 1.1 CSV bundles
+ */
+export class RosterImportService {
+
+  /**
+   * Parse CSV text, handling quoted fields, escaped quotes and CRLF line endings
+   */
+  static parseCsv(text: string): ParsedCsv {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+    const headers = (nonEmpty[0] || []).map(header => header.replace(/^\uFEFF/, '').trim());
+    const rows = nonEmpty.slice(1).map(values =>
+      Object.fromEntries(headers.map((header, index) => [header, (values[index] || '').trim()]))
+    );
+
+    return { headers, rows };
+  }
+
+  /**
+   * Guess which CSV column holds each roster field from the header names
+   */
+  static guessColumnMapping(headers: string[]): CsvColumnMapping {
+    const mapping: CsvColumnMapping = {};
+    const normalized = headers.map(header => header.toLowerCase().replace(/[_-]/g, ' ').trim());
+
+    (Object.keys(HEADER_SYNONYMS) as CsvRosterField[]).forEach(field => {
+      const index = normalized.findIndex(header => HEADER_SYNONYMS[field].includes(header));
+      if (index >= 0 && !Object.values(mapping).includes(headers[index])) {
+        mapping[field] = headers[index];
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Build a roster from a plain CSV with one row per student per class
+   */
+  static buildRosterFromCsv(
+    csv: ParsedCsv,
+    mapping: CsvColumnMapping,
+    defaults: { subject: string; grade: string; teacher?: string }
+  ): RosterData {
+    const roster: RosterData = { classes: [], students: [], enrollments: [], errors: [] };
+    const classKeys = new Set<string>();
+    const studentKeys = new Set<string>();
+    const value = (row: Record<string, string>, field: CsvRosterField) =>
+      mapping[field] ? row[mapping[field] as string] || '' : '';
+
+    csv.rows.forEach((row, index) => {
+      const name = value(row, 'studentName') ||
+        [value(row, 'firstName'), value(row, 'lastName')].filter(Boolean).join(' ');
+      const className = value(row, 'className');
+
+      if (!name) {
+        roster.errors.push(`Row ${index + 2}: missing student name`);
+        return;
+      }
+      if (!className) {
+        roster.errors.push(`Row ${index + 2}: missing class for ${name}`);
+        return;
+      }
+
+      const email = value(row, 'email').toLowerCase() || undefined;
+      const studentId = value(row, 'studentId') || undefined;
+      const studentKey = email || studentId || name.toLowerCase();
+      const classKey = className.toLowerCase();
+
+      if (!classKeys.has(classKey)) {
+        classKeys.add(classKey);
+        roster.classes.push({
+          key: classKey,
+          name: className,
+          subject: value(row, 'subject') || defaults.subject,
+          grade: value(row, 'grade') || defaults.grade,
+          teacher: value(row, 'teacher') || defaults.teacher
+        });
+      }
+
+      if (!studentKeys.has(studentKey)) {
+        studentKeys.add(studentKey);
+        roster.students.push({ key: studentKey, name, email, studentId, year: value(row, 'year') || undefined });
+      }
+
+      roster.enrollments.push({ classKey, studentKey });
+    });
+
+    return roster;
+  }
+
+  /**
+   * Build a roster from the users, classes and enrollments files of a OneRoster 1.1 CSV bundle
+   */
+  static buildRosterFromOneRoster(files: OneRosterFiles, defaultSubject: string): RosterData {
+    const roster: RosterData = { classes: [], students: [], enrollments: [], errors: [] };
+    const isActive = (row: Record<string, string>) => (row.status || 'active').toLowerCase() !== 'tobedeleted';
+    const toGrade = (codes?: string) => {
+      const code = (codes || '').split(',')[0].trim();
+      return ONEROSTER_GRADES[code] || code;
+    };
+
+    const users = this.parseCsv(files.users).rows.filter(isActive);
+    const classes = this.parseCsv(files.classes).rows.filter(isActive);
+    const enrollments = this.parseCsv(files.enrollments).rows.filter(isActive);
+
+    for (const required of ['sourcedId', 'role', 'givenName', 'familyName']) {
+      if (users.length > 0 && !(required in users[0])) roster.errors.push(`users.csv is missing the ${required} column`);
+    }
+    for (const required of ['sourcedId', 'title']) {
+      if (classes.length > 0 && !(required in classes[0])) roster.errors.push(`classes.csv is missing the ${required} column`);
+    }
+    for (const required of ['classSourcedId', 'userSourcedId', 'role']) {
+      if (enrollments.length > 0 && !(required in enrollments[0])) roster.errors.push(`enrollments.csv is missing the ${required} column`);
+    }
+    if (roster.errors.length > 0) return roster;
+
+    const usersById = new Map(users.map(user => [user.sourcedId, user]));
+    const teacherNames = new Map<string, string>();
+    enrollments
+      .filter(enrollment => enrollment.role === 'teacher')
+      .forEach(enrollment => {
+        const teacher = usersById.get(enrollment.userSourcedId);
+        if (teacher && !teacherNames.has(enrollment.classSourcedId)) {
+          teacherNames.set(enrollment.classSourcedId, `${teacher.givenName} ${teacher.familyName}`.trim());
+        }
+      });
+
+    classes.forEach(cls => {
+      roster.classes.push({
+        key: cls.sourcedId,
+        name: cls.title,
+        subject: (cls.subjects || '').split(',')[0].trim() || defaultSubject,
+        grade: toGrade(cls.grades),
+        teacher: teacherNames.get(cls.sourcedId)
+      });
+    });
+
+    users
+      .filter(user => user.role === 'student')
+      .forEach(user => {
+        roster.students.push({
+          key: user.sourcedId,
+          name: [user.givenName, user.familyName].filter(Boolean).join(' '),
+          email: user.email ? user.email.toLowerCase() : undefined,
+          studentId: user.identifier || undefined,
+          year: toGrade(user.grades) || undefined
+        });
+      });
+
+    const classKeys = new Set(roster.classes.map(cls => cls.key));
+    const studentKeys = new Set(roster.students.map(student => student.key));
+
+    enrollments
+      .filter(enrollment => enrollment.role === 'student')
+      .forEach(enrollment => {
+        if (!classKeys.has(enrollment.classSourcedId) || !studentKeys.has(enrollment.userSourcedId)) {
+          roster.errors.push(`Enrollment ${enrollment.sourcedId} refers to an unknown class or student`);
+          return;
+        }
+        roster.enrollments.push({ classKey: enrollment.classSourcedId, studentKey: enrollment.userSourcedId });
+      });
+
+    return roster;
+  }
+
+  /**
+   * Match the roster against existing classes and students and work out what will change
+   */
+  static async buildPreview(roster: RosterData, resync: boolean): Promise<RosterPreview> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Must be authenticated to import a roster');
+    }
+
+    const { data: teacherClasses, error: classError } = await supabase
+      .from('active_classes')
+      .select('id, name, roster_source_id, students')
+      .eq('teacher_id', user.id);
+
+    if (classError) {
+      throw new Error(`Failed to load existing classes: ${classError.message}`);
+    }
+
+    const classes = roster.classes.map(cls => {
+      const existing = (teacherClasses || []).find(existingClass => existingClass.roster_source_id === cls.key) ||
+        (teacherClasses || []).find(existingClass => existingClass.name.toLowerCase() === cls.name.toLowerCase());
+      return { ...cls, existingClassId: existing?.id };
+    });
+
+    // Only the teacher's own students are matched, the same way the import does it
+    const { data: matchData, error: matchError } = await supabase.rpc('match_roster_students', {
+      p_students: roster.students.map(student => ({
+        key: student.key,
+        email: student.email || null,
+        student_id: student.studentId || null
+      })) as unknown as Json
+    });
+
+    if (matchError) {
+      throw new Error(`Failed to look up existing students: ${matchError.message}`);
+    }
+
+    const matches = (matchData || {}) as Record<string, { profile_id: string; matched_by: 'email' | 'studentId' }>;
+    const students = roster.students.map(student => ({
+      ...student,
+      existingProfileId: matches[student.key]?.profile_id,
+      matchedBy: matches[student.key]?.matched_by
+    }));
+
+    // Class rosters list active_students ids; the import matches them by student profile or email
+    const rosterIds = [...new Set((teacherClasses || []).flatMap(cls => cls.students || []))];
+    const { data: rosterStudents, error: rosterError } = rosterIds.length > 0
+      ? await supabase.from('active_students').select('id, name, email, student_profile_id').in('id', rosterIds)
+      : { data: [], error: null };
+
+    if (rosterError) {
+      throw new Error(`Failed to load current class rosters: ${rosterError.message}`);
+    }
+
+    const rosterStudentById = new Map((rosterStudents || []).map(student => [student.id, student]));
+    const isSameStudent = (student: RosterStudent & { existingProfileId?: string }, rosterStudentId: string) => {
+      const current = rosterStudentById.get(rosterStudentId);
+      if (!current) return false;
+      return (!!student.existingProfileId && current.student_profile_id === student.existingProfileId) ||
+        (!!student.email && current.email?.toLowerCase() === student.email);
+    };
+    const currentRoster = (classId?: string) =>
+      (teacherClasses || []).find(cls => cls.id === classId)?.students || [];
+
+    const classByKey = new Map(classes.map(cls => [cls.key, cls]));
+    const studentByKey = new Map(students.map(student => [student.key, student]));
+
+    const enrollmentsToAdd = roster.enrollments.filter(enrollment => {
+      const student = studentByKey.get(enrollment.studentKey);
+      const current = currentRoster(classByKey.get(enrollment.classKey)?.existingClassId);
+      return !student || !current.some(id => isSameStudent(student, id));
+    });
+
+    const enrollmentsToRemove = resync
+      ? classes
+        .filter(cls => cls.existingClassId)
+        .flatMap(cls => {
+          const fileStudents = roster.enrollments
+            .filter(enrollment => enrollment.classKey === cls.key)
+            .map(enrollment => studentByKey.get(enrollment.studentKey))
+            .filter(Boolean) as RosterPreview['students'];
+
+          return currentRoster(cls.existingClassId)
+            .filter(id => !fileStudents.some(student => isSameStudent(student, id)))
+            .map(id => ({
+              classId: cls.existingClassId as string,
+              className: cls.name,
+              studentName: rosterStudentById.get(id)?.name || 'Unknown student'
+            }));
+        })
+      : [];
+
+    return { roster, resync, classes, students, enrollmentsToAdd, enrollmentsToRemove };
+  }
+
+  /**
+   * Write the previewed roster. New students get a generated Student ID when the roster
+   * has none; classes, students and enrollments are created in one transaction.
+   */
+  static async commitImport(preview: RosterPreview): Promise<RosterImportResult> {
+    const generatedIds = new Set<string>();
+    const students = [];
+
+    for (const student of preview.students) {
+      let studentId = student.studentId;
+      if (!student.existingProfileId && !studentId) {
+        do {
+          studentId = await StudentIdGenerationService.generateUniqueStudentId(student.year);
+        } while (generatedIds.has(studentId));
+        generatedIds.add(studentId);
+      }
+
+      students.push({
+        key: student.key,
+        student_name: student.name,
+        email: student.email || null,
+        student_id: studentId || null,
+        year: student.year || null
+      });
+    }
+
+    const { data, error } = await supabase.rpc('import_roster', {
+      p_classes: preview.classes.map(cls => ({
+        key: cls.key,
+        class_id: cls.existingClassId || null,
+        name: cls.name,
+        subject: cls.subject,
+        grade: cls.grade,
+        teacher: cls.teacher || null,
+        roster_source_id: cls.key
+      })) as unknown as Json,
+      p_students: students as unknown as Json,
+      p_enrollments: preview.roster.enrollments.map(enrollment => ({
+        class_key: enrollment.classKey,
+        student_key: enrollment.studentKey
+      })) as unknown as Json,
+      p_resync: preview.resync
+    });
+
+    if (error) {
+      console.error('Error importing roster:', error);
+      throw new Error(`Failed to import roster: ${error.message}`);
+    }
+
+    const result = data as {
+      class_ids: Record<string, string>;
+      classes_created: number;
+      students_created: number;
+      enrollments_added: number;
+      enrollments_removed: number;
+    };
+
+    // Link skills to the new classes the same way createActiveClass does
+    for (const cls of preview.classes.filter(c => !c.existingClassId)) {
+      const classId = result.class_ids[cls.key];
+      try {
+        await autoLinkClassToContentSkills(classId, cls.subject, cls.grade);
+        await autoLinkClassToSubjectSkills(classId, cls.subject, cls.grade);
+      } catch (skillError) {
+        console.warn('Failed to auto-link skills for imported class:', skillError);
+      }
+    }
+
+    console.log(`📋 Roster imported: ${result.classes_created} classes, ${result.students_created} students, ${result.enrollments_added} enrollments added, ${result.enrollments_removed} removed`);
+
+    return {
+      classesCreated: result.classes_created,
+      studentsCreated: result.students_created,
+      enrollmentsAdded: result.enrollments_added,
+      enrollmentsRemoved: result.enrollments_removed
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface RubricLevel {
+  label: string;
+  points: number;
+  description: string;
+  exemplar?: string;
+}
+
+/**
+ * One scored dimension of a rubric. A criterion tied to a skill feeds its score into
+ * that skill's content or subject skill scores.
+ */
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  skillName?: string;
+  skillType?: 'content' | 'subject';
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  id?: string;
+  name: string;
+  description?: string;
+  subject?: string;
+  grade?: string;
+  criteria: RubricCriterion[];
+  totalPoints: number;
+}
+
+/**
+ * Score awarded for one criterion, as stored per question in test_results.detailed_analysis
+ */
+export interface RubricCriterionScore {
+  criterionId: string;
+  criterion: string;
+  level?: string;
+  pointsEarned: number;
+  pointsPossible: number;
+  justification: string;
+  skillName?: string;
+  skillType?: 'content' | 'subject';
+}
+
+export interface RubricQuestionBreakdown {
+  questionNumber: number;
+  pointsEarned: number;
+  criterionScores: RubricCriterionScore[];
+}
+
+// Four-level scale used for new criteria; teachers can rename or re-point the levels
+const DEFAULT_LEVELS: RubricLevel[] = [
+  { label: 'Exemplary', points: 4, description: '' },
+  { label: 'Proficient', points: 3, description: '' },
+  { label: 'Developing', points: 2, description: '' },
+  { label: 'Beginning', points: 1, description: '' }
+];
+
+/**
+ * Service for managing reusable grading rubrics
+ */
+export class RubricService {
+
+  static createCriterion(name: string = ''): RubricCriterion {
+    return {
+      id: crypto.randomUUID(),
+      name,
+      description: '',
+      levels: DEFAULT_LEVELS.map(level => ({ ...level }))
+    };
+  }
+
+  /**
+   * Maximum score for a rubric: the highest level of every criterion
+   */
+  static calculateTotalPoints(criteria: RubricCriterion[]): number {
+    return criteria.reduce(
+      (sum, criterion) => sum + Math.max(0, ...criterion.levels.map(level => Number(level.points) || 0)),
+      0
+    );
+  }
+
+  static async getRubrics(): Promise<Rubric[]> {
+    const { data, error } = await supabase
+      .from('rubrics')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching rubrics:', error);
+      throw new Error(`Failed to fetch rubrics: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      subject: row.subject || undefined,
+      grade: row.grade || undefined,
+      criteria: row.criteria as unknown as RubricCriterion[],
+      totalPoints: Number(row.total_points)
+    }));
+  }
+
+  /**
+   * Create a rubric, or update it in place when it already has an id
+   */
+  static async saveRubric(rubric: Rubric): Promise<Rubric> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Must be authenticated to save a rubric');
+    }
+
+    if (rubric.criteria.length === 0) {
+      throw new Error('A rubric needs at least one criterion');
+    }
+
+    const totalPoints = this.calculateTotalPoints(rubric.criteria);
+    const row = {
+      teacher_id: user.id,
+      name: rubric.name.trim(),
+      description: rubric.description || null,
+      subject: rubric.subject || null,
+      grade: rubric.grade || null,
+      criteria: rubric.criteria as unknown as Json,
+      total_points: totalPoints
+    };
+
+    const query = rubric.id
+      ? supabase.from('rubrics').update(row).eq('id', rubric.id)
+      : supabase.from('rubrics').insert(row);
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      console.error('Error saving rubric:', error);
+      throw new Error(`Failed to save rubric: ${error.message}`);
+    }
+
+    console.log(`✅ Saved rubric "${data.name}" (${totalPoints} points)`);
+    return { ...rubric, id: data.id, name: data.name, totalPoints };
+  }
+
+  static async deleteRubric(rubricId: string): Promise<void> {
+    const { error } = await supabase
+      .from('rubrics')
+      .delete()
+      .eq('id', rubricId);
+
+    if (error) {
+      console.error('Error deleting rubric:', error);
+      throw new Error(`Failed to delete rubric: ${error.message}`);
+    }
+  }
+
+  /**
+   * Pull the rubric-graded questions out of a test result's detailed analysis
+   */
+  static getRubricBreakdown(detailedAnalysis?: string | null): RubricQuestionBreakdown[] {
+    if (!detailedAnalysis) return [];
+
+    try {
+      const parsed = JSON.parse(detailedAnalysis);
+      const questionResults: Array<Partial<RubricQuestionBreakdown>> = Array.isArray(parsed?.questionResults)
+        ? parsed.questionResults
+        : [];
+
+      return questionResults
+        .filter(result => Array.isArray(result.criterionScores) && result.criterionScores.length > 0)
+        .map(result => ({
+          questionNumber: Number(result.questionNumber),
+          pointsEarned: Number(result.pointsEarned) || 0,
+          criterionScores: result.criterionScores as RubricCriterionScore[]
+        }));
+    } catch {
+      // Older results stored free-text analysis
+      return [];
+    }
+  }
+}
@@ -0,0 +1,315 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ExtractTextResponse } from './testAnalysisService';
+import type { BoundingBox } from './testTemplateService';
+
+export type ReviewField = 'answer' | 'student' | 'exam';
+
+export type ReviewFlag =
+  | 'low_confidence'
+  | 'not_detected'
+  | 'blank'
+  | 'multiple_marks'
+  | 'faint_mark'
+  | 'invalid_option'
+  | 'unanswered_row'
+  | 'overfilled';
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  low_confidence: 'Low confidence',
+  not_detected: 'Not detected',
+  blank: 'Blank',
+  multiple_marks: 'Multiple marks',
+  faint_mark: 'Faint mark',
+  invalid_option: 'Invalid option',
+  unanswered_row: 'Unanswered row',
+  overfilled: 'Overfilled bubble'
+};
+
+export interface ReviewPage {
+  fileName: string;
+  imageUrl: string | null; // Object URL for image scans; PDFs are reviewed without a preview
+  extractResult: ExtractTextResponse;
+}
+
+// Where the student and exam came from before review
+export interface ReviewAttribution {
+  value: string | null;
+  confidence: number;
+  method: string;
+}
+
+export interface ScanReviewSubmission {
+  id: string;
+  pages: ReviewPage[];
+  exam: ReviewAttribution;
+  student: ReviewAttribution;
+}
+
+export interface ScanReviewItem {
+  id: string;
+  pageIndex: number;
+  field: ReviewField;
+  questionNumber: number | null;
+  detectedValue: string;
+  correctedValue: string;
+  confidence: number;
+  ocrMethod: string;
+  region: BoundingBox | null; // Fractions (0-1) of the page image
+  flags: ReviewFlag[];
+}
+
+export interface ReviewedSubmission {
+  examId: string | null;
+  studentName: string | null;
+  extractResults: ExtractTextResponse[];
+}
+
+// The answer fields the different detection paths fill in
+interface DetectedAnswerFields {
+  selectedOption?: string;
+  optionLetter?: string;
+  textAnswer?: string;
+  detectionMethod?: string;
+  boundingBox?: BoundingBox;
+}
+
+/**
+ * Turns OCR output into a list of things a teacher can check and correct before grading,
+ * and writes the corrections back into the data sent to analyze-test.
+ */
+export class ScanReviewService {
+  private static readonly LOW_CONFIDENCE = 0.7;
+  private static readonly PAGE_CODE_METHOD = 'page_code';
+  private static readonly TEXT_OCR_METHOD = 'google_vision_ocr';
+
+  /**
+   * Collect the extracted pages of one test. Page codes, when present, decide the student and exam.
+   */
+  static async createSubmission(
+    id: string,
+    pages: Array<{ file: File; extractResult: ExtractTextResponse }>,
+    pageCode: { examId: string; studentName: string | null } | null
+  ): Promise<ScanReviewSubmission> {
+    const reviewPages = await Promise.all(pages.map(async ({ file, extractResult }) => ({
+      fileName: file.name,
+      imageUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+      extractResult: await this.withPixelBoxesAsFractions(file, extractResult)
+    })));
+
+    const textExamId = pages.find(page => page.extractResult.examId)?.extractResult.examId || null;
+    const textStudent = pages.find(page => page.extractResult.studentName || page.extractResult.studentId)?.extractResult;
+    const studentConfidence = Number(textStudent?.structuredData && (textStudent.structuredData as Record<string, unknown>).studentIdConfidence);
+
+    return {
+      id,
+      pages: reviewPages,
+      exam: pageCode
+        ? { value: pageCode.examId, confidence: 1, method: this.PAGE_CODE_METHOD }
+        : { value: textExamId, confidence: textExamId ? 0.5 : 0, method: this.TEXT_OCR_METHOD },
+      student: pageCode?.studentName
+        ? { value: pageCode.studentName, confidence: 1, method: this.PAGE_CODE_METHOD }
+        : {
+            value: textStudent?.studentName || textStudent?.studentId || null,
+            confidence: textStudent ? (studentConfidence >= 0 ? studentConfidence : 0.5) : 0,
+            method: this.TEXT_OCR_METHOD
+          }
+    };
+  }
+
+  static releaseSubmission(submission: ScanReviewSubmission): void {
+    submission.pages.forEach(page => {
+      if (page.imageUrl) URL.revokeObjectURL(page.imageUrl);
+    });
+  }
+
+  /**
+   * One item for the exam, the student and every detected answer, lowest confidence first
+   */
+  static buildItems(submission: ScanReviewSubmission): ScanReviewItem[] {
+    const attributionItem = (field: 'exam' | 'student', attribution: ReviewAttribution): ScanReviewItem => ({
+      id: `${submission.id}:${field}`,
+      pageIndex: 0,
+      field,
+      questionNumber: null,
+      detectedValue: attribution.value || '',
+      correctedValue: attribution.value || '',
+      confidence: attribution.confidence,
+      ocrMethod: attribution.method,
+      region: null,
+      flags: this.confidenceFlags(attribution.value, attribution.confidence)
+    });
+
+    const answerItems = submission.pages.flatMap((page, pageIndex) =>
+      (page.extractResult.structuredData.questions || []).map(question => {
+        const answer = question.detectedAnswer || null;
+        const value = this.answerValue(answer);
+        const confidence = Number(answer?.confidence ?? question.confidence ?? 0) || 0;
+        const flags = [
+          ...this.confidenceFlags(answer ? value || 'blank' : null, confidence),
+          ...((answer?.issues || []) as ReviewFlag[])
+        ];
+        if (answer?.bubbleQuality === 'overfilled') flags.push('overfilled');
+
+        return {
+          id: `${submission.id}:${pageIndex}:${question.questionNumber}`,
+          pageIndex,
+          field: 'answer' as const,
+          questionNumber: question.questionNumber,
+          detectedValue: value,
+          correctedValue: value,
+          confidence,
+          ocrMethod: this.answerMethod(answer),
+          region: answer?.region || null,
+          flags: [...new Set(flags)]
+        };
+      })
+    );
+
+    return this.sortForReview([attributionItem('exam', submission.exam), attributionItem('student', submission.student), ...answerItems]);
+  }
+
+  static sortForReview(items: ScanReviewItem[]): ScanReviewItem[] {
+    return [...items].sort((a, b) =>
+      a.confidence - b.confidence
+      || b.flags.length - a.flags.length
+      || (a.questionNumber ?? 0) - (b.questionNumber ?? 0)
+    );
+  }
+
+  static isCorrected(item: ScanReviewItem): boolean {
+    return item.correctedValue.trim() !== item.detectedValue.trim();
+  }
+
+  /**
+   * The extracted pages with every answer set to what the teacher confirmed. Answers are
+   * written to selectedOption, which is the field analyze-test grades.
+   */
+  static applyCorrections(submission: ScanReviewSubmission, items: ScanReviewItem[]): ReviewedSubmission {
+    const byId = new Map(items.map(item => [item.id, item]));
+    const examItem = byId.get(`${submission.id}:exam`);
+    const studentItem = byId.get(`${submission.id}:student`);
+
+    const extractResults = submission.pages.map((page, pageIndex) => {
+      const { extractResult } = page;
+      const questions = (extractResult.structuredData.questions || []).map(question => {
+        const item = byId.get(`${submission.id}:${pageIndex}:${question.questionNumber}`);
+        if (!item) return question;
+
+        const corrected = this.isCorrected(item);
+        return {
+          ...question,
+          detectedAnswer: {
+            ...(question.detectedAnswer || {}),
+            selectedOption: item.correctedValue.trim() || 'no_answer',
+            ...(corrected && { confidence: 1, teacherCorrected: true, reviewFlag: false })
+          }
+        };
+      });
+
+      return {
+        ...extractResult,
+        examId: examItem?.correctedValue.trim() || extractResult.examId,
+        studentName: studentItem?.correctedValue.trim() || extractResult.studentName,
+        structuredData: { ...extractResult.structuredData, questions }
+      };
+    });
+
+    return {
+      examId: examItem?.correctedValue.trim() || null,
+      studentName: studentItem?.correctedValue.trim() || null,
+      extractResults
+    };
+  }
+
+  /**
+   * Record each change the teacher made along with the method that misread it
+   */
+  static async logCorrections(submission: ScanReviewSubmission, items: ScanReviewItem[]): Promise<number> {
+    const corrections = items.filter(item => this.isCorrected(item));
+    if (corrections.length === 0) return 0;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Must be authenticated to log OCR corrections');
+    }
+
+    const reviewed = this.applyCorrections(submission, items);
+    const { error } = await supabase
+      .from('ocr_corrections')
+      .insert(corrections.map(item => ({
+        teacher_id: user.id,
+        exam_id: reviewed.examId,
+        student_name: reviewed.studentName,
+        file_name: submission.pages[item.pageIndex]?.fileName || null,
+        field: item.field,
+        question_number: item.questionNumber,
+        original_value: item.detectedValue || null,
+        corrected_value: item.correctedValue.trim(),
+        original_confidence: item.confidence,
+        ocr_method: item.ocrMethod
+      })));
+
+    if (error) throw error;
+    console.log(`📝 Logged ${corrections.length} OCR correction(s) for ${submission.id}`);
+    return corrections.length;
+  }
+
+  // Local OMR fills selectedOption; Roboflow groups use optionLetter and text OCR textAnswer
+  private static answerValue(answer: DetectedAnswerFields | null): string {
+    const value = answer?.selectedOption ?? answer?.optionLetter ?? answer?.textAnswer ?? '';
+    return value === 'no_answer' ? '' : String(value);
+  }
+
+  private static answerMethod(answer: DetectedAnswerFields | null): string {
+    if (answer?.detectionMethod) return answer.detectionMethod;
+    if (answer?.boundingBox) return 'roboflow_bubbles';
+    return this.TEXT_OCR_METHOD;
+  }
+
+  private static confidenceFlags(value: string | null, confidence: number): ReviewFlag[] {
+    if (!value) return ['not_detected'];
+    return confidence < this.LOW_CONFIDENCE ? ['low_confidence'] : [];
+  }
+
+  /**
+   * Roboflow reports boxes in image pixels around the mark's center; overlays need fractions
+   */
+  private static async withPixelBoxesAsFractions(file: File, extractResult: ExtractTextResponse): Promise<ExtractTextResponse> {
+    const questions = extractResult.structuredData.questions || [];
+    if (!file.type.startsWith('image/') || !questions.some(question => question.detectedAnswer?.boundingBox)) {
+      return extractResult;
+    }
+
+    try {
+      const bitmap = await createImageBitmap(file);
+      const { width, height } = bitmap;
+      bitmap.close();
+
+      return {
+        ...extractResult,
+        structuredData: {
+          ...extractResult.structuredData,
+          questions: questions.map(question => {
+            const box = question.detectedAnswer?.boundingBox;
+            if (!box || question.detectedAnswer.region) return question;
+            return {
+              ...question,
+              detectedAnswer: {
+                ...question.detectedAnswer,
+                region: {
+                  x: (box.x - box.width / 2) / width,
+                  y: (box.y - box.height / 2) / height,
+                  width: box.width / width,
+                  height: box.height / height
+                }
+              }
+            };
+          })
+        }
+      };
+    } catch (error) {
+      console.warn('⚠️ Could not measure scan for review overlays:', error);
+      return extractResult;
+    }
+  }
+}
@@ -0,0 +1,387 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ActiveClass } from "./examService";
+import {
+  TeacherAnalyticsService,
+  type ClassSummary,
+  type ScoreTrendPoint,
+  type WeakSkill
+} from "./teacherAnalyticsService";
+
+export type SchoolRole = 'admin' | 'teacher';
+
+// What a co-teacher may do in a shared class; each level includes the ones before it
+export type ClassPermission = 'view' | 'grade' | 'edit';
+
+export type ClassAccess = ClassPermission | 'owner';
+
+export const CLASS_ACCESS_LABELS: Record<ClassAccess, string> = {
+  owner: 'Owner',
+  edit: 'Can edit',
+  grade: 'Can grade',
+  view: 'Can view'
+};
+
+const ACCESS_ORDER: ClassAccess[] = ['view', 'grade', 'edit', 'owner'];
+
+export interface School {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface SchoolMembership {
+  school: School;
+  role: SchoolRole;
+  department: string | null;
+}
+
+export interface SchoolMember {
+  memberId: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: SchoolRole;
+  department: string | null;
+  classCount: number;
+  joinedAt: string;
+}
+
+export interface ClassMember {
+  memberId: string;
+  teacherId: string;
+  name: string;
+  email: string;
+  permission: ClassPermission;
+  addedAt: string;
+}
+
+export interface DepartmentSummary {
+  department: string;
+  classCount: number;
+  teacherCount: number;
+  studentCount: number;
+  testCount: number;
+  averageScore: number | null;
+}
+
+export interface TeacherSummary {
+  teacherId: string | null;
+  teacher: string;
+  classCount: number;
+  testCount: number;
+  averageScore: number | null;
+}
+
+export interface SchoolAnalytics {
+  classCount: number;
+  teacherCount: number;
+  studentCount: number;
+  testCount: number;
+  averageScore: number | null;
+  classes: ClassSummary[];
+  departments: DepartmentSummary[];
+  teachers: TeacherSummary[];
+  scoreTrend: ScoreTrendPoint[];
+  weakSkills: WeakSkill[];
+}
+
+// Classes without a department are grouped under this name in school analytics
+export const NO_DEPARTMENT = 'No department';
+
+/**
+ * Service for schools, their members, co-teachers on classes and class transfers.
+ * Who may see or change a class is decided in the database by has_class_permission.
+ */
+export class SchoolService {
+
+  static hasAccess(access: ClassAccess | undefined, required: ClassAccess): boolean {
+    return !!access && ACCESS_ORDER.indexOf(access) >= ACCESS_ORDER.indexOf(required);
+  }
+
+  /**
+   * Schools the signed-in teacher belongs to, with their role in each
+   */
+  static async getMySchools(): Promise<SchoolMembership[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('school_members')
+      .select('role, department, schools(id, name, created_at)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching schools:', error);
+      throw new Error(`Failed to fetch schools: ${error.message}`);
+    }
+
+    return (data || [])
+      .filter(row => row.schools)
+      .map(row => ({
+        school: { id: row.schools!.id, name: row.schools!.name, createdAt: row.schools!.created_at },
+        role: row.role as SchoolRole,
+        department: row.department
+      }));
+  }
+
+  /**
+   * Create a school with the signed-in teacher as its first admin
+   */
+  static async createSchool(name: string): Promise<string> {
+    const { data, error } = await supabase.rpc('create_school', { p_name: name });
+
+    if (error) {
+      console.error('Error creating school:', error);
+      throw new Error(error.message);
+    }
+
+    return data;
+  }
+
+  static async getMembers(schoolId: string): Promise<SchoolMember[]> {
+    const { data, error } = await supabase.rpc('get_school_members', { p_school_id: schoolId });
+
+    if (error) {
+      console.error('Error fetching school members:', error);
+      throw new Error(`Failed to fetch school members: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      memberId: row.member_id,
+      userId: row.user_id,
+      name: row.full_name || row.email,
+      email: row.email,
+      role: row.role as SchoolRole,
+      department: row.department,
+      classCount: Number(row.class_count) || 0,
+      joinedAt: row.joined_at
+    }));
+  }
+
+  /**
+   * Add a teacher to the school by email. Adding someone who is already a member
+   * updates their role and department instead.
+   */
+  static async addMember(schoolId: string, email: string, role: SchoolRole, department?: string): Promise<void> {
+    const { error } = await supabase.rpc('add_school_member', {
+      p_school_id: schoolId,
+      p_email: email,
+      p_role: role,
+      p_department: department
+    });
+
+    if (error) {
+      console.error('Error adding school member:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Change a member's role or department. The database refuses to demote or remove a
+   * school's last admin.
+   */
+  static async updateMember(
+    member: SchoolMember,
+    updates: { role?: SchoolRole; department?: string | null }
+  ): Promise<void> {
+    const department = updates.department !== undefined ? updates.department : member.department;
+    const { error } = await supabase.rpc('update_school_member', {
+      p_member_id: member.memberId,
+      p_role: updates.role ?? member.role,
+      p_department: department ?? undefined
+    });
+
+    if (error) {
+      console.error('Error updating school member:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async removeMember(member: SchoolMember): Promise<void> {
+    const { error } = await supabase
+      .from('school_members')
+      .delete()
+      .eq('id', member.memberId);
+
+    if (error) {
+      console.error('Error removing school member:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Classes in the school. Admins see every class; other members see the ones they
+   * own or were added to.
+   */
+  static async getSchoolClasses(schoolId: string): Promise<ActiveClass[]> {
+    const { data, error } = await supabase
+      .from('active_classes')
+      .select('*')
+      .eq('school_id', schoolId)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching school classes:', error);
+      throw new Error(`Failed to fetch school classes: ${error.message}`);
+    }
+
+    return (data || []) as ActiveClass[];
+  }
+
+  /**
+   * Put a class in a school (or take it out with null) and set its department
+   */
+  static async assignClass(classId: string, schoolId: string | null, department: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('active_classes')
+      .update({ school_id: schoolId, department: schoolId ? department : null })
+      .eq('id', classId);
+
+    if (error) {
+      console.error('Error assigning class to school:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async getClassMembers(classId: string): Promise<ClassMember[]> {
+    const { data, error } = await supabase.rpc('get_class_members', { p_class_id: classId });
+
+    if (error) {
+      console.error('Error fetching co-teachers:', error);
+      throw new Error(`Failed to fetch co-teachers: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      memberId: row.member_id,
+      teacherId: row.teacher_id,
+      name: row.full_name || row.email,
+      email: row.email,
+      permission: row.permission as ClassPermission,
+      addedAt: row.added_at
+    }));
+  }
+
+  /**
+   * Share a class with another teacher by email, or change the access they already have
+   */
+  static async shareClass(classId: string, email: string, permission: ClassPermission): Promise<void> {
+    const { error } = await supabase.rpc('add_class_member', {
+      p_class_id: classId,
+      p_email: email,
+      p_permission: permission
+    });
+
+    if (error) {
+      console.error('Error sharing class:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  static async updateClassMember(memberId: string, permission: ClassPermission): Promise<void> {
+    const { error } = await supabase
+      .from('class_members')
+      .update({ permission, updated_at: new Date().toISOString() })
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('Error updating co-teacher:', error);
+      throw new Error(`Failed to update co-teacher: ${error.message}`);
+    }
+  }
+
+  static async removeClassMember(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('class_members')
+      .delete()
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('Error removing co-teacher:', error);
+      throw new Error(`Failed to remove co-teacher: ${error.message}`);
+    }
+  }
+
+  /**
+   * Hand a class to another teacher. With keepAccess the current owner stays on as an
+   * editing co-teacher.
+   */
+  static async transferClass(classId: string, email: string, keepAccess: boolean): Promise<{ teacherId: string; teacher: string }> {
+    const { data, error } = await supabase.rpc('transfer_class', {
+      p_class_id: classId,
+      p_email: email,
+      p_keep_access: keepAccess
+    });
+
+    if (error) {
+      console.error('Error transferring class:', error);
+      throw new Error(error.message);
+    }
+
+    const transfer = data as { teacher_id: string; teacher: string };
+    console.log(`🔁 Transferred class ${classId} to ${transfer.teacher}`);
+    return { teacherId: transfer.teacher_id, teacher: transfer.teacher };
+  }
+
+  /**
+   * School-wide analytics for admins, rolled up from the per-class summaries
+   */
+  static async getSchoolAnalytics(schoolId: string, days: number): Promise<SchoolAnalytics> {
+    const classes = await this.getSchoolClasses(schoolId);
+    const filters = { classIds: classes.map(cls => cls.id), days };
+
+    const [classSummaries, scoreTrend, weakSkills] = await Promise.all([
+      TeacherAnalyticsService.getClassSummaries(filters),
+      TeacherAnalyticsService.getScoreTrend(filters),
+      TeacherAnalyticsService.getWeakSkills(filters, 10)
+    ]);
+
+    const departments = new Map<string, ClassSummary[]>();
+    const teachers = new Map<string, ClassSummary[]>();
+    for (const summary of classSummaries) {
+      const department = summary.department || NO_DEPARTMENT;
+      departments.set(department, [...(departments.get(department) || []), summary]);
+      const teacherKey = summary.teacherId || summary.teacher;
+      teachers.set(teacherKey, [...(teachers.get(teacherKey) || []), summary]);
+    }
+
+    return {
+      classCount: classSummaries.length,
+      teacherCount: teachers.size,
+      studentCount: classSummaries.reduce((sum, summary) => sum + summary.studentCount, 0),
+      testCount: classSummaries.reduce((sum, summary) => sum + summary.testCount, 0),
+      averageScore: this.weightedAverage(classSummaries),
+      classes: classSummaries,
+      departments: [...departments.entries()]
+        .map(([department, summaries]) => ({
+          department,
+          classCount: summaries.length,
+          teacherCount: new Set(summaries.map(summary => summary.teacherId || summary.teacher)).size,
+          studentCount: summaries.reduce((sum, summary) => sum + summary.studentCount, 0),
+          testCount: summaries.reduce((sum, summary) => sum + summary.testCount, 0),
+          averageScore: this.weightedAverage(summaries)
+        }))
+        .sort((a, b) => a.department.localeCompare(b.department)),
+      teachers: [...teachers.values()]
+        .map(summaries => ({
+          teacherId: summaries[0].teacherId,
+          teacher: summaries[0].teacher,
+          classCount: summaries.length,
+          testCount: summaries.reduce((sum, summary) => sum + summary.testCount, 0),
+          averageScore: this.weightedAverage(summaries)
+        }))
+        .sort((a, b) => a.teacher.localeCompare(b.teacher)),
+      scoreTrend,
+      weakSkills
+    };
+  }
+
+  // Average test score across classes, weighted by how many tests each class took
+  private static weightedAverage(summaries: ClassSummary[]): number | null {
+    const graded = summaries.filter(summary => summary.averageScore !== null && summary.testCount > 0);
+    const tests = graded.reduce((sum, summary) => sum + summary.testCount, 0);
+    if (tests === 0) return null;
+    const total = graded.reduce((sum, summary) => sum + (summary.averageScore as number) * summary.testCount, 0);
+    return Math.round((total / tests) * 10) / 10;
+  }
+}
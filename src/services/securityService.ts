@@ -432,6 +432,84 @@ export class SecurityService {
     return [...this.auditLog];
   }
 
+  /**
+   * Audit events recorded for this user, read from the persisted audit_events table
+   */
+  static async getRecentAuditEvents(limit: number = 50): Promise<AuditEntry[]> {
+    const { data, error } = await supabase
+      .from('audit_events')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch audit events: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.client_event_id,
+      userId: row.user_id || undefined,
+      sessionId: row.session_id || 'anonymous',
+      action: row.action,
+      resource: row.resource,
+      details: (row.details as Record<string, unknown>) || {},
+      timestamp: new Date(row.occurred_at).getTime(),
+      ipAddress: row.ip_address || undefined,
+      userAgent: row.user_agent || undefined,
+      success: row.success,
+      riskScore: row.risk_score
+    }));
+  }
+
+  /**
+   * Security scans recorded for this user's uploads
+   */
+  static async getRecentSecurityScans(limit: number = 50): Promise<SecurityScan[]> {
+    const { data, error } = await supabase
+      .from('security_scans')
+      .select('*')
+      .order('scanned_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch security scans: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      fileHash: row.file_hash,
+      fileName: row.file_name,
+      fileSize: Number(row.file_size),
+      scanResults: {
+        malwareDetected: row.malware_detected,
+        suspiciousContent: row.suspicious_content,
+        contentType: row.content_type || '',
+        riskLevel: row.risk_level as SecurityScan['scanResults']['riskLevel'],
+        threats: row.threats,
+        recommendations: row.recommendations
+      },
+      timestamp: new Date(row.scanned_at).getTime(),
+      scanDuration: Number(row.scan_duration_ms || 0)
+    }));
+  }
+
+  /**
+   * Most recently generated compliance report, if any
+   */
+  static async getLatestComplianceReport(): Promise<ComplianceReport | null> {
+    const { data, error } = await supabase
+      .from('compliance_reports')
+      .select('report')
+      .order('generated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch compliance report: ${error.message}`);
+    }
+
+    return (data?.report as unknown as ComplianceReport) || null;
+  }
+
   static clearAuditLog(): void {
     this.auditLog = [];
   }
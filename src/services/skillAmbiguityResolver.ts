@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import { AIModelRouter } from "./aiModelRouter";
 
 export interface SkillAmbiguityResult {
   questionNumber: number;
@@ -82,6 +83,11 @@ export class SkillAmbiguityResolver {
         ...preClassifiedSkills.subjectSkills.map(s => s.name)
       ];
 
+      if (await AIModelRouter.refreshBudgetStatus() === 'local_only') {
+        console.log(`💰 AI budget exhausted - keeping pre-classified skills for Q${questionNumber}`);
+        return this.createFallbackResultWithPreClassification(questionNumber, originalDetection, preClassifiedSkills);
+      }
+
       const escalationPrompt = this.createEscalationPromptWithPreClassification(
         questionText,
         studentAnswer,
@@ -98,7 +104,7 @@ export class SkillAmbiguityResolver {
           studentAnswer,
           preClassifiedSkills,
           escalationPrompt,
-          model: this.config.escalationModel
+          routedModel: AIModelRouter.applyBudget(this.config.escalationModel)
         }
       });
 
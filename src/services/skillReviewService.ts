@@ -0,0 +1,362 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  createContentSkill,
+  getLinkedContentSkillsForClass,
+  getLinkedSubjectSkillsForClass,
+  linkClassToContentSkills,
+  linkClassToSubjectSkills
+} from "./examService";
+
+export type ProposedSkillType = 'content' | 'subject';
+
+export interface SkillProposal {
+  id: string;
+  class_id: string;
+  exam_id: string;
+  skill_name: string;
+  skill_description: string;
+  skill_type: ProposedSkillType;
+  topic: string | null;
+  subject: string;
+  grade: string;
+  confidence: number;
+  reasoning: string;
+  context_evidence: string;
+  question_numbers: number[];
+  status: string;
+  created_at: string;
+}
+
+export interface AutoCreatedSkill {
+  id: string;
+  class_id: string;
+  exam_id: string;
+  skill_id: string;
+  skill_name: string;
+  skill_description: string;
+  skill_type: ProposedSkillType;
+  confidence: number;
+  reasoning: string;
+  auto_created_at: string;
+}
+
+export interface SkillTarget {
+  id: string;
+  skill_name: string;
+}
+
+export interface ProposalEdits {
+  skillName?: string;
+  skillDescription?: string;
+  topic?: string;
+}
+
+/**
+ * Service for the teacher review queue of skills proposed by exam skill analysis,
+ * and for undoing skills the analysis created on its own
+ */
+export class SkillReviewService {
+
+  /**
+   * Get proposals still waiting for a teacher decision, grouped in exam order
+   */
+  static async getPendingProposals(classId: string): Promise<SkillProposal[]> {
+    const { data, error } = await supabase
+      .from('skill_review_queue')
+      .select('*')
+      .eq('class_id', classId)
+      .eq('status', 'pending')
+      .order('exam_id')
+      .order('confidence', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching skill review queue:', error);
+      throw new Error(`Failed to fetch skill review queue: ${error.message}`);
+    }
+
+    return (data || []) as SkillProposal[];
+  }
+
+  /**
+   * Get skills the analysis created automatically that haven't been undone
+   */
+  static async getAutoCreatedSkills(classId: string): Promise<AutoCreatedSkill[]> {
+    const { data, error } = await supabase
+      .from('skill_auto_creation_log')
+      .select('*')
+      .eq('class_id', classId)
+      .is('undone_at', null)
+      .order('auto_created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching auto-created skills:', error);
+      throw new Error(`Failed to fetch auto-created skills: ${error.message}`);
+    }
+
+    return (data || []) as AutoCreatedSkill[];
+  }
+
+  /**
+   * Create the proposed skill, link it to the class and map the questions that prompted it
+   */
+  static async approveProposal(proposal: SkillProposal, reviewerId: string, edits: ProposalEdits = {}): Promise<SkillTarget> {
+    console.log('✅ Approving proposed skill:', proposal.skill_name);
+
+    const skillName = edits.skillName?.trim() || proposal.skill_name;
+    const skillDescription = edits.skillDescription?.trim() || proposal.skill_description;
+
+    let createdSkill: SkillTarget;
+    if (proposal.skill_type === 'content') {
+      createdSkill = await createContentSkill({
+        skill_name: skillName,
+        skill_description: skillDescription,
+        topic: edits.topic?.trim() || proposal.topic || 'General',
+        subject: proposal.subject,
+        grade: proposal.grade
+      });
+    } else {
+      const { data, error } = await supabase
+        .from('subject_skills')
+        .insert({
+          skill_name: skillName,
+          skill_description: skillDescription,
+          subject: proposal.subject,
+          grade: proposal.grade
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating subject skill:', error);
+        throw new Error(`Failed to create subject skill: ${error.message}`);
+      }
+      createdSkill = data;
+    }
+
+    await this.linkSkillToClass(proposal.class_id, proposal.skill_type, createdSkill.id);
+    await this.mapQuestionsToSkill(proposal, createdSkill);
+    await this.markReviewed(proposal.id, 'approved', reviewerId, null, createdSkill.id, proposal.skill_type);
+
+    return createdSkill;
+  }
+
+  /**
+   * Treat the proposal as an existing skill: map its questions there instead of creating a new one
+   */
+  static async mergeProposal(proposal: SkillProposal, target: SkillTarget, reviewerId: string, notes?: string): Promise<void> {
+    console.log(`🔀 Merging proposed skill "${proposal.skill_name}" into "${target.skill_name}"`);
+
+    await this.mapQuestionsToSkill(proposal, target);
+    await this.markReviewed(proposal.id, 'merged', reviewerId, notes || `Merged into ${target.skill_name}`, target.id, proposal.skill_type);
+  }
+
+  /**
+   * Reject a proposal, keeping the teacher's notes for future analysis runs
+   */
+  static async rejectProposal(proposal: SkillProposal, reviewerId: string, notes: string): Promise<void> {
+    console.log('🚫 Rejecting proposed skill:', proposal.skill_name);
+
+    await this.markReviewed(proposal.id, 'rejected', reviewerId, notes || null, null, null);
+  }
+
+  /**
+   * Undo an auto-created skill: move its past scores and question mappings onto an
+   * existing skill, unlink it from the class and remove it if nothing else uses it
+   */
+  static async undoAutoCreatedSkill(entry: AutoCreatedSkill, target: SkillTarget, reviewerId: string): Promise<void> {
+    console.log(`↩️ Undoing auto-created skill "${entry.skill_name}", remapping to "${target.skill_name}"`);
+
+    const { data: classResults, error: resultsError } = await supabase
+      .from('test_results')
+      .select('id')
+      .eq('class_id', entry.class_id);
+
+    if (resultsError) {
+      throw new Error(`Failed to fetch class test results: ${resultsError.message}`);
+    }
+
+    const skillTable = entry.skill_type === 'content' ? 'content_skill_scores' : 'subject_skill_scores';
+    const testResultIds = (classResults || []).map(result => result.id);
+    if (testResultIds.length > 0) {
+      const { error: remapError } = await supabase
+        .from(skillTable)
+        .update({ skill_name: target.skill_name })
+        .eq('skill_name', entry.skill_name)
+        .in('test_result_id', testResultIds);
+
+      if (remapError) {
+        console.error('Error remapping skill scores:', remapError);
+        throw new Error(`Failed to remap skill scores: ${remapError.message}`);
+      }
+    }
+
+    // Practice exercises record their scores against a practice test result with no
+    // class, so they are found through the class sessions they were assigned in
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('class_sessions')
+      .select('id')
+      .eq('class_id', entry.class_id);
+
+    if (sessionsError) {
+      throw new Error(`Failed to fetch class sessions: ${sessionsError.message}`);
+    }
+
+    const sessionIds = (sessions || []).map(session => session.id);
+    if (sessionIds.length > 0) {
+      const { data: exercises, error: exercisesError } = await supabase
+        .from('student_exercises')
+        .select('id')
+        .in('class_session_id', sessionIds);
+
+      if (exercisesError) {
+        throw new Error(`Failed to fetch practice exercises: ${exercisesError.message}`);
+      }
+
+      const exerciseIds = (exercises || []).map(exercise => exercise.id);
+      if (exerciseIds.length > 0) {
+        const { error: exerciseRemapError } = await supabase
+          .from('student_exercises')
+          .update({ skill_name: target.skill_name })
+          .eq('skill_name', entry.skill_name)
+          .in('id', exerciseIds);
+
+        if (exerciseRemapError) {
+          console.error('Error remapping practice exercises:', exerciseRemapError);
+          throw new Error(`Failed to remap practice exercises: ${exerciseRemapError.message}`);
+        }
+
+        const { error: practiceRemapError } = await supabase
+          .from(skillTable)
+          .update({ skill_name: target.skill_name })
+          .eq('skill_name', entry.skill_name)
+          .in('practice_exercise_id', exerciseIds);
+
+        if (practiceRemapError) {
+          console.error('Error remapping practice skill scores:', practiceRemapError);
+          throw new Error(`Failed to remap practice skill scores: ${practiceRemapError.message}`);
+        }
+      }
+    }
+
+    const { error: mappingError } = await supabase
+      .from('exam_skill_mappings')
+      .update({ skill_id: target.id, skill_name: target.skill_name, auto_created_skill: false })
+      .eq('skill_id', entry.skill_id);
+
+    if (mappingError) {
+      console.error('Error remapping exam skill mappings:', mappingError);
+      throw new Error(`Failed to remap exam skill mappings: ${mappingError.message}`);
+    }
+
+    await this.unlinkSkillFromClass(entry.class_id, entry.skill_type, entry.skill_id);
+    await this.deleteSkillIfUnused(entry.skill_type, entry.skill_id);
+
+    const { error: logError } = await supabase
+      .from('skill_auto_creation_log')
+      .update({
+        undone_at: new Date().toISOString(),
+        undone_by: reviewerId,
+        remapped_to_skill_id: target.id
+      })
+      .eq('id', entry.id);
+
+    if (logError) {
+      console.error('Error updating auto-creation log:', logError);
+      throw new Error(`Failed to update auto-creation log: ${logError.message}`);
+    }
+  }
+
+  private static async linkSkillToClass(classId: string, skillType: ProposedSkillType, skillId: string): Promise<void> {
+    // The link helpers replace the class's whole skill set, so carry the existing links over
+    if (skillType === 'content') {
+      const linked = await getLinkedContentSkillsForClass(classId);
+      await linkClassToContentSkills(classId, [...linked.map(skill => skill.id), skillId]);
+    } else {
+      const linked = await getLinkedSubjectSkillsForClass(classId);
+      await linkClassToSubjectSkills(classId, [...linked.map(skill => skill.id), skillId]);
+    }
+  }
+
+  private static async unlinkSkillFromClass(classId: string, skillType: ProposedSkillType, skillId: string): Promise<void> {
+    if (skillType === 'content') {
+      const linked = await getLinkedContentSkillsForClass(classId);
+      await linkClassToContentSkills(classId, linked.map(skill => skill.id).filter(id => id !== skillId));
+    } else {
+      const linked = await getLinkedSubjectSkillsForClass(classId);
+      await linkClassToSubjectSkills(classId, linked.map(skill => skill.id).filter(id => id !== skillId));
+    }
+  }
+
+  private static async deleteSkillIfUnused(skillType: ProposedSkillType, skillId: string): Promise<void> {
+    const { count } = skillType === 'content'
+      ? await supabase
+          .from('class_content_skills')
+          .select('id', { count: 'exact', head: true })
+          .eq('content_skill_id', skillId)
+      : await supabase
+          .from('class_subject_skills')
+          .select('id', { count: 'exact', head: true })
+          .eq('subject_skill_id', skillId);
+
+    if (count && count > 0) return;
+
+    const { error } = await supabase
+      .from(skillType === 'content' ? 'content_skills' : 'subject_skills')
+      .delete()
+      .eq('id', skillId);
+
+    if (error) {
+      // Leaving an orphaned skill behind is harmless; it just won't be linked anywhere
+      console.warn('⚠️ Could not delete undone skill:', error);
+    }
+  }
+
+  private static async mapQuestionsToSkill(proposal: SkillProposal, skill: SkillTarget): Promise<void> {
+    if (proposal.question_numbers.length === 0) return;
+
+    const { error } = await supabase
+      .from('exam_skill_mappings')
+      .insert(proposal.question_numbers.map(questionNumber => ({
+        exam_id: proposal.exam_id,
+        question_number: questionNumber,
+        skill_type: proposal.skill_type,
+        skill_id: skill.id,
+        skill_name: skill.skill_name,
+        skill_weight: 1.0,
+        confidence: proposal.confidence,
+        suggested_skill_name: proposal.skill_name,
+        suggested_skill_description: proposal.skill_description
+      })));
+
+    if (error) {
+      console.error('Error mapping questions to skill:', error);
+      throw new Error(`Failed to map questions to skill: ${error.message}`);
+    }
+  }
+
+  private static async markReviewed(
+    proposalId: string,
+    status: 'approved' | 'merged' | 'rejected',
+    reviewerId: string,
+    notes: string | null,
+    skillId: string | null,
+    skillType: ProposedSkillType | null
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('skill_review_queue')
+      .update({
+        status,
+        reviewed_by: reviewerId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes,
+        created_skill_id: skillId,
+        created_skill_type: skillType
+      })
+      .eq('id', proposalId);
+
+    if (error) {
+      console.error('Error updating skill review queue:', error);
+      throw new Error(`Failed to update skill review: ${error.message}`);
+    }
+  }
+}
@@ -1,18 +1,23 @@
 
 import { supabase } from '@/integrations/supabase/client';
+import type { RubricCriterionScore } from './rubricService';
+import { MathAnswerGradingService, type MathAnswerSpec } from './mathAnswerGradingService';
 
 export interface GradingResult {
   isCorrect: boolean;
   score: number; // 0-1 for partial credit
   confidence: number;
   feedback?: string;
-  method: 'exact_match' | 'flexible_match' | 'ai_graded';
+  method: 'exact_match' | 'flexible_match' | 'numeric_match' | 'expression_match' | 'structured_match' | 'ai_graded';
+  criterionScores?: RubricCriterionScore[];
 }
 
 export interface AnswerPattern {
   text: string;
   keywords?: string[];
   acceptableVariations?: string[];
+  rubricId?: string; // Score against a teacher rubric instead of matching the text
+  mathSpec?: MathAnswerSpec; // Grade as a number or expression instead of matching the text
 }
 
 export class SmartAnswerGradingService {
@@ -41,9 +46,17 @@ export class SmartAnswerGradingService {
       };
     }
 
-    // Try exact and flexible matching first
+    const rubricId = typeof correctAnswer === 'string' ? undefined : correctAnswer.rubricId;
+
+    // Numbers and expressions are compared by value, never by text similarity or AI
+    const mathResult = rubricId ? null : this.tryMathGrading(studentAnswer, correctAnswer);
+    if (mathResult) {
+      return mathResult;
+    }
+
+    // Try exact and flexible matching first; rubric criteria always need AI judgement
     const localResult = this.tryLocalGrading(normalizedStudentAnswer, correctAnswer);
-    if (localResult.confidence >= this.SIMILARITY_THRESHOLD) {
+    if (!rubricId && localResult.confidence >= this.SIMILARITY_THRESHOLD) {
       return localResult;
     }
 
@@ -65,6 +78,32 @@ export class SmartAnswerGradingService {
     }
   }
 
+  /**
+   * Grade numeric and expression answers locally. Returns null when the answer key is
+   * not math (or can't be read as such) so text matching takes over.
+   */
+  private static tryMathGrading(
+    studentAnswer: string,
+    correctAnswer: string | AnswerPattern
+  ): GradingResult | null {
+    const correctText = typeof correctAnswer === 'string' ? correctAnswer : correctAnswer.text;
+    const spec = typeof correctAnswer === 'string' || !correctAnswer.mathSpec
+      ? MathAnswerGradingService.detectAnswerSpec({ correct_answer: correctText })
+      : correctAnswer.mathSpec;
+    if (!spec) return null;
+
+    const result = MathAnswerGradingService.grade(studentAnswer, correctText, spec);
+    if (result.confidence === 0) return null;
+
+    return {
+      isCorrect: result.isCorrect,
+      score: result.score,
+      confidence: result.confidence,
+      feedback: result.feedback,
+      method: spec.kind === 'numeric' ? 'numeric_match' : 'expression_match'
+    };
+  }
+
   /**
    * Normalize answer text for comparison
    */
@@ -245,7 +284,8 @@ export class SmartAnswerGradingService {
         correctAnswer: correctText,
         pointsPossible: 1,
         questionNumber: questionId || '1',
-        skillContext: 'short_answer_grading'
+        skillContext: 'short_answer_grading',
+        rubricId: typeof correctAnswer === 'string' ? undefined : correctAnswer.rubricId
       }
     });
 
@@ -260,7 +300,8 @@ export class SmartAnswerGradingService {
       score: aiScore,
       confidence: data.confidence || 0.7,
       feedback: data.reasoning || 'AI-graded answer',
-      method: 'ai_graded'
+      method: 'ai_graded',
+      criterionScores: data.criterionScores
     };
   }
 
@@ -0,0 +1,303 @@
+import { MathAnswerGradingService } from './mathAnswerGradingService';
+
+export type StructuredQuestionType = 'multi-select' | 'matching' | 'ordering' | 'fill-in-blank';
+
+export interface MatchPair {
+  prompt: string;
+  answer: string;
+}
+
+/**
+ * The answer-bearing fields of a multi-select, matching, ordering or fill-in-the-blank question
+ */
+export interface StructuredQuestion {
+  type: StructuredQuestionType;
+  question?: string;
+  options?: string[]; // Multi-select choices; ordering items in their correct order
+  correctAnswers?: string[]; // Multi-select correct options; one entry per blank, alternatives split by "|"
+  matchPairs?: MatchPair[];
+}
+
+export interface StructuredGradingResult {
+  isCorrect: boolean;
+  score: number; // 0-1 for partial credit
+  confidence: number;
+  feedback: string;
+  partsCorrect: number;
+  partsTotal: number;
+}
+
+export const STRUCTURED_QUESTION_TYPES: StructuredQuestionType[] = ['multi-select', 'matching', 'ordering', 'fill-in-blank'];
+
+// Three or more underscores mark a blank in fill-in-the-blank question text
+const BLANK_PATTERN = /_{3,}/g;
+
+/**
+ * Layout, answer-key serialization and deterministic local grading for the structured
+ * question types. Students answer with option letters (multi-select, matching, ordering)
+ * or one response per blank, so paper and on-screen answers grade the same way.
+ */
+export class StructuredQuestionService {
+  static isStructuredType(type: string | null | undefined): type is StructuredQuestionType {
+    return STRUCTURED_QUESTION_TYPES.includes(type as StructuredQuestionType);
+  }
+
+  static optionLabel(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
+  static countBlanks(text: string): number {
+    return (text.match(BLANK_PATTERN) || []).length;
+  }
+
+  /**
+   * Split fill-in-the-blank text around its blanks: n blanks give n + 1 segments
+   */
+  static splitBlanks(text: string): string[] {
+    return text.split(BLANK_PATTERN);
+  }
+
+  /**
+   * Deterministic shuffle seeded by the items themselves, so the printed sheet, the answer
+   * key and the grader always agree on which letter is which. Never returns the input order.
+   */
+  static displayOrder(items: string[]): string[] {
+    if (items.length < 2) return [...items];
+
+    let seed = 0;
+    for (const char of items.join('\u0000')) {
+      seed = (seed * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    const random = () => {
+      seed = (seed * 1664525 + 1013904223) >>> 0;
+      return seed / 4294967296;
+    };
+
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    if (shuffled.every((item, index) => item === items[index])) {
+      shuffled.push(shuffled.shift() as string);
+    }
+    return shuffled;
+  }
+
+  /**
+   * Whether the teacher has filled in enough of the question to grade it
+   */
+  static hasAnswer(question: StructuredQuestion): boolean {
+    switch (question.type) {
+      case 'multi-select':
+        return !!question.options?.length && !!question.correctAnswers?.length;
+      case 'matching':
+        return !!question.matchPairs?.length && question.matchPairs.every(pair => pair.prompt.trim() && pair.answer.trim());
+      case 'ordering':
+        return (question.options?.length || 0) >= 2;
+      case 'fill-in-blank': {
+        const blanks = this.countBlanks(question.question || '');
+        return blanks > 0 && (question.correctAnswers?.filter(answer => answer.trim()).length || 0) >= blanks;
+      }
+    }
+  }
+
+  /**
+   * The correct response in the form a student writes it, e.g. "A, C" or "1-B, 2-A"
+   */
+  static formatCorrectAnswer(question: StructuredQuestion): string {
+    switch (question.type) {
+      case 'multi-select':
+        return (question.options || [])
+          .map((option, index) => (question.correctAnswers?.includes(option) ? this.optionLabel(index) : null))
+          .filter(Boolean)
+          .join(', ');
+      case 'matching': {
+        const pairs = question.matchPairs || [];
+        const answers = this.displayOrder(pairs.map(pair => pair.answer));
+        return pairs.map((pair, index) => `${index + 1}-${this.optionLabel(answers.indexOf(pair.answer))}`).join(', ');
+      }
+      case 'ordering': {
+        const items = question.options || [];
+        const shown = this.displayOrder(items);
+        return items.map(item => this.optionLabel(shown.indexOf(item))).join(', ');
+      }
+      case 'fill-in-blank':
+        return (question.correctAnswers || []).join(' | ');
+    }
+  }
+
+  /**
+   * answer_keys columns for a structured question; the structure lives in the options JSON
+   */
+  static toAnswerKeyFields(question: StructuredQuestion): { correct_answer: string; options: Record<string, unknown> } {
+    return {
+      correct_answer: this.formatCorrectAnswer(question),
+      options: {
+        options: question.options,
+        correctAnswers: question.correctAnswers,
+        matchPairs: question.matchPairs
+      }
+    };
+  }
+
+  /**
+   * Rebuild a structured question from an answer_keys row, or null for other question types
+   */
+  static fromAnswerKey(answerKey: { question_type?: string | null; question_text?: string | null; options?: unknown } | null | undefined): StructuredQuestion | null {
+    const type = answerKey?.question_type?.toLowerCase();
+    if (!this.isStructuredType(type)) return null;
+
+    const stored = (answerKey?.options || {}) as Partial<StructuredQuestion>;
+    return {
+      type,
+      question: answerKey?.question_text || '',
+      options: Array.isArray(stored.options) ? stored.options.map(String) : undefined,
+      correctAnswers: Array.isArray(stored.correctAnswers) ? stored.correctAnswers.map(String) : undefined,
+      matchPairs: Array.isArray(stored.matchPairs) ? stored.matchPairs : undefined
+    };
+  }
+
+  static grade(question: StructuredQuestion, response: string | string[]): StructuredGradingResult {
+    const responses = this.parseResponse(response, question.type);
+    if (responses.every(part => !part)) {
+      return { isCorrect: false, score: 0, confidence: 1, feedback: 'No answer provided', partsCorrect: 0, partsTotal: 0 };
+    }
+
+    switch (question.type) {
+      case 'multi-select':
+        return this.gradeMultiSelect(question, responses);
+      case 'matching':
+        return this.gradeMatching(question, responses);
+      case 'ordering':
+        return this.gradeOrdering(question, responses);
+      case 'fill-in-blank':
+        return this.gradeBlanks(question, responses);
+    }
+  }
+
+  /**
+   * Split a response into parts: letters/items on commas, blanks on "|" or new lines.
+   * Matching also accepts "1-B, 2-A" and places each letter at its prompt's position.
+   */
+  private static parseResponse(response: string | string[], type: StructuredQuestionType): string[] {
+    if (Array.isArray(response)) return response.map(part => part.trim());
+
+    if (type === 'fill-in-blank') {
+      return response.split(/\s*(?:\||\n)\s*/).map(part => part.trim());
+    }
+
+    const parts = response.split(/\s*[,;\n]\s*/).map(part => part.trim()).filter(Boolean);
+    // "ACD" from a bubble sheet
+    if (parts.length === 1 && /^[A-Z]{2,}$/.test(parts[0])) {
+      return parts[0].split('');
+    }
+
+    if (type === 'matching' && parts.length > 0 && parts.every(part => /^\d+\s*[-:=)]\s*\S/.test(part))) {
+      const placed: string[] = [];
+      parts.forEach(part => {
+        const match = part.match(/^(\d+)\s*[-:=)]\s*(.+)$/) as RegExpMatchArray;
+        placed[Number(match[1]) - 1] = match[2].trim();
+      });
+      return Array.from(placed, part => part || '');
+    }
+    return parts;
+  }
+
+  private static normalize(text: string): string {
+    return text.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[.!?]+$/, '');
+  }
+
+  /**
+   * Map a letter (or the item's own text) to an item in the displayed list
+   */
+  private static resolveItem(part: string, shown: string[]): string | null {
+    if (/^[A-Za-z]$/.test(part)) {
+      const index = part.toUpperCase().charCodeAt(0) - 65;
+      if (index < shown.length) return shown[index];
+    }
+    const normalized = this.normalize(part);
+    return shown.find(item => this.normalize(item) === normalized) ?? null;
+  }
+
+  private static partialResult(partsCorrect: number, partsTotal: number, noun: string): StructuredGradingResult {
+    const score = partsTotal > 0 ? partsCorrect / partsTotal : 0;
+    return {
+      isCorrect: partsTotal > 0 && partsCorrect === partsTotal,
+      score,
+      confidence: 0.95,
+      feedback: partsCorrect === partsTotal
+        ? 'Correct answer!'
+        : `${partsCorrect} of ${partsTotal} ${noun} correct`,
+      partsCorrect,
+      partsTotal
+    };
+  }
+
+  /**
+   * Each correct choice earns 1/n; each wrong choice takes 1/n back, floored at zero
+   */
+  private static gradeMultiSelect(question: StructuredQuestion, responses: string[]): StructuredGradingResult {
+    const options = question.options || [];
+    const correct = new Set(question.correctAnswers || []);
+    const selected = new Set(responses.map(part => this.resolveItem(part, options)).filter((item): item is string => item !== null));
+
+    const hits = [...selected].filter(item => correct.has(item)).length;
+    const wrong = selected.size - hits;
+    const score = correct.size > 0 ? Math.max(0, (hits - wrong) / correct.size) : 0;
+    const isCorrect = hits === correct.size && wrong === 0;
+
+    const notes: string[] = [];
+    if (hits < correct.size) notes.push(`${hits} of ${correct.size} correct choices selected`);
+    if (wrong > 0) notes.push(`${wrong} incorrect choice${wrong === 1 ? '' : 's'} selected`);
+
+    return {
+      isCorrect,
+      score,
+      confidence: 0.95,
+      feedback: isCorrect ? 'Correct answer!' : notes.join(', '),
+      partsCorrect: hits,
+      partsTotal: correct.size
+    };
+  }
+
+  private static gradeMatching(question: StructuredQuestion, responses: string[]): StructuredGradingResult {
+    const pairs = question.matchPairs || [];
+    const answers = this.displayOrder(pairs.map(pair => pair.answer));
+    const matched = pairs.filter((pair, index) => {
+      const part = responses[index];
+      return !!part && this.resolveItem(part, answers) === pair.answer;
+    }).length;
+    return this.partialResult(matched, pairs.length, 'matches');
+  }
+
+  /**
+   * One part per item in its correct position
+   */
+  private static gradeOrdering(question: StructuredQuestion, responses: string[]): StructuredGradingResult {
+    const items = question.options || [];
+    const shown = this.displayOrder(items);
+    const placed = items.filter((item, index) => {
+      const part = responses[index];
+      return !!part && this.resolveItem(part, shown) === item;
+    }).length;
+    return this.partialResult(placed, items.length, 'items in the right position');
+  }
+
+  private static gradeBlanks(question: StructuredQuestion, responses: string[]): StructuredGradingResult {
+    const blanks = question.correctAnswers || [];
+    const filled = blanks.filter((accepted, index) => {
+      const part = responses[index];
+      return !!part && accepted.split('|').some(alternative => this.blankMatches(part, alternative.trim()));
+    }).length;
+    return this.partialResult(filled, blanks.length, 'blanks');
+  }
+
+  private static blankMatches(response: string, accepted: string): boolean {
+    if (this.normalize(response) === this.normalize(accepted)) return true;
+    // "0.5" fills a "1/2" blank
+    return MathAnswerGradingService.isNumericAnswer(accepted) &&
+      MathAnswerGradingService.gradeNumeric(response, accepted).isCorrect;
+  }
+}
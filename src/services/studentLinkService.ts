@@ -14,6 +14,7 @@ export interface StudentLink {
   expires_at: string;
   max_attempts: number;
   current_attempts: number;
+  attempts_per_student: boolean; // max_attempts applies to each signed-in student, not the whole link
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -23,6 +24,7 @@ export interface StudentQuizSession {
   id: string;
   student_link_id: string;
   student_name: string;
+  authenticated_student_id?: string;
   started_at: string;
   completed_at?: string;
   current_question: number;
@@ -54,6 +56,7 @@ export const createStudentLink = async (linkData: {
   description?: string;
   expires_at: string;
   max_attempts: number;
+  attempts_per_student?: boolean;
 }): Promise<StudentLink> => {
   try {
     console.log('Creating student link:', linkData);
@@ -73,6 +76,7 @@ export const createStudentLink = async (linkData: {
         description: linkData.description,
         expires_at: linkData.expires_at,
         max_attempts: linkData.max_attempts,
+        attempts_per_student: linkData.attempts_per_student ?? false,
         current_attempts: 0,
         is_active: true
       })
@@ -115,6 +119,7 @@ export const getStudentLinkByToken = async (token: string): Promise<StudentLink
   }
 };
 
+// The database checks the attempt limit and records the attempt with the new session
 export const createQuizSession = async (sessionData: {
   student_link_id: string;
   student_name: string;
@@ -122,21 +127,14 @@ export const createQuizSession = async (sessionData: {
   try {
     console.log('Creating quiz session:', sessionData);
     
-    const { data, error } = await supabase
-      .from('student_quiz_sessions')
-      .insert({
-        student_link_id: sessionData.student_link_id,
-        student_name: sessionData.student_name,
-        current_question: 1,
-        answers: {},
-        is_submitted: false
-      })
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('start_quiz_session', {
+      p_link_id: sessionData.student_link_id,
+      p_student_name: sessionData.student_name
+    });
 
     if (error) {
       console.error('Error creating quiz session:', error);
-      throw new Error(`Failed to create quiz session: ${error.message}`);
+      throw new Error(error.message);
     }
 
     console.log('Quiz session created successfully:', data);
@@ -174,14 +172,16 @@ export const updateQuizSession = async (
   }
 };
 
-export const getTeacherQuizLinks = async (teacherName: string): Promise<StudentLink[]> => {
+// Links the teacher created plus any made for classes shared with them
+export const getTeacherQuizLinks = async (teacherName: string, sharedClassIds: string[] = []): Promise<StudentLink[]> => {
   try {
     console.log('Fetching quiz links for teacher:', teacherName);
     
+    const byTeacher = `teacher_name.eq.${JSON.stringify(teacherName)}`;
     const { data, error } = await supabase
       .from('student_links')
       .select('*')
-      .eq('teacher_name', teacherName)
+      .or(sharedClassIds.length > 0 ? `${byTeacher},class_id.in.(${sharedClassIds.join(',')})` : byTeacher)
       .eq('link_type', 'quiz')
       .order('created_at', { ascending: false });
 
@@ -197,39 +197,6 @@ export const getTeacherQuizLinks = async (teacherName: string): Promise<StudentL
   }
 };
 
-export const incrementLinkAttempts = async (linkId: string): Promise<void> => {
-  try {
-    console.log('Incrementing attempts for link:', linkId);
-    
-    // Get current attempts and increment manually
-    const { data: currentLink, error: fetchError } = await supabase
-      .from('student_links')
-      .select('current_attempts')
-      .eq('id', linkId)
-      .single();
-
-    if (fetchError) {
-      console.error('Error fetching current attempts:', fetchError);
-      throw new Error(`Failed to fetch current attempts: ${fetchError.message}`);
-    }
-
-    const { error: updateError } = await supabase
-      .from('student_links')
-      .update({ current_attempts: (currentLink.current_attempts || 0) + 1 })
-      .eq('id', linkId);
-
-    if (updateError) {
-      console.error('Error incrementing link attempts:', updateError);
-      throw new Error(`Failed to increment attempts: ${updateError.message}`);
-    }
-
-    console.log('Link attempts incremented successfully');
-  } catch (error) {
-    console.error('Error in incrementLinkAttempts:', error);
-    throw error;
-  }
-};
-
 // Helper function to generate unique tokens
 const generateToken = (): string => {
   return Math.random().toString(36).substring(2) + 
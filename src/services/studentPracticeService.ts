@@ -1,6 +1,7 @@
 
 import { supabase } from "@/integrations/supabase/client";
 import { practiceExerciseSkillService } from "./practiceExerciseSkillService";
+import { AdaptiveLearningService, type ExplanationStyle } from "./adaptiveLearningService";
 
 export interface StudentPracticeRequest {
   studentId: string; // Now expects authenticated user ID
@@ -11,8 +12,9 @@ export interface StudentPracticeRequest {
   className: string;
   subject: string;
   grade: string;
-  preferredDifficulty?: 'adaptive' | 'review' | 'challenge';
+  preferredDifficulty?: 'adaptive' | 'review' | 'mixed' | 'challenge';
   questionCount?: number;
+  explanationStyle?: ExplanationStyle;
 }
 
 export interface StudentPracticeExercise {
@@ -44,6 +46,7 @@ export interface StudentPracticeExercise {
     studentName: string;
     className: string;
     sessionId: string;
+    explanationStyle?: string;
     skillType?: string;
     skillMetadata?: any;
   };
@@ -88,9 +91,21 @@ export class StudentPracticeService {
   static async generatePracticeExercise(request: StudentPracticeRequest): Promise<StudentPracticeExercise> {
     try {
       console.log('🎯 Generating student practice exercise for authenticated user:', request.studentId);
-      
+
+      // Anything the caller didn't pin down comes from the student's adaptive profile
+      const plan = await AdaptiveLearningService.getPracticePlan(request.studentId, request.skillName, request.currentSkillScore);
+      const adaptiveRequest: StudentPracticeRequest = {
+        ...request,
+        preferredDifficulty: !request.preferredDifficulty || request.preferredDifficulty === 'adaptive'
+          ? plan.difficulty
+          : request.preferredDifficulty,
+        questionCount: request.questionCount || plan.questionCount,
+        explanationStyle: request.explanationStyle || plan.explanationStyle
+      };
+      await AdaptiveLearningService.logRecommendation(request.studentId, request.skillName, request.currentSkillScore, plan, 'practice_generation');
+
       const { data, error } = await supabase.functions.invoke('generate-student-practice-exercise', {
-        body: request
+        body: adaptiveRequest
       });
 
       if (error) {
@@ -0,0 +1,251 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getExamByExamId, getAnswerKeysByExamId, type StoredExam, type AnswerKey } from "./examService";
+import { analyzeTest, type AnalyzeTestResponse } from "./testAnalysisService";
+import { updateQuizSession, type StudentLink, type StudentQuizSession } from "./studentLinkService";
+import { StructuredQuestionService } from "./structuredQuestionService";
+import type { Question } from "@/utils/pdfGenerator";
+
+export interface QuizContent {
+  exam: StoredExam;
+  questions: Question[];
+}
+
+export interface QuizSubmissionResult {
+  session: StudentQuizSession;
+  analysis: AnalyzeTestResponse;
+}
+
+const SESSION_STORAGE_PREFIX = 'studentQuizSession:';
+
+const QUESTION_TYPES: Question['type'][] = [
+  'multiple-choice', 'true-false', 'short-answer', 'essay', 'numeric', 'expression',
+  'multi-select', 'matching', 'ordering', 'fill-in-blank'
+];
+
+// Answer keys store options as { options: [...] } (see saveExamToDatabase)
+const extractOptions = (options: AnswerKey['options']): string[] | undefined => {
+  if (!options) return undefined;
+  if (Array.isArray(options)) return options.map(String);
+  if (Array.isArray(options.options)) return options.options.map(String);
+  return undefined;
+};
+
+// Structured questions go out as the student sees them: choices and items already in
+// display order and matching prompts without their answers, so the letters a student
+// picks are the ones the answer key uses
+const structuredFields = (answerKey: AnswerKey): Pick<Question, 'options' | 'matchPairs'> => {
+  const structured = StructuredQuestionService.fromAnswerKey(answerKey);
+  if (!structured) return {};
+
+  switch (structured.type) {
+    case 'multi-select':
+      return { options: structured.options };
+    case 'matching': {
+      const pairs = structured.matchPairs || [];
+      return {
+        options: StructuredQuestionService.displayOrder(pairs.map(pair => pair.answer)),
+        matchPairs: pairs.map(pair => ({ prompt: pair.prompt, answer: '' }))
+      };
+    }
+    case 'ordering':
+      return { options: StructuredQuestionService.displayOrder(structured.options || []) };
+    case 'fill-in-blank':
+      return {};
+  }
+};
+
+// Convert stored answer keys into quiz questions. Correct answers are
+// deliberately left out so they never reach the student's browser state.
+export const answerKeyToQuestion = (answerKey: AnswerKey): Question => {
+  const type = QUESTION_TYPES.includes(answerKey.question_type as Question['type'])
+    ? answerKey.question_type as Question['type']
+    : 'short-answer';
+
+  return {
+    id: String(answerKey.question_number),
+    type,
+    question: answerKey.question_text,
+    options: type === 'multiple-choice' ? extractOptions(answerKey.options) : undefined,
+    ...structuredFields(answerKey),
+    points: answerKey.points || 1
+  };
+};
+
+export const loadQuizContent = async (examId: string): Promise<QuizContent> => {
+  try {
+    console.log('Loading quiz content for exam:', examId);
+
+    const exam = await getExamByExamId(examId);
+    if (!exam) {
+      throw new Error(`Exam ${examId} not found`);
+    }
+
+    const answerKeys = await getAnswerKeysByExamId(examId);
+    if (answerKeys.length === 0) {
+      throw new Error(`Exam ${examId} has no questions`);
+    }
+
+    return {
+      exam,
+      questions: answerKeys.map(answerKeyToQuestion)
+    };
+  } catch (error) {
+    console.error('Error in loadQuizContent:', error);
+    throw error;
+  }
+};
+
+export const getQuizSessionById = async (sessionId: string): Promise<StudentQuizSession | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('student_quiz_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching quiz session:', error);
+      throw new Error(`Failed to fetch quiz session: ${error.message}`);
+    }
+
+    return data as StudentQuizSession | null;
+  } catch (error) {
+    console.error('Error in getQuizSessionById:', error);
+    throw error;
+  }
+};
+
+// Remember the in-progress session per link so a reload resumes instead of
+// burning another attempt.
+export const rememberQuizSession = (token: string, sessionId: string): void => {
+  localStorage.setItem(`${SESSION_STORAGE_PREFIX}${token}`, sessionId);
+};
+
+export const forgetQuizSession = (token: string): void => {
+  localStorage.removeItem(`${SESSION_STORAGE_PREFIX}${token}`);
+};
+
+export const getResumableQuizSession = async (token: string): Promise<StudentQuizSession | null> => {
+  const sessionId = localStorage.getItem(`${SESSION_STORAGE_PREFIX}${token}`);
+  if (!sessionId) return null;
+
+  try {
+    const session = await getQuizSessionById(sessionId);
+    if (!session || session.is_submitted) {
+      forgetQuizSession(token);
+      return null;
+    }
+    return session;
+  } catch (error) {
+    console.warn('Could not resume quiz session, starting fresh:', error);
+    forgetQuizSession(token);
+    return null;
+  }
+};
+
+export const saveQuizProgress = async (
+  sessionId: string,
+  answers: Record<string, string>,
+  currentQuestion: number
+): Promise<void> => {
+  await updateQuizSession(sessionId, {
+    answers,
+    current_question: currentQuestion
+  });
+};
+
+/**
+ * Returns the remaining time in seconds, or null when the exam has no limit.
+ */
+export const getRemainingSeconds = (session: StudentQuizSession, timeLimitMinutes?: number): number | null => {
+  if (!timeLimitMinutes || timeLimitMinutes <= 0) return null;
+
+  const deadline = new Date(session.started_at).getTime() + timeLimitMinutes * 60 * 1000;
+  return Math.max(0, Math.floor((deadline - Date.now()) / 1000));
+};
+
+export const QUIZ_TIME_LIMIT_PASSED = 'The time limit for this quiz has passed';
+
+/**
+ * Whether the server considers the session past its time limit. Late answers and
+ * submissions are refused there regardless of the countdown in the browser.
+ */
+export const isQuizSessionExpired = async (sessionId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('quiz_session_expired', { p_session_id: sessionId });
+
+  if (error) {
+    console.error('Error checking quiz time limit:', error);
+    throw new Error(error.message);
+  }
+
+  return !!data;
+};
+
+/**
+ * Submit the quiz through the analyze-test pipeline. Answers are shaped like
+ * OCR output so the grader treats them the same as a scanned answer sheet,
+ * which also stores the result in test_results.
+ */
+export const submitQuiz = async (
+  link: StudentLink,
+  session: StudentQuizSession,
+  questions: Question[],
+  answers: Record<string, string>
+): Promise<QuizSubmissionResult> => {
+  try {
+    console.log('Submitting quiz session:', session.id);
+
+    if (await isQuizSessionExpired(session.id)) {
+      throw new Error(QUIZ_TIME_LIMIT_PASSED);
+    }
+
+    // Persist the final answers before grading so nothing is lost if grading fails
+    await updateQuizSession(session.id, { answers });
+
+    const structuredQuestions = questions.map(question => ({
+      questionNumber: Number(question.id),
+      questionText: question.question,
+      type: question.type,
+      detectedAnswer: {
+        selectedOption: answers[question.id] || '',
+        confidence: 1,
+        detectionMethod: 'online_quiz'
+      }
+    }));
+
+    const extractedText = questions
+      .map(question => `Q${question.id}: ${answers[question.id] || ''}`)
+      .join('\n');
+
+    const analysis = await analyzeTest({
+      files: [{
+        fileName: `quiz-${link.token}-${session.id}`,
+        extractedText,
+        structuredData: {
+          documentMetadata: {
+            totalPages: 1,
+            processingMethods: ['online_quiz'],
+            overallConfidence: 1
+          },
+          questions: structuredQuestions,
+          answers: structuredQuestions.map(q => q.detectedAnswer)
+        }
+      }],
+      examId: link.exam_id!,
+      studentName: session.student_name,
+      quizSessionId: session.id
+    });
+
+    const submittedSession = await updateQuizSession(session.id, {
+      answers,
+      is_submitted: true,
+      completed_at: new Date().toISOString(),
+      total_score: analysis.overall_score
+    });
+
+    return { session: submittedSession, analysis };
+  } catch (error) {
+    console.error('Error in submitQuiz:', error);
+    throw error;
+  }
+};
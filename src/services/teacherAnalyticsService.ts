@@ -0,0 +1,588 @@
+import { supabase } from "@/integrations/supabase/client";
+import { format, startOfMonth, startOfWeek, subDays } from "date-fns";
+import { fetchAllPages } from "@/utils/fetchAllPages";
+
+export interface AnalyticsFilters {
+  classIds: string[];
+  days: number;
+}
+
+export interface ScoreTrendPoint {
+  period: string;
+  averageScore: number;
+  testCount: number;
+}
+
+export interface WeakSkill {
+  student: string;
+  skill: string;
+  weaknessLevel: number;
+}
+
+export interface TopPerformer {
+  studentId: string;
+  activeStudentId: string | null;
+  name: string;
+  averageScore: number;
+  grade: string;
+  testCount: number;
+}
+
+export type ActivityType = 'test' | 'practice' | 'exercise';
+
+export interface ActivityItem {
+  student: string;
+  action: string;
+  course: string;
+  occurredAt: string;
+  score: number | null;
+  type: ActivityType;
+}
+
+export type GrowthEventType = 'mastery' | 'practice' | 'breakthrough' | 'consistency';
+
+export interface GrowthEvent {
+  student: string;
+  action: string;
+  improvement: string;
+  occurredAt: string;
+  type: GrowthEventType;
+}
+
+export interface ImpactSummary {
+  papersGraded: number;
+  averageGradingSeconds: number | null;
+  timeSavedHours: number;
+  averageScoreChange: number | null;
+  masteryUnlocked: number;
+  timeline: GrowthEvent[];
+  mostImproved: { student: string; change: number } | null;
+  topSkillMastered: { skill: string; students: number } | null;
+  practiceCount: number;
+  practiceChange: number | null;
+  exercisesGenerated: number;
+  interventions: number;
+}
+
+export interface ClassSummary {
+  classId: string;
+  className: string;
+  teacher: string;
+  teacherId: string | null;
+  department: string | null;
+  subject: string;
+  grade: string;
+  studentCount: number;
+  testCount: number;
+  averageScore: number | null;
+  averageScoreChange: number | null;
+}
+
+// Estimated time a teacher spends marking one paper by hand
+const MANUAL_GRADING_MINUTES_PER_PAPER = 5;
+
+// Skill score at which a skill counts as mastered
+export const MASTERY_THRESHOLD = 80;
+
+// A rise in overall test score of at least this many points is shown as a breakthrough
+const BREAKTHROUGH_POINTS = 15;
+
+// Trailblazer streaks at least this long show up on the growth timeline
+const STREAK_DAYS = 3;
+
+interface ClassResult {
+  id: string;
+  student_id: string;
+  active_student_id: string | null;
+  class_id: string;
+  exam_id: string;
+  overall_score: number;
+  created_at: string;
+  student_profiles: { student_name: string; authenticated_user_id: string | null } | null;
+}
+
+/**
+ * Service for the teacher dashboard aggregates: scores, skills, activity and impact
+ */
+export class TeacherAnalyticsService {
+
+  /**
+   * Average test score per week (ranges up to a month) or per month (longer ranges and all time)
+   */
+  static async getScoreTrend(filters: AnalyticsFilters): Promise<ScoreTrendPoint[]> {
+    const results = await this.getResults(filters);
+    const byWeek = filters.days > 0 && filters.days <= 31;
+    const periods = new Map<number, { label: string; total: number; count: number }>();
+
+    for (const result of results) {
+      const date = new Date(result.created_at);
+      const start = byWeek ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+      const period = periods.get(start.getTime()) || {
+        label: format(start, byWeek ? 'MMM d' : 'MMM yyyy'),
+        total: 0,
+        count: 0
+      };
+      period.total += result.overall_score;
+      period.count++;
+      periods.set(start.getTime(), period);
+    }
+
+    return [...periods.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, period]) => ({
+        period: period.label,
+        averageScore: Math.round((period.total / period.count) * 10) / 10,
+        testCount: period.count
+      }));
+  }
+
+  /**
+   * Each student's weakest content skill, weakest students first
+   */
+  static async getWeakSkills(filters: AnalyticsFilters, limit: number = 7): Promise<WeakSkill[]> {
+    const results = await this.getResults(filters);
+    const skills = await this.getContentSkillScores(results.map(result => result.id));
+    const resultById = new Map(results.map(result => [result.id, result]));
+
+    // student -> skill -> scores
+    const scores = new Map<string, Map<string, number[]>>();
+    for (const skill of skills) {
+      const result = skill.test_result_id ? resultById.get(skill.test_result_id) : undefined;
+      if (!result) continue;
+      const studentSkills = scores.get(result.student_id) || new Map<string, number[]>();
+      studentSkills.set(skill.skill_name, [...(studentSkills.get(skill.skill_name) || []), skill.score]);
+      scores.set(result.student_id, studentSkills);
+    }
+
+    const weakest: WeakSkill[] = [];
+    for (const [studentId, studentSkills] of scores) {
+      const averages = [...studentSkills.entries()].map(([skill, values]) => ({
+        skill,
+        average: values.reduce((sum, value) => sum + value, 0) / values.length
+      }));
+      const lowest = averages.sort((a, b) => a.average - b.average)[0];
+      const student = results.find(result => result.student_id === studentId)?.student_profiles?.student_name || 'Student';
+      if (lowest && lowest.average < MASTERY_THRESHOLD) {
+        weakest.push({ student, skill: lowest.skill, weaknessLevel: Math.round(100 - lowest.average) });
+      }
+    }
+
+    return weakest.sort((a, b) => b.weaknessLevel - a.weaknessLevel).slice(0, limit);
+  }
+
+  /**
+   * Students with the highest average test score in the period
+   */
+  static async getTopPerformers(filters: AnalyticsFilters, limit: number = 5): Promise<TopPerformer[]> {
+    const results = await this.getResults(filters);
+    const students = new Map<string, { results: ClassResult[] }>();
+
+    for (const result of results) {
+      const entry = students.get(result.student_id) || { results: [] };
+      entry.results.push(result);
+      students.set(result.student_id, entry);
+    }
+
+    return [...students.entries()]
+      .map(([studentId, { results: studentResults }]) => {
+        const averageScore = studentResults.reduce((sum, result) => sum + result.overall_score, 0) / studentResults.length;
+        return {
+          studentId,
+          activeStudentId: studentResults.map(result => result.active_student_id).filter(Boolean).pop() || null,
+          name: studentResults[0].student_profiles?.student_name || 'Student',
+          averageScore: Math.round(averageScore * 10) / 10,
+          grade: this.letterGrade(averageScore),
+          testCount: studentResults.length
+        };
+      })
+      .sort((a, b) => b.averageScore - a.averageScore)
+      .slice(0, limit);
+  }
+
+  /**
+   * Latest graded tests, practice sessions and class exercises, newest first
+   */
+  static async getRecentActivity(filters: AnalyticsFilters, limit: number = 8): Promise<ActivityItem[]> {
+    if (filters.classIds.length === 0) return [];
+
+    const since = this.periodStart(filters.days).toISOString();
+    const classNames = await this.getClassNames(filters.classIds);
+
+    const [{ data: results }, { data: sessions }, { data: exercises }] = await Promise.all([
+      supabase
+        .from('test_results')
+        .select('class_id, overall_score, created_at, student_profiles(student_name), exams(title)')
+        .in('class_id', filters.classIds)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase
+        .from('student_practice_sessions')
+        .select('student_name, class_name, skill_name, final_score, completed_at')
+        .in('class_id', filters.classIds)
+        .not('completed_at', 'is', null)
+        .gte('completed_at', since)
+        .order('completed_at', { ascending: false })
+        .limit(limit),
+      supabase
+        .from('student_exercises')
+        .select('student_name, skill_name, score, completed_at, class_sessions!inner(class_id)')
+        .in('class_sessions.class_id', filters.classIds)
+        .eq('status', 'completed')
+        .gte('completed_at', since)
+        .order('completed_at', { ascending: false })
+        .limit(limit)
+    ]);
+
+    const activity: ActivityItem[] = [
+      ...(results || []).map(result => ({
+        student: result.student_profiles?.student_name || 'Student',
+        action: result.exams?.title ? `Graded: ${result.exams.title}` : 'Test graded',
+        course: classNames[result.class_id] || '',
+        occurredAt: result.created_at,
+        score: result.overall_score,
+        type: 'test' as const
+      })),
+      ...(sessions || []).map(session => ({
+        student: session.student_name,
+        action: `Practiced ${session.skill_name}`,
+        course: session.class_name,
+        occurredAt: session.completed_at as string,
+        score: session.final_score,
+        type: 'practice' as const
+      })),
+      ...(exercises || []).map(exercise => ({
+        student: exercise.student_name,
+        action: `Completed ${exercise.skill_name} exercise`,
+        course: classNames[exercise.class_sessions.class_id] || '',
+        occurredAt: exercise.completed_at as string,
+        score: exercise.score,
+        type: 'exercise' as const
+      }))
+    ];
+
+    return activity
+      .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Everything on the impact dashboard: grading time saved, score change, skills
+   * mastered, the growth timeline and weekly highlights
+   */
+  static async getImpactSummary(filters: AnalyticsFilters): Promise<ImpactSummary> {
+    const now = new Date();
+    const since = this.periodStart(filters.days, now).toISOString();
+    // All time has no earlier period to compare practice against
+    const previousSince = filters.days > 0 ? subDays(now, filters.days * 2).toISOString() : since;
+
+    // Earlier results are needed to tell whether a skill was mastered for the first time
+    const allResults = await this.getResults({ ...filters, days: 0 });
+    const results = allResults.filter(result => result.created_at >= since);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const jobs = user
+      ? await fetchAllPages((from, to) => supabase
+        .from('file_jobs')
+        .select('processing_time_ms')
+        .eq('user_id', user.id)
+        .eq('status', 'completed')
+        .gte('completed_at', since)
+        .not('processing_time_ms', 'is', null)
+        .order('id')
+        .range(from, to))
+      : [];
+
+    const timings = jobs.map(job => job.processing_time_ms as number);
+    const averageGradingSeconds = timings.length > 0
+      ? timings.reduce((sum, ms) => sum + ms, 0) / timings.length / 1000
+      : null;
+    const savedSecondsPerPaper = Math.max(0, MANUAL_GRADING_MINUTES_PER_PAPER * 60 - (averageGradingSeconds || 0));
+    const timeSavedHours = Math.round((results.length * savedSecondsPerPaper / 3600) * 10) / 10;
+
+    // Score change between each student's first and latest test in the period
+    const byStudent = new Map<string, ClassResult[]>();
+    for (const result of results) {
+      byStudent.set(result.student_id, [...(byStudent.get(result.student_id) || []), result]);
+    }
+    const changes = [...byStudent.values()]
+      .filter(studentResults => studentResults.length >= 2)
+      .map(studentResults => ({
+        student: studentResults[0].student_profiles?.student_name || 'Student',
+        change: studentResults[studentResults.length - 1].overall_score - studentResults[0].overall_score
+      }));
+    const averageScoreChange = changes.length > 0
+      ? Math.round((changes.reduce((sum, c) => sum + c.change, 0) / changes.length) * 10) / 10
+      : null;
+    const mostImproved = changes.sort((a, b) => b.change - a.change)[0];
+
+    const timeline: GrowthEvent[] = [];
+
+    // Mastery: a skill reaching the threshold for the first time
+    const skillScores = await this.getContentSkillScores(allResults.map(result => result.id));
+    const resultById = new Map(allResults.map(result => [result.id, result]));
+    const history = new Map<string, Array<{ score: number; at: string; student: string }>>();
+    for (const skill of skillScores) {
+      const result = skill.test_result_id ? resultById.get(skill.test_result_id) : undefined;
+      if (!result) continue;
+      const key = `${result.student_id}|${skill.skill_name}`;
+      history.set(key, [...(history.get(key) || []), {
+        score: skill.score,
+        at: result.created_at,
+        student: result.student_profiles?.student_name || 'Student'
+      }]);
+    }
+
+    const masteredSkills = new Map<string, number>();
+    for (const [key, entries] of history) {
+      const skillName = key.split('|')[1];
+      const sorted = entries.sort((a, b) => a.at.localeCompare(b.at));
+      const firstMastery = sorted.findIndex(entry => entry.score >= MASTERY_THRESHOLD);
+      if (firstMastery < 0 || sorted[firstMastery].at < since) continue;
+
+      const previous = sorted[firstMastery - 1];
+      masteredSkills.set(skillName, (masteredSkills.get(skillName) || 0) + 1);
+      timeline.push({
+        student: sorted[firstMastery].student,
+        action: `Mastered ${skillName}`,
+        improvement: previous
+          ? `From ${Math.round(previous.score)}% to ${Math.round(sorted[firstMastery].score)}%`
+          : `${Math.round(sorted[firstMastery].score)}% on first attempt`,
+        occurredAt: sorted[firstMastery].at,
+        type: 'mastery'
+      });
+    }
+    const topSkill = [...masteredSkills.entries()].sort((a, b) => b[1] - a[1])[0];
+
+    // Breakthroughs: a big jump between consecutive tests
+    for (const studentResults of byStudent.values()) {
+      for (let i = 1; i < studentResults.length; i++) {
+        const jump = studentResults[i].overall_score - studentResults[i - 1].overall_score;
+        if (jump >= BREAKTHROUGH_POINTS) {
+          timeline.push({
+            student: studentResults[i].student_profiles?.student_name || 'Student',
+            action: 'Test score breakthrough',
+            improvement: `From ${Math.round(studentResults[i - 1].overall_score)}% to ${Math.round(studentResults[i].overall_score)}%`,
+            occurredAt: studentResults[i].created_at,
+            type: 'breakthrough'
+          });
+        }
+      }
+    }
+
+    // Practice sessions in this period and the one before it, for engagement
+    const sessions = filters.classIds.length > 0
+      ? await fetchAllPages((from, to) => supabase
+        .from('student_practice_sessions')
+        .select('student_name, skill_name, improvement_shown, exercise_generated, completed_at, created_at')
+        .in('class_id', filters.classIds)
+        .gte('created_at', previousSince)
+        .order('id')
+        .range(from, to))
+      : [];
+
+    const currentSessions = sessions.filter(session => session.created_at >= since);
+    const previousSessions = sessions.filter(session => session.created_at < since);
+
+    for (const session of currentSessions) {
+      if (session.completed_at && session.improvement_shown && session.improvement_shown > 0) {
+        timeline.push({
+          student: session.student_name,
+          action: `Completed ${session.skill_name} practice`,
+          improvement: `+${Math.round(session.improvement_shown)}% on skill`,
+          occurredAt: session.completed_at,
+          type: 'practice'
+        });
+      }
+    }
+
+    const { count: exerciseCount } = filters.classIds.length > 0
+      ? await supabase
+        .from('student_exercises')
+        .select('id, class_sessions!inner(class_id)', { count: 'exact', head: true })
+        .in('class_sessions.class_id', filters.classIds)
+        .gte('created_at', since)
+      : { count: 0 };
+
+    // Trailblazer streaks for students in the selected classes
+    const classNames = await this.getClassNames(filters.classIds);
+    const { data: streaks } = await supabase.rpc('get_teacher_students_trailblazer_progress', {});
+    for (const streak of streaks || []) {
+      if (streak.current_streak_days >= STREAK_DAYS &&
+        Object.values(classNames).includes(streak.class_name) &&
+        streak.last_session_date >= since) {
+        timeline.push({
+          student: streak.student_name,
+          action: 'Consistent daily practice',
+          improvement: `${streak.current_streak_days}-day streak`,
+          occurredAt: streak.last_session_date,
+          type: 'consistency'
+        });
+      }
+    }
+
+    // Misconception alerts teachers followed up on for these students
+    const studentIds = [...new Set(results.flatMap(result =>
+      [result.student_id, result.student_profiles?.authenticated_user_id].filter(Boolean) as string[]
+    ))];
+    const { count: interventions } = studentIds.length > 0
+      ? await supabase
+        .from('predictive_misconception_alerts')
+        .select('id', { count: 'exact', head: true })
+        .in('student_id', studentIds)
+        .eq('resolved', true)
+        .gte('resolved_at', since)
+      : { count: 0 };
+
+    return {
+      papersGraded: results.length,
+      averageGradingSeconds: averageGradingSeconds !== null ? Math.round(averageGradingSeconds) : null,
+      timeSavedHours,
+      averageScoreChange,
+      masteryUnlocked: [...masteredSkills.values()].reduce((sum, count) => sum + count, 0),
+      timeline: timeline.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt)).slice(0, 10),
+      mostImproved: mostImproved && mostImproved.change > 0
+        ? { student: mostImproved.student, change: Math.round(mostImproved.change) }
+        : null,
+      topSkillMastered: topSkill ? { skill: topSkill[0], students: topSkill[1] } : null,
+      practiceCount: currentSessions.length,
+      practiceChange: previousSessions.length > 0
+        ? Math.round(((currentSessions.length - previousSessions.length) / previousSessions.length) * 100)
+        : null,
+      exercisesGenerated: (exerciseCount || 0) + currentSessions.filter(session => session.exercise_generated).length,
+      interventions: interventions || 0
+    };
+  }
+
+  /**
+   * One row per selected class: enrolment, tests graded, average score and the average
+   * change from each student's first to latest test in the period
+   */
+  static async getClassSummaries(filters: AnalyticsFilters): Promise<ClassSummary[]> {
+    if (filters.classIds.length === 0) return [];
+
+    const [results, { data: classes, error }] = await Promise.all([
+      this.getResults(filters),
+      supabase
+        .from('active_classes')
+        .select('id, name, teacher, teacher_id, department, subject, grade, student_count')
+        .in('id', filters.classIds)
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch classes: ${error.message}`);
+    }
+
+    const byClass = new Map<string, ClassResult[]>();
+    for (const result of results) {
+      byClass.set(result.class_id, [...(byClass.get(result.class_id) || []), result]);
+    }
+
+    return (classes || [])
+      .map(cls => {
+        const classResults = byClass.get(cls.id) || [];
+        const byStudent = new Map<string, number[]>();
+        for (const result of classResults) {
+          byStudent.set(result.student_id, [...(byStudent.get(result.student_id) || []), result.overall_score]);
+        }
+        const changes = [...byStudent.values()]
+          .filter(scores => scores.length >= 2)
+          .map(scores => scores[scores.length - 1] - scores[0]);
+
+        return {
+          classId: cls.id,
+          className: cls.name,
+          teacher: cls.teacher,
+          teacherId: cls.teacher_id,
+          department: cls.department,
+          subject: cls.subject,
+          grade: cls.grade,
+          studentCount: cls.student_count || 0,
+          testCount: classResults.length,
+          averageScore: classResults.length > 0
+            ? Math.round((classResults.reduce((sum, result) => sum + result.overall_score, 0) / classResults.length) * 10) / 10
+            : null,
+          averageScoreChange: changes.length > 0
+            ? Math.round((changes.reduce((sum, change) => sum + change, 0) / changes.length) * 10) / 10
+            : null
+        };
+      })
+      .sort((a, b) => a.className.localeCompare(b.className));
+  }
+
+  static letterGrade(score: number): string {
+    if (score >= 90) return 'A';
+    if (score >= 80) return 'B';
+    if (score >= 70) return 'C';
+    if (score >= 60) return 'D';
+    return 'F';
+  }
+
+  /**
+   * Start of the last `days` days; a `days` of 0 (all time) starts at the epoch
+   */
+  private static periodStart(days: number, now: Date = new Date()): Date {
+    return days > 0 ? subDays(now, days) : new Date(0);
+  }
+
+  /**
+   * Test results for the selected classes, oldest first. A `days` of 0 means all time.
+   */
+  private static async getResults(filters: AnalyticsFilters): Promise<ClassResult[]> {
+    if (filters.classIds.length === 0) return [];
+
+    const since = filters.days > 0 ? subDays(new Date(), filters.days).toISOString() : null;
+
+    try {
+      return await fetchAllPages((from, to) => {
+        let query = supabase
+          .from('test_results')
+          .select('id, student_id, active_student_id, class_id, exam_id, overall_score, created_at, student_profiles(student_name, authenticated_user_id)')
+          .in('class_id', filters.classIds);
+
+        if (since) {
+          query = query.gte('created_at', since);
+        }
+
+        return query
+          .order('created_at', { ascending: true })
+          .order('id')
+          .range(from, to);
+      });
+    } catch (error) {
+      console.error('Error fetching class results:', error);
+      throw new Error(`Failed to fetch class results: ${(error as Error).message}`);
+    }
+  }
+
+  private static async getContentSkillScores(resultIds: string[]) {
+    const scores: Array<{ test_result_id: string | null; skill_name: string; score: number }> = [];
+
+    // .in() filters travel in the query string, so keep batches small
+    for (let i = 0; i < resultIds.length; i += 100) {
+      try {
+        scores.push(...await fetchAllPages((from, to) => supabase
+          .from('content_skill_scores')
+          .select('test_result_id, skill_name, score')
+          .in('test_result_id', resultIds.slice(i, i + 100))
+          .order('id')
+          .range(from, to)));
+      } catch (error) {
+        throw new Error(`Failed to fetch skill scores: ${(error as Error).message}`);
+      }
+    }
+
+    return scores;
+  }
+
+  private static async getClassNames(classIds: string[]): Promise<Record<string, string>> {
+    if (classIds.length === 0) return {};
+
+    const { data } = await supabase
+      .from('active_classes')
+      .select('id, name')
+      .in('id', classIds);
+
+    return Object.fromEntries((data || []).map(cls => [cls.id, cls.name]));
+  }
+}
@@ -1,10 +1,13 @@
 import { supabase } from "@/integrations/supabase/client";
 import { jsonValidationService } from './jsonValidationService';
 import { transactionService } from './transactionService';
+import { OpticalMarkRecognitionService, type OmrQuestion, type OmrSheet } from './opticalMarkRecognitionService';
+import { PageIdentityService } from './pageIdentityService';
 
 export interface ExtractTextRequest {
   fileContent: string;
   fileName: string;
+  file?: File; // Lets our own answer sheets be read in the browser
 }
 
 export interface ExtractTextResponse {
@@ -25,6 +28,7 @@ export interface AnalyzeTestRequest {
   examId: string;
   studentName: string;
   studentEmail?: string;
+  quizSessionId?: string; // Online quiz sessions taken signed in are credited to that student
 }
 
 export interface AnalyzeTestResponse {
@@ -33,6 +37,8 @@ export interface AnalyzeTestResponse {
   total_points_earned: number;
   total_points_possible: number;
   feedback?: string;
+  // Set when the AI budget ran out and answers were graded against the key without AI
+  aiBudgetNotice?: string | null;
   content_skill_scores?: Array<{
     skill_name: string;
     score: number;
@@ -93,17 +99,27 @@ export interface StructuredData {
   };
 }
 
-export const extractTextFromFile = async (request: {
-  fileContent: string;
-  fileName: string;
-}): Promise<ExtractTextResponse> => {
+export const extractTextFromFile = async (request: ExtractTextRequest): Promise<ExtractTextResponse> => {
   try {
     console.log('🔍 Extracting text from file with handwriting-resilient processing:', request.fileName);
     
+    // Bubbles on our own answer sheets are read locally instead of by the vision model.
+    // When the page code names the exam they are read up front, and the vision model's
+    // bubble detection is only skipped once that read has produced answers.
+    const omrSheet = request.file ? await OpticalMarkRecognitionService.tryLocateSheet(request.file) : null;
+    let omrQuestions: OmrQuestion[] = [];
+    if (omrSheet && request.file) {
+      const identity = await PageIdentityService.readFromFile(request.file);
+      if (identity) {
+        omrQuestions = await readOmrAnswers(omrSheet, identity.examId);
+      }
+    }
+
     const { data, error } = await supabase.functions.invoke('extract-text', {
       body: {
         fileName: request.fileName,
         fileContent: request.fileContent,
+        skipBubbleDetection: omrQuestions.length > 0,
       },
     });
 
@@ -134,13 +150,32 @@ export const extractTextFromFile = async (request: {
       console.log('📝 Standard processing completed for:', request.fileName);
     }
 
+    let structuredData: StructuredData = data.structuredData || {};
+    if (omrSheet && omrQuestions.length === 0 && data.examId) {
+      omrQuestions = await readOmrAnswers(omrSheet, data.examId);
+    }
+
+    if (omrQuestions.length > 0) {
+      const omrNumbers = new Set(omrQuestions.map(question => question.questionNumber));
+      structuredData = {
+        ...structuredData,
+        questions: [
+          ...(structuredData.questions || []).filter(question => !omrNumbers.has(question.questionNumber)),
+          ...omrQuestions
+        ].sort((a, b) => a.questionNumber - b.questionNumber)
+      };
+      console.log(`🫧 Local OMR read ${omrQuestions.length} bubble questions`);
+    } else if (omrSheet) {
+      console.warn('⚠️ Answer sheet recognized but its bubbles could not be read locally');
+    }
+
     return {
       extractedText: data.extractedText || '',
       examId: data.examId || null,
       studentName: data.studentName || null,
       studentId: data.studentId || null,
       fileName: request.fileName,
-      structuredData: data.structuredData || {},
+      structuredData,
     };
   } catch (error) {
     console.error('❌ Error in extractTextFromFile:', error);
@@ -157,6 +192,7 @@ export const analyzeTest = async (request: {
   examId: string;
   studentName: string;
   studentEmail?: string;
+  quizSessionId?: string; // Online quiz sessions taken signed in are credited to that student
 }): Promise<AnalyzeTestResponse> => {
   try {
     console.log('🔬 Analyzing test with critical fixes: format mismatch & class_id resolution for exam:', request.examId);
@@ -184,6 +220,7 @@ export const analyzeTest = async (request: {
         total_points_earned: data?.total_points_earned || 0,
         total_points_possible: data?.total_points_possible || 0,
         feedback: data?.ai_feedback || 'Analysis completed with validation warnings - manual review recommended',
+        aiBudgetNotice: data?.aiBudgetNotice,
         content_skill_scores: [],
         subject_skill_scores: [],
         databaseStorage: data?.databaseStorage,
@@ -242,6 +279,7 @@ export const analyzeTest = async (request: {
       total_points_earned: validatedData.total_points_earned,
       total_points_possible: validatedData.total_points_possible,
       feedback: validatedData.ai_feedback,
+      aiBudgetNotice: validatedData.aiBudgetNotice,
       content_skill_scores: validatedData.content_skill_scores || [],
       subject_skill_scores: validatedData.subject_skill_scores || [],
       databaseStorage: data.databaseStorage,
@@ -261,6 +299,16 @@ export const analyzeTest = async (request: {
 };
 
 // Helper function to calculate grade from score
+// Local OMR read of an answer sheet; failures fall back to the vision model's bubble detection
+async function readOmrAnswers(sheet: OmrSheet, examId: string): Promise<OmrQuestion[]> {
+  try {
+    return await OpticalMarkRecognitionService.readExamAnswers(sheet, examId);
+  } catch (error) {
+    console.warn('⚠️ Local OMR read failed:', error);
+    return [];
+  }
+}
+
 function calculateGrade(score: number): string {
   if (score >= 90) return 'A';
   if (score >= 80) return 'B';
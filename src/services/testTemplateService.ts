@@ -1,3 +1,6 @@
+import { StructuredQuestionService, type StructuredQuestion } from './structuredQuestionService';
+import { OpticalMarkRecognitionService, type OmrSheet } from './opticalMarkRecognitionService';
+
 export interface TestTemplate {
   id: string;
   name: string;
@@ -26,6 +29,9 @@ export interface QuestionRegion {
   textArea: BoundingBox;
   answerArea: BoundingBox;
   bubblePositions: BubblePosition[];
+  responseRows?: BubblePosition[][]; // Matching and ordering: one row per item, answered with a letter
+  writeInAreas?: BoundingBox[]; // Fill-in-the-blank: one box per blank
+  allowMultipleMarks?: boolean; // Multi-select
 }
 
 export interface BubblePosition {
@@ -104,7 +110,7 @@ export class TestTemplateService {
         questionRegions: [], // Will be generated based on question count
         bubbleGrid: {
           columns: 5, // A, B, C, D, E
-          rows: 50, // Max questions per page
+          rows: 40, // Rows that fit on the printed answer sheet
           bubbleRadius: 8,
           horizontalSpacing: 25,
           verticalSpacing: 20,
@@ -122,6 +128,12 @@ export class TestTemplateService {
             pattern: /Student.*Name.*:|Name.*:/,
             position: { x: 5, y: 10, width: 90, height: 5 },
             required: false
+          },
+          {
+            type: 'answer_box',
+            pattern: /[A-E]/,
+            position: { x: 58, y: 13, width: 17, height: 87 }, // The bubble grid
+            required: true
           }
         ]
       },
@@ -134,7 +146,7 @@ export class TestTemplateService {
       },
       validation: {
         expectedQuestionCount: 0, // Will be set dynamically
-        requiredElements: ['exam_id'],
+        requiredElements: ['exam_id', 'answer_box'],
         answerValidation: {
           allowMultipleAnswers: false,
           requireAllAnswers: false,
@@ -153,8 +165,10 @@ export class TestTemplateService {
     const template = this.templates.get('test_creator_standard')!;
     
     try {
-      // Detect key elements that identify our template
-      const detectedElements = await this.detectTemplateElements(imageData, template);
+      // Find the page and bubble grid in the scan itself
+      const image = await OpticalMarkRecognitionService.loadBase64Image(imageData);
+      const sheet = OpticalMarkRecognitionService.locateSheet(image, template);
+      const detectedElements = this.detectTemplateElements(sheet, template);
       
       // Calculate confidence based on detected elements
       const confidence = this.calculateTemplateConfidence(detectedElements, template);
@@ -167,8 +181,8 @@ export class TestTemplateService {
         confidence,
         template: isMatch ? template : null,
         detectedElements,
-        alignmentOffset: { x: 0, y: 0 }, // Will be calculated from detected elements
-        rotationAngle: 0 // Will be calculated from header alignment
+        alignmentOffset: sheet.geometry.alignmentOffset,
+        rotationAngle: sheet.geometry.rotationAngle
       };
 
       console.log(`📋 Template recognition result: ${isMatch ? 'MATCH' : 'NO MATCH'} (${(confidence * 100).toFixed(1)}%)`);
@@ -187,24 +201,40 @@ export class TestTemplateService {
     }
   }
 
-  private static async detectTemplateElements(imageData: string, template: TestTemplate): Promise<DetectedElement[]> {
+  /**
+   * Measure the elements our layout prints: the page itself, header text where the exam ID
+   * goes and the bubble outlines of the answer grid
+   */
+  private static detectTemplateElements(sheet: OmrSheet, template: TestTemplate): DetectedElement[] {
     const detectedElements: DetectedElement[] = [];
+    const { geometry } = sheet;
 
-    // Simulate element detection (in real implementation, this would use image processing)
-    // For now, we'll use pattern matching on OCR text that will be provided later
+    if (geometry.pageFound) {
+      detectedElements.push({
+        type: 'page',
+        position: { x: 0, y: 0, width: 100, height: 100 },
+        confidence: 0.95
+      });
+    }
 
-    // Mock detection of header elements
-    detectedElements.push({
-      type: 'exam_id',
-      position: { x: 60, y: 2, width: 35, height: 8 },
-      confidence: 0.9,
-      content: 'EXAM_DETECTED'
-    });
+    template.layout.expectedElements
+      .filter(element => element.type === 'exam_id' || element.type === 'student_info')
+      .forEach(element => {
+        // Printed header text covers a small share of its box; blank or solid boxes don't
+        const coverage = OpticalMarkRecognitionService.inkCoverage(sheet, element.position);
+        const hasText = coverage > 0.01 && coverage < 0.4;
+        detectedElements.push({
+          type: element.type,
+          position: element.position,
+          confidence: hasText ? 0.8 : 0.2
+        });
+      });
 
     detectedElements.push({
-      type: 'question_header',
-      position: { x: 5, y: 15, width: 90, height: 10 },
-      confidence: 0.85
+      type: 'answer_box',
+      position: template.layout.expectedElements.find(element => element.type === 'answer_box')?.position
+        || { x: 0, y: 0, width: 100, height: 100 },
+      confidence: geometry.gridConfidence
     });
 
     return detectedElements;
@@ -213,7 +243,7 @@ export class TestTemplateService {
   private static calculateTemplateConfidence(detectedElements: DetectedElement[], template: TestTemplate): number {
     const requiredElements = template.layout.expectedElements.filter(e => e.required);
     const detectedRequiredElements = detectedElements.filter(detected => 
-      requiredElements.some(required => required.type === detected.type)
+      detected.confidence >= 0.5 && requiredElements.some(required => required.type === detected.type)
     );
 
     if (requiredElements.length === 0) return 0.8; // Default confidence if no required elements
@@ -224,27 +254,64 @@ export class TestTemplateService {
     return Math.min(1.0, (baseConfidence + avgElementConfidence) / 2);
   }
 
-  static generateQuestionRegions(questionCount: number, template: TestTemplate): QuestionRegion[] {
+  /**
+   * Lay out bubble rows for each question. Without question details every question gets one
+   * row of grid-width bubbles; structured questions take a row per match, position or blank.
+   */
+  static generateQuestionRegions(
+    questionCount: number,
+    template: TestTemplate,
+    questions?: Array<Pick<StructuredQuestion, 'question' | 'options' | 'matchPairs'> & { type: string }>
+  ): QuestionRegion[] {
     const regions: QuestionRegion[] = [];
     const { bubbleGrid } = template.layout;
+    let rowCounter = 0;
+
+    const nextRowY = () => {
+      const row = rowCounter++ % bubbleGrid.rows;
+      return bubbleGrid.startPosition.y + (row * bubbleGrid.verticalSpacing);
+    };
+
+    const bubbleRow = (y: number, columns: number): BubblePosition[] =>
+      Array.from({ length: columns }, (_, j) => ({
+        option: String.fromCharCode(65 + j), // A, B, C, D, E
+        center: {
+          x: bubbleGrid.startPosition.x + (j * bubbleGrid.horizontalSpacing),
+          y
+        },
+        radius: bubbleGrid.bubbleRadius
+      }));
 
     for (let i = 0; i < questionCount; i++) {
-      const row = i % bubbleGrid.rows;
-      const questionY = bubbleGrid.startPosition.y + (row * bubbleGrid.verticalSpacing);
-
-      const bubblePositions: BubblePosition[] = [];
-      for (let j = 0; j < bubbleGrid.columns; j++) {
-        const option = String.fromCharCode(65 + j); // A, B, C, D, E
-        bubblePositions.push({
-          option,
-          center: {
-            x: bubbleGrid.startPosition.x + (j * bubbleGrid.horizontalSpacing),
-            y: questionY
-          },
-          radius: bubbleGrid.bubbleRadius
-        });
+      const question = questions?.[i];
+      const questionY = nextRowY();
+      let columns = bubbleGrid.columns;
+      let rowCount = 1;
+      let writeInAreas: BoundingBox[] | undefined;
+
+      if (question?.type === 'multi-select' && question.options?.length) {
+        columns = question.options.length;
+      } else if (question?.type === 'matching' && question.matchPairs?.length) {
+        columns = question.matchPairs.length;
+        rowCount = question.matchPairs.length;
+      } else if (question?.type === 'ordering' && question.options?.length) {
+        columns = question.options.length;
+        rowCount = question.options.length;
+      } else if (question?.type === 'fill-in-blank') {
+        const blanks = Math.max(1, StructuredQuestionService.countBlanks(question.question || ''));
+        writeInAreas = [{ x: bubbleGrid.startPosition.x - 20, y: questionY - 10, width: 200, height: 20 }];
+        for (let blank = 1; blank < blanks; blank++) {
+          const blankY = nextRowY();
+          writeInAreas.push({ x: bubbleGrid.startPosition.x - 20, y: blankY - 10, width: 200, height: 20 });
+        }
       }
 
+      const responseRows = [bubbleRow(questionY, columns)];
+      for (let extra = 1; extra < rowCount; extra++) {
+        responseRows.push(bubbleRow(nextRowY(), columns));
+      }
+      const lastRowY = responseRows[responseRows.length - 1][0]?.center.y ?? questionY;
+
       regions.push({
         questionNumber: i + 1,
         textArea: {
@@ -256,10 +323,13 @@ export class TestTemplateService {
         answerArea: {
           x: bubbleGrid.startPosition.x - 20,
           y: questionY - 10,
-          width: bubbleGrid.columns * bubbleGrid.horizontalSpacing + 20,
-          height: 20
+          width: columns * bubbleGrid.horizontalSpacing + 20,
+          height: Math.max(20, lastRowY - questionY + 20)
         },
-        bubblePositions
+        bubblePositions: writeInAreas ? [] : responseRows[0],
+        ...(rowCount > 1 && { responseRows }),
+        ...(writeInAreas && { writeInAreas }),
+        ...(question?.type === 'multi-select' && { allowMultipleMarks: true })
       });
     }
 
@@ -0,0 +1,500 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type TrailblazerGoalType = 'concept_practice' | 'misconception_repair';
+
+export type TrailblazerSessionStatus = 'in_progress' | 'completed' | 'abandoned';
+
+export interface TrailblazerSession {
+  id: string;
+  user_id: string | null;
+  class_id: string | null;
+  subject: string | null;
+  grade: string | null;
+  focus_concept: string;
+  goal_type: string;
+  duration_minutes: number;
+  actual_duration_minutes: number | null;
+  misconception_ids: string[] | null;
+  score_improvement: number | null;
+  status: string | null;
+  session_date: string | null;
+  created_at: string | null;
+}
+
+export interface TrailblazerStreak {
+  current_streak_days: number;
+  longest_streak_days: number;
+  total_sessions: number;
+  last_session_date: string | null;
+}
+
+export interface TrailblazerAchievement {
+  id: string;
+  achievement_type: string;
+  achievement_name: string;
+  description: string | null;
+  icon_name: string | null;
+  unlocked_at: string | null;
+}
+
+export interface TrailblazerMisconception {
+  id: string;
+  concept: string;
+  misconception_name: string;
+  confidence_score: number | null;
+  retry_count: number | null;
+}
+
+export interface StartTrailblazerSessionRequest {
+  userId: string;
+  classId: string;
+  subject: string;
+  grade: string;
+  focusConcept: string;
+  goalType: TrailblazerGoalType;
+  durationMinutes: number;
+  baselineScore: number;
+  misconceptionIds?: string[];
+}
+
+export interface CompleteTrailblazerSessionRequest {
+  session: TrailblazerSession;
+  finalScore: number;
+  questionsMissed: number;
+  totalQuestions: number;
+}
+
+export interface TrailblazerSessionOutcome {
+  scoreImprovement: number;
+  streak: TrailblazerStreak;
+  newAchievements: TrailblazerAchievement[];
+}
+
+export interface TeacherTrailblazerProgress {
+  student_id: string;
+  student_name: string;
+  current_streak_days: number;
+  total_sessions: number;
+  avg_mastery_score: number;
+  last_session_date: string;
+  class_name: string;
+}
+
+interface AchievementDefinition {
+  type: string;
+  name: string;
+  description: string;
+  icon: string;
+  earned: (context: { streak: TrailblazerStreak; scoreImprovement: number; finalScore: number; goalType: string }) => boolean;
+}
+
+// A misconception session at or above this score counts as repaired
+const RESOLVED_SCORE_THRESHOLD = 80;
+// Score used when the student has no data for the chosen concept yet
+export const DEFAULT_BASELINE_SCORE = 50;
+// How long after the timer runs out answers are still accepted
+export const SUBMIT_GRACE_MINUTES = 5;
+
+const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    type: 'first_session',
+    name: 'First Trail',
+    description: 'Finished your first Trailblazer session',
+    icon: 'Flag',
+    earned: ({ streak }) => streak.total_sessions >= 1
+  },
+  {
+    type: 'streak_3',
+    name: 'On a Roll',
+    description: 'Studied three days in a row',
+    icon: 'Flame',
+    earned: ({ streak }) => streak.current_streak_days >= 3
+  },
+  {
+    type: 'streak_7',
+    name: 'Week Warrior',
+    description: 'Studied seven days in a row',
+    icon: 'Flame',
+    earned: ({ streak }) => streak.current_streak_days >= 7
+  },
+  {
+    type: 'streak_30',
+    name: 'Unstoppable',
+    description: 'Studied thirty days in a row',
+    icon: 'Trophy',
+    earned: ({ streak }) => streak.current_streak_days >= 30
+  },
+  {
+    type: 'sessions_10',
+    name: 'Trail Regular',
+    description: 'Finished ten Trailblazer sessions',
+    icon: 'Mountain',
+    earned: ({ streak }) => streak.total_sessions >= 10
+  },
+  {
+    type: 'big_improvement',
+    name: 'Breakthrough',
+    description: 'Improved a concept score by 20 points in one session',
+    icon: 'TrendingUp',
+    earned: ({ scoreImprovement }) => scoreImprovement >= 20
+  },
+  {
+    type: 'misconception_repaired',
+    name: 'Myth Buster',
+    description: 'Repaired a misconception in a focused session',
+    icon: 'Sparkles',
+    earned: ({ goalType, finalScore }) =>
+      goalType === 'misconception_repair' && finalScore >= RESOLVED_SCORE_THRESHOLD
+  }
+];
+
+/**
+ * Service for Trailblazer focused-study sessions, streaks and achievements
+ */
+export class TrailblazerService {
+
+  /**
+   * Pick the practice length for a session: roughly one question every three minutes
+   */
+  static getQuestionCount(durationMinutes: number): number {
+    return Math.min(10, Math.max(3, Math.round(durationMinutes / 3)));
+  }
+
+  /**
+   * When the session's timer runs out, and the last moment it can still be completed
+   */
+  static getDeadlines(session: TrailblazerSession): { endsAt: number; closesAt: number } {
+    const endsAt = new Date(session.created_at || Date.now()).getTime() + session.duration_minutes * 60000;
+    return { endsAt, closesAt: endsAt + SUBMIT_GRACE_MINUTES * 60000 };
+  }
+
+  /**
+   * The student's open misconceptions, most persistent first
+   */
+  static async getOpenMisconceptions(userId: string, limit: number = 5): Promise<TrailblazerMisconception[]> {
+    // Misconceptions are keyed by student profile, which links to the auth user
+    const { data: profiles, error: profileError } = await supabase
+      .from('student_profiles')
+      .select('id')
+      .eq('authenticated_user_id', userId);
+
+    if (profileError) {
+      console.error('Error fetching student profiles:', profileError);
+      throw new Error(`Failed to fetch student profile: ${profileError.message}`);
+    }
+
+    if (!profiles || profiles.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('student_misconceptions')
+      .select('id, content_skill_name, confidence_score, retry_count, misconception_subtypes(subtype_name)')
+      .in('student_id', profiles.map(profile => profile.id))
+      .eq('corrected', false)
+      .not('content_skill_name', 'is', null)
+      .order('retry_count', { ascending: false, nullsFirst: false })
+      .order('confidence_score', { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching misconceptions:', error);
+      throw new Error(`Failed to fetch misconceptions: ${error.message}`);
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      concept: row.content_skill_name as string,
+      misconception_name: row.misconception_subtypes?.subtype_name || 'Misconception',
+      confidence_score: row.confidence_score,
+      retry_count: row.retry_count
+    }));
+  }
+
+  /**
+   * Create a session and record the starting score so improvement can be measured
+   */
+  static async startSession(request: StartTrailblazerSessionRequest): Promise<TrailblazerSession> {
+    const { data: session, error } = await supabase
+      .from('trailblazer_sessions')
+      .insert({
+        user_id: request.userId,
+        class_id: request.classId,
+        subject: request.subject,
+        grade: request.grade,
+        focus_concept: request.focusConcept,
+        goal_type: request.goalType,
+        duration_minutes: request.durationMinutes,
+        misconception_ids: request.misconceptionIds || [],
+        status: 'in_progress',
+        session_date: new Date().toISOString().split('T')[0]
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error starting trailblazer session:', error);
+      throw new Error(`Failed to start session: ${error.message}`);
+    }
+
+    const { error: deltaError } = await supabase
+      .from('learning_delta_log')
+      .insert({
+        user_id: request.userId,
+        session_id: session.id,
+        concept: request.focusConcept,
+        initial_score: request.baselineScore
+      });
+
+    if (deltaError) {
+      console.error('Error logging session baseline:', deltaError);
+    }
+
+    if (request.misconceptionIds && request.misconceptionIds.length > 0) {
+      const { error: linkError } = await supabase
+        .from('trailblazer_session_misconceptions')
+        .insert(request.misconceptionIds.map(misconceptionId => ({
+          session_id: session.id,
+          misconception_id: misconceptionId,
+          resolution_status: 'in_progress'
+        })));
+
+      if (linkError) {
+        console.error('Error linking session misconceptions:', linkError);
+      }
+    }
+
+    console.log(`🧭 Started Trailblazer session on "${request.focusConcept}" (${request.durationMinutes} min)`);
+    return session;
+  }
+
+  /**
+   * The concept score recorded when the session started
+   */
+  static async getBaselineScore(sessionId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('learning_delta_log')
+      .select('initial_score')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching session baseline:', error);
+    }
+
+    return data?.initial_score ?? DEFAULT_BASELINE_SCORE;
+  }
+
+  static async getSession(sessionId: string): Promise<TrailblazerSession | null> {
+    const { data, error } = await supabase
+      .from('trailblazer_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching trailblazer session:', error);
+      throw new Error(`Failed to fetch session: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  static async getRecentSessions(userId: string, limit: number = 5): Promise<TrailblazerSession[]> {
+    const { data, error } = await supabase
+      .from('trailblazer_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching trailblazer sessions:', error);
+      throw new Error(`Failed to fetch sessions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Finish a session: store the result, settle linked misconceptions, extend the
+   * streak and award any achievements the student just earned. Only a session still
+   * in progress and inside its time limit can be completed, so it counts once.
+   */
+  static async completeSession(request: CompleteTrailblazerSessionRequest): Promise<TrailblazerSessionOutcome> {
+    const { session, finalScore } = request;
+    const userId = session.user_id as string;
+
+    if (Date.now() > this.getDeadlines(session).closesAt) {
+      await this.abandonSession(session.id);
+      throw new Error('This session ran out of time');
+    }
+
+    const { data: delta } = await supabase
+      .from('learning_delta_log')
+      .select('id, initial_score')
+      .eq('session_id', session.id)
+      .maybeSingle();
+
+    const baselineScore = delta?.initial_score ?? DEFAULT_BASELINE_SCORE;
+    const scoreImprovement = Math.round((finalScore - baselineScore) * 100) / 100;
+    const startedAt = new Date(session.created_at || Date.now()).getTime();
+    const actualDurationMinutes = Math.max(1, Math.round((Date.now() - startedAt) / 60000));
+    const resolved = session.goal_type === 'misconception_repair' && finalScore >= RESOLVED_SCORE_THRESHOLD;
+
+    const { data, error } = await supabase
+      .from('trailblazer_sessions')
+      .update({
+        status: 'completed',
+        score_improvement: scoreImprovement,
+        actual_duration_minutes: actualDurationMinutes,
+        mistake_types_encountered: {
+          questionsMissed: request.questionsMissed,
+          totalQuestions: request.totalQuestions
+        } as Json
+      })
+      .eq('id', session.id)
+      .eq('status', 'in_progress')
+      .select('id');
+
+    if (error) {
+      console.error('Error completing trailblazer session:', error);
+      throw new Error(`Failed to complete session: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error('This session has already ended');
+    }
+
+    if (delta) {
+      await supabase
+        .from('learning_delta_log')
+        .update({ final_score: finalScore, improvement: scoreImprovement, logged_at: new Date().toISOString() })
+        .eq('id', delta.id);
+    }
+
+    if (session.misconception_ids && session.misconception_ids.length > 0) {
+      await supabase
+        .from('trailblazer_session_misconceptions')
+        .update({ resolution_status: resolved ? 'resolved' : 'persisting' })
+        .eq('session_id', session.id);
+
+      if (resolved) {
+        await supabase
+          .from('student_misconceptions')
+          .update({ corrected: true })
+          .in('id', session.misconception_ids);
+      }
+    }
+
+    const { error: streakError } = await supabase.rpc('update_user_streak', { p_user_id: userId });
+    if (streakError) {
+      console.error('Error updating streak:', streakError);
+    }
+
+    const streak = await this.getStreak(userId);
+    const newAchievements = await this.awardAchievements(userId, {
+      streak,
+      scoreImprovement,
+      finalScore,
+      goalType: session.goal_type
+    }, session.id);
+
+    console.log(`🏁 Trailblazer session ${session.id} complete: ${scoreImprovement >= 0 ? '+' : ''}${scoreImprovement} points, ${streak.current_streak_days}-day streak`);
+
+    return { scoreImprovement, streak, newAchievements };
+  }
+
+  static async abandonSession(sessionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('trailblazer_sessions')
+      .update({ status: 'abandoned' })
+      .eq('id', sessionId)
+      .eq('status', 'in_progress');
+
+    if (error) {
+      console.error('Error abandoning trailblazer session:', error);
+    }
+  }
+
+  static async getStreak(userId: string): Promise<TrailblazerStreak> {
+    const { data, error } = await supabase
+      .from('user_streaks')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching streak:', error);
+      throw new Error(`Failed to fetch streak: ${error.message}`);
+    }
+
+    return {
+      current_streak_days: data?.current_streak_days || 0,
+      longest_streak_days: data?.longest_streak_days || 0,
+      total_sessions: data?.total_sessions || 0,
+      last_session_date: data?.last_session_date || null
+    };
+  }
+
+  static async getAchievements(userId: string): Promise<TrailblazerAchievement[]> {
+    const { data, error } = await supabase
+      .from('trailblazer_achievements')
+      .select('id, achievement_type, achievement_name, description, icon_name, unlocked_at')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching achievements:', error);
+      throw new Error(`Failed to fetch achievements: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Roll-up of every student's Trailblazer activity in the teacher's classes
+   */
+  static async getTeacherStudentProgress(teacherId: string): Promise<TeacherTrailblazerProgress[]> {
+    const { data, error } = await supabase.rpc('get_teacher_students_trailblazer_progress', {
+      teacher_user_id: teacherId
+    });
+
+    if (error) {
+      console.error('Error fetching trailblazer progress:', error);
+      throw new Error(`Failed to fetch trailblazer progress: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private static async awardAchievements(
+    userId: string,
+    context: Parameters<AchievementDefinition['earned']>[0],
+    sessionId: string
+  ): Promise<TrailblazerAchievement[]> {
+    const existing = await this.getAchievements(userId);
+    const unlockedTypes = new Set(existing.map(achievement => achievement.achievement_type));
+    const earned = ACHIEVEMENTS.filter(def => !unlockedTypes.has(def.type) && def.earned(context));
+
+    if (earned.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('trailblazer_achievements')
+      .insert(earned.map(def => ({
+        user_id: userId,
+        achievement_type: def.type,
+        achievement_name: def.name,
+        description: def.description,
+        icon_name: def.icon,
+        metadata: { sessionId }
+      })))
+      .select('id, achievement_type, achievement_name, description, icon_name, unlocked_at');
+
+    if (error) {
+      console.error('Error awarding achievements:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
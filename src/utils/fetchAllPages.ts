@@ -0,0 +1,23 @@
+// PostgREST returns at most this many rows per request, so larger reads are paged
+export const PAGE_SIZE = 1000;
+
+type PageQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/**
+ * Run a query page by page with .range() until a short page comes back. The query
+ * must have a stable order (e.g. ending in the primary key) so rows don't shift
+ * between pages.
+ */
+export const fetchAllPages = async <T>(query: PageQuery<T>): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+};
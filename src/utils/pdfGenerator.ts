@@ -1,4 +1,6 @@
 import jsPDF from 'jspdf';
+import type { MathAnswerSpec } from '@/services/mathAnswerGradingService';
+import type { MatchPair } from '@/services/structuredQuestionService';
 
 // Re-export HTML-to-PDF functions with the same interface for compatibility
 export { 
@@ -10,11 +12,17 @@ export {
 // Keep the existing interfaces for compatibility
 export interface Question {
   id: string;
-  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay';
+  type: 'multiple-choice' | 'true-false' | 'short-answer' | 'essay' | 'numeric' | 'expression'
+    | 'multi-select' | 'matching' | 'ordering' | 'fill-in-blank';
   question: string;
-  options?: string[];
+  options?: string[]; // Ordering questions list their items in the correct order
   correctAnswer?: string | boolean;
+  correctAnswers?: string[]; // Multi-select correct options, or one answer per blank ("color|colour")
+  matchPairs?: MatchPair[];
   points: number;
+  rubricId?: string; // Essay / short-answer questions scored against a rubric
+  answerSpec?: MathAnswerSpec; // Tolerance, units and sig figs for numeric / expression questions
+  bankItemId?: string; // Question bank item this question was added from or saved to
 }
 
 export interface TestData {
@@ -0,0 +1,32 @@
+// Grading against the answer key alone, for when the model can't be asked (the AI
+// budget is used up). Only answers that match the key as written are trusted; anything
+// else is wrong for choice questions and left for the teacher to review otherwise.
+
+// Answer keys use both spellings (multiple_choice / multiple-choice)
+const CHOICE_TYPES = new Set(['multiple-choice', 'true-false']);
+
+function normalize(answer: unknown): string {
+  return String(answer ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.)]+$/, '');
+}
+
+/**
+ * True or false when the key decides the answer, null when it needs a person (or the model)
+ */
+export function matchAnswerKey(
+  studentAnswer: unknown,
+  correctAnswer: unknown,
+  options: { questionType?: string | null; acceptableAnswers?: unknown } = {}
+): boolean | null {
+  const answer = normalize(studentAnswer);
+  const accepted = [correctAnswer, ...(Array.isArray(options.acceptableAnswers) ? options.acceptableAnswers : [])]
+    .map(normalize)
+    .filter(Boolean);
+
+  if (accepted.length === 0) return null;
+  if (answer && accepted.includes(answer)) return true;
+  return CHOICE_TYPES.has((options.questionType || '').replace(/_/g, '-')) ? false : null;
+}
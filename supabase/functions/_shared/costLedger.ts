@@ -0,0 +1,131 @@
+// Records every model call in ai_usage_ledger so spend survives reloads and can be
+// budgeted per teacher and school. Ledger failures are logged and never fail the call
+// itself; a budget near its limit moves calls to the fast tier and a used-up one stops
+// them (see checkBudget and LedgerProvider).
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface LedgerContext {
+  // Edge function name, e.g. 'grade-complex-question'
+  service: string;
+  // Incoming request; its bearer token identifies the calling user
+  req?: Request;
+}
+
+export interface LedgerEntry {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  examId?: string;
+}
+
+// Mirrors BudgetMode in src/services/costTrackingService.ts
+export type BudgetMode = 'normal' | 'economy' | 'local_only';
+
+export interface BudgetCheck {
+  mode: BudgetMode;
+  // Which budget is near or past its limit
+  reason?: string;
+}
+
+const UNLIMITED: BudgetCheck = { mode: 'normal' };
+
+// USD per 1M tokens. Model names are matched by prefix so dated snapshots
+// (gpt-4o-mini-2024-07-18) price like their family; unknown models are free (local servers).
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.60 },
+  { prefix: 'gpt-4.1-mini', input: 0.40, output: 1.60 },
+  { prefix: 'gpt-4.1', input: 2.00, output: 8.00 },
+  { prefix: 'gpt-4o', input: 2.50, output: 10.00 },
+];
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING.find(p => model.startsWith(p.prefix));
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+let ledgerClient: ReturnType<typeof createClient> | null | undefined;
+
+function getLedgerClient() {
+  if (ledgerClient === undefined) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    ledgerClient = supabaseUrl && serviceKey ? createClient(supabaseUrl, serviceKey) : null;
+  }
+  return ledgerClient;
+}
+
+async function resolveUserId(req?: Request): Promise<string | null> {
+  const token = req?.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const client = getLedgerClient();
+  if (!token || !client) return null;
+
+  // Anon-key calls carry no user
+  const { data } = await client.auth.getUser(token);
+  return data?.user?.id ?? null;
+}
+
+export class CostLedger {
+  private userId: Promise<string | null> | null = null;
+
+  constructor(private context: LedgerContext) {}
+
+  private resolveUser(): Promise<string | null> {
+    if (!this.userId) {
+      this.userId = resolveUserId(this.context.req).catch(() => null);
+    }
+    return this.userId;
+  }
+
+  /**
+   * How a call charged to this user or exam may run. Budgets the database can't be
+   * asked about don't limit the call.
+   */
+  async checkBudget(examId?: string): Promise<BudgetCheck> {
+    const client = getLedgerClient();
+    if (!client) return UNLIMITED;
+
+    try {
+      const { data, error } = await client.rpc('ai_budget_mode', {
+        p_user_id: await this.resolveUser(),
+        p_exam_id: examId || null
+      });
+
+      if (error) {
+        console.warn('Failed to check AI budget:', error.message);
+        return UNLIMITED;
+      }
+      return (data as BudgetCheck | null) ?? UNLIMITED;
+    } catch (error) {
+      console.warn('Failed to check AI budget:', error);
+      return UNLIMITED;
+    }
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    const client = getLedgerClient();
+    if (!client) return;
+
+    try {
+      const costUsd = estimateCostUsd(entry.model, entry.promptTokens, entry.completionTokens);
+      const { error } = await client.from('ai_usage_ledger').insert({
+        service: this.context.service,
+        provider: entry.provider,
+        model: entry.model,
+        prompt_tokens: entry.promptTokens,
+        completion_tokens: entry.completionTokens,
+        cost_usd: costUsd,
+        exam_id: entry.examId || null,
+        user_id: await this.resolveUser()
+      });
+
+      if (error) {
+        console.warn('Failed to record AI usage:', error.message);
+      }
+    } catch (error) {
+      console.warn('Failed to record AI usage:', error);
+    }
+  }
+}
@@ -0,0 +1,366 @@
+// Shared LLM provider layer for edge functions.
+//
+// Functions ask for a completion by tier (or pass through the model AIModelRouter
+// picked on the client) instead of naming OpenAI models directly. The backend is
+// chosen with LLM_PROVIDER:
+//   openai             - api.openai.com, OPENAI_API_KEY (default)
+//   openai-compatible  - any server speaking the OpenAI chat API at LLM_BASE_URL
+//                        (llama.cpp, Ollama, vLLM, LM Studio...), LLM_API_KEY optional
+//   fixture            - replays recorded responses from LLM_FIXTURES_PATH; no network
+//
+// LLM_MODEL_FAST / LLM_MODEL_REASONING override the model used for each tier, and
+// LLM_RECORD_FIXTURES_PATH records every live response into a fixture file. Live
+// calls are checked against the teacher's and school's AI budgets and written to the
+// AI cost ledger (see costLedger.ts). Near a budget's limit reasoning-tier calls run on
+// the fast tier; once it is used up calls throw AIBudgetExceededError so callers can
+// fall back to grading without the model.
+
+import { CostLedger, type LedgerContext } from './costLedger.ts';
+
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | MessagePart[];
+}
+
+// Mirrors AIModelRouter: 'fast' is the gpt-4o-mini route, 'reasoning' the gpt-4.1 escalation
+export type ModelTier = 'fast' | 'reasoning';
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tier?: ModelTier;
+  // ModelRoutingDecision.selectedModel from the client router; wins over tier
+  routedModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  // Exam the call is for; the ledger charges it to that exam's teacher
+  examId?: string;
+}
+
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: string;
+  usage: CompletionUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/**
+ * The teacher's or school's AI budget is used up; the message says which
+ */
+export class AIBudgetExceededError extends LLMProviderError {
+  constructor(message: string) {
+    super(message, 402);
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
+const ROUTED_MODEL_TIERS: Record<string, ModelTier> = {
+  'gpt-4o-mini': 'fast',
+  'gpt-4.1-2025-04-14': 'reasoning'
+};
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  fast: 'gpt-4o-mini',
+  reasoning: 'gpt-4.1-2025-04-14'
+};
+
+const EMPTY_USAGE: CompletionUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+/**
+ * Tier for a request. Routed models the router doesn't send to an LLM
+ * (e.g. local_distilbert) fall back to the requested tier.
+ */
+export function resolveTier(request: Pick<CompletionRequest, 'tier' | 'routedModel'>): ModelTier {
+  if (request.routedModel && ROUTED_MODEL_TIERS[request.routedModel]) {
+    return ROUTED_MODEL_TIERS[request.routedModel];
+  }
+  return request.tier || 'fast';
+}
+
+/**
+ * Tier for a batch of routed questions: the strongest tier any of them was routed to
+ */
+export function resolveBatchTier(routedModels: Array<string | undefined>, fallback: ModelTier = 'fast'): ModelTier {
+  const tiers = routedModels
+    .filter((model): model is string => !!model && !!ROUTED_MODEL_TIERS[model])
+    .map(model => ROUTED_MODEL_TIERS[model]);
+
+  if (tiers.length === 0) return fallback;
+  return tiers.includes('reasoning') ? 'reasoning' : 'fast';
+}
+
+export function resolveModel(tier: ModelTier): string {
+  const override = Deno.env.get(tier === 'fast' ? 'LLM_MODEL_FAST' : 'LLM_MODEL_REASONING');
+  return override || DEFAULT_MODELS[tier];
+}
+
+interface OpenAIProviderOptions {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+}
+
+/**
+ * Chat completions against OpenAI or any server implementing the same API
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private options: OpenAIProviderOptions) {
+    this.name = options.name;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = resolveModel(resolveTier(request));
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.json && { response_format: { type: 'json_object' } })
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${this.name} API error:`, response.status, errorText);
+      throw new LLMProviderError(`${this.name} API error: ${response.status} - ${errorText}`, response.status);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMProviderError(`${this.name} returned no completion content`);
+    }
+
+    return {
+      content,
+      model: data.model || model,
+      provider: this.name,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+            totalTokens: data.usage.total_tokens || 0
+          }
+        : EMPTY_USAGE
+    };
+  }
+}
+
+/**
+ * A recorded response. Matched by exact request key first, then by the first
+ * fixture whose `contains` text appears in the last user message.
+ */
+export interface LLMFixture {
+  key?: string;
+  contains?: string;
+  content: string;
+  usage?: CompletionUsage;
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+  const message = [...messages].reverse().find(m => m.role === 'user');
+  if (!message) return '';
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => part.type === 'text' ? part.text : '').join('\n');
+}
+
+/**
+ * Stable key for a request: SHA-256 of the messages and output mode. Model and
+ * sampling settings are left out so fixtures survive model changes.
+ */
+export async function fixtureKey(request: CompletionRequest): Promise<string> {
+  const payload = JSON.stringify({ messages: request.messages, json: !!request.json });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function readFixtures(path: string): Promise<LLMFixture[]> {
+  try {
+    const parsed = JSON.parse(await Deno.readTextFile(path));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return [];
+    throw new LLMProviderError(`Could not read LLM fixtures from ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Deterministic offline provider for development and tests
+ */
+export class FixtureReplayProvider implements LLMProvider {
+  readonly name = 'fixture';
+  private fixtures: Promise<LLMFixture[]> | null = null;
+
+  constructor(private path: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.fixtures) {
+      this.fixtures = readFixtures(this.path);
+    }
+    const fixtures = await this.fixtures;
+    const key = await fixtureKey(request);
+    const userText = lastUserText(request.messages);
+
+    const fixture = fixtures.find(f => f.key === key)
+      || fixtures.find(f => !f.key && f.contains !== undefined && userText.includes(f.contains));
+
+    if (!fixture) {
+      throw new LLMProviderError(`No LLM fixture for request ${key} in ${this.path}`, 404);
+    }
+
+    return {
+      content: fixture.content,
+      model: `fixture:${resolveModel(resolveTier(request))}`,
+      provider: this.name,
+      usage: fixture.usage || EMPTY_USAGE
+    };
+  }
+}
+
+/**
+ * Wraps a live provider and appends each response to a fixture file, so a real
+ * run can be replayed later with LLM_PROVIDER=fixture
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private path: string) {
+    this.name = inner.name;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const result = await this.inner.complete(request);
+
+    try {
+      const fixtures = await readFixtures(this.path);
+      const key = await fixtureKey(request);
+      const recorded = fixtures.filter(f => f.key !== key);
+      recorded.push({ key, content: result.content, usage: result.usage });
+      await Deno.writeTextFile(this.path, JSON.stringify(recorded, null, 2));
+      console.log(`📼 Recorded LLM fixture ${key.substring(0, 12)}`);
+    } catch (error) {
+      console.warn('Failed to record LLM fixture:', error);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Wraps a live provider and writes each call's token usage and cost to the ledger
+ */
+export class LedgerProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private ledger: CostLedger) {
+    this.name = inner.name;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const budget = await this.ledger.checkBudget(request.examId);
+    if (budget.mode === 'local_only') {
+      throw new AIBudgetExceededError(budget.reason || 'The monthly AI budget is used up');
+    }
+
+    // Same downgrade as AIModelRouter.applyBudget in economy mode
+    const downgrade = budget.mode === 'economy' && resolveTier(request) === 'reasoning';
+    if (downgrade) {
+      console.log(`💰 ${budget.reason}; running on the fast tier`);
+    }
+
+    const result = await this.inner.complete(
+      downgrade ? { ...request, tier: 'fast', routedModel: undefined } : request
+    );
+    await this.ledger.record({
+      provider: result.provider,
+      model: result.model,
+      promptTokens: result.usage.promptTokens,
+      completionTokens: result.usage.completionTokens,
+      examId: request.examId
+    });
+    return result;
+  }
+}
+
+/**
+ * Provider configured by the function's environment
+ */
+export function createLLMProvider(context: LedgerContext): LLMProvider {
+  const kind = Deno.env.get('LLM_PROVIDER') || 'openai';
+  let provider: LLMProvider;
+
+  switch (kind) {
+    case 'fixture': {
+      const path = Deno.env.get('LLM_FIXTURES_PATH');
+      if (!path) {
+        throw new LLMProviderError('LLM_FIXTURES_PATH must be set for the fixture provider');
+      }
+      return new FixtureReplayProvider(path);
+    }
+    case 'openai-compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      if (!baseUrl) {
+        throw new LLMProviderError('LLM_BASE_URL must be set for the openai-compatible provider');
+      }
+      provider = new OpenAIProvider({ name: 'openai-compatible', baseUrl, apiKey: Deno.env.get('LLM_API_KEY') });
+      break;
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new LLMProviderError('OpenAI API key not configured');
+      }
+      provider = new OpenAIProvider({ name: 'OpenAI', baseUrl: 'https://api.openai.com/v1', apiKey });
+      break;
+    }
+    default:
+      throw new LLMProviderError(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+
+  const recordPath = Deno.env.get('LLM_RECORD_FIXTURES_PATH');
+  if (recordPath) {
+    provider = new RecordingProvider(provider, recordPath);
+  }
+  return new LedgerProvider(provider, new CostLedger(context));
+}
+
+/**
+ * Parse a JSON completion, tolerating markdown code fences around it
+ */
+export function parseJSONCompletion<T = unknown>(content: string): T {
+  const cleaned = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(cleaned);
+}
@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createLLMProvider } from "../_shared/llm.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Proposed skills at or above this confidence are created straight away (and can be undone);
+// everything else waits in the teacher review queue
+const AUTO_CREATE_CONFIDENCE = 0.9;
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -17,14 +22,15 @@ serve(async (req) => {
     const { examId } = await req.json();
     
     // Validate environment
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY');
     
-    if (!openaiApiKey || !supabaseUrl || !supabaseKey) {
+    if (!supabaseUrl || !supabaseKey) {
       throw new Error('Missing required API keys');
     }
 
+    const llm = createLLMProvider({ service: 'analyze-exam-skills', req });
+
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     console.log('Step 1: Checking if skill analysis already exists for exam:', examId);
@@ -201,10 +207,14 @@ serve(async (req) => {
     const systemPrompt = `You are an educational skill mapping expert. Analyze each question and map it ONLY to relevant content and subject skills from the provided ${usingFallbackSkills ? 'standard curriculum' : 'class-specific'} skill lists.
 
 CRITICAL CONSTRAINTS:
-- You MUST ONLY use skills from the provided lists below
-- You CANNOT create new skills or suggest skills not in these lists
+- You MUST ONLY use skills from the provided lists below in "mappings"
 - Each skill mapping MUST use the exact skill ID provided
 - If no suitable skill exists in the lists, mark as "no_suitable_skill"
+
+PROPOSING MISSING SKILLS:
+- When one or more questions clearly test something no listed skill covers, add it to "proposed_skills" instead of forcing a mapping
+- Never propose a skill that duplicates or merely rewords a listed skill
+- Give a confidence (0.1-1.0) that the skill is genuinely missing, the reasoning, and a short quote or paraphrase from the questions as context_evidence
 - This analysis is for ${examData.classes?.name || 'Unknown Class'} (${examData.classes?.subject} ${examData.classes?.grade})
 
 NEW ENHANCEMENT - CONCEPT GROUPING:
@@ -252,6 +262,18 @@ Return JSON format:
       "no_suitable_skills": false
     }
   ],
+  "proposed_skills": [
+    {
+      "skill_name": "Short skill name",
+      "skill_description": "What the skill covers",
+      "skill_type": "content",
+      "topic": "TOPIC NAME",
+      "question_numbers": [4],
+      "confidence": 0.8,
+      "reasoning": "Why no listed skill fits",
+      "context_evidence": "Q4 asks students to ..."
+    }
+  ],
   "summary": {
     "total_questions_mapped": 10,
     "content_skills_used": 5,
@@ -269,31 +291,18 @@ ${questionsText}
 
 IMPORTANT: Only use skill IDs and names from the provided ${usingFallbackSkills ? 'standard curriculum' : 'class-specific'} lists. Include concept_missed_short for each skill mapping to enable concept grouping analytics.`;
 
-    const aiPayload = {
-      model: "gpt-4.1-2025-04-14",
+    const completion = await llm.complete({
+      examId,
+      tier: 'reasoning',
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt }
       ],
-      max_tokens: 3000,
+      maxTokens: 3000,
       temperature: 0.1
-    };
-
-    const aiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify(aiPayload)
     });
 
-    if (!aiResponse.ok) {
-      throw new Error(`OpenAI API error: ${aiResponse.statusText}`);
-    }
-
-    const result = await aiResponse.json();
-    const analysisText = result.choices[0]?.message?.content || "{}";
+    const analysisText = completion.content || "{}";
     
     let skillMappings;
     try {
@@ -373,6 +382,17 @@ IMPORTANT: Only use skill IDs and names from the provided ${usingFallbackSkills
       }
     }
 
+    console.log('Step 6: Recording proposed skills for teacher review');
+
+    const proposalStats = await recordProposedSkills(supabase, {
+      proposals: skillMappings.proposed_skills || [],
+      examId,
+      classId: examData.class_id,
+      subject: examData.classes?.subject || 'Math',
+      grade: examData.classes?.grade || 'Grade 10',
+      existingSkillNames: [...availableContentSkills, ...availableSubjectSkills].map(skill => skill.skill_name)
+    });
+
     // Update analysis record with completion
     await supabase
       .from('exam_skill_analysis')
@@ -393,7 +413,9 @@ IMPORTANT: Only use skill IDs and names from the provided ${usingFallbackSkills
             available_content_skills: availableContentSkills.length,
             available_subject_skills: availableSubjectSkills.length,
             concept_grouping_enabled: true,
-            unique_concepts_identified: skillMappings.summary?.unique_concepts_identified || 0
+            unique_concepts_identified: skillMappings.summary?.unique_concepts_identified || 0,
+            skills_queued_for_review: proposalStats.queued,
+            skills_auto_created: proposalStats.autoCreated
           }
         }
       })
@@ -420,6 +442,8 @@ IMPORTANT: Only use skill IDs and names from the provided ${usingFallbackSkills
         invalid_skills_rejected: invalidSkillsRejected,
         concept_grouping_enabled: true,
         unique_concepts_identified: skillMappings.summary?.unique_concepts_identified || 0,
+        skills_queued_for_review: proposalStats.queued,
+        skills_auto_created: proposalStats.autoCreated,
         class_scoped_validation: true,
         skill_mappings: skillMappings
       }),
@@ -460,3 +484,132 @@ IMPORTANT: Only use skill IDs and names from the provided ${usingFallbackSkills
     );
   }
 })
+
+// A skill the model found no existing match for, as returned in "proposed_skills"
+interface ProposedSkill {
+  skill_name?: string;
+  skill_description?: string;
+  skill_type?: string;
+  topic?: string;
+  confidence?: number;
+  reasoning?: string;
+  context_evidence?: string;
+  question_numbers?: unknown[];
+}
+
+async function recordProposedSkills(supabase: SupabaseClient, params: {
+  proposals: ProposedSkill[];
+  examId: string;
+  classId: string;
+  subject: string;
+  grade: string;
+  existingSkillNames: string[];
+}): Promise<{ queued: number; autoCreated: number }> {
+  const { examId, classId, subject, grade } = params;
+  const knownNames = new Set(params.existingSkillNames.map(name => name.toLowerCase().trim()));
+
+  // Skip anything already waiting for review in this class
+  const { data: pendingRows } = await supabase
+    .from('skill_review_queue')
+    .select('skill_name')
+    .eq('class_id', classId)
+    .eq('status', 'pending');
+  (pendingRows || []).forEach((row: { skill_name: string }) => knownNames.add(row.skill_name.toLowerCase().trim()));
+
+  let queued = 0;
+  let autoCreated = 0;
+
+  for (const proposal of params.proposals) {
+    const skillName = (proposal.skill_name || '').trim();
+    if (!skillName || knownNames.has(skillName.toLowerCase())) continue;
+    knownNames.add(skillName.toLowerCase());
+
+    const skillType = proposal.skill_type === 'subject' ? 'subject' : 'content';
+    const confidence = Math.min(Math.max(proposal.confidence || 0, 0), 1);
+    const questionNumbers = (proposal.question_numbers || []).filter((n): n is number => Number.isInteger(n));
+    const topic = proposal.topic || 'General';
+    const skillDescription = proposal.skill_description || skillName;
+
+    try {
+      if (confidence >= AUTO_CREATE_CONFIDENCE) {
+        const skillTable = skillType === 'content' ? 'content_skills' : 'subject_skills';
+        const { data: createdSkill, error: createError } = await supabase
+          .from(skillTable)
+          .insert(skillType === 'content'
+            ? { skill_name: skillName, skill_description: skillDescription, topic, subject, grade }
+            : { skill_name: skillName, skill_description: skillDescription, subject, grade })
+          .select()
+          .single();
+
+        if (createError) throw createError;
+
+        await supabase
+          .from(skillType === 'content' ? 'class_content_skills' : 'class_subject_skills')
+          .insert(skillType === 'content'
+            ? { class_id: classId, content_skill_id: createdSkill.id }
+            : { class_id: classId, subject_skill_id: createdSkill.id });
+
+        if (questionNumbers.length > 0) {
+          await supabase
+            .from('exam_skill_mappings')
+            .insert(questionNumbers.map((questionNumber: number) => ({
+              exam_id: examId,
+              question_number: questionNumber,
+              skill_type: skillType,
+              skill_id: createdSkill.id,
+              skill_name: skillName,
+              skill_weight: 1.0,
+              confidence,
+              auto_created_skill: true,
+              creation_confidence: confidence
+            })));
+        }
+
+        await supabase
+          .from('skill_auto_creation_log')
+          .insert({
+            class_id: classId,
+            exam_id: examId,
+            skill_id: createdSkill.id,
+            skill_name: skillName,
+            skill_type: skillType,
+            skill_description: skillDescription,
+            confidence,
+            reasoning: proposal.reasoning || '',
+            context_data: { topic, question_numbers: questionNumbers, context_evidence: proposal.context_evidence || '' }
+          });
+
+        autoCreated++;
+        console.log(`Auto-created ${skillType} skill "${skillName}" (confidence ${confidence})`);
+      } else {
+        const { error: queueError } = await supabase
+          .from('skill_review_queue')
+          .insert({
+            class_id: classId,
+            exam_id: examId,
+            skill_name: skillName,
+            skill_description: skillDescription,
+            skill_type: skillType,
+            topic,
+            subject,
+            grade,
+            confidence,
+            reasoning: proposal.reasoning || '',
+            context_evidence: proposal.context_evidence || '',
+            question_numbers: questionNumbers,
+            status: 'pending'
+          });
+
+        if (queueError) throw queueError;
+
+        queued++;
+        console.log(`Queued ${skillType} skill "${skillName}" for teacher review (confidence ${confidence})`);
+      }
+    } catch (proposalError) {
+      // A bad proposal shouldn't fail the whole analysis
+      console.error(`Failed to record proposed skill "${skillName}":`, proposalError);
+    }
+  }
+
+  return { queued, autoCreated };
+}
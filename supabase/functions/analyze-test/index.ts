@@ -1,6 +1,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AIBudgetExceededError, createLLMProvider, resolveBatchTier } from "../_shared/llm.ts"
+import { matchAnswerKey } from "../_shared/answerKey.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,6 +31,28 @@ interface GradingResult {
   confidence: number;
   reasoning?: string;
   skillAlignment?: string[];
+  criterionScores?: CriterionScore[];
+  studentAnswer?: string;
+}
+
+interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  skillName?: string;
+  skillType?: 'content' | 'subject';
+  levels: Array<{ label: string; points: number; description: string; exemplar?: string }>;
+}
+
+interface CriterionScore {
+  criterionId: string;
+  criterion: string;
+  level?: string;
+  pointsEarned: number;
+  pointsPossible: number;
+  justification: string;
+  skillName?: string;
+  skillType?: 'content' | 'subject';
 }
 
 interface BatchGradingResponse {
@@ -84,7 +108,9 @@ function validateGradingResult(data: any): { valid: boolean; data?: GradingResul
       pointsEarned: data.pointsEarned,
       confidence: data.confidence,
       reasoning: data.reasoning,
-      skillAlignment: data.skillAlignment
+      skillAlignment: data.skillAlignment,
+      // Checked against the question's rubric once grading is done
+      criterionScores: Array.isArray(data.criterionScores) ? data.criterionScores : undefined
     }
   };
 }
@@ -196,6 +222,43 @@ function createFallbackResults(questionCount: number, reason: string): GradingRe
   return fallbackResults;
 }
 
+// Grade a batch from the answer key alone once the AI budget is used up. Answers the key
+// can't decide (open responses, rubrics) score zero and are flagged for review
+function gradeAgainstAnswerKeys(
+  questionBatch: Array<{ questionNumber: number; detectedAnswer?: { selectedOption?: string } }>,
+  answerKeys: Array<{
+    question_number: number;
+    correct_answer?: string;
+    question_type?: string;
+    acceptable_answers?: unknown;
+    points?: number;
+    rubric?: unknown;
+  }>,
+  reason: string
+): GradingResult[] {
+  return questionBatch.map(question => {
+    const answerKey = answerKeys.find(ak => ak.question_number === question.questionNumber)
+    const points = answerKey?.points || 1
+    const match = answerKey?.rubric
+      ? null
+      : matchAnswerKey(question.detectedAnswer?.selectedOption, answerKey?.correct_answer, {
+          questionType: answerKey?.question_type,
+          acceptableAnswers: answerKey?.acceptable_answers
+        })
+
+    return {
+      questionNumber: question.questionNumber,
+      isCorrect: match === true,
+      pointsEarned: match === true ? points : 0,
+      confidence: match === null ? 0.1 : 0.9,
+      reasoning: match === null
+        ? `${reason}. Could not be graded from the answer key; manual review required.`
+        : `${reason}. Graded against the answer key without AI.`,
+      skillAlignment: []
+    }
+  })
+}
+
 // Enhanced prompt with corrected JSON format requirements
 function createOptimizedBatchPrompt(questionBatch: any[], answerKeyBatch: any[], skillMappings: any[]): string {
   const questionCount = questionBatch.length;
@@ -225,44 +288,177 @@ CRITICAL REQUIREMENTS:
 - confidence: number (0.0 to 1.0)
 - reasoning: string (brief explanation)
 - skillAlignment: array of strings
+- criterionScores: for questions with a RUBRIC only, one entry per criterion:
+  { "criterionId": "<id>", "level": "<level label>", "pointsEarned": number, "justification": "why this level" }
 
 QUESTIONS TO ANALYZE:
 ${questionBatch.map((q, index) => {
   const answerKey = answerKeyBatch[index];
   const skills = skillMappings[index] || [];
+  const rubric = answerKey?.rubric ? `\n${formatRubricForPrompt(answerKey.rubric.criteria)}` : '';
   
   return `Q${q.questionNumber}: ${answerKey?.question_text || 'Question text not available'}
 Student Answer: "${q.detectedAnswer?.selectedOption || 'No answer detected'}"
 Correct Answer: "${answerKey?.correct_answer || 'Not specified'}"
 Points Possible: ${answerKey?.points || 1}
-Target Skills: ${skills.map(s => s.skill_name).join(', ') || 'General'}
+Target Skills: ${skills.map(s => s.skill_name).join(', ') || 'General'}${rubric}
 ---`;
 }).join('\n')}
 
 Respond with ONLY the JSON object. No explanations, no markdown, no additional text.`;
 }
 
+function formatRubricForPrompt(criteria: RubricCriterion[]): string {
+  return `RUBRIC (score each criterion by choosing the level that best matches the answer):
+${criteria.map(criterion => `- [${criterion.id}] ${criterion.name}${criterion.description ? `: ${criterion.description}` : ''}
+${criterion.levels.map(level => `    ${level.label} (${level.points} pts): ${level.description}${level.exemplar ? ` Exemplar: "${level.exemplar}"` : ''}`).join('\n')}`).join('\n')}`;
+}
+
+// Keep the model's criterion scores within the rubric and derive the question score from them
+function applyRubricScores(
+  result: GradingResult,
+  answerKey: { points?: number; rubric: { criteria?: RubricCriterion[]; total_points?: number } }
+): GradingResult {
+  const criteria: RubricCriterion[] = answerKey.rubric.criteria || [];
+  const rubricTotal = Number(answerKey.rubric.total_points) || 0;
+  const returned = result.criterionScores || [];
+
+  const criterionScores: CriterionScore[] = criteria.map(criterion => {
+    const scored: Partial<CriterionScore> = returned.find(score => score?.criterionId === criterion.id) || {};
+    const pointsPossible = Math.max(0, ...criterion.levels.map(level => Number(level.points) || 0));
+    return {
+      criterionId: criterion.id,
+      criterion: criterion.name,
+      level: typeof scored.level === 'string' ? scored.level : undefined,
+      pointsEarned: Math.max(0, Math.min(pointsPossible, Number(scored.pointsEarned) || 0)),
+      pointsPossible,
+      justification: String(scored.justification || 'No justification returned; review recommended.'),
+      skillName: criterion.skillName,
+      skillType: criterion.skillType
+    };
+  });
+
+  if (criterionScores.length === 0 || rubricTotal <= 0) {
+    return result;
+  }
+
+  const rubricEarned = criterionScores.reduce((sum, score) => sum + score.pointsEarned, 0);
+  const pointsPossible = answerKey.points || 1;
+  const pointsEarned = Math.round((rubricEarned / rubricTotal) * pointsPossible * 100) / 100;
+
+  return {
+    ...result,
+    pointsEarned,
+    isCorrect: pointsEarned >= pointsPossible,
+    criterionScores
+  };
+}
+
+// Criterion scores tied to a skill are rolled up into the student's skill scores
+async function saveRubricSkillScores(
+  supabase: SupabaseClient,
+  testResultId: string,
+  studentProfileId: string,
+  gradingResults: GradingResult[]
+) {
+  const totals = new Map<string, { skillType: 'content' | 'subject'; skillName: string; earned: number; possible: number }>()
+
+  for (const score of gradingResults.flatMap(result => result.criterionScores || [])) {
+    if (!score.skillName || score.pointsPossible <= 0) continue
+    const skillType = score.skillType === 'subject' ? 'subject' : 'content'
+    const key = `${skillType}:${score.skillName}`
+    const total = totals.get(key) || { skillType, skillName: score.skillName, earned: 0, possible: 0 }
+    total.earned += score.pointsEarned
+    total.possible += score.pointsPossible
+    totals.set(key, total)
+  }
+
+  for (const skillType of ['content', 'subject'] as const) {
+    const skillTotals = [...totals.values()].filter(total => total.skillType === skillType)
+    if (skillTotals.length === 0) continue
+
+    const table = skillType === 'content' ? 'content_skill_scores' : 'subject_skill_scores'
+
+    // Fold rubric points into any score already stored for the skill on this test
+    // instead of adding a second row for it
+    const { data: existingRows, error: existingError } = await supabase
+      .from(table)
+      .select('id, skill_name, points_earned, points_possible')
+      .eq('test_result_id', testResultId)
+      .in('skill_name', skillTotals.map(total => total.skillName))
+
+    if (existingError) {
+      console.error(`⚠️ Failed to load existing ${skillType} skill scores:`, existingError)
+      continue
+    }
+
+    const rows = []
+    for (const total of skillTotals) {
+      const existing = (existingRows || []).find((row: { skill_name: string }) => row.skill_name === total.skillName)
+      const earned = total.earned + (existing ? Number(existing.points_earned) || 0 : 0)
+      const possible = total.possible + (existing ? Number(existing.points_possible) || 0 : 0)
+      const merged = {
+        points_earned: earned,
+        points_possible: possible,
+        score: Math.round((earned / possible) * 10000) / 100
+      }
+
+      if (existing) {
+        const { error } = await supabase.from(table).update(merged).eq('id', existing.id)
+        if (error) {
+          console.error(`⚠️ Failed to merge rubric ${skillType} skill score for ${total.skillName}:`, error)
+        }
+      } else {
+        rows.push({
+          test_result_id: testResultId,
+          student_id: studentProfileId,
+          skill_name: total.skillName,
+          ...merged
+        })
+      }
+    }
+
+    if (rows.length === 0) continue
+
+    const { error } = await supabase.from(table).insert(rows)
+
+    if (error) {
+      console.error(`⚠️ Failed to save rubric ${skillType} skill scores:`, error)
+    }
+  }
+}
+
 // Enhanced database transaction handling with class_id resolution
 async function saveResultsToDatabase(
   supabase: any,
   examId: string,
   studentName: string,
+  authenticatedStudentId: string | null,
   gradingResults: GradingResult[],
   totalPointsEarned: number,
   totalPointsPossible: number,
   overallScore: number,
   grade: string,
   aiFeedback?: string
-): Promise<{ success: boolean; testResultId?: string; error?: string }> {
+): Promise<{ success: boolean; testResultId?: string; studentProfileId?: string; error?: string }> {
   console.log('💾 Starting database transaction with class_id resolution...');
   
   try {
-    // First, get or create student profile
-    const { data: existingProfile } = await supabase
-      .from('student_profiles')
-      .select('id')
-      .eq('student_name', studentName)
-      .maybeSingle();
+    // First, get or create student profile. Signed-in quiz takers are matched by their
+    // login, uploaded sheets by the name on them.
+    const { data: existingProfile } = authenticatedStudentId
+      ? await supabase
+        .from('student_profiles')
+        .select('id')
+        .eq('authenticated_user_id', authenticatedStudentId)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+      : await supabase
+        .from('student_profiles')
+        .select('id')
+        .eq('student_name', studentName)
+        .maybeSingle();
     
     let studentProfileId: string;
     
@@ -271,7 +467,7 @@ async function saveResultsToDatabase(
     } else {
       const { data: newProfile, error: profileError } = await supabase
         .from('student_profiles')
-        .insert({ student_name: studentName })
+        .insert({ student_name: studentName, authenticated_user_id: authenticatedStudentId })
         .select('id')
         .single();
       
@@ -331,11 +527,22 @@ async function saveResultsToDatabase(
       .insert({
         exam_id: examId,
         student_id: studentProfileId,
+        authenticated_student_id: authenticatedStudentId,
         class_id: classId,
         overall_score: overallScore,
         total_points_earned: totalPointsEarned,
         total_points_possible: totalPointsPossible,
-        ai_feedback: aiFeedback || `Processed ${gradingResults.length} questions with enhanced validation`
+        ai_feedback: aiFeedback || `Processed ${gradingResults.length} questions with enhanced validation`,
+        // Per-question points, read back by the gradebook export
+        detailed_analysis: JSON.stringify({
+          questionResults: gradingResults.map(result => ({
+            questionNumber: result.questionNumber,
+            pointsEarned: result.pointsEarned,
+            isCorrect: result.isCorrect,
+            studentAnswer: result.studentAnswer,
+            ...(result.criterionScores ? { criterionScores: result.criterionScores } : {})
+          }))
+        })
       })
       .select('id')
       .single();
@@ -346,9 +553,12 @@ async function saveResultsToDatabase(
     
     console.log(`✅ Test result saved: ${testResult.id} with class_id: ${classId}`);
     
+    await saveRubricSkillScores(supabase, testResult.id, studentProfileId, gradingResults);
+    
     return {
       success: true,
-      testResultId: testResult.id
+      testResultId: testResult.id,
+      studentProfileId
     };
     
   } catch (error) {
@@ -360,6 +570,35 @@ async function saveResultsToDatabase(
   }
 }
 
+// Hand the graded questions to the misconception detector; failures never block grading
+async function detectMisconceptionAlerts(
+  supabase: SupabaseClient,
+  examId: string,
+  studentProfileId: string,
+  questions: Array<{ questionNumber: number; detectedAnswer?: { multipleMarksDetected?: boolean } }>,
+  gradingResults: GradingResult[],
+  skillLookup: Record<number, Array<{ skill_name: string }>>
+) {
+  const observations = gradingResults.map(result => {
+    const question = questions.find(q => q.questionNumber === result.questionNumber)
+    return {
+      questionId: String(result.questionNumber),
+      questionNumber: result.questionNumber,
+      skillName: skillLookup[result.questionNumber]?.[0]?.skill_name,
+      isCorrect: result.isCorrect,
+      multipleMarks: !!question?.detectedAnswer?.multipleMarksDetected
+    }
+  })
+
+  const { error } = await supabase.functions.invoke('detect-misconception-alerts', {
+    body: { studentId: studentProfileId, examId, observations }
+  })
+
+  if (error) {
+    console.error('⚠️ Misconception detection failed:', error)
+  }
+}
+
 // Question complexity analyzer for adaptive batching
 function analyzeQuestionComplexity(question: any, answerKey: any): number {
   let complexity = 0;
@@ -416,11 +655,48 @@ serve(async (req) => {
     
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!
     
     const supabase = createClient(supabaseUrl, supabaseKey)
+    const llm = createLLMProvider({ service: 'analyze-test', req })
     
-    const { files, examId, studentName, studentEmail } = await req.json()
+    // routedModels: optional AIModelRouter decisions keyed by question number
+    // quizSessionId: the online quiz session being submitted, if any
+    const { files, examId, studentName, studentEmail, routedModels, quizSessionId } = await req.json()
+
+    // Quiz sessions can't be submitted past their time limit. Assignment quizzes are taken
+    // signed in, so they belong to that student rather than whatever name was typed; only
+    // the student who started the session may submit it
+    let authenticatedStudentId: string | null = null
+    if (quizSessionId) {
+      const { data: expired } = await supabase.rpc('quiz_session_expired', { p_session_id: quizSessionId })
+      if (expired) {
+        return new Response(JSON.stringify({ error: 'The time limit for this quiz has passed' }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 409,
+        })
+      }
+
+      const { data: quizSession } = await supabase
+        .from('student_quiz_sessions')
+        .select('authenticated_student_id')
+        .eq('id', quizSessionId)
+        .maybeSingle()
+
+      if (quizSession?.authenticated_student_id) {
+        const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+        const { data: userData } = token
+          ? await supabase.auth.getUser(token)
+          : { data: { user: null } }
+
+        if (userData.user?.id !== quizSession.authenticated_student_id) {
+          return new Response(JSON.stringify({ error: 'Sign in as the student who started this quiz to submit it' }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 403,
+          })
+        }
+        authenticatedStudentId = quizSession.authenticated_student_id
+      }
+    }
     
     console.log(`📊 Processing ${files.length} files for exam: ${examId}`)
     
@@ -441,6 +717,19 @@ serve(async (req) => {
       .eq('exam_id', examId)
       .order('question_number')
     
+    // Open-response questions may be scored against a teacher rubric
+    const rubricIds = [...new Set((answerKeys || []).map(ak => ak.rubric_id).filter(Boolean))]
+    if (rubricIds.length > 0) {
+      const { data: rubrics } = await supabase
+        .from('rubrics')
+        .select('id, criteria, total_points')
+        .in('id', rubricIds)
+      
+      for (const answerKey of answerKeys || []) {
+        answerKey.rubric = rubrics?.find(rubric => rubric.id === answerKey.rubric_id) || null
+      }
+    }
+    
     const { data: skillMappings } = await supabase
       .from('exam_skill_mappings')
       .select('*')
@@ -475,6 +764,8 @@ serve(async (req) => {
     const gradingResults: GradingResult[] = []
     let totalApiCalls = 0
     let totalValidationFailures = 0
+    // Set once the AI budget stops model calls; later batches go straight to the answer key
+    let budgetNotice: string | null = null
     
     for (let i = 0; i < allQuestions.length; i += optimalBatchSize) {
       const questionBatch = allQuestions.slice(i, i + optimalBatchSize)
@@ -491,42 +782,36 @@ serve(async (req) => {
         return skillLookup[q.questionNumber] || []
       })
       
+      if (budgetNotice) {
+        gradingResults.push(...gradeAgainstAnswerKeys(questionBatch, answerKeys, budgetNotice))
+        continue
+      }
+      
       try {
         const prompt = createOptimizedBatchPrompt(questionBatch, answerKeyBatch, skillMappingBatch)
         
-        // Enhanced OpenAI call with corrected format
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert test grader. Always respond with valid JSON in the specified object format with a "results" array. No explanations, no markdown formatting.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            // Removed conflicting response_format constraint
-            temperature: 0.1,
-            max_tokens: 4000,
-          }),
+        // A batch runs on the strongest model the router picked for any of its questions
+        const completion = await llm.complete({
+          examId,
+          tier: resolveBatchTier(questionBatch.map(q => routedModels?.[q.questionNumber])),
+          messages: [
+            {
+              role: 'system',
+              content: 'You are an expert test grader. Always respond with valid JSON in the specified object format with a "results" array. No explanations, no markdown formatting.'
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          // Removed conflicting response_format constraint
+          temperature: 0.1,
+          maxTokens: 4000,
         })
         
         totalApiCalls++
         
-        if (!openaiResponse.ok) {
-          throw new Error(`OpenAI API error: ${openaiResponse.status}`)
-        }
-        
-        const openaiResult = await openaiResponse.json()
-        const responseContent = openaiResult.choices[0]?.message?.content || '{}'
+        const responseContent = completion.content || '{}'
         
         // Parse and validate response with enhanced error handling
         const parseResult = await parseAIResponseWithValidation(responseContent, questionBatch.length)
@@ -547,6 +832,13 @@ serve(async (req) => {
         }
         
       } catch (batchError) {
+        if (batchError instanceof AIBudgetExceededError) {
+          console.log(`💰 ${batchError.message} - grading batch ${batchNumber} against the answer key`)
+          budgetNotice = batchError.message
+          gradingResults.push(...gradeAgainstAnswerKeys(questionBatch, answerKeys, budgetNotice))
+          continue
+        }
+        
         console.error(`❌ Batch ${batchNumber} processing failed:`, batchError)
         totalValidationFailures++
         
@@ -559,6 +851,18 @@ serve(async (req) => {
       }
     }
     
+    // Rubric-graded questions take their score from the criterion levels
+    for (let i = 0; i < gradingResults.length; i++) {
+      const answerKey = answerKeys.find(ak => ak.question_number === gradingResults[i].questionNumber)
+      if (answerKey?.rubric) {
+        gradingResults[i] = applyRubricScores(gradingResults[i], answerKey)
+      }
+      
+      // Kept so a teacher override can correct the cached grade for the same answer
+      const question = allQuestions.find(q => q.questionNumber === gradingResults[i].questionNumber)
+      gradingResults[i].studentAnswer = question?.detectedAnswer?.selectedOption?.trim() || ''
+    }
+    
     // Calculate final scores
     const totalPointsEarned = gradingResults.reduce((sum, result) => sum + result.pointsEarned, 0)
     const totalPointsPossible = answerKeys.reduce((sum, ak) => sum + (ak.points || 1), 0)
@@ -573,20 +877,29 @@ serve(async (req) => {
     
     const processingTime = Date.now() - startTime
     const validationSuccessRate = totalApiCalls > 0 ? ((totalApiCalls - totalValidationFailures) / totalApiCalls) * 100 : 100
+    const feedback = budgetNotice
+      ? `${budgetNotice}, so answers were graded against the answer key without AI; open-response questions need manual review`
+      : `Enhanced processing: ${gradingResults.length} questions validated with ${validationSuccessRate.toFixed(1)}% success rate`
     
     // Save to database with enhanced class_id resolution
     const dbResult = await saveResultsToDatabase(
       supabase,
       examId,
       studentName,
+      authenticatedStudentId,
       gradingResults,
       totalPointsEarned,
       totalPointsPossible,
       overallScore,
       grade,
-      `Enhanced processing: ${gradingResults.length} questions validated with ${validationSuccessRate.toFixed(1)}% success rate`
+      feedback
     )
     
+    // Look for misconception patterns in erasures and wrong answers on the uploaded test
+    if (dbResult.studentProfileId) {
+      await detectMisconceptionAlerts(supabase, examId, dbResult.studentProfileId, allQuestions, gradingResults, skillLookup)
+    }
+    
     console.log(`✅ Enhanced processing completed:`)
     console.log(`📊 Questions processed: ${allQuestions.length}`)
     console.log(`🔢 API calls: ${totalApiCalls}`)
@@ -600,7 +913,10 @@ serve(async (req) => {
       grade,
       total_points_earned: totalPointsEarned,
       total_points_possible: totalPointsPossible,
-      ai_feedback: `Enhanced validation processing: ${gradingResults.length} questions processed with ${validationSuccessRate.toFixed(1)}% validation success rate`,
+      ai_feedback: budgetNotice
+        ? feedback
+        : `Enhanced validation processing: ${gradingResults.length} questions processed with ${validationSuccessRate.toFixed(1)}% validation success rate`,
+      aiBudgetNotice: budgetNotice,
       databaseStorage: {
         savedToDatabase: dbResult.success,
         testResultId: dbResult.testResultId,
@@ -10,12 +10,36 @@ const corsHeaders = {
 // --- ENHANCED CONFIG ---
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 const MAX_API_CALLS_PER_MINUTE = Number(Deno.env.get("API_RATE_LIMIT") || 50); // Increased for higher throughput
 const MAX_CONCURRENT_JOBS = 12; // Increased from 8
 const MAX_FILES_PER_BATCH = 12; // Increased from 6 - Phase 1 optimization
 const JOB_CLEANUP_DAYS = 2; // completed/failed jobs deleted after this
+const GRADING_CLAIM_BATCH_SIZE = 3; // file jobs a single worker call grades
+const STALE_FILE_JOB_MINUTES = 5; // processing file jobs older than this are treated as crashed
+const GRADING_HISTORY_HOURS = 24; // finished grading jobs shown alongside unfinished ones
+
+// Keeps work going after the response is sent (Supabase edge runtime)
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+// The grading queue tables are only writable with the service role
+const serviceSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+interface QueuedFile {
+  fileName: string;
+  fileContent: string;
+}
+
+// A row of file_jobs: one uploaded paper of a grading job
+interface FileJob {
+  id: string;
+  grading_job_id: string | null;
+  file_name: string;
+  file_group_data?: { files?: QueuedFile[] };
+  retry_count: number | null;
+  max_retries: number;
+}
 
 // Enhanced file grouping for optimal batch processing
 function groupFilesBySize(files: any[]): any[][] {
@@ -79,7 +103,8 @@ serve(async (req) => {
   
   try {
     const url = new URL(req.url);
-    const path = url.pathname;
+    // Deployed functions see the function name as the first path segment
+    const path = url.pathname.replace(/^\/batch-queue-manager/, '');
 
     // CLEANUP OLD JOBS (once per request)
     await cleanupOldJobs();
@@ -93,6 +118,20 @@ serve(async (req) => {
         return await handleQueueStats();
       case '/process-next':
         return await handleProcessNext();
+      case '/grading/submit':
+        return await handleGradingSubmit(req);
+      case '/grading/jobs':
+        return await handleGradingJobs(req);
+      case '/grading/process':
+        return await handleGradingProcess(req);
+      case '/grading/pause':
+        return await handleGradingPause(req, true);
+      case '/grading/resume':
+        return await handleGradingPause(req, false);
+      case '/grading/review':
+        return await handleGradingReview(req);
+      case '/grading/commit':
+        return await handleGradingCommit(req);
       default:
         return new Response(JSON.stringify({ error: 'Invalid endpoint' }), {
           status: 400,
@@ -430,3 +469,545 @@ async function cleanupOldJobs() {
     console.error('Error in cleanupOldJobs:', error);
   }
 }
+
+// --- DURABLE GRADING QUEUE ---
+// A batch of papers is one grading_jobs row; each paper is a file_jobs row that
+// workers claim with claim_file_jobs. Failed papers are retried up to max_retries
+// and then dead-lettered into job_failures, so nothing lives only in the browser.
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+async function getRequestUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const { data, error } = await serviceSupabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
+
+async function handleGradingSubmit(req: Request) {
+  const userId = await getRequestUserId(req);
+  if (!userId) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  const { files, priority = 'normal', maxRetries = 3 } = await req.json();
+  if (!Array.isArray(files) || files.length === 0) {
+    return jsonResponse({ error: 'At least one file is required' }, 400);
+  }
+
+  const { data: gradingJob, error: jobError } = await serviceSupabase
+    .from('grading_jobs')
+    .insert({
+      job_type: 'batch_grading',
+      payload: { fileCount: files.length, fileNames: files.map((f: QueuedFile) => f.fileName) },
+      priority,
+      status: 'pending',
+      user_id: userId,
+      retries: 0,
+      max_retries: maxRetries
+    })
+    .select()
+    .single();
+
+  if (jobError || !gradingJob) {
+    throw new Error(`Failed to create grading job: ${jobError?.message}`);
+  }
+
+  const { error: filesError } = await serviceSupabase
+    .from('file_jobs')
+    .insert(files.map((file: QueuedFile) => ({
+      grading_job_id: gradingJob.id,
+      file_name: file.fileName,
+      file_group_data: { files: [{ fileName: file.fileName, fileContent: file.fileContent }] },
+      priority,
+      status: 'pending',
+      user_id: userId,
+      retry_count: 0,
+      max_retries: maxRetries
+    })));
+
+  if (filesError) {
+    await serviceSupabase.from('grading_jobs').delete().eq('id', gradingJob.id);
+    throw new Error(`Failed to queue files: ${filesError.message}`);
+  }
+
+  console.log(`Queued grading job ${gradingJob.id} with ${files.length} files`);
+
+  // Start a worker right away; it keeps handing the queue on until nothing is left
+  EdgeRuntime.waitUntil(runGradingWorker(GRADING_CLAIM_BATCH_SIZE));
+
+  return jsonResponse({ jobId: gradingJob.id, fileCount: files.length });
+}
+
+async function handleGradingJobs(req: Request) {
+  const userId = await getRequestUserId(req);
+  if (!userId) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  const since = new Date(Date.now() - GRADING_HISTORY_HOURS * 3600000).toISOString();
+  const { data: jobs, error } = await serviceSupabase
+    .from('grading_jobs')
+    .select('id, status, priority, payload, result_payload, error_message, created_at, started_at, completed_at, max_retries')
+    .eq('user_id', userId)
+    .eq('job_type', 'batch_grading')
+    .or(`status.in.(pending,processing,paused,needs_review),created_at.gte.${since}`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch grading jobs: ${error.message}`);
+  }
+
+  const jobIds = (jobs || []).map((job) => job.id);
+  if (jobIds.length === 0) {
+    return jsonResponse({ jobs: [] });
+  }
+
+  const [{ data: fileJobs, error: filesError }, { data: failures, error: failuresError }] = await Promise.all([
+    // file_group_data holds the uploaded papers, so leave it out of status reads
+    serviceSupabase
+      .from('file_jobs')
+      .select('id, grading_job_id, file_name, status, retry_count, max_retries, error_message, result_json, started_at, completed_at, processing_time_ms')
+      .in('grading_job_id', jobIds)
+      .order('created_at'),
+    serviceSupabase
+      .from('job_failures')
+      .select('id, job_id, error_type, error_message, retry_attempt, context, failed_at')
+      .in('job_id', jobIds)
+      .order('failed_at', { ascending: false })
+  ]);
+
+  if (filesError || failuresError) {
+    throw new Error(`Failed to fetch grading job details: ${(filesError || failuresError)?.message}`);
+  }
+
+  return jsonResponse({
+    jobs: (jobs || []).map((job) => ({
+      ...job,
+      files: (fileJobs || []).filter((fileJob) => fileJob.grading_job_id === job.id),
+      failures: (failures || []).filter((failure) => failure.job_id === job.id)
+    }))
+  });
+}
+
+// Called by the previous worker and by the process-grading-queue cron job
+async function handleGradingProcess(req: Request) {
+  const isServiceRole = req.headers.get('Authorization') === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`;
+  if (!isServiceRole && !(await getRequestUserId(req))) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  const { batchSize = GRADING_CLAIM_BATCH_SIZE } = await req.json().catch(() => ({}));
+  // Grade in the background so the caller isn't held open for the whole claim
+  EdgeRuntime.waitUntil(runGradingWorker(batchSize));
+  return jsonResponse({ started: true }, 202);
+}
+
+async function handleGradingPause(req: Request, pause: boolean) {
+  const userId = await getRequestUserId(req);
+  if (!userId) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  const { jobId } = await req.json();
+  const { data: job } = await serviceSupabase
+    .from('grading_jobs')
+    .select('id, status')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!job) {
+    return jsonResponse({ error: 'Job not found' }, 404);
+  }
+
+  // Papers already being graded finish; only the ones still waiting are held back
+  const { error } = await serviceSupabase
+    .from('file_jobs')
+    .update({ status: pause ? 'paused' : 'pending', updated_at: nowIso() })
+    .eq('grading_job_id', jobId)
+    .eq('status', pause ? 'pending' : 'paused');
+
+  if (error) {
+    throw new Error(`Failed to ${pause ? 'pause' : 'resume'} job: ${error.message}`);
+  }
+
+  await updateGradingJobProgress(jobId);
+  if (!pause) {
+    EdgeRuntime.waitUntil(runGradingWorker(GRADING_CLAIM_BATCH_SIZE));
+  }
+
+  return jsonResponse({ jobId, paused: pause });
+}
+
+// Grading runs without any client: each worker grades one claim of papers and, while
+// papers are still waiting, starts a fresh invocation for the next claim so no single
+// call runs into the function time limit. A worker that found the queue locked or empty
+// stops; the lock holder carries on, and the cron job restarts the chain after a crash.
+async function runGradingWorker(batchSize: number) {
+  try {
+    const processed = await processGradingQueue(batchSize);
+    if (processed > 0 && await hasPendingFileJobs()) {
+      await startNextGradingWorker(batchSize);
+    }
+  } catch (error) {
+    console.error('Grading worker failed:', error);
+  }
+}
+
+async function hasPendingFileJobs(): Promise<boolean> {
+  const { count, error } = await serviceSupabase
+    .from('file_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending')
+    .not('grading_job_id', 'is', null);
+
+  if (error) {
+    console.error('Failed to count pending file jobs:', error);
+    return false;
+  }
+  return (count || 0) > 0;
+}
+
+async function startNextGradingWorker(batchSize: number) {
+  const resp = await fetch(`${SUPABASE_URL}/functions/v1/batch-queue-manager/grading/process`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}` },
+    body: JSON.stringify({ batchSize })
+  });
+  if (!resp.ok) {
+    throw new Error(`Failed to start the next grading worker: ${resp.status} - ${await resp.text()}`);
+  }
+  await resp.body?.cancel();
+}
+
+async function processGradingQueue(batchSize: number): Promise<number> {
+  await requeueStaleFileJobs();
+
+  // Only one worker claims at a time; claim_file_jobs hands each file job to exactly one caller
+  const { data: lockAcquired } = await serviceSupabase.rpc('try_acquire_queue_lock');
+  if (!lockAcquired) {
+    console.log('Grading queue is locked by another worker');
+    return 0;
+  }
+
+  let claimed: FileJob[] = [];
+  try {
+    const { data, error } = await serviceSupabase.rpc('claim_file_jobs', { batch_size: batchSize });
+    if (error) {
+      throw new Error(`Failed to claim file jobs: ${error.message}`);
+    }
+    claimed = data || [];
+  } finally {
+    await serviceSupabase.rpc('release_queue_lock');
+  }
+
+  // claim_file_jobs marks every pending file job as processing, including ones no grading
+  // job owns; nothing would ever grade or requeue those, so fail them instead of leaving them stuck
+  const unowned = claimed.filter((fileJob) => !fileJob.grading_job_id);
+  if (unowned.length > 0) {
+    await serviceSupabase
+      .from('file_jobs')
+      .update({
+        status: 'failed',
+        error_message: 'File job does not belong to a grading job',
+        completed_at: nowIso(),
+        updated_at: nowIso()
+      })
+      .in('id', unowned.map((fileJob) => fileJob.id));
+    console.log(`Failed ${unowned.length} claimed file jobs without a grading job`);
+    claimed = claimed.filter((fileJob) => fileJob.grading_job_id);
+  }
+
+  if (claimed.length === 0) return 0;
+  console.log(`Worker claimed ${claimed.length} file jobs`);
+
+  await Promise.allSettled(claimed.map((fileJob) => gradeFileJob(fileJob)));
+
+  const gradingJobIds = [...new Set(claimed.map((fileJob) => fileJob.grading_job_id as string))];
+  for (const gradingJobId of gradingJobIds) {
+    await updateGradingJobProgress(gradingJobId);
+  }
+
+  return claimed.length;
+}
+
+// Papers are only read here; they are graded once the teacher has reviewed what was
+// read (see handleGradingCommit)
+async function gradeFileJob(fileJob: FileJob) {
+  const startTime = Date.now();
+  const file = fileJob.file_group_data?.files?.[0];
+
+  try {
+    if (!file?.fileContent) {
+      throw new Error('File job has no file content');
+    }
+
+    const extractResp = await fetch(`${SUPABASE_URL}/functions/v1/extract-text`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}` },
+      body: JSON.stringify({ fileName: file.fileName, fileContent: file.fileContent })
+    });
+    if (!extractResp.ok) {
+      throw new Error(`Text extraction failed: ${extractResp.status} - ${await extractResp.text()}`);
+    }
+    const extracted = await extractResp.json();
+    apiCallTracker.recordCall();
+
+    await serviceSupabase
+      .from('file_jobs')
+      .update({
+        status: 'needs_review',
+        updated_at: nowIso(),
+        processing_time_ms: Date.now() - startTime,
+        error_message: null,
+        extract_result: { ...extracted, fileName: file.fileName }
+      })
+      .eq('id', fileJob.id);
+
+    console.log(`File job ${fileJob.id} (${file.fileName}) read in ${Date.now() - startTime}ms, waiting for review`);
+  } catch (error) {
+    console.error(`File job ${fileJob.id} failed:`, error);
+    await handleFileJobFailure(fileJob, error);
+  }
+}
+
+async function handleGradingReview(req: Request) {
+  const userId = await getRequestUserId(req);
+  if (!userId) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  const { jobId } = await req.json();
+  const { data: fileJobs, error } = await serviceSupabase
+    .from('file_jobs')
+    .select('id, file_name, file_group_data, extract_result')
+    .eq('grading_job_id', jobId)
+    .eq('user_id', userId)
+    .eq('status', 'needs_review')
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch scans to review: ${error.message}`);
+  }
+
+  return jsonResponse({
+    files: (fileJobs || []).map((fileJob) => ({
+      id: fileJob.id,
+      fileName: fileJob.file_name,
+      fileContent: fileJob.file_group_data?.files?.[0]?.fileContent || null,
+      extractResult: fileJob.extract_result
+    }))
+  });
+}
+
+// Grade one reviewed paper with the answers, student and exam the teacher confirmed
+async function handleGradingCommit(req: Request) {
+  const userId = await getRequestUserId(req);
+  if (!userId) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  const { fileJobId, examId, studentName, extractResult } = await req.json();
+  if (!extractResult) {
+    return jsonResponse({ error: 'The reviewed scan is required' }, 400);
+  }
+
+  // Taking the paper out of needs_review first means a double submit grades it once
+  const { data: fileJob } = await serviceSupabase
+    .from('file_jobs')
+    .update({ status: 'processing', started_at: nowIso(), updated_at: nowIso() })
+    .eq('id', fileJobId)
+    .eq('user_id', userId)
+    .eq('status', 'needs_review')
+    .select('id, grading_job_id, file_name, processing_time_ms')
+    .maybeSingle();
+
+  if (!fileJob) {
+    return jsonResponse({ error: 'This scan is not waiting for review' }, 409);
+  }
+
+  const startTime = Date.now();
+  const fileName = extractResult.fileName || fileJob.file_name;
+
+  try {
+    const analyzeResp = await fetch(`${SUPABASE_URL}/functions/v1/analyze-test`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}` },
+      body: JSON.stringify({
+        files: [{
+          fileName,
+          extractedText: extractResult.extractedText || '',
+          structuredData: extractResult.structuredData || {}
+        }],
+        examId: examId || 'auto-detected',
+        studentName: studentName || 'auto-detected'
+      })
+    });
+    if (!analyzeResp.ok) {
+      throw new Error(`Test analysis failed: ${analyzeResp.status} - ${await analyzeResp.text()}`);
+    }
+    const analysis = await analyzeResp.json();
+    apiCallTracker.recordCall();
+
+    const result = {
+      fileName,
+      studentName: studentName || null,
+      examId: examId || null,
+      overallScore: analysis.overallScore ?? 0,
+      grade: analysis.grade || null,
+      totalPointsEarned: analysis.total_points_earned ?? 0,
+      totalPointsPossible: analysis.total_points_possible ?? 0,
+      testResultId: analysis.databaseStorage?.testResultId || null
+    };
+
+    await serviceSupabase
+      .from('file_jobs')
+      .update({
+        status: 'completed',
+        completed_at: nowIso(),
+        updated_at: nowIso(),
+        processing_time_ms: (fileJob.processing_time_ms || 0) + Date.now() - startTime,
+        error_message: null,
+        extract_result: extractResult,
+        result_json: result
+      })
+      .eq('id', fileJob.id);
+
+    console.log(`File job ${fileJob.id} (${fileName}) graded after review`);
+    await updateGradingJobProgress(fileJob.grading_job_id);
+
+    return jsonResponse({ result });
+  } catch (error) {
+    // The teacher's review is kept so grading can be retried
+    await serviceSupabase
+      .from('file_jobs')
+      .update({ status: 'needs_review', error_message: error.message, updated_at: nowIso() })
+      .eq('id', fileJob.id);
+    throw error;
+  }
+}
+
+async function handleFileJobFailure(fileJob: FileJob, error: Error) {
+  const retryCount = fileJob.retry_count || 0;
+
+  if (retryCount < fileJob.max_retries) {
+    await serviceSupabase
+      .from('file_jobs')
+      .update({
+        status: 'pending',
+        retry_count: retryCount + 1,
+        error_message: error.message,
+        started_at: null,
+        updated_at: nowIso()
+      })
+      .eq('id', fileJob.id);
+    console.log(`File job ${fileJob.id} requeued (retry ${retryCount + 1}/${fileJob.max_retries})`);
+    return;
+  }
+
+  await serviceSupabase
+    .from('file_jobs')
+    .update({
+      status: 'failed',
+      error_message: error.message,
+      completed_at: nowIso(),
+      updated_at: nowIso()
+    })
+    .eq('id', fileJob.id);
+
+  const { error: deadLetterError } = await serviceSupabase
+    .from('job_failures')
+    .insert({
+      job_id: fileJob.grading_job_id,
+      error_type: 'file_grading_failed',
+      error_message: error.message,
+      stack_trace: error.stack || null,
+      retry_attempt: retryCount,
+      context: { fileJobId: fileJob.id, fileName: fileJob.file_name }
+    });
+
+  if (deadLetterError) {
+    console.error(`Failed to dead-letter file job ${fileJob.id}:`, deadLetterError);
+  }
+  console.log(`File job ${fileJob.id} dead-lettered after ${retryCount} retries`);
+}
+
+async function requeueStaleFileJobs() {
+  // A worker that hit the function time limit leaves its claims in processing forever
+  const cutoff = new Date(Date.now() - STALE_FILE_JOB_MINUTES * 60000).toISOString();
+  const { data: staleJobs } = await serviceSupabase
+    .from('file_jobs')
+    .select('id, grading_job_id, file_name, retry_count, max_retries')
+    .eq('status', 'processing')
+    .not('grading_job_id', 'is', null)
+    .lt('started_at', cutoff);
+
+  for (const staleJob of staleJobs || []) {
+    await handleFileJobFailure(staleJob, new Error(`Worker did not finish within ${STALE_FILE_JOB_MINUTES} minutes`));
+    await updateGradingJobProgress(staleJob.grading_job_id);
+  }
+}
+
+async function updateGradingJobProgress(gradingJobId: string) {
+  const { data: fileJobs, error } = await serviceSupabase
+    .from('file_jobs')
+    .select('status')
+    .eq('grading_job_id', gradingJobId);
+
+  if (error || !fileJobs) {
+    console.error(`Failed to read file jobs for grading job ${gradingJobId}:`, error);
+    return;
+  }
+
+  const count = (status: string) => fileJobs.filter((fileJob) => fileJob.status === status).length;
+  const totalFiles = fileJobs.length;
+  const completedFiles = count('completed');
+  const failedFiles = count('failed');
+  const pausedFiles = count('paused');
+  const reviewFiles = count('needs_review');
+  const finished = completedFiles + failedFiles === totalFiles;
+
+  let status = 'processing';
+  if (finished) {
+    status = failedFiles === totalFiles ? 'failed' : 'completed';
+  } else if (pausedFiles > 0 && count('processing') === 0) {
+    status = 'paused';
+  } else if (reviewFiles > 0 && count('pending') + count('processing') === 0) {
+    status = 'needs_review';
+  } else if (completedFiles + failedFiles === 0 && count('processing') === 0) {
+    status = 'pending';
+  }
+
+  const update: Record<string, unknown> = {
+    status,
+    result_payload: {
+      totalFiles,
+      completedFiles,
+      failedFiles,
+      progress: totalFiles > 0 ? Math.round(((completedFiles + failedFiles) / totalFiles) * 100) : 0
+    },
+    error_message: failedFiles > 0 ? `${failedFiles} of ${totalFiles} files failed` : null
+  };
+  if (finished) {
+    update.completed_at = nowIso();
+  }
+
+  await serviceSupabase.from('grading_jobs').update(update).eq('id', gradingJobId);
+
+  if (status === 'processing') {
+    // started_at is set once, the first time a paper of the job is picked up
+    await serviceSupabase
+      .from('grading_jobs')
+      .update({ started_at: nowIso() })
+      .eq('id', gradingJobId)
+      .is('started_at', null);
+  }
+}
@@ -0,0 +1,91 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_CACHE_ENTRIES_PER_USER = 1000; // matches CacheService.MAX_CACHE_SIZE
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!userData.user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only the caller's own entries are cleaned up
+    const userId = userData.user.id;
+
+    // Remove expired entries
+    const { count: expiredCount, error: expiredError } = await supabaseClient
+      .from('ocr_result_cache')
+      .delete({ count: 'exact' })
+      .eq('user_id', userId)
+      .lt('expires_at', new Date().toISOString());
+
+    if (expiredError) {
+      console.error('Error removing expired cache entries:', expiredError);
+      return new Response(
+        JSON.stringify({ error: expiredError.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Evict least recently used entries beyond the size cap
+    let evictedCount = 0;
+    const { count: remaining } = await supabaseClient
+      .from('ocr_result_cache')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if ((remaining || 0) > MAX_CACHE_ENTRIES_PER_USER) {
+      const { data: oldest } = await supabaseClient
+        .from('ocr_result_cache')
+        .select('id')
+        .eq('user_id', userId)
+        .order('last_accessed_at', { ascending: true })
+        .limit((remaining || 0) - MAX_CACHE_ENTRIES_PER_USER);
+
+      if (oldest && oldest.length > 0) {
+        const { count } = await supabaseClient
+          .from('ocr_result_cache')
+          .delete({ count: 'exact' })
+          .in('id', oldest.map((entry) => entry.id));
+        evictedCount = count || 0;
+      }
+    }
+
+    console.log(`Cache cleanup: ${expiredCount || 0} expired, ${evictedCount} evicted`);
+
+    return new Response(
+      JSON.stringify({ success: true, expiredRemoved: expiredCount || 0, evicted: evictedCount }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in cleanup-cache:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,448 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface QuestionObservation {
+  questionId: string;
+  questionNumber: number;
+  skillName?: string;
+  isCorrect?: boolean;
+  timeSpentSeconds?: number;
+  answerChanges?: number;
+  multipleMarks?: boolean;
+}
+
+interface DetectionRequest {
+  studentId: string;
+  exerciseId?: string;
+  examId?: string;
+  observations: QuestionObservation[];
+}
+
+interface SubtypeCandidate {
+  subtypeId: string;
+  subtypeName: string;
+  matchWeight: number;
+  source: 'student_history' | 'skill_history';
+}
+
+// Struggle score a question needs before it is matched against misconceptions
+const MIN_STRUGGLE_SCORE = 0.45;
+// Final confidence needed to raise an alert
+const ALERT_THRESHOLD = 0.35;
+// Resolutions that mean the predicted misconception was real
+const ACCURATE_RESOLUTIONS = ['confirmed', 'self_corrected'];
+// Resolved alerts needed before a subtype's accuracy adjusts new predictions
+const MIN_RESOLVED_FOR_ACCURACY = 3;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { studentId, exerciseId, examId, observations }: DetectionRequest = await req.json();
+
+    if (!studentId || !UUID_PATTERN.test(studentId) || !Array.isArray(observations) || observations.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'studentId and observations are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // analyze-test calls in with the service role key after grading; anyone else has to be
+    // the student or one of their teachers
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') || '';
+    if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      const { data: userData } = token
+        ? await supabaseClient.auth.getUser(token)
+        : { data: { user: null } };
+
+      if (!userData.user) {
+        return new Response(
+          JSON.stringify({ error: 'Authentication required' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (!(await canDetectFor(supabaseClient, userData.user.id, studentId))) {
+        return new Response(
+          JSON.stringify({ error: 'Not allowed to run detection for this student' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const studentProfileId = await resolveStudentProfileId(supabaseClient, studentId);
+    const merged = exerciseId
+      ? await mergeTrackedTiming(supabaseClient, exerciseId, observations)
+      : observations;
+
+    const timedQuestions = merged.filter(obs => (obs.timeSpentSeconds || 0) > 0);
+    const medianSeconds = median(timedQuestions.map(obs => obs.timeSpentSeconds as number));
+
+    const scored = merged.map(obs => ({ obs, ...scoreStruggle(obs, medianSeconds) }));
+
+    if (studentProfileId) {
+      await recordAffectiveFlags(supabaseClient, studentProfileId, examId, exerciseId, scored);
+    }
+
+    const struggling = scored.filter(item => item.score >= MIN_STRUGGLE_SCORE && item.obs.skillName);
+    let alertsRaised = 0;
+
+    if (struggling.length > 0) {
+      const skills = [...new Set(struggling.map(item => item.obs.skillName as string))];
+      const candidatesBySkill = await findSubtypeCandidates(supabaseClient, studentProfileId, skills);
+      const allSubtypeIds = [...new Set(Object.values(candidatesBySkill).flat().map(c => c.subtypeId))];
+      const accuracy = await getSubtypeAccuracy(supabaseClient, allSubtypeIds);
+      const alertStudentId = studentProfileId || studentId;
+
+      for (const item of struggling) {
+        const candidates = candidatesBySkill[item.obs.skillName as string] || [];
+        const best = candidates
+          .map(candidate => ({
+            candidate,
+            confidence: item.score * candidate.matchWeight * (accuracy[candidate.subtypeId] ?? 1)
+          }))
+          .sort((a, b) => b.confidence - a.confidence)[0];
+
+        if (!best || best.confidence < ALERT_THRESHOLD) continue;
+
+        const raised = await upsertAlert(supabaseClient, {
+          student_id: alertStudentId,
+          question_id: item.obs.questionId,
+          exercise_id: exerciseId || null,
+          exam_id: examId || null,
+          predicted_misconception_subtype_id: best.candidate.subtypeId,
+          confidence_score: Math.round(best.confidence * 100) / 100,
+          risk_level: best.confidence >= 0.7 ? 'high' : best.confidence >= 0.5 ? 'medium' : 'low',
+          behavioral_signals: {
+            ...item.signals,
+            skillName: item.obs.skillName,
+            questionNumber: item.obs.questionNumber,
+            struggleScore: Math.round(item.score * 100) / 100,
+            matchedSubtype: best.candidate.subtypeName,
+            matchSource: best.candidate.source
+          }
+        });
+        if (raised) alertsRaised++;
+      }
+    }
+
+    console.log(`🚨 Misconception detection for ${studentId}: ${struggling.length} struggling questions, ${alertsRaised} alerts`);
+
+    return new Response(
+      JSON.stringify({ success: true, strugglingQuestions: struggling.length, alertsRaised }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error detecting misconception alerts:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+// The student themselves, or the owner or a co-teacher of a class they're enrolled in
+async function canDetectFor(supabase: SupabaseClient, userId: string, studentId: string): Promise<boolean> {
+  if (userId === studentId) return true;
+
+  const { data: profile } = await supabase
+    .from('student_profiles')
+    .select('authenticated_user_id')
+    .or(`id.eq.${studentId},authenticated_user_id.eq.${studentId}`)
+    .limit(1)
+    .maybeSingle();
+
+  const loginId = profile?.authenticated_user_id;
+  if (!loginId) return false;
+  if (loginId === userId) return true;
+
+  const { data: enrollments } = await supabase
+    .from('class_enrollments')
+    .select('class_id')
+    .eq('student_profile_id', loginId)
+    .eq('is_active', true);
+
+  const classIds = (enrollments || []).map(enrollment => enrollment.class_id);
+  if (classIds.length === 0) return false;
+
+  const [{ count: owned }, { count: shared }] = await Promise.all([
+    supabase.from('active_classes').select('id', { count: 'exact', head: true }).in('id', classIds).eq('teacher_id', userId),
+    supabase.from('class_members').select('id', { count: 'exact', head: true }).in('class_id', classIds).eq('teacher_id', userId)
+  ]);
+
+  return (owned || 0) + (shared || 0) > 0;
+}
+
+// Practice students are identified by login, uploaded tests by student profile
+async function resolveStudentProfileId(supabase: SupabaseClient, studentId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('student_profiles')
+    .select('id')
+    .or(`id.eq.${studentId},authenticated_user_id.eq.${studentId}`)
+    .limit(1)
+    .maybeSingle();
+
+  return data?.id || null;
+}
+
+// Timing recorded in question_time_tracking is more reliable than client-side counts
+async function mergeTrackedTiming(
+  supabase: SupabaseClient,
+  exerciseId: string,
+  observations: QuestionObservation[]
+): Promise<QuestionObservation[]> {
+  const { data: timing } = await supabase
+    .from('question_time_tracking')
+    .select('question_id, time_spent_seconds, answer_changes_count')
+    .eq('student_exercise_id', exerciseId);
+
+  const byQuestion = new Map((timing || []).map(row => [row.question_id, row]));
+
+  return observations.map(obs => {
+    const tracked = byQuestion.get(obs.questionId);
+    if (!tracked) return obs;
+    return {
+      ...obs,
+      timeSpentSeconds: tracked.time_spent_seconds ?? obs.timeSpentSeconds,
+      answerChanges: Math.max(tracked.answer_changes_count || 0, obs.answerChanges || 0)
+    };
+  });
+}
+
+function scoreStruggle(obs: QuestionObservation, medianSeconds: number) {
+  const seconds = obs.timeSpentSeconds || 0;
+  const timeRatio = medianSeconds > 0 && seconds > 0 ? seconds / medianSeconds : 1;
+  const changes = obs.answerChanges || 0;
+  const rushed = seconds > 0 && seconds < 8 && obs.isCorrect === false;
+  let score = 0;
+
+  if (timeRatio >= 2 && seconds >= 30) score += 0.3;
+  else if (timeRatio >= 1.5) score += 0.15;
+
+  if (changes >= 2) score += 0.3;
+  else if (changes === 1) score += 0.15;
+
+  if (obs.multipleMarks) score += 0.25;
+  if (obs.isCorrect === false) score += 0.3;
+  if (rushed) score += 0.2;
+
+  return {
+    score: Math.min(1, score),
+    signals: {
+      timeSpentSeconds: seconds || null,
+      timeRatio: Math.round(timeRatio * 100) / 100,
+      answerChanges: changes,
+      multipleMarks: !!obs.multipleMarks,
+      isCorrect: obs.isCorrect ?? null,
+      rushed
+    }
+  };
+}
+
+// Detection reruns on the same answers as an exercise goes on, so each flag is kept once
+// per question and updated with the latest reading
+async function recordAffectiveFlags(
+  supabase: SupabaseClient,
+  studentProfileId: string,
+  examId: string | undefined,
+  exerciseId: string | undefined,
+  scored: Array<{ obs: QuestionObservation; score: number; signals: Record<string, unknown> }>
+) {
+  const flags = scored.flatMap(({ obs, score, signals }) => {
+    const types: string[] = [];
+    if ((obs.answerChanges || 0) >= 2 || obs.multipleMarks) types.push('hesitation');
+    if ((signals.timeRatio as number) >= 2.5) types.push('prolonged_struggle');
+    if (signals.rushed) types.push('rushing');
+
+    return types.map(flagType => ({
+      student_id: studentProfileId,
+      exam_id: examId || null,
+      question_id: obs.questionId,
+      flag_type: flagType,
+      intensity_score: Math.round(score * 100) / 100,
+      behavioral_data: { ...signals, exerciseId: exerciseId || null }
+    }));
+  });
+
+  if (flags.length === 0) return;
+
+  let existingQuery = supabase
+    .from('affective_response_flags')
+    .select('id, question_id, flag_type')
+    .eq('student_id', studentProfileId)
+    .in('question_id', [...new Set(flags.map(flag => flag.question_id))]);
+  existingQuery = examId ? existingQuery.eq('exam_id', examId) : existingQuery.is('exam_id', null);
+  if (exerciseId) {
+    existingQuery = existingQuery.eq('behavioral_data->>exerciseId', exerciseId);
+  }
+
+  const { data: existing, error: existingError } = await existingQuery;
+  if (existingError) {
+    console.error('Error reading affective flags:', existingError);
+    return;
+  }
+
+  const existingIds = new Map((existing || []).map(row => [`${row.question_id}:${row.flag_type}`, row.id]));
+  const newFlags = flags.filter(flag => !existingIds.has(`${flag.question_id}:${flag.flag_type}`));
+
+  for (const flag of flags) {
+    const id = existingIds.get(`${flag.question_id}:${flag.flag_type}`);
+    if (!id) continue;
+    const { error } = await supabase
+      .from('affective_response_flags')
+      .update({ intensity_score: flag.intensity_score, behavioral_data: flag.behavioral_data, detected_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) console.error('Error updating affective flag:', error);
+  }
+
+  if (newFlags.length === 0) return;
+
+  const { error } = await supabase.from('affective_response_flags').insert(newFlags);
+  if (error) {
+    console.error('Error recording affective flags:', error);
+  }
+}
+
+/**
+ * The student's own uncorrected misconceptions on a skill match most strongly; misconceptions
+ * other students have shown on the same skill are weaker evidence.
+ */
+async function findSubtypeCandidates(
+  supabase: SupabaseClient,
+  studentProfileId: string | null,
+  skills: string[]
+): Promise<Record<string, SubtypeCandidate[]>> {
+  const { data, error } = await supabase
+    .from('student_misconceptions')
+    .select('student_id, content_skill_name, misconception_subtype_id, confidence_score, corrected, misconception_subtypes(subtype_name)')
+    .in('content_skill_name', skills)
+    .order('detected_at', { ascending: false })
+    .limit(500);
+
+  if (error) {
+    console.error('Error loading known misconceptions:', error);
+    return {};
+  }
+
+  const candidates: Record<string, Map<string, SubtypeCandidate>> = {};
+  const skillCounts: Record<string, Record<string, number>> = {};
+
+  for (const row of data || []) {
+    const skill = row.content_skill_name as string;
+    const subtypeName = (row.misconception_subtypes as { subtype_name?: string } | null)?.subtype_name || 'Misconception';
+    candidates[skill] ||= new Map();
+    skillCounts[skill] ||= {};
+
+    if (studentProfileId && row.student_id === studentProfileId && !row.corrected) {
+      const weight = 0.7 + 0.3 * (row.confidence_score ?? 0.5);
+      const existing = candidates[skill].get(row.misconception_subtype_id);
+      if (!existing || existing.matchWeight < weight) {
+        candidates[skill].set(row.misconception_subtype_id, {
+          subtypeId: row.misconception_subtype_id,
+          subtypeName,
+          matchWeight: weight,
+          source: 'student_history'
+        });
+      }
+    } else {
+      skillCounts[skill][row.misconception_subtype_id] = (skillCounts[skill][row.misconception_subtype_id] || 0) + 1;
+      if (!candidates[skill].has(row.misconception_subtype_id)) {
+        candidates[skill].set(row.misconception_subtype_id, {
+          subtypeId: row.misconception_subtype_id,
+          subtypeName,
+          matchWeight: 0,
+          source: 'skill_history'
+        });
+      }
+    }
+  }
+
+  const result: Record<string, SubtypeCandidate[]> = {};
+  for (const [skill, map] of Object.entries(candidates)) {
+    const total = Object.values(skillCounts[skill]).reduce((sum, count) => sum + count, 0);
+    result[skill] = [...map.values()].map(candidate =>
+      candidate.source === 'skill_history'
+        ? { ...candidate, matchWeight: total > 0 ? 0.4 + 0.3 * (skillCounts[skill][candidate.subtypeId] / total) : 0.4 }
+        : candidate
+    );
+  }
+
+  return result;
+}
+
+// Share of resolved alerts per subtype that turned out to be real, scaled to 0.5-1
+async function getSubtypeAccuracy(supabase: SupabaseClient, subtypeIds: string[]): Promise<Record<string, number>> {
+  if (subtypeIds.length === 0) return {};
+
+  const { data } = await supabase
+    .from('predictive_misconception_alerts')
+    .select('predicted_misconception_subtype_id, resolution_type')
+    .in('predicted_misconception_subtype_id', subtypeIds)
+    .eq('resolved', true);
+
+  const totals: Record<string, { resolved: number; accurate: number }> = {};
+  for (const row of data || []) {
+    const id = row.predicted_misconception_subtype_id as string;
+    totals[id] ||= { resolved: 0, accurate: 0 };
+    totals[id].resolved++;
+    if (ACCURATE_RESOLUTIONS.includes(row.resolution_type)) totals[id].accurate++;
+  }
+
+  return Object.fromEntries(
+    Object.entries(totals)
+      .filter(([, stats]) => stats.resolved >= MIN_RESOLVED_FOR_ACCURACY)
+      .map(([id, stats]) => [id, 0.5 + 0.5 * (stats.accurate / stats.resolved)])
+  );
+}
+
+// One open alert per student, question and subtype; a stronger signal raises its confidence
+async function upsertAlert(supabase: SupabaseClient, alert: Record<string, unknown>): Promise<boolean> {
+  const { data: existing } = await supabase
+    .from('predictive_misconception_alerts')
+    .select('id, confidence_score')
+    .eq('student_id', alert.student_id as string)
+    .eq('question_id', alert.question_id as string)
+    .eq('predicted_misconception_subtype_id', alert.predicted_misconception_subtype_id as string)
+    .eq('resolved', false)
+    .maybeSingle();
+
+  if (existing) {
+    if ((existing.confidence_score || 0) >= (alert.confidence_score as number)) return false;
+    const { error } = await supabase
+      .from('predictive_misconception_alerts')
+      .update({
+        confidence_score: alert.confidence_score,
+        risk_level: alert.risk_level,
+        behavioral_signals: alert.behavioral_signals
+      })
+      .eq('id', existing.id);
+    if (error) console.error('Error updating misconception alert:', error);
+    return !error;
+  }
+
+  const { error } = await supabase
+    .from('predictive_misconception_alerts')
+    .insert({ ...alert, resolved: false });
+  if (error) console.error('Error creating misconception alert:', error);
+  return !error;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -2,6 +2,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createLLMProvider, type LLMProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,10 +15,12 @@ serve(async (req) => {
   }
 
   try {
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider({ service: 'detect-missed-concept', req });
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: error.message }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -44,7 +47,7 @@ serve(async (req) => {
       studentAnswer,
       correctAnswer,
       skillTargeted,
-      openAIApiKey
+      llm
     );
 
     if (!gptAnalysis) {
@@ -96,7 +99,7 @@ async function getGPTConceptAnalysisWithConfidence(
   studentAnswer: string,
   correctAnswer: string,
   skillTargeted: string,
-  openAIApiKey: string
+  llm: LLMProvider
 ): Promise<{ concept_missed: string; concept_id: string | null; confidence: number } | null> {
   try {
     const prompt = `You are an expert educational diagnostician and learning architect.
@@ -126,37 +129,24 @@ Correct Answer: "${correctAnswer}"
   "confidence": 0.85
 }`;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert educational diagnostician. Always respond with valid JSON matching the requested format. Be conservative with confidence scores - only use high confidence when the misconception is very clear.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 200,
-        response_format: { type: "json_object" }
-      }),
+    const completion = await llm.complete({
+      tier: 'fast',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educational diagnostician. Always respond with valid JSON matching the requested format. Be conservative with confidence scores - only use high confidence when the misconception is very clear.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.3,
+      maxTokens: 200,
+      json: true
     });
 
-    if (!response.ok) {
-      console.error('OpenAI API call failed:', response.status);
-      return null;
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const content = completion.content;
     
     if (!content) {
       return null;
@@ -1,8 +1,7 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
+import { createLLMProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,9 +17,7 @@ serve(async (req) => {
   try {
     const { question, correctAnswer, explanation, subject, grade, skillName } = await req.json();
 
-    if (!openAIApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
+    const llm = createLLMProvider({ service: 'explain-concept', req });
 
     console.log('Generating detailed explanation for:', { question, skillName, subject, grade });
 
@@ -46,29 +43,17 @@ The basic explanation given was: "${explanation}"
 
 Please provide a detailed, engaging explanation of this concept that a 12-year-old would understand. Make it about 350 words and help them really grasp why this answer is correct and how this concept works in general.`;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 550,
-      }),
+    const completion = await llm.complete({
+      tier: 'reasoning',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.7,
+      maxTokens: 550,
     });
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const detailedExplanation = data.choices[0].message.content;
+    const detailedExplanation = completion.content;
 
     console.log('Successfully generated detailed explanation');
 
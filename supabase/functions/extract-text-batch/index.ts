@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createLLMProvider } from "../_shared/llm.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -53,7 +54,7 @@ class EdgeCircuitBreaker {
 // Create circuit breakers for each service with enhanced thresholds
 const googleVisionBreaker = new EdgeCircuitBreaker(5, 45000);
 const roboflowBreaker = new EdgeCircuitBreaker(5, 45000);
-const openaiBreaker = new EdgeCircuitBreaker(5, 45000);
+const llmBreaker = new EdgeCircuitBreaker(5, 45000);
 
 // Smart batch size calculation based on file characteristics
 function calculateOptimalBatchSize(files: any[]): number {
@@ -82,12 +83,13 @@ serve(async (req) => {
     
     const googleApiKey = Deno.env.get('GOOGLE_CLOUD_VISION_API_KEY')
     const roboflowApiKey = Deno.env.get('ROBOFLOW_API_KEY')
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
     
-    if (!googleApiKey || !roboflowApiKey || !openaiApiKey) {
+    if (!googleApiKey || !roboflowApiKey) {
       throw new Error('Required API keys not configured')
     }
 
+    const llm = createLLMProvider({ service: 'extract-text-batch', req })
+
     const results = []
     const errors = []
     const startTime = Date.now()
@@ -105,7 +107,7 @@ serve(async (req) => {
       
       const batchPromises = batch.map(async (file) => {
         try {
-          return await processIndividualFileWithHandwritingResilience(file, googleApiKey, roboflowApiKey, openaiApiKey)
+          return await processIndividualFileWithHandwritingResilience(file, googleApiKey, roboflowApiKey, llm)
         } catch (error) {
           console.error(`Error processing ${file.fileName}:`, error)
           errors.push({
@@ -177,7 +179,7 @@ serve(async (req) => {
   }
 })
 
-async function processIndividualFileWithHandwritingResilience(file, googleApiKey, roboflowApiKey, openaiApiKey) {
+async function processIndividualFileWithHandwritingResilience(file, googleApiKey, roboflowApiKey, llm) {
   const { fileContent, fileName } = file
   console.log('Processing with handwriting resilience:', fileName)
 
@@ -257,7 +259,7 @@ async function processIndividualFileWithHandwritingResilience(file, googleApiKey
     extractedText = filteredLines.join('\n')
   }
 
-  // Step 4: Enhanced OpenAI parsing with handwriting context
+  // Step 4: Enhanced LLM parsing with handwriting context
   let parsedData = {
     examId: null,
     studentName: null,
@@ -267,46 +269,31 @@ async function processIndividualFileWithHandwritingResilience(file, googleApiKey
 
   if (extractedText.trim()) {
     try {
-      const aiResult = await openaiBreaker.execute(async () => {
-        const parseResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
+      const completion = await llmBreaker.execute(() => llm.complete({
+        tier: 'fast',
+        messages: [
+          {
+            role: 'system',
+            content: 'Extract exam ID, student name, and question structure from OCR text. Focus on printed text and ignore handwritten annotations. Return only valid JSON.'
           },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini',
-            messages: [
-              {
-                role: 'system',
-                content: 'Extract exam ID, student name, and question structure from OCR text. Focus on printed text and ignore handwritten annotations. Return only valid JSON.'
-              },
-              {
-                role: 'user', 
-                content: `Extract structured information from this test document (handwriting has been filtered):\n\n${extractedText.substring(0, 2000)}`
-              }
-            ],
-            temperature: 0.1,
-            max_tokens: 1000
-          }),
-        })
-
-        if (!parseResponse.ok) {
-          throw new Error(`OpenAI API error: ${parseResponse.status}`)
-        }
-
-        return await parseResponse.json()
-      }, 'OpenAI');
-
-      const aiContent = aiResult.choices?.[0]?.message?.content || '{}'
+          {
+            role: 'user', 
+            content: `Extract structured information from this test document (handwriting has been filtered):\n\n${extractedText.substring(0, 2000)}`
+          }
+        ],
+        temperature: 0.1,
+        maxTokens: 1000
+      }), 'LLM');
+
+      const aiContent = completion.content || '{}'
       try {
         const enhancedParsedData = JSON.parse(aiContent)
         parsedData = { ...parsedData, ...enhancedParsedData }
       } catch (e) {
-        console.warn('Failed to parse OpenAI response for', fileName)
+        console.warn('Failed to parse LLM response for', fileName)
       }
     } catch (error) {
-      console.warn('OpenAI parsing failed for', fileName, ':', error)
+      console.warn('LLM parsing failed for', fileName, ':', error)
     }
   }
 
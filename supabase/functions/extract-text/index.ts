@@ -732,7 +732,8 @@ serve(async (req) => {
   }
 
   try {
-    const { fileName, fileContent } = await req.json();
+    // skipBubbleDetection: the client already read the bubbles of one of our answer sheets
+    const { fileName, fileContent, skipBubbleDetection } = await req.json();
     console.log(`🔍 Processing file with database-driven OCR pipeline: ${fileName}`);
 
     const visionApiKey = Deno.env.get('GOOGLE_CLOUD_VISION_API_KEY');
@@ -767,7 +768,8 @@ serve(async (req) => {
 
     // Step 5: Database-guided question detection
     let questionGroups = [];
-    if (roboflowApiKey && templateConfig.needsBubbleDetection) {
+    const useBubbleDetection = templateConfig.needsBubbleDetection && !skipBubbleDetection;
+    if (roboflowApiKey && useBubbleDetection) {
       try {
         questionGroups = await detectQuestionsWithDatabaseInfo(fileContent, roboflowApiKey, templateConfig);
         console.log(`❓ Database-guided detection: ${questionGroups.length} question groups`);
@@ -775,7 +777,7 @@ serve(async (req) => {
         console.warn('⚠️ Database-guided Roboflow failed, using OCR fallback:', error.message);
         questionGroups = extractDatabaseGuidedQuestionsFromOCR(ocrResult.extractedText, templateConfig);
       }
-    } else if (templateConfig.needsTextExtraction) {
+    } else if (templateConfig.needsTextExtraction || skipBubbleDetection) {
       questionGroups = extractDatabaseGuidedQuestionsFromOCR(ocrResult.extractedText, templateConfig);
     }
 
@@ -816,7 +818,8 @@ serve(async (req) => {
           detectedCount: questionGroups.length,
           countMatch: Math.abs((templateConfig.questionCount || 0) - questionGroups.length) <= 1
         },
-        bubbleDetectionUsed: templateConfig.needsBubbleDetection,
+        bubbleDetectionUsed: useBubbleDetection,
+        localOmrUsed: !!skipBubbleDetection,
         textExtractionUsed: templateConfig.needsTextExtraction,
         averageQuestionConfidence: questionGroups.length > 0 ? 
           questionGroups.reduce((sum: number, q: any) => sum + (q.confidence || 0), 0) / questionGroups.length : 0
@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ACCESS_REVIEW_INTERVAL_MS = 90 * 24 * 60 * 60 * 1000; // quarterly
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!userData.user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { startDate, endDate } = await req.json();
+    const userId = userData.user.id;
+    const periodStart = new Date(startDate || Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const periodEnd = new Date(endDate || Date.now()).toISOString();
+
+    const [scansResult, auditResult, expiredCacheResult, lastReviewResult] = await Promise.all([
+      supabaseClient
+        .from('security_scans')
+        .select('file_hash, risk_level, malware_detected')
+        .eq('user_id', userId)
+        .gte('scanned_at', periodStart)
+        .lte('scanned_at', periodEnd),
+      supabaseClient
+        .from('audit_events')
+        .select('action, resource, success, risk_score')
+        .eq('user_id', userId)
+        .gte('occurred_at', periodStart)
+        .lte('occurred_at', periodEnd),
+      supabaseClient
+        .from('ocr_result_cache')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .lt('expires_at', new Date().toISOString()),
+      supabaseClient
+        .from('audit_events')
+        .select('occurred_at')
+        .eq('user_id', userId)
+        .eq('action', 'admin_action')
+        .order('occurred_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    ]);
+
+    if (scansResult.error) throw scansResult.error;
+    if (auditResult.error) throw auditResult.error;
+
+    const scans = scansResult.data || [];
+    const auditEvents = auditResult.data || [];
+    const threats = scans.filter((scan) =>
+      scan.malware_detected || scan.risk_level === 'high' || scan.risk_level === 'critical'
+    );
+    const highRiskEvents = auditEvents.filter((event) => event.risk_score > 7);
+    const failedEvents = auditEvents.filter((event) => !event.success);
+    const uploadedFiles = new Set([
+      ...scans.map((scan) => scan.file_hash),
+      ...auditEvents.filter((event) => event.action === 'file_upload').map((event) => event.resource)
+    ]);
+    const dataRetentionCompliance = (expiredCacheResult.count || 0) === 0;
+    const lastReview = lastReviewResult.data
+      ? new Date(lastReviewResult.data.occurred_at).getTime()
+      : 0;
+
+    const recommendations: string[] = [];
+    if (threats.length > 0) {
+      recommendations.push(`Review the ${threats.length} high-risk file(s) flagged during security scans`);
+    }
+    if (highRiskEvents.length > 0) {
+      recommendations.push(`Investigate ${highRiskEvents.length} high-risk audit event(s)`);
+    }
+    if (failedEvents.length > auditEvents.length * 0.1 && failedEvents.length > 0) {
+      recommendations.push('Failed operations exceed 10% of activity; check for misuse or misconfiguration');
+    }
+    if (!dataRetentionCompliance) {
+      recommendations.push('Expired cached results are still stored; run cache cleanup');
+    }
+    if (!lastReview || Date.now() - lastReview > ACCESS_REVIEW_INTERVAL_MS) {
+      recommendations.push('No access control review recorded in the last 90 days');
+    }
+    if (scans.length < uploadedFiles.size) {
+      recommendations.push('Some uploaded files were not security scanned');
+    }
+
+    const report = {
+      period: {
+        start: new Date(periodStart).getTime(),
+        end: new Date(periodEnd).getTime()
+      },
+      totalFiles: uploadedFiles.size,
+      securityScans: scans.length,
+      threatsDetected: threats.length,
+      auditEvents: auditEvents.length,
+      dataRetentionCompliance,
+      // Storage and transport encryption are provided by the platform
+      encryptionStatus: 'compliant',
+      accessControls: {
+        implemented: true,
+        lastReview
+      },
+      recommendations
+    };
+
+    const { error: insertError } = await supabaseClient
+      .from('compliance_reports')
+      .insert({
+        user_id: userId,
+        period_start: periodStart,
+        period_end: periodEnd,
+        report
+      });
+
+    if (insertError) {
+      console.error('Error storing compliance report:', insertError);
+    }
+
+    console.log(`Compliance report for ${userId}: ${scans.length} scans, ${threats.length} threats, ${auditEvents.length} audit events`);
+
+    return new Response(
+      JSON.stringify(report),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in generate-compliance-report:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,282 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createLLMProvider } from "../_shared/llm.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A student only gets one lesson per misconception in this window; repeats reuse it
+const LESSON_REUSE_DAYS = 7;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  let requestId: string | null = null;
+
+  try {
+    // Lessons are always for the signed-in student; the body can't name someone else
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!userData.user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const studentId = userData.user.id;
+
+    const {
+      misconceptionCategory,
+      misconceptionName,
+      misconceptionDescription,
+      skillName,
+      subject,
+      grade,
+      studentAnswer,
+      correctAnswer,
+      questionContext,
+      conceptMissed,
+      triggeredBy
+    } = await req.json();
+
+    if (!misconceptionCategory || !skillName) {
+      return new Response(
+        JSON.stringify({ error: 'misconceptionCategory and skillName are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('📘 Mini-lesson requested for misconception:', misconceptionCategory, 'skill:', skillName);
+
+    const subtypeId = await resolveMisconceptionSubtype(
+      supabase,
+      subject || 'General',
+      misconceptionName || misconceptionCategory,
+      misconceptionDescription
+    );
+
+    // Reuse a recent lesson for the same misconception instead of generating another
+    const reuseSince = new Date();
+    reuseSince.setDate(reuseSince.getDate() - LESSON_REUSE_DAYS);
+
+    const { data: existingLesson } = await supabase
+      .from('mini_lessons')
+      .select('*')
+      .eq('student_id', studentId)
+      .eq('misconception_subtype_id', subtypeId)
+      .gte('generated_at', reuseSince.toISOString())
+      .order('generated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (existingLesson) {
+      console.log('♻️ Reusing recent mini-lesson:', existingLesson.id);
+      return new Response(JSON.stringify({ miniLesson: existingLesson, reused: true }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Look up where the student stood on this skill so later attempts can be compared against it
+    const baselineScore = await getLatestSkillScore(supabase, studentId, skillName);
+
+    const requestContext = {
+      skillName,
+      subject,
+      grade,
+      misconceptionCategory,
+      studentAnswer,
+      correctAnswer,
+      questionContext,
+      conceptMissed
+    };
+
+    const { data: lessonRequest, error: requestError } = await supabase
+      .from('mini_lesson_requests')
+      .insert({
+        student_id: studentId,
+        misconception_subtype_id: subtypeId,
+        request_context: requestContext,
+        status: 'processing'
+      })
+      .select('id')
+      .single();
+
+    if (requestError) {
+      throw new Error(`Failed to create mini-lesson request: ${requestError.message}`);
+    }
+    requestId = lessonRequest.id;
+
+    const lessonContent = await generateLessonContent({
+      misconceptionName: misconceptionName || misconceptionCategory,
+      misconceptionDescription,
+      skillName,
+      subject,
+      grade,
+      studentAnswer,
+      correctAnswer,
+      questionContext,
+      conceptMissed
+    });
+
+    const { data: miniLesson, error: lessonError } = await supabase
+      .from('mini_lessons')
+      .insert({
+        student_id: studentId,
+        misconception_subtype_id: subtypeId,
+        lesson_content: lessonContent,
+        difficulty_level: 'standard',
+        triggered_by: triggeredBy || 'practice_exercise',
+        generation_context: { ...requestContext, baselineScore }
+      })
+      .select()
+      .single();
+
+    if (lessonError) {
+      throw new Error(`Failed to save mini-lesson: ${lessonError.message}`);
+    }
+
+    await supabase
+      .from('mini_lesson_requests')
+      .update({ status: 'completed', mini_lesson_id: miniLesson.id })
+      .eq('id', requestId);
+
+    console.log('✅ Mini-lesson generated:', miniLesson.id);
+
+    return new Response(JSON.stringify({ miniLesson, reused: false }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in generate-mini-lesson function:', error);
+
+    if (requestId) {
+      await supabase
+        .from('mini_lesson_requests')
+        .update({ status: 'failed', error_message: error.message })
+        .eq('id', requestId);
+    }
+
+    return new Response(JSON.stringify({
+      error: 'Failed to generate mini-lesson. Please try again.'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// Find the subtype row for a misconception, creating it (and its subject category) on first use
+async function resolveMisconceptionSubtype(
+  supabase: SupabaseClient,
+  subject: string,
+  subtypeName: string,
+  description?: string
+): Promise<string> {
+  const { data: existingSubtype } = await supabase
+    .from('misconception_subtypes')
+    .select('id')
+    .eq('subtype_name', subtypeName)
+    .limit(1)
+    .maybeSingle();
+
+  if (existingSubtype) return existingSubtype.id;
+
+  let { data: category } = await supabase
+    .from('misconception_categories')
+    .select('id')
+    .eq('category_name', subject)
+    .limit(1)
+    .maybeSingle();
+
+  if (!category) {
+    const { data: newCategory, error: categoryError } = await supabase
+      .from('misconception_categories')
+      .insert({ category_name: subject, description: `${subject} misconceptions` })
+      .select('id')
+      .single();
+
+    if (categoryError) {
+      throw new Error(`Failed to create misconception category: ${categoryError.message}`);
+    }
+    category = newCategory;
+  }
+
+  const { data: newSubtype, error: subtypeError } = await supabase
+    .from('misconception_subtypes')
+    .insert({ category_id: category.id, subtype_name: subtypeName, description: description || null })
+    .select('id')
+    .single();
+
+  if (subtypeError) {
+    throw new Error(`Failed to create misconception subtype: ${subtypeError.message}`);
+  }
+
+  return newSubtype.id;
+}
+
+async function getLatestSkillScore(supabase: SupabaseClient, studentId: string, skillName: string): Promise<number | null> {
+  for (const table of ['content_skill_scores', 'subject_skill_scores']) {
+    const { data } = await supabase
+      .from(table)
+      .select('score')
+      .eq('authenticated_student_id', studentId)
+      .eq('skill_name', skillName)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data) return data.score;
+  }
+  return null;
+}
+
+async function generateLessonContent(params: {
+  misconceptionName: string;
+  misconceptionDescription?: string;
+  skillName: string;
+  subject?: string;
+  grade?: string;
+  studentAnswer?: string;
+  correctAnswer?: string;
+  questionContext?: string;
+  conceptMissed?: string;
+}): Promise<string> {
+  const systemPrompt = `You are an expert teacher writing a short, targeted mini-lesson for one student who just showed a specific misconception.
+
+Instructions:
+- Write about 200 words, in plain language a 12-year-old can follow
+- Start by naming the mistake gently, without blaming the student
+- Explain why the mistaken idea doesn't work, then the correct idea
+- Give one short worked example
+- End with one quick self-check question and its answer
+- Use short paragraphs; no markdown headings
+
+The student is learning ${params.subject || 'this subject'}${params.grade ? ` in ${params.grade}` : ''} and working on the skill: ${params.skillName}`;
+
+  const userPrompt = `Misconception: ${params.misconceptionName}${params.misconceptionDescription ? ` (${params.misconceptionDescription})` : ''}
+${params.conceptMissed ? `Concept missed: ${params.conceptMissed}\n` : ''}${params.questionContext ? `Question: ${params.questionContext}\n` : ''}${params.studentAnswer ? `Student answered: "${params.studentAnswer}"\n` : ''}${params.correctAnswer ? `Correct answer: "${params.correctAnswer}"\n` : ''}
+Write the mini-lesson.`;
+
+  const completion = await createLLMProvider({ service: 'generate-mini-lesson' }).complete({
+    tier: 'fast',
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ],
+    temperature: 0.6,
+    maxTokens: 450,
+  });
+
+  return completion.content;
+}
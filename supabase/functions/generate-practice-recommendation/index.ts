@@ -1,5 +1,6 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createLLMProvider } from "../_shared/llm.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,10 +16,7 @@ serve(async (req) => {
     const { studentName, className, weakestSkill, skillScore, grade, subject } = await req.json()
     console.log('Generating practice recommendation for:', studentName, 'weakest skill:', weakestSkill)
     
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-    if (!openaiApiKey) {
-      throw new Error('OpenAI API key not configured')
-    }
+    const llm = createLLMProvider({ service: 'generate-practice-recommendation', req })
 
     const prompt = `Generate a specific, actionable practice exercise recommendation for a ${grade} ${subject} student named ${studentName} in ${className}.
 
@@ -33,37 +31,23 @@ Please provide:
 
 Keep the recommendation concise (2-3 sentences), practical, and age-appropriate for ${grade} level. Focus on actionable steps the student can take.`
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert educator who creates personalized practice recommendations for students based on their learning needs. Provide specific, actionable advice that helps students improve their weakest skills.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 200,
-      }),
+    const completion = await llm.complete({
+      tier: 'fast',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educator who creates personalized practice recommendations for students based on their learning needs. Provide specific, actionable advice that helps students improve their weakest skills.'
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 200,
     })
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('OpenAI API error:', errorText)
-      throw new Error(`OpenAI API error: ${response.status}`)
-    }
-
-    const result = await response.json()
-    const recommendation = result.choices[0]?.message?.content || 'Unable to generate recommendation'
+    const recommendation = completion.content || 'Unable to generate recommendation'
 
     console.log('Generated recommendation for', studentName)
     
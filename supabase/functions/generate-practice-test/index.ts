@@ -2,8 +2,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.9';
+import { createLLMProvider, type LLMProvider } from "../_shared/llm.ts";
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
@@ -37,6 +37,8 @@ interface Question {
   question: string;
   options?: string[];
   correctAnswer: string;
+  correctAnswers?: string[];
+  matchPairs?: Array<{ prompt: string; answer: string }>;
   acceptableAnswers?: string[];
   keywords?: string[];
   points: number;
@@ -59,6 +61,48 @@ interface PracticeTestData {
   };
 }
 
+const STRUCTURED_TYPE_GUIDE = `For fill-in-blank questions, mark each blank in the question text with "_____" and give one correctAnswers entry per blank, separating accepted alternatives with "|".
+Matching questions need at least 3 matchPairs and ordering questions at least 3 options. Structured questions do not need a correctAnswer.`;
+
+const STRUCTURED_TYPES = ['multi-select', 'matching', 'ordering', 'fill-in-blank'];
+
+// Structured questions the model left incomplete can't be graded; keep them as short answers
+function normalizeQuestion(question: Question): Question {
+  if (!STRUCTURED_TYPES.includes(question.type)) return question;
+
+  const options = Array.isArray(question.options) ? question.options.map(String) : [];
+  const correctAnswers = Array.isArray(question.correctAnswers) ? question.correctAnswers.map(String) : [];
+  const matchPairs = Array.isArray(question.matchPairs)
+    ? question.matchPairs.filter(pair => pair?.prompt && pair?.answer)
+    : [];
+  const blanks = ((question.question || '').match(/_{3,}/g) || []).length;
+
+  const complete =
+    (question.type === 'multi-select' && options.length >= 2 && correctAnswers.some(answer => options.includes(answer))) ||
+    (question.type === 'matching' && matchPairs.length >= 2) ||
+    (question.type === 'ordering' && options.length >= 2) ||
+    (question.type === 'fill-in-blank' && blanks > 0 && correctAnswers.length >= blanks);
+
+  if (!complete) {
+    console.warn(`⚠️ Incomplete ${question.type} question ${question.id}, falling back to short-answer`);
+    return {
+      ...question,
+      type: 'short-answer',
+      options: undefined,
+      correctAnswer: question.correctAnswer || correctAnswers.join(', ') || matchPairs.map(pair => `${pair.prompt}: ${pair.answer}`).join('; ') || options.join(', ')
+    };
+  }
+
+  return {
+    ...question,
+    options: question.type === 'multi-select' || question.type === 'ordering' ? options : undefined,
+    correctAnswers: question.type === 'multi-select'
+      ? correctAnswers.filter(answer => options.includes(answer))
+      : question.type === 'fill-in-blank' ? correctAnswers : undefined,
+    matchPairs: question.type === 'matching' ? matchPairs : undefined
+  };
+}
+
 function buildPrompt(request: PracticeTestRequest): string {
   const { studentName, skillName, className, subject, grade, difficulty = 'mixed', questionCount = 5 } = request;
   
@@ -83,10 +127,12 @@ Format as JSON:
   "questions": [
     {
       "id": "q1",
-      "type": "multiple-choice" | "short-answer" | "essay",
+      "type": "multiple-choice" | "short-answer" | "essay" | "multi-select" | "matching" | "ordering" | "fill-in-blank",
       "question": "Question text",
-      "options": ["A", "B", "C", "D"] (for multiple choice),
+      "options": ["A", "B", "C", "D"] (for multiple choice and multi-select; for ordering, the items in their correct order),
       "correctAnswer": "Correct answer",
+      "correctAnswers": ["Every correct option"] (multi-select) or ["one answer per blank"] (fill-in-blank),
+      "matchPairs": [{ "prompt": "Term", "answer": "Matching definition" }] (matching),
       "acceptableAnswers": ["Alternative answers"],
       "keywords": ["key", "words"],
       "points": 1,
@@ -96,7 +142,8 @@ Format as JSON:
   ],
   "totalPoints": ${questionCount},
   "estimatedTime": ${questionCount * 2}
-}`;
+}
+${STRUCTURED_TYPE_GUIDE}`;
   }
 
   // Single skill prompt
@@ -115,10 +162,12 @@ Format as JSON:
   "questions": [
     {
       "id": "q1",
-      "type": "multiple-choice" | "short-answer" | "essay",
+      "type": "multiple-choice" | "short-answer" | "essay" | "multi-select" | "matching" | "ordering" | "fill-in-blank",
       "question": "Question text",
-      "options": ["A", "B", "C", "D"] (for multiple choice),
+      "options": ["A", "B", "C", "D"] (for multiple choice and multi-select; for ordering, the items in their correct order),
       "correctAnswer": "Correct answer",
+      "correctAnswers": ["Every correct option"] (multi-select) or ["one answer per blank"] (fill-in-blank),
+      "matchPairs": [{ "prompt": "Term", "answer": "Matching definition" }] (matching),
       "acceptableAnswers": ["Alternative answers"],
       "keywords": ["key", "words"],
       "points": 1,
@@ -128,53 +177,36 @@ Format as JSON:
   ],
   "totalPoints": ${questionCount},
   "estimatedTime": ${questionCount * 2}
-}`;
+}
+${STRUCTURED_TYPE_GUIDE}`;
 }
 
-async function generatePracticeTest(request: PracticeTestRequest): Promise<PracticeTestData> {
+async function generatePracticeTest(request: PracticeTestRequest, llm: LLMProvider): Promise<PracticeTestData> {
   console.log('🎯 Generating practice test:', request);
-  
-  if (!openAIApiKey) {
-    throw new Error('OpenAI API key not configured');
-  }
 
   const prompt = buildPrompt(request);
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert teacher creating practice exercises. Generate high-quality, educational questions that help students practice specific skills. Always respond with valid JSON only.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      }),
+    const completion = await llm.complete({
+      tier: 'fast',
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expert teacher creating practice exercises. Generate high-quality, educational questions that help students practice specific skills. Always respond with valid JSON only.`
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 2000,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const content = completion.content;
 
     if (!content) {
-      throw new Error('No content received from OpenAI');
+      throw new Error('No content received from the LLM provider');
     }
 
     // Parse the JSON response
@@ -182,10 +214,12 @@ async function generatePracticeTest(request: PracticeTestRequest): Promise<Pract
     try {
       practiceTest = JSON.parse(content);
     } catch (parseError) {
-      console.error('❌ Failed to parse OpenAI response:', content);
-      throw new Error('Invalid JSON response from OpenAI');
+      console.error('❌ Failed to parse LLM response:', content);
+      throw new Error('Invalid JSON response from the LLM provider');
     }
 
+    practiceTest.questions = (practiceTest.questions || []).map(normalizeQuestion);
+
     // Add metadata
     practiceTest.metadata = {
       skillName: request.skillName,
@@ -213,10 +247,13 @@ serve(async (req) => {
   try {
     console.log('📥 Practice test generation request received');
     
-    if (!openAIApiKey) {
-      console.error('❌ OpenAI API key not configured');
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider({ service: 'generate-practice-test', req });
+    } catch (error) {
+      console.error('❌ LLM provider not configured:', error.message);
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: error.message }),
         { 
           status: 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -238,7 +275,7 @@ serve(async (req) => {
       );
     }
 
-    const practiceTest = await generatePracticeTest(requestData);
+    const practiceTest = await generatePracticeTest(requestData, llm);
 
     return new Response(
       JSON.stringify(practiceTest),
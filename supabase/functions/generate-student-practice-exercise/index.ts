@@ -1,8 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.9';
+import { createLLMProvider, type LLMProvider } from "../_shared/llm.ts";
 
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
@@ -22,8 +22,9 @@ interface StudentPracticeRequest {
   className: string;
   subject: string;
   grade: string;
-  preferredDifficulty?: 'adaptive' | 'review' | 'challenge';
+  preferredDifficulty?: 'adaptive' | 'review' | 'mixed' | 'challenge';
   questionCount?: number;
+  explanationStyle?: 'step_by_step' | 'worked_example' | 'conceptual' | 'visual';
 }
 
 interface Question {
@@ -57,6 +58,7 @@ interface StudentPracticeExercise {
     studentName: string;
     className: string;
     sessionId: string;
+    explanationStyle?: string;
     skillType?: string;
     skillMetadata?: {
       isContentSkill: boolean;
@@ -145,6 +147,17 @@ function buildStudentPracticePrompt(request: StudentPracticeRequest, difficultyL
     challenge: 'Advanced application questions that push understanding. Include real-world scenarios.'
   };
 
+  // Set from the student's adaptive learning profile
+  const explanationGuidance = {
+    step_by_step: 'Break each explanation into short numbered steps.',
+    worked_example: 'Explain by walking through a fully worked example before the general rule.',
+    conceptual: 'Explain the underlying idea and why it works before any procedure.',
+    visual: 'Describe a diagram, number line, table or picture the student can sketch to see the idea.'
+  };
+  const explanationStyle = request.explanationStyle && explanationGuidance[request.explanationStyle]
+    ? request.explanationStyle
+    : 'step_by_step';
+
   const targetImprovement = Math.min(currentSkillScore + 15, 95);
   
   // Build skill context from database information
@@ -176,6 +189,7 @@ EXERCISE REQUIREMENTS:
 - Questions must align with the official curriculum skill description
 - Difficulty: ${difficultyGuidance[difficultyLevel]}
 - Include explanations and hints for each question
+- Explanation style: ${explanationGuidance[explanationStyle]}
 - Focus on areas where students typically struggle at this skill level
 - Make questions engaging and relatable to ${grade} students
 - Ensure questions align with ${skillMetadata.skillType} skill development
@@ -277,12 +291,8 @@ async function updatePracticeAnalytics(studentId: string, skillName: string): Pr
   }
 }
 
-async function generateStudentPracticeExercise(request: StudentPracticeRequest): Promise<StudentPracticeExercise> {
+async function generateStudentPracticeExercise(request: StudentPracticeRequest, llm: LLMProvider): Promise<StudentPracticeExercise> {
   console.log('🎯 Generating student practice exercise:', request);
-  
-  if (!openAIApiKey) {
-    throw new Error('OpenAI API key not configured');
-  }
 
   // First, validate and find the skill in the database
   let skillMetadata;
@@ -302,48 +312,34 @@ async function generateStudentPracticeExercise(request: StudentPracticeRequest):
   const prompt = buildStudentPracticePrompt(request, difficultyLevel, skillMetadata);
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert tutor creating personalized practice exercises based on official curriculum skills. Generate adaptive questions that help students improve specific skills according to their curriculum definitions. Focus on encouraging learning and building confidence. Always respond with valid JSON only.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.8,
-        max_tokens: 2500,
-      }),
+    const completion = await llm.complete({
+      tier: 'fast',
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expert tutor creating personalized practice exercises based on official curriculum skills. Generate adaptive questions that help students improve specific skills according to their curriculum definitions. Focus on encouraging learning and building confidence. Always respond with valid JSON only.`
+        },
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.8,
+      maxTokens: 2500,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ OpenAI API error:', response.status, errorText);
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const content = completion.content;
 
     if (!content) {
-      throw new Error('No content received from OpenAI');
+      throw new Error('No content received from the LLM provider');
     }
 
     let practiceExercise: StudentPracticeExercise;
     try {
       practiceExercise = JSON.parse(content);
     } catch (parseError) {
-      console.error('❌ Failed to parse OpenAI response:', content);
-      throw new Error('Invalid JSON response from OpenAI');
+      console.error('❌ Failed to parse LLM response:', content);
+      throw new Error('Invalid JSON response from the LLM provider');
     }
 
     // Add enhanced metadata including skill classification from database
@@ -355,6 +351,7 @@ async function generateStudentPracticeExercise(request: StudentPracticeRequest):
       studentName: request.studentName,
       className: request.className,
       sessionId,
+      explanationStyle: request.explanationStyle || 'step_by_step',
       skillType: skillMetadata.skillType,
       skillMetadata: skillMetadata
     };
@@ -383,10 +380,13 @@ serve(async (req) => {
   try {
     console.log('📥 Student practice exercise generation request received');
     
-    if (!openAIApiKey) {
-      console.error('❌ OpenAI API key not configured');
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider({ service: 'generate-student-practice-exercise', req });
+    } catch (error) {
+      console.error('❌ LLM provider not configured:', error.message);
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: error.message }),
         { 
           status: 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -408,7 +408,7 @@ serve(async (req) => {
       );
     }
 
-    const practiceExercise = await generateStudentPracticeExercise(requestData);
+    const practiceExercise = await generateStudentPracticeExercise(requestData, llm);
 
     return new Response(
       JSON.stringify(practiceExercise),
@@ -1,6 +1,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createLLMProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,10 +13,20 @@ interface GenerateExerciseRequest {
   skill_score: number;
   student_name: string;
   difficulty_level?: 'easy' | 'medium' | 'hard';
+  question_count?: number;
+  explanation_style?: 'step_by_step' | 'worked_example' | 'conceptual' | 'visual';
   subject?: string;
   grade?: string;
 }
 
+// Set from the student's adaptive learning profile
+const EXPLANATION_GUIDANCE: Record<string, string> = {
+  step_by_step: 'Break each explanation into short numbered steps.',
+  worked_example: 'Explain by walking through a fully worked example before the general rule.',
+  conceptual: 'Explain the underlying idea and why it works before any procedure.',
+  visual: 'Describe a diagram, number line, table or picture the student can sketch to see the idea.'
+};
+
 // Enhanced skill type detection based on skill name patterns
 function detectSkillType(skillName: string, subject?: string): 'content' | 'subject' {
   const contentSkillPatterns = [
@@ -105,7 +116,7 @@ serve(async (req) => {
   }
 
   try {
-    const { skill_name, skill_score, student_name, difficulty_level, subject, grade }: GenerateExerciseRequest = await req.json();
+    const { skill_name, skill_score, student_name, difficulty_level, question_count, explanation_style, subject, grade }: GenerateExerciseRequest = await req.json();
 
     // Detect skill type and generate metadata
     const skillType = detectSkillType(skill_name, subject);
@@ -125,22 +136,16 @@ serve(async (req) => {
       }
     }
 
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an educational AI that creates personalized practice exercises for students. Create engaging, interactive exercises that help students improve their skills.`
-          },
-          {
-            role: 'user',
-            content: `Create a ${targetDifficulty} level practice exercise for the skill "${skill_name}" for student ${student_name}. 
+    const completion = await createLLMProvider({ service: 'generate-tailored-exercise', req }).complete({
+      tier: 'reasoning',
+      messages: [
+        {
+          role: 'system',
+          content: `You are an educational AI that creates personalized practice exercises for students. Create engaging, interactive exercises that help students improve their skills.`
+        },
+        {
+          role: 'user',
+          content: `Create a ${targetDifficulty} level practice exercise for the skill "${skill_name}" for student ${student_name}. 
             The student currently has a score of ${skill_score}% in this skill.
             
             SKILL TYPE: ${skillType} (${skillType === 'content' ? 'subject-specific content knowledge' : 'cross-curricular cognitive skill'})
@@ -170,22 +175,17 @@ serve(async (req) => {
               "skill_focus": "${skill_name}"
             }
             
-            Include 5-8 questions that progressively build on the skill. Make it engaging and educational.`
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 2000
-      })
+            ${question_count ? `Include exactly ${question_count} questions` : 'Include 5-8 questions'} that progressively build on the skill. Make it engaging and educational.
+            ${explanation_style && EXPLANATION_GUIDANCE[explanation_style] ? `EXPLANATION STYLE: ${EXPLANATION_GUIDANCE[explanation_style]}` : ''}`
+        }
+      ],
+      temperature: 0.7,
+      maxTokens: 2000
     });
 
-    if (!openAIResponse.ok) {
-      throw new Error(`OpenAI API error: ${openAIResponse.statusText}`);
-    }
-
-    const openAIData = await openAIResponse.json();
-    const exerciseContent = openAIData.choices[0].message.content;
+    const exerciseContent = completion.content;
 
-    // Parse the JSON response from OpenAI
+    // Parse the JSON response from the model
     let exerciseData;
     try {
       exerciseData = JSON.parse(exerciseContent);
@@ -207,6 +207,7 @@ serve(async (req) => {
     exerciseData.generated_at = new Date().toISOString();
     exerciseData.student_name = student_name;
     exerciseData.target_skill_score = skill_score;
+    exerciseData.explanation_style = explanation_style || null;
 
     console.log(`Generated tailored exercise with skill type: ${exerciseData.skillType}`);
 
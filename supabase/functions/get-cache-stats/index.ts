@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!userData.user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: entries, error } = await supabaseClient
+      .from('ocr_result_cache')
+      .select('file_name, file_size, access_count, created_at')
+      .eq('user_id', userData.user.id)
+      .gt('expires_at', new Date().toISOString());
+
+    if (error) {
+      console.error('Error reading cache stats:', error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const validEntries = entries || [];
+    const totalLookups = validEntries.reduce((sum, e) => sum + e.access_count, 0);
+    // Every entry's first access is the write that created it; the rest are hits
+    const totalHits = totalLookups - validEntries.length;
+    const createdTimes = validEntries.map((e) => new Date(e.created_at).getTime());
+
+    const stats = {
+      totalEntries: validEntries.length,
+      hitRate: totalLookups > 0 ? totalHits / totalLookups : 0,
+      totalSize: validEntries.reduce((sum, e) => sum + Number(e.file_size), 0),
+      oldestEntry: createdTimes.length > 0 ? Math.min(...createdTimes) : 0,
+      newestEntry: createdTimes.length > 0 ? Math.max(...createdTimes) : 0,
+      topFiles: [...validEntries]
+        .sort((a, b) => b.access_count - a.access_count)
+        .slice(0, 10)
+        .map((e) => ({ fileName: e.file_name, accessCount: e.access_count }))
+    };
+
+    console.log(`Cache stats for ${userData.user.id}: ${stats.totalEntries} entries, ${(stats.hitRate * 100).toFixed(1)}% hit rate`);
+
+    return new Response(
+      JSON.stringify(stats),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in get-cache-stats:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
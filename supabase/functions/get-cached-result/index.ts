@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!userData.user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { fileHash } = await req.json();
+
+    if (!fileHash) {
+      return new Response(
+        JSON.stringify({ error: 'File hash is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: entry, error } = await supabaseClient
+      .from('ocr_result_cache')
+      .select('*')
+      .eq('user_id', userData.user.id)
+      .eq('file_hash', fileHash)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading cached result:', error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!entry) {
+      console.log(`Cache miss: ${fileHash}`);
+      return new Response(
+        JSON.stringify({ result: null }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Record the hit so stats and eviction reflect real usage
+    await supabaseClient
+      .from('ocr_result_cache')
+      .update({
+        access_count: entry.access_count + 1,
+        last_accessed_at: new Date().toISOString()
+      })
+      .eq('id', entry.id);
+
+    console.log(`Cache hit: ${fileHash} (${entry.file_name})`);
+
+    return new Response(
+      JSON.stringify({
+        id: entry.id,
+        fileName: entry.file_name,
+        fileSize: entry.file_size,
+        result: entry.result,
+        metadata: entry.metadata,
+        createdAt: new Date(entry.created_at).getTime(),
+        accessCount: entry.access_count + 1
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in get-cached-result:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,6 +1,9 @@
 
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AIBudgetExceededError, createLLMProvider, resolveBatchTier, type LLMProvider } from "../_shared/llm.ts";
+import { matchAnswerKey } from "../_shared/answerKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -30,7 +33,10 @@ class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // A used-up AI budget says nothing about the provider's health
+      if (!(error instanceof AIBudgetExceededError)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -53,6 +59,145 @@ class CircuitBreaker {
 
 const circuitBreaker = new CircuitBreaker();
 
+interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  skillName?: string;
+  skillType?: 'content' | 'subject';
+  levels: Array<{ label: string; points: number; description: string; exemplar?: string }>;
+}
+
+interface Rubric {
+  id: string;
+  criteria: RubricCriterion[];
+  total_points: number;
+}
+
+// One criterion score as the model returned it, before it is clamped to the rubric
+interface ReturnedCriterionScore {
+  criterionId?: string;
+  level?: unknown;
+  pointsEarned?: unknown;
+  justification?: unknown;
+}
+
+// A question as the client sends it, on its own or in a batch
+interface GradingQuestion {
+  questionNumber?: number;
+  questionText?: string;
+  studentAnswer?: string;
+  correctAnswer?: string;
+  pointsPossible?: number;
+  skillContext?: string;
+  rubricId?: string;
+  routedModel?: string;
+}
+
+// Grade one question from its answer key once the AI budget is used up. Only answers
+// matching the key are credited; the rest are left for the teacher to review
+function gradeAgainstAnswerKey(question: GradingQuestion, index: number, reason: string) {
+  const pointsPossible = question.pointsPossible || 1;
+  const match = question.rubricId ? null : matchAnswerKey(question.studentAnswer, question.correctAnswer);
+
+  return {
+    questionNumber: question.questionNumber || index + 1,
+    isCorrect: match === true,
+    pointsEarned: match === true ? pointsPossible : 0,
+    confidence: match === true ? 0.9 : 0.1,
+    reasoning: match === true
+      ? `${reason}. Matches the answer key; graded without AI.`
+      : `${reason}. Could not be graded without AI; manual review required.`,
+    complexityScore: 0.5,
+    reasoningDepth: 'shallow',
+    matchedSkills: [],
+    skillConfidence: 0.3
+  };
+}
+
+// Questions reference rubrics by id; the criteria are loaded here so callers stay light.
+// Only the calling teacher's own rubrics are loaded.
+async function loadRubrics(req: Request, rubricIds: string[]): Promise<Map<string, Rubric>> {
+  const rubrics = new Map<string, Rubric>();
+  if (rubricIds.length === 0) return rubrics;
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: userData } = token
+    ? await supabase.auth.getUser(token)
+    : { data: { user: null } };
+
+  if (!userData.user) {
+    console.warn('Rubrics requested without a signed-in teacher; grading without them');
+    return rubrics;
+  }
+
+  const { data, error } = await supabase
+    .from('rubrics')
+    .select('id, criteria, total_points')
+    .eq('teacher_id', userData.user.id)
+    .in('id', rubricIds);
+
+  if (error) {
+    console.error('Failed to load rubrics:', error);
+    return rubrics;
+  }
+
+  for (const rubric of data || []) {
+    rubrics.set(rubric.id, rubric as Rubric);
+  }
+  return rubrics;
+}
+
+function formatRubric(rubric: Rubric): string {
+  return rubric.criteria.map(criterion => `- [${criterion.id}] ${criterion.name}${criterion.description ? `: ${criterion.description}` : ''}
+${criterion.levels.map(level => `    ${level.label} (${level.points} pts): ${level.description}${level.exemplar ? ` Exemplar: "${level.exemplar}"` : ''}`).join('\n')}`).join('\n');
+}
+
+const CRITERION_SCORES_FORMAT = `"criterionScores": [{ "criterionId": "<id>", "level": "<level label>", "pointsEarned": 3, "justification": "Why the answer meets this level" }]`;
+
+/**
+ * Clamp the model's per-criterion scores to the rubric and scale their total onto the
+ * question's points
+ */
+function applyRubric<T extends { criterionScores?: unknown }>(result: T, rubric: Rubric, pointsPossible: number) {
+  const returned: Array<ReturnedCriterionScore | null> = Array.isArray(result.criterionScores) ? result.criterionScores : [];
+
+  const criterionScores = rubric.criteria.map(criterion => {
+    const scored: ReturnedCriterionScore = returned.find(score => score?.criterionId === criterion.id) || {};
+    const maxPoints = Math.max(0, ...criterion.levels.map(level => Number(level.points) || 0));
+    return {
+      criterionId: criterion.id,
+      criterion: criterion.name,
+      level: typeof scored.level === 'string' ? scored.level : undefined,
+      pointsEarned: Math.max(0, Math.min(maxPoints, Number(scored.pointsEarned) || 0)),
+      pointsPossible: maxPoints,
+      justification: String(scored.justification || 'No justification returned; review recommended.'),
+      skillName: criterion.skillName,
+      skillType: criterion.skillType
+    };
+  });
+
+  const rubricTotal = Number(rubric.total_points) || 0;
+  if (rubricTotal <= 0) {
+    return { ...result, criterionScores };
+  }
+
+  const rubricEarned = criterionScores.reduce((sum, score) => sum + score.pointsEarned, 0);
+  const pointsEarned = Math.round((rubricEarned / rubricTotal) * pointsPossible * 100) / 100;
+
+  return {
+    ...result,
+    pointsEarned,
+    isCorrect: pointsEarned >= pointsPossible,
+    criterionScores
+  };
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -60,10 +205,12 @@ serve(async (req) => {
   }
 
   try {
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAIApiKey) {
+    let llm: LLMProvider;
+    try {
+      llm = createLLMProvider({ service: 'grade-complex-question', req });
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI API key not configured' }),
+        JSON.stringify({ error: error.message }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -72,11 +219,11 @@ serve(async (req) => {
     
     // Support enhanced batch processing, skill escalation, and single question processing
     if (requestBody.escalationMode) {
-      return await processSkillEscalation(requestBody, openAIApiKey);
+      return await processSkillEscalation(requestBody, llm);
     } else if (requestBody.batchMode || Array.isArray(requestBody.questions)) {
-      return await processEnhancedBatchQuestions(requestBody, openAIApiKey);
+      return await processEnhancedBatchQuestions(requestBody, llm, req);
     } else {
-      return await processSingleQuestion(requestBody, openAIApiKey);
+      return await processSingleQuestion(requestBody, llm, req);
     }
 
   } catch (error) {
@@ -88,7 +235,7 @@ serve(async (req) => {
   }
 });
 
-async function processEnhancedBatchQuestions(requestBody: any, openAIApiKey: string) {
+async function processEnhancedBatchQuestions(requestBody: any, llm: LLMProvider, req: Request) {
   const { questions, enhancedBatchPrompt, examId, rubric } = requestBody;
   
   if (!questions || !Array.isArray(questions)) {
@@ -98,63 +245,51 @@ async function processEnhancedBatchQuestions(requestBody: any, openAIApiKey: str
     );
   }
 
+  const rubrics = await loadRubrics(req, [...new Set(questions.map((q: GradingQuestion) => q.rubricId).filter(Boolean))] as string[]);
+
   // Use enhanced prompt if provided, otherwise fall back to standard batch prompt
-  const finalPrompt = enhancedBatchPrompt || createEnhancedBatchPrompt(questions, rubric);
+  const finalPrompt = (enhancedBatchPrompt || createEnhancedBatchPrompt(questions, rubric)) +
+    createQuestionRubricsSection(questions, rubrics);
   const questionDelimiter = '---END QUESTION---';
 
   console.log(`🎯 Processing enhanced batch: ${questions.length} questions with cross-question leakage prevention`);
 
   try {
-    const result = await circuitBreaker.execute(async () => {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
+    // Each question may carry the model AIModelRouter picked for it
+    const result = await circuitBreaker.execute(() => llm.complete({
+      examId,
+      tier: resolveBatchTier(questions.map((q: GradingQuestion) => q.routedModel)),
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educational grading assistant. Process each question independently and avoid cross-question contamination. Always respond with valid JSON matching the requested format.'
         },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert educational grading assistant. Process each question independently and avoid cross-question contamination. Always respond with valid JSON matching the requested format.'
-            },
-            {
-              role: 'user',
-              content: finalPrompt
-            }
-          ],
-          temperature: 0.2, // Lower temperature for more consistent batch processing
-          max_tokens: 3000,
-          response_format: { type: "json_object" }
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenAI API error:', errorText);
-        throw new Error(`OpenAI API request failed: ${response.status}`);
-      }
-
-      return await response.json();
-    });
+        {
+          role: 'user',
+          content: finalPrompt
+        }
+      ],
+      temperature: 0.2, // Lower temperature for more consistent batch processing
+      maxTokens: 3000,
+      json: true
+    }));
 
-    const content = result.choices?.[0]?.message?.content;
+    const content = result.content;
     if (!content) {
-      throw new Error('No response content from OpenAI');
+      throw new Error('No response content from the LLM provider');
     }
 
     let gradingResults;
     try {
       gradingResults = JSON.parse(content);
     } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', content);
+      console.error('Failed to parse LLM response:', content);
       // Attempt delimiter-based parsing as fallback
       gradingResults = parseWithDelimiters(content, questionDelimiter, questions.length);
     }
 
     // Validate and sanitize enhanced batch results
-    const sanitizedResults = validateAndSanitizeEnhancedBatchResults(gradingResults, questions);
+    const sanitizedResults = validateAndSanitizeEnhancedBatchResults(gradingResults, questions, rubrics);
 
     console.log(`✅ Enhanced batch grading completed: ${questions.length} questions processed with leakage prevention`);
 
@@ -163,6 +298,7 @@ async function processEnhancedBatchQuestions(requestBody: any, openAIApiKey: str
         success: true,
         results: sanitizedResults.results || sanitizedResults,
         usage: result.usage,
+        model: result.model,
         batchSize: questions.length,
         processingTime: Date.now(),
         enhancedProcessing: true,
@@ -172,6 +308,20 @@ async function processEnhancedBatchQuestions(requestBody: any, openAIApiKey: str
     );
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      console.log(`💰 ${error.message} - grading ${questions.length} questions against the answer key`);
+      return new Response(
+        JSON.stringify({
+          success: true,
+          results: questions.map((q: GradingQuestion, index: number) => gradeAgainstAnswerKey(q, index, error.message)),
+          budgetExceeded: error.message,
+          fallbackUsed: true,
+          batchSize: questions.length
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('Enhanced batch processing failed:', error);
     
     // Fallback: Create basic results for each question
@@ -200,54 +350,39 @@ async function processEnhancedBatchQuestions(requestBody: any, openAIApiKey: str
   }
 }
 
-async function processSkillEscalation(requestBody: any, openAIApiKey: string) {
+async function processSkillEscalation(requestBody: any, llm: LLMProvider) {
   const {
     questionNumber,
     questionText,
     studentAnswer,
     availableSkills,
     escalationPrompt,
-    model = 'gpt-4.1-2025-04-14'
+    routedModel
   } = requestBody;
 
-  console.log(`🎯 Processing skill escalation for Q${questionNumber} using ${model}`);
+  console.log(`🎯 Processing skill escalation for Q${questionNumber}${routedModel ? ` (routed to ${routedModel})` : ''}`);
 
   try {
-    const result = await circuitBreaker.execute(async () => {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
+    // Escalations default to the reasoning tier unless the client routed them elsewhere
+    const result = await circuitBreaker.execute(() => llm.complete({
+      tier: 'reasoning',
+      routedModel,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educational assessment specialist. Resolve skill matching ambiguity with precision and confidence.'
         },
-        body: JSON.stringify({
-          model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert educational assessment specialist. Resolve skill matching ambiguity with precision and confidence.'
-            },
-            {
-              role: 'user',
-              content: escalationPrompt
-            }
-          ],
-          temperature: 0.1, // Very low temperature for consistent skill resolution
-          max_tokens: 1000,
-          response_format: { type: "json_object" }
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Skill escalation API error:', errorText);
-        throw new Error(`Skill escalation failed: ${response.status}`);
-      }
-
-      return await response.json();
-    });
+        {
+          role: 'user',
+          content: escalationPrompt
+        }
+      ],
+      temperature: 0.1, // Very low temperature for consistent skill resolution
+      maxTokens: 1000,
+      json: true
+    }));
 
-    const content = result.choices?.[0]?.message?.content;
+    const content = result.content;
     if (!content) {
       throw new Error('No response from skill escalation');
     }
@@ -277,13 +412,21 @@ async function processSkillEscalation(requestBody: any, openAIApiKey: string) {
         success: true,
         skillEscalation: validatedResult,
         usage: result.usage,
-        model,
+        model: result.model,
         escalated: true
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    // The caller keeps its pre-classified skills
+    if (error instanceof AIBudgetExceededError) {
+      return new Response(
+        JSON.stringify({ success: false, error: error.message, budgetExceeded: error.message }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('Skill escalation processing failed:', error);
     
     // Fallback skill assignment
@@ -306,7 +449,7 @@ async function processSkillEscalation(requestBody: any, openAIApiKey: string) {
   }
 }
 
-async function processSingleQuestion(requestBody: any, openAIApiKey: string) {
+async function processSingleQuestion(requestBody: any, llm: LLMProvider, req: Request) {
   const {
     questionText,
     studentAnswer,
@@ -314,64 +457,59 @@ async function processSingleQuestion(requestBody: any, openAIApiKey: string) {
     pointsPossible,
     questionNumber,
     studentName,
-    skillContext
+    skillContext,
+    rubricId,
+    routedModel,
+    examId
   } = requestBody;
 
-  if (!questionText || !studentAnswer || !correctAnswer) {
+  if (!questionText || !studentAnswer || (!correctAnswer && !rubricId)) {
     return new Response(
-      JSON.stringify({ error: 'Missing required fields: questionText, studentAnswer, correctAnswer' }),
+      JSON.stringify({ error: 'Missing required fields: questionText, studentAnswer, and correctAnswer or rubricId' }),
       { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 
-  const prompt = createSingleQuestionPrompt(requestBody);
+  const rubric = rubricId ? (await loadRubrics(req, [rubricId])).get(rubricId) : undefined;
+  if (rubricId && !rubric && !correctAnswer) {
+    return new Response(
+      JSON.stringify({ error: 'Rubric not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+  const prompt = createSingleQuestionPrompt(requestBody, rubric);
 
   try {
-    const result = await circuitBreaker.execute(async () => {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
-          'Content-Type': 'application/json',
+    const result = await circuitBreaker.execute(() => llm.complete({
+      examId,
+      tier: 'fast',
+      routedModel,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert educational grading assistant. Always respond with valid JSON matching the requested format.'
         },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert educational grading assistant. Always respond with valid JSON matching the requested format.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 1000,
-          response_format: { type: "json_object" }
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OpenAI API error:', errorText);
-        throw new Error('OpenAI API request failed');
-      }
-
-      return await response.json();
-    });
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.3,
+      maxTokens: 1000,
+      json: true
+    }));
 
-    const content = result.choices?.[0]?.message?.content;
+    const content = result.content;
     if (!content) {
-      throw new Error('No response from OpenAI');
+      throw new Error('No response from the LLM provider');
     }
 
     let gradingResult;
     try {
       gradingResult = JSON.parse(content);
     } catch (parseError) {
-      console.error('Failed to parse OpenAI response:', content);
-      throw new Error('Invalid response format from OpenAI');
+      console.error('Failed to parse LLM response:', content);
+      throw new Error('Invalid response format from the LLM provider');
     }
 
     // Validate and sanitize the response
@@ -384,21 +522,33 @@ async function processSingleQuestion(requestBody: any, openAIApiKey: string) {
       reasoningDepth: ['shallow', 'medium', 'deep'].includes(gradingResult.reasoningDepth) 
         ? gradingResult.reasoningDepth 
         : 'medium',
-      usage: {
-        promptTokens: result.usage?.prompt_tokens || 0,
-        completionTokens: result.usage?.completion_tokens || 0,
-        totalTokens: result.usage?.total_tokens || 0
-      }
+      usage: result.usage,
+      model: result.model
     };
 
-    console.log(`✅ OpenAI graded Q${questionNumber}: ${sanitizedResult.pointsEarned}/${pointsPossible} points`);
+    const finalResult = rubric
+      ? applyRubric({ ...sanitizedResult, criterionScores: gradingResult.criterionScores }, rubric, pointsPossible)
+      : sanitizedResult;
+
+    console.log(`✅ LLM graded Q${questionNumber}: ${finalResult.pointsEarned}/${pointsPossible} points`);
 
     return new Response(
-      JSON.stringify(sanitizedResult),
+      JSON.stringify(finalResult),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      console.log(`💰 ${error.message} - grading Q${questionNumber} against the answer key`);
+      return new Response(
+        JSON.stringify({
+          ...gradeAgainstAnswerKey({ questionNumber, studentAnswer, correctAnswer, pointsPossible, rubricId }, 0, error.message),
+          budgetExceeded: error.message
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.error('Single question processing failed:', error);
     return new Response(
       JSON.stringify({ error: error.message }),
@@ -407,6 +557,31 @@ async function processSingleQuestion(requestBody: any, openAIApiKey: string) {
   }
 }
 
+function createSingleQuestionPrompt(requestBody: GradingQuestion & { studentName?: string }, rubric?: Rubric): string {
+  const { questionText, studentAnswer, correctAnswer, pointsPossible, studentName, skillContext } = requestBody;
+
+  return `Grade this test answer${studentName ? ` for student ${studentName}` : ''}.
+
+Question: ${questionText}
+Student Answer: "${studentAnswer}"
+${correctAnswer ? `Sample Correct Answer: "${correctAnswer}"\n` : ''}Points Possible: ${pointsPossible || 1}
+${skillContext ? `Skills Being Assessed: ${skillContext}\n` : ''}${rubric ? `
+RUBRIC (pick the level that best matches the answer for each criterion and justify it):
+${formatRubric(rubric)}
+` : ''}
+REQUIRED OUTPUT FORMAT (JSON object):
+{
+  "isCorrect": true,
+  "pointsEarned": 2,
+  "confidence": 0.9,
+  "reasoning": "Explanation of the grading decision",
+  "complexityScore": 0.6,
+  "reasoningDepth": "medium"${rubric ? `,\n  ${CRITERION_SCORES_FORMAT}` : ''}
+}
+
+Award partial credit where the answer is partially correct.`;
+}
+
 function createEnhancedBatchPrompt(questions: any[], rubric?: string): string {
   const questionCount = questions.length;
   const delimiter = '---END QUESTION---';
@@ -453,6 +628,24 @@ REQUIRED OUTPUT FORMAT (JSON object with results array):
 CRITICAL: Return exactly ${questionCount} results. Process each question independently without cross-contamination.`;
 }
 
+function createQuestionRubricsSection(questions: GradingQuestion[], rubrics: Map<string, Rubric>): string {
+  const sections = questions
+    .map((q, index) => {
+      const rubric = q.rubricId ? rubrics.get(q.rubricId) : undefined;
+      return rubric ? `Q${q.questionNumber || index + 1} RUBRIC:\n${formatRubric(rubric)}` : null;
+    })
+    .filter(Boolean);
+
+  if (sections.length === 0) return '';
+
+  return `
+
+QUESTION RUBRICS:
+Score these questions criterion by criterion: pick the level that best matches the student's answer,
+justify it, and add ${CRITERION_SCORES_FORMAT} to that question's result.
+${sections.join('\n')}`;
+}
+
 function parseWithDelimiters(content: string, delimiter: string, expectedCount: number): any {
   const blocks = content.split(delimiter);
   const results = [];
@@ -476,20 +669,21 @@ function parseWithDelimiters(content: string, delimiter: string, expectedCount:
   return { results };
 }
 
-function validateAndSanitizeEnhancedBatchResults(results: any, questions: any[]): any {
+function validateAndSanitizeEnhancedBatchResults(results: any, questions: any[], rubrics: Map<string, Rubric>): any {
   if (!results || !results.results) {
     if (Array.isArray(results)) {
       results = { results };
     } else {
-      throw new Error('Invalid enhanced results format from OpenAI');
+      throw new Error('Invalid enhanced results format from the LLM provider');
     }
   }
 
   const sanitizedResults = results.results.map((result: any, index: number) => {
     const question = questions[index];
     const pointsPossible = question?.pointsPossible || 1;
+    const rubric = question?.rubricId ? rubrics.get(question.rubricId) : undefined;
     
-    return {
+    const sanitized = {
       questionNumber: result.questionNumber || question?.questionNumber || index + 1,
       isCorrect: Boolean(result.isCorrect),
       pointsEarned: Math.max(0, Math.min(pointsPossible, Number(result.pointsEarned) || 0)),
@@ -502,6 +696,10 @@ function validateAndSanitizeEnhancedBatchResults(results: any, questions: any[])
       matchedSkills: Array.isArray(result.matchedSkills) ? result.matchedSkills : [],
       skillConfidence: Math.max(0, Math.min(1, Number(result.skillConfidence) || 0.7))
     };
+
+    return rubric
+      ? applyRubric({ ...sanitized, criterionScores: result.criterionScores }, rubric, pointsPossible)
+      : sanitized;
   });
 
   return { results: sanitizedResults };
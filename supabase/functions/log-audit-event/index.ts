@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { id, sessionId, action, resource, details, timestamp, ipAddress, userAgent, success, riskScore } = await req.json();
+
+    if (!id || !action || !resource) {
+      return new Response(
+        JSON.stringify({ error: 'Event id, action, and resource are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Attribute the event to the authenticated caller, not the client-supplied userId
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    const { data, error } = await supabaseClient
+      .from('audit_events')
+      .insert({
+        client_event_id: id,
+        user_id: userData.user?.id ?? null,
+        session_id: sessionId ?? null,
+        action,
+        resource,
+        details: details || {},
+        ip_address: ipAddress ?? req.headers.get('x-forwarded-for'),
+        user_agent: userAgent ?? req.headers.get('user-agent'),
+        success: success !== false,
+        risk_score: Math.max(0, Math.min(10, Math.round(riskScore || 0))),
+        occurred_at: new Date(timestamp || Date.now()).toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error storing audit event:', error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Audit event stored: ${action} on ${resource} (risk ${riskScore})`);
+
+    return new Response(
+      JSON.stringify({ success: true, id: data.id }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in log-audit-event:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { fileHash, fileName, fileSize, scanResults, timestamp, scanDuration } = await req.json();
+
+    if (!fileHash || !fileName || !scanResults) {
+      return new Response(
+        JSON.stringify({ error: 'File hash, file name, and scan results are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    const { data, error } = await supabaseClient
+      .from('security_scans')
+      .insert({
+        user_id: userData.user?.id ?? null,
+        file_hash: fileHash,
+        file_name: fileName,
+        file_size: fileSize || 0,
+        content_type: scanResults.contentType ?? null,
+        risk_level: RISK_LEVELS.includes(scanResults.riskLevel) ? scanResults.riskLevel : 'low',
+        malware_detected: !!scanResults.malwareDetected,
+        suspicious_content: !!scanResults.suspiciousContent,
+        threats: scanResults.threats || [],
+        recommendations: scanResults.recommendations || [],
+        scan_duration_ms: scanDuration ?? null,
+        scanned_at: new Date(timestamp || Date.now()).toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error storing security scan:', error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Security scan stored: ${fileName} (${scanResults.riskLevel})`);
+
+    return new Response(
+      JSON.stringify({ success: true, id: data.id }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in log-security-scan:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const CATEGORIES = ['user', 'system', 'external', 'security'];
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { id, errorDetails, deviceInfo, browserInfo, userActions, systemHealth } = await req.json();
+
+    if (!id || !errorDetails?.code || !errorDetails?.message) {
+      return new Response(
+        JSON.stringify({ error: 'Report id, error code, and message are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Prefer the authenticated user over whatever the client put in the report
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    const { data, error } = await supabaseClient
+      .from('error_reports')
+      .insert({
+        client_report_id: id,
+        user_id: userData.user?.id ?? null,
+        session_id: errorDetails.sessionId ?? null,
+        error_code: errorDetails.code,
+        message: errorDetails.message,
+        severity: SEVERITIES.includes(errorDetails.severity) ? errorDetails.severity : 'medium',
+        category: CATEGORIES.includes(errorDetails.category) ? errorDetails.category : 'system',
+        context: errorDetails.context || {},
+        suggestions: errorDetails.suggestions || [],
+        file_name: errorDetails.fileName ?? null,
+        stack_trace: errorDetails.stackTrace ?? null,
+        device_info: deviceInfo || {},
+        browser_info: browserInfo || {},
+        user_actions: userActions || [],
+        system_health: systemHealth || {},
+        occurred_at: new Date(errorDetails.timestamp || Date.now()).toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error storing error report:', error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Error report stored: ${errorDetails.code} (${errorDetails.severity}) as ${data.id}`);
+
+    return new Response(
+      JSON.stringify({ success: true, id: data.id }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in report-error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
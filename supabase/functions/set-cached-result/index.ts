@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours, matches CacheService
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseClient.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!userData.user) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { fileHash, fileName, fileSize, result, metadata, expiresAt } = await req.json();
+
+    if (!fileHash || !fileName || !result) {
+      return new Response(
+        JSON.stringify({ error: 'File hash, file name, and result are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Entries are keyed per user so one teacher's upload never answers another's lookup
+    const { data, error } = await supabaseClient
+      .from('ocr_result_cache')
+      .upsert({
+        file_hash: fileHash,
+        user_id: userData.user.id,
+        file_name: fileName,
+        file_size: fileSize || 0,
+        result,
+        metadata: metadata || {},
+        access_count: 1,
+        last_accessed_at: new Date().toISOString(),
+        expires_at: new Date(expiresAt || Date.now() + DEFAULT_TTL_MS).toISOString()
+      }, {
+        onConflict: 'user_id,file_hash'
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error caching result:', error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Result cached: ${fileHash} (${fileName})`);
+
+    return new Response(
+      JSON.stringify({ success: true, id: data.id }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in set-cached-result:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,132 @@
+-- Assignments: link each assignment to the work it refers to and track per-student submissions
+
+-- What is being assigned
+ALTER TABLE public.assignments
+  ADD COLUMN IF NOT EXISTS exam_id TEXT REFERENCES public.exams(exam_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS lesson_plan_id UUID REFERENCES public.lesson_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS student_link_id UUID REFERENCES public.student_links(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS content_data JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_assignments_class_id ON public.assignments(class_id);
+CREATE INDEX IF NOT EXISTS idx_assignments_exam_id ON public.assignments(exam_id);
+
+-- One row per student once they hand in (or are graded on) an assignment
+CREATE TABLE public.assignment_submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'graded')),
+  score NUMERIC,
+  feedback TEXT,
+  test_result_id UUID REFERENCES public.test_results(id) ON DELETE SET NULL,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  graded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (assignment_id, student_id)
+);
+
+CREATE INDEX idx_assignment_submissions_assignment ON public.assignment_submissions(assignment_id);
+CREATE INDEX idx_assignment_submissions_student ON public.assignment_submissions(student_id);
+
+CREATE TRIGGER update_assignment_submissions_updated_at
+  BEFORE UPDATE ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.assignment_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Students can see assignments for classes they are enrolled in
+CREATE POLICY "Students can view assignments for their classes"
+  ON public.assignments FOR SELECT
+  USING (
+    is_active = true AND
+    class_id IN (
+      SELECT class_id FROM public.class_enrollments
+      WHERE student_profile_id = auth.uid() AND is_active = true
+    )
+  );
+
+-- Students need to mark their notifications as read
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Students can view their own submissions"
+  ON public.assignment_submissions FOR SELECT
+  USING (auth.uid() = student_id);
+
+-- Practice tests are scored automatically, so students may record them as graded
+CREATE POLICY "Students can submit their own work"
+  ON public.assignment_submissions FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id AND (
+      status = 'submitted' OR
+      assignment_id IN (
+        SELECT id FROM public.assignments WHERE assignment_type = 'practice_test'
+      )
+    )
+  );
+
+CREATE POLICY "Teachers can view submissions for their assignments"
+  ON public.assignment_submissions FOR SELECT
+  USING (
+    assignment_id IN (
+      SELECT id FROM public.assignments WHERE teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers can grade submissions for their assignments"
+  ON public.assignment_submissions FOR UPDATE
+  USING (
+    assignment_id IN (
+      SELECT id FROM public.assignments WHERE teacher_id = auth.uid()
+    )
+  );
+
+-- Mark exam assignments as graded as soon as a matching test result is stored,
+-- whether it came from an online quiz or an uploaded answer sheet
+CREATE OR REPLACE FUNCTION public.sync_assignment_submission_from_test_result()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  student_user_id UUID;
+BEGIN
+  student_user_id := NEW.authenticated_student_id;
+
+  IF student_user_id IS NULL THEN
+    SELECT authenticated_user_id INTO student_user_id
+    FROM student_profiles
+    WHERE id = NEW.student_id;
+  END IF;
+
+  IF student_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO assignment_submissions (assignment_id, student_id, status, score, test_result_id, submitted_at, graded_at)
+  SELECT a.id, student_user_id, 'graded', NEW.overall_score, NEW.id, NEW.created_at, now()
+  FROM assignments a
+  JOIN class_enrollments ce
+    ON ce.class_id = a.class_id
+   AND ce.student_profile_id = student_user_id
+   AND ce.is_active = true
+  WHERE a.exam_id = NEW.exam_id
+    AND a.is_active = true
+  ON CONFLICT (assignment_id, student_id) DO UPDATE
+    SET status = 'graded',
+        score = EXCLUDED.score,
+        test_result_id = EXCLUDED.test_result_id,
+        graded_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_assignment_submission_on_test_result
+  AFTER INSERT ON public.test_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_assignment_submission_from_test_result();
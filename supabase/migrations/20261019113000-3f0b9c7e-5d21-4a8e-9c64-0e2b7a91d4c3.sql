@@ -0,0 +1,69 @@
+-- Keep student goals in step with the skill scores they target.
+-- Skill scores are written both by test analysis and by practice exercise completion,
+-- so recalculating here covers every path that can move a goal forward.
+
+CREATE INDEX IF NOT EXISTS idx_student_goals_student_skill
+  ON public.student_goals(student_id, target_skill_name)
+  WHERE status = 'active';
+
+CREATE OR REPLACE FUNCTION public.refresh_student_goals_from_skill_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  student_user_id UUID;
+  goal_record RECORD;
+BEGIN
+  student_user_id := NEW.authenticated_student_id;
+
+  IF student_user_id IS NULL AND NEW.student_id IS NOT NULL THEN
+    SELECT authenticated_user_id INTO student_user_id
+    FROM student_profiles
+    WHERE id = NEW.student_id;
+  END IF;
+
+  IF student_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR goal_record IN
+    SELECT id, target_value
+    FROM student_goals
+    WHERE student_id = student_user_id
+      AND target_skill_name = NEW.skill_name
+      AND status = 'active'
+  LOOP
+    UPDATE student_goals
+    SET current_value = NEW.score,
+        updated_at = now()
+    WHERE id = goal_record.id;
+
+    UPDATE student_goals
+    SET progress_percentage = calculate_goal_progress(goal_record.id)
+    WHERE id = goal_record.id;
+
+    IF NEW.score >= goal_record.target_value THEN
+      UPDATE student_goals
+      SET status = 'completed',
+          completed_at = now()
+      WHERE id = goal_record.id;
+    END IF;
+
+    PERFORM detect_goal_achievements(student_user_id, goal_record.id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_student_goals_on_content_skill_score
+  AFTER INSERT ON public.content_skill_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_student_goals_from_skill_score();
+
+CREATE TRIGGER refresh_student_goals_on_subject_skill_score
+  AFTER INSERT ON public.subject_skill_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_student_goals_from_skill_score();
@@ -0,0 +1,17 @@
+-- Teacher review of AI-proposed skills: remember which questions prompted a proposal
+-- and let auto-created skills be undone with their scores remapped
+
+ALTER TABLE public.skill_review_queue
+  ADD COLUMN IF NOT EXISTS question_numbers INTEGER[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.skill_auto_creation_log
+  ADD COLUMN IF NOT EXISTS undone_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS undone_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN IF NOT EXISTS remapped_to_skill_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_skill_review_queue_class_status
+  ON public.skill_review_queue(class_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_skill_auto_creation_log_class
+  ON public.skill_auto_creation_log(class_id)
+  WHERE undone_at IS NULL;
@@ -0,0 +1,10 @@
+-- Link each file job to the grading job (batch) it belongs to so batch grading
+-- can run from the persistent queue instead of browser memory
+ALTER TABLE public.file_jobs
+  ADD COLUMN IF NOT EXISTS grading_job_id UUID REFERENCES public.grading_jobs(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS file_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_file_jobs_grading_job_id ON public.file_jobs(grading_job_id);
+CREATE INDEX IF NOT EXISTS idx_file_jobs_status_started_at ON public.file_jobs(status, started_at);
+CREATE INDEX IF NOT EXISTS idx_grading_jobs_user_status ON public.grading_jobs(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_job_failures_job_id ON public.job_failures(job_id);
@@ -0,0 +1,120 @@
+-- Backing tables for the OCR result cache, error reports, security scans, audit events
+-- and compliance reports. Rows are written by edge functions with the service role and
+-- are readable by the user they belong to.
+
+-- OCR/processing results keyed by the SHA-256 of the uploaded file
+CREATE TABLE public.ocr_result_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_hash TEXT NOT NULL UNIQUE,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL DEFAULT 0,
+  result JSONB NOT NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  access_count INTEGER NOT NULL DEFAULT 1,
+  last_accessed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ocr_result_cache_user ON public.ocr_result_cache(user_id);
+CREATE INDEX idx_ocr_result_cache_expires ON public.ocr_result_cache(expires_at);
+
+CREATE TABLE public.error_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_report_id TEXT NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  session_id TEXT,
+  error_code TEXT NOT NULL,
+  message TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  category TEXT NOT NULL CHECK (category IN ('user', 'system', 'external', 'security')),
+  context JSONB NOT NULL DEFAULT '{}',
+  suggestions TEXT[] NOT NULL DEFAULT '{}',
+  file_name TEXT,
+  stack_trace TEXT,
+  device_info JSONB NOT NULL DEFAULT '{}',
+  browser_info JSONB NOT NULL DEFAULT '{}',
+  user_actions JSONB NOT NULL DEFAULT '[]',
+  system_health JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_error_reports_user_occurred ON public.error_reports(user_id, occurred_at DESC);
+CREATE INDEX idx_error_reports_severity ON public.error_reports(severity);
+
+CREATE TABLE public.security_scans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  file_hash TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_size BIGINT NOT NULL DEFAULT 0,
+  content_type TEXT,
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('low', 'medium', 'high', 'critical')),
+  malware_detected BOOLEAN NOT NULL DEFAULT false,
+  suspicious_content BOOLEAN NOT NULL DEFAULT false,
+  threats TEXT[] NOT NULL DEFAULT '{}',
+  recommendations TEXT[] NOT NULL DEFAULT '{}',
+  scan_duration_ms NUMERIC,
+  scanned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_security_scans_user_scanned ON public.security_scans(user_id, scanned_at DESC);
+
+CREATE TABLE public.audit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_event_id TEXT NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  session_id TEXT,
+  action TEXT NOT NULL,
+  resource TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}',
+  ip_address TEXT,
+  user_agent TEXT,
+  success BOOLEAN NOT NULL DEFAULT true,
+  risk_score INTEGER NOT NULL DEFAULT 0 CHECK (risk_score BETWEEN 0 AND 10),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_events_user_occurred ON public.audit_events(user_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_action ON public.audit_events(action);
+
+CREATE TABLE public.compliance_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  report JSONB NOT NULL,
+  generated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_compliance_reports_user ON public.compliance_reports(user_id, generated_at DESC);
+
+ALTER TABLE public.ocr_result_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.error_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.security_scans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.compliance_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cached results"
+  ON public.ocr_result_cache FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own error reports"
+  ON public.error_reports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own security scans"
+  ON public.security_scans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own audit events"
+  ON public.audit_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own compliance reports"
+  ON public.compliance_reports FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,202 @@
+-- Roster import: classes, students and enrollments from a CSV or OneRoster bundle are
+-- written in a single call so a failed import leaves nothing half-created.
+
+-- The roster's own identifier for a class (OneRoster sourcedId or the CSV class name),
+-- used to find the class again when the roster is re-synced mid-term
+ALTER TABLE public.active_classes ADD COLUMN roster_source_id TEXT;
+
+CREATE UNIQUE INDEX idx_active_classes_teacher_roster_source
+  ON public.active_classes(teacher_id, roster_source_id)
+  WHERE roster_source_id IS NOT NULL;
+
+-- p_classes:     [{ key, class_id, name, subject, grade, teacher, roster_source_id }]
+-- p_students:    [{ key, profile_id, student_name, email, student_id, year }]
+-- p_enrollments: [{ class_key, student_key }]
+-- Every student is added to the class roster (active_classes.students); students who
+-- already have a login are also enrolled in class_enrollments so the class shows up for them.
+-- With p_resync, the file is the source of truth for every class it contains: students
+-- missing from it are removed from those classes.
+CREATE OR REPLACE FUNCTION public.import_roster(
+  p_classes JSONB,
+  p_students JSONB,
+  p_enrollments JSONB,
+  p_resync BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id UUID := auth.uid();
+  v_class JSONB;
+  v_student JSONB;
+  v_enrollment JSONB;
+  v_class_ids JSONB := '{}';
+  v_active_ids JSONB := '{}';
+  v_login_ids JSONB := '{}';
+  v_class_id UUID;
+  v_profile_id UUID;
+  v_active_id UUID;
+  v_login_id UUID;
+  v_roster TEXT[];
+  v_classes_created INTEGER := 0;
+  v_students_created INTEGER := 0;
+  v_enrollments_added INTEGER := 0;
+  v_enrollments_removed INTEGER := 0;
+  v_removed INTEGER;
+BEGIN
+  IF v_teacher_id IS NULL THEN
+    RAISE EXCEPTION 'Must be authenticated to import a roster';
+  END IF;
+
+  FOR v_class IN SELECT * FROM jsonb_array_elements(p_classes) LOOP
+    v_class_id := NULLIF(v_class->>'class_id', '')::UUID;
+
+    IF v_class_id IS NULL THEN
+      INSERT INTO active_classes (name, subject, grade, teacher, teacher_id, student_count, avg_gpa, students, roster_source_id)
+      VALUES (
+        v_class->>'name',
+        v_class->>'subject',
+        v_class->>'grade',
+        COALESCE(NULLIF(v_class->>'teacher', ''), 'Teacher'),
+        v_teacher_id,
+        0,
+        0,
+        '{}',
+        NULLIF(v_class->>'roster_source_id', '')
+      )
+      RETURNING id INTO v_class_id;
+      v_classes_created := v_classes_created + 1;
+    ELSE
+      IF NOT EXISTS (SELECT 1 FROM active_classes WHERE id = v_class_id AND teacher_id = v_teacher_id) THEN
+        RAISE EXCEPTION 'Class % does not belong to the importing teacher', v_class_id;
+      END IF;
+
+      UPDATE active_classes
+      SET roster_source_id = COALESCE(roster_source_id, NULLIF(v_class->>'roster_source_id', ''))
+      WHERE id = v_class_id;
+    END IF;
+
+    v_class_ids := v_class_ids || jsonb_build_object(v_class->>'key', v_class_id);
+  END LOOP;
+
+  FOR v_student IN SELECT * FROM jsonb_array_elements(p_students) LOOP
+    v_profile_id := NULLIF(v_student->>'profile_id', '')::UUID;
+
+    -- Re-check for a match in case the student was added after the preview
+    IF v_profile_id IS NULL THEN
+      SELECT id INTO v_profile_id
+      FROM student_profiles
+      WHERE (NULLIF(v_student->>'email', '') IS NOT NULL AND lower(email) = lower(v_student->>'email'))
+         OR (NULLIF(v_student->>'student_id', '') IS NOT NULL AND student_id = v_student->>'student_id')
+      LIMIT 1;
+    END IF;
+
+    IF v_profile_id IS NULL THEN
+      INSERT INTO student_profiles (student_name, email, student_id)
+      VALUES (v_student->>'student_name', NULLIF(v_student->>'email', ''), NULLIF(v_student->>'student_id', ''))
+      RETURNING id INTO v_profile_id;
+      v_students_created := v_students_created + 1;
+    ELSE
+      UPDATE student_profiles
+      SET email = COALESCE(email, NULLIF(v_student->>'email', '')),
+          student_id = COALESCE(student_id, NULLIF(v_student->>'student_id', ''))
+      WHERE id = v_profile_id;
+    END IF;
+
+    -- Class rosters in the teacher views list active_students ids
+    SELECT id INTO v_active_id
+    FROM active_students
+    WHERE CASE
+      WHEN NULLIF(v_student->>'email', '') IS NOT NULL THEN lower(email) = lower(v_student->>'email')
+      ELSE name = v_student->>'student_name'
+    END
+    LIMIT 1;
+
+    IF v_active_id IS NULL THEN
+      INSERT INTO active_students (name, email, year)
+      VALUES (v_student->>'student_name', NULLIF(v_student->>'email', ''), NULLIF(v_student->>'year', ''))
+      RETURNING id INTO v_active_id;
+    END IF;
+
+    SELECT authenticated_user_id INTO v_login_id FROM student_profiles WHERE id = v_profile_id;
+
+    v_active_ids := v_active_ids || jsonb_build_object(v_student->>'key', v_active_id);
+    IF v_login_id IS NOT NULL THEN
+      v_login_ids := v_login_ids || jsonb_build_object(v_student->>'key', v_login_id);
+    END IF;
+  END LOOP;
+
+  FOR v_enrollment IN SELECT * FROM jsonb_array_elements(p_enrollments) LOOP
+    v_class_id := (v_class_ids->>(v_enrollment->>'class_key'))::UUID;
+    v_active_id := (v_active_ids->>(v_enrollment->>'student_key'))::UUID;
+    v_login_id := (v_login_ids->>(v_enrollment->>'student_key'))::UUID;
+
+    IF v_class_id IS NULL OR v_active_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE active_classes
+    SET students = array_append(COALESCE(students, '{}'), v_active_id::TEXT)
+    WHERE id = v_class_id AND NOT (COALESCE(students, '{}') @> ARRAY[v_active_id::TEXT]);
+    IF FOUND THEN
+      v_enrollments_added := v_enrollments_added + 1;
+    END IF;
+
+    IF v_login_id IS NOT NULL THEN
+      IF EXISTS (SELECT 1 FROM class_enrollments WHERE class_id = v_class_id AND student_profile_id = v_login_id) THEN
+        UPDATE class_enrollments
+        SET is_active = true, updated_at = now()
+        WHERE class_id = v_class_id AND student_profile_id = v_login_id AND is_active = false;
+      ELSE
+        INSERT INTO class_enrollments (class_id, student_profile_id, enrolled_by, is_active)
+        VALUES (v_class_id, v_login_id, v_teacher_id, true);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF p_resync THEN
+    FOR v_class IN SELECT * FROM jsonb_array_elements(p_classes) LOOP
+      v_class_id := (v_class_ids->>(v_class->>'key'))::UUID;
+
+      UPDATE class_enrollments
+      SET is_active = false, updated_at = now()
+      WHERE class_id = v_class_id
+        AND is_active = true
+        AND student_profile_id NOT IN (
+          SELECT (v_login_ids->>(e->>'student_key'))::UUID
+          FROM jsonb_array_elements(p_enrollments) e
+          WHERE e->>'class_key' = v_class->>'key'
+            AND v_login_ids ? (e->>'student_key')
+        );
+
+      v_roster := ARRAY(
+        SELECT DISTINCT v_active_ids->>(e->>'student_key')
+        FROM jsonb_array_elements(p_enrollments) e
+        WHERE e->>'class_key' = v_class->>'key'
+          AND v_active_ids ? (e->>'student_key')
+      );
+
+      SELECT count(*) INTO v_removed
+      FROM active_classes, unnest(COALESCE(students, '{}')) AS current_student
+      WHERE id = v_class_id AND NOT (current_student = ANY(v_roster));
+      v_enrollments_removed := v_enrollments_removed + v_removed;
+
+      UPDATE active_classes SET students = v_roster WHERE id = v_class_id;
+    END LOOP;
+  END IF;
+
+  UPDATE active_classes
+  SET student_count = COALESCE(cardinality(students), 0)
+  WHERE id IN (SELECT value::UUID FROM jsonb_each_text(v_class_ids));
+
+  RETURN jsonb_build_object(
+    'class_ids', v_class_ids,
+    'classes_created', v_classes_created,
+    'students_created', v_students_created,
+    'enrollments_added', v_enrollments_added,
+    'enrollments_removed', v_enrollments_removed
+  );
+END;
+$$;
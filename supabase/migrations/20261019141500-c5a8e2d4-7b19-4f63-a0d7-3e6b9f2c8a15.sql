@@ -0,0 +1,51 @@
+-- Gradebook export: saved column templates matching a SIS import format, and a log of
+-- exports so a teacher can export only what changed since the last one
+
+CREATE TABLE public.gradebook_export_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Ordered [{ source, header }] column definitions
+  columns JSONB NOT NULL DEFAULT '[]',
+  score_decimals INTEGER NOT NULL DEFAULT 1 CHECK (score_decimals BETWEEN 0 AND 4),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (teacher_id, name)
+);
+
+CREATE TRIGGER update_gradebook_export_templates_updated_at
+  BEFORE UPDATE ON public.gradebook_export_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.gradebook_exports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id UUID NOT NULL REFERENCES public.active_classes(id) ON DELETE CASCADE,
+  -- NULL for a whole-class export
+  exam_id TEXT REFERENCES public.exams(exam_id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.gradebook_export_templates(id) ON DELETE SET NULL,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'xlsx')),
+  changes_only BOOLEAN NOT NULL DEFAULT false,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  exported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_gradebook_exports_scope
+  ON public.gradebook_exports(teacher_id, class_id, exam_id, exported_at DESC);
+
+ALTER TABLE public.gradebook_export_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gradebook_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage their own export templates"
+  ON public.gradebook_export_templates FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers can view their own exports"
+  ON public.gradebook_exports FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers can record their own exports"
+  ON public.gradebook_exports FOR INSERT
+  WITH CHECK (auth.uid() = teacher_id);
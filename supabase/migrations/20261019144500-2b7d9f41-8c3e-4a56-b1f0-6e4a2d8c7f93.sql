@@ -0,0 +1,35 @@
+-- Rubrics for open-response questions: reusable multi-criterion scoring guides that a
+-- teacher attaches to essay / short-answer answer keys
+
+CREATE TABLE public.rubrics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  subject TEXT,
+  grade TEXT,
+  -- [{ id, name, description, skillName, skillType, levels: [{ label, points, description, exemplar }] }]
+  criteria JSONB NOT NULL DEFAULT '[]',
+  -- Sum of each criterion's highest level, kept in sync by the client on save
+  total_points NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (teacher_id, name)
+);
+
+CREATE TRIGGER update_rubrics_updated_at
+  BEFORE UPDATE ON public.rubrics
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.answer_keys
+  ADD COLUMN rubric_id UUID REFERENCES public.rubrics(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_answer_keys_rubric_id ON public.answer_keys(rubric_id) WHERE rubric_id IS NOT NULL;
+
+ALTER TABLE public.rubrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage their own rubrics"
+  ON public.rubrics FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id);
@@ -0,0 +1,213 @@
+-- Teacher grade overrides: a teacher can correct the points awarded for a single
+-- question. Every change is recorded, and the test result and its skill scores are
+-- recomputed in the same transaction.
+
+CREATE TABLE public.grade_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_result_id UUID NOT NULL REFERENCES public.test_results(id) ON DELETE CASCADE,
+  question_number INTEGER NOT NULL,
+  previous_points NUMERIC NOT NULL,
+  new_points NUMERIC NOT NULL,
+  points_possible NUMERIC NOT NULL,
+  reason TEXT NOT NULL,
+  comment TEXT,
+  overridden_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_grade_overrides_test_result ON public.grade_overrides(test_result_id, created_at DESC);
+
+ALTER TABLE public.grade_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by apply_grade_override
+CREATE POLICY "Teachers can view overrides in their classes"
+  ON public.grade_overrides FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.test_results tr
+      JOIN public.active_classes ac ON ac.id = tr.class_id
+      WHERE tr.id = grade_overrides.test_result_id
+        AND ac.teacher_id = auth.uid()
+    )
+  );
+
+-- Move one skill score row of a test result by p_delta points, keeping it within range
+CREATE OR REPLACE FUNCTION public.adjust_test_skill_score(
+  p_skill_type TEXT,
+  p_test_result_id UUID,
+  p_skill_name TEXT,
+  p_delta NUMERIC
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  EXECUTE format(
+    'UPDATE %I
+       SET points_earned = GREATEST(0, LEAST(points_possible, points_earned + $1)),
+           score = CASE
+             WHEN points_possible > 0
+               THEN ROUND(GREATEST(0, LEAST(points_possible, points_earned + $1))::NUMERIC / points_possible::NUMERIC * 100, 2)
+             ELSE score
+           END
+     WHERE test_result_id = $2 AND skill_name = $3',
+    CASE WHEN p_skill_type = 'subject' THEN 'subject_skill_scores' ELSE 'content_skill_scores' END
+  ) USING p_delta, p_test_result_id, p_skill_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_test_skill_score(TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Returns { overall_score, total_points_earned, previous_points, question }
+CREATE OR REPLACE FUNCTION public.apply_grade_override(
+  p_test_result_id UUID,
+  p_question_number INTEGER,
+  p_new_points NUMERIC,
+  p_reason TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id UUID := auth.uid();
+  v_result RECORD;
+  v_analysis JSONB;
+  v_questions JSONB;
+  v_question JSONB;
+  v_index INTEGER;
+  v_points_possible NUMERIC;
+  v_previous NUMERIC;
+  v_delta NUMERIC;
+  v_mapping RECORD;
+  v_criterion JSONB;
+  v_criteria JSONB := '[]';
+  v_criterion_points NUMERIC;
+  v_total_earned NUMERIC;
+  v_overall NUMERIC;
+BEGIN
+  SELECT tr.id, tr.exam_id, tr.detailed_analysis, tr.total_points_earned, tr.total_points_possible,
+         ac.teacher_id
+  INTO v_result
+  FROM test_results tr
+  JOIN active_classes ac ON ac.id = tr.class_id
+  WHERE tr.id = p_test_result_id
+  FOR UPDATE OF tr;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test result % not found', p_test_result_id;
+  END IF;
+
+  IF v_teacher_id IS NULL OR v_result.teacher_id IS DISTINCT FROM v_teacher_id THEN
+    RAISE EXCEPTION 'Only the class teacher can override grades';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override a grade';
+  END IF;
+
+  SELECT points INTO v_points_possible
+  FROM answer_keys
+  WHERE exam_id = v_result.exam_id AND question_number = p_question_number;
+
+  IF v_points_possible IS NULL THEN
+    RAISE EXCEPTION 'Question % has no answer key', p_question_number;
+  END IF;
+
+  IF p_new_points < 0 OR p_new_points > v_points_possible THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', v_points_possible;
+  END IF;
+
+  BEGIN
+    v_analysis := v_result.detailed_analysis::JSONB;
+  EXCEPTION WHEN others THEN
+    v_analysis := NULL;
+  END;
+
+  v_questions := COALESCE(v_analysis->'questionResults', '[]'::JSONB);
+
+  SELECT q.ordinality - 1, q.value
+  INTO v_index, v_question
+  FROM jsonb_array_elements(v_questions) WITH ORDINALITY AS q(value, ordinality)
+  WHERE (q.value->>'questionNumber')::INTEGER = p_question_number;
+
+  IF v_question IS NULL THEN
+    RAISE EXCEPTION 'No per-question results are stored for this test';
+  END IF;
+
+  v_previous := COALESCE((v_question->>'pointsEarned')::NUMERIC, 0);
+  v_delta := p_new_points - v_previous;
+
+  -- Skills mapped to the question move by the weighted change in points
+  FOR v_mapping IN
+    SELECT skill_name, skill_type, LEAST(GREATEST(skill_weight, 0), 2) AS weight
+    FROM exam_skill_mappings
+    WHERE exam_id = v_result.exam_id AND question_number = p_question_number
+  LOOP
+    PERFORM adjust_test_skill_score(v_mapping.skill_type, p_test_result_id, v_mapping.skill_name, v_delta * v_mapping.weight);
+  END LOOP;
+
+  -- Rubric criteria are rescaled to the new score, and their linked skills follow
+  IF jsonb_typeof(v_question->'criterionScores') = 'array' THEN
+    FOR v_criterion IN SELECT * FROM jsonb_array_elements(v_question->'criterionScores') LOOP
+      v_criterion_points := ROUND(COALESCE((v_criterion->>'pointsPossible')::NUMERIC, 0) * p_new_points / NULLIF(v_points_possible, 0), 2);
+      v_criterion_points := COALESCE(v_criterion_points, 0);
+
+      IF COALESCE(v_criterion->>'skillName', '') <> '' THEN
+        PERFORM adjust_test_skill_score(
+          COALESCE(v_criterion->>'skillType', 'content'),
+          p_test_result_id,
+          v_criterion->>'skillName',
+          v_criterion_points - COALESCE((v_criterion->>'pointsEarned')::NUMERIC, 0)
+        );
+      END IF;
+
+      v_criteria := v_criteria || jsonb_build_array(v_criterion || jsonb_build_object('pointsEarned', v_criterion_points));
+    END LOOP;
+
+    v_question := v_question || jsonb_build_object('criterionScores', v_criteria);
+  END IF;
+
+  v_question := v_question || jsonb_build_object(
+    'pointsEarned', p_new_points,
+    'isCorrect', p_new_points >= v_points_possible,
+    'overridden', true,
+    'teacherComment', p_comment
+  );
+  v_questions := jsonb_set(v_questions, ARRAY[v_index::TEXT], v_question);
+  v_analysis := jsonb_set(COALESCE(v_analysis, '{}'::JSONB), '{questionResults}', v_questions);
+
+  v_total_earned := GREATEST(0, COALESCE(v_result.total_points_earned, 0) + v_delta);
+  v_overall := CASE
+    WHEN COALESCE(v_result.total_points_possible, 0) > 0
+      THEN ROUND(v_total_earned / v_result.total_points_possible * 100, 2)
+    ELSE 0
+  END;
+
+  UPDATE test_results
+  SET detailed_analysis = v_analysis::TEXT,
+      total_points_earned = v_total_earned,
+      overall_score = v_overall
+  WHERE id = p_test_result_id;
+
+  INSERT INTO grade_overrides (
+    test_result_id, question_number, previous_points, new_points, points_possible,
+    reason, comment, overridden_by
+  )
+  VALUES (
+    p_test_result_id, p_question_number, v_previous, p_new_points, v_points_possible,
+    TRIM(p_reason), NULLIF(TRIM(COALESCE(p_comment, '')), ''), v_teacher_id
+  );
+
+  RETURN jsonb_build_object(
+    'overall_score', v_overall,
+    'total_points_earned', v_total_earned,
+    'previous_points', v_previous,
+    'question', v_question
+  );
+END;
+$$;
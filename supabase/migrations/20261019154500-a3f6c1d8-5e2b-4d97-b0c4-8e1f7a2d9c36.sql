@@ -0,0 +1,178 @@
+-- AI cost ledger: one row per model call made by an edge function, plus monthly
+-- spending budgets per teacher and for the whole school. The client model router
+-- reads get_ai_budget_status() and degrades to cheaper models as a budget runs out.
+
+CREATE TABLE public.ai_usage_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12,6) NOT NULL DEFAULT 0,
+  exam_id TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  teacher_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_usage_ledger_teacher ON public.ai_usage_ledger(teacher_id, created_at DESC);
+CREATE INDEX idx_ai_usage_ledger_exam ON public.ai_usage_ledger(exam_id);
+CREATE INDEX idx_ai_usage_ledger_created ON public.ai_usage_ledger(created_at DESC);
+
+ALTER TABLE public.ai_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by edge functions with the service role
+CREATE POLICY "Teachers can view their own AI usage"
+  ON public.ai_usage_ledger FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+-- Charge each call to the exam's class teacher, or to the caller when they are a teacher
+CREATE OR REPLACE FUNCTION public.set_ai_usage_teacher()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.teacher_id IS NULL AND NEW.exam_id IS NOT NULL THEN
+    SELECT ac.teacher_id INTO NEW.teacher_id
+    FROM public.exams e
+    JOIN public.active_classes ac ON ac.id = e.class_id
+    WHERE e.exam_id = NEW.exam_id
+    LIMIT 1;
+  END IF;
+
+  IF NEW.teacher_id IS NULL AND NEW.user_id IS NOT NULL
+     AND public.get_user_role(NEW.user_id) = 'teacher' THEN
+    NEW.teacher_id := NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_ai_usage_teacher
+  BEFORE INSERT ON public.ai_usage_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ai_usage_teacher();
+
+-- A row with no teacher_id is the school-wide budget
+CREATE TABLE public.ai_budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  monthly_limit_usd NUMERIC(10,2) NOT NULL CHECK (monthly_limit_usd >= 0),
+  warning_threshold NUMERIC(3,2) NOT NULL DEFAULT 0.80 CHECK (warning_threshold > 0 AND warning_threshold <= 1),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_ai_budgets_school ON public.ai_budgets((teacher_id IS NULL)) WHERE teacher_id IS NULL;
+
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage their own AI budget"
+  ON public.ai_budgets FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id);
+
+-- The school budget is set by an administrator; teachers can see it
+CREATE POLICY "Teachers can view the school AI budget"
+  ON public.ai_budgets FOR SELECT
+  USING (teacher_id IS NULL AND public.get_user_role(auth.uid()) = 'teacher');
+
+CREATE TRIGGER update_ai_budgets_updated_at
+  BEFORE UPDATE ON public.ai_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Month-to-date spend against the caller's budget and the school budget.
+-- Returns { month_start, teacher: {...} | null, school: {...} | null }
+CREATE OR REPLACE FUNCTION public.get_ai_budget_status()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now());
+  v_teacher_budget RECORD;
+  v_school_budget RECORD;
+  v_teacher JSONB;
+  v_school JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_teacher_budget FROM public.ai_budgets WHERE teacher_id = v_user_id;
+  SELECT * INTO v_school_budget FROM public.ai_budgets WHERE teacher_id IS NULL;
+
+  IF v_teacher_budget.id IS NOT NULL THEN
+    v_teacher := jsonb_build_object(
+      'limit_usd', v_teacher_budget.monthly_limit_usd,
+      'warning_threshold', v_teacher_budget.warning_threshold,
+      'spent_usd', (
+        SELECT COALESCE(SUM(cost_usd), 0) FROM public.ai_usage_ledger
+        WHERE teacher_id = v_user_id AND created_at >= v_month_start
+      )
+    );
+  END IF;
+
+  IF v_school_budget.id IS NOT NULL THEN
+    v_school := jsonb_build_object(
+      'limit_usd', v_school_budget.monthly_limit_usd,
+      'warning_threshold', v_school_budget.warning_threshold,
+      'spent_usd', (
+        SELECT COALESCE(SUM(cost_usd), 0) FROM public.ai_usage_ledger
+        WHERE created_at >= v_month_start
+      )
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'month_start', v_month_start,
+    'teacher', v_teacher,
+    'school', v_school
+  );
+END;
+$$;
+
+-- Caller's spend between two instants, grouped by exam, service and model.
+-- Runs with the caller's rights, so the ledger policy limits it to their own calls.
+CREATE OR REPLACE FUNCTION public.get_ai_cost_breakdown(
+  p_since TIMESTAMP WITH TIME ZONE,
+  p_until TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE(
+  exam_id text,
+  exam_title text,
+  service text,
+  model text,
+  calls bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.exam_id,
+    e.title,
+    l.service,
+    l.model,
+    COUNT(*),
+    SUM(l.prompt_tokens),
+    SUM(l.completion_tokens),
+    SUM(l.cost_usd)
+  FROM public.ai_usage_ledger l
+  LEFT JOIN public.exams e ON e.exam_id = l.exam_id
+  WHERE l.created_at >= p_since
+    AND l.created_at < p_until
+  GROUP BY l.exam_id, e.title, l.service, l.model
+  ORDER BY SUM(l.cost_usd) DESC;
+$$;
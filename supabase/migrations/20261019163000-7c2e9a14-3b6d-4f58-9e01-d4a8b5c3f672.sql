@@ -0,0 +1,19 @@
+-- Numeric and algebraic answer keys. answer_spec holds the grading settings for
+-- question_type 'numeric' or 'expression'; both are graded locally without AI.
+--   { "kind": "numeric", "absoluteTolerance"?, "relativeTolerance"?, "significantFigures"?, "unit"? }
+--   { "kind": "expression" }
+
+ALTER TABLE public.answer_keys
+  ADD COLUMN answer_spec JSONB;
+
+ALTER TABLE public.answer_keys
+  ADD CONSTRAINT answer_keys_answer_spec_kind_check
+  CHECK (answer_spec IS NULL OR answer_spec->>'kind' IN ('numeric', 'expression'));
+
+-- Practice answers graded this way are logged with their own grading method
+ALTER TABLE public.mistake_patterns
+  DROP CONSTRAINT IF EXISTS mistake_patterns_grading_method_check;
+
+ALTER TABLE public.mistake_patterns
+  ADD CONSTRAINT mistake_patterns_grading_method_check
+  CHECK (grading_method IN ('exact_match', 'flexible_match', 'numeric_match', 'expression_match', 'ai_graded'));
@@ -0,0 +1,11 @@
+-- Multi-select, matching, ordering and fill-in-the-blank questions. Their structure is
+-- stored in answer_keys.options rather than a list of choices:
+--   { "options"?: [...], "correctAnswers"?: [...], "matchPairs"?: [{ "prompt", "answer" }] }
+-- correct_answer holds the response as a student writes it, e.g. 'A, C' or '1-B, 2-A'.
+
+ALTER TABLE public.mistake_patterns
+  DROP CONSTRAINT IF EXISTS mistake_patterns_grading_method_check;
+
+ALTER TABLE public.mistake_patterns
+  ADD CONSTRAINT mistake_patterns_grading_method_check
+  CHECK (grading_method IN ('exact_match', 'flexible_match', 'numeric_match', 'expression_match', 'structured_match', 'ai_graded'));
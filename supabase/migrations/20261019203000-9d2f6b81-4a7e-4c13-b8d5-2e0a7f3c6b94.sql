@@ -0,0 +1,54 @@
+-- Question bank: reusable, skill-tagged questions a teacher can drop into any exam.
+-- Item statistics are computed from graded test_results of the exams that used the item
+-- and stored here so weak items can be filtered and flagged without re-reading results.
+
+CREATE TABLE public.question_bank_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL,
+  -- Same shapes as answer_keys: options { options, correctAnswers, matchPairs }, answer_spec
+  options JSONB,
+  correct_answer TEXT NOT NULL DEFAULT '',
+  answer_spec JSONB,
+  rubric_id UUID REFERENCES public.rubrics(id) ON DELETE SET NULL,
+  points NUMERIC NOT NULL DEFAULT 1,
+  difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  subject TEXT,
+  grade TEXT,
+  content_skill_tags TEXT[] NOT NULL DEFAULT '{}',
+  subject_skill_tags TEXT[] NOT NULL DEFAULT '{}',
+  explanation TEXT,
+  times_used INTEGER NOT NULL DEFAULT 0,
+  -- Classical item statistics: p_value is the mean fraction of points earned,
+  -- discrimination the correlation between item score and the rest of the test
+  response_count INTEGER NOT NULL DEFAULT 0,
+  p_value NUMERIC,
+  discrimination NUMERIC,
+  stats_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_question_bank_items_updated_at
+  BEFORE UPDATE ON public.question_bank_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_question_bank_items_teacher ON public.question_bank_items(teacher_id, updated_at DESC);
+CREATE INDEX idx_question_bank_items_content_skills ON public.question_bank_items USING GIN (content_skill_tags);
+CREATE INDEX idx_question_bank_items_subject_skills ON public.question_bank_items USING GIN (subject_skill_tags);
+
+-- Answer keys remember the bank item they came from so results feed back into its statistics
+ALTER TABLE public.answer_keys
+  ADD COLUMN question_bank_item_id UUID REFERENCES public.question_bank_items(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_answer_keys_question_bank_item ON public.answer_keys(question_bank_item_id)
+  WHERE question_bank_item_id IS NOT NULL;
+
+ALTER TABLE public.question_bank_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage their own question bank"
+  ON public.question_bank_items FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id);
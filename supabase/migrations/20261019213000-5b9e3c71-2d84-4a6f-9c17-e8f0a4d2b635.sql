@@ -0,0 +1,29 @@
+-- Corrections teachers make while reviewing scans before grading. Each row records what
+-- the OCR read, what the teacher changed it to and which detection method produced the
+-- error, so misreads can be traced back to the method that needs tuning.
+
+CREATE TABLE public.ocr_corrections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exam_id TEXT,
+  student_name TEXT,
+  file_name TEXT,
+  field TEXT NOT NULL CHECK (field IN ('answer', 'student', 'exam')),
+  question_number INTEGER,
+  original_value TEXT,
+  corrected_value TEXT NOT NULL,
+  original_confidence NUMERIC,
+  -- e.g. local_omr, roboflow_bubbles, google_ocr, page_code
+  ocr_method TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ocr_corrections_teacher ON public.ocr_corrections(teacher_id, created_at DESC);
+CREATE INDEX idx_ocr_corrections_method ON public.ocr_corrections(ocr_method, field);
+
+ALTER TABLE public.ocr_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage their own OCR corrections"
+  ON public.ocr_corrections FOR ALL
+  USING (auth.uid() = teacher_id)
+  WITH CHECK (auth.uid() = teacher_id);
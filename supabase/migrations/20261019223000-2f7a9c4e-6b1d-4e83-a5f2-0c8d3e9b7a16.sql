@@ -0,0 +1,325 @@
+-- Guardian accounts: a parent or guardian links to one or more student profiles with an
+-- invite code generated by the student or one of their teachers. Guardians never read
+-- student tables directly; everything they see comes through functions that check the
+-- link first, so a guardian is scoped to exactly the students they were invited to.
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'guardian';
+
+CREATE TABLE public.guardian_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  student_profile_id UUID NOT NULL REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '14 days'),
+  redeemed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  redeemed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_guardian_invites_student ON public.guardian_invites(student_profile_id, created_at DESC);
+
+CREATE TABLE public.guardian_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  guardian_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_profile_id UUID NOT NULL REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+  invite_id UUID REFERENCES public.guardian_invites(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (guardian_id, student_profile_id)
+);
+
+CREATE INDEX idx_guardian_links_student ON public.guardian_links(student_profile_id);
+
+-- One digest per guardian, student and week, kept so earlier weeks can be reread
+CREATE TABLE public.guardian_digests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  guardian_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_profile_id UUID NOT NULL REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  summary JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (guardian_id, student_profile_id, week_start)
+);
+
+CREATE INDEX idx_guardian_digests_student ON public.guardian_digests(guardian_id, student_profile_id, week_start DESC);
+
+-- True when the caller is linked to the student as a guardian
+CREATE OR REPLACE FUNCTION public.is_guardian_of(p_student_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM guardian_links
+    WHERE guardian_id = auth.uid() AND student_profile_id = p_student_profile_id
+  );
+$$;
+
+-- True when the caller is the student or teaches a class the student is enrolled in
+CREATE OR REPLACE FUNCTION public.can_manage_student_guardians(p_student_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM student_profiles
+    WHERE id = p_student_profile_id AND authenticated_user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1
+    FROM class_enrollments ce
+    JOIN student_profiles sp ON sp.authenticated_user_id = ce.student_profile_id
+    JOIN active_classes ac ON ac.id = ce.class_id
+    WHERE sp.id = p_student_profile_id
+      AND ce.is_active = true
+      AND ac.teacher_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.guardian_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guardian_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guardian_digests ENABLE ROW LEVEL SECURITY;
+
+-- Invites are only written by create_guardian_invite and redeem_guardian_invite
+CREATE POLICY "Users can view invites they created"
+  ON public.guardian_invites FOR SELECT
+  USING (auth.uid() = created_by);
+
+-- Links are only created by redeem_guardian_invite
+CREATE POLICY "Guardians can view their own links"
+  ON public.guardian_links FOR SELECT
+  USING (auth.uid() = guardian_id);
+
+CREATE POLICY "Students and teachers can view links to a student"
+  ON public.guardian_links FOR SELECT
+  USING (public.can_manage_student_guardians(student_profile_id));
+
+CREATE POLICY "Guardians, students and teachers can remove links"
+  ON public.guardian_links FOR DELETE
+  USING (auth.uid() = guardian_id OR public.can_manage_student_guardians(student_profile_id));
+
+CREATE POLICY "Guardians can manage digests for their linked students"
+  ON public.guardian_digests FOR ALL
+  USING (auth.uid() = guardian_id AND public.is_guardian_of(student_profile_id))
+  WITH CHECK (auth.uid() = guardian_id AND public.is_guardian_of(student_profile_id));
+
+-- Generate an invite code for a student. Students may omit the id to invite for themselves.
+CREATE OR REPLACE FUNCTION public.create_guardian_invite(p_student_profile_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id UUID := p_student_profile_id;
+  v_invite guardian_invites%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be authenticated to invite a guardian';
+  END IF;
+
+  IF v_student_id IS NULL THEN
+    SELECT id INTO v_student_id FROM student_profiles WHERE authenticated_user_id = auth.uid();
+    IF v_student_id IS NULL THEN
+      RAISE EXCEPTION 'No student profile is linked to this account';
+    END IF;
+  END IF;
+
+  IF NOT public.can_manage_student_guardians(v_student_id) THEN
+    RAISE EXCEPTION 'Not allowed to invite guardians for this student';
+  END IF;
+
+  -- Unambiguous characters only, since codes are read aloud and typed by hand
+  INSERT INTO guardian_invites (code, student_profile_id, created_by)
+  VALUES (
+    (SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', (random() * 31)::INTEGER + 1, 1), '')
+     FROM generate_series(1, 8)),
+    v_student_id,
+    auth.uid()
+  )
+  RETURNING * INTO v_invite;
+
+  RETURN jsonb_build_object(
+    'code', v_invite.code,
+    'student_profile_id', v_invite.student_profile_id,
+    'expires_at', v_invite.expires_at
+  );
+END;
+$$;
+
+-- Link the calling guardian to the student an invite code was created for
+CREATE OR REPLACE FUNCTION public.redeem_guardian_invite(p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite guardian_invites%ROWTYPE;
+  v_student_name TEXT;
+BEGIN
+  IF (SELECT role::TEXT FROM profiles WHERE id = auth.uid()) IS DISTINCT FROM 'guardian' THEN
+    RAISE EXCEPTION 'Only guardian accounts can redeem invite codes';
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM guardian_invites
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invite code not found';
+  ELSIF v_invite.redeemed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite code has already been used';
+  ELSIF v_invite.expires_at < now() THEN
+    RAISE EXCEPTION 'This invite code has expired';
+  END IF;
+
+  INSERT INTO guardian_links (guardian_id, student_profile_id, invite_id)
+  VALUES (auth.uid(), v_invite.student_profile_id, v_invite.id)
+  ON CONFLICT (guardian_id, student_profile_id) DO NOTHING;
+
+  UPDATE guardian_invites
+  SET redeemed_by = auth.uid(), redeemed_at = now()
+  WHERE id = v_invite.id;
+
+  SELECT student_name INTO v_student_name FROM student_profiles WHERE id = v_invite.student_profile_id;
+
+  RETURN jsonb_build_object(
+    'student_profile_id', v_invite.student_profile_id,
+    'student_name', v_student_name
+  );
+END;
+$$;
+
+-- Students linked to the calling guardian
+CREATE OR REPLACE FUNCTION public.get_guardian_students()
+RETURNS TABLE (
+  link_id UUID,
+  student_profile_id UUID,
+  student_name TEXT,
+  linked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT gl.id, sp.id, sp.student_name, gl.created_at
+  FROM guardian_links gl
+  JOIN student_profiles sp ON sp.id = gl.student_profile_id
+  WHERE gl.guardian_id = auth.uid()
+  ORDER BY sp.student_name;
+$$;
+
+-- Guardians linked to a student, for the student and their teachers
+CREATE OR REPLACE FUNCTION public.get_student_guardians(p_student_profile_id UUID)
+RETURNS TABLE (
+  link_id UUID,
+  guardian_name TEXT,
+  guardian_email TEXT,
+  linked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_student_guardians(p_student_profile_id) THEN
+    RAISE EXCEPTION 'Not allowed to view guardians for this student';
+  END IF;
+
+  RETURN QUERY
+  SELECT gl.id, p.full_name, p.email, gl.created_at
+  FROM guardian_links gl
+  JOIN profiles p ON p.id = gl.guardian_id
+  WHERE gl.student_profile_id = p_student_profile_id
+  ORDER BY gl.created_at;
+END;
+$$;
+
+-- Everything the read-only guardian view shows for one linked student
+CREATE OR REPLACE FUNCTION public.get_guardian_student_overview(p_student_profile_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student student_profiles%ROWTYPE;
+BEGIN
+  IF NOT public.is_guardian_of(p_student_profile_id) THEN
+    RAISE EXCEPTION 'Not linked to this student';
+  END IF;
+
+  SELECT * INTO v_student FROM student_profiles WHERE id = p_student_profile_id;
+
+  RETURN jsonb_build_object(
+    'student', jsonb_build_object(
+      'student_profile_id', v_student.id,
+      'student_name', v_student.student_name
+    ),
+    'test_results', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.created_at DESC)
+      FROM (
+        SELECT tr.id, tr.exam_id, tr.class_id, tr.overall_score, tr.total_points_earned,
+               tr.total_points_possible, tr.ai_feedback, tr.created_at
+        FROM test_results tr
+        WHERE tr.student_id = v_student.id
+           OR (v_student.authenticated_user_id IS NOT NULL AND tr.authenticated_student_id = v_student.authenticated_user_id)
+      ) t
+    ), '[]'::JSONB),
+    'content_skill_scores', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) ORDER BY s.created_at DESC)
+      FROM (
+        SELECT css.id, css.skill_name, css.score, css.points_earned, css.points_possible,
+               css.created_at, css.test_result_id, css.practice_exercise_id
+        FROM content_skill_scores css
+        WHERE css.student_id = v_student.id
+           OR (v_student.authenticated_user_id IS NOT NULL AND css.authenticated_student_id = v_student.authenticated_user_id)
+      ) s
+    ), '[]'::JSONB),
+    'subject_skill_scores', COALESCE((
+      SELECT jsonb_agg(to_jsonb(s) ORDER BY s.created_at DESC)
+      FROM (
+        SELECT sss.id, sss.skill_name, sss.score, sss.points_earned, sss.points_possible,
+               sss.created_at, sss.test_result_id, sss.practice_exercise_id
+        FROM subject_skill_scores sss
+        WHERE sss.student_id = v_student.id
+           OR (v_student.authenticated_user_id IS NOT NULL AND sss.authenticated_student_id = v_student.authenticated_user_id)
+      ) s
+    ), '[]'::JSONB),
+    'practice_sessions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(p) ORDER BY p.created_at DESC)
+      FROM (
+        SELECT sps.id, sps.skill_name, sps.class_name, sps.subject, sps.current_skill_score,
+               sps.final_score, sps.improvement_shown, sps.completed_at, sps.created_at
+        FROM student_practice_sessions sps
+        WHERE v_student.authenticated_user_id IS NOT NULL
+          AND sps.authenticated_student_id = v_student.authenticated_user_id
+      ) p
+    ), '[]'::JSONB),
+    'goals', COALESCE((
+      SELECT jsonb_agg(to_jsonb(g) ORDER BY g.created_at DESC)
+      FROM student_goals g
+      WHERE v_student.authenticated_user_id IS NOT NULL
+        AND g.student_id = v_student.authenticated_user_id
+        AND g.status <> 'abandoned'
+    ), '[]'::JSONB),
+    'enrolled_classes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', ac.id, 'name', ac.name, 'subject', ac.subject, 'grade', ac.grade, 'teacher', ac.teacher
+      ) ORDER BY ac.name)
+      FROM class_enrollments ce
+      JOIN active_classes ac ON ac.id = ce.class_id
+      WHERE v_student.authenticated_user_id IS NOT NULL
+        AND ce.student_profile_id = v_student.authenticated_user_id
+        AND ce.is_active = true
+    ), '[]'::JSONB)
+  );
+END;
+$$;
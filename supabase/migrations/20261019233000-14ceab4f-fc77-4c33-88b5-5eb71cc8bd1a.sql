@@ -0,0 +1,704 @@
+-- Schools, co-teachers and class transfers. A class keeps a single owner (teacher_id),
+-- other teachers can be given view, grade or edit access to it, and school admins can
+-- see every class in their school. RLS and the grading functions all ask
+-- has_class_permission, so they agree on who may do what.
+
+CREATE TABLE public.schools (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.school_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  school_id UUID NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'teacher' CHECK (role IN ('admin', 'teacher')),
+  department TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (school_id, user_id)
+);
+
+CREATE INDEX idx_school_members_user ON public.school_members(user_id);
+
+ALTER TABLE public.active_classes
+  ADD COLUMN school_id UUID REFERENCES public.schools(id) ON DELETE SET NULL,
+  ADD COLUMN department TEXT;
+
+CREATE INDEX idx_active_classes_school ON public.active_classes(school_id);
+
+CREATE TABLE public.class_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_id UUID NOT NULL REFERENCES public.active_classes(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission TEXT NOT NULL DEFAULT 'view' CHECK (permission IN ('view', 'grade', 'edit')),
+  added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (class_id, teacher_id)
+);
+
+CREATE INDEX idx_class_members_teacher ON public.class_members(teacher_id);
+
+CREATE TABLE public.class_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_id UUID NOT NULL REFERENCES public.active_classes(id) ON DELETE CASCADE,
+  from_teacher_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  to_teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transferred_by UUID NOT NULL REFERENCES auth.users(id),
+  kept_access BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_class_transfers_class ON public.class_transfers(class_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.is_school_member(p_school_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM school_members
+    WHERE school_id = p_school_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_school_admin(p_school_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM school_members
+    WHERE school_id = p_school_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- The caller's access to a class: 'owner', 'edit', 'grade' or 'view', or NULL when they
+-- cannot see it. School admins get view access to every class in their school.
+CREATE OR REPLACE FUNCTION public.get_class_permission(p_class_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN ac.teacher_id = auth.uid() THEN 'owner'
+    WHEN cm.permission IS NOT NULL THEN cm.permission
+    WHEN public.is_school_admin(ac.school_id) THEN 'view'
+  END
+  FROM active_classes ac
+  LEFT JOIN class_members cm ON cm.class_id = ac.id AND cm.teacher_id = auth.uid()
+  WHERE ac.id = p_class_id;
+$$;
+
+-- True when the caller has at least p_permission on the class (view < grade < edit < owner)
+CREATE OR REPLACE FUNCTION public.has_class_permission(p_class_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    array_position(ARRAY['view', 'grade', 'edit', 'owner'], public.get_class_permission(p_class_id))
+      >= array_position(ARRAY['view', 'grade', 'edit', 'owner'], p_permission),
+    false
+  );
+$$;
+
+-- Owners and admins of the class's school may share and transfer a class
+CREATE OR REPLACE FUNCTION public.can_manage_class(p_class_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM active_classes
+    WHERE id = p_class_id
+      AND (teacher_id = auth.uid() OR public.is_school_admin(school_id))
+  );
+$$;
+
+-- The owner only changes through transfer_class, and a class only joins a school its
+-- owner belongs to
+CREATE OR REPLACE FUNCTION public.protect_class_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.teacher_id IS DISTINCT FROM OLD.teacher_id
+       AND current_setting('app.class_transfer', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'Use transfer_class to change the owner of a class';
+    END IF;
+
+    IF NEW.school_id IS DISTINCT FROM OLD.school_id
+       AND auth.uid() IS DISTINCT FROM OLD.teacher_id
+       AND NOT public.is_school_admin(OLD.school_id) THEN
+      RAISE EXCEPTION 'Only the class owner can move a class to another school';
+    END IF;
+  END IF;
+
+  IF NEW.school_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.school_id IS DISTINCT FROM OLD.school_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM school_members WHERE school_id = NEW.school_id AND user_id = NEW.teacher_id
+     ) THEN
+    RAISE EXCEPTION 'The class owner must be a member of the school';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_class_ownership
+  BEFORE INSERT OR UPDATE ON public.active_classes
+  FOR EACH ROW EXECUTE FUNCTION public.protect_class_ownership();
+
+ALTER TABLE public.schools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.school_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Schools are created by create_school so the creator becomes its first admin
+CREATE POLICY "Members can view their schools"
+  ON public.schools FOR SELECT
+  USING (public.is_school_member(id));
+
+CREATE POLICY "School admins can update their schools"
+  ON public.schools FOR UPDATE
+  USING (public.is_school_admin(id));
+
+CREATE POLICY "Members can view their school's members"
+  ON public.school_members FOR SELECT
+  USING (public.is_school_member(school_id));
+
+CREATE POLICY "School admins can manage members"
+  ON public.school_members FOR ALL
+  USING (public.is_school_admin(school_id))
+  WITH CHECK (public.is_school_admin(school_id));
+
+CREATE POLICY "Members can leave a school"
+  ON public.school_members FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Teachers can view co-teachers of classes they can see"
+  ON public.class_members FOR SELECT
+  USING (public.has_class_permission(class_id, 'view'));
+
+CREATE POLICY "Owners and school admins can manage co-teachers"
+  ON public.class_members FOR ALL
+  USING (public.can_manage_class(class_id))
+  WITH CHECK (public.can_manage_class(class_id));
+
+CREATE POLICY "Co-teachers can leave a class"
+  ON public.class_members FOR DELETE
+  USING (auth.uid() = teacher_id);
+
+-- Rows are only written by transfer_class
+CREATE POLICY "Teachers can view transfers of classes they can see"
+  ON public.class_transfers FOR SELECT
+  USING (
+    public.has_class_permission(class_id, 'view')
+    OR auth.uid() IN (from_teacher_id, to_teacher_id)
+  );
+
+-- Classes: shared classes are visible, editors can update, only the owner can delete
+DROP POLICY IF EXISTS "Teachers can view their own classes" ON public.active_classes;
+DROP POLICY IF EXISTS "Teachers can update their own classes" ON public.active_classes;
+
+CREATE POLICY "Teachers can view classes they own or share"
+  ON public.active_classes FOR SELECT
+  USING (public.has_class_permission(id, 'view'));
+
+CREATE POLICY "Teachers can update classes they own or edit"
+  ON public.active_classes FOR UPDATE
+  USING (public.has_class_permission(id, 'edit'));
+
+CREATE POLICY "Co-teachers can view sessions in shared classes"
+  ON public.class_sessions FOR SELECT
+  USING (public.has_class_permission(class_id, 'view'));
+
+CREATE POLICY "Co-teachers can view exercises in shared classes"
+  ON public.student_exercises FOR SELECT
+  USING (
+    class_session_id IN (
+      SELECT id FROM public.class_sessions
+      WHERE public.has_class_permission(class_id, 'view')
+    )
+  );
+
+CREATE POLICY "Co-teachers can view assignments in shared classes"
+  ON public.assignments FOR SELECT
+  USING (public.has_class_permission(class_id, 'view'));
+
+CREATE POLICY "Editing co-teachers can update assignments in shared classes"
+  ON public.assignments FOR UPDATE
+  USING (public.has_class_permission(class_id, 'edit'));
+
+CREATE POLICY "Co-teachers can view submissions in shared classes"
+  ON public.assignment_submissions FOR SELECT
+  USING (
+    assignment_id IN (
+      SELECT id FROM public.assignments
+      WHERE public.has_class_permission(class_id, 'view')
+    )
+  );
+
+CREATE POLICY "Grading co-teachers can grade submissions in shared classes"
+  ON public.assignment_submissions FOR UPDATE
+  USING (
+    assignment_id IN (
+      SELECT id FROM public.assignments
+      WHERE public.has_class_permission(class_id, 'grade')
+    )
+  );
+
+DROP POLICY IF EXISTS "Teachers can view overrides in their classes" ON public.grade_overrides;
+
+CREATE POLICY "Teachers can view overrides in classes they can see"
+  ON public.grade_overrides FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.test_results tr
+      WHERE tr.id = grade_overrides.test_result_id
+        AND public.has_class_permission(tr.class_id, 'view')
+    )
+  );
+
+-- Teacher accounts are looked up by email when adding members, co-teachers and new owners
+CREATE OR REPLACE FUNCTION public.find_teacher_by_email(p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT id INTO v_user_id
+  FROM profiles
+  WHERE lower(email) = lower(trim(p_email)) AND role::TEXT = 'teacher';
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No teacher account uses %', trim(p_email);
+  END IF;
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_teacher_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create a school with the calling teacher as its first admin
+CREATE OR REPLACE FUNCTION public.create_school(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+BEGIN
+  IF (SELECT role::TEXT FROM profiles WHERE id = auth.uid()) IS DISTINCT FROM 'teacher' THEN
+    RAISE EXCEPTION 'Only teacher accounts can create a school';
+  END IF;
+
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RAISE EXCEPTION 'A school name is required';
+  END IF;
+
+  INSERT INTO schools (name, created_by)
+  VALUES (TRIM(p_name), auth.uid())
+  RETURNING id INTO v_school_id;
+
+  INSERT INTO school_members (school_id, user_id, role)
+  VALUES (v_school_id, auth.uid(), 'admin');
+
+  RETURN v_school_id;
+END;
+$$;
+
+-- Add a teacher to a school by email, or update their role and department
+CREATE OR REPLACE FUNCTION public.add_school_member(
+  p_school_id UUID,
+  p_email TEXT,
+  p_role TEXT DEFAULT 'teacher',
+  p_department TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member_id UUID;
+BEGIN
+  IF NOT public.is_school_admin(p_school_id) THEN
+    RAISE EXCEPTION 'Only school admins can add members';
+  END IF;
+
+  INSERT INTO school_members (school_id, user_id, role, department)
+  VALUES (p_school_id, public.find_teacher_by_email(p_email), p_role, NULLIF(TRIM(p_department), ''))
+  ON CONFLICT (school_id, user_id)
+  DO UPDATE SET role = EXCLUDED.role, department = EXCLUDED.department
+  RETURNING id INTO v_member_id;
+
+  RETURN v_member_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_school_members(p_school_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  role TEXT,
+  department TEXT,
+  class_count BIGINT,
+  joined_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_school_member(p_school_id) THEN
+    RAISE EXCEPTION 'Not a member of this school';
+  END IF;
+
+  RETURN QUERY
+  SELECT sm.id, sm.user_id, p.full_name, p.email, sm.role, sm.department,
+         (SELECT COUNT(*) FROM active_classes ac WHERE ac.school_id = p_school_id AND ac.teacher_id = sm.user_id),
+         sm.created_at
+  FROM school_members sm
+  JOIN profiles p ON p.id = sm.user_id
+  WHERE sm.school_id = p_school_id
+  ORDER BY sm.role, p.full_name;
+END;
+$$;
+
+-- Share a class with another teacher by email, or change their access. In a school,
+-- co-teachers must belong to the same school.
+CREATE OR REPLACE FUNCTION public.add_class_member(
+  p_class_id UUID,
+  p_email TEXT,
+  p_permission TEXT DEFAULT 'view'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_class active_classes%ROWTYPE;
+  v_teacher_id UUID;
+  v_member_id UUID;
+BEGIN
+  IF NOT public.can_manage_class(p_class_id) THEN
+    RAISE EXCEPTION 'Only the class owner or a school admin can share this class';
+  END IF;
+
+  SELECT * INTO v_class FROM active_classes WHERE id = p_class_id;
+  v_teacher_id := public.find_teacher_by_email(p_email);
+
+  IF v_teacher_id = v_class.teacher_id THEN
+    RAISE EXCEPTION 'That teacher already owns this class';
+  END IF;
+
+  IF v_class.school_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM school_members WHERE school_id = v_class.school_id AND user_id = v_teacher_id
+  ) THEN
+    RAISE EXCEPTION 'Co-teachers must be members of the class''s school';
+  END IF;
+
+  INSERT INTO class_members (class_id, teacher_id, permission, added_by)
+  VALUES (p_class_id, v_teacher_id, p_permission, auth.uid())
+  ON CONFLICT (class_id, teacher_id)
+  DO UPDATE SET permission = EXCLUDED.permission, updated_at = now()
+  RETURNING id INTO v_member_id;
+
+  RETURN v_member_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_class_members(p_class_id UUID)
+RETURNS TABLE (
+  member_id UUID,
+  teacher_id UUID,
+  full_name TEXT,
+  email TEXT,
+  permission TEXT,
+  added_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_class_permission(p_class_id, 'view') THEN
+    RAISE EXCEPTION 'Not allowed to view this class';
+  END IF;
+
+  RETURN QUERY
+  SELECT cm.id, cm.teacher_id, p.full_name, p.email, cm.permission, cm.created_at
+  FROM class_members cm
+  JOIN profiles p ON p.id = cm.teacher_id
+  WHERE cm.class_id = p_class_id
+  ORDER BY cm.created_at;
+END;
+$$;
+
+-- Hand a class to another teacher. The previous owner can stay on as an editing
+-- co-teacher; every transfer is recorded in class_transfers.
+CREATE OR REPLACE FUNCTION public.transfer_class(
+  p_class_id UUID,
+  p_email TEXT,
+  p_keep_access BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_class active_classes%ROWTYPE;
+  v_new_owner UUID;
+  v_new_owner_name TEXT;
+BEGIN
+  IF NOT public.can_manage_class(p_class_id) THEN
+    RAISE EXCEPTION 'Only the class owner or a school admin can transfer this class';
+  END IF;
+
+  SELECT * INTO v_class FROM active_classes WHERE id = p_class_id FOR UPDATE;
+  v_new_owner := public.find_teacher_by_email(p_email);
+
+  IF v_new_owner = v_class.teacher_id THEN
+    RAISE EXCEPTION 'That teacher already owns this class';
+  END IF;
+
+  IF v_class.school_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM school_members WHERE school_id = v_class.school_id AND user_id = v_new_owner
+  ) THEN
+    RAISE EXCEPTION 'Classes can only be transferred to members of the class''s school';
+  END IF;
+
+  SELECT full_name INTO v_new_owner_name FROM profiles WHERE id = v_new_owner;
+
+  PERFORM set_config('app.class_transfer', 'on', true);
+  UPDATE active_classes
+  SET teacher_id = v_new_owner,
+      teacher = COALESCE(v_new_owner_name, teacher),
+      updated_at = now()
+  WHERE id = p_class_id;
+  PERFORM set_config('app.class_transfer', 'off', true);
+
+  DELETE FROM class_members WHERE class_id = p_class_id AND teacher_id = v_new_owner;
+
+  IF p_keep_access AND v_class.teacher_id IS NOT NULL THEN
+    INSERT INTO class_members (class_id, teacher_id, permission, added_by)
+    VALUES (p_class_id, v_class.teacher_id, 'edit', auth.uid())
+    ON CONFLICT (class_id, teacher_id)
+    DO UPDATE SET permission = 'edit', updated_at = now();
+  END IF;
+
+  INSERT INTO class_transfers (class_id, from_teacher_id, to_teacher_id, transferred_by, kept_access)
+  VALUES (p_class_id, v_class.teacher_id, v_new_owner, auth.uid(), p_keep_access AND v_class.teacher_id IS NOT NULL);
+
+  RETURN jsonb_build_object(
+    'class_id', p_class_id,
+    'teacher_id', v_new_owner,
+    'teacher', COALESCE(v_new_owner_name, v_class.teacher)
+  );
+END;
+$$;
+
+-- Teachers with edit access to an enrolled class can manage a student's guardians
+CREATE OR REPLACE FUNCTION public.can_manage_student_guardians(p_student_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM student_profiles
+    WHERE id = p_student_profile_id AND authenticated_user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1
+    FROM class_enrollments ce
+    JOIN student_profiles sp ON sp.authenticated_user_id = ce.student_profile_id
+    WHERE sp.id = p_student_profile_id
+      AND ce.is_active = true
+      AND public.has_class_permission(ce.class_id, 'edit')
+  );
+$$;
+
+-- Co-teachers with grade access can override grades, not just the class owner
+-- Returns { overall_score, total_points_earned, previous_points, question }
+CREATE OR REPLACE FUNCTION public.apply_grade_override(
+  p_test_result_id UUID,
+  p_question_number INTEGER,
+  p_new_points NUMERIC,
+  p_reason TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id UUID := auth.uid();
+  v_result RECORD;
+  v_analysis JSONB;
+  v_questions JSONB;
+  v_question JSONB;
+  v_index INTEGER;
+  v_points_possible NUMERIC;
+  v_previous NUMERIC;
+  v_delta NUMERIC;
+  v_mapping RECORD;
+  v_criterion JSONB;
+  v_criteria JSONB := '[]';
+  v_criterion_points NUMERIC;
+  v_total_earned NUMERIC;
+  v_overall NUMERIC;
+BEGIN
+  SELECT tr.id, tr.exam_id, tr.detailed_analysis, tr.total_points_earned, tr.total_points_possible,
+         tr.class_id
+  INTO v_result
+  FROM test_results tr
+  WHERE tr.id = p_test_result_id
+  FOR UPDATE OF tr;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Test result % not found', p_test_result_id;
+  END IF;
+
+  IF v_teacher_id IS NULL OR NOT public.has_class_permission(v_result.class_id, 'grade') THEN
+    RAISE EXCEPTION 'Only teachers with grading access to the class can override grades';
+  END IF;
+
+  IF COALESCE(TRIM(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to override a grade';
+  END IF;
+
+  SELECT points INTO v_points_possible
+  FROM answer_keys
+  WHERE exam_id = v_result.exam_id AND question_number = p_question_number;
+
+  IF v_points_possible IS NULL THEN
+    RAISE EXCEPTION 'Question % has no answer key', p_question_number;
+  END IF;
+
+  IF p_new_points < 0 OR p_new_points > v_points_possible THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', v_points_possible;
+  END IF;
+
+  BEGIN
+    v_analysis := v_result.detailed_analysis::JSONB;
+  EXCEPTION WHEN others THEN
+    v_analysis := NULL;
+  END;
+
+  v_questions := COALESCE(v_analysis->'questionResults', '[]'::JSONB);
+
+  SELECT q.ordinality - 1, q.value
+  INTO v_index, v_question
+  FROM jsonb_array_elements(v_questions) WITH ORDINALITY AS q(value, ordinality)
+  WHERE (q.value->>'questionNumber')::INTEGER = p_question_number;
+
+  IF v_question IS NULL THEN
+    RAISE EXCEPTION 'No per-question results are stored for this test';
+  END IF;
+
+  v_previous := COALESCE((v_question->>'pointsEarned')::NUMERIC, 0);
+  v_delta := p_new_points - v_previous;
+
+  -- Skills mapped to the question move by the weighted change in points
+  FOR v_mapping IN
+    SELECT skill_name, skill_type, LEAST(GREATEST(skill_weight, 0), 2) AS weight
+    FROM exam_skill_mappings
+    WHERE exam_id = v_result.exam_id AND question_number = p_question_number
+  LOOP
+    PERFORM adjust_test_skill_score(v_mapping.skill_type, p_test_result_id, v_mapping.skill_name, v_delta * v_mapping.weight);
+  END LOOP;
+
+  -- Rubric criteria are rescaled to the new score, and their linked skills follow
+  IF jsonb_typeof(v_question->'criterionScores') = 'array' THEN
+    FOR v_criterion IN SELECT * FROM jsonb_array_elements(v_question->'criterionScores') LOOP
+      v_criterion_points := ROUND(COALESCE((v_criterion->>'pointsPossible')::NUMERIC, 0) * p_new_points / NULLIF(v_points_possible, 0), 2);
+      v_criterion_points := COALESCE(v_criterion_points, 0);
+
+      IF COALESCE(v_criterion->>'skillName', '') <> '' THEN
+        PERFORM adjust_test_skill_score(
+          COALESCE(v_criterion->>'skillType', 'content'),
+          p_test_result_id,
+          v_criterion->>'skillName',
+          v_criterion_points - COALESCE((v_criterion->>'pointsEarned')::NUMERIC, 0)
+        );
+      END IF;
+
+      v_criteria := v_criteria || jsonb_build_array(v_criterion || jsonb_build_object('pointsEarned', v_criterion_points));
+    END LOOP;
+
+    v_question := v_question || jsonb_build_object('criterionScores', v_criteria);
+  END IF;
+
+  v_question := v_question || jsonb_build_object(
+    'pointsEarned', p_new_points,
+    'isCorrect', p_new_points >= v_points_possible,
+    'overridden', true,
+    'teacherComment', p_comment
+  );
+  v_questions := jsonb_set(v_questions, ARRAY[v_index::TEXT], v_question);
+  v_analysis := jsonb_set(COALESCE(v_analysis, '{}'::JSONB), '{questionResults}', v_questions);
+
+  v_total_earned := GREATEST(0, COALESCE(v_result.total_points_earned, 0) + v_delta);
+  v_overall := CASE
+    WHEN COALESCE(v_result.total_points_possible, 0) > 0
+      THEN ROUND(v_total_earned / v_result.total_points_possible * 100, 2)
+    ELSE 0
+  END;
+
+  UPDATE test_results
+  SET detailed_analysis = v_analysis::TEXT,
+      total_points_earned = v_total_earned,
+      overall_score = v_overall
+  WHERE id = p_test_result_id;
+
+  INSERT INTO grade_overrides (
+    test_result_id, question_number, previous_points, new_points, points_possible,
+    reason, comment, overridden_by
+  )
+  VALUES (
+    p_test_result_id, p_question_number, v_previous, p_new_points, v_points_possible,
+    TRIM(p_reason), NULLIF(TRIM(COALESCE(p_comment, '')), ''), v_teacher_id
+  );
+
+  RETURN jsonb_build_object(
+    'overall_score', v_overall,
+    'total_points_earned', v_total_earned,
+    'previous_points', v_previous,
+    'question', v_question
+  );
+END;
+$$;
\ No newline at end of file
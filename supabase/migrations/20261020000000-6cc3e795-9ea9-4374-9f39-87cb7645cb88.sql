@@ -0,0 +1,18 @@
+-- Scope the OCR result cache to the user who uploaded the file. Entries were keyed by
+-- file hash alone, so any caller could read another teacher's OCR output by hashing the
+-- same file. Anonymous entries can't be attributed to anyone and are dropped.
+
+DELETE FROM public.ocr_result_cache WHERE user_id IS NULL;
+
+ALTER TABLE public.ocr_result_cache
+  DROP CONSTRAINT ocr_result_cache_file_hash_key,
+  DROP CONSTRAINT ocr_result_cache_user_id_fkey;
+
+ALTER TABLE public.ocr_result_cache
+  ALTER COLUMN user_id SET NOT NULL,
+  ADD CONSTRAINT ocr_result_cache_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ADD CONSTRAINT ocr_result_cache_user_file_hash_key UNIQUE (user_id, file_hash);
+
+-- The unique constraint's index covers lookups by user, so the separate one is redundant
+DROP INDEX IF EXISTS public.idx_ocr_result_cache_user;
@@ -0,0 +1,130 @@
+-- Tighten assignment hand-ins and quiz attempts.
+--
+-- Students could insert their own submissions as graded with any score, and for any
+-- assignment id. Hand-ins are now limited to assignments in classes the student is
+-- enrolled in and always start as 'submitted' without a score; graded rows only come
+-- from triggers, which take the score from the stored test result or practice session.
+--
+-- Exam assignments share one quiz link across the class, so the link-wide max_attempts
+-- locked everyone out once the first student started. Those links now count attempts
+-- per signed-in student.
+
+DROP POLICY IF EXISTS "Students can submit their own work" ON public.assignment_submissions;
+
+CREATE POLICY "Students can submit their own work"
+  ON public.assignment_submissions FOR INSERT
+  WITH CHECK (
+    auth.uid() = student_id AND
+    status = 'submitted' AND
+    score IS NULL AND
+    feedback IS NULL AND
+    graded_at IS NULL AND
+    test_result_id IS NULL AND
+    assignment_id IN (
+      SELECT a.id
+      FROM public.assignments a
+      JOIN public.class_enrollments ce
+        ON ce.class_id = a.class_id
+       AND ce.student_profile_id = auth.uid()
+       AND ce.is_active = true
+      WHERE a.is_active = true
+    )
+  );
+
+-- Hand in practice test assignments when a practice session on the same skill is
+-- scored. The first completion counts; later retakes don't overwrite it.
+CREATE OR REPLACE FUNCTION public.sync_assignment_submission_from_practice_session()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.authenticated_student_id IS NULL OR NEW.final_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO assignment_submissions (assignment_id, student_id, status, score, submitted_at, graded_at)
+  SELECT a.id, NEW.authenticated_student_id, 'graded', NEW.final_score, now(), now()
+  FROM assignments a
+  JOIN class_enrollments ce
+    ON ce.class_id = a.class_id
+   AND ce.student_profile_id = NEW.authenticated_student_id
+   AND ce.is_active = true
+  WHERE a.class_id = NEW.class_id
+    AND a.assignment_type = 'practice_test'
+    AND a.is_active = true
+    AND a.content_data->>'skillName' = NEW.skill_name
+  ON CONFLICT (assignment_id, student_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_assignment_submission_on_practice_session
+  AFTER INSERT OR UPDATE OF final_score ON public.student_practice_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_assignment_submission_from_practice_session();
+
+ALTER TABLE public.student_links
+  ADD COLUMN IF NOT EXISTS attempts_per_student BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.student_quiz_sessions
+  ADD COLUMN IF NOT EXISTS authenticated_student_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_student_quiz_sessions_link_student
+  ON public.student_quiz_sessions(student_link_id, authenticated_student_id);
+
+-- Links already handed out through assignments switch to per-student attempts
+UPDATE public.student_links
+SET attempts_per_student = true
+WHERE id IN (SELECT student_link_id FROM public.assignments WHERE student_link_id IS NOT NULL);
+
+-- Start a quiz attempt. Checks the link is still open and the attempt limit (per
+-- student or for the whole link), then records the attempt and opens the session
+-- in one transaction so two students starting at once can't both take the last slot.
+CREATE OR REPLACE FUNCTION public.start_quiz_session(p_link_id UUID, p_student_name TEXT)
+RETURNS public.student_quiz_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  link student_links%ROWTYPE;
+  used_attempts INTEGER;
+  session student_quiz_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO link FROM student_links WHERE id = p_link_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT link.is_active OR link.expires_at < now() THEN
+    RAISE EXCEPTION 'This quiz is no longer available';
+  END IF;
+
+  IF link.attempts_per_student THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'Sign in to take this quiz';
+    END IF;
+
+    SELECT count(*) INTO used_attempts
+    FROM student_quiz_sessions
+    WHERE student_link_id = link.id
+      AND authenticated_student_id = auth.uid();
+  ELSE
+    used_attempts := link.current_attempts;
+  END IF;
+
+  IF used_attempts >= link.max_attempts THEN
+    RAISE EXCEPTION 'You have used all % allowed attempts for this quiz', link.max_attempts;
+  END IF;
+
+  UPDATE student_links
+  SET current_attempts = current_attempts + 1
+  WHERE id = link.id;
+
+  INSERT INTO student_quiz_sessions (student_link_id, student_name, authenticated_student_id, current_question, answers, is_submitted)
+  VALUES (link.id, p_student_name, auth.uid(), 1, '{}', false)
+  RETURNING * INTO session;
+
+  RETURN session;
+END;
+$$;
@@ -0,0 +1,287 @@
+-- Scope roster matching to the importing teacher. import_roster used to match students
+-- across every teacher's data: by email or Student ID against all student profiles and
+-- by name against all roster entries, so an import could enroll someone else's student.
+-- Matches are now limited to students already on the teacher's own rosters or enrolled
+-- in their classes, never by name, and only teachers may import.
+
+-- Which student profile a roster entry stands for, so re-syncs can find students who
+-- have no email without falling back to their name
+ALTER TABLE public.active_students
+  ADD COLUMN student_profile_id UUID REFERENCES public.student_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_active_students_student_profile ON public.active_students(student_profile_id);
+
+UPDATE public.active_students a
+SET student_profile_id = sp.id
+FROM public.student_profiles sp
+WHERE a.email IS NOT NULL
+  AND lower(sp.email) = lower(a.email)
+  AND a.student_profile_id IS NULL;
+
+-- The teacher's existing student matching a roster row, by email first and then by
+-- Student ID. Internal to the roster functions.
+CREATE OR REPLACE FUNCTION public.find_roster_student(p_teacher_id UUID, p_email TEXT, p_student_id TEXT)
+RETURNS TABLE (profile_id UUID, matched_by TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH teacher_classes AS (
+    SELECT id, students FROM active_classes WHERE teacher_id = p_teacher_id
+  ),
+  teacher_students AS (
+    SELECT sp.id, sp.email, sp.student_id
+    FROM student_profiles sp
+    WHERE sp.id IN (
+        SELECT a.student_profile_id
+        FROM active_students a
+        WHERE a.id::TEXT IN (SELECT unnest(COALESCE(students, '{}')) FROM teacher_classes)
+      )
+      OR sp.authenticated_user_id IN (
+        SELECT ce.student_profile_id
+        FROM class_enrollments ce
+        WHERE ce.class_id IN (SELECT id FROM teacher_classes)
+      )
+  )
+  SELECT id, matched_by
+  FROM (
+    SELECT id, 'email' AS matched_by, 1 AS rank
+    FROM teacher_students
+    WHERE NULLIF(p_email, '') IS NOT NULL AND lower(email) = lower(p_email)
+    UNION ALL
+    SELECT id, 'studentId', 2
+    FROM teacher_students
+    WHERE NULLIF(p_student_id, '') IS NOT NULL AND student_id = p_student_id
+  ) matches
+  ORDER BY rank
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_roster_student(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Preview matches for the roster import dialog, keyed by the roster's student key.
+-- p_students: [{ key, email, student_id }]
+CREATE OR REPLACE FUNCTION public.match_roster_students(p_students JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_student JSONB;
+  v_match RECORD;
+  v_matches JSONB := '{}';
+BEGIN
+  IF (SELECT role::TEXT FROM profiles WHERE id = auth.uid()) IS DISTINCT FROM 'teacher' THEN
+    RAISE EXCEPTION 'Only teachers can import a roster';
+  END IF;
+
+  FOR v_student IN SELECT * FROM jsonb_array_elements(p_students) LOOP
+    SELECT * INTO v_match
+    FROM public.find_roster_student(auth.uid(), v_student->>'email', v_student->>'student_id');
+
+    IF v_match.profile_id IS NOT NULL THEN
+      v_matches := v_matches || jsonb_build_object(
+        v_student->>'key',
+        jsonb_build_object('profile_id', v_match.profile_id, 'matched_by', v_match.matched_by)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN v_matches;
+END;
+$$;
+
+-- p_students no longer carries profile_id; each student is matched again inside the import
+CREATE OR REPLACE FUNCTION public.import_roster(
+  p_classes JSONB,
+  p_students JSONB,
+  p_enrollments JSONB,
+  p_resync BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id UUID := auth.uid();
+  v_class JSONB;
+  v_student JSONB;
+  v_enrollment JSONB;
+  v_class_ids JSONB := '{}';
+  v_active_ids JSONB := '{}';
+  v_login_ids JSONB := '{}';
+  v_class_id UUID;
+  v_profile_id UUID;
+  v_active_id UUID;
+  v_login_id UUID;
+  v_roster TEXT[];
+  v_classes_created INTEGER := 0;
+  v_students_created INTEGER := 0;
+  v_enrollments_added INTEGER := 0;
+  v_enrollments_removed INTEGER := 0;
+  v_removed INTEGER;
+BEGIN
+  IF v_teacher_id IS NULL THEN
+    RAISE EXCEPTION 'Must be authenticated to import a roster';
+  END IF;
+
+  IF (SELECT role::TEXT FROM profiles WHERE id = v_teacher_id) IS DISTINCT FROM 'teacher' THEN
+    RAISE EXCEPTION 'Only teachers can import a roster';
+  END IF;
+
+  FOR v_class IN SELECT * FROM jsonb_array_elements(p_classes) LOOP
+    v_class_id := NULLIF(v_class->>'class_id', '')::UUID;
+
+    IF v_class_id IS NULL THEN
+      INSERT INTO active_classes (name, subject, grade, teacher, teacher_id, student_count, avg_gpa, students, roster_source_id)
+      VALUES (
+        v_class->>'name',
+        v_class->>'subject',
+        v_class->>'grade',
+        COALESCE(NULLIF(v_class->>'teacher', ''), 'Teacher'),
+        v_teacher_id,
+        0,
+        0,
+        '{}',
+        NULLIF(v_class->>'roster_source_id', '')
+      )
+      RETURNING id INTO v_class_id;
+      v_classes_created := v_classes_created + 1;
+    ELSE
+      IF NOT EXISTS (SELECT 1 FROM active_classes WHERE id = v_class_id AND teacher_id = v_teacher_id) THEN
+        RAISE EXCEPTION 'Class % does not belong to the importing teacher', v_class_id;
+      END IF;
+
+      UPDATE active_classes
+      SET roster_source_id = COALESCE(roster_source_id, NULLIF(v_class->>'roster_source_id', ''))
+      WHERE id = v_class_id;
+    END IF;
+
+    v_class_ids := v_class_ids || jsonb_build_object(v_class->>'key', v_class_id);
+  END LOOP;
+
+  FOR v_student IN SELECT * FROM jsonb_array_elements(p_students) LOOP
+    -- Re-check for a match in case the student was added after the preview
+    SELECT existing_student.profile_id INTO v_profile_id
+    FROM public.find_roster_student(v_teacher_id, v_student->>'email', v_student->>'student_id') AS existing_student;
+
+    IF v_profile_id IS NULL THEN
+      INSERT INTO student_profiles (student_name, email, student_id)
+      VALUES (v_student->>'student_name', NULLIF(v_student->>'email', ''), NULLIF(v_student->>'student_id', ''))
+      RETURNING id INTO v_profile_id;
+      v_students_created := v_students_created + 1;
+    ELSE
+      UPDATE student_profiles
+      SET email = COALESCE(email, NULLIF(v_student->>'email', '')),
+          student_id = COALESCE(student_id, NULLIF(v_student->>'student_id', ''))
+      WHERE id = v_profile_id;
+    END IF;
+
+    -- Class rosters in the teacher views list active_students ids. Only entries already
+    -- on one of the teacher's rosters are reused, matched by profile or email.
+    SELECT a.id INTO v_active_id
+    FROM active_students a
+    WHERE a.id::TEXT IN (
+        SELECT unnest(COALESCE(students, '{}')) FROM active_classes WHERE teacher_id = v_teacher_id
+      )
+      AND (
+        a.student_profile_id = v_profile_id OR
+        (NULLIF(v_student->>'email', '') IS NOT NULL AND lower(a.email) = lower(v_student->>'email'))
+      )
+    ORDER BY (a.student_profile_id = v_profile_id) DESC NULLS LAST
+    LIMIT 1;
+
+    IF v_active_id IS NULL THEN
+      INSERT INTO active_students (name, email, year, student_profile_id)
+      VALUES (v_student->>'student_name', NULLIF(v_student->>'email', ''), NULLIF(v_student->>'year', ''), v_profile_id)
+      RETURNING id INTO v_active_id;
+    ELSE
+      UPDATE active_students
+      SET student_profile_id = v_profile_id
+      WHERE id = v_active_id AND student_profile_id IS NULL;
+    END IF;
+
+    SELECT authenticated_user_id INTO v_login_id FROM student_profiles WHERE id = v_profile_id;
+
+    v_active_ids := v_active_ids || jsonb_build_object(v_student->>'key', v_active_id);
+    IF v_login_id IS NOT NULL THEN
+      v_login_ids := v_login_ids || jsonb_build_object(v_student->>'key', v_login_id);
+    END IF;
+  END LOOP;
+
+  FOR v_enrollment IN SELECT * FROM jsonb_array_elements(p_enrollments) LOOP
+    v_class_id := (v_class_ids->>(v_enrollment->>'class_key'))::UUID;
+    v_active_id := (v_active_ids->>(v_enrollment->>'student_key'))::UUID;
+    v_login_id := (v_login_ids->>(v_enrollment->>'student_key'))::UUID;
+
+    IF v_class_id IS NULL OR v_active_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE active_classes
+    SET students = array_append(COALESCE(students, '{}'), v_active_id::TEXT)
+    WHERE id = v_class_id AND NOT (COALESCE(students, '{}') @> ARRAY[v_active_id::TEXT]);
+    IF FOUND THEN
+      v_enrollments_added := v_enrollments_added + 1;
+    END IF;
+
+    IF v_login_id IS NOT NULL THEN
+      IF EXISTS (SELECT 1 FROM class_enrollments WHERE class_id = v_class_id AND student_profile_id = v_login_id) THEN
+        UPDATE class_enrollments
+        SET is_active = true, updated_at = now()
+        WHERE class_id = v_class_id AND student_profile_id = v_login_id AND is_active = false;
+      ELSE
+        INSERT INTO class_enrollments (class_id, student_profile_id, enrolled_by, is_active)
+        VALUES (v_class_id, v_login_id, v_teacher_id, true);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF p_resync THEN
+    FOR v_class IN SELECT * FROM jsonb_array_elements(p_classes) LOOP
+      v_class_id := (v_class_ids->>(v_class->>'key'))::UUID;
+
+      UPDATE class_enrollments
+      SET is_active = false, updated_at = now()
+      WHERE class_id = v_class_id
+        AND is_active = true
+        AND student_profile_id NOT IN (
+          SELECT (v_login_ids->>(e->>'student_key'))::UUID
+          FROM jsonb_array_elements(p_enrollments) e
+          WHERE e->>'class_key' = v_class->>'key'
+            AND v_login_ids ? (e->>'student_key')
+        );
+
+      v_roster := ARRAY(
+        SELECT DISTINCT v_active_ids->>(e->>'student_key')
+        FROM jsonb_array_elements(p_enrollments) e
+        WHERE e->>'class_key' = v_class->>'key'
+          AND v_active_ids ? (e->>'student_key')
+      );
+
+      SELECT count(*) INTO v_removed
+      FROM active_classes, unnest(COALESCE(students, '{}')) AS current_student
+      WHERE id = v_class_id AND NOT (current_student = ANY(v_roster));
+      v_enrollments_removed := v_enrollments_removed + v_removed;
+
+      UPDATE active_classes SET students = v_roster WHERE id = v_class_id;
+    END LOOP;
+  END IF;
+
+  UPDATE active_classes
+  SET student_count = COALESCE(cardinality(students), 0)
+  WHERE id IN (SELECT value::UUID FROM jsonb_each_text(v_class_ids));
+
+  RETURN jsonb_build_object(
+    'class_ids', v_class_ids,
+    'classes_created', v_classes_created,
+    'students_created', v_students_created,
+    'enrollments_added', v_enrollments_added,
+    'enrollments_removed', v_enrollments_removed
+  );
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Track when a test result last changed. Changes-only gradebook exports compared the
+-- export time with created_at, so a grade override made after an export never showed
+-- up in the next changes-only file. The trigger bumps updated_at on every update,
+-- including the one apply_grade_override makes.
+
+ALTER TABLE public.test_results
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.test_results SET updated_at = created_at;
+
+-- Results already overridden count as changed when their last override was made
+UPDATE public.test_results tr
+SET updated_at = go.last_override
+FROM (
+  SELECT test_result_id, MAX(created_at) AS last_override
+  FROM public.grade_overrides
+  GROUP BY test_result_id
+) go
+WHERE go.test_result_id = tr.id AND go.last_override > tr.updated_at;
+
+CREATE INDEX idx_test_results_class_updated ON public.test_results(class_id, updated_at);
+
+CREATE TRIGGER update_test_results_updated_at
+  BEFORE UPDATE ON public.test_results
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,5 @@
+-- Batch grading goes through the same review step as single uploads. A file job now
+-- stops after text extraction with status 'needs_review' and keeps what was read in
+-- extract_result; it is graded only when the teacher commits the reviewed scan.
+ALTER TABLE public.file_jobs
+  ADD COLUMN IF NOT EXISTS extract_result JSONB;
@@ -0,0 +1,73 @@
+-- School admins could write school_members directly through a FOR ALL policy, so an
+-- admin could insert or re-point rows at any user or school id and the "at least one
+-- admin" rule only lived in the browser. Admins now only read and remove members
+-- directly; adding and changing members goes through add_school_member and
+-- update_school_member, and a trigger keeps every school with an admin.
+
+DROP POLICY IF EXISTS "School admins can manage members" ON public.school_members;
+
+-- Admins already see members through "Members can view their school's members"
+CREATE POLICY "School admins can remove members"
+  ON public.school_members FOR DELETE
+  USING (public.is_school_admin(school_id));
+
+-- Change a member's role or department
+CREATE OR REPLACE FUNCTION public.update_school_member(
+  p_member_id UUID,
+  p_role TEXT,
+  p_department TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_school_id UUID;
+BEGIN
+  SELECT school_id INTO v_school_id FROM school_members WHERE id = p_member_id;
+
+  IF v_school_id IS NULL OR NOT public.is_school_admin(v_school_id) THEN
+    RAISE EXCEPTION 'Only school admins can change members';
+  END IF;
+
+  UPDATE school_members
+  SET role = p_role,
+      department = NULLIF(TRIM(p_department), '')
+  WHERE id = p_member_id;
+END;
+$$;
+
+-- Demoting or removing the last admin of a school is refused, however it is attempted.
+-- Rows removed because the school or the user account was deleted are let through.
+CREATE OR REPLACE FUNCTION public.keep_school_admin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role <> 'admin' OR (TG_OP = 'UPDATE' AND NEW.role = 'admin' AND NEW.school_id = OLD.school_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- Serialize admin changes per school so two admins can't demote each other at once
+  PERFORM 1 FROM schools WHERE id = OLD.school_id FOR UPDATE;
+  IF NOT FOUND OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM school_members
+    WHERE school_id = OLD.school_id AND role = 'admin' AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'A school needs at least one admin';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER keep_school_admin
+  BEFORE UPDATE OR DELETE ON public.school_members
+  FOR EACH ROW EXECUTE FUNCTION public.keep_school_admin();
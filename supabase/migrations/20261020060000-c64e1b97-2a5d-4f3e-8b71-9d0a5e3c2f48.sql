@@ -0,0 +1,298 @@
+-- AI budgets are set by school admins and enforced where the calls are made. Teachers
+-- could raise or delete their own budget, the "school" budget was one global row for
+-- every teacher on the platform, and only the browser router looked at budgets, so any
+-- caller of an edge function could spend past them. Budgets now belong to a school
+-- (the whole school, or one teacher in it), only that school's admins can change them,
+-- and edge functions ask ai_budget_mode before every model call.
+
+ALTER TABLE public.ai_budgets
+  ADD COLUMN school_id UUID REFERENCES public.schools(id) ON DELETE CASCADE;
+
+-- The old platform-wide row can't be given to any one school
+DELETE FROM public.ai_budgets WHERE teacher_id IS NULL;
+
+DROP INDEX IF EXISTS public.idx_ai_budgets_school;
+CREATE UNIQUE INDEX idx_ai_budgets_school ON public.ai_budgets(school_id) WHERE teacher_id IS NULL;
+
+ALTER TABLE public.ai_budgets
+  ADD CONSTRAINT ai_budgets_owner CHECK (teacher_id IS NOT NULL OR school_id IS NOT NULL);
+
+DROP POLICY IF EXISTS "Teachers can manage their own AI budget" ON public.ai_budgets;
+DROP POLICY IF EXISTS "Teachers can view the school AI budget" ON public.ai_budgets;
+
+-- Budgets are written by set_ai_budget and clear_ai_budget
+CREATE POLICY "Teachers can view their own AI budget"
+  ON public.ai_budgets FOR SELECT
+  USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Members can view their school's AI budget"
+  ON public.ai_budgets FOR SELECT
+  USING (teacher_id IS NULL AND public.is_school_member(school_id));
+
+CREATE POLICY "School admins can view budgets in their school"
+  ON public.ai_budgets FOR SELECT
+  USING (public.is_school_admin(school_id));
+
+-- Month-to-date spend charged to a teacher
+CREATE OR REPLACE FUNCTION public.ai_teacher_month_spend(p_teacher_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(cost_usd), 0)
+  FROM ai_usage_ledger
+  WHERE teacher_id = p_teacher_id AND created_at >= date_trunc('month', now());
+$$;
+
+-- Month-to-date spend charged to any teacher in a school
+CREATE OR REPLACE FUNCTION public.ai_school_month_spend(p_school_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(l.cost_usd), 0)
+  FROM ai_usage_ledger l
+  JOIN school_members sm ON sm.user_id = l.teacher_id AND sm.school_id = p_school_id
+  WHERE l.created_at >= date_trunc('month', now());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ai_teacher_month_spend(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ai_school_month_spend(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Month-to-date spend against the caller's budget and the tightest budget of the
+-- schools they belong to.
+-- Returns { month_start, teacher: {...} | null, school: {...} | null }
+CREATE OR REPLACE FUNCTION public.get_ai_budget_status()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_teacher_budget RECORD;
+  v_teacher JSONB;
+  v_school JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_teacher_budget FROM ai_budgets WHERE teacher_id = v_user_id;
+
+  IF v_teacher_budget.id IS NOT NULL THEN
+    v_teacher := jsonb_build_object(
+      'limit_usd', v_teacher_budget.monthly_limit_usd,
+      'warning_threshold', v_teacher_budget.warning_threshold,
+      'spent_usd', public.ai_teacher_month_spend(v_user_id)
+    );
+  END IF;
+
+  SELECT jsonb_build_object(
+    'school_id', s.school_id,
+    'limit_usd', s.monthly_limit_usd,
+    'warning_threshold', s.warning_threshold,
+    'spent_usd', s.spent_usd
+  )
+  INTO v_school
+  FROM (
+    SELECT b.school_id, b.monthly_limit_usd, b.warning_threshold,
+           public.ai_school_month_spend(b.school_id) AS spent_usd
+    FROM ai_budgets b
+    JOIN school_members sm ON sm.school_id = b.school_id AND sm.user_id = v_user_id
+    WHERE b.teacher_id IS NULL
+  ) s
+  ORDER BY s.spent_usd / NULLIF(s.monthly_limit_usd, 0) DESC NULLS FIRST
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'month_start', date_trunc('month', now()),
+    'teacher', v_teacher,
+    'school', v_school
+  );
+END;
+$$;
+
+-- How a model call charged to this user or exam may run, matching BudgetMode in
+-- costTrackingService: 'normal', 'economy' once a budget passes its warning threshold or
+-- 'local_only' once one is used up, with the reason when it isn't 'normal'. Called by
+-- edge functions with the service role before each call; the teacher is resolved the
+-- same way set_ai_usage_teacher charges the call.
+-- Returns { mode, reason? }
+CREATE OR REPLACE FUNCTION public.ai_budget_mode(p_user_id UUID, p_exam_id TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_teacher_id UUID;
+  v_budget RECORD;
+  v_teacher_spent NUMERIC;
+  v_school RECORD;
+BEGIN
+  IF p_exam_id IS NOT NULL THEN
+    SELECT ac.teacher_id INTO v_teacher_id
+    FROM exams e
+    JOIN active_classes ac ON ac.id = e.class_id
+    WHERE e.exam_id = p_exam_id
+    LIMIT 1;
+  END IF;
+
+  IF v_teacher_id IS NULL AND p_user_id IS NOT NULL AND public.get_user_role(p_user_id) = 'teacher' THEN
+    v_teacher_id := p_user_id;
+  END IF;
+
+  IF v_teacher_id IS NULL THEN
+    RETURN jsonb_build_object('mode', 'normal');
+  END IF;
+
+  SELECT * INTO v_budget FROM ai_budgets WHERE teacher_id = v_teacher_id;
+  IF v_budget.id IS NOT NULL THEN
+    v_teacher_spent := public.ai_teacher_month_spend(v_teacher_id);
+  END IF;
+
+  -- The tightest budget among the teacher's schools
+  SELECT s.monthly_limit_usd, s.warning_threshold, s.spent_usd
+  INTO v_school
+  FROM (
+    SELECT b.monthly_limit_usd, b.warning_threshold,
+           public.ai_school_month_spend(b.school_id) AS spent_usd
+    FROM ai_budgets b
+    JOIN school_members sm ON sm.school_id = b.school_id AND sm.user_id = v_teacher_id
+    WHERE b.teacher_id IS NULL
+  ) s
+  ORDER BY s.spent_usd / NULLIF(s.monthly_limit_usd, 0) DESC NULLS FIRST
+  LIMIT 1;
+
+  IF v_budget.id IS NOT NULL AND v_teacher_spent >= v_budget.monthly_limit_usd THEN
+    RETURN jsonb_build_object('mode', 'local_only', 'reason', 'The monthly AI budget for this teacher is used up');
+  END IF;
+
+  IF v_school.monthly_limit_usd IS NOT NULL AND v_school.spent_usd >= v_school.monthly_limit_usd THEN
+    RETURN jsonb_build_object('mode', 'local_only', 'reason', 'The school''s monthly AI budget is used up');
+  END IF;
+
+  IF v_budget.id IS NOT NULL AND v_teacher_spent >= v_budget.monthly_limit_usd * v_budget.warning_threshold THEN
+    RETURN jsonb_build_object('mode', 'economy', 'reason', 'The monthly AI budget for this teacher is nearly used up');
+  END IF;
+
+  IF v_school.monthly_limit_usd IS NOT NULL AND v_school.spent_usd >= v_school.monthly_limit_usd * v_school.warning_threshold THEN
+    RETURN jsonb_build_object('mode', 'economy', 'reason', 'The school''s monthly AI budget is nearly used up');
+  END IF;
+
+  RETURN jsonb_build_object('mode', 'normal');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ai_budget_mode(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Set the school's budget, or one member teacher's budget when p_teacher_id is given
+CREATE OR REPLACE FUNCTION public.set_ai_budget(
+  p_school_id UUID,
+  p_teacher_id UUID,
+  p_monthly_limit_usd NUMERIC,
+  p_warning_threshold NUMERIC DEFAULT 0.80
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget_id UUID;
+BEGIN
+  IF NOT public.is_school_admin(p_school_id) THEN
+    RAISE EXCEPTION 'Only school admins can set AI budgets';
+  END IF;
+
+  IF p_teacher_id IS NULL THEN
+    UPDATE ai_budgets
+    SET monthly_limit_usd = p_monthly_limit_usd, warning_threshold = p_warning_threshold
+    WHERE school_id = p_school_id AND teacher_id IS NULL
+    RETURNING id INTO v_budget_id;
+
+    IF v_budget_id IS NULL THEN
+      INSERT INTO ai_budgets (school_id, monthly_limit_usd, warning_threshold)
+      VALUES (p_school_id, p_monthly_limit_usd, p_warning_threshold)
+      RETURNING id INTO v_budget_id;
+    END IF;
+
+    RETURN v_budget_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM school_members WHERE school_id = p_school_id AND user_id = p_teacher_id) THEN
+    RAISE EXCEPTION 'That teacher is not a member of this school';
+  END IF;
+
+  -- A teacher has one budget, owned by the school that set it
+  INSERT INTO ai_budgets (teacher_id, school_id, monthly_limit_usd, warning_threshold)
+  VALUES (p_teacher_id, p_school_id, p_monthly_limit_usd, p_warning_threshold)
+  ON CONFLICT (teacher_id)
+  DO UPDATE SET monthly_limit_usd = EXCLUDED.monthly_limit_usd,
+                warning_threshold = EXCLUDED.warning_threshold
+  WHERE ai_budgets.school_id = p_school_id
+  RETURNING id INTO v_budget_id;
+
+  IF v_budget_id IS NULL THEN
+    RAISE EXCEPTION 'That teacher''s AI budget is managed by another school';
+  END IF;
+
+  RETURN v_budget_id;
+END;
+$$;
+
+-- Remove the school's budget, or the budget this school set for one of its teachers
+CREATE OR REPLACE FUNCTION public.clear_ai_budget(p_school_id UUID, p_teacher_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_school_admin(p_school_id) THEN
+    RAISE EXCEPTION 'Only school admins can remove AI budgets';
+  END IF;
+
+  IF p_teacher_id IS NULL THEN
+    DELETE FROM ai_budgets WHERE school_id = p_school_id AND teacher_id IS NULL;
+  ELSE
+    DELETE FROM ai_budgets WHERE teacher_id = p_teacher_id AND school_id = p_school_id;
+  END IF;
+END;
+$$;
+
+-- The school's budget and the budgets it set for its teachers, with month-to-date spend, for admins
+CREATE OR REPLACE FUNCTION public.get_school_ai_budgets(p_school_id UUID)
+RETURNS TABLE (
+  teacher_id UUID,
+  monthly_limit_usd NUMERIC,
+  warning_threshold NUMERIC,
+  spent_usd NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_school_admin(p_school_id) THEN
+    RAISE EXCEPTION 'Only school admins can view AI budgets';
+  END IF;
+
+  RETURN QUERY
+  SELECT b.teacher_id, b.monthly_limit_usd, b.warning_threshold,
+         CASE WHEN b.teacher_id IS NULL
+           THEN public.ai_school_month_spend(p_school_id)
+           ELSE public.ai_teacher_month_spend(b.teacher_id)
+         END
+  FROM ai_budgets b
+  WHERE b.school_id = p_school_id;
+END;
+$$;
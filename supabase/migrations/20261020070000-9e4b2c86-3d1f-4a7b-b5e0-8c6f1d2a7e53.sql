@@ -0,0 +1,84 @@
+-- A goal's current value is the student's overall score for the skill, not the score
+-- that was just recorded; one strong result shouldn't complete a goal on its own.
+-- Like get_student_current_skill_scores, the overall score is the average of every
+-- score the student has for the skill, here including practice exercises.
+
+CREATE OR REPLACE FUNCTION public.refresh_student_goals_from_skill_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  student_user_id UUID;
+  current_score NUMERIC;
+  goal_record RECORD;
+BEGIN
+  student_user_id := NEW.authenticated_student_id;
+
+  IF student_user_id IS NULL AND NEW.student_id IS NOT NULL THEN
+    SELECT authenticated_user_id INTO student_user_id
+    FROM student_profiles
+    WHERE id = NEW.student_id;
+  END IF;
+
+  IF student_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  EXECUTE format(
+    'SELECT AVG(score) FROM %I
+     WHERE skill_name = $1
+       AND (authenticated_student_id = $2
+            OR student_id IN (SELECT id FROM student_profiles WHERE authenticated_user_id = $2))',
+    TG_TABLE_NAME
+  )
+  INTO current_score
+  USING NEW.skill_name, student_user_id;
+
+  IF current_score IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR goal_record IN
+    SELECT id, target_value
+    FROM student_goals
+    WHERE student_id = student_user_id
+      AND target_skill_name = NEW.skill_name
+      AND status = 'active'
+  LOOP
+    UPDATE student_goals
+    SET current_value = ROUND(current_score, 2),
+        updated_at = now()
+    WHERE id = goal_record.id;
+
+    UPDATE student_goals
+    SET progress_percentage = calculate_goal_progress(goal_record.id)
+    WHERE id = goal_record.id;
+
+    IF current_score >= goal_record.target_value THEN
+      UPDATE student_goals
+      SET status = 'completed',
+          completed_at = now()
+      WHERE id = goal_record.id;
+    END IF;
+
+    PERFORM detect_goal_achievements(student_user_id, goal_record.id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Merged or corrected scores move the average too
+DROP TRIGGER IF EXISTS refresh_student_goals_on_content_skill_score ON public.content_skill_scores;
+CREATE TRIGGER refresh_student_goals_on_content_skill_score
+  AFTER INSERT OR UPDATE OF score ON public.content_skill_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_student_goals_from_skill_score();
+
+DROP TRIGGER IF EXISTS refresh_student_goals_on_subject_skill_score ON public.subject_skill_scores;
+CREATE TRIGGER refresh_student_goals_on_subject_skill_score
+  AFTER INSERT OR UPDATE OF score ON public.subject_skill_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_student_goals_from_skill_score();
@@ -0,0 +1,180 @@
+-- Weekly guardian digests are built in the database every Monday instead of by whichever
+-- guardian opens the dashboard first, so every linked guardian gets one whether or not
+-- they visit, and guardians can no longer write (or rewrite) their own digests.
+
+DROP POLICY IF EXISTS "Guardians can manage digests for their linked students" ON public.guardian_digests;
+
+CREATE POLICY "Guardians can view digests for their linked students"
+  ON public.guardian_digests FOR SELECT
+  USING (auth.uid() = guardian_id AND public.is_guardian_of(student_profile_id));
+
+-- Summarize one student's week: scores against earlier results, skills that moved by at
+-- least 5 points, practice done, goals reached and up to three skills under 70 to work on
+-- at home. Keys match GuardianDigest in guardianService.
+CREATE OR REPLACE FUNCTION public.build_guardian_digest(p_student_profile_id UUID, p_week_start DATE)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH student AS (
+    SELECT id, authenticated_user_id FROM student_profiles WHERE id = p_student_profile_id
+  ),
+  bounds AS (
+    SELECT p_week_start::TIMESTAMPTZ AS week_start, (p_week_start + 7)::TIMESTAMPTZ AS week_end
+  ),
+  tests AS (
+    SELECT tr.overall_score, tr.created_at
+    FROM test_results tr, student s
+    WHERE tr.student_id = s.id
+       OR (s.authenticated_user_id IS NOT NULL AND tr.authenticated_student_id = s.authenticated_user_id)
+  ),
+  skill_scores AS (
+    SELECT css.skill_name, round(css.score::NUMERIC)::INTEGER AS score, css.created_at
+    FROM content_skill_scores css, student s
+    WHERE css.student_id = s.id
+       OR (s.authenticated_user_id IS NOT NULL AND css.authenticated_student_id = s.authenticated_user_id)
+    UNION ALL
+    SELECT sss.skill_name, round(sss.score::NUMERIC)::INTEGER, sss.created_at
+    FROM subject_skill_scores sss, student s
+    WHERE sss.student_id = s.id
+       OR (s.authenticated_user_id IS NOT NULL AND sss.authenticated_student_id = s.authenticated_user_id)
+  ),
+  before_week AS (
+    SELECT DISTINCT ON (skill_name) skill_name, score
+    FROM skill_scores, bounds
+    WHERE created_at < week_start
+    ORDER BY skill_name, created_at DESC
+  ),
+  during_week AS (
+    SELECT DISTINCT ON (skill_name) skill_name, score
+    FROM skill_scores, bounds
+    WHERE created_at >= week_start AND created_at < week_end
+    ORDER BY skill_name, created_at DESC
+  ),
+  current_scores AS (
+    SELECT DISTINCT ON (skill_name) skill_name, score
+    FROM skill_scores, bounds
+    WHERE created_at < week_end
+    ORDER BY skill_name, created_at DESC
+  ),
+  changes AS (
+    SELECT d.skill_name, b.score AS before_score, d.score AS after_score
+    FROM during_week d
+    JOIN before_week b USING (skill_name)
+  ),
+  practice AS (
+    SELECT sps.improvement_shown
+    FROM student_practice_sessions sps, student s, bounds
+    WHERE s.authenticated_user_id IS NOT NULL
+      AND sps.authenticated_student_id = s.authenticated_user_id
+      AND COALESCE(sps.completed_at, sps.created_at) >= week_start
+      AND COALESCE(sps.completed_at, sps.created_at) < week_end
+  ),
+  goals AS (
+    SELECT g.status, g.goal_title, g.target_skill_name, g.completed_at
+    FROM student_goals g, student s
+    WHERE s.authenticated_user_id IS NOT NULL
+      AND g.student_id = s.authenticated_user_id
+  ),
+  suggestions AS (
+    SELECT c.skill_name, c.score,
+           EXISTS (SELECT 1 FROM goals WHERE status = 'active' AND target_skill_name = c.skill_name) AS has_goal
+    FROM current_scores c
+    WHERE c.score < 70
+    ORDER BY c.score
+    LIMIT 3
+  )
+  SELECT jsonb_build_object(
+    'weekStart', to_char(p_week_start, 'YYYY-MM-DD'),
+    'testsTaken', (
+      SELECT count(*) FROM tests, bounds WHERE created_at >= week_start AND created_at < week_end
+    ),
+    'averageScore', (
+      SELECT round(avg(overall_score)::NUMERIC)::INTEGER
+      FROM tests, bounds
+      WHERE created_at >= week_start AND created_at < week_end
+    ),
+    'previousAverage', (
+      SELECT round(avg(overall_score)::NUMERIC)::INTEGER
+      FROM (
+        SELECT overall_score FROM tests, bounds
+        WHERE created_at < week_start
+        ORDER BY created_at DESC
+        LIMIT 5
+      ) recent
+    ),
+    'improvedSkills', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('skillName', skill_name, 'before', before_score, 'after', after_score)
+                       ORDER BY after_score - before_score DESC)
+      FROM changes
+      WHERE after_score - before_score >= 5
+    ), '[]'::JSONB),
+    'declinedSkills', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('skillName', skill_name, 'before', before_score, 'after', after_score)
+                       ORDER BY before_score - after_score DESC)
+      FROM changes
+      WHERE before_score - after_score >= 5
+    ), '[]'::JSONB),
+    'practiceSessions', (SELECT count(*) FROM practice),
+    'practiceImprovement', (SELECT round(avg(improvement_shown)::NUMERIC)::INTEGER FROM practice),
+    'goalsCompleted', COALESCE((
+      SELECT jsonb_agg(goal_title)
+      FROM goals, bounds
+      WHERE status = 'completed' AND completed_at >= week_start AND completed_at < week_end
+    ), '[]'::JSONB),
+    'activeGoals', (SELECT count(DISTINCT target_skill_name) FROM goals WHERE status = 'active'),
+    'suggestions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'skillName', skill_name,
+        'score', score,
+        'activity', CASE
+          WHEN score < 50 THEN format('Go over the basics of %s together for 15 minutes, then try two or three practice questions.', skill_name)
+          ELSE format('Ask them to explain a %s problem to you step by step, then try a short practice set.', skill_name)
+        END || CASE WHEN has_goal THEN ' This is one of their current goals.' ELSE '' END
+      ) ORDER BY score)
+      FROM suggestions
+    ), '[]'::JSONB)
+  );
+$$;
+
+-- Store the digest for every guardian link for one week (by default the week that just
+-- ended). Weeks that already have a digest are left alone, so reruns are harmless.
+CREATE OR REPLACE FUNCTION public.generate_guardian_digests(
+  p_week_start DATE DEFAULT (date_trunc('week', now()) - INTERVAL '7 days')::DATE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created INTEGER;
+BEGIN
+  WITH digests AS (
+    SELECT student_profile_id, public.build_guardian_digest(student_profile_id, p_week_start) AS summary
+    FROM (SELECT DISTINCT student_profile_id FROM guardian_links) linked
+  )
+  INSERT INTO guardian_digests (guardian_id, student_profile_id, week_start, summary)
+  SELECT gl.guardian_id, gl.student_profile_id, p_week_start, d.summary
+  FROM guardian_links gl
+  JOIN digests d ON d.student_profile_id = gl.student_profile_id
+  ON CONFLICT (guardian_id, student_profile_id, week_start) DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.build_guardian_digest(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_guardian_digests(DATE) FROM PUBLIC, anon, authenticated;
+
+-- Early Monday (UTC), once the week being summarized is over
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'generate-guardian-digests',
+  '0 5 * * 1',
+  $$SELECT public.generate_guardian_digests()$$
+);
@@ -0,0 +1,53 @@
+-- Quiz time limits were only counted down in the browser, so answers could still be
+-- saved and submitted long after the limit by skipping the page's timer. Answer writes
+-- are now refused once a session is past its exam's time limit, analyze-test refuses
+-- late submissions, and a session's start time can no longer be moved.
+
+-- True once a quiz session is past its exam's time limit. The minute of grace covers
+-- the last autosave and the automatic submission sent when the timer runs out.
+CREATE OR REPLACE FUNCTION public.quiz_session_expired(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT COALESCE(e.time_limit, 0) > 0
+       AND now() > s.started_at + make_interval(mins => e.time_limit) + INTERVAL '1 minute'
+    FROM student_quiz_sessions s
+    JOIN student_links sl ON sl.id = s.student_link_id
+    JOIN exams e ON e.exam_id = sl.exam_id
+    WHERE s.id = p_session_id
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_quiz_session_time_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The clock always runs from when the attempt was started
+  NEW.started_at := OLD.started_at;
+
+  IF NEW.answers IS DISTINCT FROM OLD.answers THEN
+    IF OLD.is_submitted THEN
+      RAISE EXCEPTION 'This quiz has already been submitted';
+    END IF;
+    IF public.quiz_session_expired(OLD.id) THEN
+      RAISE EXCEPTION 'The time limit for this quiz has passed';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_quiz_session_time_limit ON public.student_quiz_sessions;
+
+CREATE TRIGGER enforce_quiz_session_time_limit
+  BEFORE UPDATE ON public.student_quiz_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_quiz_session_time_limit();
@@ -0,0 +1,29 @@
+-- Batch grading only moved forward while a teacher's tab kept calling
+-- batch-queue-manager/grading/process. Workers now hand the queue on to each other on
+-- the server; this job restarts them every minute while papers are waiting or stuck in
+-- processing (a worker that hit the time limit), so nothing depends on an open tab.
+-- Reads the project URL and service role key from the vault secrets 'project_url' and
+-- 'service_role_key'.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-grading-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+           || '/functions/v1/batch-queue-manager/grading/process',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.file_jobs
+    WHERE status IN ('pending', 'processing') AND grading_job_id IS NOT NULL
+  )
+  $$
+);